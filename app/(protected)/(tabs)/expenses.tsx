@@ -3,6 +3,7 @@ import BankConnectionWizard from "@/components/banking/BankConnectionWizard";
 import BudgetCard from "@/components/budget/BudgetCard";
 import ExpenseItem from "@/components/expenses/ExpenseItem";
 import RecurringExpenseItem from "@/components/expenses/RecurringExpenseItem";
+import SyncStatusBanner from "@/components/expenses/SyncStatusBanner";
 import { Colors } from "@/constants/Colors";
 import { useAuth } from "@/context/AuthContext";
 import { useExpense } from "@/context/ExpenseContext";
@@ -15,6 +16,10 @@ import {
   calculateUserShare,
 } from "@/types/expense";
 import { formatCurrency } from "@/utils/currencyUtils";
+import {
+  getAverageOccurrencesPerMonth,
+  getRecurrenceRule,
+} from "@/utils/recurrenceUtils";
 import { Ionicons } from "@expo/vector-icons";
 import { Button, Layout, Tab, TabView, Text } from "@ui-kitten/components";
 import { useRouter } from "expo-router";
@@ -400,22 +405,10 @@ export default function ExpensesScreen() {
       );
       const userShare = participant?.share_amount || 0;
 
-      // Convert to monthly amount based on interval
-      let monthlyAmount = userShare;
-      switch (expense.data.interval) {
-        case "daily":
-          monthlyAmount = userShare * 30;
-          break;
-        case "weekly":
-          monthlyAmount = userShare * 4.33; // Average weeks per month
-          break;
-        case "monthly":
-          monthlyAmount = userShare;
-          break;
-        case "yearly":
-          monthlyAmount = userShare / 12;
-          break;
-      }
+      // Convert to monthly amount based on the recurrence rule
+      const monthlyAmount =
+        userShare *
+        getAverageOccurrencesPerMonth(getRecurrenceRule(expense.data));
 
       return total + monthlyAmount;
     }, 0);
@@ -663,6 +656,8 @@ export default function ExpensesScreen() {
         </View>
       )}
 
+      <SyncStatusBanner />
+
       <TabView
         selectedIndex={selectedIndex}
         onSelect={(index) => setSelectedIndex(index)}
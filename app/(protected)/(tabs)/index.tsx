@@ -15,6 +15,7 @@ import { SafeAreaView } from "react-native-safe-area-context";
 
 import AuthSetupLoader from "@/components/auth/AuthSetupLoader";
 import BudgetCard from "@/components/budget/BudgetCard";
+import NetWorthCard from "@/components/networth/NetWorthCard";
 import { Colors } from "@/constants/Colors";
 import { useColorScheme } from "@/hooks/useColorScheme";
 
@@ -68,6 +69,8 @@ export default function HomeScreen() {
 
         <BudgetCard />
 
+        <NetWorthCard />
+
         <View
           style={[
             styles.guidesCtaCard,
@@ -9,6 +9,11 @@ import { useColorScheme } from "@/hooks/useColorScheme";
 import { InvestmentWithDecryptedData } from "@/types/investment";
 import { formatCurrency } from "@/utils/currencyUtils";
 import { calculateInvestmentStatistics } from "@/utils/financeUtils";
+import {
+  getUpcomingMaturities,
+  hasMaturityDate,
+  MATURITY_REMINDER_DAYS,
+} from "@/utils/maturityUtils";
 import { formatPercentage } from "@/utils/stringUtils";
 import { Ionicons } from "@expo/vector-icons";
 import {
@@ -148,6 +153,20 @@ export default function InvestmentsScreen() {
     }, 0);
   }, [portfolios, selectedPortfolio]);
 
+  // Fixed-income holdings and the ones maturing soon
+  const hasMaturingHoldings = filteredInvestments.some(
+    (investment) =>
+      hasMaturityDate(investment.data.type) && investment.data.maturity_date,
+  );
+  const upcomingMaturitiesCount = React.useMemo(
+    () =>
+      getUpcomingMaturities(
+        filteredInvestments,
+        new Date().toISOString().split("T")[0],
+      ).length,
+    [filteredInvestments],
+  );
+
   const totalPortfolioValue = portfolioStats.totalValue;
   const totalGainLoss = portfolioStats.totalGainLoss;
 
@@ -273,6 +292,64 @@ export default function InvestmentsScreen() {
               {t("investments.seeMoreStats")}
             </Text>
           </TouchableOpacity>
+
+          {/* Income calendar button */}
+          <TouchableOpacity
+            style={[
+              styles.statsButton,
+              {
+                backgroundColor: colors.background,
+                borderColor: colors.border,
+              },
+            ]}
+            onPress={() =>
+              router.push({
+                pathname: "/(protected)/income-calendar",
+                params: selectedPortfolio
+                  ? { portfolioId: selectedPortfolio.id }
+                  : {},
+              })
+            }
+          >
+            <Ionicons
+              name="calendar-outline"
+              size={16}
+              color={colors.primary}
+            />
+            <Text style={[styles.statsButtonText, { color: colors.primary }]}>
+              {t("investments.incomeCalendar")}
+            </Text>
+          </TouchableOpacity>
+
+          {/* Maturity ladder button */}
+          {hasMaturingHoldings && (
+            <TouchableOpacity
+              style={[
+                styles.statsButton,
+                {
+                  backgroundColor: colors.background,
+                  borderColor: colors.border,
+                },
+              ]}
+              onPress={() =>
+                router.push({
+                  pathname: "/(protected)/maturity-ladder",
+                  params: selectedPortfolio
+                    ? { portfolioId: selectedPortfolio.id }
+                    : {},
+                })
+              }
+            >
+              <Ionicons
+                name="layers-outline"
+                size={16}
+                color={colors.primary}
+              />
+              <Text style={[styles.statsButtonText, { color: colors.primary }]}>
+                {t("investments.maturityLadder")}
+              </Text>
+            </TouchableOpacity>
+          )}
         </View>
       </View>
     );
@@ -386,6 +463,34 @@ export default function InvestmentsScreen() {
         </View>
       )}
 
+      {upcomingMaturitiesCount > 0 && (
+        <TouchableOpacity
+          style={[
+            styles.syncAlert,
+            {
+              backgroundColor: colors.warning + "15",
+              borderColor: colors.warning + "30",
+            },
+          ]}
+          onPress={() =>
+            router.push({
+              pathname: "/(protected)/maturity-ladder",
+              params: selectedPortfolio
+                ? { portfolioId: selectedPortfolio.id }
+                : {},
+            })
+          }
+        >
+          <Ionicons name="alarm-outline" size={16} color={colors.warning} />
+          <Text style={[styles.syncAlertText, { color: colors.warning }]}>
+            {t("investments.maturingSoon", {
+              count: upcomingMaturitiesCount,
+              days: MATURITY_REMINDER_DAYS,
+            })}
+          </Text>
+        </TouchableOpacity>
+      )}
+
       {filteredInvestments.length === 0 ? (
         <ScrollView
           style={styles.list}
@@ -51,6 +51,16 @@ export default function MoreScreen() {
         router.push("/(protected)/guides");
       },
     },
+    {
+      key: "goals",
+      title: t("navigation.goals"),
+      icon: ({ color, size }) => (
+        <Ionicons name="flag-outline" color={color} size={size} />
+      ),
+      onPress: () => {
+        router.push("/(protected)/goals");
+      },
+    },
     {
       key: "expenses-preferences",
       title: t("profile.expensePreferences"),
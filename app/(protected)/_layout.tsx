@@ -3,6 +3,7 @@ import { useAuth } from "@/context/AuthContext";
 import { ProfileProvider } from "@/context/ProfileContext";
 import { ExpenseProvider } from "@/context/ExpenseContext";
 import { InvestmentProvider } from "@/context/InvestmentContext";
+import { LiabilityProvider } from "@/context/LiabilityContext";
 import { Redirect, Stack } from "expo-router";
 import { useIntro } from "@/hooks/useIntro";
 import IntroScreen from "@/components/intro/IntroScreen";
@@ -50,14 +51,16 @@ export default function ProtectedLayout() {
         <GuideProvider>
           <ExpenseProvider>
             <InvestmentProvider>
-              <OnboardingGuard>
-                <Stack
-                  screenOptions={{
-                    headerShown: false,
-                  }}
-                />
-                <VersionGuard />
-              </OnboardingGuard>
+              <LiabilityProvider>
+                <OnboardingGuard>
+                  <Stack
+                    screenOptions={{
+                      headerShown: false,
+                    }}
+                  />
+                  <VersionGuard />
+                </OnboardingGuard>
+              </LiabilityProvider>
             </InvestmentProvider>
           </ExpenseProvider>
         </GuideProvider>
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from "react";
+import React, { useState, useEffect } from "react";
 import {
   StyleSheet,
   ScrollView,
@@ -31,11 +31,15 @@ import { Colors } from "@/constants/Colors";
 import { useLocalization } from "@/context/LocalizationContext";
 import {
   ExpenseData,
+  ExpenseReceipt,
+  ReceiptImage,
   RecurringExpenseData,
   CURRENCIES,
   SPLIT_METHODS,
+  EXPENSE_SPLIT_METHODS,
+  ExpenseItemization,
   ExpenseParticipant,
-  calculateEqualSplit,
+  SplitMethod,
   calculateNextDueDate,
   computeExpenseCategories,
   getMainCategories,
@@ -45,7 +49,20 @@ import {
 } from "@/types/expense";
 import { Ionicons } from "@expo/vector-icons";
 import { ThemedView } from "@/components/ThemedView";
+import ItemizedSplitEditor from "@/components/expenses/ItemizedSplitEditor";
+import ReceiptPicker from "@/components/expenses/ReceiptPicker";
 import { normalizeDecimalForParsing } from "@/utils/stringUtils";
+import {
+  calculateItemizedShares,
+  getItemizationTotal,
+  getUnassignedItems,
+} from "@/utils/itemizationUtils";
+import {
+  calculateSplit,
+  getDefaultSplitPercentages,
+  getDefaultSplitWeight,
+  getUnassignedPercentage,
+} from "@/utils/splitUtils";
 
 export default function AddExpenseScreen() {
   const router = useRouter();
@@ -56,7 +73,13 @@ export default function AddExpenseScreen() {
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? "light"];
   const { user } = useAuth();
-  const { expensesGroups, addExpense, addRecurringExpense } = useExpense();
+  const {
+    expensesGroups,
+    addExpense,
+    addRecurringExpense,
+    uploadReceipt,
+    deleteReceipt,
+  } = useExpense();
   const { userProfile } = useProfile();
   const { t } = useLocalization();
 
@@ -141,7 +164,12 @@ export default function AddExpenseScreen() {
   const [customAmounts, setCustomAmounts] = useState<{
     [userId: string]: string;
   }>({});
+  const [splitInputs, setSplitInputs] = useState<{
+    [userId: string]: string;
+  }>({});
   const [shouldGenerateExpenses, setShouldGenerateExpenses] = useState(true);
+  const [receiptImage, setReceiptImage] = useState<ReceiptImage | null>(null);
+  const [itemization, setItemization] = useState<ExpenseItemization>();
 
   // Filter out groups that are confirmed
   const availableGroups = React.useMemo(() => {
@@ -189,6 +217,11 @@ export default function AddExpenseScreen() {
     return selectedGroup?.members || [];
   }, [selectedGroupIndex, availableGroups]);
 
+  const currentGroupData = React.useMemo(() => {
+    if (!selectedGroupIndex || !availableGroups.length) return undefined;
+    return availableGroups[selectedGroupIndex.row]?.data;
+  }, [selectedGroupIndex, availableGroups]);
+
   // Update currency when group is selected
   useEffect(() => {
     if (selectedGroupIndex && availableGroups.length > 0) {
@@ -227,13 +260,23 @@ export default function AddExpenseScreen() {
 
       // Initialize all members as participants for multi-member groups
       if (currentGroupMembers.length > 1) {
+        const percentages = getDefaultSplitPercentages(
+          currentGroupData,
+          currentGroupMembers.map((member) => member.user_id),
+        );
         const initialParticipants: ExpenseParticipant[] =
-          currentGroupMembers.map((member) => ({
+          currentGroupMembers.map((member, index) => ({
             user_id: member.user_id,
             username: member.username,
             share_amount: 1, // Set to 1 to make them active by default
+            share_weight: getDefaultSplitWeight(
+              currentGroupData,
+              member.user_id,
+            ),
+            share_percentage: percentages[index],
           }));
         setParticipants(initialParticipants);
+        setSplitInputs({});
       } else {
         // For single-member groups, only include that member and make them active
         const singleParticipant: ExpenseParticipant[] = [
@@ -246,54 +289,52 @@ export default function AddExpenseScreen() {
         setParticipants(singleParticipant);
       }
     }
-  }, [currentGroupMembers, user?.id]);
-
-  const recalculateShares = useCallback(
-    (newAmount?: string) => {
-      const amountToUse = newAmount ?? amount;
-      const totalAmount = Number(normalizeDecimalForParsing(amountToUse));
-      if (!amountToUse || isNaN(totalAmount) || totalAmount <= 0) return;
-      const splitMethod =
-        SPLIT_METHODS[selectedSplitMethodIndex.row]?.value || "equal";
-
-      if (splitMethod === "equal") {
-        setParticipants((prev) => {
-          const activeParticipants = prev.filter((p) => p.share_amount > 0);
-          if (activeParticipants.length > 0) {
-            const sharePerPerson = calculateEqualSplit(
-              totalAmount,
-              activeParticipants.length,
-            );
-            return prev.map((p) => {
-              if (p.share_amount > 0) {
-                return { ...p, share_amount: sharePerPerson };
-              }
-              return p; // Keep deselected participants at 0
-            });
-          }
-          return prev; // No active participants, keep current state
-        });
-      }
-    },
-    [amount, selectedSplitMethodIndex.row],
-  );
+  }, [currentGroupMembers, currentGroupData, user?.id]);
 
-  useEffect(() => {
-    if (participants.length > 0 && amount) {
-      recalculateShares();
-    }
-  }, [amount, participants.length, recalculateShares]);
+  const selectedSplitMethod =
+    EXPENSE_SPLIT_METHODS[selectedSplitMethodIndex.row]?.value || "equal";
 
-  const handleAmountChange = (newAmount: string) => {
-    setAmount(newAmount);
-    recalculateShares(newAmount);
-  };
+  // Active participants with their share of the amount for the split method
+  const splitParticipants = React.useMemo(() => {
+    const activeParticipants = participants.filter((p) => p.share_amount > 0);
+    if (selectedSplitMethod === "itemized") return activeParticipants;
+    const totalAmount = Number(normalizeDecimalForParsing(amount)) || 0;
+    return calculateSplit(totalAmount, activeParticipants, selectedSplitMethod);
+  }, [participants, amount, selectedSplitMethod]);
 
   const handleSplitMethodChange = (index: IndexPath) => {
+    // Start custom amounts from the split shown so far
+    if (EXPENSE_SPLIT_METHODS[index.row]?.value === "custom") {
+      setParticipants((prev) =>
+        prev.map((p) => {
+          const split = splitParticipants.find((s) => s.user_id === p.user_id);
+          return split && split.share_amount > 0
+            ? { ...p, share_amount: split.share_amount }
+            : p;
+        }),
+      );
+      setCustomAmounts({});
+    }
+    setSplitInputs({});
     setSelectedSplitMethodIndex(index);
-    recalculateShares();
   };
 
+  // Itemized bills are one-off, fall back to an equal split when recurring
+  const handleRecurringChange = (checked: boolean) => {
+    setIsRecurring(checked);
+    if (checked && selectedSplitMethodIndex.row >= SPLIT_METHODS.length) {
+      setSelectedSplitMethodIndex(new IndexPath(0));
+    }
+  };
+
+  const handleItemizationChange = (value: ExpenseItemization) => {
+    setItemization(value);
+    const total = getItemizationTotal(value);
+    setAmount(total > 0 ? total.toFixed(2) : "");
+  };
+
+  const isItemized = selectedSplitMethod === "itemized";
+
   const navigateBack = () => {
     router.back();
   };
@@ -327,13 +368,44 @@ export default function AddExpenseScreen() {
       return false;
     }
 
+    if (isItemized) {
+      if (!itemization || itemization.items.length === 0) {
+        Alert.alert(t("validation.error"), t("itemizedSplit.itemsRequired"));
+        return false;
+      }
+      const memberIds = currentGroupMembers.map((member) => member.user_id);
+      if (getUnassignedItems(itemization, memberIds).length > 0) {
+        Alert.alert(t("validation.error"), t("itemizedSplit.assignAllItems"));
+        return false;
+      }
+      return true;
+    }
+
     // Validate participants and shares
-    const activeParticipants = participants.filter((p) => p.share_amount > 0);
+    const activeParticipants = splitParticipants;
     if (activeParticipants.length === 0) {
       Alert.alert(t("validation.error"), t("validation.participantRequired"));
       return false;
     }
 
+    if (selectedSplitMethod === "percentage") {
+      const remaining = getUnassignedPercentage(activeParticipants);
+      if (remaining !== 0) {
+        Alert.alert(
+          t("validation.error"),
+          t("validation.percentagesMustTotal", { remaining }),
+        );
+        return false;
+      }
+    }
+    if (
+      selectedSplitMethod === "shares" &&
+      activeParticipants.every((p) => p.share_amount === 0)
+    ) {
+      Alert.alert(t("validation.error"), t("validation.sharesRequired"));
+      return false;
+    }
+
     const totalShares = activeParticipants.reduce(
       (sum, p) => sum + p.share_amount,
       0,
@@ -366,9 +438,25 @@ export default function AddExpenseScreen() {
         availablePaymentMethods[selectedPaymentMethodIndex.row];
       const selectedCurrency = CURRENCIES[selectedCurrencyIndex.row];
       const selectedPayer = currentGroupMembers[selectedPayerIndex!.row];
-      const selectedSplitMethod = SPLIT_METHODS[selectedSplitMethodIndex.row];
 
-      const activeParticipants = participants.filter((p) => p.share_amount > 0);
+      const activeParticipants =
+        isItemized && itemization
+          ? calculateItemizedShares(itemization, currentGroupMembers)
+          : splitParticipants;
+
+      // Upload the receipt first so a failed upload leaves nothing behind
+      let receipt: ExpenseReceipt | undefined;
+      if (receiptImage) {
+        const receiptResult = await uploadReceipt(
+          selectedGroup.id,
+          receiptImage,
+        );
+        if (!receiptResult.success || !receiptResult.data) {
+          Alert.alert(t("alerts.error"), t("receipts.uploadFailed"));
+          return;
+        }
+        receipt = receiptResult.data;
+      }
 
       if (isRecurring) {
         // Create recurring expense entry
@@ -385,7 +473,7 @@ export default function AddExpenseScreen() {
           payer_user_id: selectedPayer.user_id,
           payer_username: selectedPayer.username,
           participants: activeParticipants,
-          split_method: selectedSplitMethod.value as "equal" | "custom",
+          split_method: selectedSplitMethod as SplitMethod,
           interval: recurringInterval as
             | "daily"
             | "weekly"
@@ -404,6 +492,9 @@ export default function AddExpenseScreen() {
         );
 
         if (!recurringResult) {
+          if (receipt) {
+            await deleteReceipt(selectedGroup.id, receipt.attachment_id);
+          }
           Alert.alert(
             t("alerts.error"),
             t("alerts.recurringExpenseCreateFailed"),
@@ -422,11 +513,12 @@ export default function AddExpenseScreen() {
           is_recurring: false,
           recurring_expense_id: recurringResult.id,
           currency: selectedCurrency.value,
+          receipt,
           status: "completed",
           payer_user_id: selectedPayer.user_id,
           payer_username: selectedPayer.username,
           participants: activeParticipants,
-          split_method: selectedSplitMethod.value as "equal" | "custom",
+          split_method: selectedSplitMethod as SplitMethod,
         };
 
         const expenseResult = await addExpense(selectedGroup.id, expenseData);
@@ -449,11 +541,13 @@ export default function AddExpenseScreen() {
           payment_method: selectedPaymentMethod.id,
           is_recurring: false,
           currency: selectedCurrency.value,
+          receipt,
           status: "completed",
           payer_user_id: selectedPayer.user_id,
           payer_username: selectedPayer.username,
           participants: activeParticipants,
-          split_method: selectedSplitMethod.value as "equal" | "custom",
+          split_method: selectedSplitMethod,
+          itemization: isItemized ? itemization : undefined,
         };
 
         const result = await addExpense(selectedGroup.id, expenseData);
@@ -461,6 +555,9 @@ export default function AddExpenseScreen() {
         if (result) {
           router.back();
         } else {
+          if (receipt) {
+            await deleteReceipt(selectedGroup.id, receipt.attachment_id);
+          }
           Alert.alert(t("alerts.error"), t("alerts.expenseAddFailed"));
         }
       }
@@ -473,37 +570,15 @@ export default function AddExpenseScreen() {
   };
 
   const toggleParticipant = (userId: string) => {
-    const totalAmount = Number(normalizeDecimalForParsing(amount)) || 0;
-    const splitMethod =
-      SPLIT_METHODS[selectedSplitMethodIndex.row]?.value || "equal";
-
-    setParticipants((prev) => {
-      const updated = prev.map((p) => {
+    setParticipants((prev) =>
+      prev.map((p) => {
         if (p.user_id === userId) {
           const isCurrentlyActive = p.share_amount > 0;
           return { ...p, share_amount: isCurrentlyActive ? 0 : 1 }; // Set to 1 when activating
         }
         return p;
-      });
-
-      if (splitMethod === "equal" && totalAmount > 0) {
-        const activeParticipants = updated.filter((p) => p.share_amount > 0);
-        if (activeParticipants.length > 0) {
-          const sharePerPerson = calculateEqualSplit(
-            totalAmount,
-            activeParticipants.length,
-          );
-          return updated.map((p) => {
-            if (p.share_amount > 0) {
-              return { ...p, share_amount: sharePerPerson };
-            }
-            return p;
-          });
-        }
-      }
-
-      return updated;
-    });
+      }),
+    );
   };
 
   const updateCustomAmount = (userId: string, amountStr: string) => {
@@ -516,6 +591,22 @@ export default function AddExpenseScreen() {
     setCustomAmounts((prev) => ({ ...prev, [userId]: amountStr }));
   };
 
+  const updateSplitInput = (userId: string, valueStr: string) => {
+    const value = Math.max(
+      Number(normalizeDecimalForParsing(valueStr)) || 0,
+      0,
+    );
+    setParticipants((prev) =>
+      prev.map((p) => {
+        if (p.user_id !== userId) return p;
+        return selectedSplitMethod === "shares"
+          ? { ...p, share_weight: value }
+          : { ...p, share_percentage: value };
+      }),
+    );
+    setSplitInputs((prev) => ({ ...prev, [userId]: valueStr }));
+  };
+
   const renderBackAction = () => (
     <TouchableOpacity onPress={navigateBack} style={styles.backButton}>
       <Ionicons name="arrow-back" size={24} color={colors.icon} />
@@ -529,8 +620,7 @@ export default function AddExpenseScreen() {
   const renderSharingSection = () => {
     if (currentGroupMembers.length <= 1) return null;
 
-    const splitMethod =
-      SPLIT_METHODS[selectedSplitMethodIndex.row]?.value || "equal";
+    const splitMethod = selectedSplitMethod;
 
     return (
       <View
@@ -571,94 +661,145 @@ export default function AddExpenseScreen() {
           value={
             selectedSplitMethodIndex
               ? t(
-                  `addExpense.splitMethods.${SPLIT_METHODS[selectedSplitMethodIndex.row]?.value}`,
+                  `addExpense.splitMethods.${EXPENSE_SPLIT_METHODS[selectedSplitMethodIndex.row]?.value}`,
                 )
               : ""
           }
           selectedIndex={selectedSplitMethodIndex}
           onSelect={(index) => handleSplitMethodChange(index as IndexPath)}
         >
-          {SPLIT_METHODS.map((method) => (
-            <SelectItem
-              key={method.value}
-              title={t(`addExpense.splitMethods.${method.value}`)}
-            />
-          ))}
+          {(isRecurring ? SPLIT_METHODS : EXPENSE_SPLIT_METHODS).map(
+            (method) => (
+              <SelectItem
+                key={method.value}
+                title={t(`addExpense.splitMethods.${method.value}`)}
+              />
+            ),
+          )}
         </Select>
 
-        <Layout
-          style={[
-            styles.participantsContainer,
-            { backgroundColor: colors.card, shadowColor: colors.text },
-          ]}
-        >
-          <Text category="s1" style={styles.participantsTitle}>
-            {t("addExpense.shareWith", {
-              activeCount: participants.filter((p) => p.share_amount > 0)
-                .length,
-              totalCount: currentGroupMembers.length,
-            })}
-          </Text>
-
-          {currentGroupMembers.map((member) => {
-            const participant = participants.find(
-              (p) => p.user_id === member.user_id,
-            );
-            const isActive = participant && participant.share_amount > 0;
-            const shareAmount = participant?.share_amount || 0;
-
-            return (
-              <Layout
-                key={member.user_id}
-                style={[
-                  styles.participantRow,
-                  { backgroundColor: colors.card, shadowColor: colors.text },
-                ]}
-              >
-                <CheckBox
-                  checked={!!isActive}
-                  onChange={() => toggleParticipant(member.user_id)}
-                  style={styles.participantCheckbox}
-                />
+        {isItemized ? (
+          <ItemizedSplitEditor
+            members={currentGroupMembers}
+            initialValue={itemization}
+            currency={CURRENCIES[selectedCurrencyIndex.row]?.value}
+            onChange={handleItemizationChange}
+          />
+        ) : (
+          <Layout
+            style={[
+              styles.participantsContainer,
+              { backgroundColor: colors.card, shadowColor: colors.text },
+            ]}
+          >
+            <Text category="s1" style={styles.participantsTitle}>
+              {t("addExpense.shareWith", {
+                activeCount: participants.filter((p) => p.share_amount > 0)
+                  .length,
+                totalCount: currentGroupMembers.length,
+              })}
+            </Text>
+
+            {currentGroupMembers.map((member) => {
+              const participant = participants.find(
+                (p) => p.user_id === member.user_id,
+              );
+              const isActive = participant && participant.share_amount > 0;
+              const shareAmount = participant?.share_amount || 0;
+              const splitAmount =
+                splitParticipants.find((p) => p.user_id === member.user_id)
+                  ?.share_amount || 0;
+              const splitValue =
+                splitMethod === "shares"
+                  ? participant?.share_weight
+                  : participant?.share_percentage;
+
+              return (
                 <Layout
+                  key={member.user_id}
                   style={[
-                    styles.participantInfo,
+                    styles.participantRow,
                     { backgroundColor: colors.card, shadowColor: colors.text },
                   ]}
                 >
-                  <Text category="s1">
-                    {member.username}
-                    {member.status === "pending" ? t("addExpense.pending") : ""}
-                  </Text>
-                  {member.user_id === user?.id && (
-                    <Text category="c1" appearance="hint">
-                      ({t("addExpense.you")})
+                  <CheckBox
+                    checked={!!isActive}
+                    onChange={() => toggleParticipant(member.user_id)}
+                    style={styles.participantCheckbox}
+                  />
+                  <Layout
+                    style={[
+                      styles.participantInfo,
+                      {
+                        backgroundColor: colors.card,
+                        shadowColor: colors.text,
+                      },
+                    ]}
+                  >
+                    <Text category="s1">
+                      {member.username}
+                      {member.status === "pending"
+                        ? t("addExpense.pending")
+                        : ""}
+                    </Text>
+                    {member.user_id === user?.id && (
+                      <Text category="c1" appearance="hint">
+                        ({t("addExpense.you")})
+                      </Text>
+                    )}
+                  </Layout>
+                  {splitMethod === "custom" && isActive && (
+                    <Input
+                      style={styles.customAmountInput}
+                      placeholder={t("addExpense.amountPlaceholder")}
+                      value={
+                        customAmounts[member.user_id] || shareAmount.toString()
+                      }
+                      onChangeText={(text) =>
+                        updateCustomAmount(member.user_id, text)
+                      }
+                      keyboardType="decimal-pad"
+                      size="small"
+                    />
+                  )}
+                  {(splitMethod === "shares" || splitMethod === "percentage") &&
+                    isActive && (
+                      <Input
+                        style={styles.splitValueInput}
+                        placeholder={
+                          splitMethod === "shares"
+                            ? t("addExpense.sharesPlaceholder")
+                            : t("addExpense.percentagePlaceholder")
+                        }
+                        value={
+                          splitInputs[member.user_id] ??
+                          (splitValue ?? "").toString()
+                        }
+                        onChangeText={(text) =>
+                          updateSplitInput(member.user_id, text)
+                        }
+                        keyboardType="decimal-pad"
+                        size="small"
+                      />
+                    )}
+                  {splitMethod !== "custom" && isActive && (
+                    <Text category="s1" style={styles.shareAmount}>
+                      {splitAmount.toFixed(2)}
                     </Text>
                   )}
                 </Layout>
-                {splitMethod === "custom" && isActive && (
-                  <Input
-                    style={styles.customAmountInput}
-                    placeholder={t("addExpense.amountPlaceholder")}
-                    value={
-                      customAmounts[member.user_id] || shareAmount.toString()
-                    }
-                    onChangeText={(text) =>
-                      updateCustomAmount(member.user_id, text)
-                    }
-                    keyboardType="decimal-pad"
-                    size="small"
-                  />
-                )}
-                {splitMethod !== "custom" && isActive && (
-                  <Text category="s1" style={styles.shareAmount}>
-                    {shareAmount.toFixed(2)}
-                  </Text>
-                )}
-              </Layout>
-            );
-          })}
-        </Layout>
+              );
+            })}
+            {splitMethod === "percentage" &&
+              getUnassignedPercentage(splitParticipants) !== 0 && (
+                <Text category="c1" status="warning" style={styles.splitHint}>
+                  {t("addExpense.percentageRemaining", {
+                    remaining: getUnassignedPercentage(splitParticipants),
+                  })}
+                </Text>
+              )}
+          </Layout>
+        )}
       </View>
     );
   };
@@ -753,8 +894,12 @@ export default function AddExpenseScreen() {
               label={t("addExpense.amountLabel")}
               placeholder={t("addExpense.amountPlaceholder")}
               value={amount}
-              onChangeText={handleAmountChange}
+              onChangeText={setAmount}
               keyboardType="decimal-pad"
+              disabled={isItemized}
+              caption={
+                isItemized ? t("itemizedSplit.amountCaption") : undefined
+              }
               status={
                 amount.trim() &&
                 !isNaN(Number(normalizeDecimalForParsing(amount))) &&
@@ -877,7 +1022,7 @@ export default function AddExpenseScreen() {
                   {t("addExpense.recurringExpenseDescription")}
                 </Text>
               </Layout>
-              <Toggle checked={isRecurring} onChange={setIsRecurring} />
+              <Toggle checked={isRecurring} onChange={handleRecurringChange} />
             </Layout>
 
             {isRecurring && (
@@ -934,6 +1079,13 @@ export default function AddExpenseScreen() {
             )}
           </View>
 
+          <ReceiptPicker
+            draft={receiptImage}
+            hasSavedReceipt={false}
+            onPick={setReceiptImage}
+            onRemove={() => setReceiptImage(null)}
+          />
+
           <Button
             style={styles.submitButton}
             size="large"
@@ -1066,6 +1218,14 @@ const styles = StyleSheet.create({
     marginLeft: 12,
     borderRadius: 8,
   },
+  splitValueInput: {
+    width: 64,
+    marginLeft: 12,
+    borderRadius: 8,
+  },
+  splitHint: {
+    marginTop: 8,
+  },
   shareAmount: {
     marginLeft: 12,
     minWidth: 70,
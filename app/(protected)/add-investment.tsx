@@ -37,6 +37,8 @@ import {
   calculateIndividualInvestmentReturns,
   InvestmentStats,
 } from "@/utils/financeUtils";
+import { isDebtInvestment } from "@/utils/investmentUtils";
+import { hasMaturityDate } from "@/utils/maturityUtils";
 import {
   formatStringWithoutSpacesAndSpecialChars,
   normalizeDecimalForParsing,
@@ -103,6 +105,7 @@ export default function AddInvestmentScreen() {
     notes: "",
     interest_rate: "",
     maturity_date: new Date(Date.now() + 5 * 365 * 24 * 60 * 60 * 1000), // 5 years from now
+    face_value: "",
   });
 
   const [searchQuery, setSearchQuery] = useState("");
@@ -167,13 +170,22 @@ export default function AddInvestmentScreen() {
     }
 
     if (
-      selectedType.id === "bond" &&
+      hasMaturityDate(selectedType.id) &&
       formData.maturity_date &&
       formData.maturity_date <= formData.purchase_date
     ) {
       newErrors.maturity_date = t("addInvestment.maturityDateAfterPurchase");
     }
 
+    if (
+      hasMaturityDate(selectedType.id) &&
+      formData.face_value &&
+      (isNaN(Number(normalizeDecimalForParsing(formData.face_value))) ||
+        Number(normalizeDecimalForParsing(formData.face_value)) <= 0)
+    ) {
+      newErrors.face_value = t("addInvestment.faceValueValid");
+    }
+
     if (!selectedPortfolio) {
       newErrors.portfolio = t("addInvestment.selectPortfolioRequired");
     }
@@ -290,9 +302,13 @@ export default function AddInvestmentScreen() {
           ? Number(normalizeDecimalForParsing(formData.interest_rate))
           : null,
         maturity_date:
-          selectedType.id === "bond" && formData.maturity_date
+          hasMaturityDate(selectedType.id) && formData.maturity_date
             ? formData.maturity_date.toISOString()
             : null,
+        face_value:
+          hasMaturityDate(selectedType.id) && formData.face_value
+            ? Number(normalizeDecimalForParsing(formData.face_value))
+            : null,
         taxation: formData.taxation
           ? Number(normalizeDecimalForParsing(formData.taxation))
           : 0,
@@ -658,7 +674,18 @@ export default function AddInvestmentScreen() {
               placeholder={t("addInvestment.selectType")}
               value={selectedTypeName || ""}
               selectedIndex={selectedTypeIndex}
-              onSelect={(index) => setSelectedTypeIndex(index as IndexPath)}
+              onSelect={(index) => {
+                const type = INVESTMENT_TYPES[(index as IndexPath).row];
+                // Loans have their own form with the repayment terms
+                if (isDebtInvestment(type.id)) {
+                  router.replace({
+                    pathname: "/(protected)/edit-loan",
+                    params: { portfolioId: selectedPortfolio?.id },
+                  });
+                  return;
+                }
+                setSelectedTypeIndex(index as IndexPath);
+              }}
             >
               {INVESTMENT_TYPES.map((type, index) => (
                 <SelectItem
@@ -806,9 +833,7 @@ export default function AddInvestmentScreen() {
               <Text style={styles.errorText}>{errors.interest_rate}</Text>
             )}
 
-            {(selectedType.id === "bond" ||
-              selectedType.id === "certificate" ||
-              selectedType.id === "savingsAccount") && (
+            {hasMaturityDate(selectedType.id) && (
               <>
                 <Datepicker
                   style={styles.input}
@@ -828,6 +853,21 @@ export default function AddInvestmentScreen() {
                 {errors.maturity_date && (
                   <Text style={styles.errorText}>{errors.maturity_date}</Text>
                 )}
+
+                <Input
+                  style={styles.input}
+                  label={t("addInvestment.faceValue")}
+                  placeholder={t("addInvestment.faceValuePlaceholder")}
+                  value={formData.face_value}
+                  onChangeText={(text) =>
+                    setFormData((prev) => ({ ...prev, face_value: text }))
+                  }
+                  keyboardType="decimal-pad"
+                  status={errors.face_value ? "danger" : "basic"}
+                />
+                {errors.face_value && (
+                  <Text style={styles.errorText}>{errors.face_value}</Text>
+                )}
               </>
             )}
 
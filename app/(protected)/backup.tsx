@@ -0,0 +1,484 @@
+import { Colors } from "@/constants/Colors";
+import { useAuth } from "@/context/AuthContext";
+import { useEncryption } from "@/context/EncryptionContext";
+import { useExpense } from "@/context/ExpenseContext";
+import { useInvestment } from "@/context/InvestmentContext";
+import { useLiability } from "@/context/LiabilityContext";
+import { useLocalization } from "@/context/LocalizationContext";
+import { useProfile } from "@/context/ProfileContext";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import { apiExportBackup, apiRestoreBackup } from "@/services/backupService";
+import {
+  BackupArchive,
+  getBackupFileName,
+  isEncryptedBackupFile,
+  mergeBackupProfile,
+  parseBackupArchive,
+  serializeBackupArchive,
+  summarizeBackupArchive,
+} from "@/utils/backupUtils";
+import { Ionicons } from "@expo/vector-icons";
+import {
+  Button,
+  Input,
+  Spinner,
+  Text,
+  TopNavigation,
+} from "@ui-kitten/components";
+import * as DocumentPicker from "expo-document-picker";
+import * as FileSystem from "expo-file-system";
+import { useRouter } from "expo-router";
+import * as Sharing from "expo-sharing";
+import React, { useState } from "react";
+import {
+  Alert,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+export default function BackupScreen() {
+  const router = useRouter();
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+  const { t } = useLocalization();
+  const { user, publicKey, encryptData, decryptData } = useAuth();
+  const { userProfile, updateProfile } = useProfile();
+  const { expensesGroups, refreshExpenses } = useExpense();
+  const { portfolios, fetchPortfolios } = useInvestment();
+  const { fetchLiabilities } = useLiability();
+  const {
+    createEncryptionKey,
+    decryptWithPrivateKey,
+    decryptWithExternalEncryptionKey,
+    encryptWithExternalPublicKey,
+    encryptWithExternalEncryptionKey,
+  } = useEncryption();
+
+  const [exportPassphrase, setExportPassphrase] = useState("");
+  const [exportPassphraseConfirm, setExportPassphraseConfirm] = useState("");
+  const [exporting, setExporting] = useState(false);
+
+  const [restoreFileName, setRestoreFileName] = useState("");
+  const [restoreContent, setRestoreContent] = useState<string | null>(null);
+  const [restorePassphrase, setRestorePassphrase] = useState("");
+  const [restoreArchive, setRestoreArchive] = useState<BackupArchive | null>(
+    null,
+  );
+  const [loadingFile, setLoadingFile] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+
+  const navigateBack = () => {
+    router.back();
+  };
+
+  const handleExport = async () => {
+    if (!user || !userProfile) return;
+
+    if (exportPassphrase) {
+      if (exportPassphrase.length < MIN_PASSPHRASE_LENGTH) {
+        Alert.alert(
+          t("alerts.error"),
+          t("backup.passphraseTooShort", { count: MIN_PASSPHRASE_LENGTH }),
+        );
+        return;
+      }
+      if (exportPassphrase !== exportPassphraseConfirm) {
+        Alert.alert(t("alerts.error"), t("backup.passphraseMismatch"));
+        return;
+      }
+    }
+
+    setExporting(true);
+    try {
+      const result = await apiExportBackup(
+        user,
+        userProfile,
+        decryptWithPrivateKey,
+        decryptWithExternalEncryptionKey,
+        decryptData,
+      );
+      if (!result.success || !result.data) {
+        Alert.alert(t("alerts.error"), result.error || t("backup.exportError"));
+        return;
+      }
+
+      const content = await serializeBackupArchive(
+        result.data,
+        exportPassphrase || undefined,
+      );
+      const fileUri = FileSystem.documentDirectory + getBackupFileName();
+      await FileSystem.writeAsStringAsync(fileUri, content);
+
+      if (await Sharing.isAvailableAsync()) {
+        await Sharing.shareAsync(fileUri, { mimeType: "application/json" });
+      } else {
+        Alert.alert(t("alerts.success"), t("backup.exportSaved"));
+      }
+      setExportPassphrase("");
+      setExportPassphraseConfirm("");
+    } catch (error) {
+      console.error("Backup export error:", error);
+      Alert.alert(t("alerts.error"), t("backup.exportError"));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const openArchive = async (content: string, passphrase?: string) => {
+    try {
+      setRestoreArchive(await parseBackupArchive(content, passphrase));
+    } catch (error: any) {
+      console.error("Failed to read backup file:", error);
+      Alert.alert(t("alerts.error"), error.message || t("backup.readError"));
+    }
+  };
+
+  const handlePickFile = async () => {
+    setLoadingFile(true);
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: "*/*",
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled || !result.assets?.[0]) {
+        return;
+      }
+
+      const asset = result.assets[0];
+      const content = await FileSystem.readAsStringAsync(asset.uri);
+      setRestoreFileName(asset.name);
+      setRestoreContent(content);
+      setRestoreArchive(null);
+      setRestorePassphrase("");
+
+      if (!isEncryptedBackupFile(content)) {
+        await openArchive(content);
+      }
+    } catch (error) {
+      console.error("Failed to read backup file:", error);
+      Alert.alert(t("alerts.error"), t("backup.readError"));
+    } finally {
+      setLoadingFile(false);
+    }
+  };
+
+  const handleUnlock = async () => {
+    if (!restoreContent || !restorePassphrase) return;
+    setLoadingFile(true);
+    try {
+      await openArchive(restoreContent, restorePassphrase);
+    } finally {
+      setLoadingFile(false);
+    }
+  };
+
+  const performRestore = async (archive: BackupArchive) => {
+    if (!user || !userProfile || !publicKey) return;
+
+    setRestoring(true);
+    try {
+      const result = await apiRestoreBackup(
+        user,
+        userProfile.username,
+        publicKey,
+        archive,
+        expensesGroups,
+        portfolios,
+        createEncryptionKey,
+        encryptWithExternalPublicKey,
+        encryptWithExternalEncryptionKey,
+        decryptWithPrivateKey,
+        encryptData,
+      );
+
+      if (result.success && archive.profile) {
+        await updateProfile(
+          mergeBackupProfile(
+            userProfile.profile,
+            archive.profile,
+            result.restoredIds || {},
+          ),
+        );
+      }
+
+      await Promise.all([
+        refreshExpenses(),
+        fetchPortfolios(),
+        fetchLiabilities(),
+      ]);
+
+      if (result.success && result.data) {
+        Alert.alert(
+          t("alerts.success"),
+          t("backup.restoreSuccess", {
+            expenses: result.data.expenses,
+            investments: result.data.investments,
+          }),
+        );
+        router.back();
+      } else {
+        Alert.alert(
+          t("alerts.error"),
+          `${result.error || t("backup.restoreError")}\n${t("backup.restorePartial")}`,
+        );
+      }
+    } catch (error) {
+      console.error("Backup restore error:", error);
+      Alert.alert(t("alerts.error"), t("backup.restoreError"));
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const handleRestore = () => {
+    if (!restoreArchive) return;
+    Alert.alert(t("backup.restoreConfirmTitle"), t("backup.restoreConfirm"), [
+      { text: t("modals.cancel"), style: "cancel" },
+      {
+        text: t("backup.restore"),
+        onPress: () => performRestore(restoreArchive),
+      },
+    ]);
+  };
+
+  const renderBackAction = () => (
+    <TouchableOpacity onPress={navigateBack} style={styles.backButton}>
+      <Ionicons name="arrow-back" size={24} color={colors.icon} />
+    </TouchableOpacity>
+  );
+
+  const renderSummaryRow = (label: string, value: number) => (
+    <View style={styles.summaryRow}>
+      <Text style={[styles.summaryLabel, { color: colors.icon }]}>{label}</Text>
+      <Text style={[styles.summaryValue, { color: colors.text }]}>{value}</Text>
+    </View>
+  );
+
+  const renderArchiveSummary = (archive: BackupArchive) => {
+    const summary = summarizeBackupArchive(archive);
+    return (
+      <View style={styles.summary}>
+        <Text style={[styles.helpText, { color: colors.icon }]}>
+          {t("backup.archiveInfo", {
+            username: archive.username,
+            date: new Date(archive.exported_at).toLocaleString(),
+          })}
+        </Text>
+        {renderSummaryRow(t("backup.groups"), summary.groups)}
+        {renderSummaryRow(t("backup.expenses"), summary.expenses)}
+        {renderSummaryRow(
+          t("backup.recurringExpenses"),
+          summary.recurringExpenses,
+        )}
+        {renderSummaryRow(t("backup.portfolios"), summary.portfolios)}
+        {renderSummaryRow(t("backup.investments"), summary.investments)}
+        {renderSummaryRow(t("backup.liabilities"), summary.liabilities)}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: colors.background }]}
+    >
+      <TopNavigation
+        title={t("backup.title")}
+        alignment="center"
+        accessoryLeft={renderBackAction}
+        style={{ backgroundColor: colors.background }}
+      />
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <View
+          style={[
+            styles.card,
+            { backgroundColor: colors.card, shadowColor: colors.text },
+          ]}
+        >
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>
+            {t("backup.exportTitle")}
+          </Text>
+          <Text style={[styles.helpText, { color: colors.icon }]}>
+            {t("backup.exportDescription")}
+          </Text>
+          <Input
+            style={styles.input}
+            label={t("backup.passphrase")}
+            placeholder={t("backup.passphraseOptional")}
+            value={exportPassphrase}
+            onChangeText={setExportPassphrase}
+            secureTextEntry
+            autoCapitalize="none"
+          />
+          {exportPassphrase.length > 0 && (
+            <Input
+              style={styles.input}
+              label={t("backup.confirmPassphrase")}
+              value={exportPassphraseConfirm}
+              onChangeText={setExportPassphraseConfirm}
+              secureTextEntry
+              autoCapitalize="none"
+            />
+          )}
+          {!exportPassphrase && (
+            <Text style={[styles.warningText, { color: colors.error }]}>
+              {t("backup.unencryptedWarning")}
+            </Text>
+          )}
+          <Button
+            status="primary"
+            onPress={handleExport}
+            disabled={exporting || restoring}
+            accessoryLeft={
+              exporting
+                ? () => <Spinner size="small" status="control" />
+                : () => (
+                    <Ionicons name="download-outline" size={20} color="white" />
+                  )
+            }
+          >
+            {t("backup.exportEverything")}
+          </Button>
+        </View>
+
+        <View
+          style={[
+            styles.card,
+            { backgroundColor: colors.card, shadowColor: colors.text },
+          ]}
+        >
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>
+            {t("backup.restoreTitle")}
+          </Text>
+          <Text style={[styles.helpText, { color: colors.icon }]}>
+            {t("backup.restoreDescription")}
+          </Text>
+          <Button
+            style={styles.input}
+            appearance="outline"
+            onPress={handlePickFile}
+            disabled={loadingFile || restoring}
+            accessoryLeft={
+              loadingFile
+                ? () => <Spinner size="small" />
+                : () => (
+                    <Ionicons
+                      name="document-outline"
+                      size={20}
+                      color={colors.primary}
+                    />
+                  )
+            }
+          >
+            {restoreFileName || t("backup.chooseFile")}
+          </Button>
+
+          {restoreContent && !restoreArchive && (
+            <>
+              <Input
+                style={styles.input}
+                label={t("backup.passphrase")}
+                placeholder={t("backup.enterPassphrase")}
+                value={restorePassphrase}
+                onChangeText={setRestorePassphrase}
+                secureTextEntry
+                autoCapitalize="none"
+              />
+              <Button
+                appearance="outline"
+                onPress={handleUnlock}
+                disabled={!restorePassphrase || loadingFile}
+              >
+                {t("backup.unlock")}
+              </Button>
+            </>
+          )}
+
+          {restoreArchive && (
+            <>
+              {renderArchiveSummary(restoreArchive)}
+              <Button
+                status="primary"
+                onPress={handleRestore}
+                disabled={restoring || exporting}
+                accessoryLeft={
+                  restoring
+                    ? () => <Spinner size="small" status="control" />
+                    : () => (
+                        <Ionicons
+                          name="cloud-upload-outline"
+                          size={20}
+                          color="white"
+                        />
+                      )
+                }
+              >
+                {t("backup.restore")}
+              </Button>
+            </>
+          )}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+  },
+  card: {
+    marginHorizontal: 20,
+    marginBottom: 20,
+    padding: 20,
+    borderRadius: 20,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginBottom: 12,
+  },
+  helpText: {
+    fontSize: 14,
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  warningText: {
+    fontSize: 13,
+    lineHeight: 18,
+    marginBottom: 16,
+  },
+  input: {
+    marginBottom: 16,
+  },
+  summary: {
+    marginBottom: 16,
+  },
+  summaryRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: 6,
+  },
+  summaryLabel: {
+    fontSize: 14,
+  },
+  summaryValue: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  backButton: {
+    padding: 8,
+  },
+});
@@ -0,0 +1,588 @@
+import { Colors } from "@/constants/Colors";
+import { useLocalization } from "@/context/LocalizationContext";
+import { useProfile } from "@/context/ProfileContext";
+import { useCategoryBudgets } from "@/hooks/useCategoryBudgets";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import { getCategoryDisplayInfo } from "@/types/expense";
+import { CategoryBudget } from "@/types/profile";
+import {
+  CategoryBudgetStatus,
+  getMonthKey,
+  getPreviousMonthKey,
+} from "@/utils/budgetUtils";
+import { formatCurrency } from "@/utils/currencyUtils";
+import { Ionicons } from "@expo/vector-icons";
+import {
+  Button,
+  Card,
+  IndexPath,
+  Input,
+  Layout,
+  Modal,
+  Select,
+  SelectItem,
+  Spinner,
+  Text,
+  Toggle,
+  TopNavigation,
+} from "@ui-kitten/components";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import React, { useMemo, useState } from "react";
+import {
+  Alert,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+const STATE_COLORS: { [state in CategoryBudgetStatus["state"]]: string } = {
+  onTrack: "#4CAF50",
+  warning: "#FF9800",
+  projectedOver: "#FF9800",
+  over: "#F44336",
+};
+
+export default function BudgetDetailScreen() {
+  const router = useRouter();
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+  const { t } = useLocalization();
+  const { month } = useLocalSearchParams<{ month?: string }>();
+  const { userProfile, updateProfile } = useProfile();
+  const { statuses, categories, monthKey, defaultCurrency } =
+    useCategoryBudgets(month || "current");
+
+  const budgeting = userProfile?.profile?.budgeting;
+  const categoryBudgets = useMemo(
+    () => budgeting?.categoryBudgets || {},
+    [budgeting?.categoryBudgets],
+  );
+
+  const [modalVisible, setModalVisible] = useState(false);
+  const [editingCategoryId, setEditingCategoryId] = useState<string | null>(
+    null,
+  );
+  const [selectedCategoryIndex, setSelectedCategoryIndex] = useState<IndexPath>(
+    new IndexPath(0),
+  );
+  const [amount, setAmount] = useState("");
+  const [rollover, setRollover] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  // Main categories followed by their subcategories, without a budget yet
+  const availableCategories = useMemo(
+    () =>
+      categories
+        .filter((cat) => !cat.parent)
+        .flatMap((cat) => [
+          cat,
+          ...categories.filter((sub) => sub.parent === cat.id),
+        ])
+        .filter((cat) => !categoryBudgets[cat.id]),
+    [categories, categoryBudgets],
+  );
+
+  const monthLabel = useMemo(() => {
+    const [year, monthNumber] = monthKey.split("-").map(Number);
+    return new Date(year, monthNumber - 1, 1).toLocaleDateString(undefined, {
+      month: "long",
+      year: "numeric",
+    });
+  }, [monthKey]);
+
+  const navigateBack = () => {
+    router.back();
+  };
+
+  const getCategoryLabel = (categoryId: string) => {
+    const info = getCategoryDisplayInfo(
+      categoryId,
+      budgeting?.categoryOverrides,
+    );
+    return `${info.icon} ${info.name}`;
+  };
+
+  const openAddModal = () => {
+    setEditingCategoryId(null);
+    setSelectedCategoryIndex(new IndexPath(0));
+    setAmount("");
+    setRollover(false);
+    setModalVisible(true);
+  };
+
+  const openEditModal = (categoryId: string) => {
+    const budget = categoryBudgets[categoryId];
+    setEditingCategoryId(categoryId);
+    setAmount(budget?.amount?.toString() || "");
+    setRollover(!!budget?.rollover);
+    setModalVisible(true);
+  };
+
+  const saveCategoryBudgets = async (updated: {
+    [categoryId: string]: CategoryBudget;
+  }) => {
+    setSaving(true);
+    try {
+      await updateProfile({
+        budgeting: {
+          ...budgeting,
+          categoryBudgets: updated,
+        },
+      });
+      setModalVisible(false);
+    } catch (error) {
+      console.error(
+        "Failed to save category budget: ",
+        (error as Error).message || "",
+      );
+      Alert.alert(t("alerts.error"), t("budget.failedSetBudget"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = async () => {
+    const categoryId =
+      editingCategoryId ||
+      availableCategories[selectedCategoryIndex.row]?.id ||
+      null;
+    if (!categoryId) return;
+
+    const parsedAmount = Number(amount.replace(",", "."));
+    if (!amount.trim() || isNaN(parsedAmount) || parsedAmount <= 0) {
+      Alert.alert(t("budget.validationError"), t("budget.validBudgetAmount"));
+      return;
+    }
+
+    // Rollover starts carrying from the month it is turned on
+    const current = categoryBudgets[categoryId];
+    const since = current?.rollover
+      ? (current.since ?? getPreviousMonthKey(getMonthKey()))
+      : getMonthKey();
+
+    await saveCategoryBudgets({
+      ...categoryBudgets,
+      [categoryId]: rollover
+        ? { amount: parsedAmount, rollover, since }
+        : { amount: parsedAmount, rollover },
+    });
+  };
+
+  const handleDelete = () => {
+    if (!editingCategoryId) return;
+    Alert.alert(
+      t("budget.removeCategoryBudget"),
+      t("budget.removeCategoryBudgetConfirm", {
+        category: getCategoryLabel(editingCategoryId),
+      }),
+      [
+        { text: t("common.cancel"), style: "cancel" },
+        {
+          text: t("modals.delete"),
+          style: "destructive",
+          onPress: async () => {
+            const { [editingCategoryId]: _removed, ...rest } = categoryBudgets;
+            await saveCategoryBudgets(rest);
+          },
+        },
+      ],
+    );
+  };
+
+  const getStateLabel = (status: CategoryBudgetStatus) => {
+    switch (status.state) {
+      case "over":
+        return t("budget.overBudget");
+      case "projectedOver":
+        return t("budget.projectedOverBudget");
+      case "warning":
+        return t("budget.watchOut");
+      default:
+        return t("budget.onTrack");
+    }
+  };
+
+  const renderBackAction = () => (
+    <TouchableOpacity onPress={navigateBack} style={styles.backButton}>
+      <Ionicons name="arrow-back" size={24} color={colors.icon} />
+    </TouchableOpacity>
+  );
+
+  const renderAddAction = () =>
+    availableCategories.length > 0 ? (
+      <TouchableOpacity onPress={openAddModal} style={styles.backButton}>
+        <Ionicons name="add" size={24} color={colors.primary} />
+      </TouchableOpacity>
+    ) : (
+      <></>
+    );
+
+  const renderStatus = (status: CategoryBudgetStatus) => {
+    const stateColor = STATE_COLORS[status.state];
+    const spentWidth = Math.min(status.percentUsed, 100);
+    const projectedWidth = Math.max(
+      0,
+      Math.min(status.projectedPercent, 100) - spentWidth,
+    );
+
+    return (
+      <TouchableOpacity
+        key={status.categoryId}
+        style={[
+          styles.card,
+          { backgroundColor: colors.card, shadowColor: colors.text },
+        ]}
+        onPress={() => openEditModal(status.categoryId)}
+      >
+        <View style={styles.categoryHeader}>
+          <Text style={[styles.categoryName, { color: colors.text }]}>
+            {getCategoryLabel(status.categoryId)}
+          </Text>
+          <Text style={[styles.stateLabel, { color: stateColor }]}>
+            {getStateLabel(status)}
+          </Text>
+        </View>
+
+        <View style={styles.amountRow}>
+          <Text style={[styles.spentText, { color: colors.text }]}>
+            {formatCurrency(status.spent, defaultCurrency)}
+          </Text>
+          <Text style={[styles.availableText, { color: colors.icon }]}>
+            {t("budget.ofAmount", {
+              amount: formatCurrency(status.available, defaultCurrency),
+            })}
+          </Text>
+        </View>
+
+        <View
+          style={[styles.progressTrack, { backgroundColor: colors.border }]}
+        >
+          <View
+            style={[
+              styles.progressFill,
+              { width: `${spentWidth}%`, backgroundColor: stateColor },
+            ]}
+          />
+          {projectedWidth > 0 && (
+            <View
+              style={[
+                styles.progressFill,
+                {
+                  width: `${projectedWidth}%`,
+                  backgroundColor: stateColor + "55",
+                },
+              ]}
+            />
+          )}
+        </View>
+
+        <View style={styles.detailRow}>
+          <Text style={[styles.detailText, { color: colors.icon }]}>
+            {status.remaining >= 0
+              ? t("budget.amountLeft", {
+                  amount: formatCurrency(status.remaining, defaultCurrency),
+                })
+              : t("budget.amountOver", {
+                  amount: formatCurrency(-status.remaining, defaultCurrency),
+                })}
+          </Text>
+          <Text style={[styles.detailText, { color: colors.icon }]}>
+            {status.percentUsed.toFixed(0)}%
+          </Text>
+        </View>
+
+        {status.upcoming > 0 && (
+          <Text style={[styles.detailText, { color: colors.icon }]}>
+            {t("budget.projectedSpending", {
+              amount: formatCurrency(status.projected, defaultCurrency),
+              upcoming: formatCurrency(status.upcoming, defaultCurrency),
+            })}
+          </Text>
+        )}
+        {status.rolloverAmount > 0 && (
+          <Text style={[styles.detailText, { color: colors.icon }]}>
+            {t("budget.rolloverIncluded", {
+              amount: formatCurrency(status.rolloverAmount, defaultCurrency),
+            })}
+          </Text>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: colors.background }]}
+    >
+      <TopNavigation
+        title={t("budget.categoryBudgets")}
+        subtitle={monthLabel}
+        alignment="center"
+        accessoryLeft={renderBackAction}
+        accessoryRight={renderAddAction}
+        style={{ backgroundColor: colors.background }}
+      />
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {statuses.length === 0 ? (
+          <View style={styles.emptyContainer}>
+            <View
+              style={[
+                styles.emptyIcon,
+                { backgroundColor: colors.primary + "20" },
+              ]}
+            >
+              <Ionicons
+                name="pie-chart-outline"
+                size={32}
+                color={colors.primary}
+              />
+            </View>
+            <Text style={[styles.emptyTitle, { color: colors.text }]}>
+              {t("budget.noCategoryBudgets")}
+            </Text>
+            <Text style={[styles.emptyText, { color: colors.icon }]}>
+              {t("budget.categoryBudgetsDescription")}
+            </Text>
+            <Button onPress={openAddModal}>
+              {t("budget.addCategoryBudget")}
+            </Button>
+          </View>
+        ) : (
+          statuses.map(renderStatus)
+        )}
+      </ScrollView>
+
+      <Modal
+        visible={modalVisible}
+        backdropStyle={styles.backdrop}
+        onBackdropPress={() => setModalVisible(false)}
+      >
+        <Card disabled={true} style={styles.modalCard}>
+          <Text category="h6" style={styles.modalTitle}>
+            {editingCategoryId
+              ? getCategoryLabel(editingCategoryId)
+              : t("budget.addCategoryBudget")}
+          </Text>
+
+          {!editingCategoryId && (
+            <Select
+              style={styles.modalInput}
+              label={t("budget.category")}
+              selectedIndex={selectedCategoryIndex}
+              onSelect={(index) => setSelectedCategoryIndex(index as IndexPath)}
+              value={
+                availableCategories[selectedCategoryIndex.row]
+                  ? getCategoryLabel(
+                      availableCategories[selectedCategoryIndex.row].id,
+                    )
+                  : ""
+              }
+            >
+              {availableCategories.map((cat) => (
+                <SelectItem
+                  key={cat.id}
+                  title={`${cat.parent ? "   " : ""}${cat.icon} ${cat.name}`}
+                />
+              ))}
+            </Select>
+          )}
+
+          <Input
+            style={styles.modalInput}
+            label={t("budget.monthlyLimit")}
+            placeholder={t("budget.enterAmount")}
+            value={amount}
+            onChangeText={setAmount}
+            keyboardType="decimal-pad"
+            accessoryLeft={() => (
+              <Text style={{ color: colors.text, paddingHorizontal: 8 }}>
+                {defaultCurrency}
+              </Text>
+            )}
+          />
+
+          <View style={styles.toggleRow}>
+            <View style={styles.toggleText}>
+              <Text style={[styles.toggleLabel, { color: colors.text }]}>
+                {t("budget.rollover")}
+              </Text>
+              <Text style={[styles.detailText, { color: colors.icon }]}>
+                {t("budget.rolloverDescription")}
+              </Text>
+            </View>
+            <Toggle checked={rollover} onChange={setRollover} />
+          </View>
+
+          <Layout style={styles.modalActions}>
+            {editingCategoryId ? (
+              <Button
+                style={styles.modalButton}
+                status="danger"
+                appearance="outline"
+                onPress={handleDelete}
+                disabled={saving}
+              >
+                {t("modals.delete")}
+              </Button>
+            ) : (
+              <Button
+                style={styles.modalButton}
+                appearance="outline"
+                onPress={() => setModalVisible(false)}
+              >
+                {t("common.cancel")}
+              </Button>
+            )}
+            <Button
+              style={styles.modalButton}
+              onPress={handleSave}
+              disabled={saving}
+              accessoryLeft={
+                saving
+                  ? () => <Spinner size="small" status="control" />
+                  : undefined
+              }
+            >
+              {saving ? t("budget.saving") : t("budget.save")}
+            </Button>
+          </Layout>
+        </Card>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+  },
+  card: {
+    marginHorizontal: 20,
+    marginBottom: 16,
+    padding: 20,
+    borderRadius: 20,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  categoryHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 12,
+  },
+  categoryName: {
+    fontSize: 16,
+    fontWeight: "600",
+    flex: 1,
+  },
+  stateLabel: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  amountRow: {
+    flexDirection: "row",
+    alignItems: "baseline",
+    gap: 6,
+    marginBottom: 12,
+  },
+  spentText: {
+    fontSize: 20,
+    fontWeight: "700",
+  },
+  availableText: {
+    fontSize: 14,
+  },
+  progressTrack: {
+    height: 8,
+    borderRadius: 6,
+    marginBottom: 8,
+    flexDirection: "row",
+    overflow: "hidden",
+  },
+  progressFill: {
+    height: "100%",
+  },
+  detailRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  detailText: {
+    fontSize: 13,
+    marginTop: 4,
+  },
+  emptyContainer: {
+    alignItems: "center",
+    paddingVertical: 40,
+    paddingHorizontal: 32,
+  },
+  emptyIcon: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    alignItems: "center",
+    justifyContent: "center",
+    marginBottom: 16,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginBottom: 8,
+    textAlign: "center",
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: "center",
+    marginBottom: 20,
+    lineHeight: 20,
+  },
+  backButton: {
+    padding: 8,
+  },
+  backdrop: {
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+  },
+  modalCard: {
+    minWidth: 320,
+    borderRadius: 20,
+    padding: 24,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: "600",
+    marginBottom: 16,
+  },
+  modalInput: {
+    marginBottom: 16,
+    borderRadius: 12,
+  },
+  toggleRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 20,
+    gap: 12,
+  },
+  toggleText: {
+    flex: 1,
+  },
+  toggleLabel: {
+    fontSize: 15,
+    fontWeight: "500",
+  },
+  modalActions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: 12,
+  },
+  modalButton: {
+    flex: 1,
+    borderRadius: 12,
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import {
   StyleSheet,
   ScrollView,
@@ -31,11 +31,13 @@ import { useColorScheme } from "@/hooks/useColorScheme";
 import { Colors } from "@/constants/Colors";
 import {
   ExpenseData,
+  ExpenseReceipt,
   ExpenseWithDecryptedData,
+  ReceiptImage,
   CURRENCIES,
-  SPLIT_METHODS,
+  EXPENSE_SPLIT_METHODS,
+  ExpenseItemization,
   ExpenseParticipant,
-  calculateEqualSplit,
   computeExpenseCategories,
   getCategoryDisplayInfo,
   getMainCategories,
@@ -45,7 +47,21 @@ import {
 } from "@/types/expense";
 import { Ionicons } from "@expo/vector-icons";
 import { ThemedView } from "@/components/ThemedView";
+import ItemizedSplitEditor from "@/components/expenses/ItemizedSplitEditor";
+import ReceiptPicker from "@/components/expenses/ReceiptPicker";
 import { normalizeDecimalForParsing } from "@/utils/stringUtils";
+import {
+  calculateItemizedShares,
+  getItemizationTotal,
+  getUnassignedItems,
+} from "@/utils/itemizationUtils";
+import {
+  calculateSplit,
+  getDefaultSplitPercentages,
+  getDefaultSplitWeight,
+  getUnassignedPercentage,
+} from "@/utils/splitUtils";
+import { trashExpenseData } from "@/utils/trashUtils";
 
 export default function EditExpenseScreen() {
   const router = useRouter();
@@ -56,7 +72,8 @@ export default function EditExpenseScreen() {
     expenseId: string;
     groupId: string;
   }>();
-  const { expensesGroups, updateExpense, deleteExpense } = useExpense();
+  const { expensesGroups, updateExpense, uploadReceipt, deleteReceipt } =
+    useExpense();
   const { userProfile } = useProfile();
   const { t } = useLocalization();
 
@@ -136,6 +153,12 @@ export default function EditExpenseScreen() {
   const [customAmounts, setCustomAmounts] = useState<{
     [userId: string]: string;
   }>({});
+  const [splitInputs, setSplitInputs] = useState<{
+    [userId: string]: string;
+  }>({});
+  const [savedReceipt, setSavedReceipt] = useState<ExpenseReceipt>();
+  const [receiptImage, setReceiptImage] = useState<ReceiptImage | null>(null);
+  const [itemization, setItemization] = useState<ExpenseItemization>();
   const [displayCategories, setDisplayCategories] =
     useState<(ExpenseCategory & { displayName: string })[]>(
       availableCategories,
@@ -159,7 +182,21 @@ export default function EditExpenseScreen() {
       setDescription(foundExpense.data.description || "");
       setAmount(foundExpense.data.amount.toString());
       setDate(new Date(foundExpense.data.date));
-      setParticipants(foundExpense.data.participants);
+      // Expenses split before shares and percentages get the group defaults
+      const defaultPercentages = getDefaultSplitPercentages(
+        group.data,
+        foundExpense.data.participants.map((p) => p.user_id),
+      );
+      setParticipants(
+        foundExpense.data.participants.map((p, index) => ({
+          ...p,
+          share_weight:
+            p.share_weight ?? getDefaultSplitWeight(group.data, p.user_id),
+          share_percentage: p.share_percentage ?? defaultPercentages[index],
+        })),
+      );
+      setSavedReceipt(foundExpense.data.receipt);
+      setItemization(foundExpense.data.itemization);
 
       // Set category index - need to create a mutable copy for deleted categories
       const mutableCategories = [...availableCategories];
@@ -211,7 +248,7 @@ export default function EditExpenseScreen() {
       );
 
       // Set split method index
-      const splitMethodIndex = SPLIT_METHODS.findIndex(
+      const splitMethodIndex = EXPENSE_SPLIT_METHODS.findIndex(
         (sm) => sm.value === foundExpense.data.split_method,
       );
       setSelectedSplitMethodIndex(
@@ -235,6 +272,33 @@ export default function EditExpenseScreen() {
     router.back();
   };
 
+  const groupData = expensesGroups?.find((g) => g.id === groupId)?.data;
+  const selectedSplitMethod =
+    EXPENSE_SPLIT_METHODS[selectedSplitMethodIndex.row]?.value || "equal";
+  const isItemized = selectedSplitMethod === "itemized";
+
+  // Active participants with their share of the amount for the split method
+  const splitParticipants = useMemo(() => {
+    const activeParticipants = participants.filter((p) => p.share_amount > 0);
+    if (selectedSplitMethod === "itemized") return activeParticipants;
+    if (selectedSplitMethod === "custom") {
+      return activeParticipants.map((p) => ({
+        ...p,
+        share_amount: parseFloat(
+          normalizeDecimalForParsing(customAmounts[p.user_id] || "0"),
+        ),
+      }));
+    }
+    const amountNum = parseFloat(normalizeDecimalForParsing(amount)) || 0;
+    return calculateSplit(amountNum, activeParticipants, selectedSplitMethod);
+  }, [participants, customAmounts, amount, selectedSplitMethod]);
+
+  const handleItemizationChange = (value: ExpenseItemization) => {
+    setItemization(value);
+    const total = getItemizationTotal(value);
+    setAmount(total > 0 ? total.toFixed(2) : "");
+  };
+
   const handleSave = async () => {
     if (!expense || !groupId) return;
 
@@ -258,7 +322,17 @@ export default function EditExpenseScreen() {
       return;
     }
 
-    if (participants.length === 0) {
+    if (isItemized) {
+      if (!itemization || itemization.items.length === 0) {
+        Alert.alert(t("editExpense.error"), t("itemizedSplit.itemsRequired"));
+        return;
+      }
+      const memberIds = groupMembers.map((member) => member.user_id);
+      if (getUnassignedItems(itemization, memberIds).length > 0) {
+        Alert.alert(t("editExpense.error"), t("itemizedSplit.assignAllItems"));
+        return;
+      }
+    } else if (splitParticipants.length === 0) {
       Alert.alert(
         t("editExpense.error"),
         t("editExpense.selectAtLeastOneParticipant"),
@@ -267,12 +341,11 @@ export default function EditExpenseScreen() {
     }
 
     // Validate custom amounts
-    if (selectedSplitMethodIndex?.row === 1) {
-      // Custom amounts
-      const totalCustomAmount = participants.reduce((sum, p) => {
-        const customAmount = parseFloat(customAmounts[p.user_id] || "0");
-        return sum + (isNaN(customAmount) ? 0 : customAmount);
-      }, 0);
+    if (selectedSplitMethod === "custom") {
+      const totalCustomAmount = splitParticipants.reduce(
+        (sum, p) => sum + (isNaN(p.share_amount) ? 0 : p.share_amount),
+        0,
+      );
 
       if (
         Math.abs(
@@ -287,6 +360,24 @@ export default function EditExpenseScreen() {
       }
     }
 
+    if (selectedSplitMethod === "percentage") {
+      const remaining = getUnassignedPercentage(splitParticipants);
+      if (remaining !== 0) {
+        Alert.alert(
+          t("editExpense.error"),
+          t("validation.percentagesMustTotal", { remaining }),
+        );
+        return;
+      }
+    }
+    if (
+      selectedSplitMethod === "shares" &&
+      splitParticipants.every((p) => p.share_amount === 0)
+    ) {
+      Alert.alert(t("editExpense.error"), t("validation.sharesRequired"));
+      return;
+    }
+
     setLoading(true);
 
     try {
@@ -304,23 +395,23 @@ export default function EditExpenseScreen() {
         availablePaymentMethods[selectedPaymentMethodIndex.row];
       const selectedCurrency = CURRENCIES[selectedCurrencyIndex.row];
       const selectedPayer = groupMembers[selectedPayerIndex.row];
-      const selectedSplitMethod = SPLIT_METHODS[selectedSplitMethodIndex.row];
 
       // Calculate participant shares
-      let finalParticipants: ExpenseParticipant[] = [];
       const amountNum = parseFloat(normalizeDecimalForParsing(amount));
-
-      if (selectedSplitMethod.value === "equal") {
-        const shareAmount = calculateEqualSplit(amountNum, participants.length);
-        finalParticipants = participants.map((p) => ({
-          ...p,
-          share_amount: shareAmount,
-        }));
-      } else if (selectedSplitMethod.value === "custom") {
-        finalParticipants = participants.map((p) => ({
-          ...p,
-          share_amount: parseFloat(customAmounts[p.user_id] || "0"),
-        }));
+      const finalParticipants: ExpenseParticipant[] =
+        isItemized && itemization
+          ? calculateItemizedShares(itemization, groupMembers)
+          : splitParticipants;
+
+      // Upload a newly picked receipt before touching the expense
+      let receipt = savedReceipt;
+      if (receiptImage) {
+        const receiptResult = await uploadReceipt(groupId, receiptImage);
+        if (!receiptResult.success || !receiptResult.data) {
+          Alert.alert(t("editExpense.error"), t("receipts.uploadFailed"));
+          return;
+        }
+        receipt = receiptResult.data;
       }
 
       const updatedExpenseData: ExpenseData = {
@@ -336,11 +427,13 @@ export default function EditExpenseScreen() {
         recurring_expense_id: expense.data.recurring_expense_id,
         currency: selectedCurrency.value,
         receipt_url: expense.data.receipt_url,
+        receipt,
         status: expense.data.status,
         payer_user_id: selectedPayer.user_id,
         payer_username: selectedPayer.username,
         participants: finalParticipants,
-        split_method: selectedSplitMethod.value as "equal" | "custom",
+        split_method: selectedSplitMethod,
+        itemization: isItemized ? itemization : undefined,
         external_account_id: expense.data.external_account_id,
         external_transaction_id: expense.data.external_transaction_id,
       };
@@ -352,9 +445,20 @@ export default function EditExpenseScreen() {
 
       const result = await updateExpense(groupId, updatedExpense);
 
+      const previousReceipt = expense.data.receipt;
       if (result) {
+        // The replaced or removed photo is no longer referenced
+        if (
+          previousReceipt &&
+          previousReceipt.attachment_id !== receipt?.attachment_id
+        ) {
+          await deleteReceipt(groupId, previousReceipt.attachment_id);
+        }
         router.back();
       } else {
+        if (receipt && receipt.attachment_id !== savedReceipt?.attachment_id) {
+          await deleteReceipt(groupId, receipt.attachment_id);
+        }
         Alert.alert(
           t("editExpense.error"),
           result || t("editExpense.updateExpenseFailed"),
@@ -374,56 +478,41 @@ export default function EditExpenseScreen() {
   const handleDelete = () => {
     if (!expense) return;
 
-    const hasExternalTransaction = Boolean(
-      expense.data.external_transaction_id,
-    );
-
-    const alertTitle = t("expenseDetail.delete");
-    const alertMessage = hasExternalTransaction
-      ? t("expenseDetail.markDeletedConfirm")
-      : t("expenseDetail.deleteExpenseConfirm");
-
-    Alert.alert(alertTitle, alertMessage, [
-      { text: t("expenseDetail.cancel"), style: "cancel" },
-      {
-        text: hasExternalTransaction
-          ? t("expenseDetail.markDeleted")
-          : t("expenseDetail.delete"),
-        style: "destructive",
-        onPress: async () => {
-          setIsDeleting(true);
-          try {
-            if (!groupId || !expenseId || !expense) return;
-
-            if (hasExternalTransaction) {
-              // Soft delete: mark as deleted
-              const updatedExpense = {
+    // Deleted expenses go to the group's trash, where they can be restored
+    Alert.alert(
+      t("expenseDetail.delete"),
+      t("expenseDetail.moveToTrashConfirm"),
+      [
+        { text: t("expenseDetail.cancel"), style: "cancel" },
+        {
+          text: t("expenseDetail.moveToTrash"),
+          style: "destructive",
+          onPress: async () => {
+            setIsDeleting(true);
+            try {
+              if (!groupId || !expenseId || !expense) return;
+
+              const trashedExpense = await updateExpense(groupId, {
                 ...expense,
-                data: {
-                  ...expense.data,
-                  status: "deleted",
-                },
-              };
-              await updateExpense(groupId, updatedExpense);
-            } else {
-              // Hard delete: remove completely
-              await deleteExpense(groupId, expenseId);
+                data: trashExpenseData(expense.data),
+              });
+              if (!trashedExpense) throw new Error("Failed to trash expense");
+
+              // Navigate to expenses list instead of back
+              router.replace("/(protected)/(tabs)/expenses");
+            } catch (error) {
+              console.error("Failed to delete expense:", error);
+              Alert.alert(
+                t("expenseDetail.error"),
+                t("expenseDetail.deleteExpenseFailed"),
+              );
+            } finally {
+              setIsDeleting(false);
             }
-
-            // Navigate to expenses list instead of back
-            router.replace("/(protected)/(tabs)/expenses");
-          } catch (error) {
-            console.error("Failed to delete expense:", error);
-            Alert.alert(
-              t("expenseDetail.error"),
-              t("expenseDetail.deleteExpenseFailed"),
-            );
-          } finally {
-            setIsDeleting(false);
-          }
+          },
         },
-      },
-    ]);
+      ],
+    );
   };
 
   const handleParticipantToggle = (member: any) => {
@@ -446,6 +535,8 @@ export default function EditExpenseScreen() {
           user_id: member.user_id,
           username: member.username,
           share_amount: 1, // Start as active
+          share_weight: getDefaultSplitWeight(groupData, member.user_id),
+          share_percentage: 0,
         };
         return [...prev, newParticipant];
       }
@@ -462,7 +553,7 @@ export default function EditExpenseScreen() {
         delete newAmounts[member.user_id];
         return newAmounts;
       });
-    } else if (selectedSplitMethodIndex.row === 1) {
+    } else if (selectedSplitMethod === "custom") {
       // Activating and custom split - initialize custom amount
       setCustomAmounts((prev) => ({
         ...prev,
@@ -478,24 +569,34 @@ export default function EditExpenseScreen() {
     }));
   };
 
-  // Update participant shares when split method or amount changes
-  useEffect(() => {
-    if (!amount || participants.length === 0) return;
-
-    const amountNum = parseFloat(normalizeDecimalForParsing(amount));
-    if (isNaN(amountNum)) return;
+  const handleSplitInputChange = (userId: string, value: string) => {
+    const parsed = Math.max(
+      parseFloat(normalizeDecimalForParsing(value)) || 0,
+      0,
+    );
+    setParticipants((prev) =>
+      prev.map((p) => {
+        if (p.user_id !== userId) return p;
+        return selectedSplitMethod === "shares"
+          ? { ...p, share_weight: parsed }
+          : { ...p, share_percentage: parsed };
+      }),
+    );
+    setSplitInputs((prev) => ({ ...prev, [userId]: value }));
+  };
 
-    if (selectedSplitMethodIndex.row === 0) {
-      // Equal split
-      const shareAmount = calculateEqualSplit(amountNum, participants.length);
-      setParticipants((prev) =>
-        prev.map((p) => ({
-          ...p,
-          share_amount: shareAmount,
-        })),
-      );
+  const handleSplitMethodChange = (index: IndexPath) => {
+    // Start custom amounts from the split shown so far
+    if (EXPENSE_SPLIT_METHODS[index.row]?.value === "custom") {
+      const amounts: { [userId: string]: string } = {};
+      splitParticipants.forEach((p) => {
+        amounts[p.user_id] = p.share_amount.toString();
+      });
+      setCustomAmounts(amounts);
     }
-  }, [selectedSplitMethodIndex, amount, participants.length]);
+    setSplitInputs({});
+    setSelectedSplitMethodIndex(index);
+  };
 
   if (!expense) {
     return (
@@ -592,6 +693,10 @@ export default function EditExpenseScreen() {
               value={amount}
               onChangeText={setAmount}
               keyboardType="decimal-pad"
+              disabled={isItemized}
+              caption={
+                isItemized ? t("itemizedSplit.amountCaption") : undefined
+              }
               style={styles.input}
             />
 
@@ -680,12 +785,14 @@ export default function EditExpenseScreen() {
                 label={t("editExpense.splitMethod")}
                 selectedIndex={selectedSplitMethodIndex}
                 onSelect={(index) =>
-                  setSelectedSplitMethodIndex(index as IndexPath)
+                  handleSplitMethodChange(index as IndexPath)
+                }
+                value={
+                  EXPENSE_SPLIT_METHODS[selectedSplitMethodIndex.row]?.label
                 }
-                value={SPLIT_METHODS[selectedSplitMethodIndex.row]?.label}
                 style={styles.input}
               >
-                {SPLIT_METHODS.map((method, index) => (
+                {EXPENSE_SPLIT_METHODS.map((method, index) => (
                   <SelectItem key={index} title={method.label} />
                 ))}
               </Select>
@@ -699,53 +806,112 @@ export default function EditExpenseScreen() {
                 {t("editExpense.participants")}
               </Text>
 
-              {groupMembers.map((member, index) => {
-                const participant = participants.find(
-                  (p) => p.user_id === member.user_id,
-                );
-                const isActive = participant && participant.share_amount > 0;
-                const isCurrentUser = member.user_id === user?.id;
-
-                return (
-                  <View key={member.user_id} style={styles.participantRow}>
-                    <View style={styles.participantInfo}>
-                      <CheckBox
-                        checked={!!isActive}
-                        onChange={() => handleParticipantToggle(member)}
-                      />
-                      <Text
-                        style={[styles.participantName, { color: colors.text }]}
-                      >
-                        {member.username}
-                        {isCurrentUser ? ` ${t("editExpense.you")}` : ""}
-                      </Text>
-                    </View>
+              {isItemized && (
+                <ItemizedSplitEditor
+                  members={groupMembers}
+                  initialValue={itemization}
+                  currency={CURRENCIES[selectedCurrencyIndex.row]?.value}
+                  onChange={handleItemizationChange}
+                />
+              )}
 
-                    {isActive && selectedSplitMethodIndex.row === 1 && (
-                      <Input
-                        placeholder={t("editExpense.amountPlaceholder")}
-                        value={customAmounts[member.user_id] || ""}
-                        onChangeText={(value) =>
-                          handleCustomAmountChange(member.user_id, value)
-                        }
-                        keyboardType="decimal-pad"
-                        style={styles.customAmountInput}
-                      />
-                    )}
-
-                    {isActive && selectedSplitMethodIndex.row === 0 && (
-                      <Text
-                        style={[styles.shareAmount, { color: colors.text }]}
-                      >
-                        {participant?.share_amount.toFixed(2) || "0.00"}
-                      </Text>
-                    )}
-                  </View>
-                );
-              })}
+              {!isItemized &&
+                groupMembers.map((member, index) => {
+                  const participant = participants.find(
+                    (p) => p.user_id === member.user_id,
+                  );
+                  const isActive = participant && participant.share_amount > 0;
+                  const isCurrentUser = member.user_id === user?.id;
+                  const splitAmount =
+                    splitParticipants.find((p) => p.user_id === member.user_id)
+                      ?.share_amount || 0;
+                  const splitValue =
+                    selectedSplitMethod === "shares"
+                      ? participant?.share_weight
+                      : participant?.share_percentage;
+
+                  return (
+                    <View key={member.user_id} style={styles.participantRow}>
+                      <View style={styles.participantInfo}>
+                        <CheckBox
+                          checked={!!isActive}
+                          onChange={() => handleParticipantToggle(member)}
+                        />
+                        <Text
+                          style={[
+                            styles.participantName,
+                            { color: colors.text },
+                          ]}
+                        >
+                          {member.username}
+                          {isCurrentUser ? ` ${t("editExpense.you")}` : ""}
+                        </Text>
+                      </View>
+
+                      {isActive && selectedSplitMethod === "custom" && (
+                        <Input
+                          placeholder={t("editExpense.amountPlaceholder")}
+                          value={customAmounts[member.user_id] || ""}
+                          onChangeText={(value) =>
+                            handleCustomAmountChange(member.user_id, value)
+                          }
+                          keyboardType="decimal-pad"
+                          style={styles.customAmountInput}
+                        />
+                      )}
+
+                      {isActive &&
+                        (selectedSplitMethod === "shares" ||
+                          selectedSplitMethod === "percentage") && (
+                          <Input
+                            placeholder={
+                              selectedSplitMethod === "shares"
+                                ? t("addExpense.sharesPlaceholder")
+                                : t("addExpense.percentagePlaceholder")
+                            }
+                            value={
+                              splitInputs[member.user_id] ??
+                              (splitValue ?? "").toString()
+                            }
+                            onChangeText={(value) =>
+                              handleSplitInputChange(member.user_id, value)
+                            }
+                            keyboardType="decimal-pad"
+                            style={styles.splitValueInput}
+                          />
+                        )}
+
+                      {isActive && selectedSplitMethod !== "custom" && (
+                        <Text
+                          style={[styles.shareAmount, { color: colors.text }]}
+                        >
+                          {splitAmount.toFixed(2)}
+                        </Text>
+                      )}
+                    </View>
+                  );
+                })}
+              {selectedSplitMethod === "percentage" &&
+                getUnassignedPercentage(splitParticipants) !== 0 && (
+                  <Text style={[styles.splitHint, { color: colors.warning }]}>
+                    {t("addExpense.percentageRemaining", {
+                      remaining: getUnassignedPercentage(splitParticipants),
+                    })}
+                  </Text>
+                )}
             </Card>
           )}
 
+          <ReceiptPicker
+            draft={receiptImage}
+            hasSavedReceipt={Boolean(savedReceipt)}
+            onPick={setReceiptImage}
+            onRemove={() => {
+              setReceiptImage(null);
+              setSavedReceipt(undefined);
+            }}
+          />
+
           {/* Action Buttons */}
           <View style={styles.actionButtons}>
             <Button
@@ -841,6 +1007,13 @@ const styles = StyleSheet.create({
   customAmountInput: {
     width: 100,
   },
+  splitValueInput: {
+    width: 64,
+  },
+  splitHint: {
+    fontSize: 12,
+    marginTop: 8,
+  },
   shareAmount: {
     fontSize: 14,
     fontWeight: "500",
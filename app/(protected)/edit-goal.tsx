@@ -0,0 +1,475 @@
+import React, { useState } from "react";
+import {
+  Alert,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import {
+  Button,
+  CheckBox,
+  Datepicker,
+  IndexPath,
+  Input,
+  Select,
+  SelectItem,
+  Text,
+  TopNavigation,
+} from "@ui-kitten/components";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import "react-native-get-random-values";
+import { v4 as uuidv4 } from "uuid";
+import { ThemedView } from "@/components/ThemedView";
+import { Colors } from "@/constants/Colors";
+import { useExpense } from "@/context/ExpenseContext";
+import { useInvestment } from "@/context/InvestmentContext";
+import { useLocalization } from "@/context/LocalizationContext";
+import { useProfile } from "@/context/ProfileContext";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import { CURRENCIES } from "@/types/expense";
+import { GoalFundingSource, SavingsGoal } from "@/types/profile";
+import { GOAL_HOLDING_TYPES, GOAL_ICONS } from "@/utils/goalUtils";
+import { normalizeDecimalForParsing } from "@/utils/stringUtils";
+
+// Form key of a funding source, one per selectable row
+const getSourceKey = (source: GoalFundingSource): string => {
+  switch (source.kind) {
+    case "portfolio":
+      return `portfolio:${source.portfolio_id}`;
+    case "investment":
+      return `investment:${source.portfolio_id}:${source.investment_id}`;
+    case "expenseGroup":
+      return `expenseGroup:${source.group_id}`;
+  }
+};
+
+const parseAmount = (value: string): number | null =>
+  value.trim() ? Number(normalizeDecimalForParsing(value)) : null;
+
+export default function EditGoalScreen() {
+  const router = useRouter();
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+  const { t } = useLocalization();
+  const { userProfile, updateProfile } = useProfile();
+  const { portfolios } = useInvestment();
+  const { expensesGroups } = useExpense();
+  const { goalId } = useLocalSearchParams<{ goalId?: string }>();
+
+  const goals = userProfile?.profile.goals || [];
+  const goal = goals.find((item) => item.id === goalId);
+  const defaultCurrency =
+    goal?.currency || userProfile?.profile.defaultCurrency;
+
+  const [name, setName] = useState(goal?.name || "");
+  const [icon, setIcon] = useState(goal?.icon || GOAL_ICONS[0]);
+  const [targetAmount, setTargetAmount] = useState(
+    goal?.target_amount.toString() || "",
+  );
+  const [currencyIndex, setCurrencyIndex] = useState(
+    new IndexPath(
+      Math.max(
+        CURRENCIES.findIndex((currency) => currency.value === defaultCurrency),
+        0,
+      ),
+    ),
+  );
+  const [deadline, setDeadline] = useState(
+    goal
+      ? new Date(goal.deadline)
+      : new Date(new Date().getFullYear() + 1, new Date().getMonth(), 1),
+  );
+  const [monthlyContribution, setMonthlyContribution] = useState(
+    goal?.monthly_contribution?.toString() || "",
+  );
+  // Selected sources by form key, with the share typed for investments
+  const [selected, setSelected] = useState<Record<string, string>>(() =>
+    Object.fromEntries(
+      (goal?.sources || []).map((source) => [
+        getSourceKey(source),
+        source.kind === "expenseGroup" ? "" : source.share.toString(),
+      ]),
+    ),
+  );
+  const [saving, setSaving] = useState(false);
+
+  const confirmedPortfolios = portfolios.filter(
+    (portfolio) => portfolio.membership_status === "confirmed",
+  );
+  const holdings = confirmedPortfolios.flatMap((portfolio) =>
+    (portfolio.investments || [])
+      .filter((investment) => GOAL_HOLDING_TYPES.includes(investment.data.type))
+      .map((investment) => ({ portfolio, investment })),
+  );
+  const confirmedGroups = expensesGroups.filter(
+    (group) => group.membership_status === "confirmed",
+  );
+
+  const toggleSource = (key: string, withShare: boolean) => {
+    setSelected((prev) => {
+      const next = { ...prev };
+      if (key in next) {
+        delete next[key];
+      } else {
+        next[key] = withShare ? "100" : "";
+      }
+      return next;
+    });
+  };
+
+  const buildSources = (): GoalFundingSource[] | null => {
+    const sources: GoalFundingSource[] = [];
+    for (const [key, shareText] of Object.entries(selected)) {
+      const [kind, id, investmentId] = key.split(":");
+      if (kind === "expenseGroup") {
+        sources.push({ kind, group_id: id });
+        continue;
+      }
+
+      const share = parseAmount(shareText);
+      if (share === null || isNaN(share) || share <= 0 || share > 100) {
+        Alert.alert(t("alerts.error"), t("goals.shareInvalid"));
+        return null;
+      }
+      sources.push(
+        kind === "portfolio"
+          ? { kind, portfolio_id: id, share }
+          : {
+              kind: "investment",
+              portfolio_id: id,
+              investment_id: investmentId,
+              share,
+            },
+      );
+    }
+    return sources;
+  };
+
+  const handleSave = async () => {
+    const target = parseAmount(targetAmount);
+    const contribution = parseAmount(monthlyContribution);
+    if (!name.trim()) {
+      Alert.alert(t("alerts.error"), t("goals.nameRequired"));
+      return;
+    }
+    if (target === null || isNaN(target) || target <= 0) {
+      Alert.alert(t("alerts.error"), t("goals.targetInvalid"));
+      return;
+    }
+    if (contribution !== null && (isNaN(contribution) || contribution < 0)) {
+      Alert.alert(t("alerts.error"), t("goals.contributionInvalid"));
+      return;
+    }
+    const sources = buildSources();
+    if (!sources) return;
+
+    const saved: SavingsGoal = {
+      id: goal?.id || uuidv4(),
+      name: name.trim(),
+      icon,
+      target_amount: target,
+      currency: CURRENCIES[currencyIndex.row].value,
+      deadline: deadline.toISOString().split("T")[0],
+      sources,
+      monthly_contribution: contribution,
+      created_at: goal?.created_at || new Date().toISOString(),
+    };
+
+    setSaving(true);
+    try {
+      await updateProfile({
+        goals: goal
+          ? goals.map((item) => (item.id === goal.id ? saved : item))
+          : [...goals, saved],
+      });
+      router.back();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderBackAction = () => (
+    <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+      <Ionicons name="arrow-back" size={24} color={colors.icon} />
+    </TouchableOpacity>
+  );
+
+  const renderSourceRow = (
+    key: string,
+    label: string,
+    caption: string | null,
+    withShare: boolean,
+  ) => (
+    <View
+      key={key}
+      style={[styles.sourceRow, { borderTopColor: colors.border }]}
+    >
+      <CheckBox
+        checked={key in selected}
+        onChange={() => toggleSource(key, withShare)}
+      />
+      <View style={styles.sourceInfo}>
+        <Text
+          style={[styles.sourceName, { color: colors.text }]}
+          numberOfLines={1}
+        >
+          {label}
+        </Text>
+        {!!caption && (
+          <Text style={[styles.hint, { color: colors.icon }]}>{caption}</Text>
+        )}
+      </View>
+      {withShare && key in selected && (
+        <Input
+          style={styles.shareInput}
+          value={selected[key]}
+          onChangeText={(text) =>
+            setSelected((prev) => ({ ...prev, [key]: text }))
+          }
+          keyboardType="decimal-pad"
+          accessoryRight={() => <Text style={{ color: colors.icon }}>%</Text>}
+        />
+      )}
+    </View>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <SafeAreaView style={styles.safeArea}>
+        <StatusBar
+          barStyle={colorScheme === "dark" ? "light-content" : "dark-content"}
+          backgroundColor={colors.background}
+        />
+        <TopNavigation
+          title={goal ? t("goals.editGoal") : t("goals.addGoal")}
+          alignment="center"
+          accessoryLeft={renderBackAction}
+          style={{ backgroundColor: colors.background }}
+        />
+
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          {/* Details */}
+          <View
+            style={[
+              styles.card,
+              { backgroundColor: colors.card, shadowColor: colors.text },
+            ]}
+          >
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>
+              {t("goals.details")}
+            </Text>
+            <Input
+              style={styles.input}
+              label={t("goals.name")}
+              placeholder={t("goals.namePlaceholder")}
+              value={name}
+              onChangeText={setName}
+            />
+            <View style={styles.iconRow}>
+              {GOAL_ICONS.map((option) => (
+                <TouchableOpacity
+                  key={option}
+                  style={[
+                    styles.iconOption,
+                    {
+                      borderColor:
+                        option === icon ? colors.primary : colors.border,
+                    },
+                  ]}
+                  onPress={() => setIcon(option)}
+                >
+                  <Ionicons
+                    name={option as any}
+                    size={20}
+                    color={option === icon ? colors.primary : colors.icon}
+                  />
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Input
+              style={styles.input}
+              label={t("goals.targetAmount")}
+              placeholder="0.00"
+              value={targetAmount}
+              onChangeText={setTargetAmount}
+              keyboardType="decimal-pad"
+            />
+            <Select
+              style={styles.input}
+              label={t("goals.currency")}
+              selectedIndex={currencyIndex}
+              onSelect={(index) => setCurrencyIndex(index as IndexPath)}
+              value={CURRENCIES[currencyIndex.row]?.label}
+            >
+              {CURRENCIES.map((currency) => (
+                <SelectItem key={currency.value} title={currency.label} />
+              ))}
+            </Select>
+            <Datepicker
+              style={styles.input}
+              label={t("goals.deadline")}
+              date={deadline}
+              onSelect={setDeadline}
+              min={new Date()}
+              max={new Date(new Date().getFullYear() + 50, 11, 31)}
+            />
+            <Input
+              style={styles.input}
+              label={t("goals.monthlyContribution")}
+              placeholder="0.00"
+              caption={t("goals.monthlyContributionHint")}
+              value={monthlyContribution}
+              onChangeText={setMonthlyContribution}
+              keyboardType="decimal-pad"
+            />
+          </View>
+
+          {/* Funding sources */}
+          <View
+            style={[
+              styles.card,
+              { backgroundColor: colors.card, shadowColor: colors.text },
+            ]}
+          >
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>
+              {t("goals.sources")}
+            </Text>
+            <Text style={[styles.hint, { color: colors.icon }]}>
+              {t("goals.sourcesHint")}
+            </Text>
+
+            {confirmedPortfolios.length > 0 && (
+              <Text style={[styles.groupLabel, { color: colors.icon }]}>
+                {t("goals.portfolios")}
+              </Text>
+            )}
+            {confirmedPortfolios.map((portfolio) =>
+              renderSourceRow(
+                `portfolio:${portfolio.id}`,
+                portfolio.data.name,
+                null,
+                true,
+              ),
+            )}
+
+            {holdings.length > 0 && (
+              <Text style={[styles.groupLabel, { color: colors.icon }]}>
+                {t("goals.savingsAccounts")}
+              </Text>
+            )}
+            {holdings.map(({ portfolio, investment }) =>
+              renderSourceRow(
+                `investment:${portfolio.id}:${investment.id}`,
+                investment.data.name,
+                portfolio.data.name,
+                true,
+              ),
+            )}
+
+            {confirmedGroups.length > 0 && (
+              <Text style={[styles.groupLabel, { color: colors.icon }]}>
+                {t("goals.expenseGroups")}
+              </Text>
+            )}
+            {confirmedGroups.map((group) =>
+              renderSourceRow(
+                `expenseGroup:${group.id}`,
+                group.data.name,
+                t("goals.expenseGroupHint"),
+                false,
+              ),
+            )}
+          </View>
+
+          <Button
+            style={styles.saveButton}
+            disabled={saving}
+            onPress={handleSave}
+          >
+            {t("goals.save")}
+          </Button>
+        </ScrollView>
+      </SafeAreaView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  safeArea: {
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  card: {
+    marginBottom: 20,
+    padding: 20,
+    borderRadius: 20,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginBottom: 8,
+  },
+  backButton: {
+    padding: 12,
+  },
+  input: {
+    marginBottom: 16,
+  },
+  hint: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  iconRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 16,
+  },
+  iconOption: {
+    padding: 8,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  groupLabel: {
+    fontSize: 12,
+    fontWeight: "600",
+    textTransform: "uppercase",
+    marginTop: 16,
+    marginBottom: 4,
+  },
+  sourceRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    paddingVertical: 8,
+    borderTopWidth: 1,
+  },
+  sourceInfo: {
+    flex: 1,
+  },
+  sourceName: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  shareInput: {
+    width: 90,
+  },
+  saveButton: {
+    marginBottom: 40,
+    borderRadius: 12,
+  },
+});
@@ -30,9 +30,11 @@ import {
   InvestmentStats,
 } from "@/utils/financeUtils";
 import {
+  INVESTMENT_TRANSACTION_TYPES,
   INVESTMENT_TYPES,
   InvestmentData,
   InvestmentLookupResultV2,
+  InvestmentTransaction,
 } from "@/types/investment";
 import { Ionicons } from "@expo/vector-icons";
 import { useColorScheme } from "@/hooks/useColorScheme";
@@ -43,7 +45,14 @@ import {
   normalizeDecimalForParsing,
 } from "@/utils/stringUtils";
 import { apiSearchSymbolsWithQuotes } from "@/services/investmentService";
-import { isPriceUpdateFailed } from "@/utils/investmentUtils";
+import {
+  calculateInvestmentPosition,
+  findOversoldTransaction,
+  getInvestmentTransactions,
+  isPriceUpdateFailed,
+} from "@/utils/investmentUtils";
+import { hasMaturityDate } from "@/utils/maturityUtils";
+import { v4 as uuidv4 } from "uuid";
 
 const currencies = ["USD", "EUR", "GBP", "CAD", "AUD", "JPY", "CHF", "CNY"];
 
@@ -57,15 +66,6 @@ export default function EditInvestmentScreen() {
   const { userProfile } = useProfile();
   const { t } = useLocalization();
 
-  // Helper function to check if investment type supports maturity date (only bonds)
-  const supportsMaturityDate = (typeId: string) => {
-    return (
-      typeId === "bond" ||
-      typeId === "certificate" ||
-      typeId === "savingsAccount"
-    );
-  };
-
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const [investment, setInvestment] = useState<any>(null);
@@ -101,18 +101,32 @@ export default function EditInvestmentScreen() {
     isin: "",
     exchange_market: "",
     symbol: "",
-    quantity: "",
-    purchase_price: "",
     current_price: "",
     taxation: "",
-    purchase_date: new Date(),
     notes: "",
     interest_rate: "",
     maturity_date: new Date(Date.now() + 5 * 365 * 24 * 60 * 60 * 1000), // 5 years from now
+    face_value: "",
   });
 
   const [errors, setErrors] = useState<{ [key: string]: string }>({});
 
+  // Transaction ledger
+  const [transactions, setTransactions] = useState<InvestmentTransaction[]>([]);
+  const [selectedTransactionTypeIndex, setSelectedTransactionTypeIndex] =
+    useState<IndexPath>(new IndexPath(0));
+  const [transactionForm, setTransactionForm] = useState({
+    date: new Date(),
+    quantity: "",
+    price: "",
+    amount: "",
+    fees: "",
+    withholding: "",
+  });
+  const [transactionErrors, setTransactionErrors] = useState<{
+    [key: string]: string;
+  }>({});
+
   // Load investment data from params
   useEffect(() => {
     if (
@@ -137,22 +151,18 @@ export default function EditInvestmentScreen() {
             isin: foundInvestment.data.isin || "",
             exchange_market: foundInvestment.data.exchange_market || "",
             symbol: foundInvestment.data.symbol || "",
-            quantity: foundInvestment.data.quantity?.toString() || "",
-            purchase_price:
-              foundInvestment.data.purchase_price?.toString() || "",
             current_price: foundInvestment.data.current_price?.toString() || "",
             taxation: foundInvestment.data.taxation
               ? foundInvestment.data.taxation.toString()
               : "",
-            purchase_date: foundInvestment.data.purchase_date
-              ? new Date(foundInvestment.data.purchase_date)
-              : new Date(),
             notes: foundInvestment.data.notes || "",
             interest_rate: foundInvestment.data.interest_rate?.toString() || "",
             maturity_date: foundInvestment.data.maturity_date
               ? new Date(foundInvestment.data.maturity_date)
               : new Date(),
+            face_value: foundInvestment.data.face_value?.toString() || "",
           });
+          setTransactions(getInvestmentTransactions(foundInvestment.data));
 
           // Set selected indices
           const portfolioIndex = portfolios.findIndex(
@@ -192,6 +202,23 @@ export default function EditInvestmentScreen() {
     ? t(`investmentTypes.${selectedType.id}`)
     : "";
   const selectedCurrency = currencies[selectedCurrencyIndex.row];
+  const selectedTransactionType =
+    INVESTMENT_TRANSACTION_TYPES[selectedTransactionTypeIndex.row];
+  const isTradeTransaction =
+    selectedTransactionType.id === "buy" ||
+    selectedTransactionType.id === "sell";
+
+  const position = useMemo(
+    () =>
+      calculateInvestmentPosition({
+        ...(investment?.data as InvestmentData),
+        transactions,
+      }),
+    [investment, transactions],
+  );
+  const firstPurchaseDate = position.firstPurchaseDate
+    ? new Date(position.firstPurchaseDate)
+    : new Date();
 
   // Check if price update failed using shared utility
   const priceUpdateFailed = isPriceUpdateFailed(
@@ -279,22 +306,8 @@ export default function EditInvestmentScreen() {
       newErrors.name = t("editInvestment.investmentNameRequired");
     }
 
-    if (!formData.quantity.trim()) {
-      newErrors.quantity = t("editInvestment.quantityRequired");
-    } else if (
-      isNaN(Number(normalizeDecimalForParsing(formData.quantity))) ||
-      Number(normalizeDecimalForParsing(formData.quantity)) <= 0
-    ) {
-      newErrors.quantity = t("editInvestment.quantityPositive");
-    }
-
-    if (!formData.purchase_price.trim()) {
-      newErrors.purchase_price = t("editInvestment.purchasePriceRequired");
-    } else if (
-      isNaN(Number(normalizeDecimalForParsing(formData.purchase_price))) ||
-      Number(normalizeDecimalForParsing(formData.purchase_price)) <= 0
-    ) {
-      newErrors.purchase_price = t("editInvestment.purchasePricePositive");
+    if (!transactions.some((transaction) => transaction.type === "buy")) {
+      newErrors.transactions = t("editInvestment.transactionsRequired");
     }
 
     if (
@@ -323,13 +336,22 @@ export default function EditInvestmentScreen() {
     }
 
     if (
-      supportsMaturityDate(selectedType.id) &&
+      hasMaturityDate(selectedType.id) &&
       formData.maturity_date &&
-      formData.maturity_date <= formData.purchase_date
+      formData.maturity_date <= firstPurchaseDate
     ) {
       newErrors.maturity_date = t("editInvestment.maturityDateAfterPurchase");
     }
 
+    if (
+      hasMaturityDate(selectedType.id) &&
+      formData.face_value &&
+      (isNaN(Number(normalizeDecimalForParsing(formData.face_value))) ||
+        Number(normalizeDecimalForParsing(formData.face_value)) <= 0)
+    ) {
+      newErrors.face_value = t("addInvestment.faceValueValid");
+    }
+
     if (!selectedPortfolio) {
       newErrors.portfolio = t("editInvestment.selectPortfolioRequired");
     }
@@ -338,6 +360,124 @@ export default function EditInvestmentScreen() {
     return Object.keys(newErrors).length === 0;
   };
 
+  // Ledgers already oversold before the change are not blocked
+  const leavesOversold = (
+    before: InvestmentTransaction[],
+    after: InvestmentTransaction[],
+  ) => !findOversoldTransaction(before) && !!findOversoldTransaction(after);
+
+  const parseTransactionNumber = (value: string) =>
+    Number(normalizeDecimalForParsing(value));
+
+  const handleAddTransaction = () => {
+    const newErrors: { [key: string]: string } = {};
+    const quantity = parseTransactionNumber(transactionForm.quantity);
+    const price = parseTransactionNumber(transactionForm.price);
+    const amount = parseTransactionNumber(transactionForm.amount);
+    const fees = transactionForm.fees.trim()
+      ? parseTransactionNumber(transactionForm.fees)
+      : 0;
+    const withholding = transactionForm.withholding.trim()
+      ? parseTransactionNumber(transactionForm.withholding)
+      : 0;
+
+    if (isTradeTransaction) {
+      if (isNaN(quantity) || quantity <= 0) {
+        newErrors.quantity = t("editInvestment.quantityPositive");
+      } else if (
+        selectedTransactionType.id === "sell" &&
+        leavesOversold(transactions, [
+          ...transactions,
+          {
+            id: "pending",
+            type: "sell",
+            date: transactionForm.date.toISOString(),
+            quantity,
+            price: 0,
+            fees: null,
+            notes: null,
+          },
+        ])
+      ) {
+        // Checked against the units held on the sell's date
+        newErrors.quantity = t("editInvestment.sellExceedsHolding");
+      }
+      if (isNaN(price) || price <= 0) {
+        newErrors.price = t("editInvestment.transactionPricePositive");
+      }
+      if (isNaN(fees) || fees < 0) {
+        newErrors.fees = t("editInvestment.transactionFeesValid");
+      }
+    } else if (isNaN(amount) || amount <= 0) {
+      newErrors.amount = t("editInvestment.transactionAmountPositive");
+    } else if (
+      selectedTransactionType.id === "dividend" &&
+      (isNaN(withholding) || withholding < 0 || withholding > amount)
+    ) {
+      newErrors.withholding = t("editInvestment.transactionWithholdingValid");
+    }
+
+    setTransactionErrors(newErrors);
+    if (Object.keys(newErrors).length > 0) return;
+
+    const transaction: InvestmentTransaction = {
+      id: uuidv4(),
+      type: selectedTransactionType.id,
+      date: transactionForm.date.toISOString(),
+      quantity: isTradeTransaction ? quantity : 0,
+      price: isTradeTransaction ? price : 0,
+      amount: isTradeTransaction ? null : amount,
+      fees: isTradeTransaction && fees > 0 ? fees : null,
+      withholding_tax:
+        selectedTransactionType.id === "dividend" && withholding > 0
+          ? withholding
+          : null,
+      notes: null,
+    };
+
+    setTransactions((prev) =>
+      getInvestmentTransactions({
+        ...(investment?.data as InvestmentData),
+        transactions: [...prev, transaction],
+      }),
+    );
+    setTransactionForm((prev) => ({
+      ...prev,
+      quantity: "",
+      price: "",
+      amount: "",
+      fees: "",
+      withholding: "",
+    }));
+  };
+
+  const handleRemoveTransaction = (transactionId: string) => {
+    const remaining = transactions.filter(
+      (transaction) => transaction.id !== transactionId,
+    );
+    if (leavesOversold(transactions, remaining)) {
+      Alert.alert(
+        t("editInvestment.error"),
+        t("editInvestment.removeLeavesOversold"),
+      );
+      return;
+    }
+    setTransactions(remaining);
+  };
+
+  const formatTransactionDetail = (transaction: InvestmentTransaction) => {
+    if (transaction.type === "dividend" && transaction.withholding_tax) {
+      return `${formatCurrency(transaction.amount || 0)} − ${formatCurrency(transaction.withholding_tax)}`;
+    }
+    if (transaction.type === "dividend" || transaction.type === "fee") {
+      return formatCurrency(transaction.amount || 0);
+    }
+    const detail = `${transaction.quantity} × ${formatCurrency(transaction.price)}`;
+    return transaction.fees
+      ? `${detail} + ${formatCurrency(transaction.fees)}`
+      : detail;
+  };
+
   const handleSubmit = async () => {
     if (!validateForm()) {
       return;
@@ -354,14 +494,13 @@ export default function EditInvestmentScreen() {
         exchange_market: formData.exchange_market?.trim()?.toUpperCase(),
         symbol: formData.symbol.trim() || null,
         type: selectedType.id,
-        quantity: Number(normalizeDecimalForParsing(formData.quantity)),
-        purchase_price: Number(
-          normalizeDecimalForParsing(formData.purchase_price),
-        ),
+        // Kept in sync with the ledger for code that reads a single purchase
+        quantity: position.quantity,
+        purchase_price: position.averageCost,
         current_price: formData.current_price
           ? Number(normalizeDecimalForParsing(formData.current_price))
-          : Number(normalizeDecimalForParsing(formData.purchase_price)),
-        purchase_date: formData.purchase_date.toISOString(),
+          : position.averageCost,
+        purchase_date: position.firstPurchaseDate || new Date().toISOString(),
         currency: selectedCurrency,
         last_updated: new Date().toISOString(),
         last_tentative_update: new Date().toISOString(),
@@ -373,9 +512,17 @@ export default function EditInvestmentScreen() {
           ? Number(normalizeDecimalForParsing(formData.interest_rate))
           : null,
         maturity_date:
-          supportsMaturityDate(selectedType.id) && formData.maturity_date
+          hasMaturityDate(selectedType.id) && formData.maturity_date
             ? formData.maturity_date.toISOString()
             : null,
+        face_value:
+          hasMaturityDate(selectedType.id) && formData.face_value
+            ? Number(normalizeDecimalForParsing(formData.face_value))
+            : null,
+        matured_at: investment.data.matured_at,
+        transactions,
+        price_history: investment.data.price_history,
+        payout_schedule: investment.data.payout_schedule,
       };
 
       const originalPortfolioId = params.portfolioId as string;
@@ -483,11 +630,7 @@ export default function EditInvestmentScreen() {
   };
 
   const investmentReturns = useMemo(() => {
-    if (
-      !formData.quantity ||
-      !formData.purchase_price ||
-      !formData.purchase_date
-    ) {
+    if (transactions.length === 0) {
       return {
         totalValue: 0,
         totalInvested: 0,
@@ -504,13 +647,9 @@ export default function EditInvestmentScreen() {
       } as InvestmentStats;
     }
 
-    const quantity = Number(normalizeDecimalForParsing(formData.quantity));
-    const purchasePrice = Number(
-      normalizeDecimalForParsing(formData.purchase_price),
-    );
     const currentPrice =
       Number(normalizeDecimalForParsing(formData.current_price)) ||
-      purchasePrice;
+      position.averageCost;
 
     const investmentData = {
       id: "temp",
@@ -520,10 +659,10 @@ export default function EditInvestmentScreen() {
           formData.isin,
         ).toUpperCase(),
         type: selectedType.id,
-        quantity: quantity,
-        purchase_price: purchasePrice,
+        quantity: position.quantity,
+        purchase_price: position.averageCost,
         current_price: currentPrice,
-        purchase_date: formData.purchase_date.toISOString().split("T")[0],
+        purchase_date: position.firstPurchaseDate || new Date().toISOString(),
         last_updated: new Date().toISOString(),
         last_tentative_update: new Date().toISOString(),
         currency: selectedCurrency,
@@ -538,11 +677,12 @@ export default function EditInvestmentScreen() {
         taxation: formData.taxation
           ? Number(normalizeDecimalForParsing(formData.taxation))
           : 0,
+        transactions,
       },
     };
 
     return calculateIndividualInvestmentReturns(investmentData);
-  }, [formData, selectedType.id, selectedCurrency]);
+  }, [formData, selectedType.id, selectedCurrency, transactions, position]);
 
   if (!investment || portfolios.length === 0) {
     return (
@@ -875,47 +1015,254 @@ export default function EditInvestmentScreen() {
             />
           </Card>
 
-          {/* Investment Details */}
+          {/* Transactions */}
           <Card style={[styles.formCard, { backgroundColor: colors.card }]}>
             <Text style={[styles.sectionTitle, { color: colors.text }]}>
-              {t("editInvestment.investmentDetails")}
+              {t("editInvestment.transactions")}
             </Text>
 
-            <Input
-              label={t("editInvestment.quantityRequired")}
-              placeholder={t("editInvestment.quantityDescription")}
-              value={formData.quantity}
-              onChangeText={(text) =>
-                setFormData((prev) => ({ ...prev, quantity: text }))
-              }
-              keyboardType="numeric"
-              style={[styles.input, errors.quantity && styles.inputError]}
-              status={errors.quantity ? "danger" : "basic"}
-            />
-            {errors.quantity && (
-              <Text style={styles.errorText}>{errors.quantity}</Text>
+            <View style={styles.summaryRow}>
+              <Text style={[styles.summaryLabel, { color: colors.icon }]}>
+                {t("editInvestment.unitsHeld")}
+              </Text>
+              <Text style={[styles.summaryValue, { color: colors.text }]}>
+                {position.quantity}
+              </Text>
+            </View>
+            <View style={styles.summaryRow}>
+              <Text style={[styles.summaryLabel, { color: colors.icon }]}>
+                {t("editInvestment.averageCost")}
+              </Text>
+              <Text style={[styles.summaryValue, { color: colors.text }]}>
+                {formatCurrency(position.averageCost)}
+              </Text>
+            </View>
+            {position.realizedGainLoss !== 0 && (
+              <View style={styles.summaryRow}>
+                <Text style={[styles.summaryLabel, { color: colors.icon }]}>
+                  {t("editInvestment.realizedGainLoss")}
+                </Text>
+                <Text
+                  style={[
+                    styles.summaryValue,
+                    {
+                      color:
+                        position.realizedGainLoss >= 0 ? "#4CAF50" : "#F44336",
+                    },
+                  ]}
+                >
+                  {position.realizedGainLoss >= 0 ? "+" : ""}
+                  {formatCurrency(position.realizedGainLoss)}
+                </Text>
+              </View>
             )}
-            <Text style={[styles.premiumNote, { color: colors.icon }]}>
-              {t("addInvestment.purchasePriceNote")}
-            </Text>
 
-            <Input
-              label={t("editInvestment.purchasePriceRequired")}
-              placeholder={t("editInvestment.pricePlaceholder")}
-              value={formData.purchase_price}
-              onChangeText={(text) => {
-                setFormData((prev) => ({
-                  ...prev,
-                  purchase_price: text,
-                }));
+            {transactions.length === 0 ? (
+              <Text
+                style={[
+                  styles.instructionText,
+                  styles.ledgerEmpty,
+                  { color: colors.icon },
+                ]}
+              >
+                {t("editInvestment.noTransactions")}
+              </Text>
+            ) : (
+              <View style={styles.ledgerList}>
+                {transactions.map((transaction) => {
+                  const transactionType = INVESTMENT_TRANSACTION_TYPES.find(
+                    (type) => type.id === transaction.type,
+                  );
+                  return (
+                    <View
+                      key={transaction.id}
+                      style={[
+                        styles.ledgerRow,
+                        { borderBottomColor: colors.border },
+                      ]}
+                    >
+                      <Ionicons
+                        name={(transactionType?.icon as any) || "ellipse"}
+                        size={20}
+                        color={colors.primary}
+                      />
+                      <View style={styles.ledgerContent}>
+                        <Text
+                          style={[styles.ledgerTitle, { color: colors.text }]}
+                        >
+                          {t(`investmentTransactionTypes.${transaction.type}`)}
+                        </Text>
+                        <Text
+                          style={[styles.ledgerDetail, { color: colors.icon }]}
+                        >
+                          {new Date(transaction.date).toLocaleDateString()} ·{" "}
+                          {formatTransactionDetail(transaction)}
+                        </Text>
+                      </View>
+                      <TouchableOpacity
+                        onPress={() => handleRemoveTransaction(transaction.id)}
+                        style={styles.ledgerRemoveButton}
+                      >
+                        <Ionicons
+                          name="trash-outline"
+                          size={18}
+                          color={colors.error}
+                        />
+                      </TouchableOpacity>
+                    </View>
+                  );
+                })}
+              </View>
+            )}
+            {errors.transactions && (
+              <Text style={styles.errorText}>{errors.transactions}</Text>
+            )}
+
+            <Text style={[styles.ledgerFormTitle, { color: colors.text }]}>
+              {t("editInvestment.addTransaction")}
+            </Text>
+            <Select
+              label={t("editInvestment.transactionType")}
+              selectedIndex={selectedTransactionTypeIndex}
+              onSelect={(index) => {
+                setSelectedTransactionTypeIndex(index as IndexPath);
+                setTransactionErrors({});
               }}
-              keyboardType="numeric"
-              style={[styles.input, errors.purchase_price && styles.inputError]}
-              status={errors.purchase_price ? "danger" : "basic"}
+              value={t(
+                `investmentTransactionTypes.${selectedTransactionType.id}`,
+              )}
+              style={styles.input}
+            >
+              {INVESTMENT_TRANSACTION_TYPES.map((type) => (
+                <SelectItem
+                  key={type.id}
+                  title={t(`investmentTransactionTypes.${type.id}`)}
+                />
+              ))}
+            </Select>
+            <Datepicker
+              label={t("editInvestment.transactionDate")}
+              date={transactionForm.date}
+              onSelect={(date) =>
+                setTransactionForm((prev) => ({ ...prev, date }))
+              }
+              style={styles.input}
+              min={new Date(2000, 0, 1)}
+              max={
+                new Date(new Date().setFullYear(new Date().getFullYear() + 1))
+              }
             />
-            {errors.purchase_price && (
-              <Text style={styles.errorText}>{errors.purchase_price}</Text>
+            {isTradeTransaction ? (
+              <>
+                <Input
+                  label={t("editInvestment.transactionQuantity")}
+                  placeholder={t("editInvestment.quantityDescription")}
+                  value={transactionForm.quantity}
+                  onChangeText={(text) =>
+                    setTransactionForm((prev) => ({ ...prev, quantity: text }))
+                  }
+                  keyboardType="numeric"
+                  style={styles.input}
+                  status={transactionErrors.quantity ? "danger" : "basic"}
+                />
+                {transactionErrors.quantity && (
+                  <Text style={styles.errorText}>
+                    {transactionErrors.quantity}
+                  </Text>
+                )}
+                <Input
+                  label={t("editInvestment.transactionPrice")}
+                  placeholder={t("editInvestment.pricePlaceholder")}
+                  value={transactionForm.price}
+                  onChangeText={(text) =>
+                    setTransactionForm((prev) => ({ ...prev, price: text }))
+                  }
+                  keyboardType="numeric"
+                  style={styles.input}
+                  status={transactionErrors.price ? "danger" : "basic"}
+                />
+                {transactionErrors.price && (
+                  <Text style={styles.errorText}>
+                    {transactionErrors.price}
+                  </Text>
+                )}
+                <Input
+                  label={t("editInvestment.transactionFees")}
+                  placeholder={t("editInvestment.pricePlaceholder")}
+                  value={transactionForm.fees}
+                  onChangeText={(text) =>
+                    setTransactionForm((prev) => ({ ...prev, fees: text }))
+                  }
+                  keyboardType="numeric"
+                  style={styles.input}
+                  status={transactionErrors.fees ? "danger" : "basic"}
+                />
+                {transactionErrors.fees && (
+                  <Text style={styles.errorText}>{transactionErrors.fees}</Text>
+                )}
+              </>
+            ) : (
+              <>
+                <Input
+                  label={t("editInvestment.transactionAmount")}
+                  placeholder={t("editInvestment.pricePlaceholder")}
+                  value={transactionForm.amount}
+                  onChangeText={(text) =>
+                    setTransactionForm((prev) => ({ ...prev, amount: text }))
+                  }
+                  keyboardType="numeric"
+                  style={styles.input}
+                  status={transactionErrors.amount ? "danger" : "basic"}
+                />
+                {transactionErrors.amount && (
+                  <Text style={styles.errorText}>
+                    {transactionErrors.amount}
+                  </Text>
+                )}
+                {selectedTransactionType.id === "dividend" && (
+                  <>
+                    <Input
+                      label={t("editInvestment.transactionWithholding")}
+                      placeholder={t("editInvestment.pricePlaceholder")}
+                      value={transactionForm.withholding}
+                      onChangeText={(text) =>
+                        setTransactionForm((prev) => ({
+                          ...prev,
+                          withholding: text,
+                        }))
+                      }
+                      keyboardType="numeric"
+                      style={styles.input}
+                      status={
+                        transactionErrors.withholding ? "danger" : "basic"
+                      }
+                    />
+                    {transactionErrors.withholding && (
+                      <Text style={styles.errorText}>
+                        {transactionErrors.withholding}
+                      </Text>
+                    )}
+                  </>
+                )}
+              </>
             )}
+            <Button
+              size="medium"
+              appearance="outline"
+              onPress={handleAddTransaction}
+              accessoryLeft={() => (
+                <Ionicons name="add" size={20} color={colors.primary} />
+              )}
+            >
+              {t("editInvestment.addTransaction")}
+            </Button>
+          </Card>
+
+          {/* Investment Details */}
+          <Card style={[styles.formCard, { backgroundColor: colors.card }]}>
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>
+              {t("editInvestment.investmentDetails")}
+            </Text>
 
             <Input
               label={t("editInvestment.currentPriceOptional")}
@@ -977,7 +1324,7 @@ export default function EditInvestmentScreen() {
                   <Text style={styles.errorText}>{errors.interest_rate}</Text>
                 )}
 
-                {supportsMaturityDate(selectedType.id) && (
+                {hasMaturityDate(selectedType.id) && (
                   <>
                     <Datepicker
                       label={t("editInvestment.maturityDate")}
@@ -995,8 +1342,7 @@ export default function EditInvestmentScreen() {
                       status={errors.maturity_date ? "danger" : "basic"}
                       min={
                         new Date(
-                          formData.purchase_date.getTime() +
-                            24 * 60 * 60 * 1000,
+                          firstPurchaseDate.getTime() + 24 * 60 * 60 * 1000,
                         )
                       }
                       max={new Date(2050, 11, 31)}
@@ -1006,24 +1352,29 @@ export default function EditInvestmentScreen() {
                         {errors.maturity_date}
                       </Text>
                     )}
+
+                    <Input
+                      label={t("addInvestment.faceValue")}
+                      placeholder={t("addInvestment.faceValuePlaceholder")}
+                      value={formData.face_value}
+                      onChangeText={(text) =>
+                        setFormData((prev) => ({ ...prev, face_value: text }))
+                      }
+                      keyboardType="decimal-pad"
+                      style={[
+                        styles.input,
+                        errors.face_value && styles.inputError,
+                      ]}
+                      status={errors.face_value ? "danger" : "basic"}
+                    />
+                    {errors.face_value && (
+                      <Text style={styles.errorText}>{errors.face_value}</Text>
+                    )}
                   </>
                 )}
               </>
             }
 
-            <Datepicker
-              label={t("editInvestment.purchaseDateRequired")}
-              date={formData.purchase_date}
-              onSelect={(date) =>
-                setFormData((prev) => ({ ...prev, purchase_date: date }))
-              }
-              style={styles.input}
-              min={new Date(2000, 0, 1)} // or whatever lower bound you want
-              max={
-                new Date(new Date().setFullYear(new Date().getFullYear() + 1))
-              }
-            />
-
             <Input
               label={t("editInvestment.notesOptional")}
               placeholder={t("editInvestment.notesPlaceholder")}
@@ -1038,7 +1389,7 @@ export default function EditInvestmentScreen() {
           </Card>
 
           {/* Summary Card */}
-          {formData.quantity && formData.purchase_price && (
+          {transactions.length > 0 && (
             <Card style={[styles.formCard, { backgroundColor: colors.card }]}>
               <Text style={[styles.sectionTitle, { color: colors.text }]}>
                 {t("editInvestment.investmentSummary")}
@@ -1048,12 +1399,7 @@ export default function EditInvestmentScreen() {
                   {t("editInvestment.totalInvestment")}
                 </Text>
                 <Text style={[styles.summaryValue, { color: colors.text }]}>
-                  {formatCurrency(
-                    Number(normalizeDecimalForParsing(formData.quantity)) *
-                      Number(
-                        normalizeDecimalForParsing(formData.purchase_price),
-                      ),
-                  )}
+                  {formatCurrency(investmentReturns.totalInvested)}
                 </Text>
               </View>
               <View style={styles.summaryRow}>
@@ -1409,4 +1755,38 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: "600",
   },
+  // Transaction ledger styles
+  ledgerList: {
+    marginTop: 8,
+    marginBottom: 16,
+  },
+  ledgerEmpty: {
+    marginTop: 8,
+  },
+  ledgerRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+  },
+  ledgerContent: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  ledgerTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  ledgerDetail: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  ledgerRemoveButton: {
+    padding: 8,
+  },
+  ledgerFormTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    marginBottom: 12,
+  },
 });
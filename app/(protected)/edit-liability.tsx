@@ -0,0 +1,320 @@
+import React, { useState } from "react";
+import {
+  Alert,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import {
+  Button,
+  Datepicker,
+  IndexPath,
+  Input,
+  Select,
+  SelectItem,
+  Text,
+  TopNavigation,
+} from "@ui-kitten/components";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import { ThemedView } from "@/components/ThemedView";
+import { Colors } from "@/constants/Colors";
+import { useLiability } from "@/context/LiabilityContext";
+import { useLocalization } from "@/context/LocalizationContext";
+import { useProfile } from "@/context/ProfileContext";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import { CURRENCIES } from "@/types/expense";
+import {
+  LIABILITY_TYPES,
+  LiabilityData,
+  LiabilityType,
+} from "@/types/liability";
+import { normalizeDecimalForParsing } from "@/utils/stringUtils";
+
+const parseAmount = (value: string): number | null =>
+  value.trim() ? Number(normalizeDecimalForParsing(value)) : null;
+
+export default function EditLiabilityScreen() {
+  const router = useRouter();
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+  const { t } = useLocalization();
+  const { userProfile } = useProfile();
+  const { liabilities, addLiability, updateLiability } = useLiability();
+  const { liabilityId } = useLocalSearchParams<{ liabilityId?: string }>();
+
+  const liability = liabilities.find((item) => item.id === liabilityId);
+  const data = liability?.data;
+  const defaultCurrency =
+    data?.currency || userProfile?.profile.defaultCurrency;
+
+  const [name, setName] = useState(data?.name || "");
+  const [typeIndex, setTypeIndex] = useState(
+    new IndexPath(
+      Math.max(
+        LIABILITY_TYPES.findIndex((type) => type.id === data?.type),
+        0,
+      ),
+    ),
+  );
+  const [currencyIndex, setCurrencyIndex] = useState(
+    new IndexPath(
+      Math.max(
+        CURRENCIES.findIndex((currency) => currency.value === defaultCurrency),
+        0,
+      ),
+    ),
+  );
+  const [balance, setBalance] = useState(data?.balance.toString() || "");
+  const [balanceDate, setBalanceDate] = useState(
+    data ? new Date(data.balance_date) : new Date(),
+  );
+  const [interestRate, setInterestRate] = useState(
+    data?.interest_rate?.toString() || "",
+  );
+  const [monthlyPayment, setMonthlyPayment] = useState(
+    data?.monthly_payment?.toString() || "",
+  );
+  const [paymentDay, setPaymentDay] = useState(
+    data?.payment_day?.toString() || "",
+  );
+  const [notes, setNotes] = useState(data?.notes || "");
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    const amount = parseAmount(balance);
+    const rate = parseAmount(interestRate);
+    const payment = parseAmount(monthlyPayment);
+    const day = paymentDay.trim() ? Number(paymentDay) : null;
+
+    if (!name.trim()) {
+      Alert.alert(t("alerts.error"), t("liabilities.nameRequired"));
+      return;
+    }
+    if (amount === null || isNaN(amount) || amount < 0) {
+      Alert.alert(t("alerts.error"), t("liabilities.balanceInvalid"));
+      return;
+    }
+    if (rate !== null && (isNaN(rate) || rate < 0)) {
+      Alert.alert(t("alerts.error"), t("liabilities.rateInvalid"));
+      return;
+    }
+    if (payment !== null && (isNaN(payment) || payment < 0)) {
+      Alert.alert(t("alerts.error"), t("liabilities.paymentInvalid"));
+      return;
+    }
+    if (day !== null && (!Number.isInteger(day) || day < 1 || day > 31)) {
+      Alert.alert(t("alerts.error"), t("liabilities.paymentDayInvalid"));
+      return;
+    }
+
+    const liabilityData: LiabilityData = {
+      ...data,
+      name: name.trim(),
+      type: LIABILITY_TYPES[typeIndex.row].id as LiabilityType,
+      currency: CURRENCIES[currencyIndex.row].value,
+      balance: amount,
+      balance_date: balanceDate.toISOString().split("T")[0],
+      interest_rate: rate,
+      monthly_payment: payment,
+      payment_day: day,
+      notes: notes.trim() || null,
+    };
+
+    setSaving(true);
+    try {
+      const result = liability
+        ? await updateLiability({ ...liability, data: liabilityData })
+        : await addLiability(liabilityData);
+      if (!result) {
+        Alert.alert(t("alerts.error"), t("liabilities.saveFailed"));
+        return;
+      }
+      router.back();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderBackAction = () => (
+    <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+      <Ionicons name="arrow-back" size={24} color={colors.icon} />
+    </TouchableOpacity>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <SafeAreaView style={styles.safeArea}>
+        <StatusBar
+          barStyle={colorScheme === "dark" ? "light-content" : "dark-content"}
+          backgroundColor={colors.background}
+        />
+        <TopNavigation
+          title={
+            liability
+              ? t("liabilities.editLiability")
+              : t("liabilities.addLiability")
+          }
+          alignment="center"
+          accessoryLeft={renderBackAction}
+          style={{ backgroundColor: colors.background }}
+        />
+
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          <View
+            style={[
+              styles.card,
+              { backgroundColor: colors.card, shadowColor: colors.text },
+            ]}
+          >
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>
+              {t("liabilities.details")}
+            </Text>
+            <Input
+              style={styles.input}
+              label={t("liabilities.name")}
+              placeholder={t("liabilities.namePlaceholder")}
+              value={name}
+              onChangeText={setName}
+            />
+            <Select
+              style={styles.input}
+              label={t("liabilities.type")}
+              selectedIndex={typeIndex}
+              onSelect={(index) => setTypeIndex(index as IndexPath)}
+              value={t(
+                `liabilities.types.${LIABILITY_TYPES[typeIndex.row].id}`,
+              )}
+            >
+              {LIABILITY_TYPES.map((type) => (
+                <SelectItem
+                  key={type.id}
+                  title={t(`liabilities.types.${type.id}`)}
+                />
+              ))}
+            </Select>
+            <Select
+              style={styles.input}
+              label={t("liabilities.currency")}
+              selectedIndex={currencyIndex}
+              onSelect={(index) => setCurrencyIndex(index as IndexPath)}
+              value={CURRENCIES[currencyIndex.row]?.label}
+            >
+              {CURRENCIES.map((currency) => (
+                <SelectItem key={currency.value} title={currency.label} />
+              ))}
+            </Select>
+            <Input
+              style={styles.input}
+              label={t("liabilities.balance")}
+              placeholder="0.00"
+              value={balance}
+              onChangeText={setBalance}
+              keyboardType="decimal-pad"
+            />
+            <Datepicker
+              style={styles.input}
+              label={t("liabilities.balanceDate")}
+              caption={t("liabilities.balanceDateHint")}
+              date={balanceDate}
+              onSelect={setBalanceDate}
+              min={new Date(1990, 0, 1)}
+              max={new Date()}
+            />
+          </View>
+
+          <View
+            style={[
+              styles.card,
+              { backgroundColor: colors.card, shadowColor: colors.text },
+            ]}
+          >
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>
+              {t("liabilities.repayment")}
+            </Text>
+            <Input
+              style={styles.input}
+              label={t("liabilities.interestRate")}
+              placeholder="0.00"
+              value={interestRate}
+              onChangeText={setInterestRate}
+              keyboardType="decimal-pad"
+            />
+            <Input
+              style={styles.input}
+              label={t("liabilities.monthlyPayment")}
+              placeholder="0.00"
+              value={monthlyPayment}
+              onChangeText={setMonthlyPayment}
+              keyboardType="decimal-pad"
+            />
+            <Input
+              style={styles.input}
+              label={t("liabilities.paymentDay")}
+              placeholder="1-31"
+              value={paymentDay}
+              onChangeText={setPaymentDay}
+              keyboardType="number-pad"
+            />
+            <Input
+              style={styles.input}
+              label={t("liabilities.notes")}
+              value={notes}
+              onChangeText={setNotes}
+              multiline
+              textStyle={{ minHeight: 64 }}
+            />
+          </View>
+
+          <Button
+            style={styles.saveButton}
+            disabled={saving}
+            onPress={handleSave}
+          >
+            {t("liabilities.save")}
+          </Button>
+        </ScrollView>
+      </SafeAreaView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  safeArea: {
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  card: {
+    marginBottom: 20,
+    padding: 20,
+    borderRadius: 20,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginBottom: 8,
+  },
+  backButton: {
+    padding: 12,
+  },
+  input: {
+    marginBottom: 16,
+  },
+  saveButton: {
+    marginBottom: 40,
+    borderRadius: 12,
+  },
+});
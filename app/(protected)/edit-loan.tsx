@@ -0,0 +1,690 @@
+import React, { useState } from "react";
+import {
+  Alert,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import {
+  Button,
+  Datepicker,
+  IndexPath,
+  Input,
+  Select,
+  SelectItem,
+  Text,
+  TopNavigation,
+} from "@ui-kitten/components";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import { v4 as uuidv4 } from "uuid";
+import { ThemedView } from "@/components/ThemedView";
+import { Colors } from "@/constants/Colors";
+import { useAuth } from "@/context/AuthContext";
+import { useExpense } from "@/context/ExpenseContext";
+import { useInvestment } from "@/context/InvestmentContext";
+import { useLocalization } from "@/context/LocalizationContext";
+import { useProfile } from "@/context/ProfileContext";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import { CURRENCIES } from "@/types/expense";
+import {
+  InvestmentData,
+  LOAN_RATE_TYPES,
+  LoanExtraRepayment,
+  LoanRateChange,
+  LoanTerms,
+} from "@/types/investment";
+import { calculateAnnuityPayment } from "@/utils/amortizationUtils";
+import { formatCurrency } from "@/utils/currencyUtils";
+import { buildLoanRecurringExpense } from "@/utils/loanUtils";
+import { normalizeDecimalForParsing } from "@/utils/stringUtils";
+
+const MAX_PAYMENT_DAY = 28;
+
+const parseAmount = (value: string): number =>
+  Number(normalizeDecimalForParsing(value));
+
+const toDateKey = (date: Date) => date.toISOString().split("T")[0];
+
+export default function EditLoanScreen() {
+  const router = useRouter();
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+  const { t } = useLocalization();
+  const { user } = useAuth();
+  const { userProfile } = useProfile();
+  const { portfolios, addInvestment, updateInvestment } = useInvestment();
+  const {
+    expensesGroups,
+    recurringExpenses,
+    addRecurringExpense,
+    updateRecurringExpense,
+    deleteRecurringExpense,
+  } = useExpense();
+  const { portfolioId, investmentId } = useLocalSearchParams<{
+    portfolioId?: string;
+    investmentId?: string;
+  }>();
+
+  const investment = portfolios
+    .find((portfolio) => portfolio.id === portfolioId)
+    ?.investments?.find((item) => item.id === investmentId);
+  const terms = investment?.data.loan;
+  const groups = expensesGroups.filter(
+    (group) => group.membership_status === "confirmed",
+  );
+
+  const [portfolioIndex, setPortfolioIndex] = useState(
+    new IndexPath(
+      Math.max(
+        portfolios.findIndex((portfolio) => portfolio.id === portfolioId),
+        0,
+      ),
+    ),
+  );
+  const [name, setName] = useState(investment?.data.name || "");
+  const [currencyIndex, setCurrencyIndex] = useState(
+    new IndexPath(
+      Math.max(
+        CURRENCIES.findIndex(
+          (currency) =>
+            currency.value ===
+            (investment?.data.currency || userProfile?.profile.defaultCurrency),
+        ),
+        0,
+      ),
+    ),
+  );
+  const [principal, setPrincipal] = useState(terms?.principal.toString() || "");
+  const [rate, setRate] = useState(terms?.rate.toString() || "");
+  const [rateTypeIndex, setRateTypeIndex] = useState(
+    new IndexPath(
+      Math.max(LOAN_RATE_TYPES.indexOf(terms?.rate_type || "fixed"), 0),
+    ),
+  );
+  const [termMonths, setTermMonths] = useState(
+    terms?.term_months.toString() || "",
+  );
+  const [startDate, setStartDate] = useState(
+    terms ? new Date(terms.start_date) : new Date(),
+  );
+  const [paymentDay, setPaymentDay] = useState(
+    terms?.payment_day.toString() || "1",
+  );
+  // Index 0 leaves the instalment out of the expenses
+  const [groupIndex, setGroupIndex] = useState(
+    new IndexPath(
+      groups.findIndex((group) => group.id === terms?.expense_group_id) + 1,
+    ),
+  );
+  const [rateChanges, setRateChanges] = useState<LoanRateChange[]>(
+    terms?.rate_changes || [],
+  );
+  const [extraRepayments, setExtraRepayments] = useState<LoanExtraRepayment[]>(
+    terms?.extra_repayments || [],
+  );
+  const [entryDate, setEntryDate] = useState(new Date());
+  const [rateEntry, setRateEntry] = useState("");
+  const [extraEntry, setExtraEntry] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const rateType = LOAN_RATE_TYPES[rateTypeIndex.row];
+  const currency = CURRENCIES[currencyIndex.row].value;
+  const previewPayment = calculateAnnuityPayment(
+    parseAmount(principal) || 0,
+    parseAmount(rate) || 0,
+    Math.floor(Number(termMonths)) || 0,
+  );
+
+  const addRateChange = () => {
+    const value = parseAmount(rateEntry);
+    if (!rateEntry.trim() || isNaN(value) || value < 0) {
+      Alert.alert(t("alerts.error"), t("loans.rateInvalid"));
+      return;
+    }
+    const date = toDateKey(entryDate);
+    setRateChanges((prev) =>
+      [
+        ...prev.filter((change) => change.date !== date),
+        { date, rate: value },
+      ].sort((a, b) => a.date.localeCompare(b.date)),
+    );
+    setRateEntry("");
+  };
+
+  const addExtraRepayment = () => {
+    const value = parseAmount(extraEntry);
+    if (!extraEntry.trim() || isNaN(value) || value <= 0) {
+      Alert.alert(t("alerts.error"), t("loans.extraInvalid"));
+      return;
+    }
+    setExtraRepayments((prev) =>
+      [
+        ...prev,
+        { id: uuidv4(), date: toDateKey(entryDate), amount: value },
+      ].sort((a, b) => a.date.localeCompare(b.date)),
+    );
+    setExtraEntry("");
+  };
+
+  /**
+   * Creates, moves or removes the recurring instalment so it matches the
+   * group picked on the form
+   */
+  const syncRecurringExpense = async (
+    targetPortfolioId: string,
+    targetInvestmentId: string,
+    loanTerms: LoanTerms,
+  ): Promise<LoanTerms> => {
+    const group = groupIndex.row > 0 ? groups[groupIndex.row - 1] : null;
+    const linked = recurringExpenses.find(
+      (item) => item.id === loanTerms.recurring_expense_id,
+    );
+
+    if (linked && linked.group_id !== group?.id) {
+      await deleteRecurringExpense(linked.group_id, linked.id);
+    }
+    if (!group || !user) {
+      return {
+        ...loanTerms,
+        expense_group_id: null,
+        recurring_expense_id: null,
+      };
+    }
+
+    const today = toDateKey(new Date());
+    const recurringData = buildLoanRecurringExpense(
+      {
+        portfolioId: targetPortfolioId,
+        investmentId: targetInvestmentId,
+        name: name.trim(),
+        currency,
+        terms: loanTerms,
+      },
+      { user_id: user.id, username: userProfile?.username || "" },
+      today,
+      linked && linked.group_id === group.id ? linked.data : undefined,
+    );
+
+    if (linked && linked.group_id === group.id) {
+      if (recurringData) {
+        await updateRecurringExpense(group.id, {
+          ...linked,
+          data: recurringData,
+        });
+      } else {
+        await deleteRecurringExpense(group.id, linked.id);
+        return { ...loanTerms, recurring_expense_id: null };
+      }
+      return loanTerms;
+    }
+
+    const created = recurringData
+      ? await addRecurringExpense(group.id, recurringData)
+      : null;
+    return {
+      ...loanTerms,
+      expense_group_id: group.id,
+      recurring_expense_id: created?.id || null,
+    };
+  };
+
+  const handleSave = async () => {
+    const amount = parseAmount(principal);
+    const annualRate = parseAmount(rate);
+    const months = Number(termMonths);
+    const day = Number(paymentDay);
+    const portfolio = investment
+      ? portfolios.find((item) => item.id === portfolioId)
+      : portfolios[portfolioIndex.row];
+
+    if (!name.trim()) {
+      Alert.alert(t("alerts.error"), t("loans.nameRequired"));
+      return;
+    }
+    if (!portfolio) {
+      Alert.alert(t("alerts.error"), t("loans.portfolioRequired"));
+      return;
+    }
+    if (isNaN(amount) || amount <= 0) {
+      Alert.alert(t("alerts.error"), t("loans.principalInvalid"));
+      return;
+    }
+    if (!rate.trim() || isNaN(annualRate) || annualRate < 0) {
+      Alert.alert(t("alerts.error"), t("loans.rateInvalid"));
+      return;
+    }
+    if (!Number.isInteger(months) || months <= 0) {
+      Alert.alert(t("alerts.error"), t("loans.termInvalid"));
+      return;
+    }
+    if (!Number.isInteger(day) || day < 1 || day > MAX_PAYMENT_DAY) {
+      Alert.alert(
+        t("alerts.error"),
+        t("loans.paymentDayInvalid", { max: MAX_PAYMENT_DAY }),
+      );
+      return;
+    }
+
+    const loanTerms: LoanTerms = {
+      ...terms,
+      principal: amount,
+      rate: annualRate,
+      rate_type: rateType,
+      rate_changes: rateType === "variable" ? rateChanges : [],
+      term_months: months,
+      start_date: toDateKey(startDate),
+      payment_day: day,
+      extra_repayments: extraRepayments,
+    };
+    const investmentData: InvestmentData = {
+      ...investment?.data,
+      name: name.trim(),
+      symbol: null,
+      isin: null,
+      type: "debt",
+      purchase_date: loanTerms.start_date,
+      purchase_price: amount,
+      quantity: 1,
+      currency,
+      current_price: null,
+      last_updated: investment?.data.last_updated || null,
+      last_tentative_update: investment?.data.last_tentative_update || null,
+      notes: investment?.data.notes || null,
+      interest_rate: annualRate,
+      loan: loanTerms,
+    };
+
+    setSaving(true);
+    try {
+      const saved = investment
+        ? await updateInvestment(portfolio.id, {
+            ...investment,
+            data: investmentData,
+          })
+        : await addInvestment(portfolio.id, investmentData);
+      if (!saved) {
+        Alert.alert(t("alerts.error"), t("loans.saveFailed"));
+        return;
+      }
+
+      const linkedTerms = await syncRecurringExpense(
+        portfolio.id,
+        saved.id,
+        loanTerms,
+      );
+      if (
+        linkedTerms.recurring_expense_id !== loanTerms.recurring_expense_id ||
+        linkedTerms.expense_group_id !== loanTerms.expense_group_id
+      ) {
+        await updateInvestment(portfolio.id, {
+          ...saved,
+          data: { ...investmentData, loan: linkedTerms },
+        });
+      }
+      router.back();
+    } catch (error) {
+      console.error("Failed to save loan:", error);
+      Alert.alert(t("alerts.error"), t("loans.saveFailed"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderBackAction = () => (
+    <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+      <Ionicons name="arrow-back" size={24} color={colors.icon} />
+    </TouchableOpacity>
+  );
+
+  const renderEntry = (
+    key: string,
+    date: string,
+    value: string,
+    onRemove: () => void,
+  ) => (
+    <View
+      key={key}
+      style={[styles.entryRow, { borderBottomColor: colors.border }]}
+    >
+      <Text style={[styles.entryText, { color: colors.text }]}>
+        {new Date(date).toLocaleDateString()}
+      </Text>
+      <Text style={[styles.entryValue, { color: colors.text }]}>{value}</Text>
+      <TouchableOpacity onPress={onRemove} style={styles.removeButton}>
+        <Ionicons name="close-circle-outline" size={20} color={colors.error} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <SafeAreaView style={styles.safeArea}>
+        <StatusBar
+          barStyle={colorScheme === "dark" ? "light-content" : "dark-content"}
+          backgroundColor={colors.background}
+        />
+        <TopNavigation
+          title={investment ? t("loans.editLoan") : t("loans.addLoan")}
+          alignment="center"
+          accessoryLeft={renderBackAction}
+          style={{ backgroundColor: colors.background }}
+        />
+
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          <View
+            style={[
+              styles.card,
+              { backgroundColor: colors.card, shadowColor: colors.text },
+            ]}
+          >
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>
+              {t("loans.details")}
+            </Text>
+            <Input
+              style={styles.input}
+              label={t("loans.name")}
+              placeholder={t("loans.namePlaceholder")}
+              value={name}
+              onChangeText={setName}
+            />
+            {!investment && (
+              <Select
+                style={styles.input}
+                label={t("loans.portfolio")}
+                selectedIndex={portfolioIndex}
+                onSelect={(index) => setPortfolioIndex(index as IndexPath)}
+                value={portfolios[portfolioIndex.row]?.data.name || ""}
+              >
+                {portfolios.map((portfolio) => (
+                  <SelectItem key={portfolio.id} title={portfolio.data.name} />
+                ))}
+              </Select>
+            )}
+            <Select
+              style={styles.input}
+              label={t("loans.currency")}
+              selectedIndex={currencyIndex}
+              onSelect={(index) => setCurrencyIndex(index as IndexPath)}
+              value={CURRENCIES[currencyIndex.row]?.label}
+            >
+              {CURRENCIES.map((item) => (
+                <SelectItem key={item.value} title={item.label} />
+              ))}
+            </Select>
+            <Input
+              style={styles.input}
+              label={t("loans.principal")}
+              placeholder="0.00"
+              value={principal}
+              onChangeText={setPrincipal}
+              keyboardType="decimal-pad"
+            />
+            <Select
+              style={styles.input}
+              label={t("loans.rateType")}
+              selectedIndex={rateTypeIndex}
+              onSelect={(index) => setRateTypeIndex(index as IndexPath)}
+              value={t(`loans.rateTypes.${rateType}`)}
+            >
+              {LOAN_RATE_TYPES.map((type) => (
+                <SelectItem key={type} title={t(`loans.rateTypes.${type}`)} />
+              ))}
+            </Select>
+            <Input
+              style={styles.input}
+              label={t("loans.rate")}
+              placeholder="0.00"
+              value={rate}
+              onChangeText={setRate}
+              keyboardType="decimal-pad"
+            />
+            <Input
+              style={styles.input}
+              label={t("loans.termMonths")}
+              placeholder="240"
+              value={termMonths}
+              onChangeText={setTermMonths}
+              keyboardType="number-pad"
+            />
+            <Datepicker
+              style={styles.input}
+              label={t("loans.startDate")}
+              date={startDate}
+              onSelect={setStartDate}
+              min={new Date(1990, 0, 1)}
+              max={new Date(new Date().getFullYear() + 1, 11, 31)}
+            />
+            <Input
+              style={styles.input}
+              label={t("loans.paymentDay")}
+              caption={t("loans.paymentDayHint", { max: MAX_PAYMENT_DAY })}
+              value={paymentDay}
+              onChangeText={setPaymentDay}
+              keyboardType="number-pad"
+            />
+            {previewPayment > 0 && (
+              <View style={styles.previewRow}>
+                <Text style={[styles.previewLabel, { color: colors.icon }]}>
+                  {t("loans.instalment")}
+                </Text>
+                <Text style={[styles.previewValue, { color: colors.text }]}>
+                  {formatCurrency(previewPayment, currency)}
+                </Text>
+              </View>
+            )}
+          </View>
+
+          <View
+            style={[
+              styles.card,
+              { backgroundColor: colors.card, shadowColor: colors.text },
+            ]}
+          >
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>
+              {t("loans.linkedExpense")}
+            </Text>
+            <Select
+              style={styles.input}
+              label={t("loans.expenseGroup")}
+              caption={t("loans.expenseGroupHint")}
+              selectedIndex={groupIndex}
+              onSelect={(index) => setGroupIndex(index as IndexPath)}
+              value={
+                groupIndex.row > 0
+                  ? groups[groupIndex.row - 1]?.data.name
+                  : t("loans.noLinkedExpense")
+              }
+            >
+              {[
+                <SelectItem key="none" title={t("loans.noLinkedExpense")} />,
+                ...groups.map((group) => (
+                  <SelectItem key={group.id} title={group.data.name} />
+                )),
+              ]}
+            </Select>
+          </View>
+
+          <View
+            style={[
+              styles.card,
+              { backgroundColor: colors.card, shadowColor: colors.text },
+            ]}
+          >
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>
+              {rateType === "variable"
+                ? t("loans.changesAndRepayments")
+                : t("loans.extraRepayments")}
+            </Text>
+            <Text style={[styles.hint, { color: colors.icon }]}>
+              {t("loans.extraRepaymentsHint")}
+            </Text>
+            {rateChanges.map((change) =>
+              renderEntry(
+                `rate-${change.date}`,
+                change.date,
+                t("loans.rateChangeValue", { rate: change.rate }),
+                () =>
+                  setRateChanges((prev) =>
+                    prev.filter((item) => item.date !== change.date),
+                  ),
+              ),
+            )}
+            {extraRepayments.map((repayment) =>
+              renderEntry(
+                repayment.id,
+                repayment.date,
+                formatCurrency(repayment.amount, currency),
+                () =>
+                  setExtraRepayments((prev) =>
+                    prev.filter((item) => item.id !== repayment.id),
+                  ),
+              ),
+            )}
+            <Datepicker
+              style={[styles.input, styles.entryDate]}
+              label={t("loans.entryDate")}
+              date={entryDate}
+              onSelect={setEntryDate}
+              min={startDate}
+              max={new Date(new Date().getFullYear() + 50, 11, 31)}
+            />
+            <View style={styles.entryInputRow}>
+              <Input
+                style={styles.entryInput}
+                label={t("loans.extraAmount")}
+                placeholder="0.00"
+                value={extraEntry}
+                onChangeText={setExtraEntry}
+                keyboardType="decimal-pad"
+              />
+              <Button
+                style={styles.entryButton}
+                size="small"
+                appearance="outline"
+                onPress={addExtraRepayment}
+              >
+                {t("loans.add")}
+              </Button>
+            </View>
+            {rateType === "variable" && (
+              <View style={styles.entryInputRow}>
+                <Input
+                  style={styles.entryInput}
+                  label={t("loans.newRate")}
+                  placeholder="0.00"
+                  value={rateEntry}
+                  onChangeText={setRateEntry}
+                  keyboardType="decimal-pad"
+                />
+                <Button
+                  style={styles.entryButton}
+                  size="small"
+                  appearance="outline"
+                  onPress={addRateChange}
+                >
+                  {t("loans.add")}
+                </Button>
+              </View>
+            )}
+          </View>
+
+          <Button
+            style={styles.saveButton}
+            disabled={saving}
+            onPress={handleSave}
+          >
+            {t("loans.save")}
+          </Button>
+        </ScrollView>
+      </SafeAreaView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  safeArea: {
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  card: {
+    marginBottom: 20,
+    padding: 20,
+    borderRadius: 20,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginBottom: 8,
+  },
+  backButton: {
+    padding: 12,
+  },
+  input: {
+    marginBottom: 16,
+  },
+  hint: {
+    fontSize: 12,
+    marginBottom: 12,
+  },
+  previewRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  previewLabel: {
+    fontSize: 14,
+  },
+  previewValue: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  entryRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  entryText: {
+    flex: 1,
+    fontSize: 14,
+  },
+  entryValue: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  removeButton: {
+    paddingLeft: 12,
+  },
+  entryDate: {
+    marginTop: 12,
+  },
+  entryInputRow: {
+    flexDirection: "row",
+    alignItems: "flex-end",
+    marginBottom: 12,
+  },
+  entryInput: {
+    flex: 1,
+    marginRight: 8,
+  },
+  entryButton: {
+    borderRadius: 12,
+  },
+  saveButton: {
+    marginBottom: 40,
+    borderRadius: 12,
+  },
+});
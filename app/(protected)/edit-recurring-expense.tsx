@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import {
   StyleSheet,
   ScrollView,
@@ -31,12 +31,12 @@ import { useLocalization } from "@/context/LocalizationContext";
 import { useColorScheme } from "@/hooks/useColorScheme";
 import { Colors } from "@/constants/Colors";
 import {
+  RecurrenceRule,
   RecurringExpenseData,
   RecurringExpenseWithDecryptedData,
   CURRENCIES,
   SPLIT_METHODS,
   ExpenseParticipant,
-  calculateEqualSplit,
   computeExpenseCategories,
   getCategoryDisplayInfo,
   getMainCategories,
@@ -46,13 +46,19 @@ import {
 } from "@/types/expense";
 import { Ionicons } from "@expo/vector-icons";
 import { ThemedView } from "@/components/ThemedView";
-
-const getRecurringIntervals = (t: any) => [
-  { value: "daily", label: t("editRecurringExpense.daily") },
-  { value: "weekly", label: t("editRecurringExpense.weekly") },
-  { value: "monthly", label: t("editRecurringExpense.monthly") },
-  { value: "yearly", label: t("editRecurringExpense.yearly") },
-];
+import RecurrenceRuleEditor from "@/components/expenses/RecurrenceRuleEditor";
+import {
+  addDays,
+  getGeneratedUntil,
+  getNextOccurrence,
+  getRecurrenceRule,
+} from "@/utils/recurrenceUtils";
+import {
+  calculateSplit,
+  getDefaultSplitPercentages,
+  getDefaultSplitWeight,
+  getUnassignedPercentage,
+} from "@/utils/splitUtils";
 
 export default function EditRecurringExpenseScreen() {
   const router = useRouter();
@@ -132,9 +138,10 @@ export default function EditRecurringExpenseScreen() {
   const [selectedCurrencyIndex, setSelectedCurrencyIndex] = useState<IndexPath>(
     new IndexPath(0),
   );
-  const [selectedIntervalIndex, setSelectedIntervalIndex] = useState<IndexPath>(
-    new IndexPath(2),
-  ); // Default to monthly
+  const [recurrenceRule, setRecurrenceRule] = useState<RecurrenceRule>({
+    frequency: "monthly",
+    interval: 1,
+  });
   const [startDate, setStartDate] = useState(new Date());
   const [endDate, setEndDate] = useState<Date | undefined>();
   const [hasEndDate, setHasEndDate] = useState(false);
@@ -154,8 +161,31 @@ export default function EditRecurringExpenseScreen() {
   const [customAmounts, setCustomAmounts] = useState<{
     [userId: string]: string;
   }>({});
+  const [splitInputs, setSplitInputs] = useState<{
+    [userId: string]: string;
+  }>({});
   const [shouldGenerateExpenses, setShouldGenerateExpenses] = useState(true);
 
+  const groupData = expensesGroups?.find((g) => g.id === groupId)?.data;
+  const selectedSplitMethod =
+    SPLIT_METHODS[selectedSplitMethodIndex.row]?.value || "equal";
+
+  // Active participants with their share of the amount for the split method
+  const splitParticipants = useMemo(() => {
+    const activeParticipants = participants.filter((p) => p.share_amount > 0);
+    if (selectedSplitMethod === "custom") {
+      return activeParticipants.map((p) => ({
+        ...p,
+        share_amount: parseFloat(customAmounts[p.user_id] || "0"),
+      }));
+    }
+    return calculateSplit(
+      parseFloat(amount) || 0,
+      activeParticipants,
+      selectedSplitMethod,
+    );
+  }, [participants, customAmounts, amount, selectedSplitMethod]);
+
   // Load recurring expense data on mount
   useEffect(() => {
     if (
@@ -183,7 +213,19 @@ export default function EditRecurringExpenseScreen() {
     setAmount(foundRecurringExpense.data.amount.toString());
     setStartDate(new Date(foundRecurringExpense.data.start_date));
     setIsActive(foundRecurringExpense.data.is_active);
-    setParticipants(foundRecurringExpense.data.participants);
+    // Schedules split before shares and percentages get the group defaults
+    const defaultPercentages = getDefaultSplitPercentages(
+      group.data,
+      foundRecurringExpense.data.participants.map((p) => p.user_id),
+    );
+    setParticipants(
+      foundRecurringExpense.data.participants.map((p, index) => ({
+        ...p,
+        share_weight:
+          p.share_weight ?? getDefaultSplitWeight(group.data, p.user_id),
+        share_percentage: p.share_percentage ?? defaultPercentages[index],
+      })),
+    );
     setShouldGenerateExpenses(
       foundRecurringExpense.data.should_generate_expenses ?? true,
     );
@@ -234,14 +276,7 @@ export default function EditRecurringExpenseScreen() {
       new IndexPath(currencyIndex >= 0 ? currencyIndex : 0),
     );
 
-    // Set interval index
-    const recurringIntervals = getRecurringIntervals(t);
-    const intervalIndex = recurringIntervals.findIndex(
-      (int) => int.value === foundRecurringExpense.data.interval,
-    );
-    setSelectedIntervalIndex(
-      new IndexPath(intervalIndex >= 0 ? intervalIndex : 2),
-    );
+    setRecurrenceRule(getRecurrenceRule(foundRecurringExpense.data));
 
     // Set payer index
     const payerIndex = group.members.findIndex(
@@ -314,7 +349,7 @@ export default function EditRecurringExpenseScreen() {
       return;
     }
 
-    if (participants.length === 0) {
+    if (splitParticipants.length === 0) {
       Alert.alert(
         t("editRecurringExpense.error"),
         t("editRecurringExpense.selectAtLeastOneParticipant"),
@@ -323,12 +358,11 @@ export default function EditRecurringExpenseScreen() {
     }
 
     // Validate custom amounts
-    if (selectedSplitMethodIndex?.row === 1) {
-      // Custom amounts
-      const totalCustomAmount = participants.reduce((sum, p) => {
-        const customAmount = parseFloat(customAmounts[p.user_id] || "0");
-        return sum + (isNaN(customAmount) ? 0 : customAmount);
-      }, 0);
+    if (selectedSplitMethod === "custom") {
+      const totalCustomAmount = splitParticipants.reduce(
+        (sum, p) => sum + (isNaN(p.share_amount) ? 0 : p.share_amount),
+        0,
+      );
 
       if (Math.abs(totalCustomAmount - parseFloat(amount)) > 0.01) {
         Alert.alert(
@@ -339,6 +373,27 @@ export default function EditRecurringExpenseScreen() {
       }
     }
 
+    if (selectedSplitMethod === "percentage") {
+      const remaining = getUnassignedPercentage(splitParticipants);
+      if (remaining !== 0) {
+        Alert.alert(
+          t("editRecurringExpense.error"),
+          t("validation.percentagesMustTotal", { remaining }),
+        );
+        return;
+      }
+    }
+    if (
+      selectedSplitMethod === "shares" &&
+      splitParticipants.every((p) => p.share_amount === 0)
+    ) {
+      Alert.alert(
+        t("editRecurringExpense.error"),
+        t("validation.sharesRequired"),
+      );
+      return;
+    }
+
     setLoading(true);
 
     try {
@@ -353,29 +408,23 @@ export default function EditRecurringExpenseScreen() {
         selectedCategory = { id: "other" };
       }
       const selectedCurrency = CURRENCIES[selectedCurrencyIndex.row];
-      const recurringIntervals = getRecurringIntervals(t);
-      const selectedInterval = recurringIntervals[selectedIntervalIndex.row];
       const selectedPayer = groupMembers[selectedPayerIndex.row];
-      const selectedSplitMethod = SPLIT_METHODS[selectedSplitMethodIndex.row];
       const selectedPaymentMethod =
         availablePaymentMethods[selectedPaymentMethodIndex.row];
 
-      // Calculate participant shares
-      let finalParticipants: ExpenseParticipant[] = [];
       const amountNum = parseFloat(amount);
-
-      if (selectedSplitMethod.value === "equal") {
-        const shareAmount = calculateEqualSplit(amountNum, participants.length);
-        finalParticipants = participants.map((p) => ({
-          ...p,
-          share_amount: shareAmount,
-        }));
-      } else if (selectedSplitMethod.value === "custom") {
-        finalParticipants = participants.map((p) => ({
-          ...p,
-          share_amount: parseFloat(customAmounts[p.user_id] || "0"),
-        }));
-      }
+      const finalParticipants = splitParticipants;
+
+      // Re-anchor the schedule on the (possibly changed) rule and start date,
+      // keeping occurrences that were not generated yet
+      const startDateString = startDate.toISOString().split("T")[0];
+      const generatedUntil = getGeneratedUntil(recurringExpense.data);
+      const nextDueDate =
+        getNextOccurrence(
+          recurrenceRule,
+          startDateString,
+          generatedUntil ?? addDays(recurringExpense.data.next_due_date, -1),
+        ) ?? recurringExpense.data.next_due_date;
 
       const updatedRecurringExpenseData: RecurringExpenseData = {
         name: name.trim(),
@@ -387,19 +436,16 @@ export default function EditRecurringExpenseScreen() {
         payer_user_id: selectedPayer.user_id,
         payer_username: selectedPayer.username,
         participants: finalParticipants,
-        split_method: selectedSplitMethod.value as "equal" | "custom",
-        interval: selectedInterval.value as
-          | "daily"
-          | "weekly"
-          | "monthly"
-          | "yearly",
-        start_date: startDate.toISOString().split("T")[0],
+        split_method: selectedSplitMethod,
+        interval: recurrenceRule.frequency,
+        recurrence: recurrenceRule,
+        start_date: startDateString,
         end_date:
           hasEndDate && endDate
             ? endDate.toISOString().split("T")[0]
             : undefined,
-        next_due_date: recurringExpense.data.next_due_date, // Keep existing next due date
-        last_generated_date: recurringExpense.data.last_generated_date,
+        next_due_date: nextDueDate,
+        last_generated_date: generatedUntil,
         should_generate_expenses: shouldGenerateExpenses,
         is_active: isActive,
       };
@@ -485,6 +531,8 @@ export default function EditRecurringExpenseScreen() {
           user_id: member.user_id,
           username: member.username,
           share_amount: 1, // Start as active
+          share_weight: getDefaultSplitWeight(groupData, member.user_id),
+          share_percentage: 0,
         };
         return [...prev, newParticipant];
       }
@@ -501,7 +549,7 @@ export default function EditRecurringExpenseScreen() {
         delete newAmounts[member.user_id];
         return newAmounts;
       });
-    } else if (selectedSplitMethodIndex.row === 1) {
+    } else if (selectedSplitMethod === "custom") {
       // Activating and custom split - initialize custom amount
       setCustomAmounts((prev) => ({
         ...prev,
@@ -517,24 +565,31 @@ export default function EditRecurringExpenseScreen() {
     }));
   };
 
-  // Update participant shares when split method or amount changes
-  useEffect(() => {
-    if (!amount || participants.length === 0) return;
-
-    const amountNum = parseFloat(amount);
-    if (isNaN(amountNum)) return;
-
-    if (selectedSplitMethodIndex.row === 0) {
-      // Equal split
-      const shareAmount = calculateEqualSplit(amountNum, participants.length);
-      setParticipants((prev) =>
-        prev.map((p) => ({
-          ...p,
-          share_amount: shareAmount,
-        })),
-      );
+  const handleSplitInputChange = (userId: string, value: string) => {
+    const parsed = Math.max(parseFloat(value) || 0, 0);
+    setParticipants((prev) =>
+      prev.map((p) => {
+        if (p.user_id !== userId) return p;
+        return selectedSplitMethod === "shares"
+          ? { ...p, share_weight: parsed }
+          : { ...p, share_percentage: parsed };
+      }),
+    );
+    setSplitInputs((prev) => ({ ...prev, [userId]: value }));
+  };
+
+  const handleSplitMethodChange = (index: IndexPath) => {
+    // Start custom amounts from the split shown so far
+    if (SPLIT_METHODS[index.row]?.value === "custom") {
+      const amounts: { [userId: string]: string } = {};
+      splitParticipants.forEach((p) => {
+        amounts[p.user_id] = p.share_amount.toString();
+      });
+      setCustomAmounts(amounts);
     }
-  }, [selectedSplitMethodIndex, amount, participants.length]);
+    setSplitInputs({});
+    setSelectedSplitMethodIndex(index);
+  };
 
   if (!recurringExpense) {
     return (
@@ -694,18 +749,6 @@ export default function EditRecurringExpenseScreen() {
               {t("editRecurringExpense.schedule")}
             </Text>
 
-            <Select
-              label={t("editRecurringExpense.frequency")}
-              selectedIndex={selectedIntervalIndex}
-              onSelect={(index) => setSelectedIntervalIndex(index as IndexPath)}
-              value={getRecurringIntervals(t)[selectedIntervalIndex.row]?.label}
-              style={styles.input}
-            >
-              {getRecurringIntervals(t).map((interval, index) => (
-                <SelectItem key={index} title={interval.label} />
-              ))}
-            </Select>
-
             <Datepicker
               label={t("editRecurringExpense.startDate")}
               date={startDate}
@@ -729,6 +772,13 @@ export default function EditRecurringExpenseScreen() {
               />
             )}
 
+            <RecurrenceRuleEditor
+              rule={recurrenceRule}
+              onChange={setRecurrenceRule}
+              startDate={startDate}
+              endDate={hasEndDate ? endDate : undefined}
+            />
+
             <View style={styles.toggleRow}>
               <Text style={[styles.toggleLabel, { color: colors.text }]}>
                 {t("editRecurringExpense.active")}
@@ -789,7 +839,7 @@ export default function EditRecurringExpenseScreen() {
                 label={t("editRecurringExpense.splitMethod")}
                 selectedIndex={selectedSplitMethodIndex}
                 onSelect={(index) =>
-                  setSelectedSplitMethodIndex(index as IndexPath)
+                  handleSplitMethodChange(index as IndexPath)
                 }
                 value={SPLIT_METHODS[selectedSplitMethodIndex.row]?.label}
                 style={styles.input}
@@ -814,6 +864,13 @@ export default function EditRecurringExpenseScreen() {
                 );
                 const isActive = participant && participant.share_amount > 0;
                 const isCurrentUser = member.user_id === user?.id;
+                const splitAmount =
+                  splitParticipants.find((p) => p.user_id === member.user_id)
+                    ?.share_amount || 0;
+                const splitValue =
+                  selectedSplitMethod === "shares"
+                    ? participant?.share_weight
+                    : participant?.share_percentage;
 
                 return (
                   <View key={member.user_id} style={styles.participantRow}>
@@ -830,7 +887,7 @@ export default function EditRecurringExpenseScreen() {
                       </Text>
                     </View>
 
-                    {isActive && selectedSplitMethodIndex.row === 1 && (
+                    {isActive && selectedSplitMethod === "custom" && (
                       <Input
                         placeholder={t(
                           "editRecurringExpense.amountPlaceholder",
@@ -844,16 +901,45 @@ export default function EditRecurringExpenseScreen() {
                       />
                     )}
 
-                    {isActive && selectedSplitMethodIndex.row === 0 && (
+                    {isActive &&
+                      (selectedSplitMethod === "shares" ||
+                        selectedSplitMethod === "percentage") && (
+                        <Input
+                          placeholder={
+                            selectedSplitMethod === "shares"
+                              ? t("addExpense.sharesPlaceholder")
+                              : t("addExpense.percentagePlaceholder")
+                          }
+                          value={
+                            splitInputs[member.user_id] ??
+                            (splitValue ?? "").toString()
+                          }
+                          onChangeText={(value) =>
+                            handleSplitInputChange(member.user_id, value)
+                          }
+                          keyboardType="decimal-pad"
+                          style={styles.splitValueInput}
+                        />
+                      )}
+
+                    {isActive && selectedSplitMethod !== "custom" && (
                       <Text
                         style={[styles.shareAmount, { color: colors.text }]}
                       >
-                        {participant?.share_amount.toFixed(2) || "0.00"}
+                        {splitAmount.toFixed(2)}
                       </Text>
                     )}
                   </View>
                 );
               })}
+              {selectedSplitMethod === "percentage" &&
+                getUnassignedPercentage(splitParticipants) !== 0 && (
+                  <Text style={[styles.splitHint, { color: colors.warning }]}>
+                    {t("addExpense.percentageRemaining", {
+                      remaining: getUnassignedPercentage(splitParticipants),
+                    })}
+                  </Text>
+                )}
             </Card>
           )}
 
@@ -972,6 +1058,13 @@ const styles = StyleSheet.create({
   customAmountInput: {
     width: 100,
   },
+  splitValueInput: {
+    width: 64,
+  },
+  splitHint: {
+    fontSize: 12,
+    marginTop: 8,
+  },
   shareAmount: {
     fontSize: 14,
     fontWeight: "500",
@@ -1,5 +1,13 @@
 import React, { useEffect, useState } from "react";
-import { StyleSheet, ScrollView, Alert, View, Modal } from "react-native";
+import {
+  StyleSheet,
+  ScrollView,
+  Alert,
+  View,
+  Modal,
+  Image,
+  TouchableOpacity,
+} from "react-native";
 import {
   Layout,
   Text,
@@ -11,6 +19,7 @@ import {
   Select,
   SelectItem,
   IndexPath,
+  Spinner,
 } from "@ui-kitten/components";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { useLocalSearchParams, useRouter } from "expo-router";
@@ -20,15 +29,26 @@ import { useAuth } from "@/context/AuthContext";
 import { useProfile } from "@/context/ProfileContext";
 import {
   ExpenseWithDecryptedData,
+  ReceiptImage,
   getCategoryDisplayInfo,
   getPaymentMethodDisplayInfo,
-  ExpenseParticipant,
-  calculateEqualSplit,
 } from "@/types/expense";
 import { ThemedView } from "@/components/ThemedView";
 import { useColorScheme } from "@/hooks/useColorScheme";
 import { Colors } from "@/constants/Colors";
 import { useLocalization } from "@/context/LocalizationContext";
+import {
+  getItemizationSubtotal,
+  getLineItemTotal,
+} from "@/utils/itemizationUtils";
+import { trashExpenseData } from "@/utils/trashUtils";
+import {
+  MemberMapping,
+  getDefaultMemberMapping,
+  getUnmatchedMembers,
+  remapExpenseMembers,
+} from "@/utils/moveUtils";
+import MemberRemapping from "@/components/expenses/MemberRemapping";
 
 export default function ExpenseDetailScreen() {
   const router = useRouter();
@@ -40,8 +60,13 @@ export default function ExpenseDetailScreen() {
     expenseId: string;
     groupId: string;
   }>();
-  const { expensesGroups, deleteExpense, updateExpense, moveExpense } =
-    useExpense();
+  const {
+    expensesGroups,
+    updateExpense,
+    moveExpenses,
+    fetchReceipt,
+    deleteReceipt,
+  } = useExpense();
   const { userProfile } = useProfile();
   const [expense, setExpense] = useState<ExpenseWithDecryptedData | null>(null);
   const [groupName, setGroupName] = useState<string>("");
@@ -51,6 +76,10 @@ export default function ExpenseDetailScreen() {
     IndexPath | undefined
   >();
   const [isMoving, setIsMoving] = useState(false);
+  const [memberMapping, setMemberMapping] = useState<MemberMapping>({});
+  const [receiptImage, setReceiptImage] = useState<ReceiptImage | null>(null);
+  const [loadingReceipt, setLoadingReceipt] = useState(false);
+  const [deletingReceipt, setDeletingReceipt] = useState(false);
 
   useEffect(() => {
     if (!expenseId || !groupId || !expensesGroups) return;
@@ -81,53 +110,50 @@ export default function ExpenseDetailScreen() {
     });
   };
 
+  const availableGroups = expensesGroups.filter(
+    (g) => g.id !== groupId && g.membership_status === "confirmed",
+  );
+  const targetGroup = selectedTargetGroupIndex
+    ? availableGroups[selectedTargetGroupIndex.row]
+    : undefined;
+  const unmatchedMembers =
+    expense && targetGroup
+      ? getUnmatchedMembers([expense.data], targetGroup.members)
+      : [];
+
   const handleMove = () => {
     setShowMoveModal(true);
   };
 
-  const handleMoveConfirm = async () => {
-    if (
-      !expense ||
-      !selectedTargetGroupIndex ||
-      !expenseId ||
-      !groupId ||
-      !user ||
-      !userProfile
-    )
-      return;
-
-    const availableGroups = expensesGroups.filter((g) => g.id !== groupId);
-    const targetGroup = availableGroups[selectedTargetGroupIndex.row];
+  const handleTargetGroupSelect = (index: IndexPath) => {
+    setSelectedTargetGroupIndex(index);
+    const group = availableGroups[index.row];
+    if (!expense || !group) return;
+    setMemberMapping(
+      getDefaultMemberMapping(
+        getUnmatchedMembers([expense.data], group.members),
+        group.members,
+        user?.id,
+      ),
+    );
+  };
 
-    if (!targetGroup) return;
+  const handleMoveConfirm = async () => {
+    if (!expense || !targetGroup || !expenseId || !groupId) return;
 
     setIsMoving(true);
     try {
-      // Create participants from target group members with automatic equal split
-      const targetGroupMembers = targetGroup.members || [];
-      const shareAmount = calculateEqualSplit(
-        expense.data.amount,
-        targetGroupMembers.length,
-      );
-
-      const updatedExpenseData = {
-        ...expense.data,
-        participants: targetGroupMembers.map((member) => ({
-          user_id: member.user_id,
-          username: member.username,
-          share_amount: shareAmount,
-        })) as ExpenseParticipant[],
-        split_method: "equal" as const,
-        payer_user_id: user.id,
-        payer_username: userProfile.username,
-      };
-
-      const result = await moveExpense(
-        expenseId,
-        groupId,
-        targetGroup.id,
-        updatedExpenseData,
-      );
+      // Keep the split, handing shares of non-members to the chosen members
+      const result = await moveExpenses(groupId, targetGroup.id, [
+        {
+          expenseId,
+          data: remapExpenseMembers(
+            expense.data,
+            memberMapping,
+            targetGroup.members,
+          ),
+        },
+      ]);
 
       if (result.success) {
         setShowMoveModal(false);
@@ -158,48 +184,82 @@ export default function ExpenseDetailScreen() {
   const handleDelete = () => {
     if (!expense) return;
 
-    const hasExternalTransaction = Boolean(
-      expense.data.external_transaction_id,
+    // Deleted expenses go to the group's trash, where they can be restored
+    Alert.alert(
+      t("expenseDetail.delete"),
+      t("expenseDetail.moveToTrashConfirm"),
+      [
+        { text: t("expenseDetail.cancel"), style: "cancel" },
+        {
+          text: t("expenseDetail.moveToTrash"),
+          style: "destructive",
+          onPress: async () => {
+            try {
+              if (!groupId || !expenseId || !expense) return;
+
+              const trashedExpense = await updateExpense(groupId, {
+                ...expense,
+                data: trashExpenseData(expense.data),
+              });
+              if (!trashedExpense) throw new Error("Failed to trash expense");
+
+              router.back();
+            } catch (error) {
+              console.error("Failed to delete expense:", error);
+              Alert.alert(
+                t("expenseDetail.error"),
+                t("expenseDetail.deleteExpenseFailed"),
+              );
+            }
+          },
+        },
+      ],
     );
+  };
+
+  const handleViewReceipt = async () => {
+    if (!expense?.data.receipt || !groupId) return;
+
+    setLoadingReceipt(true);
+    try {
+      const result = await fetchReceipt(
+        groupId,
+        expense.data.receipt.attachment_id,
+      );
+      if (result.success && result.data) {
+        setReceiptImage(result.data);
+      } else {
+        Alert.alert(t("expenseDetail.error"), t("receipts.loadFailed"));
+      }
+    } finally {
+      setLoadingReceipt(false);
+    }
+  };
 
-    const alertTitle = t("expenseDetail.delete");
-    const alertMessage = hasExternalTransaction
-      ? t("expenseDetail.markDeletedConfirm")
-      : t("expenseDetail.deleteExpenseConfirm");
+  const handleDeleteReceipt = () => {
+    const receipt = expense?.data.receipt;
+    if (!expense || !receipt || !groupId) return;
 
-    Alert.alert(alertTitle, alertMessage, [
+    Alert.alert(t("receipts.deleteTitle"), t("receipts.deleteConfirm"), [
       { text: t("expenseDetail.cancel"), style: "cancel" },
       {
-        text: hasExternalTransaction
-          ? t("expenseDetail.markDeleted")
-          : t("expenseDetail.delete"),
+        text: t("receipts.delete"),
         style: "destructive",
         onPress: async () => {
+          setDeletingReceipt(true);
           try {
-            if (!groupId || !expenseId || !expense) return;
-
-            if (hasExternalTransaction) {
-              // Soft delete: mark as deleted
-              const updatedExpense = {
-                ...expense,
-                data: {
-                  ...expense.data,
-                  status: "deleted",
-                },
-              };
-              await updateExpense(groupId, updatedExpense);
-            } else {
-              // Hard delete: remove completely
-              await deleteExpense(groupId, expenseId);
+            const updated = await updateExpense(groupId, {
+              ...expense,
+              data: { ...expense.data, receipt: undefined },
+            });
+            if (!updated) {
+              Alert.alert(t("expenseDetail.error"), t("receipts.deleteFailed"));
+              return;
             }
-
-            router.back();
-          } catch (error) {
-            console.error("Failed to delete expense:", error);
-            Alert.alert(
-              t("expenseDetail.error"),
-              t("expenseDetail.deleteExpenseFailed"),
-            );
+            setReceiptImage(null);
+            await deleteReceipt(groupId, receipt.attachment_id);
+          } finally {
+            setDeletingReceipt(false);
           }
         },
       },
@@ -254,6 +314,7 @@ export default function ExpenseDetailScreen() {
     expense?.data.participants.find((p) => p.user_id === user?.id)
       ?.share_amount || 0;
   const isPayer = expense?.data.payer_user_id === user?.id;
+  const itemization = expense?.data.itemization;
 
   const renderBackAction = () => (
     <TopNavigationAction
@@ -273,8 +334,6 @@ export default function ExpenseDetailScreen() {
     />
   );
 
-  const availableGroups = expensesGroups.filter((g) => g.id !== groupId);
-
   if (!expense) {
     return (
       <SafeAreaView
@@ -422,6 +481,39 @@ export default function ExpenseDetailScreen() {
                 {formatCurrency(expense.data.amount, expense.data.currency)}
               </Text>
             </View>
+            {expense.data.loan_split && (
+              <View style={styles.detailRow}>
+                <Text style={[styles.detailLabel, { color: colors.icon }]}>
+                  {t("expenseDetail.loanSplit")}
+                </Text>
+                <Text style={[styles.detailValue, { color: colors.text }]}>
+                  {t("expenseDetail.loanSplitValue", {
+                    interest: formatCurrency(
+                      expense.data.loan_split.interest,
+                      expense.data.currency,
+                    ),
+                    principal: formatCurrency(
+                      expense.data.loan_split.principal,
+                      expense.data.currency,
+                    ),
+                  })}
+                </Text>
+              </View>
+            )}
+            {expense.data.exchange_rate && (
+              <View style={styles.detailRow}>
+                <Text style={[styles.detailLabel, { color: colors.icon }]}>
+                  {t("expenseDetail.convertedAmount")}
+                </Text>
+                <Text style={[styles.detailValue, { color: colors.text }]}>
+                  {formatCurrency(
+                    expense.data.amount * expense.data.exchange_rate.rate,
+                    expense.data.exchange_rate.to,
+                  )}
+                  {` (1 ${expense.data.exchange_rate.from} = ${expense.data.exchange_rate.rate.toFixed(4)} ${expense.data.exchange_rate.to})`}
+                </Text>
+              </View>
+            )}
             <View style={styles.detailRow}>
               <Text style={[styles.detailLabel, { color: colors.icon }]}>
                 {t("expenseDetail.date")}
@@ -440,12 +532,77 @@ export default function ExpenseDetailScreen() {
                     ? t("expenseDetail.splitEqually")
                     : expense.data.split_method === "custom"
                       ? t("expenseDetail.customAmounts")
-                      : t("expenseDetail.byPercentage")}
+                      : expense.data.split_method === "itemized"
+                        ? t("expenseDetail.itemized")
+                        : expense.data.split_method === "shares"
+                          ? t("expenseDetail.byShares")
+                          : t("expenseDetail.byPercentage")}
                 </Text>
               </View>
             )}
           </Card>
 
+          {/* Itemized bill */}
+          {itemization && (
+            <Card style={[styles.detailCard, { backgroundColor: colors.card }]}>
+              <Text style={[styles.sectionTitle, { color: colors.text }]}>
+                {t("itemizedSplit.title")}
+              </Text>
+              {itemization.items.map((item) => (
+                <View key={item.id} style={styles.lineItem}>
+                  <View style={styles.participantRow}>
+                    <Text
+                      style={[styles.participantName, { color: colors.text }]}
+                    >
+                      {item.quantity > 1
+                        ? `${item.quantity} × ${item.name}`
+                        : item.name}
+                    </Text>
+                    <Text
+                      style={[styles.participantAmount, { color: colors.text }]}
+                    >
+                      {formatCurrency(
+                        getLineItemTotal(item),
+                        expense.data.currency,
+                      )}
+                    </Text>
+                  </View>
+                  <Text
+                    style={[styles.lineItemSharers, { color: colors.icon }]}
+                  >
+                    {item.participant_ids.map(getUsernameFromId).join(", ")}
+                  </Text>
+                </View>
+              ))}
+              <View style={styles.detailRow}>
+                <Text style={[styles.detailLabel, { color: colors.icon }]}>
+                  {t("itemizedSplit.subtotal")}
+                </Text>
+                <Text style={[styles.detailValue, { color: colors.text }]}>
+                  {formatCurrency(
+                    getItemizationSubtotal(itemization),
+                    expense.data.currency,
+                  )}
+                </Text>
+              </View>
+              {(["tax", "tip", "service_charge"] as const)
+                .filter((field) => itemization[field] > 0)
+                .map((field) => (
+                  <View key={field} style={styles.detailRow}>
+                    <Text style={[styles.detailLabel, { color: colors.icon }]}>
+                      {t(`itemizedSplit.${field}`)}
+                    </Text>
+                    <Text style={[styles.detailValue, { color: colors.text }]}>
+                      {formatCurrency(
+                        itemization[field],
+                        expense.data.currency,
+                      )}
+                    </Text>
+                  </View>
+                ))}
+            </Card>
+          )}
+
           {/* Participants - Only show if more than one group member */}
           {groupMembers.length > 1 && (
             <Card style={[styles.detailCard, { backgroundColor: colors.card }]}>
@@ -501,6 +658,61 @@ export default function ExpenseDetailScreen() {
             </Card>
           )}
 
+          {/* Receipt */}
+          {expense.data.receipt && (
+            <Card style={[styles.detailCard, { backgroundColor: colors.card }]}>
+              <Text style={[styles.sectionTitle, { color: colors.text }]}>
+                {t("receipts.title")}
+              </Text>
+              <View style={styles.detailRow}>
+                <Text style={[styles.detailLabel, { color: colors.icon }]}>
+                  {t("receipts.added")}
+                </Text>
+                <Text style={[styles.detailValue, { color: colors.text }]}>
+                  {formatDate(expense.data.receipt.added_at)}
+                </Text>
+              </View>
+              <View style={styles.receiptActions}>
+                <Button
+                  style={styles.actionButton}
+                  appearance="outline"
+                  status="primary"
+                  disabled={loadingReceipt || deletingReceipt}
+                  accessoryLeft={() =>
+                    loadingReceipt ? (
+                      <Spinner size="small" />
+                    ) : (
+                      <Ionicons
+                        name="receipt-outline"
+                        size={20}
+                        color={colors.primary}
+                      />
+                    )
+                  }
+                  onPress={handleViewReceipt}
+                >
+                  {t("receipts.view")}
+                </Button>
+                <Button
+                  style={styles.actionButton}
+                  appearance="outline"
+                  status="danger"
+                  disabled={loadingReceipt || deletingReceipt}
+                  accessoryLeft={() => (
+                    <Ionicons
+                      name="trash-outline"
+                      size={20}
+                      color={colors.error}
+                    />
+                  )}
+                  onPress={handleDeleteReceipt}
+                >
+                  {t("receipts.delete")}
+                </Button>
+              </View>
+            </Card>
+          )}
+
           {/* Action Buttons */}
           <View style={styles.actionButtons}>
             <Button
@@ -571,13 +783,9 @@ export default function ExpenseDetailScreen() {
                 placeholder={t("expenseDetail.selectGroup")}
                 selectedIndex={selectedTargetGroupIndex}
                 onSelect={(index) =>
-                  setSelectedTargetGroupIndex(index as IndexPath)
-                }
-                value={
-                  selectedTargetGroupIndex
-                    ? availableGroups[selectedTargetGroupIndex.row]?.data.name
-                    : ""
+                  handleTargetGroupSelect(index as IndexPath)
                 }
+                value={targetGroup?.data.name || ""}
                 style={styles.groupSelect}
               >
                 {availableGroups.map((group, index) => (
@@ -590,6 +798,15 @@ export default function ExpenseDetailScreen() {
               </Text>
             )}
 
+            {targetGroup && (
+              <MemberRemapping
+                unmatched={unmatchedMembers}
+                targetMembers={targetGroup.members}
+                mapping={memberMapping}
+                onChange={setMemberMapping}
+              />
+            )}
+
             <View style={styles.modalActions}>
               <Button
                 style={styles.modalButton}
@@ -617,6 +834,32 @@ export default function ExpenseDetailScreen() {
           </View>
         </View>
       </Modal>
+
+      {/* Receipt Viewer */}
+      <Modal
+        visible={receiptImage !== null}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setReceiptImage(null)}
+      >
+        <View style={styles.receiptOverlay}>
+          <TouchableOpacity
+            style={styles.receiptClose}
+            onPress={() => setReceiptImage(null)}
+          >
+            <Ionicons name="close" size={28} color="#FFFFFF" />
+          </TouchableOpacity>
+          {receiptImage && (
+            <Image
+              source={{
+                uri: `data:${receiptImage.content_type};base64,${receiptImage.base64}`,
+              }}
+              style={styles.receiptImage}
+              resizeMode="contain"
+            />
+          )}
+        </View>
+      </Modal>
     </SafeAreaView>
   );
 }
@@ -744,6 +987,12 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: "500",
   },
+  lineItem: {
+    marginBottom: 8,
+  },
+  lineItemSharers: {
+    fontSize: 12,
+  },
   actionButtons: {
     flexDirection: "row",
     gap: 12,
@@ -757,6 +1006,28 @@ const styles = StyleSheet.create({
   moveButton: {},
   editButton: {},
   deleteButton: {},
+  receiptActions: {
+    flexDirection: "row",
+    gap: 12,
+    marginTop: 4,
+  },
+  receiptOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.9)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  receiptClose: {
+    position: "absolute",
+    top: 48,
+    right: 20,
+    padding: 12,
+    zIndex: 1,
+  },
+  receiptImage: {
+    width: "100%",
+    height: "80%",
+  },
   modalOverlay: {
     flex: 1,
     backgroundColor: "rgba(0, 0, 0, 0.5)",
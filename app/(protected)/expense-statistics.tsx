@@ -24,7 +24,7 @@ import { useExpense } from "@/context/ExpenseContext";
 import { useProfile } from "@/context/ProfileContext";
 import { useAuth } from "@/context/AuthContext";
 import {
-  calculateUserShare,
+  calculateUserShareInCurrency,
   getCategoryDisplayInfo,
   getPaymentMethodDisplayInfo,
 } from "@/types/expense";
@@ -217,7 +217,7 @@ export default function ExpenseStatisticsScreen() {
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme || "light"];
   const { user } = useAuth();
-  const { expensesGroups, fetchExpensesForMonth } = useExpense();
+  const { expensesGroups, fetchExpensesForMonth, exchangeRates } = useExpense();
   const { userProfile } = useProfile();
   const { t } = useLocalization();
 
@@ -373,7 +373,13 @@ export default function ExpenseStatisticsScreen() {
           // Only include expenses that match the filter
           if (!matchesFilter(expenseDate)) return;
 
-          const userShare = calculateUserShare(expense, user?.id || "");
+          const userShare = calculateUserShareInCurrency(
+            expense,
+            user?.id || "",
+            defaultCurrency,
+            group.data?.currency,
+            exchangeRates,
+          );
           if (userShare > 0) {
             totalSpent += userShare;
             totalTransactions++;
@@ -629,6 +635,8 @@ export default function ExpenseStatisticsScreen() {
     user?.id,
     periodFilter,
     userProfile?.profile?.budgeting?.categoryOverrides,
+    defaultCurrency,
+    exchangeRates,
   ]);
   // ESLint disabled: 't' and 'paymentMethodOverrides' are stable or properly handled
   // eslint-disable-next-line react-hooks/exhaustive-deps
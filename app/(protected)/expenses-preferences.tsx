@@ -461,6 +461,37 @@ export default function ExpensesPreferencesScreen() {
               <Ionicons name="chevron-forward" size={20} color={colors.icon} />
             </TouchableOpacity>
           )}
+
+          <View style={[styles.divider, { backgroundColor: colors.border }]} />
+
+          <TouchableOpacity
+            style={styles.preferenceRow}
+            onPress={() => router.push("/(protected)/import-statement")}
+          >
+            <View style={styles.infoLabel}>
+              <View
+                style={[
+                  styles.iconContainer,
+                  { backgroundColor: colors.accent + "20" },
+                ]}
+              >
+                <Ionicons
+                  name="document-text-outline"
+                  size={20}
+                  color={colors.accent}
+                />
+              </View>
+              <View style={{ flex: 1 }}>
+                <Text style={[styles.labelText, { color: colors.text }]}>
+                  {t("statementImport.title")}
+                </Text>
+                <Text style={[styles.lastSyncText, { color: colors.icon }]}>
+                  {t("statementImport.entryDescription")}
+                </Text>
+              </View>
+            </View>
+            <Ionicons name="chevron-forward" size={20} color={colors.icon} />
+          </TouchableOpacity>
         </View>
       </ScrollView>
 
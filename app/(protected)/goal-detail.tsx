@@ -0,0 +1,496 @@
+import React, { useEffect, useMemo } from "react";
+import {
+  Alert,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { Button, Text, TopNavigation } from "@ui-kitten/components";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import { ThemedView } from "@/components/ThemedView";
+import { Colors } from "@/constants/Colors";
+import { useAuth } from "@/context/AuthContext";
+import { useExpense } from "@/context/ExpenseContext";
+import { useInvestment } from "@/context/InvestmentContext";
+import { useLocalization } from "@/context/LocalizationContext";
+import { useProfile } from "@/context/ProfileContext";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import { GoalFundingSource } from "@/types/profile";
+import { formatCurrency } from "@/utils/currencyUtils";
+import {
+  calculateGoalProgress,
+  getGoalExpenseGroupIds,
+} from "@/utils/goalUtils";
+
+export default function GoalDetailScreen() {
+  const router = useRouter();
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+  const { t } = useLocalization();
+  const { user } = useAuth();
+  const { userProfile, updateProfile } = useProfile();
+  const { portfolios } = useInvestment();
+  const { expensesGroups, exchangeRates, fetchAllExpensesForGroup } =
+    useExpense();
+  const { goalId } = useLocalSearchParams<{ goalId: string }>();
+
+  const goals = userProfile?.profile.goals || [];
+  const goal = goals.find((item) => item.id === goalId);
+  const linkedGroupIds = getGoalExpenseGroupIds(goal ? [goal] : [])
+    .filter((groupId) => expensesGroups.some((group) => group.id === groupId))
+    .join(",");
+
+  // Every deposit counts towards a goal, not just the loaded months
+  useEffect(() => {
+    linkedGroupIds
+      .split(",")
+      .filter(Boolean)
+      .forEach((groupId) =>
+        fetchAllExpensesForGroup(groupId).catch((error) =>
+          console.error("Failed to load goal deposits:", error),
+        ),
+      );
+    // fetchAllExpensesForGroup changes with every state update
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [linkedGroupIds]);
+
+  const progress = useMemo(
+    () =>
+      goal
+        ? calculateGoalProgress(
+            goal,
+            portfolios,
+            expensesGroups,
+            user?.id || "",
+            exchangeRates,
+            new Date().toISOString().split("T")[0],
+          )
+        : null,
+    [goal, portfolios, expensesGroups, user?.id, exchangeRates],
+  );
+
+  const maxProjected = Math.max(
+    ...(progress?.projection.map((point) => point.value) || []),
+    goal?.target_amount || 0,
+  );
+
+  const getSourceName = (source: GoalFundingSource): string => {
+    switch (source.kind) {
+      case "portfolio":
+        return (
+          portfolios.find((item) => item.id === source.portfolio_id)?.data
+            .name || t("goals.unavailableSource")
+        );
+      case "investment":
+        return (
+          portfolios
+            .find((item) => item.id === source.portfolio_id)
+            ?.investments.find((item) => item.id === source.investment_id)?.data
+            .name || t("goals.unavailableSource")
+        );
+      case "expenseGroup":
+        return (
+          expensesGroups.find((item) => item.id === source.group_id)?.data
+            .name || t("goals.unavailableSource")
+        );
+    }
+  };
+
+  const handleDelete = () => {
+    if (!goal) return;
+    Alert.alert(t("goals.deleteGoal"), t("goals.deleteConfirm"), [
+      { text: t("common.cancel"), style: "cancel" },
+      {
+        text: t("goals.delete"),
+        style: "destructive",
+        onPress: async () => {
+          await updateProfile({
+            goals: goals.filter((item) => item.id !== goal.id),
+          });
+          router.back();
+        },
+      },
+    ]);
+  };
+
+  const renderBackAction = () => (
+    <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+      <Ionicons name="arrow-back" size={24} color={colors.icon} />
+    </TouchableOpacity>
+  );
+
+  const renderEditAction = () =>
+    goal ? (
+      <TouchableOpacity
+        onPress={() =>
+          router.push({
+            pathname: "/(protected)/edit-goal",
+            params: { goalId: goal.id },
+          })
+        }
+        style={styles.backButton}
+      >
+        <Ionicons name="create-outline" size={24} color={colors.icon} />
+      </TouchableOpacity>
+    ) : (
+      <></>
+    );
+
+  const renderRow = (label: string, value: string, color?: string) => (
+    <View style={styles.row}>
+      <Text style={[styles.label, { color: colors.icon }]}>{label}</Text>
+      <Text style={[styles.value, { color: color || colors.text }]}>
+        {value}
+      </Text>
+    </View>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <SafeAreaView style={styles.safeArea}>
+        <StatusBar
+          barStyle={colorScheme === "dark" ? "light-content" : "dark-content"}
+          backgroundColor={colors.background}
+        />
+        <TopNavigation
+          title={goal?.name || t("goals.title")}
+          alignment="center"
+          accessoryLeft={renderBackAction}
+          accessoryRight={renderEditAction}
+          style={{ backgroundColor: colors.background }}
+        />
+
+        {!goal || !progress ? (
+          <View style={styles.notFound}>
+            <Text style={{ color: colors.icon }}>{t("goals.notFound")}</Text>
+          </View>
+        ) : (
+          <ScrollView
+            style={styles.content}
+            showsVerticalScrollIndicator={false}
+          >
+            {/* Progress */}
+            <View
+              style={[
+                styles.card,
+                { backgroundColor: colors.card, shadowColor: colors.text },
+              ]}
+            >
+              <View style={styles.header}>
+                <Ionicons
+                  name={goal.icon as any}
+                  size={28}
+                  color={colors.primary}
+                />
+                <View
+                  style={[
+                    styles.statusBadge,
+                    {
+                      backgroundColor: progress.on_track
+                        ? colors.success
+                        : colors.warning,
+                    },
+                  ]}
+                >
+                  <Text style={styles.statusText}>
+                    {progress.on_track ? t("goals.onTrack") : t("goals.behind")}
+                  </Text>
+                </View>
+              </View>
+              <Text style={[styles.total, { color: colors.text }]}>
+                {formatCurrency(progress.current, goal.currency)}
+              </Text>
+              <Text style={[styles.hint, { color: colors.icon }]}>
+                {t("goals.ofTarget", {
+                  target: formatCurrency(goal.target_amount, goal.currency),
+                  percent: progress.progress.toFixed(0),
+                })}
+              </Text>
+              <View
+                style={[
+                  styles.progressTrack,
+                  { backgroundColor: colors.background },
+                ]}
+              >
+                <View
+                  style={[
+                    styles.progressFill,
+                    {
+                      backgroundColor: colors.primary,
+                      width: `${progress.progress}%`,
+                    },
+                  ]}
+                />
+              </View>
+
+              {renderRow(
+                t("goals.deadline"),
+                new Date(goal.deadline).toLocaleDateString(),
+              )}
+              {renderRow(
+                t("goals.monthsLeft"),
+                progress.months_left.toString(),
+              )}
+              {renderRow(
+                t("goals.expectedReturn"),
+                `${(progress.expected_return * 100).toFixed(2)}%`,
+              )}
+              {renderRow(
+                t("goals.monthlyContribution"),
+                formatCurrency(goal.monthly_contribution || 0, goal.currency),
+              )}
+              {renderRow(
+                t("goals.projected"),
+                formatCurrency(progress.projected, goal.currency),
+                progress.on_track ? colors.success : colors.warning,
+              )}
+              {renderRow(
+                t("goals.requiredMonthly"),
+                formatCurrency(progress.required_monthly, goal.currency),
+                colors.primary,
+              )}
+              {!progress.on_track && (
+                <Text style={[styles.hint, { color: colors.icon }]}>
+                  {t("goals.behindHint", {
+                    amount: formatCurrency(
+                      progress.required_monthly,
+                      goal.currency,
+                    ),
+                  })}
+                </Text>
+              )}
+            </View>
+
+            {/* Projection */}
+            <View
+              style={[
+                styles.card,
+                { backgroundColor: colors.card, shadowColor: colors.text },
+              ]}
+            >
+              <Text style={[styles.sectionTitle, { color: colors.text }]}>
+                {t("goals.projection")}
+              </Text>
+              {progress.projection.map((point) => (
+                <View key={point.year} style={styles.barRow}>
+                  <Text style={[styles.barLabel, { color: colors.icon }]}>
+                    {point.year}
+                  </Text>
+                  <View
+                    style={[
+                      styles.barTrack,
+                      { backgroundColor: colors.background },
+                    ]}
+                  >
+                    <View
+                      style={[
+                        styles.barFill,
+                        {
+                          backgroundColor:
+                            point.value >= goal.target_amount
+                              ? colors.success
+                              : colors.primary,
+                          width: `${maxProjected > 0 ? (point.value / maxProjected) * 100 : 0}%`,
+                        },
+                      ]}
+                    />
+                  </View>
+                  <Text style={[styles.barValue, { color: colors.text }]}>
+                    {formatCurrency(point.value, goal.currency)}
+                  </Text>
+                </View>
+              ))}
+              <Text style={[styles.hint, { color: colors.icon }]}>
+                {t("goals.projectionHint")}
+              </Text>
+            </View>
+
+            {/* Sources */}
+            <View
+              style={[
+                styles.card,
+                { backgroundColor: colors.card, shadowColor: colors.text },
+              ]}
+            >
+              <Text style={[styles.sectionTitle, { color: colors.text }]}>
+                {t("goals.sources")}
+              </Text>
+              {progress.sources.length === 0 ? (
+                <Text style={[styles.hint, { color: colors.icon }]}>
+                  {t("goals.noSources")}
+                </Text>
+              ) : (
+                progress.sources.map((item, index) => (
+                  <View
+                    key={index}
+                    style={[
+                      styles.sourceRow,
+                      { borderTopColor: colors.border },
+                    ]}
+                  >
+                    <View style={styles.sourceInfo}>
+                      <Text
+                        style={[
+                          styles.sourceName,
+                          { color: item.missing ? colors.icon : colors.text },
+                        ]}
+                        numberOfLines={1}
+                      >
+                        {getSourceName(item.source)}
+                      </Text>
+                      <Text style={[styles.hint, { color: colors.icon }]}>
+                        {item.source.kind === "expenseGroup"
+                          ? t("goals.expenseGroupHint")
+                          : t("goals.shareOf", { share: item.source.share })}
+                      </Text>
+                    </View>
+                    <Text style={[styles.value, { color: colors.text }]}>
+                      {formatCurrency(item.value, goal.currency)}
+                    </Text>
+                  </View>
+                ))
+              )}
+            </View>
+
+            <Button
+              appearance="ghost"
+              status="danger"
+              style={styles.deleteButton}
+              onPress={handleDelete}
+            >
+              {t("goals.deleteGoal")}
+            </Button>
+          </ScrollView>
+        )}
+      </SafeAreaView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  safeArea: {
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  notFound: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  card: {
+    marginBottom: 20,
+    padding: 20,
+    borderRadius: 20,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginBottom: 8,
+  },
+  backButton: {
+    padding: 12,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 12,
+  },
+  statusBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  statusText: {
+    color: "white",
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  total: {
+    fontSize: 28,
+    fontWeight: "700",
+  },
+  hint: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  progressTrack: {
+    height: 8,
+    borderRadius: 4,
+    overflow: "hidden",
+    marginVertical: 12,
+  },
+  progressFill: {
+    height: 8,
+    borderRadius: 4,
+  },
+  row: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: 6,
+  },
+  label: {
+    fontSize: 14,
+  },
+  value: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  barRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 8,
+    gap: 8,
+  },
+  barLabel: {
+    width: 44,
+    fontSize: 12,
+  },
+  barTrack: {
+    flex: 1,
+    height: 8,
+    borderRadius: 4,
+    overflow: "hidden",
+  },
+  barFill: {
+    height: 8,
+    borderRadius: 4,
+  },
+  barValue: {
+    width: 100,
+    fontSize: 12,
+    fontWeight: "600",
+    textAlign: "right",
+  },
+  sourceRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    paddingVertical: 10,
+    borderTopWidth: 1,
+  },
+  sourceInfo: {
+    flex: 1,
+  },
+  sourceName: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  deleteButton: {
+    marginBottom: 40,
+  },
+});
@@ -0,0 +1,275 @@
+import React, { useEffect, useMemo } from "react";
+import {
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { Button, Text, TopNavigation } from "@ui-kitten/components";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useRouter } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import { ThemedView } from "@/components/ThemedView";
+import { Colors } from "@/constants/Colors";
+import { useAuth } from "@/context/AuthContext";
+import { useExpense } from "@/context/ExpenseContext";
+import { useInvestment } from "@/context/InvestmentContext";
+import { useLocalization } from "@/context/LocalizationContext";
+import { useProfile } from "@/context/ProfileContext";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import { formatCurrency } from "@/utils/currencyUtils";
+import {
+  calculateGoalProgress,
+  getGoalExpenseGroupIds,
+} from "@/utils/goalUtils";
+
+export default function GoalsScreen() {
+  const router = useRouter();
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+  const { t } = useLocalization();
+  const { user } = useAuth();
+  const { userProfile } = useProfile();
+  const { portfolios } = useInvestment();
+  const { expensesGroups, exchangeRates, fetchAllExpensesForGroup } =
+    useExpense();
+  const linkedGroupIds = getGoalExpenseGroupIds(
+    userProfile?.profile.goals || [],
+  )
+    .filter((groupId) => expensesGroups.some((group) => group.id === groupId))
+    .join(",");
+
+  // Every deposit counts towards a goal, not just the loaded months
+  useEffect(() => {
+    linkedGroupIds
+      .split(",")
+      .filter(Boolean)
+      .forEach((groupId) =>
+        fetchAllExpensesForGroup(groupId).catch((error) =>
+          console.error("Failed to load goal deposits:", error),
+        ),
+      );
+    // fetchAllExpensesForGroup changes with every state update
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [linkedGroupIds]);
+
+  const goals = useMemo(() => {
+    const today = new Date().toISOString().split("T")[0];
+    return (userProfile?.profile.goals || [])
+      .map((goal) => ({
+        goal,
+        progress: calculateGoalProgress(
+          goal,
+          portfolios,
+          expensesGroups,
+          user?.id || "",
+          exchangeRates,
+          today,
+        ),
+      }))
+      .sort((a, b) => a.goal.deadline.localeCompare(b.goal.deadline));
+  }, [userProfile, portfolios, expensesGroups, user?.id, exchangeRates]);
+
+  const renderBackAction = () => (
+    <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+      <Ionicons name="arrow-back" size={24} color={colors.icon} />
+    </TouchableOpacity>
+  );
+
+  const renderAddAction = () => (
+    <TouchableOpacity
+      onPress={() => router.push("/(protected)/edit-goal")}
+      style={styles.backButton}
+    >
+      <Ionicons name="add" size={24} color={colors.primary} />
+    </TouchableOpacity>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <SafeAreaView style={styles.safeArea}>
+        <StatusBar
+          barStyle={colorScheme === "dark" ? "light-content" : "dark-content"}
+          backgroundColor={colors.background}
+        />
+        <TopNavigation
+          title={t("goals.title")}
+          alignment="center"
+          accessoryLeft={renderBackAction}
+          accessoryRight={renderAddAction}
+          style={{ backgroundColor: colors.background }}
+        />
+
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          {goals.length === 0 ? (
+            <View
+              style={[
+                styles.card,
+                styles.emptyCard,
+                { backgroundColor: colors.card, shadowColor: colors.text },
+              ]}
+            >
+              <Ionicons name="flag-outline" size={48} color={colors.icon} />
+              <Text style={[styles.emptyTitle, { color: colors.text }]}>
+                {t("goals.empty")}
+              </Text>
+              <Text style={[styles.hint, { color: colors.icon }]}>
+                {t("goals.emptyDescription")}
+              </Text>
+              <Button
+                style={styles.addButton}
+                onPress={() => router.push("/(protected)/edit-goal")}
+              >
+                {t("goals.addGoal")}
+              </Button>
+            </View>
+          ) : (
+            goals.map(({ goal, progress }) => (
+              <TouchableOpacity
+                key={goal.id}
+                style={[
+                  styles.card,
+                  { backgroundColor: colors.card, shadowColor: colors.text },
+                ]}
+                onPress={() =>
+                  router.push({
+                    pathname: "/(protected)/goal-detail",
+                    params: { goalId: goal.id },
+                  })
+                }
+              >
+                <View style={styles.goalHeader}>
+                  <Ionicons
+                    name={goal.icon as any}
+                    size={22}
+                    color={colors.primary}
+                  />
+                  <Text
+                    style={[styles.goalName, { color: colors.text }]}
+                    numberOfLines={1}
+                  >
+                    {goal.name}
+                  </Text>
+                  <Text
+                    style={[
+                      styles.status,
+                      {
+                        color: progress.on_track
+                          ? colors.success
+                          : colors.warning,
+                      },
+                    ]}
+                  >
+                    {progress.on_track ? t("goals.onTrack") : t("goals.behind")}
+                  </Text>
+                </View>
+                <View
+                  style={[
+                    styles.progressTrack,
+                    { backgroundColor: colors.background },
+                  ]}
+                >
+                  <View
+                    style={[
+                      styles.progressFill,
+                      {
+                        backgroundColor: colors.primary,
+                        width: `${progress.progress}%`,
+                      },
+                    ]}
+                  />
+                </View>
+                <View style={styles.goalFooter}>
+                  <Text style={[styles.amount, { color: colors.text }]}>
+                    {formatCurrency(progress.current, goal.currency)} /{" "}
+                    {formatCurrency(goal.target_amount, goal.currency)}
+                  </Text>
+                  <Text style={[styles.hint, { color: colors.icon }]}>
+                    {new Date(goal.deadline).toLocaleDateString()}
+                  </Text>
+                </View>
+              </TouchableOpacity>
+            ))
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  safeArea: {
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  card: {
+    marginBottom: 20,
+    padding: 20,
+    borderRadius: 20,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  emptyCard: {
+    alignItems: "center",
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginTop: 12,
+  },
+  addButton: {
+    marginTop: 16,
+    borderRadius: 12,
+  },
+  backButton: {
+    padding: 12,
+  },
+  hint: {
+    fontSize: 12,
+    marginTop: 4,
+    textAlign: "center",
+  },
+  goalHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    marginBottom: 12,
+  },
+  goalName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  status: {
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  progressTrack: {
+    height: 8,
+    borderRadius: 4,
+    overflow: "hidden",
+  },
+  progressFill: {
+    height: 8,
+    borderRadius: 4,
+  },
+  goalFooter: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginTop: 8,
+  },
+  amount: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+});
@@ -27,18 +27,28 @@ import { useExpense } from "@/context/ExpenseContext";
 import { useAuth } from "@/context/AuthContext";
 import {
   ExpenseWithDecryptedData,
+  GroupActivityWithDecryptedData,
   calculateGroupBalances,
-  calculateUserShare,
+  calculateUserShareInCurrency,
   GroupRefund,
 } from "@/types/expense";
 import { Ionicons } from "@expo/vector-icons";
 import { ThemedView } from "@/components/ThemedView";
+import ActivityItem from "@/components/expenses/ActivityItem";
 import ExpenseItem from "@/components/expenses/ExpenseItem";
 import { useColorScheme } from "@/hooks/useColorScheme";
+import { useMemberRemoval } from "@/hooks/useMemberRemoval";
+import KeyRotationStatus from "@/components/KeyRotationStatus";
 import { Colors } from "@/constants/Colors";
 import { useLocalization } from "@/context/LocalizationContext";
 import { formatDate } from "@/utils/dateUtils";
 import { formatCurrency } from "@/utils/currencyUtils";
+import { calculateSettlementPlan } from "@/utils/settlementUtils";
+import { getDefaultSplitWeight } from "@/utils/splitUtils";
+import { normalizeDecimalForParsing } from "@/utils/stringUtils";
+
+// Tabs: expenses, balances, members, refunds, activity
+const ACTIVITY_TAB_INDEX = 4;
 
 export default function GroupDetailScreen() {
   const router = useRouter();
@@ -51,10 +61,13 @@ export default function GroupDetailScreen() {
     inviteUserToGroup,
     handleGroupInvitation,
     removeUserFromGroup,
+    updateExpenseGroup,
     addRefund,
     updateRefund,
     deleteRefund,
     fetchAllExpensesForGroup,
+    fetchGroupActivity,
+    exchangeRates,
   } = useExpense();
   const [selectedIndex, setSelectedIndex] = useState(0);
   const [inviteModalVisible, setInviteModalVisible] = useState(false);
@@ -71,11 +84,29 @@ export default function GroupDetailScreen() {
   const [refundLoading, setRefundLoading] = useState(false);
   const [refreshLoading, setRefreshLoading] = useState(false);
   const [showLoadingAlert, setShowLoadingAlert] = useState(false);
+  const [settleLoading, setSettleLoading] = useState(false);
+  const [weightsModalVisible, setWeightsModalVisible] = useState(false);
+  const [splitWeights, setSplitWeights] = useState<{
+    [userId: string]: string;
+  }>({});
+  const [weightsLoading, setWeightsLoading] = useState(false);
+  const [activity, setActivity] = useState<GroupActivityWithDecryptedData[]>(
+    [],
+  );
+  const [activityLoading, setActivityLoading] = useState(false);
+  const [activityLoaded, setActivityLoaded] = useState(false);
+  const [activityHasMore, setActivityHasMore] = useState(false);
   const { t } = useLocalization();
 
   const group = useMemo(() => {
     return expensesGroups.find((g) => g.id === id);
   }, [expensesGroups, id]);
+  const memberRemoval = useMemberRemoval(
+    "expenseGroup",
+    group?.id,
+    removeUserFromGroup,
+    group?.data?.key_rotation,
+  );
 
   // Calculate group balances
   const groupBalances = useMemo(() => {
@@ -88,8 +119,10 @@ export default function GroupDetailScreen() {
       nonDeletedExpenses,
       group.members,
       group.data?.refunds,
+      group.data?.currency,
+      exchangeRates,
     );
-  }, [group]);
+  }, [group, exchangeRates]);
 
   // Fetch all expenses for this group when component mounts or id changes
   useEffect(() => {
@@ -121,6 +154,35 @@ export default function GroupDetailScreen() {
     router.push(`/(protected)/add-expense?groupId=${group?.id}`);
   };
 
+  const loadActivity = async (loadMore: boolean = false) => {
+    if (!id || activityLoading) return;
+
+    setActivityLoading(true);
+    try {
+      const before = loadMore
+        ? activity[activity.length - 1]?.created_at
+        : undefined;
+      const result = await fetchGroupActivity(id, before);
+      const entries = result.data;
+      if (result.success && entries) {
+        setActivity((prev) => (loadMore ? [...prev, ...entries] : entries));
+        setActivityHasMore(!!result.hasMore);
+      } else {
+        Alert.alert(t("groupDetail.error"), t("activity.loadFailed"));
+      }
+    } finally {
+      setActivityLoading(false);
+      setActivityLoaded(true);
+    }
+  };
+
+  const handleTabSelect = (index: number) => {
+    setSelectedIndex(index);
+    if (index === ACTIVITY_TAB_INDEX && !activityLoaded) {
+      loadActivity();
+    }
+  };
+
   const handleRefresh = async () => {
     if (!id || !group || refreshLoading) return;
 
@@ -129,6 +191,7 @@ export default function GroupDetailScreen() {
 
     try {
       await fetchAllExpensesForGroup(id, true); // force=true to bypass cache
+      if (activityLoaded) await loadActivity();
     } catch (error) {
       console.error("Failed to refresh expenses:", error);
     } finally {
@@ -170,6 +233,66 @@ export default function GroupDetailScreen() {
     }
   };
 
+  const openSplitWeights = () => {
+    if (!group) return;
+    const weights: { [userId: string]: string } = {};
+    group.members.forEach((member) => {
+      weights[member.user_id] = getDefaultSplitWeight(
+        group.data,
+        member.user_id,
+      ).toString();
+    });
+    setSplitWeights(weights);
+    setWeightsModalVisible(true);
+  };
+
+  const handleSaveSplitWeights = async () => {
+    if (!group) return;
+
+    const defaultSplitWeights: { [userId: string]: number } = {};
+    for (const member of group.members) {
+      const weight = Number(
+        normalizeDecimalForParsing(splitWeights[member.user_id] || ""),
+      );
+      if (isNaN(weight) || weight < 0) {
+        Alert.alert(
+          t("groupDetail.error"),
+          t("groupDetail.invalidSplitWeight"),
+        );
+        return;
+      }
+      defaultSplitWeights[member.user_id] = weight;
+    }
+    if (!Object.values(defaultSplitWeights).some((weight) => weight > 0)) {
+      Alert.alert(t("groupDetail.error"), t("groupDetail.invalidSplitWeight"));
+      return;
+    }
+
+    setWeightsLoading(true);
+    try {
+      const result = await updateExpenseGroup(group.id, {
+        ...group.data,
+        default_split_weights: defaultSplitWeights,
+      });
+      if (result) {
+        setWeightsModalVisible(false);
+      } else {
+        Alert.alert(
+          t("groupDetail.error"),
+          t("groupDetail.splitWeightsSaveFailed"),
+        );
+      }
+    } catch (error) {
+      console.error("Failed to save split weights", (error as Error).message);
+      Alert.alert(
+        t("groupDetail.error"),
+        t("groupDetail.splitWeightsSaveFailed"),
+      );
+    } finally {
+      setWeightsLoading(false);
+    }
+  };
+
   const handleRemoveUser = async (userId: string, username: string) => {
     if (!group) return;
 
@@ -185,7 +308,7 @@ export default function GroupDetailScreen() {
           style: "destructive",
           onPress: async () => {
             try {
-              const result = await removeUserFromGroup(group.id, userId);
+              const result = await memberRemoval.remove(userId);
               if (!result.success) {
                 Alert.alert(
                   t("groupDetail.error"),
@@ -208,6 +331,16 @@ export default function GroupDetailScreen() {
     );
   };
 
+  const handleResumeKeyRotation = async () => {
+    const result = await memberRemoval.resume();
+    if (!result.success) {
+      Alert.alert(
+        t("groupDetail.error"),
+        result.error || t("groupDetail.removeMemberFailed"),
+      );
+    }
+  };
+
   const handleInvitation = async (accept: boolean) => {
     if (!group) return;
 
@@ -454,62 +587,148 @@ export default function GroupDetailScreen() {
     );
   };
 
-  // Calculate settlement suggestions
-  const calculateSettlements = () => {
-    const allMembers = group?.members || [];
-    const balances = allMembers
-      .map((member) => ({
-        ...member,
-        balance: groupBalances[member.user_id] || 0,
-      }))
-      .filter((member) => Math.abs(member.balance) > 0.01); // Only include non-zero balances
-
-    const creditors = balances
-      .filter((member) => member.balance > 0)
-      .sort((a, b) => b.balance - a.balance);
-
-    const debtors = balances
-      .filter((member) => member.balance < 0)
-      .sort((a, b) => a.balance - b.balance);
+  // Minimal set of transfers that settles every balance in the group
+  const settlements = useMemo(() => {
+    const members = group?.members || [];
+    return calculateSettlementPlan(groupBalances).flatMap((transfer) => {
+      const from = members.find((m) => m.user_id === transfer.from_user_id);
+      const to = members.find((m) => m.user_id === transfer.to_user_id);
+      return from && to ? [{ from, to, amount: transfer.amount }] : [];
+    });
+  }, [group?.members, groupBalances]);
 
-    const settlements = [];
-    let creditorIndex = 0;
-    let debtorIndex = 0;
+  const recordSettlements = async (transfers: typeof settlements) => {
+    if (!group) return;
 
-    while (creditorIndex < creditors.length && debtorIndex < debtors.length) {
-      const creditor = creditors[creditorIndex];
-      const debtor = debtors[debtorIndex];
+    setSettleLoading(true);
+    try {
+      for (const transfer of transfers) {
+        const result = await addRefund(group.id, {
+          from_user_id: transfer.from.user_id,
+          to_user_id: transfer.to.user_id,
+          amount: transfer.amount,
+          currency: group.data?.currency || "USD",
+          description: t("groupDetail.settleUpRefundDescription"),
+          date: new Date().toISOString().split("T")[0],
+        });
+        if (!result.success) {
+          Alert.alert(
+            t("groupDetail.error"),
+            result.error || t("groupDetail.settleUpFailed"),
+          );
+          return;
+        }
+      }
+    } catch (error) {
+      console.error("Failed to record settlement", (error as Error).message);
+      Alert.alert(t("groupDetail.error"), t("groupDetail.settleUpFailed"));
+    } finally {
+      setSettleLoading(false);
+    }
+  };
 
-      const amountOwed = Math.abs(debtor.balance);
-      const amountToReceive = creditor.balance;
-      const settlementAmount = Math.min(amountOwed, amountToReceive);
+  const handleRecordSettlement = (transfer: (typeof settlements)[number]) => {
+    Alert.alert(
+      t("groupDetail.markAsPaid"),
+      t("groupDetail.markAsPaidConfirm", {
+        from: transfer.from.username,
+        to: transfer.to.username,
+        amount: formatCurrency(transfer.amount, group?.data?.currency),
+      }),
+      [
+        { text: t("groupDetail.cancel"), style: "cancel" },
+        {
+          text: t("groupDetail.markAsPaid"),
+          onPress: () => recordSettlements([transfer]),
+        },
+      ],
+    );
+  };
 
-      if (settlementAmount > 0.01) {
-        settlements.push({
-          from: debtor,
-          to: creditor,
-          amount: settlementAmount,
-        });
+  const handleSettleAll = () => {
+    Alert.alert(
+      t("groupDetail.settleUp"),
+      t("groupDetail.settleAllConfirm", { count: settlements.length }),
+      [
+        { text: t("groupDetail.cancel"), style: "cancel" },
+        {
+          text: t("groupDetail.settleUp"),
+          onPress: () => recordSettlements(settlements),
+        },
+      ],
+    );
+  };
 
-        // Update balances
-        creditor.balance -= settlementAmount;
-        debtor.balance += settlementAmount;
-      }
+  const renderActivityTab = () => {
+    const groupNames: { [groupId: string]: string } = {};
+    expensesGroups.forEach((g) => {
+      groupNames[g.id] = g.data?.name;
+    });
 
-      // Move to next creditor/debtor if current one is settled
-      if (Math.abs(creditor.balance) < 0.01) {
-        creditorIndex++;
-      }
-      if (Math.abs(debtor.balance) < 0.01) {
-        debtorIndex++;
-      }
+    if (activity.length === 0) {
+      return (
+        <Layout style={styles.emptyState}>
+          {activityLoading ? (
+            <Spinner size="large" />
+          ) : (
+            <>
+              <Ionicons
+                name="time-outline"
+                size={64}
+                color={colors.icon}
+                style={styles.emptyIcon}
+              />
+              <Text
+                category="h6"
+                style={[styles.emptyTitle, { color: colors.text }]}
+              >
+                {t("activity.empty")}
+              </Text>
+              <Text
+                category="s1"
+                appearance="hint"
+                style={[styles.emptyDescription, { color: colors.icon }]}
+              >
+                {t("activity.emptyDescription")}
+              </Text>
+            </>
+          )}
+        </Layout>
+      );
     }
 
-    return settlements;
+    return (
+      <List
+        style={styles.activityList}
+        data={activity}
+        keyExtractor={(item) => item.id}
+        renderItem={({ item }) => (
+          <ActivityItem
+            activity={item}
+            members={group?.members || []}
+            groupNames={groupNames}
+          />
+        )}
+        ListFooterComponent={
+          activityHasMore ? (
+            <Button
+              style={styles.loadMoreButton}
+              appearance="ghost"
+              disabled={activityLoading}
+              accessoryLeft={
+                activityLoading ? () => <Spinner size="small" /> : undefined
+              }
+              onPress={() => loadActivity(true)}
+            >
+              {t("activity.loadMore")}
+            </Button>
+          ) : null
+        }
+      />
+    );
   };
 
   const renderBalancesTab = () => {
-    const settlements = calculateSettlements();
     const allMembers = group?.members || [];
     const sortedBalances = allMembers
       .map((member) => ({
@@ -535,6 +754,28 @@ export default function GroupDetailScreen() {
             >
               {t("groupDetail.whoShouldPayWhom")}
             </Text>
+            {settlements.length > 0 && (
+              <Button
+                style={styles.settleUpButton}
+                size="small"
+                status="success"
+                disabled={settleLoading}
+                accessoryLeft={
+                  settleLoading
+                    ? () => <Spinner size="small" status="control" />
+                    : (props) => (
+                        <Ionicons
+                          name="checkmark-done-outline"
+                          size={16}
+                          color={props?.tintColor || "#FFFFFF"}
+                        />
+                      )
+                }
+                onPress={handleSettleAll}
+              >
+                {t("groupDetail.settleUp")}
+              </Button>
+            )}
           </Layout>
 
           {settlements.length > 0 && (
@@ -611,6 +852,23 @@ export default function GroupDetailScreen() {
                                 ? t("groupDetail.youReceive")
                                 : t("groupDetail.transfer")}
                           </Text>
+                          <TouchableOpacity
+                            onPress={() => handleRecordSettlement(item)}
+                            style={styles.settlementActionButton}
+                            disabled={settleLoading}
+                          >
+                            <Ionicons
+                              name="checkmark-circle-outline"
+                              size={16}
+                              color="#4CAF50"
+                            />
+                            <Text
+                              category="c1"
+                              style={styles.settlementActionText}
+                            >
+                              {t("groupDetail.markAsPaid")}
+                            </Text>
+                          </TouchableOpacity>
                         </Layout>
                       )}
                     />
@@ -755,6 +1013,24 @@ export default function GroupDetailScreen() {
     </TouchableOpacity>
   );
 
+  const renderHeaderActions = () => (
+    <View style={styles.headerActions}>
+      <TouchableOpacity
+        onPress={() =>
+          router.push({
+            pathname: "/(protected)/group-trash",
+            params: { groupId: group?.id },
+          })
+        }
+        style={styles.refreshButton}
+        accessibilityLabel={t("groupDetail.trash")}
+      >
+        <Ionicons name="trash-outline" size={24} color={colors.icon} />
+      </TouchableOpacity>
+      {renderRefreshAction()}
+    </View>
+  );
+
   const renderLoadingAlert = () => {
     if (!showLoadingAlert) return null;
 
@@ -819,7 +1095,16 @@ export default function GroupDetailScreen() {
       ?.filter((expense) => expense.data.status !== "deleted")
       .reduce((sum, expense) => {
         try {
-          return sum + calculateUserShare(expense, user?.id || "");
+          return (
+            sum +
+            calculateUserShareInCurrency(
+              expense,
+              user?.id || "",
+              group.data?.currency || "USD",
+              group.data?.currency,
+              exchangeRates,
+            )
+          );
         } catch {
           return sum;
         }
@@ -834,7 +1119,7 @@ export default function GroupDetailScreen() {
           title={group.data?.name || "Group Details"}
           alignment="center"
           accessoryLeft={renderBackAction}
-          accessoryRight={renderRefreshAction}
+          accessoryRight={renderHeaderActions}
           style={{ backgroundColor: colors.background }}
         />
 
@@ -947,7 +1232,7 @@ export default function GroupDetailScreen() {
             <TabView
               style={styles.tabView}
               selectedIndex={selectedIndex}
-              onSelect={(index) => setSelectedIndex(index)}
+              onSelect={handleTabSelect}
             >
               <Tab title={t("groupDetail.expenses")}>
                 <View style={styles.tabContent}>
@@ -959,6 +1244,35 @@ export default function GroupDetailScreen() {
                       style={styles.expensesList}
                       showsVerticalScrollIndicator={false}
                     >
+                      {expensesGroups.some(
+                        (g) =>
+                          g.id !== group.id &&
+                          g.membership_status === "confirmed",
+                      ) && (
+                        <TouchableOpacity
+                          style={styles.moveExpensesLink}
+                          onPress={() =>
+                            router.push({
+                              pathname: "/(protected)/move-expenses",
+                              params: { groupId: group.id },
+                            })
+                          }
+                        >
+                          <Ionicons
+                            name="swap-horizontal-outline"
+                            size={16}
+                            color={colors.primary}
+                          />
+                          <Text
+                            style={[
+                              styles.moveExpensesText,
+                              { color: colors.primary },
+                            ]}
+                          >
+                            {t("moveExpenses.title")}
+                          </Text>
+                        </TouchableOpacity>
+                      )}
                       <View style={styles.expensesContainer}>
                         {group.expenses
                           .filter(
@@ -1016,24 +1330,47 @@ export default function GroupDetailScreen() {
               <Tab title={t("groupDetail.balances")}>{renderBalancesTab()}</Tab>
               <Tab title={t("groupDetail.members")}>
                 <Layout style={styles.tabContent}>
+                  <KeyRotationStatus
+                    progress={memberRemoval.progress}
+                    pendingRotation={memberRemoval.pendingRotation}
+                    onResume={handleResumeKeyRotation}
+                  />
                   <Layout style={styles.membersHeader}>
                     <Text category="h6" style={styles.membersTitle}>
                       {t("groupDetail.groupMembers")}
                     </Text>
-                    <Button
-                      style={styles.inviteButton}
-                      size="small"
-                      accessoryLeft={(props) => (
-                        <Ionicons
-                          name="person-add-outline"
-                          size={16}
-                          color={props?.tintColor || "#FFFFFF"}
-                        />
+                    <Layout style={styles.membersActions}>
+                      {group.members.length > 1 && (
+                        <Button
+                          size="small"
+                          appearance="outline"
+                          accessoryLeft={(props) => (
+                            <Ionicons
+                              name="pie-chart-outline"
+                              size={16}
+                              color={props?.tintColor || colors.primary}
+                            />
+                          )}
+                          onPress={openSplitWeights}
+                        >
+                          {t("groupDetail.splitWeights")}
+                        </Button>
                       )}
-                      onPress={() => setInviteModalVisible(true)}
-                    >
-                      {t("groupDetail.invite")}
-                    </Button>
+                      <Button
+                        style={styles.inviteButton}
+                        size="small"
+                        accessoryLeft={(props) => (
+                          <Ionicons
+                            name="person-add-outline"
+                            size={16}
+                            color={props?.tintColor || "#FFFFFF"}
+                          />
+                        )}
+                        onPress={() => setInviteModalVisible(true)}
+                      >
+                        {t("groupDetail.invite")}
+                      </Button>
+                    </Layout>
                   </Layout>
                   {group.members && group.members.length > 0 ? (
                     <List
@@ -1261,6 +1598,9 @@ export default function GroupDetailScreen() {
                   )}
                 </Layout>
               </Tab>
+              <Tab title={t("groupDetail.activity")}>
+                <Layout style={styles.tabContent}>{renderActivityTab()}</Layout>
+              </Tab>
             </TabView>
 
             <Button
@@ -1333,6 +1673,67 @@ export default function GroupDetailScreen() {
           </Card>
         </Modal>
 
+        <Modal
+          visible={weightsModalVisible}
+          backdropStyle={styles.backdrop}
+          onBackdropPress={() => setWeightsModalVisible(false)}
+        >
+          <Card disabled={true}>
+            <Text category="h6" style={styles.modalTitle}>
+              {t("groupDetail.splitWeights")}
+            </Text>
+            <Text
+              category="s1"
+              appearance="hint"
+              style={styles.modalDescription}
+            >
+              {t("groupDetail.splitWeightsDescription")}
+            </Text>
+
+            {group?.members?.map((member) => (
+              <Layout key={member.user_id} style={styles.weightRow}>
+                <Text category="s1" style={styles.weightName}>
+                  {member.username}
+                </Text>
+                <Input
+                  style={styles.weightInput}
+                  value={splitWeights[member.user_id] ?? ""}
+                  onChangeText={(value) =>
+                    setSplitWeights((prev) => ({
+                      ...prev,
+                      [member.user_id]: value,
+                    }))
+                  }
+                  keyboardType="decimal-pad"
+                  size="small"
+                />
+              </Layout>
+            ))}
+
+            <Layout style={styles.modalActions}>
+              <Button
+                style={styles.modalButton}
+                appearance="outline"
+                onPress={() => setWeightsModalVisible(false)}
+              >
+                {t("groupDetail.cancel")}
+              </Button>
+              <Button
+                style={styles.modalButton}
+                onPress={handleSaveSplitWeights}
+                disabled={weightsLoading}
+                accessoryLeft={
+                  weightsLoading
+                    ? () => <Spinner size="small" status="control" />
+                    : undefined
+                }
+              >
+                {t("groupDetail.save")}
+              </Button>
+            </Layout>
+          </Card>
+        </Modal>
+
         <Modal
           visible={refundModalVisible}
           backdropStyle={styles.backdrop}
@@ -1615,6 +2016,12 @@ const styles = StyleSheet.create({
   tabContent: {
     flex: 1,
   },
+  activityList: {
+    flex: 1,
+  },
+  loadMoreButton: {
+    margin: 16,
+  },
   expensesList: {
     flex: 1,
   },
@@ -1622,6 +2029,17 @@ const styles = StyleSheet.create({
     paddingTop: 10,
     gap: 12,
   },
+  moveExpensesLink: {
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "flex-end",
+    paddingTop: 10,
+  },
+  moveExpensesText: {
+    fontSize: 14,
+    fontWeight: "600",
+    marginLeft: 4,
+  },
   statusIndicator: {
     width: 12,
     height: 12,
@@ -1712,6 +2130,23 @@ const styles = StyleSheet.create({
   inviteButton: {
     paddingHorizontal: 16,
   },
+  membersActions: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  weightRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 8,
+  },
+  weightName: {
+    flex: 1,
+    marginRight: 12,
+  },
+  weightInput: {
+    width: 80,
+  },
   membersList: {
     flex: 1,
   },
@@ -1754,6 +2189,10 @@ const styles = StyleSheet.create({
   refreshButton: {
     padding: 8,
   },
+  headerActions: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
   refreshButtonDisabled: {
     opacity: 0.5,
   },
@@ -1891,6 +2330,21 @@ const styles = StyleSheet.create({
   settlementStatus: {
     fontSize: 12,
   },
+  settlementActionButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: 4,
+    paddingVertical: 2,
+  },
+  settlementActionText: {
+    marginLeft: 4,
+    color: "#4CAF50",
+    fontWeight: "600",
+  },
+  settleUpButton: {
+    marginTop: 12,
+    alignSelf: "flex-start",
+  },
   balancesSection: {
     marginTop: 20,
     paddingTop: 16,
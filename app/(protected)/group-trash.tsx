@@ -0,0 +1,388 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  Alert,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import {
+  Button,
+  IndexPath,
+  Select,
+  SelectItem,
+  Spinner,
+  Text,
+  TopNavigation,
+} from "@ui-kitten/components";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import { ThemedView } from "@/components/ThemedView";
+import { Colors } from "@/constants/Colors";
+import { useExpense } from "@/context/ExpenseContext";
+import { useLocalization } from "@/context/LocalizationContext";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import { ExpenseWithDecryptedData } from "@/types/expense";
+import { formatCurrency } from "@/utils/currencyUtils";
+import { formatDate } from "@/utils/dateUtils";
+import {
+  TRASH_RETENTION_OPTIONS,
+  getTrashExpiry,
+  getTrashRetentionDays,
+  isExpenseTrashed,
+  restoreExpenseData,
+} from "@/utils/trashUtils";
+
+export default function GroupTrashScreen() {
+  const router = useRouter();
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+  const { t } = useLocalization();
+  const { groupId } = useLocalSearchParams<{ groupId: string }>();
+  const {
+    expensesGroups,
+    updateExpense,
+    updateExpenseGroup,
+    purgeExpenses,
+    purgeExpiredTrash,
+  } = useExpense();
+  const [loading, setLoading] = useState(true);
+  const [busyIds, setBusyIds] = useState<string[]>([]);
+  const [savingRetention, setSavingRetention] = useState(false);
+
+  const group = expensesGroups.find((g) => g.id === groupId);
+  const retentionDays = getTrashRetentionDays(group);
+
+  // Loads the whole group, since trashed expenses can be from any month,
+  // and empties what has outlived the retention period
+  useEffect(() => {
+    if (!groupId) return;
+    purgeExpiredTrash(groupId)
+      .then((result) => {
+        if (!result.success) {
+          console.error("Failed to empty expired trash:", result.error);
+        }
+      })
+      .catch((error) => console.error("Failed to load trash:", error))
+      .finally(() => setLoading(false));
+    // purgeExpiredTrash changes with every state update
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [groupId]);
+
+  const trashedExpenses = useMemo(
+    () =>
+      (group?.expenses || [])
+        .filter(isExpenseTrashed)
+        .sort(
+          (a, b) =>
+            new Date(b.data.deleted_at || b.updated_at).getTime() -
+            new Date(a.data.deleted_at || a.updated_at).getTime(),
+        ),
+    [group?.expenses],
+  );
+
+  const getRetentionLabel = (days: number) =>
+    days
+      ? t("trash.retentionDays", { count: days })
+      : t("trash.retentionForever");
+
+  const withBusy = async (ids: string[], action: () => Promise<void>) => {
+    setBusyIds((prev) => [...prev, ...ids]);
+    try {
+      await action();
+    } finally {
+      setBusyIds((prev) => prev.filter((id) => !ids.includes(id)));
+    }
+  };
+
+  const handleRetentionChange = async (index: IndexPath | IndexPath[]) => {
+    const row = Array.isArray(index) ? index[0].row : index.row;
+    const days = TRASH_RETENTION_OPTIONS[row];
+    if (!group || days === retentionDays) return;
+
+    setSavingRetention(true);
+    try {
+      const updated = await updateExpenseGroup(group.id, {
+        ...group.data,
+        trash_retention_days: days,
+      });
+      if (!updated) {
+        Alert.alert(t("alerts.error"), t("trash.retentionSaveFailed"));
+      }
+    } finally {
+      setSavingRetention(false);
+    }
+  };
+
+  const handleRestore = (expense: ExpenseWithDecryptedData) =>
+    withBusy([expense.id], async () => {
+      const restored = await updateExpense(expense.group_id, {
+        ...expense,
+        data: restoreExpenseData(expense.data),
+      });
+      if (!restored) {
+        Alert.alert(t("alerts.error"), t("trash.restoreFailed"));
+      }
+    });
+
+  const confirmPurge = (expenses: ExpenseWithDecryptedData[]) => {
+    if (!groupId || expenses.length === 0) return;
+
+    const hasBankTransactions = expenses.some(
+      (expense) => expense.data.external_transaction_id,
+    );
+    const message =
+      (expenses.length === 1
+        ? t("trash.deletePermanentlyConfirm")
+        : t("trash.emptyTrashConfirm", { count: expenses.length })) +
+      (hasBankTransactions ? `\n\n${t("trash.bankTransactionNote")}` : "");
+
+    Alert.alert(
+      expenses.length === 1
+        ? t("trash.deletePermanently")
+        : t("trash.emptyTrash"),
+      message,
+      [
+        { text: t("common.cancel"), style: "cancel" },
+        {
+          text: t("trash.deletePermanently"),
+          style: "destructive",
+          onPress: () => {
+            const ids = expenses.map((expense) => expense.id);
+            withBusy(ids, async () => {
+              const result = await purgeExpenses(groupId, ids);
+              if (!result.success) {
+                Alert.alert(t("alerts.error"), t("trash.deleteFailed"));
+              }
+            });
+          },
+        },
+      ],
+    );
+  };
+
+  const renderBackAction = () => (
+    <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+      <Ionicons name="arrow-back" size={24} color={colors.icon} />
+    </TouchableOpacity>
+  );
+
+  const renderEmptyAction = () =>
+    trashedExpenses.length > 0 ? (
+      <TouchableOpacity
+        onPress={() => confirmPurge(trashedExpenses)}
+        style={styles.backButton}
+        disabled={busyIds.length > 0}
+      >
+        <Ionicons name="trash-outline" size={24} color={colors.error} />
+      </TouchableOpacity>
+    ) : (
+      <></>
+    );
+
+  const renderExpense = (expense: ExpenseWithDecryptedData) => {
+    const busy = busyIds.includes(expense.id);
+    const expiry = getTrashExpiry(expense, retentionDays);
+
+    return (
+      <View
+        key={expense.id}
+        style={[
+          styles.card,
+          { backgroundColor: colors.card, shadowColor: colors.text },
+        ]}
+      >
+        <View style={styles.expenseHeader}>
+          <Text
+            style={[styles.expenseName, { color: colors.text }]}
+            numberOfLines={1}
+          >
+            {expense.data.name}
+          </Text>
+          <Text style={[styles.expenseAmount, { color: colors.text }]}>
+            {formatCurrency(expense.data.amount, expense.data.currency)}
+          </Text>
+        </View>
+        <Text style={[styles.hint, { color: colors.icon }]}>
+          {formatDate(expense.data.date)}
+          {" · "}
+          {t("trash.deletedOn", {
+            date: formatDate(expense.data.deleted_at || expense.updated_at),
+          })}
+        </Text>
+        {expiry && (
+          <Text style={[styles.hint, { color: colors.warning }]}>
+            {t("trash.purgedOn", { date: formatDate(expiry.toISOString()) })}
+          </Text>
+        )}
+        <View style={styles.actions}>
+          <Button
+            size="small"
+            appearance="outline"
+            status="danger"
+            style={styles.actionButton}
+            disabled={busy}
+            onPress={() => confirmPurge([expense])}
+          >
+            {t("trash.deletePermanently")}
+          </Button>
+          <Button
+            size="small"
+            style={styles.actionButton}
+            disabled={busy}
+            accessoryLeft={busy ? () => <Spinner size="tiny" /> : undefined}
+            onPress={() => handleRestore(expense)}
+          >
+            {t("trash.restore")}
+          </Button>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <SafeAreaView style={styles.safeArea}>
+        <StatusBar
+          barStyle={colorScheme === "dark" ? "light-content" : "dark-content"}
+          backgroundColor={colors.background}
+        />
+        <TopNavigation
+          title={t("trash.title")}
+          alignment="center"
+          accessoryLeft={renderBackAction}
+          accessoryRight={renderEmptyAction}
+          style={{ backgroundColor: colors.background }}
+        />
+
+        {!group ? (
+          <View style={styles.centered}>
+            <Text style={{ color: colors.icon }}>
+              {t("groupDetail.groupNotFound")}
+            </Text>
+          </View>
+        ) : (
+          <ScrollView
+            style={styles.content}
+            showsVerticalScrollIndicator={false}
+          >
+            <View
+              style={[
+                styles.card,
+                { backgroundColor: colors.card, shadowColor: colors.text },
+              ]}
+            >
+              <Select
+                label={t("trash.retentionLabel")}
+                value={getRetentionLabel(retentionDays)}
+                selectedIndex={
+                  new IndexPath(
+                    Math.max(TRASH_RETENTION_OPTIONS.indexOf(retentionDays), 0),
+                  )
+                }
+                onSelect={handleRetentionChange}
+                disabled={savingRetention}
+              >
+                {TRASH_RETENTION_OPTIONS.map((days) => (
+                  <SelectItem key={days} title={getRetentionLabel(days)} />
+                ))}
+              </Select>
+              <Text style={[styles.hint, { color: colors.icon }]}>
+                {t("trash.retentionDescription")}
+              </Text>
+            </View>
+
+            {loading && trashedExpenses.length === 0 ? (
+              <View style={styles.centered}>
+                <Spinner size="large" />
+              </View>
+            ) : trashedExpenses.length === 0 ? (
+              <View style={styles.centered}>
+                <Ionicons name="trash-outline" size={64} color={colors.icon} />
+                <Text style={[styles.emptyTitle, { color: colors.text }]}>
+                  {t("trash.empty")}
+                </Text>
+                <Text style={[styles.emptyDescription, { color: colors.icon }]}>
+                  {t("trash.emptyDescription")}
+                </Text>
+              </View>
+            ) : (
+              trashedExpenses.map(renderExpense)
+            )}
+            <View style={{ height: 40 }} />
+          </ScrollView>
+        )}
+      </SafeAreaView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  safeArea: {
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  centered: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: 40,
+  },
+  card: {
+    marginBottom: 16,
+    padding: 16,
+    borderRadius: 16,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  backButton: {
+    padding: 12,
+  },
+  hint: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  expenseHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  expenseName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: "600",
+    marginRight: 12,
+  },
+  expenseAmount: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  actions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    marginTop: 12,
+  },
+  actionButton: {
+    marginLeft: 8,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginTop: 16,
+  },
+  emptyDescription: {
+    fontSize: 14,
+    marginTop: 8,
+    textAlign: "center",
+  },
+});
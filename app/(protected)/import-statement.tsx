@@ -0,0 +1,629 @@
+import { Colors } from "@/constants/Colors";
+import { useExpense } from "@/context/ExpenseContext";
+import { useLocalization } from "@/context/LocalizationContext";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import {
+  CsvColumnMapping,
+  StatementDateFormat,
+  StatementFormat,
+  StatementParseResult,
+  StatementTransaction,
+  detectCsvDelimiter,
+  detectStatementFormat,
+  findDuplicateStatementTransactions,
+  guessCsvColumnMapping,
+  parseCamt053Statement,
+  parseCsvRows,
+  parseCsvStatement,
+  parseOfxStatement,
+} from "@/utils/statementImportUtils";
+import { Ionicons } from "@expo/vector-icons";
+import {
+  Button,
+  CheckBox,
+  IndexPath,
+  Select,
+  SelectItem,
+  Spinner,
+  Text,
+  TopNavigation,
+} from "@ui-kitten/components";
+import * as DocumentPicker from "expo-document-picker";
+import * as FileSystem from "expo-file-system";
+import { useRouter } from "expo-router";
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  Alert,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+type ImportStep = "select" | "mapping" | "review";
+
+type MappedColumn = Exclude<
+  keyof CsvColumnMapping,
+  "delimiter" | "hasHeader" | "dateFormat" | "decimalSeparator"
+>;
+
+const MAPPED_COLUMNS: { key: MappedColumn; required?: boolean }[] = [
+  { key: "date", required: true },
+  { key: "amount" },
+  { key: "debit" },
+  { key: "credit" },
+  { key: "name" },
+  { key: "description" },
+  { key: "currency" },
+  { key: "reference" },
+];
+
+const DATE_FORMATS: StatementDateFormat[] = [
+  "YYYY-MM-DD",
+  "DD/MM/YYYY",
+  "MM/DD/YYYY",
+];
+
+const DECIMAL_SEPARATORS: CsvColumnMapping["decimalSeparator"][] = [".", ","];
+
+export default function ImportStatementScreen() {
+  const router = useRouter();
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+  const { t } = useLocalization();
+  const {
+    expensesGroups,
+    importStatementTransactions,
+    fetchAllExpensesForGroup,
+  } = useExpense();
+
+  const [step, setStep] = useState<ImportStep>("select");
+  const [loading, setLoading] = useState(false);
+  const [loadingExpenses, setLoadingExpenses] = useState(true);
+  const [importing, setImporting] = useState(false);
+  const [fileName, setFileName] = useState("");
+  const [format, setFormat] = useState<StatementFormat | null>(null);
+  const [csvRows, setCsvRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<CsvColumnMapping | null>(null);
+  const [parseResult, setParseResult] = useState<StatementParseResult | null>(
+    null,
+  );
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  const personalGroupId = expensesGroups.find(
+    (group) => group.data.private,
+  )?.id;
+
+  // Statements can reach back past the loaded months, so duplicates are
+  // looked up among every expense of the personal group
+  useEffect(() => {
+    if (!personalGroupId) {
+      setLoadingExpenses(false);
+      return;
+    }
+    fetchAllExpensesForGroup(personalGroupId)
+      .catch((error) => console.error("Failed to load expenses:", error))
+      .finally(() => setLoadingExpenses(false));
+    // fetchAllExpensesForGroup changes with every state update
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [personalGroupId]);
+
+  const existingExpenses = useMemo(
+    () =>
+      expensesGroups.flatMap((group) =>
+        group.expenses.map((expense) => expense.data),
+      ),
+    [expensesGroups],
+  );
+  const deletedTransactionIds = useMemo(
+    () =>
+      expensesGroups.flatMap(
+        (group) => group.data?.deleted_transaction_ids || [],
+      ),
+    [expensesGroups],
+  );
+
+  const outgoingTransactions = useMemo(
+    () =>
+      (parseResult?.transactions || []).filter(
+        (transaction) => transaction.amount < 0,
+      ),
+    [parseResult],
+  );
+
+  const duplicateIds = useMemo(
+    () =>
+      findDuplicateStatementTransactions(
+        outgoingTransactions,
+        existingExpenses,
+        deletedTransactionIds,
+      ),
+    [outgoingTransactions, existingExpenses, deletedTransactionIds],
+  );
+
+  const csvPreview = useMemo(
+    () => (mapping ? parseCsvStatement(csvRows, mapping) : null),
+    [csvRows, mapping],
+  );
+
+  const navigateBack = () => {
+    router.back();
+  };
+
+  const showReview = (result: StatementParseResult) => {
+    const outgoing = result.transactions.filter((tx) => tx.amount < 0);
+    const duplicates = findDuplicateStatementTransactions(
+      outgoing,
+      existingExpenses,
+      deletedTransactionIds,
+    );
+    setParseResult(result);
+    setSelectedIds(
+      new Set(
+        outgoing.filter((tx) => !duplicates.has(tx.id)).map((tx) => tx.id),
+      ),
+    );
+    setStep("review");
+  };
+
+  const handlePickFile = async () => {
+    setLoading(true);
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: "*/*",
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled || !result.assets?.[0]) {
+        return;
+      }
+
+      const asset = result.assets[0];
+      const content = await FileSystem.readAsStringAsync(asset.uri);
+      const detectedFormat = detectStatementFormat(asset.name, content);
+
+      if (!detectedFormat) {
+        Alert.alert(t("alerts.error"), t("statementImport.unsupportedFormat"));
+        return;
+      }
+
+      setFileName(asset.name);
+      setFormat(detectedFormat);
+
+      if (detectedFormat === "csv") {
+        const delimiter = detectCsvDelimiter(content);
+        const rows = parseCsvRows(content, delimiter);
+        setCsvRows(rows);
+        setMapping(guessCsvColumnMapping(rows, delimiter));
+        setStep("mapping");
+      } else if (detectedFormat === "ofx") {
+        showReview(parseOfxStatement(content));
+      } else {
+        showReview(parseCamt053Statement(content));
+      }
+    } catch (error) {
+      console.error("Failed to read statement file:", error);
+      Alert.alert(t("alerts.error"), t("statementImport.readError"));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleConfirmMapping = () => {
+    if (!csvPreview || csvPreview.transactions.length === 0) {
+      Alert.alert(t("alerts.error"), t("statementImport.noTransactionsFound"));
+      return;
+    }
+    showReview(csvPreview);
+  };
+
+  const toggleTransaction = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    const selected = outgoingTransactions.filter((tx) =>
+      selectedIds.has(tx.id),
+    );
+    if (selected.length === 0) return;
+
+    setImporting(true);
+    try {
+      const result = await importStatementTransactions(selected);
+      if (result.success) {
+        Alert.alert(
+          t("alerts.success"),
+          t("statementImport.importSuccess", { count: result.addedCount }),
+        );
+        router.back();
+      } else {
+        Alert.alert(
+          t("alerts.error"),
+          result.error || t("statementImport.importError"),
+        );
+      }
+    } catch (error) {
+      console.error("Statement import error:", error);
+      Alert.alert(t("alerts.error"), t("statementImport.importError"));
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const columnOptions = useMemo(() => {
+    const header = csvRows[0] || [];
+    return [
+      t("statementImport.notMapped"),
+      ...header.map((cell, index) =>
+        mapping?.hasHeader && cell
+          ? cell
+          : t("statementImport.columnNumber", { number: index + 1 }),
+      ),
+    ];
+  }, [csvRows, mapping?.hasHeader, t]);
+
+  const updateMapping = (changes: Partial<CsvColumnMapping>) => {
+    setMapping((prev) => (prev ? { ...prev, ...changes } : prev));
+  };
+
+  const formatAmount = (transaction: StatementTransaction) => {
+    const amount = Math.abs(transaction.amount);
+    try {
+      return new Intl.NumberFormat("en-US", {
+        style: "currency",
+        currency: transaction.currency || "EUR",
+      }).format(amount);
+    } catch {
+      return amount.toFixed(2);
+    }
+  };
+
+  const renderBackAction = () => (
+    <TouchableOpacity onPress={navigateBack} style={styles.backButton}>
+      <Ionicons name="arrow-back" size={24} color={colors.icon} />
+    </TouchableOpacity>
+  );
+
+  const renderSelectStep = () => (
+    <View
+      style={[
+        styles.card,
+        { backgroundColor: colors.card, shadowColor: colors.text },
+      ]}
+    >
+      <Text style={[styles.sectionTitle, { color: colors.text }]}>
+        {t("statementImport.selectFile")}
+      </Text>
+      <Text style={[styles.helpText, { color: colors.icon }]}>
+        {t("statementImport.selectFileDescription")}
+      </Text>
+      <Button
+        status="primary"
+        onPress={handlePickFile}
+        disabled={loading || loadingExpenses}
+        accessoryLeft={
+          loading || loadingExpenses
+            ? () => <Spinner size="small" status="control" />
+            : () => <Ionicons name="document-outline" size={20} color="white" />
+        }
+      >
+        {t("statementImport.chooseFile")}
+      </Button>
+    </View>
+  );
+
+  const renderMappingStep = () => {
+    if (!mapping) return null;
+
+    return (
+      <View
+        style={[
+          styles.card,
+          { backgroundColor: colors.card, shadowColor: colors.text },
+        ]}
+      >
+        <Text style={[styles.sectionTitle, { color: colors.text }]}>
+          {t("statementImport.mapColumns")}
+        </Text>
+        <Text style={[styles.helpText, { color: colors.icon }]}>
+          {t("statementImport.mapColumnsDescription")}
+        </Text>
+
+        {MAPPED_COLUMNS.map(({ key, required }) => {
+          const value = mapping[key];
+          const selectedIndex = value === null ? 0 : value + 1;
+          return (
+            <Select
+              key={key}
+              label={
+                t(`statementImport.columns.${key}`) + (required ? " *" : "")
+              }
+              selectedIndex={new IndexPath(selectedIndex)}
+              value={columnOptions[selectedIndex]}
+              onSelect={(index) => {
+                const row = (index as IndexPath).row;
+                if (required && row === 0) return;
+                updateMapping({ [key]: row === 0 ? null : row - 1 });
+              }}
+              style={styles.input}
+            >
+              {columnOptions.map((option, index) => (
+                <SelectItem key={index} title={option} />
+              ))}
+            </Select>
+          );
+        })}
+
+        <Select
+          label={t("statementImport.dateFormat")}
+          selectedIndex={
+            new IndexPath(DATE_FORMATS.indexOf(mapping.dateFormat))
+          }
+          value={mapping.dateFormat}
+          onSelect={(index) =>
+            updateMapping({
+              dateFormat: DATE_FORMATS[(index as IndexPath).row],
+            })
+          }
+          style={styles.input}
+        >
+          {DATE_FORMATS.map((dateFormat) => (
+            <SelectItem key={dateFormat} title={dateFormat} />
+          ))}
+        </Select>
+
+        <Select
+          label={t("statementImport.decimalSeparator")}
+          selectedIndex={
+            new IndexPath(DECIMAL_SEPARATORS.indexOf(mapping.decimalSeparator))
+          }
+          value={mapping.decimalSeparator}
+          onSelect={(index) =>
+            updateMapping({
+              decimalSeparator: DECIMAL_SEPARATORS[(index as IndexPath).row],
+            })
+          }
+          style={styles.input}
+        >
+          {DECIMAL_SEPARATORS.map((separator) => (
+            <SelectItem key={separator} title={separator} />
+          ))}
+        </Select>
+
+        <CheckBox
+          checked={mapping.hasHeader}
+          onChange={(checked) => updateMapping({ hasHeader: checked })}
+          style={styles.input}
+        >
+          {t("statementImport.firstRowIsHeader")}
+        </CheckBox>
+
+        {csvPreview && (
+          <Text style={[styles.helpText, { color: colors.icon }]}>
+            {t("statementImport.mappingPreview", {
+              count: csvPreview.transactions.length,
+              skipped: csvPreview.skippedRows,
+            })}
+          </Text>
+        )}
+
+        <Button status="primary" onPress={handleConfirmMapping}>
+          {t("statementImport.continue")}
+        </Button>
+      </View>
+    );
+  };
+
+  const renderReviewStep = () => {
+    const incomingCount =
+      (parseResult?.transactions.length || 0) - outgoingTransactions.length;
+
+    return (
+      <>
+        <View
+          style={[
+            styles.card,
+            { backgroundColor: colors.card, shadowColor: colors.text },
+          ]}
+        >
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>
+            {t("statementImport.review")}
+          </Text>
+          <Text style={[styles.helpText, { color: colors.icon }]}>
+            {fileName} ({format?.toUpperCase()})
+          </Text>
+          <Text style={[styles.helpText, { color: colors.icon }]}>
+            {t("statementImport.reviewSummary", {
+              count: outgoingTransactions.length,
+              duplicates: duplicateIds.size,
+              incoming: incomingCount,
+            })}
+          </Text>
+          {!!parseResult?.skippedRows && (
+            <Text style={[styles.helpText, { color: colors.warning }]}>
+              {t("statementImport.skippedRows", {
+                count: parseResult.skippedRows,
+              })}
+            </Text>
+          )}
+        </View>
+
+        <View
+          style={[
+            styles.card,
+            { backgroundColor: colors.card, shadowColor: colors.text },
+          ]}
+        >
+          {outgoingTransactions.length === 0 ? (
+            <Text style={[styles.helpText, { color: colors.icon }]}>
+              {t("statementImport.noTransactionsFound")}
+            </Text>
+          ) : (
+            outgoingTransactions.map((transaction, index) => (
+              <View key={transaction.id}>
+                {index > 0 && (
+                  <View
+                    style={[styles.divider, { backgroundColor: colors.border }]}
+                  />
+                )}
+                <TouchableOpacity
+                  style={styles.transactionRow}
+                  onPress={() => toggleTransaction(transaction.id)}
+                >
+                  <CheckBox
+                    checked={selectedIds.has(transaction.id)}
+                    onChange={() => toggleTransaction(transaction.id)}
+                  />
+                  <View style={styles.transactionContent}>
+                    <Text
+                      style={[styles.transactionName, { color: colors.text }]}
+                      numberOfLines={1}
+                    >
+                      {transaction.name}
+                    </Text>
+                    <Text
+                      style={[styles.transactionMeta, { color: colors.icon }]}
+                      numberOfLines={1}
+                    >
+                      {transaction.date}
+                      {transaction.description &&
+                      transaction.description !== transaction.name
+                        ? ` · ${transaction.description}`
+                        : ""}
+                    </Text>
+                    {duplicateIds.has(transaction.id) && (
+                      <Text
+                        style={[
+                          styles.duplicateBadge,
+                          { color: colors.warning },
+                        ]}
+                      >
+                        {t("statementImport.alreadyImported")}
+                      </Text>
+                    )}
+                  </View>
+                  <Text
+                    style={[styles.transactionAmount, { color: colors.text }]}
+                  >
+                    {formatAmount(transaction)}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            ))
+          )}
+        </View>
+
+        <View style={styles.footer}>
+          <Button
+            status="primary"
+            onPress={handleImport}
+            disabled={importing || selectedIds.size === 0}
+            accessoryLeft={
+              importing
+                ? () => <Spinner size="small" status="control" />
+                : undefined
+            }
+          >
+            {t("statementImport.importSelected", { count: selectedIds.size })}
+          </Button>
+        </View>
+      </>
+    );
+  };
+
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: colors.background }]}
+    >
+      <TopNavigation
+        title={t("statementImport.title")}
+        alignment="center"
+        accessoryLeft={renderBackAction}
+        style={{ backgroundColor: colors.background }}
+      />
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {step === "select" && renderSelectStep()}
+        {step === "mapping" && renderMappingStep()}
+        {step === "review" && renderReviewStep()}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+  },
+  card: {
+    marginHorizontal: 20,
+    marginBottom: 20,
+    padding: 20,
+    borderRadius: 20,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginBottom: 12,
+  },
+  helpText: {
+    fontSize: 14,
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  input: {
+    marginBottom: 16,
+  },
+  divider: {
+    height: 1,
+    marginVertical: 8,
+  },
+  transactionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 8,
+  },
+  transactionContent: {
+    flex: 1,
+    marginHorizontal: 12,
+  },
+  transactionName: {
+    fontSize: 16,
+    fontWeight: "500",
+  },
+  transactionMeta: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  duplicateBadge: {
+    fontSize: 12,
+    fontWeight: "600",
+    marginTop: 4,
+  },
+  transactionAmount: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  footer: {
+    marginHorizontal: 20,
+    marginBottom: 32,
+  },
+  backButton: {
+    padding: 8,
+  },
+});
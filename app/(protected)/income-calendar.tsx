@@ -0,0 +1,372 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { Text, TopNavigation } from "@ui-kitten/components";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import { ThemedView } from "@/components/ThemedView";
+import RecordPayoutModal from "@/components/investments/RecordPayoutModal";
+import { Colors } from "@/constants/Colors";
+import { useInvestment } from "@/context/InvestmentContext";
+import { useLocalization } from "@/context/LocalizationContext";
+import { useProfile } from "@/context/ProfileContext";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import { apiFetchExchangeRates } from "@/services/exchangeRateService";
+import { formatCurrency } from "@/utils/currencyUtils";
+import {
+  ExchangeRateTable,
+  FALLBACK_EXCHANGE_RATES,
+} from "@/utils/exchangeRateUtils";
+import {
+  ExpectedPayout,
+  getExpectedPayouts,
+  getUnrecordedPayouts,
+  groupPayoutsByMonth,
+} from "@/utils/payoutUtils";
+
+const toDay = (date: Date) => date.toISOString().split("T")[0];
+
+export default function IncomeCalendarScreen() {
+  const router = useRouter();
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+  const { t } = useLocalization();
+  const { userProfile } = useProfile();
+  const { portfolios } = useInvestment();
+  const { portfolioId } = useLocalSearchParams<{ portfolioId?: string }>();
+  const currency = userProfile?.profile.defaultCurrency || "EUR";
+
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRateTable>(
+    FALLBACK_EXCHANGE_RATES,
+  );
+  const [recordingPayout, setRecordingPayout] = useState<ExpectedPayout | null>(
+    null,
+  );
+
+  useEffect(() => {
+    apiFetchExchangeRates(currency).then((result) => {
+      if (result.success && result.data) {
+        setExchangeRates(result.data);
+      }
+    });
+  }, [currency]);
+
+  const investments = useMemo(
+    () =>
+      portfolios
+        .filter((portfolio) =>
+          portfolioId
+            ? portfolio.id === portfolioId
+            : portfolio.membership_status === "confirmed",
+        )
+        .flatMap((portfolio) => portfolio.investments || []),
+    [portfolios, portfolioId],
+  );
+
+  const { months, unrecorded } = useMemo(() => {
+    const today = new Date();
+    const from = toDay(today);
+    const to = toDay(
+      new Date(today.getFullYear() + 1, today.getMonth(), today.getDate() - 1),
+    );
+    return {
+      months: groupPayoutsByMonth(
+        getExpectedPayouts(investments, from, to),
+        currency,
+        exchangeRates,
+      ),
+      unrecorded: getUnrecordedPayouts(investments, from),
+    };
+  }, [investments, currency, exchangeRates]);
+
+  const yearTotal = months.reduce((sum, month) => sum + month.total, 0);
+  const maxMonthTotal = Math.max(...months.map((month) => month.total), 0);
+  const hasSchedules = investments.some(
+    (investment) => investment.data.payout_schedule,
+  );
+
+  const formatMonth = (month: string) =>
+    new Date(`${month}-01T00:00:00`).toLocaleDateString(undefined, {
+      month: "long",
+      year: "numeric",
+    });
+
+  const renderBackAction = () => (
+    <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+      <Ionicons name="arrow-back" size={24} color={colors.icon} />
+    </TouchableOpacity>
+  );
+
+  const renderPayoutRow = (
+    payout: ExpectedPayout,
+    action?: React.ReactNode,
+  ) => (
+    <View
+      key={`${payout.investment_id}-${payout.pay_date}`}
+      style={[styles.payoutRow, { borderTopColor: colors.border }]}
+    >
+      <Ionicons
+        name={payout.kind === "interest" ? "cash-outline" : "gift-outline"}
+        size={18}
+        color={colors.primary}
+      />
+      <View style={styles.payoutInfo}>
+        <Text
+          style={[styles.payoutName, { color: colors.text }]}
+          numberOfLines={1}
+        >
+          {payout.symbol || payout.name}
+        </Text>
+        <Text style={[styles.payoutDate, { color: colors.icon }]}>
+          {new Date(payout.pay_date).toLocaleDateString()}
+          {payout.ex_date
+            ? ` · ${t("payouts.exShort", {
+                date: new Date(payout.ex_date).toLocaleDateString(),
+              })}`
+            : ""}
+        </Text>
+      </View>
+      {action || (
+        <Text style={[styles.payoutAmount, { color: colors.text }]}>
+          {payout.estimated ? "~" : ""}
+          {formatCurrency(payout.amount, payout.currency)}
+        </Text>
+      )}
+    </View>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <SafeAreaView style={styles.safeArea}>
+        <StatusBar
+          barStyle={colorScheme === "dark" ? "light-content" : "dark-content"}
+          backgroundColor={colors.background}
+        />
+        <TopNavigation
+          title={t("payouts.calendarTitle")}
+          alignment="center"
+          accessoryLeft={renderBackAction}
+          style={{ backgroundColor: colors.background }}
+        />
+
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          {/* Next 12 months */}
+          <View
+            style={[
+              styles.card,
+              { backgroundColor: colors.card, shadowColor: colors.text },
+            ]}
+          >
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>
+              {t("payouts.nextTwelveMonths")}
+            </Text>
+            <Text style={[styles.total, { color: colors.success }]}>
+              {formatCurrency(yearTotal, currency)}
+            </Text>
+            {!hasSchedules ? (
+              <Text style={[styles.hint, { color: colors.icon }]}>
+                {t("payouts.calendarEmpty")}
+              </Text>
+            ) : (
+              months.map((month) => (
+                <View key={month.month} style={styles.barRow}>
+                  <Text style={[styles.barLabel, { color: colors.icon }]}>
+                    {formatMonth(month.month)}
+                  </Text>
+                  <View
+                    style={[
+                      styles.barTrack,
+                      { backgroundColor: colors.background },
+                    ]}
+                  >
+                    <View
+                      style={[
+                        styles.barFill,
+                        {
+                          backgroundColor: colors.primary,
+                          width: `${maxMonthTotal > 0 ? (month.total / maxMonthTotal) * 100 : 0}%`,
+                        },
+                      ]}
+                    />
+                  </View>
+                  <Text style={[styles.barValue, { color: colors.text }]}>
+                    {formatCurrency(month.total, currency)}
+                  </Text>
+                </View>
+              ))
+            )}
+            {months.some((month) =>
+              month.payouts.some((payout) => payout.estimated),
+            ) && (
+              <Text style={[styles.hint, { color: colors.icon }]}>
+                {t("payouts.estimatedHint")}
+              </Text>
+            )}
+          </View>
+
+          {/* To confirm */}
+          {unrecorded.length > 0 && (
+            <View
+              style={[
+                styles.card,
+                { backgroundColor: colors.card, shadowColor: colors.text },
+              ]}
+            >
+              <Text style={[styles.sectionTitle, { color: colors.text }]}>
+                {t("payouts.toConfirm")}
+              </Text>
+              {unrecorded.map((payout) =>
+                renderPayoutRow(
+                  payout,
+                  <TouchableOpacity onPress={() => setRecordingPayout(payout)}>
+                    <Text style={[styles.link, { color: colors.primary }]}>
+                      {t("payouts.record")}
+                    </Text>
+                  </TouchableOpacity>,
+                ),
+              )}
+            </View>
+          )}
+
+          {/* Calendar */}
+          {months.map((month) => (
+            <View
+              key={month.month}
+              style={[
+                styles.card,
+                { backgroundColor: colors.card, shadowColor: colors.text },
+              ]}
+            >
+              <View style={styles.monthHeader}>
+                <Text style={[styles.monthTitle, { color: colors.text }]}>
+                  {formatMonth(month.month)}
+                </Text>
+                <Text style={[styles.monthTotal, { color: colors.success }]}>
+                  {formatCurrency(month.total, currency)}
+                </Text>
+              </View>
+              {month.payouts.map((payout) => renderPayoutRow(payout))}
+            </View>
+          ))}
+        </ScrollView>
+
+        <RecordPayoutModal
+          payout={recordingPayout}
+          onClose={() => setRecordingPayout(null)}
+        />
+      </SafeAreaView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  safeArea: {
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  card: {
+    marginBottom: 20,
+    padding: 20,
+    borderRadius: 20,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginBottom: 8,
+  },
+  backButton: {
+    padding: 12,
+  },
+  total: {
+    fontSize: 28,
+    fontWeight: "700",
+    marginBottom: 16,
+  },
+  hint: {
+    fontSize: 12,
+    marginTop: 8,
+  },
+  barRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 8,
+    gap: 8,
+  },
+  barLabel: {
+    width: 110,
+    fontSize: 12,
+  },
+  barTrack: {
+    flex: 1,
+    height: 8,
+    borderRadius: 4,
+    overflow: "hidden",
+  },
+  barFill: {
+    height: 8,
+    borderRadius: 4,
+  },
+  barValue: {
+    width: 90,
+    fontSize: 12,
+    fontWeight: "600",
+    textAlign: "right",
+  },
+  monthHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  monthTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    textTransform: "capitalize",
+  },
+  monthTotal: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  payoutRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    paddingVertical: 10,
+    borderTopWidth: 1,
+  },
+  payoutInfo: {
+    flex: 1,
+  },
+  payoutName: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  payoutDate: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  payoutAmount: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  link: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+});
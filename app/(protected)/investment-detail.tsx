@@ -14,11 +14,24 @@ import { useLocalSearchParams, useRouter } from "expo-router";
 import { Ionicons } from "@expo/vector-icons";
 import { useInvestment } from "@/context/InvestmentContext";
 import { ThemedView } from "@/components/ThemedView";
+import PriceHistoryChart from "@/components/investments/PriceHistoryChart";
+import PayoutScheduleCard from "@/components/investments/PayoutScheduleCard";
 import { useColorScheme } from "@/hooks/useColorScheme";
 import { Colors } from "@/constants/Colors";
 import { useLocalization } from "@/context/LocalizationContext";
 import { calculateIndividualInvestmentReturns } from "@/utils/financeUtils";
-import { isPriceUpdateFailed } from "@/utils/investmentUtils";
+import {
+  calculateInvestmentPosition,
+  getInvestmentTransactions,
+  isPriceUpdateFailed,
+} from "@/utils/investmentUtils";
+import {
+  calculateAccruedInterest,
+  calculateYieldToMaturity,
+  hasMaturityDate,
+  isMatured,
+} from "@/utils/maturityUtils";
+import { INVESTMENT_TRANSACTION_TYPES } from "@/types/investment";
 
 const getInvestmentTypes = (t: (key: string) => string) => [
   { id: "stock", name: t("investmentTypes.stock"), icon: "trending-up" },
@@ -203,19 +216,20 @@ export default function InvestmentDetailScreen() {
     );
   }
 
-  const getBondStatus = () => {
-    if (investment.data.type !== "bond" || !investment.data.maturity_date)
-      return "active";
+  const today = new Date().toISOString().split("T")[0];
+  const hasMaturity =
+    hasMaturityDate(investment.data.type) && !!investment.data.maturity_date;
+  const yieldToMaturity = calculateYieldToMaturity(investment.data, today);
+  const accruedInterest = calculateAccruedInterest(investment.data, today);
 
-    const currentDate = new Date();
-    const maturityDate = new Date(investment.data.maturity_date);
+  const getBondStatus = () => {
+    if (!hasMaturity) return "active";
 
-    return currentDate >= maturityDate ? "matured" : "active";
+    return isMatured(investment.data, today) ? "matured" : "active";
   };
 
   const getDaysToMaturity = () => {
-    if (investment.data.type !== "bond" || !investment.data.maturity_date)
-      return null;
+    if (!hasMaturity) return null;
 
     const currentDate = new Date();
     const maturityDate = new Date(investment.data.maturity_date);
@@ -234,9 +248,9 @@ export default function InvestmentDetailScreen() {
     "checkingAccount",
     "savingsAccount",
   ].includes(investment.data.type);
-  const isBond = investment.data.type === "bond";
-  const totalInvestment =
-    investment.data.quantity * investment.data.purchase_price;
+  const position = calculateInvestmentPosition(investment.data);
+  const transactions = getInvestmentTransactions(investment.data);
+  const totalInvestment = position.costBasis;
 
   // Calculate new return metrics
   const returns = calculateIndividualInvestmentReturns(investment);
@@ -332,7 +346,7 @@ export default function InvestmentDetailScreen() {
                   {formatCurrency(returns.totalValue, investment.data.currency)}
                 </Text>
                 <Text style={[styles.totalAmount, { color: colors.icon }]}>
-                  {investment.data.quantity} {t("investmentDetail.units")}
+                  {position.quantity} {t("investmentDetail.units")}
                 </Text>
                 <View
                   style={[
@@ -472,6 +486,112 @@ export default function InvestmentDetailScreen() {
             )}
           </Card>
 
+          {/* Price History */}
+          <Card style={[styles.detailCard, { backgroundColor: colors.card }]}>
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>
+              {t("priceHistory.title")}
+            </Text>
+            <PriceHistoryChart
+              investmentId={investment.id}
+              data={investment.data}
+            />
+          </Card>
+
+          {/* Dividends and coupons */}
+          <Card style={[styles.detailCard, { backgroundColor: colors.card }]}>
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>
+              {t("payouts.title")}
+            </Text>
+            <PayoutScheduleCard investment={investment} />
+          </Card>
+
+          {/* Transactions */}
+          <Card style={[styles.detailCard, { backgroundColor: colors.card }]}>
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>
+              {t("investmentDetail.transactions")}
+            </Text>
+            {position.realizedGainLoss !== 0 && (
+              <View style={styles.detailRow}>
+                <Text style={[styles.detailLabel, { color: colors.icon }]}>
+                  {t("investmentDetail.realizedGainLoss")}
+                </Text>
+                <Text
+                  style={[
+                    styles.detailValue,
+                    {
+                      color:
+                        position.realizedGainLoss >= 0 ? "#4CAF50" : "#F44336",
+                    },
+                  ]}
+                >
+                  {position.realizedGainLoss >= 0 ? "+" : ""}
+                  {formatCurrency(
+                    position.realizedGainLoss,
+                    investment.data.currency,
+                  )}
+                </Text>
+              </View>
+            )}
+            {position.dividends > 0 && (
+              <View style={styles.detailRow}>
+                <Text style={[styles.detailLabel, { color: colors.icon }]}>
+                  {t("investmentDetail.dividendsReceived")}
+                </Text>
+                <Text style={[styles.detailValue, { color: "#4CAF50" }]}>
+                  {formatCurrency(position.dividends, investment.data.currency)}
+                </Text>
+              </View>
+            )}
+            {position.fees > 0 && (
+              <View style={styles.detailRow}>
+                <Text style={[styles.detailLabel, { color: colors.icon }]}>
+                  {t("investmentDetail.feesPaid")}
+                </Text>
+                <Text style={[styles.detailValue, { color: "#F44336" }]}>
+                  {formatCurrency(position.fees, investment.data.currency)}
+                </Text>
+              </View>
+            )}
+            {transactions.map((transaction) => {
+              const transactionType = INVESTMENT_TRANSACTION_TYPES.find(
+                (type) => type.id === transaction.type,
+              );
+              const isTrade =
+                transaction.type === "buy" || transaction.type === "sell";
+              return (
+                <View
+                  key={transaction.id}
+                  style={[styles.ledgerRow, { borderTopColor: colors.border }]}
+                >
+                  <Ionicons
+                    name={(transactionType?.icon as any) || "ellipse"}
+                    size={18}
+                    color={colors.primary}
+                  />
+                  <View style={styles.ledgerContent}>
+                    <Text style={[styles.ledgerTitle, { color: colors.text }]}>
+                      {t(`investmentTransactionTypes.${transaction.type}`)}
+                    </Text>
+                    <Text style={[styles.ledgerDetail, { color: colors.icon }]}>
+                      {new Date(transaction.date).toLocaleDateString()}
+                    </Text>
+                  </View>
+                  <Text style={[styles.ledgerAmount, { color: colors.text }]}>
+                    {isTrade
+                      ? `${transaction.quantity} × ${formatCurrency(
+                          transaction.price,
+                          investment.data.currency,
+                        )}`
+                      : formatCurrency(
+                          transaction.amount || 0,
+                          investment.data.currency,
+                        )}
+                  </Text>
+                </View>
+              );
+            })}
+          </Card>
+
           {/* Investment Details */}
           <Card style={[styles.detailCard, { backgroundColor: colors.card }]}>
             <Text style={[styles.sectionTitle, { color: colors.text }]}>
@@ -490,7 +610,7 @@ export default function InvestmentDetailScreen() {
                 {t("investmentDetail.quantity")}
               </Text>
               <Text style={[styles.detailValue, { color: colors.text }]}>
-                {investment.data.quantity}
+                {position.quantity}
               </Text>
             </View>
             <View style={styles.detailRow}>
@@ -498,10 +618,7 @@ export default function InvestmentDetailScreen() {
                 {t("investmentDetail.purchasePrice")}
               </Text>
               <Text style={[styles.detailValue, { color: colors.text }]}>
-                {formatCurrency(
-                  investment.data.purchase_price,
-                  investment.data.currency,
-                )}
+                {formatCurrency(position.averageCost, investment.data.currency)}
               </Text>
             </View>
             {investment.data.current_price && (
@@ -539,7 +656,7 @@ export default function InvestmentDetailScreen() {
               </Text>
             </View>
 
-            {isBond && investment.data.maturity_date && (
+            {hasMaturity && (
               <>
                 <View style={styles.detailRow}>
                   <Text style={[styles.detailLabel, { color: colors.icon }]}>
@@ -582,6 +699,39 @@ export default function InvestmentDetailScreen() {
                       </Text>
                     </View>
                   )}
+                {yieldToMaturity !== null && (
+                  <View style={styles.detailRow}>
+                    <Text style={[styles.detailLabel, { color: colors.icon }]}>
+                      {t("maturity.yieldToMaturity")}
+                    </Text>
+                    <Text style={[styles.detailValue, { color: colors.text }]}>
+                      {yieldToMaturity.toFixed(2)}%
+                    </Text>
+                  </View>
+                )}
+                {accruedInterest > 0 && (
+                  <View style={styles.detailRow}>
+                    <Text style={[styles.detailLabel, { color: colors.icon }]}>
+                      {t("maturity.accruedInterest")}
+                    </Text>
+                    <Text style={[styles.detailValue, { color: colors.text }]}>
+                      {formatCurrency(
+                        accruedInterest,
+                        investment.data.currency,
+                      )}
+                    </Text>
+                  </View>
+                )}
+                {investment.data.matured_at && (
+                  <View style={styles.detailRow}>
+                    <Text style={[styles.detailLabel, { color: colors.icon }]}>
+                      {t("maturity.redeemedOn")}
+                    </Text>
+                    <Text style={[styles.detailValue, { color: colors.text }]}>
+                      {formatDate(investment.data.matured_at)}
+                    </Text>
+                  </View>
+                )}
               </>
             )}
 
@@ -806,6 +956,29 @@ const styles = StyleSheet.create({
   },
   editButton: {},
   deleteButton: {},
+  // Transaction ledger styles
+  ledgerRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 8,
+    borderTopWidth: 1,
+  },
+  ledgerContent: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  ledgerTitle: {
+    fontSize: 14,
+    fontWeight: "500",
+  },
+  ledgerDetail: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  ledgerAmount: {
+    fontSize: 14,
+    fontWeight: "500",
+  },
   // Warning alert styles
   warningAlert: {
     flexDirection: "row",
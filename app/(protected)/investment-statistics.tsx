@@ -1,5 +1,5 @@
 import * as React from "react";
-import { useMemo, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import {
   StyleSheet,
   ScrollView,
@@ -37,6 +37,17 @@ import {
   InvestmentStats,
   generateProjectionData,
 } from "@/utils/financeUtils";
+import {
+  ASSET_SNAPSHOT_GROUPINGS,
+  AssetSnapshotGrouping,
+  getAssetSnapshotSeries,
+} from "@/utils/assetSnapshotUtils";
+import {
+  ExchangeRateTable,
+  FALLBACK_EXCHANGE_RATES,
+} from "@/utils/exchangeRateUtils";
+import { apiFetchExchangeRates } from "@/services/exchangeRateService";
+import TaxReportCard from "@/components/investments/TaxReportCard";
 
 const { width } = Dimensions.get("window");
 
@@ -211,6 +222,87 @@ const CustomLineChart: React.FC<LineChartProps> = ({
   );
 };
 
+// Custom SVG Stacked Area Chart Component for historical asset snapshots
+interface StackedAreaChartProps {
+  dates: string[];
+  series: { key: string; values: number[]; color: string }[];
+  size: { width: number; height: number };
+  colors: any;
+}
+
+const CustomStackedAreaChart: React.FC<StackedAreaChartProps> = ({
+  dates,
+  series,
+  size,
+  colors,
+}) => {
+  const padding = 20;
+  const chartWidth = size.width - padding * 2;
+  const chartHeight = size.height - padding * 2;
+
+  if (dates.length < 2 || series.length === 0) return null;
+
+  const times = dates.map((date) => Date.parse(date));
+  const timeRange = times[times.length - 1] - times[0] || 1;
+
+  // Running totals per date, bottom layer first
+  const stacks: number[][] = [];
+  series.forEach((item, layer) => {
+    stacks.push(
+      item.values.map(
+        (value, index) =>
+          (layer > 0 ? stacks[layer - 1][index] : 0) + Math.max(value, 0),
+      ),
+    );
+  });
+
+  const maxValue = Math.max(...stacks[stacks.length - 1]);
+  if (!isFinite(maxValue) || maxValue <= 0) return null;
+
+  const x = (index: number) =>
+    padding + ((times[index] - times[0]) / timeRange) * chartWidth;
+  const y = (value: number) =>
+    padding + chartHeight - (value / maxValue) * chartHeight;
+
+  const bottom = times.map((_, index) => `${x(index)},${y(0)}`);
+  const layers = stacks.map((stack, layer) => {
+    const top = stack.map((value, index) => `${x(index)},${y(value)}`);
+    const base =
+      layer > 0
+        ? stacks[layer - 1].map((value, index) => `${x(index)},${y(value)}`)
+        : bottom;
+    return `M ${top.join(" L ")} L ${[...base].reverse().join(" L ")} Z`;
+  });
+
+  return (
+    <Svg width={size.width} height={size.height}>
+      {[0, 0.25, 0.5, 0.75, 1].map((ratio, index) => (
+        <Line
+          key={`grid-${index}`}
+          x1={padding}
+          y1={padding + chartHeight * ratio}
+          x2={padding + chartWidth}
+          y2={padding + chartHeight * ratio}
+          stroke={colors.border}
+          strokeWidth={1}
+          opacity={0.3}
+        />
+      ))}
+
+      {layers.map((path, layer) => (
+        <Path
+          key={series[layer].key}
+          d={path}
+          fill={series[layer].color}
+          fillOpacity={0.8}
+          stroke={series[layer].color}
+          strokeWidth={1}
+        />
+      ))}
+    </Svg>
+  );
+};
+
 const CustomPieChart: React.FC<PieChartProps> = ({ data, size, colors }) => {
   const radius = size / 2 - 20;
   const centerX = size / 2;
@@ -369,6 +461,22 @@ export default function InvestmentStatisticsScreen() {
     portfolioId || null,
   );
   const [portfolioModalVisible, setPortfolioModalVisible] = useState(false);
+  const [assetGrouping, setAssetGrouping] =
+    useState<AssetSnapshotGrouping>("type");
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRateTable>(
+    FALLBACK_EXCHANGE_RATES,
+  );
+
+  const defaultCurrency = userProfile?.profile.defaultCurrency || "EUR";
+
+  // Rates to express snapshots taken under a previous default currency
+  useEffect(() => {
+    apiFetchExchangeRates(defaultCurrency).then((result) => {
+      if (result.success && result.data) {
+        setExchangeRates(result.data);
+      }
+    });
+  }, [defaultCurrency]);
 
   // Get available portfolios
   const availablePortfolios = useMemo(() => {
@@ -415,6 +523,17 @@ export default function InvestmentStatisticsScreen() {
     return calculateInvestmentStatistics(investments);
   }, [portfolios, selectedPortfolio]);
 
+  // Investments covered by the tax report
+  const reportInvestments = useMemo(
+    () =>
+      selectedPortfolio
+        ? selectedPortfolio.investments || []
+        : availablePortfolios.flatMap(
+            (portfolio) => portfolio.investments || [],
+          ),
+    [selectedPortfolio, availablePortfolios],
+  );
+
   // Define colors for consistency across pie chart and legend
   const typeColors = useMemo(
     () => [
@@ -511,6 +630,47 @@ export default function InvestmentStatisticsScreen() {
         .sort((a, b) => a.year - b.year);
     }, [userProfile?.profile?.finances?.historicalAssets]);
 
+  // Stacked asset history from the per-portfolio snapshots
+  const assetHistory = useMemo(() => {
+    const history = getAssetSnapshotSeries(
+      userProfile?.profile?.finances,
+      assetGrouping,
+      defaultCurrency,
+      exchangeRates,
+      selectedPortfolioId,
+    );
+
+    return {
+      ...history,
+      series: history.series.map((item, index) => {
+        const typeInfo = investmentTypes.find((type) => type.id === item.key);
+        const label =
+          assetGrouping === "type"
+            ? `${typeInfo?.icon || "📦"} ${typeInfo?.name || item.key}`
+            : assetGrouping === "portfolio"
+              ? portfolios.find((portfolio) => portfolio.id === item.key)?.data
+                  ?.name || t("investmentStatistics.removedPortfolio")
+              : item.key;
+
+        return {
+          ...item,
+          label,
+          color: typeColors[index % typeColors.length],
+        };
+      }),
+    };
+  }, [
+    userProfile?.profile?.finances,
+    assetGrouping,
+    defaultCurrency,
+    exchangeRates,
+    selectedPortfolioId,
+    investmentTypes,
+    portfolios,
+    typeColors,
+    t,
+  ]);
+
   const getProgressWidth = (amount: number, maxAmount: number) => {
     if (
       !isFinite(amount) ||
@@ -1089,6 +1249,103 @@ export default function InvestmentStatisticsScreen() {
           </View>
         </View>
 
+        {/* Asset History Section */}
+        {assetHistory.dates.length > 1 && (
+          <View style={styles.section}>
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>
+              {t("investmentStatistics.assetHistory")}
+            </Text>
+
+            <View
+              style={[styles.projectionCard, { backgroundColor: colors.card }]}
+            >
+              <View style={styles.projectionHeader}>
+                <Text
+                  style={[styles.projectionValue, { color: colors.primary }]}
+                >
+                  {formatCurrency(
+                    assetHistory.totals[assetHistory.totals.length - 1] || 0,
+                    defaultCurrency,
+                  )}
+                </Text>
+                <Text style={[styles.projectionLabel, { color: colors.icon }]}>
+                  {t("investmentStatistics.assetHistorySince", {
+                    date: new Date(assetHistory.dates[0]).toLocaleDateString(),
+                  })}
+                </Text>
+              </View>
+
+              <View style={styles.groupingSelector}>
+                {ASSET_SNAPSHOT_GROUPINGS.map((grouping) => (
+                  <TouchableOpacity
+                    key={grouping}
+                    style={[
+                      styles.groupingOption,
+                      {
+                        backgroundColor:
+                          assetGrouping === grouping
+                            ? colors.primary
+                            : colors.background,
+                        borderColor: colors.border,
+                      },
+                    ]}
+                    onPress={() => setAssetGrouping(grouping)}
+                  >
+                    <Text
+                      style={[
+                        styles.groupingText,
+                        {
+                          color:
+                            assetGrouping === grouping ? "white" : colors.text,
+                        },
+                      ]}
+                    >
+                      {t(`investmentStatistics.assetGroupings.${grouping}`)}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <View style={styles.projectionChartSection}>
+                <CustomStackedAreaChart
+                  dates={assetHistory.dates}
+                  series={assetHistory.series}
+                  size={{ width: width - 80, height: 200 }}
+                  colors={colors}
+                />
+              </View>
+
+              <View style={styles.pieChartLegend}>
+                {assetHistory.series.map((item) => (
+                  <View key={item.key} style={styles.legendItem}>
+                    <View
+                      style={[
+                        styles.legendColorBox,
+                        { backgroundColor: item.color },
+                      ]}
+                    />
+                    <Text style={[styles.legendText, { color: colors.text }]}>
+                      {item.label}{" "}
+                      {formatCurrency(
+                        item.values[item.values.length - 1] || 0,
+                        defaultCurrency,
+                      )}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+
+              <Text
+                style={[styles.projectionDisclaimer, { color: colors.icon }]}
+              >
+                {t("investmentStatistics.assetHistoryDisclaimer", {
+                  currency: defaultCurrency,
+                })}
+              </Text>
+            </View>
+          </View>
+        )}
+
         {/* Financial Assets Section */}
         {financialAssetsLineData.length > 0 && (
           <View style={styles.section}>
@@ -1219,6 +1476,19 @@ export default function InvestmentStatisticsScreen() {
           </View>
         )}
 
+        {/* Tax Report Section */}
+        {reportInvestments.length > 0 && (
+          <View style={styles.section}>
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>
+              {t("taxReport.title")}
+            </Text>
+            <TaxReportCard
+              investments={reportInvestments}
+              currency={defaultCurrency}
+            />
+          </View>
+        )}
+
         <View style={{ height: 100 }} />
       </ScrollView>
 
@@ -1439,6 +1709,22 @@ const styles = StyleSheet.create({
     textAlign: "center",
     fontStyle: "italic",
   },
+  groupingSelector: {
+    flexDirection: "row",
+    gap: 8,
+    marginBottom: 16,
+  },
+  groupingOption: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  groupingText: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
   typeContainer: {
     borderRadius: 16,
     padding: 16,
@@ -0,0 +1,388 @@
+import React, { useMemo, useState } from "react";
+import {
+  Alert,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { Button, Text, TopNavigation } from "@ui-kitten/components";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import { ThemedView } from "@/components/ThemedView";
+import { Colors } from "@/constants/Colors";
+import { useLiability } from "@/context/LiabilityContext";
+import { useLocalization } from "@/context/LocalizationContext";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import { formatCurrency } from "@/utils/currencyUtils";
+import {
+  getLiabilityBalance,
+  getRemainingSchedule,
+} from "@/utils/liabilityUtils";
+
+// Upcoming payments listed before the yearly summary
+const UPCOMING_PAYMENTS = 12;
+
+export default function LiabilityDetailScreen() {
+  const router = useRouter();
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+  const { t } = useLocalization();
+  const { liabilities, deleteLiability } = useLiability();
+  const { liabilityId } = useLocalSearchParams<{ liabilityId: string }>();
+  const [deleting, setDeleting] = useState(false);
+
+  const liability = liabilities.find((item) => item.id === liabilityId);
+  const today = new Date().toISOString().split("T")[0];
+
+  const { balance, schedule, years } = useMemo(() => {
+    if (!liability) return { balance: 0, schedule: [], years: [] };
+
+    const current = getLiabilityBalance(liability.data, today);
+    const rows = getRemainingSchedule(liability.data, today);
+    const byYear = new Map<
+      string,
+      { year: string; interest: number; principal: number; balance: number }
+    >();
+    rows.forEach((row) => {
+      const year = row.date.slice(0, 4);
+      const totals = byYear.get(year) || {
+        year,
+        interest: 0,
+        principal: 0,
+        balance: 0,
+      };
+      totals.interest += row.interest;
+      totals.principal += row.principal;
+      totals.balance = row.balance;
+      byYear.set(year, totals);
+    });
+    return { balance: current, schedule: rows, years: [...byYear.values()] };
+  }, [liability, today]);
+
+  const currency = liability?.data.currency || "EUR";
+  const totalInterest = schedule.reduce((sum, row) => sum + row.interest, 0);
+  const payoffDate =
+    schedule.length > 0 ? schedule[schedule.length - 1].date : null;
+
+  const handleDelete = () => {
+    if (!liability) return;
+    Alert.alert(
+      t("liabilities.deleteLiability"),
+      t("liabilities.deleteConfirm"),
+      [
+        { text: t("common.cancel"), style: "cancel" },
+        {
+          text: t("liabilities.delete"),
+          style: "destructive",
+          onPress: async () => {
+            setDeleting(true);
+            const success = await deleteLiability(liability.id);
+            setDeleting(false);
+            if (success) {
+              router.back();
+            } else {
+              Alert.alert(t("alerts.error"), t("liabilities.deleteFailed"));
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const renderBackAction = () => (
+    <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+      <Ionicons name="arrow-back" size={24} color={colors.icon} />
+    </TouchableOpacity>
+  );
+
+  const renderEditAction = () =>
+    liability ? (
+      <TouchableOpacity
+        onPress={() =>
+          router.push({
+            pathname: "/(protected)/edit-liability",
+            params: { liabilityId: liability.id },
+          })
+        }
+        style={styles.backButton}
+      >
+        <Ionicons name="create-outline" size={24} color={colors.icon} />
+      </TouchableOpacity>
+    ) : (
+      <></>
+    );
+
+  const renderRow = (label: string, value: string, color?: string) => (
+    <View style={styles.row}>
+      <Text style={[styles.label, { color: colors.icon }]}>{label}</Text>
+      <Text style={[styles.value, { color: color || colors.text }]}>
+        {value}
+      </Text>
+    </View>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <SafeAreaView style={styles.safeArea}>
+        <StatusBar
+          barStyle={colorScheme === "dark" ? "light-content" : "dark-content"}
+          backgroundColor={colors.background}
+        />
+        <TopNavigation
+          title={liability?.data.name || t("liabilities.title")}
+          alignment="center"
+          accessoryLeft={renderBackAction}
+          accessoryRight={renderEditAction}
+          style={{ backgroundColor: colors.background }}
+        />
+
+        {!liability ? (
+          <View style={styles.notFound}>
+            <Text style={{ color: colors.icon }}>
+              {t("liabilities.notFound")}
+            </Text>
+          </View>
+        ) : (
+          <ScrollView
+            style={styles.content}
+            showsVerticalScrollIndicator={false}
+          >
+            {/* Summary */}
+            <View
+              style={[
+                styles.card,
+                { backgroundColor: colors.card, shadowColor: colors.text },
+              ]}
+            >
+              <Text style={[styles.sectionTitle, { color: colors.text }]}>
+                {t(`liabilities.types.${liability.data.type}`)}
+              </Text>
+              <Text style={[styles.total, { color: colors.error }]}>
+                {formatCurrency(balance, currency)}
+              </Text>
+              <Text style={[styles.hint, { color: colors.icon }]}>
+                {t("liabilities.balanceAsOf", {
+                  amount: formatCurrency(liability.data.balance, currency),
+                  date: new Date(
+                    liability.data.balance_date,
+                  ).toLocaleDateString(),
+                })}
+              </Text>
+              {renderRow(
+                t("liabilities.interestRate"),
+                liability.data.interest_rate !== null
+                  ? `${liability.data.interest_rate}%`
+                  : "—",
+              )}
+              {renderRow(
+                t("liabilities.monthlyPayment"),
+                liability.data.monthly_payment
+                  ? formatCurrency(liability.data.monthly_payment, currency)
+                  : "—",
+              )}
+              {renderRow(
+                t("liabilities.payoffDate"),
+                payoffDate
+                  ? new Date(payoffDate).toLocaleDateString()
+                  : t("liabilities.noPayoff"),
+              )}
+              {renderRow(
+                t("liabilities.interestRemaining"),
+                formatCurrency(totalInterest, currency),
+                colors.warning,
+              )}
+              {!!liability.data.notes && (
+                <Text style={[styles.notes, { color: colors.text }]}>
+                  {liability.data.notes}
+                </Text>
+              )}
+            </View>
+
+            {/* Schedule */}
+            <View
+              style={[
+                styles.card,
+                { backgroundColor: colors.card, shadowColor: colors.text },
+              ]}
+            >
+              <Text style={[styles.sectionTitle, { color: colors.text }]}>
+                {t("liabilities.schedule")}
+              </Text>
+              {schedule.length === 0 ? (
+                <Text style={[styles.hint, { color: colors.icon }]}>
+                  {t("liabilities.scheduleEmpty")}
+                </Text>
+              ) : (
+                <>
+                  <View style={styles.tableRow}>
+                    {[
+                      t("liabilities.date"),
+                      t("liabilities.interest"),
+                      t("liabilities.principal"),
+                      t("liabilities.remaining"),
+                    ].map((heading) => (
+                      <Text
+                        key={heading}
+                        style={[styles.tableHeading, { color: colors.icon }]}
+                      >
+                        {heading}
+                      </Text>
+                    ))}
+                  </View>
+                  {schedule.slice(0, UPCOMING_PAYMENTS).map((row) => (
+                    <View
+                      key={row.date}
+                      style={[
+                        styles.tableRow,
+                        { borderTopColor: colors.border },
+                      ]}
+                    >
+                      <Text style={[styles.tableCell, { color: colors.text }]}>
+                        {new Date(row.date).toLocaleDateString()}
+                      </Text>
+                      <Text style={[styles.tableCell, { color: colors.text }]}>
+                        {formatCurrency(row.interest, currency)}
+                      </Text>
+                      <Text style={[styles.tableCell, { color: colors.text }]}>
+                        {formatCurrency(row.principal, currency)}
+                      </Text>
+                      <Text style={[styles.tableCell, { color: colors.text }]}>
+                        {formatCurrency(row.balance, currency)}
+                      </Text>
+                    </View>
+                  ))}
+                </>
+              )}
+            </View>
+
+            {/* By year */}
+            {years.length > 0 && (
+              <View
+                style={[
+                  styles.card,
+                  { backgroundColor: colors.card, shadowColor: colors.text },
+                ]}
+              >
+                <Text style={[styles.sectionTitle, { color: colors.text }]}>
+                  {t("liabilities.byYear")}
+                </Text>
+                {years.map((year) => (
+                  <View
+                    key={year.year}
+                    style={[styles.tableRow, { borderTopColor: colors.border }]}
+                  >
+                    <Text style={[styles.tableCell, { color: colors.text }]}>
+                      {year.year}
+                    </Text>
+                    <Text style={[styles.tableCell, { color: colors.text }]}>
+                      {formatCurrency(year.interest, currency)}
+                    </Text>
+                    <Text style={[styles.tableCell, { color: colors.text }]}>
+                      {formatCurrency(year.principal, currency)}
+                    </Text>
+                    <Text style={[styles.tableCell, { color: colors.text }]}>
+                      {formatCurrency(year.balance, currency)}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            )}
+
+            <Button
+              appearance="ghost"
+              status="danger"
+              style={styles.deleteButton}
+              disabled={deleting}
+              onPress={handleDelete}
+            >
+              {t("liabilities.deleteLiability")}
+            </Button>
+          </ScrollView>
+        )}
+      </SafeAreaView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  safeArea: {
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  notFound: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  card: {
+    marginBottom: 20,
+    padding: 20,
+    borderRadius: 20,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginBottom: 8,
+  },
+  backButton: {
+    padding: 12,
+  },
+  total: {
+    fontSize: 28,
+    fontWeight: "700",
+  },
+  hint: {
+    fontSize: 12,
+    marginTop: 4,
+    marginBottom: 8,
+  },
+  notes: {
+    fontSize: 14,
+    marginTop: 8,
+  },
+  row: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: 6,
+  },
+  label: {
+    fontSize: 14,
+  },
+  value: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  tableRow: {
+    flexDirection: "row",
+    paddingVertical: 6,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: "transparent",
+  },
+  tableHeading: {
+    flex: 1,
+    fontSize: 11,
+    fontWeight: "600",
+    textAlign: "right",
+  },
+  tableCell: {
+    flex: 1,
+    fontSize: 12,
+    textAlign: "right",
+  },
+  deleteButton: {
+    marginBottom: 40,
+  },
+});
@@ -0,0 +1,353 @@
+import React, { useMemo, useState } from "react";
+import {
+  Alert,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { Button, Text, TopNavigation } from "@ui-kitten/components";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import { ThemedView } from "@/components/ThemedView";
+import LoanComparisonCard from "@/components/investments/LoanComparisonCard";
+import { Colors } from "@/constants/Colors";
+import { useExpense } from "@/context/ExpenseContext";
+import { useInvestment } from "@/context/InvestmentContext";
+import { useLocalization } from "@/context/LocalizationContext";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import { formatCurrency } from "@/utils/currencyUtils";
+import { buildLoanSchedule, getLoanSummary } from "@/utils/loanUtils";
+
+// Instalments listed after today
+const UPCOMING_INSTALMENTS = 12;
+
+export default function LoanDetailScreen() {
+  const router = useRouter();
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+  const { t } = useLocalization();
+  const { portfolios, deleteInvestment } = useInvestment();
+  const { expensesGroups, recurringExpenses, deleteRecurringExpense } =
+    useExpense();
+  const { portfolioId, investmentId } = useLocalSearchParams<{
+    portfolioId: string;
+    investmentId: string;
+  }>();
+  const [deleting, setDeleting] = useState(false);
+
+  const investment = portfolios
+    .find((portfolio) => portfolio.id === portfolioId)
+    ?.investments?.find((item) => item.id === investmentId);
+  const terms = investment?.data.loan;
+  const currency = investment?.data.currency || "EUR";
+  const today = new Date().toISOString().split("T")[0];
+
+  const { summary, upcoming } = useMemo(() => {
+    if (!terms) return { summary: null, upcoming: [] };
+    return {
+      summary: getLoanSummary(terms, today),
+      upcoming: buildLoanSchedule(terms)
+        .filter((row) => row.date > today)
+        .slice(0, UPCOMING_INSTALMENTS),
+    };
+  }, [terms, today]);
+
+  const linkedExpense = recurringExpenses.find(
+    (item) => item.id === terms?.recurring_expense_id,
+  );
+  const linkedGroup = expensesGroups.find(
+    (group) => group.id === linkedExpense?.group_id,
+  );
+
+  const handleDelete = () => {
+    if (!investment) return;
+    Alert.alert(t("loans.deleteLoan"), t("loans.deleteConfirm"), [
+      { text: t("common.cancel"), style: "cancel" },
+      {
+        text: t("loans.delete"),
+        style: "destructive",
+        onPress: async () => {
+          setDeleting(true);
+          try {
+            if (linkedExpense) {
+              await deleteRecurringExpense(
+                linkedExpense.group_id,
+                linkedExpense.id,
+              );
+            }
+            await deleteInvestment(investment.portfolio_id, investment.id);
+            router.back();
+          } catch (error) {
+            console.error("Failed to delete loan:", error);
+            Alert.alert(t("alerts.error"), t("loans.deleteFailed"));
+          } finally {
+            setDeleting(false);
+          }
+        },
+      },
+    ]);
+  };
+
+  const renderBackAction = () => (
+    <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+      <Ionicons name="arrow-back" size={24} color={colors.icon} />
+    </TouchableOpacity>
+  );
+
+  const renderEditAction = () =>
+    investment ? (
+      <TouchableOpacity
+        onPress={() =>
+          router.push({
+            pathname: "/(protected)/edit-loan",
+            params: {
+              portfolioId: investment.portfolio_id,
+              investmentId: investment.id,
+            },
+          })
+        }
+        style={styles.backButton}
+      >
+        <Ionicons name="create-outline" size={24} color={colors.icon} />
+      </TouchableOpacity>
+    ) : (
+      <></>
+    );
+
+  const renderRow = (label: string, value: string, color?: string) => (
+    <View style={styles.row}>
+      <Text style={[styles.label, { color: colors.icon }]}>{label}</Text>
+      <Text style={[styles.value, { color: color || colors.text }]}>
+        {value}
+      </Text>
+    </View>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <SafeAreaView style={styles.safeArea}>
+        <StatusBar
+          barStyle={colorScheme === "dark" ? "light-content" : "dark-content"}
+          backgroundColor={colors.background}
+        />
+        <TopNavigation
+          title={investment?.data.name || t("loans.title")}
+          alignment="center"
+          accessoryLeft={renderBackAction}
+          accessoryRight={renderEditAction}
+          style={{ backgroundColor: colors.background }}
+        />
+
+        {!investment || !terms || !summary ? (
+          <View style={styles.notFound}>
+            <Text style={{ color: colors.icon }}>{t("loans.notFound")}</Text>
+          </View>
+        ) : (
+          <ScrollView
+            style={styles.content}
+            showsVerticalScrollIndicator={false}
+          >
+            {/* Summary */}
+            <View
+              style={[
+                styles.card,
+                { backgroundColor: colors.card, shadowColor: colors.text },
+              ]}
+            >
+              <Text style={[styles.sectionTitle, { color: colors.text }]}>
+                {t("loans.outstanding")}
+              </Text>
+              <Text style={[styles.total, { color: colors.error }]}>
+                {formatCurrency(summary.balance, currency)}
+              </Text>
+              <Text style={[styles.hint, { color: colors.icon }]}>
+                {t("loans.ofPrincipal", {
+                  amount: formatCurrency(terms.principal, currency),
+                })}
+              </Text>
+              {renderRow(
+                t("loans.rate"),
+                `${upcoming[0]?.rate ?? terms.rate}% · ${t(
+                  `loans.rateTypes.${terms.rate_type}`,
+                )}`,
+              )}
+              {renderRow(
+                t("loans.instalment"),
+                formatCurrency(summary.payment, currency),
+              )}
+              {renderRow(
+                t("loans.nextPayment"),
+                summary.nextPaymentDate
+                  ? new Date(summary.nextPaymentDate).toLocaleDateString()
+                  : "—",
+              )}
+              {renderRow(
+                t("loans.payoffDate"),
+                summary.payoffDate
+                  ? new Date(summary.payoffDate).toLocaleDateString()
+                  : "—",
+              )}
+              {renderRow(
+                t("loans.interestRemaining"),
+                formatCurrency(summary.interestRemaining, currency),
+                colors.warning,
+              )}
+              {summary.interestSaved > 0 &&
+                renderRow(
+                  t("loans.savedByExtras"),
+                  t("loans.savedByExtrasValue", {
+                    amount: formatCurrency(summary.interestSaved, currency),
+                    months: summary.monthsSaved,
+                  }),
+                  colors.success,
+                )}
+              {renderRow(
+                t("loans.linkedExpense"),
+                linkedGroup?.data.name || t("loans.noLinkedExpense"),
+              )}
+            </View>
+
+            {/* Upcoming instalments */}
+            <View
+              style={[
+                styles.card,
+                { backgroundColor: colors.card, shadowColor: colors.text },
+              ]}
+            >
+              <Text style={[styles.sectionTitle, { color: colors.text }]}>
+                {t("loans.schedule")}
+              </Text>
+              <View style={styles.tableRow}>
+                {[
+                  t("loans.date"),
+                  t("loans.interest"),
+                  t("loans.principalPaid"),
+                  t("loans.remaining"),
+                ].map((heading) => (
+                  <Text
+                    key={heading}
+                    style={[styles.tableHeading, { color: colors.icon }]}
+                  >
+                    {heading}
+                  </Text>
+                ))}
+              </View>
+              {upcoming.map((row) => (
+                <View
+                  key={row.number}
+                  style={[styles.tableRow, { borderTopColor: colors.border }]}
+                >
+                  <Text style={[styles.tableCell, { color: colors.text }]}>
+                    {new Date(row.date).toLocaleDateString()}
+                  </Text>
+                  <Text style={[styles.tableCell, { color: colors.text }]}>
+                    {formatCurrency(row.interest, currency)}
+                  </Text>
+                  <Text style={[styles.tableCell, { color: colors.text }]}>
+                    {formatCurrency(row.principal + row.extra, currency)}
+                  </Text>
+                  <Text style={[styles.tableCell, { color: colors.text }]}>
+                    {formatCurrency(row.balance, currency)}
+                  </Text>
+                </View>
+              ))}
+            </View>
+
+            {summary.balance > 0 && (
+              <LoanComparisonCard terms={terms} currency={currency} />
+            )}
+
+            <Button
+              appearance="ghost"
+              status="danger"
+              style={styles.deleteButton}
+              disabled={deleting}
+              onPress={handleDelete}
+            >
+              {t("loans.deleteLoan")}
+            </Button>
+          </ScrollView>
+        )}
+      </SafeAreaView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  safeArea: {
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  notFound: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  card: {
+    marginBottom: 20,
+    padding: 20,
+    borderRadius: 20,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginBottom: 8,
+  },
+  backButton: {
+    padding: 12,
+  },
+  total: {
+    fontSize: 28,
+    fontWeight: "700",
+  },
+  hint: {
+    fontSize: 12,
+    marginTop: 4,
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: 6,
+  },
+  label: {
+    fontSize: 14,
+  },
+  value: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  tableRow: {
+    flexDirection: "row",
+    paddingVertical: 6,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: "transparent",
+  },
+  tableHeading: {
+    flex: 1,
+    fontSize: 11,
+    fontWeight: "600",
+    textAlign: "right",
+  },
+  tableCell: {
+    flex: 1,
+    fontSize: 12,
+    textAlign: "right",
+  },
+  deleteButton: {
+    marginBottom: 40,
+  },
+});
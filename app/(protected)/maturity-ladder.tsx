@@ -0,0 +1,375 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { Text, TopNavigation } from "@ui-kitten/components";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import { ThemedView } from "@/components/ThemedView";
+import { Colors } from "@/constants/Colors";
+import { useInvestment } from "@/context/InvestmentContext";
+import { useLocalization } from "@/context/LocalizationContext";
+import { useProfile } from "@/context/ProfileContext";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import { apiFetchExchangeRates } from "@/services/exchangeRateService";
+import { formatCurrency } from "@/utils/currencyUtils";
+import {
+  ExchangeRateTable,
+  FALLBACK_EXCHANGE_RATES,
+} from "@/utils/exchangeRateUtils";
+import {
+  buildMaturityLadder,
+  getMaturingHoldings,
+  MATURITY_REMINDER_DAYS,
+} from "@/utils/maturityUtils";
+
+export default function MaturityLadderScreen() {
+  const router = useRouter();
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+  const { t } = useLocalization();
+  const { userProfile } = useProfile();
+  const { portfolios } = useInvestment();
+  const { portfolioId } = useLocalSearchParams<{ portfolioId?: string }>();
+  const currency = userProfile?.profile.defaultCurrency || "EUR";
+
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRateTable>(
+    FALLBACK_EXCHANGE_RATES,
+  );
+
+  useEffect(() => {
+    apiFetchExchangeRates(currency).then((result) => {
+      if (result.success && result.data) {
+        setExchangeRates(result.data);
+      }
+    });
+  }, [currency]);
+
+  const holdings = useMemo(
+    () =>
+      getMaturingHoldings(
+        portfolios
+          .filter((portfolio) =>
+            portfolioId
+              ? portfolio.id === portfolioId
+              : portfolio.membership_status === "confirmed",
+          )
+          .flatMap((portfolio) => portfolio.investments || []),
+        currency,
+        exchangeRates,
+        new Date().toISOString().split("T")[0],
+      ),
+    [portfolios, portfolioId, currency, exchangeRates],
+  );
+
+  const ladder = useMemo(() => buildMaturityLadder(holdings), [holdings]);
+  const totalRedemption = ladder.reduce((sum, rung) => sum + rung.total, 0);
+  const maxRungTotal = Math.max(...ladder.map((rung) => rung.total), 0);
+
+  // Average yield weighted by the principal repaid
+  const averageYield = useMemo(() => {
+    const withYield = holdings.filter(
+      (holding) => holding.yield_to_maturity !== null,
+    );
+    const weight = withYield.reduce(
+      (sum, holding) => sum + holding.redemption_converted,
+      0,
+    );
+    return weight > 0
+      ? withYield.reduce(
+          (sum, holding) =>
+            sum + holding.yield_to_maturity! * holding.redemption_converted,
+          0,
+        ) / weight
+      : null;
+  }, [holdings]);
+
+  const renderBackAction = () => (
+    <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+      <Ionicons name="arrow-back" size={24} color={colors.icon} />
+    </TouchableOpacity>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <SafeAreaView style={styles.safeArea}>
+        <StatusBar
+          barStyle={colorScheme === "dark" ? "light-content" : "dark-content"}
+          backgroundColor={colors.background}
+        />
+        <TopNavigation
+          title={t("maturity.title")}
+          alignment="center"
+          accessoryLeft={renderBackAction}
+          style={{ backgroundColor: colors.background }}
+        />
+
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          {/* Ladder */}
+          <View
+            style={[
+              styles.card,
+              { backgroundColor: colors.card, shadowColor: colors.text },
+            ]}
+          >
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>
+              {t("maturity.principalMaturing")}
+            </Text>
+            <Text style={[styles.total, { color: colors.primary }]}>
+              {formatCurrency(totalRedemption, currency)}
+            </Text>
+            {averageYield !== null && (
+              <Text style={[styles.hint, { color: colors.icon }]}>
+                {t("maturity.averageYield", {
+                  yield: averageYield.toFixed(2),
+                })}
+              </Text>
+            )}
+            {ladder.length === 0 ? (
+              <Text style={[styles.hint, { color: colors.icon }]}>
+                {t("maturity.empty")}
+              </Text>
+            ) : (
+              <View style={styles.ladder}>
+                {ladder.map((rung) => (
+                  <View key={rung.year} style={styles.barRow}>
+                    <Text style={[styles.barLabel, { color: colors.icon }]}>
+                      {rung.year}
+                    </Text>
+                    <View
+                      style={[
+                        styles.barTrack,
+                        { backgroundColor: colors.background },
+                      ]}
+                    >
+                      <View
+                        style={[
+                          styles.barFill,
+                          {
+                            backgroundColor: colors.primary,
+                            width: `${maxRungTotal > 0 ? (rung.total / maxRungTotal) * 100 : 0}%`,
+                          },
+                        ]}
+                      />
+                    </View>
+                    <Text style={[styles.barValue, { color: colors.text }]}>
+                      {formatCurrency(rung.total, currency)}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            )}
+          </View>
+
+          {/* Holdings by year */}
+          {ladder.map((rung) => (
+            <View
+              key={rung.year}
+              style={[
+                styles.card,
+                { backgroundColor: colors.card, shadowColor: colors.text },
+              ]}
+            >
+              <View style={styles.rungHeader}>
+                <Text style={[styles.rungTitle, { color: colors.text }]}>
+                  {rung.year}
+                </Text>
+                <Text style={[styles.rungTotal, { color: colors.primary }]}>
+                  {formatCurrency(rung.total, currency)}
+                </Text>
+              </View>
+              {rung.holdings.map((holding) => {
+                const soon = holding.days_to_maturity <= MATURITY_REMINDER_DAYS;
+                const details = [
+                  holding.yield_to_maturity !== null &&
+                    t("maturity.ytmShort", {
+                      yield: holding.yield_to_maturity.toFixed(2),
+                    }),
+                  holding.accrued_interest > 0 &&
+                    t("maturity.accruedShort", {
+                      amount: formatCurrency(
+                        holding.accrued_interest,
+                        holding.investment.data.currency,
+                      ),
+                    }),
+                ]
+                  .filter(Boolean)
+                  .join(" · ");
+                return (
+                  <TouchableOpacity
+                    key={holding.investment.id}
+                    style={[
+                      styles.holdingRow,
+                      { borderTopColor: colors.border },
+                    ]}
+                    onPress={() =>
+                      router.push({
+                        pathname: "/(protected)/investment-detail",
+                        params: {
+                          investmentId: holding.investment.id,
+                          portfolioId: holding.investment.portfolio_id,
+                        },
+                      })
+                    }
+                  >
+                    <View style={styles.holdingInfo}>
+                      <Text
+                        style={[styles.holdingName, { color: colors.text }]}
+                        numberOfLines={1}
+                      >
+                        {holding.investment.data.name}
+                      </Text>
+                      <Text
+                        style={[
+                          styles.holdingMeta,
+                          { color: soon ? colors.warning : colors.icon },
+                        ]}
+                      >
+                        {new Date(holding.maturity_date).toLocaleDateString()} ·{" "}
+                        {t("maturity.inDays", {
+                          days: holding.days_to_maturity,
+                        })}
+                      </Text>
+                      {!!details && (
+                        <Text
+                          style={[styles.holdingMeta, { color: colors.icon }]}
+                        >
+                          {details}
+                        </Text>
+                      )}
+                    </View>
+                    <Text
+                      style={[styles.holdingAmount, { color: colors.text }]}
+                    >
+                      {formatCurrency(
+                        holding.redemption,
+                        holding.investment.data.currency,
+                      )}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          ))}
+
+          <Text style={[styles.disclaimer, { color: colors.icon }]}>
+            {t("maturity.disclaimer")}
+          </Text>
+        </ScrollView>
+      </SafeAreaView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  safeArea: {
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  card: {
+    marginBottom: 20,
+    padding: 20,
+    borderRadius: 20,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginBottom: 8,
+  },
+  backButton: {
+    padding: 12,
+  },
+  total: {
+    fontSize: 28,
+    fontWeight: "700",
+  },
+  hint: {
+    fontSize: 12,
+    marginTop: 8,
+  },
+  ladder: {
+    marginTop: 16,
+  },
+  barRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 8,
+    gap: 8,
+  },
+  barLabel: {
+    width: 44,
+    fontSize: 12,
+  },
+  barTrack: {
+    flex: 1,
+    height: 8,
+    borderRadius: 4,
+    overflow: "hidden",
+  },
+  barFill: {
+    height: 8,
+    borderRadius: 4,
+  },
+  barValue: {
+    width: 100,
+    fontSize: 12,
+    fontWeight: "600",
+    textAlign: "right",
+  },
+  rungHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  rungTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  rungTotal: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  holdingRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    paddingVertical: 10,
+    borderTopWidth: 1,
+  },
+  holdingInfo: {
+    flex: 1,
+  },
+  holdingName: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  holdingMeta: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  holdingAmount: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  disclaimer: {
+    fontSize: 12,
+    textAlign: "center",
+    marginBottom: 40,
+  },
+});
@@ -0,0 +1,370 @@
+import React, { useMemo, useState } from "react";
+import {
+  Alert,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import {
+  Button,
+  CheckBox,
+  IndexPath,
+  Select,
+  SelectItem,
+  Spinner,
+  Text,
+  TopNavigation,
+} from "@ui-kitten/components";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import { ThemedView } from "@/components/ThemedView";
+import MemberRemapping from "@/components/expenses/MemberRemapping";
+import { Colors } from "@/constants/Colors";
+import { useAuth } from "@/context/AuthContext";
+import { useExpense } from "@/context/ExpenseContext";
+import { useLocalization } from "@/context/LocalizationContext";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import { formatCurrency } from "@/utils/currencyUtils";
+import { formatDate } from "@/utils/dateUtils";
+import {
+  MemberMapping,
+  getDefaultMemberMapping,
+  getUnmatchedMembers,
+  remapExpenseMembers,
+} from "@/utils/moveUtils";
+
+export default function MoveExpensesScreen() {
+  const router = useRouter();
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+  const { t } = useLocalization();
+  const { user } = useAuth();
+  const { groupId } = useLocalSearchParams<{ groupId: string }>();
+  const { expensesGroups, moveExpenses } = useExpense();
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [targetGroupIndex, setTargetGroupIndex] = useState<IndexPath>();
+  const [memberMapping, setMemberMapping] = useState<MemberMapping>({});
+  const [isMoving, setIsMoving] = useState(false);
+
+  const group = expensesGroups.find((g) => g.id === groupId);
+  const expenses = useMemo(
+    () =>
+      (group?.expenses || []).filter(
+        (expense) => expense.data.status !== "deleted",
+      ),
+    [group?.expenses],
+  );
+  const availableGroups = expensesGroups.filter(
+    (g) => g.id !== groupId && g.membership_status === "confirmed",
+  );
+  const targetGroup = targetGroupIndex
+    ? availableGroups[targetGroupIndex.row]
+    : undefined;
+
+  const selectedExpenses = useMemo(
+    () => expenses.filter((expense) => selectedIds.has(expense.id)),
+    [expenses, selectedIds],
+  );
+  const unmatchedMembers = useMemo(
+    () =>
+      targetGroup
+        ? getUnmatchedMembers(
+            selectedExpenses.map((expense) => expense.data),
+            targetGroup.members,
+          )
+        : [],
+    [targetGroup, selectedExpenses],
+  );
+
+  // New people need a member too, keep choices already made
+  const mappingWithDefaults = useMemo(
+    () =>
+      targetGroup
+        ? {
+            ...getDefaultMemberMapping(
+              unmatchedMembers,
+              targetGroup.members,
+              user?.id,
+            ),
+            ...memberMapping,
+          }
+        : {},
+    [targetGroup, unmatchedMembers, memberMapping, user?.id],
+  );
+
+  const toggleExpense = (expenseId: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(expenseId)) {
+        next.delete(expenseId);
+      } else {
+        next.add(expenseId);
+      }
+      return next;
+    });
+  };
+
+  const allSelected =
+    expenses.length > 0 && selectedExpenses.length === expenses.length;
+  const toggleAll = () => {
+    setSelectedIds(
+      allSelected ? new Set() : new Set(expenses.map((expense) => expense.id)),
+    );
+  };
+
+  const handleTargetGroupSelect = (index: IndexPath) => {
+    setTargetGroupIndex(index);
+    setMemberMapping({});
+  };
+
+  const handleMove = async () => {
+    if (!groupId || !targetGroup || selectedExpenses.length === 0) return;
+
+    setIsMoving(true);
+    try {
+      const result = await moveExpenses(
+        groupId,
+        targetGroup.id,
+        selectedExpenses.map((expense) => ({
+          expenseId: expense.id,
+          data: remapExpenseMembers(
+            expense.data,
+            mappingWithDefaults,
+            targetGroup.members,
+          ),
+        })),
+      );
+
+      if (result.success) {
+        Alert.alert(
+          t("expenseDetail.moveSuccess"),
+          t("moveExpenses.movedSuccessfully", {
+            count: selectedExpenses.length,
+            groupName: targetGroup.data.name || t("common.unknown"),
+          }),
+          [{ text: "OK", onPress: () => router.back() }],
+        );
+      } else {
+        Alert.alert(
+          t("expenseDetail.error"),
+          result.error || t("moveExpenses.moveFailed"),
+        );
+      }
+    } finally {
+      setIsMoving(false);
+    }
+  };
+
+  const renderBackAction = () => (
+    <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+      <Ionicons name="arrow-back" size={24} color={colors.icon} />
+    </TouchableOpacity>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <SafeAreaView style={styles.safeArea}>
+        <StatusBar
+          barStyle={colorScheme === "dark" ? "light-content" : "dark-content"}
+          backgroundColor={colors.background}
+        />
+        <TopNavigation
+          title={t("moveExpenses.title")}
+          alignment="center"
+          accessoryLeft={renderBackAction}
+          style={{ backgroundColor: colors.background }}
+        />
+
+        {!group ? (
+          <View style={styles.centered}>
+            <Text style={{ color: colors.icon }}>
+              {t("groupDetail.groupNotFound")}
+            </Text>
+          </View>
+        ) : (
+          <>
+            <ScrollView
+              style={styles.content}
+              showsVerticalScrollIndicator={false}
+            >
+              <View
+                style={[
+                  styles.card,
+                  { backgroundColor: colors.card, shadowColor: colors.text },
+                ]}
+              >
+                {availableGroups.length > 0 ? (
+                  <Select
+                    label={t("expenseDetail.selectTargetGroup")}
+                    placeholder={t("expenseDetail.selectGroup")}
+                    selectedIndex={targetGroupIndex}
+                    onSelect={(index) =>
+                      handleTargetGroupSelect(index as IndexPath)
+                    }
+                    value={targetGroup?.data.name || ""}
+                  >
+                    {availableGroups.map((availableGroup) => (
+                      <SelectItem
+                        key={availableGroup.id}
+                        title={availableGroup.data.name}
+                      />
+                    ))}
+                  </Select>
+                ) : (
+                  <Text style={{ color: colors.icon }}>
+                    {t("expenseDetail.noOtherGroups")}
+                  </Text>
+                )}
+                {targetGroup && (
+                  <MemberRemapping
+                    unmatched={unmatchedMembers}
+                    targetMembers={targetGroup.members}
+                    mapping={mappingWithDefaults}
+                    onChange={setMemberMapping}
+                  />
+                )}
+              </View>
+
+              <View
+                style={[
+                  styles.card,
+                  { backgroundColor: colors.card, shadowColor: colors.text },
+                ]}
+              >
+                <CheckBox
+                  checked={allSelected}
+                  indeterminate={selectedExpenses.length > 0 && !allSelected}
+                  onChange={toggleAll}
+                  style={styles.selectAll}
+                >
+                  {t("moveExpenses.selectAll", { count: expenses.length })}
+                </CheckBox>
+                {expenses.length === 0 ? (
+                  <Text style={[styles.hint, { color: colors.icon }]}>
+                    {t("groupDetail.noExpensesYet")}
+                  </Text>
+                ) : (
+                  expenses.map((expense) => (
+                    <TouchableOpacity
+                      key={expense.id}
+                      style={[
+                        styles.expenseRow,
+                        { borderTopColor: colors.border },
+                      ]}
+                      onPress={() => toggleExpense(expense.id)}
+                    >
+                      <CheckBox
+                        checked={selectedIds.has(expense.id)}
+                        onChange={() => toggleExpense(expense.id)}
+                      />
+                      <View style={styles.expenseInfo}>
+                        <Text
+                          style={[styles.expenseName, { color: colors.text }]}
+                          numberOfLines={1}
+                        >
+                          {expense.data.name}
+                        </Text>
+                        <Text style={[styles.hint, { color: colors.icon }]}>
+                          {formatDate(expense.data.date)}
+                        </Text>
+                      </View>
+                      <Text
+                        style={[styles.expenseAmount, { color: colors.text }]}
+                      >
+                        {formatCurrency(
+                          expense.data.amount,
+                          expense.data.currency,
+                        )}
+                      </Text>
+                    </TouchableOpacity>
+                  ))
+                )}
+              </View>
+              <View style={{ height: 40 }} />
+            </ScrollView>
+
+            <View style={[styles.footer, { borderTopColor: colors.border }]}>
+              <Button
+                onPress={handleMove}
+                disabled={
+                  !targetGroup || selectedExpenses.length === 0 || isMoving
+                }
+                accessoryLeft={
+                  isMoving ? () => <Spinner size="tiny" /> : undefined
+                }
+              >
+                {isMoving
+                  ? t("expenseDetail.moving")
+                  : t("moveExpenses.moveSelected", {
+                      count: selectedExpenses.length,
+                    })}
+              </Button>
+            </View>
+          </>
+        )}
+      </SafeAreaView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  safeArea: {
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  centered: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  card: {
+    marginBottom: 16,
+    padding: 16,
+    borderRadius: 16,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  backButton: {
+    padding: 12,
+  },
+  hint: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  selectAll: {
+    marginBottom: 12,
+  },
+  expenseRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 10,
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  expenseInfo: {
+    flex: 1,
+    marginHorizontal: 12,
+  },
+  expenseName: {
+    fontSize: 15,
+    fontWeight: "500",
+  },
+  expenseAmount: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  footer: {
+    padding: 16,
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+});
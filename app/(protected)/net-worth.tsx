@@ -0,0 +1,471 @@
+import React, { useState } from "react";
+import {
+  Alert,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import {
+  Button,
+  Card,
+  Input,
+  Modal,
+  Text,
+  TopNavigation,
+} from "@ui-kitten/components";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useRouter } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import { ThemedView } from "@/components/ThemedView";
+import { Colors } from "@/constants/Colors";
+import { useLiability } from "@/context/LiabilityContext";
+import { useLocalization } from "@/context/LocalizationContext";
+import { useProfile } from "@/context/ProfileContext";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import { useNetWorth } from "@/hooks/useNetWorth";
+import { LIABILITY_TYPES } from "@/types/liability";
+import { formatCurrency } from "@/utils/currencyUtils";
+import { getLiabilityBalance } from "@/utils/liabilityUtils";
+import { RUN_RATE_MONTHS } from "@/utils/netWorthUtils";
+import { normalizeDecimalForParsing } from "@/utils/stringUtils";
+
+// Month-end points shown in the trend
+const TREND_POINTS = 12;
+
+export default function NetWorthScreen() {
+  const router = useRouter();
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+  const { t } = useLocalization();
+  const { userProfile, updateProfile } = useProfile();
+  const { liabilities } = useLiability();
+  const {
+    currency,
+    assets,
+    liabilities: totalLiabilities,
+    netWorth,
+    history,
+    monthlySpending,
+    monthlyDebtPayments,
+    monthlyIncome,
+    savingsRate,
+  } = useNetWorth();
+
+  const [incomeModalVisible, setIncomeModalVisible] = useState(false);
+  const [incomeText, setIncomeText] = useState("");
+  const [savingIncome, setSavingIncome] = useState(false);
+
+  const today = new Date().toISOString().split("T")[0];
+  const trend = history.slice(-TREND_POINTS);
+  const maxTrendValue = Math.max(
+    ...trend.map((point) => Math.abs(point.net_worth)),
+    0,
+  );
+
+  const openIncomeModal = () => {
+    setIncomeText(monthlyIncome?.toString() || "");
+    setIncomeModalVisible(true);
+  };
+
+  const handleSaveIncome = async () => {
+    const income = incomeText.trim()
+      ? Number(normalizeDecimalForParsing(incomeText))
+      : null;
+    if (income !== null && (isNaN(income) || income < 0)) {
+      Alert.alert(t("alerts.error"), t("netWorth.incomeInvalid"));
+      return;
+    }
+
+    setSavingIncome(true);
+    try {
+      await updateProfile({
+        finances: {
+          historicalAssets: {},
+          ...userProfile?.profile.finances,
+          monthlyIncome: income,
+        },
+      });
+      setIncomeModalVisible(false);
+    } finally {
+      setSavingIncome(false);
+    }
+  };
+
+  const formatMonth = (date: string) =>
+    new Date(`${date.slice(0, 7)}-01T00:00:00`).toLocaleDateString(undefined, {
+      month: "short",
+      year: "2-digit",
+    });
+
+  const renderBackAction = () => (
+    <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+      <Ionicons name="arrow-back" size={24} color={colors.icon} />
+    </TouchableOpacity>
+  );
+
+  const renderRow = (
+    label: string,
+    value: string,
+    color?: string,
+    onPress?: () => void,
+  ) => (
+    <TouchableOpacity style={styles.row} disabled={!onPress} onPress={onPress}>
+      <Text style={[styles.label, { color: colors.icon }]}>{label}</Text>
+      <View style={styles.rowValue}>
+        <Text style={[styles.value, { color: color || colors.text }]}>
+          {value}
+        </Text>
+        {onPress && (
+          <Ionicons name="create-outline" size={16} color={colors.primary} />
+        )}
+      </View>
+    </TouchableOpacity>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <SafeAreaView style={styles.safeArea}>
+        <StatusBar
+          barStyle={colorScheme === "dark" ? "light-content" : "dark-content"}
+          backgroundColor={colors.background}
+        />
+        <TopNavigation
+          title={t("netWorth.title")}
+          alignment="center"
+          accessoryLeft={renderBackAction}
+          style={{ backgroundColor: colors.background }}
+        />
+
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          {/* Summary */}
+          <View
+            style={[
+              styles.card,
+              { backgroundColor: colors.card, shadowColor: colors.text },
+            ]}
+          >
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>
+              {t("netWorth.title")}
+            </Text>
+            <Text
+              style={[
+                styles.total,
+                { color: netWorth < 0 ? colors.error : colors.primary },
+              ]}
+            >
+              {formatCurrency(netWorth, currency)}
+            </Text>
+            {renderRow(
+              t("netWorth.assets"),
+              formatCurrency(assets, currency),
+              colors.success,
+            )}
+            {renderRow(
+              t("netWorth.liabilities"),
+              formatCurrency(totalLiabilities, currency),
+              colors.error,
+            )}
+          </View>
+
+          {/* Trend */}
+          <View
+            style={[
+              styles.card,
+              { backgroundColor: colors.card, shadowColor: colors.text },
+            ]}
+          >
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>
+              {t("netWorth.trend")}
+            </Text>
+            {trend.map((point) => (
+              <View key={point.date} style={styles.barRow}>
+                <Text style={[styles.barLabel, { color: colors.icon }]}>
+                  {formatMonth(point.date)}
+                </Text>
+                <View
+                  style={[
+                    styles.barTrack,
+                    { backgroundColor: colors.background },
+                  ]}
+                >
+                  <View
+                    style={[
+                      styles.barFill,
+                      {
+                        backgroundColor:
+                          point.net_worth < 0 ? colors.error : colors.primary,
+                        width: `${maxTrendValue > 0 ? (Math.abs(point.net_worth) / maxTrendValue) * 100 : 0}%`,
+                      },
+                    ]}
+                  />
+                </View>
+                <Text style={[styles.barValue, { color: colors.text }]}>
+                  {formatCurrency(point.net_worth, currency)}
+                </Text>
+              </View>
+            ))}
+            {trend.length < 2 && (
+              <Text style={[styles.hint, { color: colors.icon }]}>
+                {t("netWorth.trendEmpty")}
+              </Text>
+            )}
+          </View>
+
+          {/* Cash flow */}
+          <View
+            style={[
+              styles.card,
+              { backgroundColor: colors.card, shadowColor: colors.text },
+            ]}
+          >
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>
+              {t("netWorth.cashFlow")}
+            </Text>
+            {renderRow(
+              t("netWorth.monthlyIncome"),
+              monthlyIncome !== null
+                ? formatCurrency(monthlyIncome, currency)
+                : t("netWorth.notSet"),
+              undefined,
+              openIncomeModal,
+            )}
+            {renderRow(
+              t("netWorth.monthlySpending"),
+              formatCurrency(monthlySpending, currency),
+            )}
+            {renderRow(
+              t("netWorth.debtPayments"),
+              formatCurrency(monthlyDebtPayments, currency),
+            )}
+            {renderRow(
+              t("netWorth.savingsRate"),
+              savingsRate !== null ? `${savingsRate.toFixed(1)}%` : "—",
+              savingsRate === null
+                ? undefined
+                : savingsRate >= 0
+                  ? colors.success
+                  : colors.error,
+            )}
+            <Text style={[styles.hint, { color: colors.icon }]}>
+              {savingsRate !== null
+                ? t("netWorth.savingsRateHint", { months: RUN_RATE_MONTHS })
+                : t("netWorth.setIncomeHint")}
+            </Text>
+          </View>
+
+          {/* Liabilities */}
+          <View
+            style={[
+              styles.card,
+              { backgroundColor: colors.card, shadowColor: colors.text },
+            ]}
+          >
+            <View style={styles.sectionHeader}>
+              <Text style={[styles.sectionTitle, { color: colors.text }]}>
+                {t("netWorth.liabilities")}
+              </Text>
+              <TouchableOpacity
+                onPress={() => router.push("/(protected)/edit-liability")}
+              >
+                <Ionicons name="add-circle" size={24} color={colors.primary} />
+              </TouchableOpacity>
+            </View>
+            {liabilities.length === 0 ? (
+              <Text style={[styles.hint, { color: colors.icon }]}>
+                {t("liabilities.empty")}
+              </Text>
+            ) : (
+              liabilities.map((liability) => (
+                <TouchableOpacity
+                  key={liability.id}
+                  style={[
+                    styles.liabilityRow,
+                    { borderTopColor: colors.border },
+                  ]}
+                  onPress={() =>
+                    router.push({
+                      pathname: "/(protected)/liability-detail",
+                      params: { liabilityId: liability.id },
+                    })
+                  }
+                >
+                  <Ionicons
+                    name={
+                      (LIABILITY_TYPES.find(
+                        (type) => type.id === liability.data.type,
+                      )?.icon || "ellipsis-horizontal") as any
+                    }
+                    size={20}
+                    color={colors.error}
+                  />
+                  <View style={styles.liabilityInfo}>
+                    <Text
+                      style={[styles.liabilityName, { color: colors.text }]}
+                      numberOfLines={1}
+                    >
+                      {liability.data.name}
+                    </Text>
+                    <Text style={[styles.hint, { color: colors.icon }]}>
+                      {t(`liabilities.types.${liability.data.type}`)}
+                      {liability.data.interest_rate
+                        ? ` · ${liability.data.interest_rate}%`
+                        : ""}
+                    </Text>
+                  </View>
+                  <Text style={[styles.value, { color: colors.text }]}>
+                    {formatCurrency(
+                      getLiabilityBalance(liability.data, today),
+                      liability.data.currency,
+                    )}
+                  </Text>
+                </TouchableOpacity>
+              ))
+            )}
+          </View>
+        </ScrollView>
+
+        <Modal
+          visible={incomeModalVisible}
+          backdropStyle={styles.backdrop}
+          onBackdropPress={() => setIncomeModalVisible(false)}
+        >
+          <Card disabled style={styles.modalCard}>
+            <Text style={[styles.modalTitle, { color: colors.text }]}>
+              {t("netWorth.monthlyIncome")}
+            </Text>
+            <Input
+              label={t("netWorth.monthlyIncomeLabel", { currency })}
+              placeholder="0.00"
+              value={incomeText}
+              onChangeText={setIncomeText}
+              keyboardType="decimal-pad"
+              style={styles.input}
+            />
+            <Button disabled={savingIncome} onPress={handleSaveIncome}>
+              {t("netWorth.save")}
+            </Button>
+          </Card>
+        </Modal>
+      </SafeAreaView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  safeArea: {
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  card: {
+    marginBottom: 20,
+    padding: 20,
+    borderRadius: 20,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  sectionHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginBottom: 8,
+  },
+  backButton: {
+    padding: 12,
+  },
+  total: {
+    fontSize: 28,
+    fontWeight: "700",
+    marginBottom: 8,
+  },
+  hint: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  row: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingVertical: 6,
+  },
+  rowValue: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  label: {
+    fontSize: 14,
+  },
+  value: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  barRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 8,
+    gap: 8,
+  },
+  barLabel: {
+    width: 56,
+    fontSize: 12,
+  },
+  barTrack: {
+    flex: 1,
+    height: 8,
+    borderRadius: 4,
+    overflow: "hidden",
+  },
+  barFill: {
+    height: 8,
+    borderRadius: 4,
+  },
+  barValue: {
+    width: 100,
+    fontSize: 12,
+    fontWeight: "600",
+    textAlign: "right",
+  },
+  liabilityRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    paddingVertical: 10,
+    borderTopWidth: 1,
+  },
+  liabilityInfo: {
+    flex: 1,
+  },
+  liabilityName: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  backdrop: {
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+  },
+  modalCard: {
+    width: 320,
+    borderRadius: 16,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginBottom: 12,
+  },
+  input: {
+    marginBottom: 12,
+  },
+});
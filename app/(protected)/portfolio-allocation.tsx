@@ -0,0 +1,625 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  Alert,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import {
+  Button,
+  Input,
+  Spinner,
+  Text,
+  Toggle,
+  TopNavigation,
+} from "@ui-kitten/components";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import { ThemedView } from "@/components/ThemedView";
+import { Colors } from "@/constants/Colors";
+import { useInvestment } from "@/context/InvestmentContext";
+import { useLocalization } from "@/context/LocalizationContext";
+import { useProfile } from "@/context/ProfileContext";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import { apiFetchExchangeRates } from "@/services/exchangeRateService";
+import { INVESTMENT_TYPES, SECTORS } from "@/types/investment";
+import {
+  ALLOCATION_DIMENSIONS,
+  AllocationDimension,
+  TargetAllocation,
+} from "@/types/portfolio";
+import {
+  calculateAllocationDrift,
+  calculateRebalancing,
+} from "@/utils/allocationUtils";
+import { formatCurrency } from "@/utils/currencyUtils";
+import {
+  ExchangeRateTable,
+  FALLBACK_EXCHANGE_RATES,
+} from "@/utils/exchangeRateUtils";
+
+export default function PortfolioAllocationScreen() {
+  const router = useRouter();
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+  const { t } = useLocalization();
+  const { userProfile } = useProfile();
+  const { portfolios, updatePortfolio } = useInvestment();
+  const { portfolioId } = useLocalSearchParams<{ portfolioId: string }>();
+
+  const portfolio = portfolios.find((p) => p.id === portfolioId);
+  const savedAllocation = portfolio?.data.target_allocation;
+  const currency = userProfile?.profile.defaultCurrency || "EUR";
+
+  const [dimension, setDimension] = useState<AllocationDimension>(
+    savedAllocation?.dimension || "type",
+  );
+  const [targets, setTargets] = useState<{ [key: string]: string }>(() =>
+    Object.fromEntries(
+      Object.entries(savedAllocation?.targets || {}).map(([key, value]) => [
+        key,
+        value.toString(),
+      ]),
+    ),
+  );
+  const [newMoney, setNewMoney] = useState("");
+  const [buyOnly, setBuyOnly] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRateTable>(
+    FALLBACK_EXCHANGE_RATES,
+  );
+
+  useEffect(() => {
+    apiFetchExchangeRates(currency).then((result) => {
+      if (result.success && result.data) {
+        setExchangeRates(result.data);
+      }
+    });
+  }, [currency]);
+
+  const investments = useMemo(() => portfolio?.investments || [], [portfolio]);
+
+  const options = useMemo(() => {
+    switch (dimension) {
+      case "type":
+        return INVESTMENT_TYPES.map((type) => ({
+          key: type.id,
+          label: t(`investmentTypes.${type.id}`),
+        }));
+      case "sector":
+        return SECTORS.map((sector) => ({
+          key: sector.value,
+          label: t(`portfolioAllocation.sectors.${sector.value}`),
+        }));
+      case "holding":
+        return investments.map((investment) => ({
+          key: investment.id,
+          label: investment.data.name,
+        }));
+    }
+  }, [dimension, investments, t]);
+
+  const getLabel = (key: string) =>
+    options.find((option) => option.key === key)?.label || key;
+
+  const allocation: TargetAllocation = useMemo(
+    () => ({
+      dimension,
+      targets: Object.fromEntries(
+        Object.entries(targets)
+          .map(
+            ([key, value]) =>
+              [key, parseFloat(value.replace(",", "."))] as [string, number],
+          )
+          .filter(([, value]) => isFinite(value) && value > 0),
+      ),
+    }),
+    [dimension, targets],
+  );
+
+  const targetSum = Object.values(allocation.targets).reduce(
+    (sum, value) => sum + value,
+    0,
+  );
+  const isValid =
+    Object.keys(allocation.targets).length > 0 &&
+    Math.abs(targetSum - 100) < 0.01;
+
+  const drift = useMemo(
+    () =>
+      calculateAllocationDrift(
+        investments,
+        allocation,
+        currency,
+        exchangeRates,
+      ),
+    [investments, allocation, currency, exchangeRates],
+  );
+
+  const suggestions = useMemo(
+    () =>
+      isValid
+        ? calculateRebalancing(
+            investments,
+            allocation,
+            currency,
+            exchangeRates,
+            {
+              newMoney: parseFloat(newMoney.replace(",", ".")) || 0,
+              buyOnly,
+            },
+          )
+        : [],
+    [
+      isValid,
+      investments,
+      allocation,
+      currency,
+      exchangeRates,
+      newMoney,
+      buyOnly,
+    ],
+  );
+
+  const handleDimensionChange = (next: AllocationDimension) => {
+    if (next === dimension) return;
+    setDimension(next);
+    setTargets(
+      next === savedAllocation?.dimension
+        ? Object.fromEntries(
+            Object.entries(savedAllocation.targets).map(([key, value]) => [
+              key,
+              value.toString(),
+            ]),
+          )
+        : {},
+    );
+  };
+
+  const handleSave = async (targetAllocation: TargetAllocation | null) => {
+    if (!portfolio) return;
+
+    setSaving(true);
+    try {
+      const result = await updatePortfolio(portfolio.id, {
+        ...portfolio.data,
+        target_allocation: targetAllocation,
+      });
+      if (!result) {
+        Alert.alert(
+          t("portfolioAllocation.error"),
+          t("portfolioAllocation.saveFailed"),
+        );
+        return;
+      }
+      if (!targetAllocation) {
+        setTargets({});
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderBackAction = () => (
+    <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+      <Ionicons name="arrow-back" size={24} color={colors.icon} />
+    </TouchableOpacity>
+  );
+
+  if (!portfolio) {
+    return (
+      <ThemedView style={styles.container}>
+        <SafeAreaView style={styles.safeArea}>
+          <TopNavigation
+            title={t("portfolioAllocation.title")}
+            alignment="center"
+            accessoryLeft={renderBackAction}
+            style={{ backgroundColor: colors.background }}
+          />
+          <View style={styles.emptyState}>
+            <Text style={{ color: colors.icon }}>
+              {t("portfolioAllocation.portfolioNotFound")}
+            </Text>
+          </View>
+        </SafeAreaView>
+      </ThemedView>
+    );
+  }
+
+  return (
+    <ThemedView style={styles.container}>
+      <SafeAreaView style={styles.safeArea}>
+        <StatusBar
+          barStyle={colorScheme === "dark" ? "light-content" : "dark-content"}
+          backgroundColor={colors.background}
+        />
+        <TopNavigation
+          title={t("portfolioAllocation.title")}
+          subtitle={portfolio.data.name}
+          alignment="center"
+          accessoryLeft={renderBackAction}
+          style={{ backgroundColor: colors.background }}
+        />
+
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          {/* Targets */}
+          <View
+            style={[
+              styles.card,
+              { backgroundColor: colors.card, shadowColor: colors.text },
+            ]}
+          >
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>
+              {t("portfolioAllocation.targets")}
+            </Text>
+
+            <View style={styles.chipRow}>
+              {ALLOCATION_DIMENSIONS.map((option) => (
+                <TouchableOpacity
+                  key={option}
+                  style={[
+                    styles.chip,
+                    {
+                      backgroundColor:
+                        dimension === option
+                          ? colors.primary
+                          : colors.background,
+                      borderColor: colors.border,
+                    },
+                  ]}
+                  onPress={() => handleDimensionChange(option)}
+                >
+                  <Text
+                    style={[
+                      styles.chipText,
+                      { color: dimension === option ? "white" : colors.text },
+                    ]}
+                  >
+                    {t(`portfolioAllocation.dimensions.${option}`)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {options.map((option) => (
+              <View key={option.key} style={styles.targetRow}>
+                <Text
+                  style={[styles.targetLabel, { color: colors.text }]}
+                  numberOfLines={1}
+                >
+                  {option.label}
+                </Text>
+                <Input
+                  style={styles.targetInput}
+                  placeholder="0"
+                  value={targets[option.key] || ""}
+                  onChangeText={(text) =>
+                    setTargets((prev) => ({ ...prev, [option.key]: text }))
+                  }
+                  keyboardType="decimal-pad"
+                  accessoryRight={() => (
+                    <Text style={{ color: colors.icon }}>%</Text>
+                  )}
+                />
+              </View>
+            ))}
+
+            <Text
+              style={[
+                styles.sumText,
+                { color: isValid ? colors.success : colors.error },
+              ]}
+            >
+              {t("portfolioAllocation.totalTarget", {
+                total: targetSum.toFixed(1),
+              })}
+            </Text>
+
+            <View style={styles.actions}>
+              {savedAllocation && (
+                <Button
+                  appearance="outline"
+                  status="basic"
+                  style={styles.actionButton}
+                  disabled={saving}
+                  onPress={() => handleSave(null)}
+                >
+                  {t("portfolioAllocation.clear")}
+                </Button>
+              )}
+              <Button
+                style={styles.actionButton}
+                disabled={!isValid || saving}
+                onPress={() => handleSave(allocation)}
+                accessoryLeft={
+                  saving
+                    ? () => <Spinner size="small" status="control" />
+                    : undefined
+                }
+              >
+                {t("portfolioAllocation.save")}
+              </Button>
+            </View>
+          </View>
+
+          {/* Drift */}
+          {isValid && (
+            <View
+              style={[
+                styles.card,
+                { backgroundColor: colors.card, shadowColor: colors.text },
+              ]}
+            >
+              <Text style={[styles.sectionTitle, { color: colors.text }]}>
+                {t("portfolioAllocation.drift")}
+              </Text>
+
+              <View
+                style={[
+                  styles.tableHeader,
+                  { borderBottomColor: colors.border },
+                ]}
+              >
+                <Text style={[styles.nameCell, { color: colors.icon }]} />
+                <Text style={[styles.valueCell, { color: colors.icon }]}>
+                  {t("portfolioAllocation.current")}
+                </Text>
+                <Text style={[styles.valueCell, { color: colors.icon }]}>
+                  {t("portfolioAllocation.target")}
+                </Text>
+                <Text style={[styles.valueCell, { color: colors.icon }]}>
+                  {t("portfolioAllocation.difference")}
+                </Text>
+              </View>
+              {drift.rows.map((row) => (
+                <View key={row.key} style={styles.tableRow}>
+                  <Text
+                    style={[styles.nameCell, { color: colors.text }]}
+                    numberOfLines={1}
+                  >
+                    {getLabel(row.key)}
+                  </Text>
+                  <Text style={[styles.valueCell, { color: colors.text }]}>
+                    {row.currentPercentage.toFixed(1)}%
+                  </Text>
+                  <Text style={[styles.valueCell, { color: colors.text }]}>
+                    {row.targetPercentage.toFixed(1)}%
+                  </Text>
+                  <Text
+                    style={[
+                      styles.valueCell,
+                      {
+                        color:
+                          Math.abs(row.drift) < 1
+                            ? colors.icon
+                            : row.drift > 0
+                              ? colors.warning
+                              : colors.primary,
+                      },
+                    ]}
+                  >
+                    {row.drift >= 0 ? "+" : ""}
+                    {row.drift.toFixed(1)}
+                  </Text>
+                </View>
+              ))}
+              <Text style={[styles.hintText, { color: colors.icon }]}>
+                {t("portfolioAllocation.totalValue", {
+                  value: formatCurrency(drift.total, currency),
+                })}
+              </Text>
+            </View>
+          )}
+
+          {/* Rebalancing */}
+          {isValid && (
+            <View
+              style={[
+                styles.card,
+                { backgroundColor: colors.card, shadowColor: colors.text },
+              ]}
+            >
+              <Text style={[styles.sectionTitle, { color: colors.text }]}>
+                {t("portfolioAllocation.rebalancing")}
+              </Text>
+
+              <Input
+                style={styles.input}
+                label={t("portfolioAllocation.newMoney", { currency })}
+                placeholder="0"
+                value={newMoney}
+                onChangeText={setNewMoney}
+                keyboardType="decimal-pad"
+              />
+
+              <View style={styles.toggleRow}>
+                <View style={styles.toggleText}>
+                  <Text style={{ color: colors.text }}>
+                    {t("portfolioAllocation.buyOnly")}
+                  </Text>
+                  <Text style={[styles.hintText, { color: colors.icon }]}>
+                    {t("portfolioAllocation.buyOnlyDescription")}
+                  </Text>
+                </View>
+                <Toggle checked={buyOnly} onChange={setBuyOnly} />
+              </View>
+
+              {suggestions.length === 0 ? (
+                <Text style={[styles.hintText, { color: colors.icon }]}>
+                  {t("portfolioAllocation.balanced")}
+                </Text>
+              ) : (
+                suggestions.map((suggestion) => (
+                  <View key={suggestion.key} style={styles.suggestionRow}>
+                    <Ionicons
+                      name={
+                        suggestion.amount > 0
+                          ? "add-circle-outline"
+                          : "remove-circle-outline"
+                      }
+                      size={20}
+                      color={
+                        suggestion.amount > 0 ? colors.success : colors.error
+                      }
+                    />
+                    <View style={styles.suggestionText}>
+                      <Text style={{ color: colors.text }}>
+                        {t(
+                          suggestion.amount > 0
+                            ? "portfolioAllocation.buy"
+                            : "portfolioAllocation.sell",
+                          {
+                            amount: formatCurrency(
+                              Math.abs(suggestion.amount),
+                              currency,
+                            ),
+                            name: getLabel(suggestion.key),
+                          },
+                        )}
+                      </Text>
+                      <Text style={[styles.hintText, { color: colors.icon }]}>
+                        {suggestion.units !== null &&
+                          `${t("portfolioAllocation.units", {
+                            units: Math.abs(suggestion.units).toFixed(4),
+                          })} · `}
+                        {t("portfolioAllocation.resulting", {
+                          percentage: suggestion.resultingPercentage.toFixed(1),
+                        })}
+                      </Text>
+                    </View>
+                  </View>
+                ))
+              )}
+            </View>
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  safeArea: {
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  card: {
+    marginBottom: 20,
+    padding: 20,
+    borderRadius: 20,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginBottom: 16,
+  },
+  backButton: {
+    padding: 12,
+  },
+  emptyState: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  chipRow: {
+    flexDirection: "row",
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  targetRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  targetLabel: {
+    flex: 1,
+    fontSize: 14,
+    marginRight: 12,
+  },
+  targetInput: {
+    width: 110,
+  },
+  sumText: {
+    fontSize: 14,
+    fontWeight: "600",
+    textAlign: "right",
+    marginTop: 4,
+  },
+  actions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: 8,
+    marginTop: 16,
+  },
+  actionButton: {
+    borderRadius: 12,
+  },
+  tableHeader: {
+    flexDirection: "row",
+    paddingBottom: 8,
+    borderBottomWidth: 1,
+  },
+  tableRow: {
+    flexDirection: "row",
+    paddingVertical: 8,
+  },
+  nameCell: {
+    flex: 2,
+    fontSize: 14,
+  },
+  valueCell: {
+    flex: 1,
+    fontSize: 14,
+    textAlign: "right",
+  },
+  hintText: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  input: {
+    marginBottom: 16,
+    borderRadius: 12,
+  },
+  toggleRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 16,
+  },
+  toggleText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  suggestionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 8,
+    gap: 12,
+  },
+  suggestionText: {
+    flex: 1,
+  },
+});
@@ -30,6 +30,8 @@ import { InvestmentWithDecryptedData } from "@/types/investment";
 import { Ionicons } from "@expo/vector-icons";
 import { ThemedView } from "@/components/ThemedView";
 import { useColorScheme } from "@/hooks/useColorScheme";
+import { useMemberRemoval } from "@/hooks/useMemberRemoval";
+import KeyRotationStatus from "@/components/KeyRotationStatus";
 import { Colors } from "@/constants/Colors";
 import InvestmentItem from "@/components/investments/InvestmentItem";
 
@@ -54,6 +56,12 @@ export default function PortfolioDetailScreen() {
   const portfolio = useMemo(() => {
     return portfolios.find((p) => p.id === id);
   }, [portfolios, id]);
+  const memberRemoval = useMemberRemoval(
+    "portfolio",
+    portfolio?.id,
+    removeUserFromPortfolio,
+    portfolio?.data?.key_rotation,
+  );
 
   const navigateBack = () => {
     router.back();
@@ -118,10 +126,7 @@ export default function PortfolioDetailScreen() {
           style: "destructive",
           onPress: async () => {
             try {
-              const result = await removeUserFromPortfolio(
-                portfolio.id,
-                userId,
-              );
+              const result = await memberRemoval.remove(userId);
               if (!result.success) {
                 Alert.alert(
                   t("portfolioDetail.error"),
@@ -144,6 +149,16 @@ export default function PortfolioDetailScreen() {
     );
   };
 
+  const handleResumeKeyRotation = async () => {
+    const result = await memberRemoval.resume();
+    if (!result.success) {
+      Alert.alert(
+        t("portfolioDetail.error"),
+        result.error || t("portfolioDetail.removeMemberFailed"),
+      );
+    }
+  };
+
   const handleInvitation = async (accept: boolean) => {
     if (!portfolio) return;
 
@@ -378,6 +393,32 @@ export default function PortfolioDetailScreen() {
                     {t("portfolioDetail.seeMoreStats")}
                   </Text>
                 </TouchableOpacity>
+                <TouchableOpacity
+                  style={[
+                    styles.statsButton,
+                    {
+                      backgroundColor: colors.background,
+                      borderColor: colors.border,
+                    },
+                  ]}
+                  onPress={() =>
+                    router.push({
+                      pathname: "/(protected)/portfolio-allocation",
+                      params: { portfolioId: portfolio.id },
+                    })
+                  }
+                >
+                  <Ionicons
+                    name="pie-chart-outline"
+                    size={16}
+                    color={colors.primary}
+                  />
+                  <Text
+                    style={[styles.statsButtonText, { color: colors.primary }]}
+                  >
+                    {t("portfolioDetail.targetAllocation")}
+                  </Text>
+                </TouchableOpacity>
               </View>
             </View>
 
@@ -445,6 +486,11 @@ export default function PortfolioDetailScreen() {
               </Tab>
               <Tab title={t("portfolioDetail.members")}>
                 <Layout style={styles.tabContent}>
+                  <KeyRotationStatus
+                    progress={memberRemoval.progress}
+                    pendingRotation={memberRemoval.pendingRotation}
+                    onResume={handleResumeKeyRotation}
+                  />
                   <Layout style={styles.membersHeader}>
                     <Text category="h6" style={styles.membersTitle}>
                       {t("portfolioDetail.portfolioMembers")}
@@ -454,6 +454,58 @@ export default function ProfileScreen() {
             </View>
             <Ionicons name="chevron-forward" size={20} color={colors.icon} />
           </TouchableOpacity>
+
+          <View style={[styles.divider, { backgroundColor: colors.border }]} />
+
+          <TouchableOpacity
+            style={styles.preferenceRow}
+            onPress={() => router.push("/(protected)/backup")}
+          >
+            <View style={styles.infoLabel}>
+              <View
+                style={[
+                  styles.iconContainer,
+                  { backgroundColor: colors.primary + "20" },
+                ]}
+              >
+                <Ionicons
+                  name="download-outline"
+                  size={20}
+                  color={colors.primary}
+                />
+              </View>
+              <Text style={[styles.labelText, { color: colors.text }]}>
+                {t("profile.exportEverything")}
+              </Text>
+            </View>
+            <Ionicons name="chevron-forward" size={20} color={colors.icon} />
+          </TouchableOpacity>
+
+          <View style={[styles.divider, { backgroundColor: colors.border }]} />
+
+          <TouchableOpacity
+            style={styles.preferenceRow}
+            onPress={() => router.push("/(protected)/backup")}
+          >
+            <View style={styles.infoLabel}>
+              <View
+                style={[
+                  styles.iconContainer,
+                  { backgroundColor: colors.secondary + "20" },
+                ]}
+              >
+                <Ionicons
+                  name="cloud-upload-outline"
+                  size={20}
+                  color={colors.secondary}
+                />
+              </View>
+              <Text style={[styles.labelText, { color: colors.text }]}>
+                {t("profile.restoreBackup")}
+              </Text>
+            </View>
+            <Ionicons name="chevron-forward" size={20} color={colors.icon} />
+          </TouchableOpacity>
         </View>
 
         {/* About */}
@@ -17,6 +17,7 @@ import { useAuth } from "@/context/AuthContext";
 import { useProfile } from "@/context/ProfileContext";
 import { useLocalization } from "@/context/LocalizationContext";
 import {
+  RecurringExpenseData,
   RecurringExpenseWithDecryptedData,
   getCategoryDisplayInfo,
   getPaymentMethodDisplayInfo,
@@ -25,6 +26,10 @@ import {
 import { ThemedView } from "@/components/ThemedView";
 import { useColorScheme } from "@/hooks/useColorScheme";
 import { Colors } from "@/constants/Colors";
+import {
+  describeRecurrenceRule,
+  getRecurrenceRule,
+} from "@/utils/recurrenceUtils";
 
 export default function RecurringExpenseDetailScreen() {
   const router = useRouter();
@@ -127,15 +132,8 @@ export default function RecurringExpenseDetailScreen() {
     }
   };
 
-  const getIntervalDisplay = (interval: string) => {
-    const intervalMap = {
-      daily: t("recurringExpenseDetail.daily"),
-      weekly: t("recurringExpenseDetail.weekly"),
-      monthly: t("recurringExpenseDetail.monthly"),
-      yearly: t("recurringExpenseDetail.yearly"),
-    };
-    return intervalMap[interval as keyof typeof intervalMap] || interval;
-  };
+  const getIntervalDisplay = (data: RecurringExpenseData) =>
+    describeRecurrenceRule(getRecurrenceRule(data), t);
 
   const formatNextDueDate = (dateString: string) => {
     try {
@@ -248,8 +246,7 @@ export default function RecurringExpenseDetailScreen() {
                   {recurringExpense.data.name}
                 </Text>
                 <Text style={[styles.groupName, { color: colors.icon }]}>
-                  {groupName} •{" "}
-                  {getIntervalDisplay(recurringExpense.data.interval)}
+                  {groupName} • {getIntervalDisplay(recurringExpense.data)}
                 </Text>
                 <View style={styles.statusBadge}>
                   <View
@@ -309,7 +306,7 @@ export default function RecurringExpenseDetailScreen() {
                 {t("recurringExpenseDetail.frequency")}
               </Text>
               <Text style={[styles.detailValue, { color: colors.text }]}>
-                {getIntervalDisplay(recurringExpense.data.interval)}
+                {getIntervalDisplay(recurringExpense.data)}
               </Text>
             </View>
             <View style={styles.detailRow}>
@@ -424,7 +421,9 @@ export default function RecurringExpenseDetailScreen() {
                     ? t("recurringExpenseDetail.splitEqually")
                     : recurringExpense.data.split_method === "custom"
                       ? t("recurringExpenseDetail.customAmounts")
-                      : t("recurringExpenseDetail.byPercentage")}
+                      : recurringExpense.data.split_method === "shares"
+                        ? t("recurringExpenseDetail.byShares")
+                        : t("recurringExpenseDetail.byPercentage")}
                 </Text>
               </View>
             )}
@@ -79,3 +79,17 @@ export const getHttpClient = (): AxiosInstance => {
 export const resetHttpClient = (): void => {
   httpClient = null;
 };
+
+/**
+ * True when a request failed without reaching the server (offline, DNS,
+ * timeout), as opposed to the server rejecting it
+ */
+export const isNetworkError = (error: any): boolean => {
+  if (!error || error.response) return false;
+  return (
+    error.code === "ERR_NETWORK" ||
+    error.code === "ECONNABORTED" ||
+    error.message === "Network Error" ||
+    !!error.request
+  );
+};
@@ -5,7 +5,11 @@ import {
   VersionCheckResponse,
   VersionCheckRequest,
 } from "@/types/version";
-import { InvestmentLookupResultV2 } from "@/types/investment";
+import {
+  DividendScheduleLookupResult,
+  InvestmentLookupResultV2,
+} from "@/types/investment";
+import { ExchangeRateTable } from "@/utils/exchangeRateUtils";
 import { IconProps } from "@ui-kitten/components";
 
 const BASE_URL = process.env.EXPO_PUBLIC_PIGGUS_API_URL || "";
@@ -81,6 +85,32 @@ export interface RecurringExpense {
   updated_at: string;
 }
 
+// Liability Types
+export interface Liability {
+  id: string;
+  user_id: string;
+  encrypted_data: any;
+  created_at: string;
+  updated_at: string;
+}
+
+// Attachment Types
+export interface Attachment {
+  id: string;
+  group_id: string;
+  encrypted_data: string;
+  created_at: string;
+}
+
+// Activity Types
+export interface GroupActivity {
+  id: string;
+  group_id: string;
+  user_id: string;
+  encrypted_data: string;
+  created_at: string;
+}
+
 // Guide Types
 export interface Guide {
   id: string;
@@ -250,6 +280,13 @@ export interface PiggusApi {
     groupId: string,
     expenseId: string,
   ) => Promise<{ success: boolean }>;
+  moveExpenses: (
+    groupId: string,
+    data: {
+      toGroupId: string;
+      expenses: { id: string; encryptedData: any; created_at?: string }[];
+    },
+  ) => Promise<Expense[]>;
   inviteToExpenseGroup: (
     groupId: string,
     data: { username: string; encryptedGroupKey: string },
@@ -262,6 +299,10 @@ export interface PiggusApi {
     groupId: string,
     userId: string,
   ) => Promise<{ success: boolean }>;
+  updateExpenseGroupMemberKeys: (
+    groupId: string,
+    data: { memberKeys: { userId: string; encryptedGroupKey: string }[] },
+  ) => Promise<{ success: boolean }>;
 
   // Portfolio Methods
   getPortfolios: () => Promise<
@@ -307,6 +348,10 @@ export interface PiggusApi {
     portfolioId: string,
     userId: string,
   ) => Promise<{ success: boolean }>;
+  updatePortfolioMemberKeys: (
+    portfolioId: string,
+    data: { memberKeys: { userId: string; encryptedPortfolioKey: string }[] },
+  ) => Promise<{ success: boolean }>;
   lookupInvestmentBySymbol: (
     symbol: string,
     exchangeMarket: string,
@@ -316,6 +361,10 @@ export interface PiggusApi {
   searchSymbolsWithQuotes: (
     symbol: string,
   ) => Promise<InvestmentLookupResultV2[]>;
+  lookupDividendSchedule: (
+    symbol: string,
+    exchangeMarket: string,
+  ) => Promise<DividendScheduleLookupResult | null>;
 
   // Profile Methods
   getProfile: () => Promise<Profile>;
@@ -360,6 +409,48 @@ export interface PiggusApi {
     },
   ) => Promise<{ expense: any; updatedRecurring: RecurringExpense }>;
 
+  // Liability Methods
+  getLiabilities: () => Promise<Liability[]>;
+  createLiability: (data: {
+    liabilityId: string;
+    encryptedData: any;
+  }) => Promise<Liability>;
+  updateLiability: (
+    liabilityId: string,
+    data: { encryptedData: any },
+  ) => Promise<Liability>;
+  deleteLiability: (liabilityId: string) => Promise<{ success: boolean }>;
+
+  // Attachment Methods
+  uploadAttachment: (
+    groupId: string,
+    data: { attachmentId: string; encryptedData: string },
+  ) => Promise<Attachment>;
+  replaceAttachment: (
+    groupId: string,
+    attachmentId: string,
+    data: { encryptedData: string },
+  ) => Promise<Attachment>;
+  getAttachment: (groupId: string, attachmentId: string) => Promise<Attachment>;
+  deleteAttachment: (
+    groupId: string,
+    attachmentId: string,
+  ) => Promise<{ success: boolean }>;
+
+  // Activity Methods
+  getGroupActivity: (
+    groupId: string,
+    params?: { limit?: number; before?: string },
+  ) => Promise<GroupActivity[]>;
+  addGroupActivity: (
+    groupId: string,
+    data: { activityId: string; encryptedData: string },
+  ) => Promise<GroupActivity>;
+  updateGroupActivity: (
+    groupId: string,
+    data: { entries: { id: string; encryptedData: string }[] },
+  ) => Promise<{ success: boolean }>;
+
   // Guide Methods
   getGuides: (language?: string) => Promise<Guide[]>;
   getGuide: (guideId: string) => Promise<Guide>;
@@ -395,6 +486,9 @@ export interface PiggusApi {
     }[],
   ) => Promise<Expense[]>;
 
+  // Exchange Rate Methods
+  getExchangeRates: (base: string, date?: string) => Promise<ExchangeRateTable>;
+
   // Subscription Methods
   getSubscription: () => Promise<Subscription>;
   updateSubscription: (
@@ -521,6 +615,19 @@ export const piggusApi: PiggusApi = {
     return response.data;
   },
 
+  // Moves expenses to another group in one transaction, keeping their ids
+  moveExpenses: async (groupId: string, data) => {
+    const httpClient = getHttpClient();
+    const response = await httpClient.post(
+      `${BASE_URL}/api/v1/expense-groups/${groupId}/expenses/move`,
+      data,
+      {
+        timeout: 60000,
+      },
+    );
+    return response.data;
+  },
+
   inviteToExpenseGroup: async (groupId: string, data) => {
     const httpClient = getHttpClient();
     const response = await httpClient.post(
@@ -547,6 +654,15 @@ export const piggusApi: PiggusApi = {
     return response.data;
   },
 
+  updateExpenseGroupMemberKeys: async (groupId: string, data) => {
+    const httpClient = getHttpClient();
+    const response = await httpClient.put(
+      `${BASE_URL}/api/v1/expense-groups/${groupId}/members/keys`,
+      data,
+    );
+    return response.data;
+  },
+
   // Portfolio Methods
   getPortfolios: async () => {
     const httpClient = getHttpClient();
@@ -640,6 +756,15 @@ export const piggusApi: PiggusApi = {
     return response.data;
   },
 
+  updatePortfolioMemberKeys: async (portfolioId: string, data) => {
+    const httpClient = getHttpClient();
+    const response = await httpClient.put(
+      `${BASE_URL}/api/v1/portfolios/${portfolioId}/members/keys`,
+      data,
+    );
+    return response.data;
+  },
+
   searchSymbolsWithQuotes: async (symbol: string) => {
     const httpClient = getHttpClient();
     const response = await httpClient.get(
@@ -660,6 +785,13 @@ export const piggusApi: PiggusApi = {
     return response.data;
   },
 
+  lookupDividendSchedule: async (symbol: string, exchangeMarket: string) => {
+    const httpClient = getHttpClient();
+    const url = `${BASE_URL}/api/v1/portfolios/lookup/dividends/${symbol}?exchangeMarket=${exchangeMarket}`;
+    const response = await httpClient.get(url);
+    return response.data;
+  },
+
   // Profile Methods
   getProfile: async () => {
     const httpClient = getHttpClient();
@@ -738,6 +870,114 @@ export const piggusApi: PiggusApi = {
     return response.data;
   },
 
+  // Liability Methods
+  getLiabilities: async () => {
+    const httpClient = getHttpClient();
+    const response = await httpClient.get(`${BASE_URL}/api/v1/liabilities`);
+    return response.data;
+  },
+
+  createLiability: async (data) => {
+    const httpClient = getHttpClient();
+    const response = await httpClient.post(
+      `${BASE_URL}/api/v1/liabilities`,
+      data,
+    );
+    return response.data;
+  },
+
+  updateLiability: async (liabilityId: string, data) => {
+    const httpClient = getHttpClient();
+    const response = await httpClient.put(
+      `${BASE_URL}/api/v1/liabilities/${liabilityId}`,
+      data,
+    );
+    return response.data;
+  },
+
+  deleteLiability: async (liabilityId: string) => {
+    const httpClient = getHttpClient();
+    const response = await httpClient.delete(
+      `${BASE_URL}/api/v1/liabilities/${liabilityId}`,
+    );
+    return response.data;
+  },
+
+  // Attachment Methods
+  uploadAttachment: async (groupId: string, data) => {
+    const httpClient = getHttpClient();
+    const response = await httpClient.post(
+      `${BASE_URL}/api/v1/expense-groups/${groupId}/attachments`,
+      data,
+    );
+    return response.data;
+  },
+
+  replaceAttachment: async (
+    groupId: string,
+    attachmentId: string,
+    data: { encryptedData: string },
+  ) => {
+    const httpClient = getHttpClient();
+    const response = await httpClient.put(
+      `${BASE_URL}/api/v1/expense-groups/${groupId}/attachments/${attachmentId}`,
+      data,
+    );
+    return response.data;
+  },
+
+  getAttachment: async (groupId: string, attachmentId: string) => {
+    const httpClient = getHttpClient();
+    const response = await httpClient.get(
+      `${BASE_URL}/api/v1/expense-groups/${groupId}/attachments/${attachmentId}`,
+    );
+    return response.data;
+  },
+
+  deleteAttachment: async (groupId: string, attachmentId: string) => {
+    const httpClient = getHttpClient();
+    const response = await httpClient.delete(
+      `${BASE_URL}/api/v1/expense-groups/${groupId}/attachments/${attachmentId}`,
+    );
+    return response.data;
+  },
+
+  // Activity Methods
+  getGroupActivity: async (groupId: string, params) => {
+    const httpClient = getHttpClient();
+    const searchParams = new URLSearchParams();
+    if (params?.limit) {
+      searchParams.append("limit", params.limit.toString());
+    }
+    if (params?.before) {
+      searchParams.append("before", params.before);
+    }
+
+    const query = searchParams.toString();
+    const response = await httpClient.get(
+      `${BASE_URL}/api/v1/expense-groups/${groupId}/activity${query ? `?${query}` : ""}`,
+    );
+    return response.data;
+  },
+
+  addGroupActivity: async (groupId: string, data) => {
+    const httpClient = getHttpClient();
+    const response = await httpClient.post(
+      `${BASE_URL}/api/v1/expense-groups/${groupId}/activity`,
+      data,
+    );
+    return response.data;
+  },
+
+  updateGroupActivity: async (groupId: string, data) => {
+    const httpClient = getHttpClient();
+    const response = await httpClient.put(
+      `${BASE_URL}/api/v1/expense-groups/${groupId}/activity`,
+      data,
+    );
+    return response.data;
+  },
+
   // Guide Methods
   getGuides: async (language?: string) => {
     const httpClient = getHttpClient();
@@ -859,6 +1099,19 @@ export const piggusApi: PiggusApi = {
     }
   },
 
+  // Exchange Rate Methods
+  getExchangeRates: async (base: string, date?: string) => {
+    const httpClient = getHttpClient();
+    const searchParams = new URLSearchParams({ base });
+    if (date) {
+      searchParams.append("date", date);
+    }
+    const response = await httpClient.get(
+      `${BASE_URL}/api/v1/exchange-rates?${searchParams.toString()}`,
+    );
+    return response.data.data;
+  },
+
   // Subscription Methods
   getSubscription: async () => {
     const httpClient = getHttpClient();
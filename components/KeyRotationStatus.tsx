@@ -0,0 +1,127 @@
+import { Colors } from "@/constants/Colors";
+import { useLocalization } from "@/context/LocalizationContext";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import {
+  KeyRotationProgress,
+  PendingKeyRotation,
+} from "@/services/keyRotationService";
+import { Ionicons } from "@expo/vector-icons";
+import { Button, Card, Modal, Spinner, Text } from "@ui-kitten/components";
+import React from "react";
+import { StyleSheet, View } from "react-native";
+
+interface KeyRotationStatusProps {
+  progress: KeyRotationProgress | null;
+  pendingRotation?: PendingKeyRotation;
+  onResume: () => void;
+}
+
+/**
+ * Progress of a running key rotation and a resume prompt for one that was
+ * interrupted
+ */
+function KeyRotationStatus({
+  progress,
+  pendingRotation,
+  onResume,
+}: KeyRotationStatusProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+  const { t } = useLocalization();
+
+  return (
+    <>
+      {pendingRotation && !progress && (
+        <View
+          style={[
+            styles.banner,
+            { backgroundColor: colors.card, borderColor: colors.warning },
+          ]}
+        >
+          <View style={styles.bannerHeader}>
+            <Ionicons name="warning-outline" size={20} color={colors.warning} />
+            <Text style={[styles.bannerTitle, { color: colors.text }]}>
+              {t("keyRotation.pendingTitle")}
+            </Text>
+          </View>
+          <Text category="c1" appearance="hint" style={styles.bannerText}>
+            {t("keyRotation.pendingDescription")}
+          </Text>
+          <Button size="small" status="warning" onPress={onResume}>
+            {t("keyRotation.resume")}
+          </Button>
+        </View>
+      )}
+
+      <Modal visible={!!progress} backdropStyle={styles.backdrop}>
+        <Card disabled={true} style={styles.modalCard}>
+          <View style={styles.modalContent}>
+            <Spinner size="large" />
+            <Text category="h6" style={styles.modalTitle}>
+              {t("keyRotation.title")}
+            </Text>
+            {progress && (
+              <>
+                <Text category="s1" appearance="hint">
+                  {t(`keyRotation.stages.${progress.stage}`)}
+                </Text>
+                {progress.total > 1 && (
+                  <Text category="c1" appearance="hint">
+                    {t("keyRotation.progress", {
+                      processed: progress.processed,
+                      total: progress.total,
+                    })}
+                  </Text>
+                )}
+              </>
+            )}
+            <Text category="c1" appearance="hint" style={styles.modalHint}>
+              {t("keyRotation.keepOpen")}
+            </Text>
+          </View>
+        </Card>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+  },
+  bannerHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 4,
+  },
+  bannerTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    marginLeft: 8,
+  },
+  bannerText: {
+    marginBottom: 12,
+  },
+  backdrop: {
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+  },
+  modalCard: {
+    minWidth: 280,
+  },
+  modalContent: {
+    alignItems: "center",
+    gap: 8,
+  },
+  modalTitle: {
+    marginTop: 8,
+  },
+  modalHint: {
+    marginTop: 8,
+    textAlign: "center",
+  },
+});
+
+export default KeyRotationStatus;
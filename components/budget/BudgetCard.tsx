@@ -14,11 +14,13 @@ import { useRouter } from "expo-router";
 import { useExpense } from "@/context/ExpenseContext";
 import { useProfile } from "@/context/ProfileContext";
 import { useAuth } from "@/context/AuthContext";
-import { calculateUserShare } from "@/types/expense";
+import { calculateUserShareInCurrency } from "@/types/expense";
 import { useColorScheme } from "@/hooks/useColorScheme";
 import { Colors } from "@/constants/Colors";
 import { useLocalization } from "@/context/LocalizationContext";
 import { formatCurrency } from "@/utils/currencyUtils";
+import { getExpenseConversionFactor } from "@/utils/exchangeRateUtils";
+import { useCategoryBudgets } from "@/hooks/useCategoryBudgets";
 
 interface BudgetCardProps {
   selectedMonth?: string; // 'current' for default behavior, or specific month like '2025-05'
@@ -34,13 +36,15 @@ export default function BudgetCard({
   const colors = Colors[colorScheme ?? "light"];
   const { t } = useLocalization();
   const { user } = useAuth();
-  const { expensesGroups, recurringExpenses } = useExpense();
+  const { expensesGroups, recurringExpenses, exchangeRates } = useExpense();
   const { userProfile, updateProfile } = useProfile();
   const [budgetModalVisible, setBudgetModalVisible] = useState(false);
   const [budgetAmount, setBudgetAmount] = useState(
     userProfile?.profile?.budgeting?.budget?.amount?.toString() || "",
   );
   const [savingBudget, setSavingBudget] = useState(false);
+  const { statuses: categoryBudgetStatuses, alerts: categoryBudgetAlerts } =
+    useCategoryBudgets(selectedMonth);
 
   // Update budget amount when userProfile changes
   useEffect(() => {
@@ -49,7 +53,9 @@ export default function BudgetCard({
     );
   }, [userProfile?.profile?.budgeting?.budget?.amount]);
 
-  // Calculate expenses for the selected period - only user's share
+  const defaultCurrency = userProfile?.profile?.defaultCurrency || "EUR";
+
+  // Calculate expenses for the selected period - only user's share, in the profile currency
   const currentMonthData = useMemo(() => {
     const now = new Date();
     let totalSpent = 0;
@@ -80,7 +86,13 @@ export default function BudgetCard({
 
           if (includeExpense) {
             // Only count user's share of the expense
-            const userShare = calculateUserShare(expense, user?.id || "");
+            const userShare = calculateUserShareInCurrency(
+              expense,
+              user?.id || "",
+              defaultCurrency,
+              group.data?.currency,
+              exchangeRates,
+            );
             if (userShare > 0) {
               totalSpent += userShare;
               transactionCount++;
@@ -120,12 +132,19 @@ export default function BudgetCard({
             (p) => p.user_id === user?.id,
           );
           if (userParticipant && userParticipant.share_amount > 0) {
-            totalSpent += userParticipant.share_amount;
+            const userShare =
+              userParticipant.share_amount *
+              getExpenseConversionFactor(
+                recurringExpense.data,
+                defaultCurrency,
+                group.data?.currency,
+                exchangeRates,
+              );
+            totalSpent += userShare;
             transactionCount++;
 
             const category = recurringExpense.data.category || "other";
-            categories[category] =
-              (categories[category] || 0) + userParticipant.share_amount;
+            categories[category] = (categories[category] || 0) + userShare;
           }
         }
       });
@@ -143,12 +162,18 @@ export default function BudgetCard({
       transactionCount,
       topCategory: topCategory.category !== "none" ? topCategory : null,
     };
-  }, [expensesGroups, recurringExpenses, user?.id, selectedMonth]);
+  }, [
+    expensesGroups,
+    recurringExpenses,
+    user?.id,
+    selectedMonth,
+    defaultCurrency,
+    exchangeRates,
+  ]);
 
   // Get budget information from profile
   const budget = userProfile?.profile?.budgeting?.budget;
   const budgetAmount_profile = budget?.amount || 0;
-  const defaultCurrency = userProfile?.profile?.defaultCurrency || "EUR";
   const budgetRemaining = budgetAmount_profile - currentMonthData.totalSpent;
   const budgetPercentUsed =
     budgetAmount_profile > 0
@@ -169,6 +194,7 @@ export default function BudgetCard({
     try {
       await updateProfile({
         budgeting: {
+          ...userProfile?.profile?.budgeting,
           budget: {
             amount: Number(budgetAmount),
             period: "monthly",
@@ -285,6 +311,59 @@ export default function BudgetCard({
               </View>
             </View>
 
+            {categoryBudgetAlerts.length > 0 && (
+              <TouchableOpacity
+                style={[
+                  styles.alertRow,
+                  { backgroundColor: colors.error + "15" },
+                ]}
+                onPress={() =>
+                  router.push({
+                    pathname: "/(protected)/budget-detail",
+                    params: { month: selectedMonth },
+                  })
+                }
+              >
+                <Ionicons
+                  name="warning-outline"
+                  size={16}
+                  color={colors.error}
+                />
+                <Text style={[styles.alertText, { color: colors.error }]}>
+                  {t("budget.categoryAlerts", {
+                    count: categoryBudgetAlerts.length,
+                  })}
+                </Text>
+              </TouchableOpacity>
+            )}
+
+            <TouchableOpacity
+              style={[
+                styles.statsButton,
+                {
+                  backgroundColor: colors.background,
+                  borderColor: colors.border,
+                },
+              ]}
+              onPress={() =>
+                router.push({
+                  pathname: "/(protected)/budget-detail",
+                  params: { month: selectedMonth },
+                })
+              }
+            >
+              <Ionicons
+                name="pie-chart-outline"
+                size={16}
+                color={colors.primary}
+              />
+              <Text style={[styles.statsButtonText, { color: colors.primary }]}>
+                {categoryBudgetStatuses.length > 0
+                  ? t("budget.categoryBudgets")
+                  : t("budget.setCategoryBudgets")}
+              </Text>
+            </TouchableOpacity>
+
             {/* See more stats button */}
             <TouchableOpacity
               style={[
@@ -497,6 +576,20 @@ const styles = StyleSheet.create({
     marginTop: 16,
     gap: 6,
   },
+  alertRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 12,
+    marginTop: 16,
+    gap: 8,
+  },
+  alertText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: "500",
+  },
   statsButtonText: {
     fontSize: 14,
     fontWeight: "600",
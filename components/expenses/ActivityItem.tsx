@@ -0,0 +1,216 @@
+import { Colors } from "@/constants/Colors";
+import { useLocalization } from "@/context/LocalizationContext";
+import { useProfile } from "@/context/ProfileContext";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import {
+  ActivityFieldChange,
+  ExpenseParticipant,
+  GroupActivityType,
+  GroupActivityWithDecryptedData,
+  getCategoryDisplayInfo,
+  getPaymentMethodDisplayInfo,
+} from "@/types/expense";
+import { formatCurrency } from "@/utils/currencyUtils";
+import { formatDate } from "@/utils/dateUtils";
+import { Ionicons } from "@expo/vector-icons";
+import { Text } from "@ui-kitten/components";
+import React, { useState } from "react";
+import { StyleSheet, TouchableOpacity, View } from "react-native";
+
+// Fields that repeat another field or are filled in automatically
+const HIDDEN_FIELDS = [
+  "payer_user_id",
+  "exchange_rate",
+  "receipt_url",
+  "deleted_at",
+];
+
+const ACTIVITY_ICONS: Record<
+  GroupActivityType,
+  keyof typeof Ionicons.glyphMap
+> = {
+  expense_created: "add-circle-outline",
+  expense_updated: "create-outline",
+  expense_deleted: "trash-outline",
+  expense_restored: "arrow-undo-outline",
+  expense_purged: "remove-circle-outline",
+  expense_moved_in: "enter-outline",
+  expense_moved_out: "exit-outline",
+  refund_created: "cash-outline",
+  refund_updated: "cash-outline",
+  refund_deleted: "cash-outline",
+  member_invited: "mail-outline",
+  member_joined: "person-add-outline",
+  member_declined: "close-circle-outline",
+  member_removed: "person-remove-outline",
+};
+
+interface ActivityItemProps {
+  activity: GroupActivityWithDecryptedData;
+  members: { user_id: string; username: string }[];
+  groupNames: { [groupId: string]: string };
+}
+
+/**
+ * Entry of a group's activity feed: who did what, and the fields it changed
+ */
+export default function ActivityItem({
+  activity,
+  members,
+  groupNames,
+}: ActivityItemProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+  const { t } = useLocalization();
+  const { userProfile } = useProfile();
+  const [expanded, setExpanded] = useState(false);
+
+  const { data } = activity;
+  const currency = data.currency;
+
+  const getUsername = (userId?: string) =>
+    members.find((member) => member.user_id === userId)?.username ||
+    t("common.unknownUser");
+
+  const formatValue = (field: string, value: any): string => {
+    if (value === undefined || value === null || value === "") return "—";
+    switch (field) {
+      case "amount":
+        return formatCurrency(value, currency);
+      case "category":
+        return getCategoryDisplayInfo(
+          value,
+          userProfile?.profile?.budgeting?.categoryOverrides,
+        ).name;
+      case "payment_method":
+        return getPaymentMethodDisplayInfo(value).name;
+      case "from_user_id":
+      case "to_user_id":
+        return getUsername(value);
+      case "participants":
+        return (value as ExpenseParticipant[])
+          .map(
+            (participant) =>
+              `${participant.username} ${formatCurrency(participant.share_amount, currency)}`,
+          )
+          .join(", ");
+      case "receipt":
+        return t("activity.values.attached");
+      case "itemization":
+        return t("activity.values.items", {
+          count: value.items?.length || 0,
+        });
+      case "split_method":
+        return t(`addExpense.splitMethods.${value}`, { defaultValue: value });
+    }
+    if (typeof value === "boolean") {
+      return value ? t("activity.values.yes") : t("activity.values.no");
+    }
+    return typeof value === "object" ? JSON.stringify(value) : String(value);
+  };
+
+  const changes = (data.changes || []).filter(
+    (change: ActivityFieldChange) => !HIDDEN_FIELDS.includes(change.field),
+  );
+  const title = t(`activity.types.${data.type}`, {
+    actor: getUsername(activity.user_id),
+    subject: data.subject || t("activity.untitled"),
+    group:
+      (data.other_group_id && groupNames[data.other_group_id]) ||
+      t("common.unknownGroup"),
+  });
+
+  return (
+    <View style={[styles.container, { borderBottomColor: colors.border }]}>
+      <View style={[styles.icon, { backgroundColor: colors.primary + "15" }]}>
+        <Ionicons
+          name={ACTIVITY_ICONS[data.type] || "ellipse-outline"}
+          size={18}
+          color={colors.primary}
+        />
+      </View>
+      <View style={styles.content}>
+        <Text style={[styles.title, { color: colors.text }]}>{title}</Text>
+        <Text style={[styles.meta, { color: colors.icon }]}>
+          {formatDate(activity.created_at)}
+          {data.amount !== undefined
+            ? ` · ${formatCurrency(data.amount, currency)}`
+            : ""}
+        </Text>
+
+        {changes.length > 0 && (
+          <TouchableOpacity
+            style={styles.toggle}
+            onPress={() => setExpanded(!expanded)}
+          >
+            <Text style={[styles.toggleText, { color: colors.primary }]}>
+              {expanded
+                ? t("activity.hideChanges")
+                : t("activity.showChanges", { count: changes.length })}
+            </Text>
+          </TouchableOpacity>
+        )}
+
+        {expanded &&
+          changes.map((change) => (
+            <View key={change.field} style={styles.change}>
+              <Text style={[styles.changeField, { color: colors.icon }]}>
+                {t(`activity.fields.${change.field}`, {
+                  defaultValue: change.field,
+                })}
+              </Text>
+              <Text style={[styles.changeValue, { color: colors.text }]}>
+                {formatValue(change.field, change.before)} →{" "}
+                {formatValue(change.field, change.after)}
+              </Text>
+            </View>
+          ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  icon: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: "center",
+    justifyContent: "center",
+    marginRight: 12,
+  },
+  content: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: "500",
+  },
+  meta: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  toggle: {
+    marginTop: 6,
+    alignSelf: "flex-start",
+  },
+  toggleText: {
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  change: {
+    marginTop: 6,
+  },
+  changeField: {
+    fontSize: 12,
+  },
+  changeValue: {
+    fontSize: 13,
+  },
+});
@@ -0,0 +1,341 @@
+import { Colors } from "@/constants/Colors";
+import { useLocalization } from "@/context/LocalizationContext";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import {
+  ExpenseItemization,
+  ExpenseLineItem,
+  ExpenseParticipant,
+} from "@/types/expense";
+import { formatCurrency } from "@/utils/currencyUtils";
+import {
+  calculateItemizedShares,
+  getItemizationSubtotal,
+  getItemizationTotal,
+  getUnassignedItems,
+} from "@/utils/itemizationUtils";
+import { normalizeDecimalForParsing } from "@/utils/stringUtils";
+import { Ionicons } from "@expo/vector-icons";
+import { Button, Input, Text } from "@ui-kitten/components";
+import React, { useState } from "react";
+import { StyleSheet, TouchableOpacity, View } from "react-native";
+import { v4 as uuidv4 } from "uuid";
+
+type ItemRow = {
+  id: string;
+  name: string;
+  price: string;
+  quantity: string;
+  participant_ids: string[];
+};
+
+type ExtraField = "tax" | "tip" | "service_charge";
+
+const EXTRA_FIELDS: ExtraField[] = ["tax", "tip", "service_charge"];
+
+interface ItemizedSplitEditorProps {
+  members: Pick<ExpenseParticipant, "user_id" | "username">[];
+  initialValue?: ExpenseItemization;
+  currency: string;
+  onChange: (itemization: ExpenseItemization) => void;
+}
+
+const parseAmount = (value: string) => {
+  const parsed = Number(normalizeDecimalForParsing(value));
+  return isNaN(parsed) || parsed < 0 ? 0 : parsed;
+};
+
+const toItemRow = (item: ExpenseLineItem): ItemRow => ({
+  id: item.id,
+  name: item.name,
+  price: item.price.toString(),
+  quantity: item.quantity.toString(),
+  participant_ids: item.participant_ids,
+});
+
+const toLineItem = (row: ItemRow): ExpenseLineItem => ({
+  id: row.id,
+  name: row.name.trim(),
+  price: parseAmount(row.price),
+  quantity: parseAmount(row.quantity) || 1,
+  participant_ids: row.participant_ids,
+});
+
+/**
+ * Line items of a bill assigned to group members, with tax, tip and service
+ * charge spread over them
+ */
+export default function ItemizedSplitEditor({
+  members,
+  initialValue,
+  currency,
+  onChange,
+}: ItemizedSplitEditorProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+  const { t } = useLocalization();
+  const [rows, setRows] = useState<ItemRow[]>(
+    () => initialValue?.items.map(toItemRow) || [],
+  );
+  const [extras, setExtras] = useState<Record<ExtraField, string>>(() => ({
+    tax: initialValue?.tax ? initialValue.tax.toString() : "",
+    tip: initialValue?.tip ? initialValue.tip.toString() : "",
+    service_charge: initialValue?.service_charge
+      ? initialValue.service_charge.toString()
+      : "",
+  }));
+
+  const itemization: ExpenseItemization = {
+    items: rows.map(toLineItem),
+    tax: parseAmount(extras.tax),
+    tip: parseAmount(extras.tip),
+    service_charge: parseAmount(extras.service_charge),
+  };
+
+  const update = (
+    nextRows: ItemRow[],
+    nextExtras: Record<ExtraField, string> = extras,
+  ) => {
+    setRows(nextRows);
+    setExtras(nextExtras);
+    onChange({
+      items: nextRows.map(toLineItem),
+      tax: parseAmount(nextExtras.tax),
+      tip: parseAmount(nextExtras.tip),
+      service_charge: parseAmount(nextExtras.service_charge),
+    });
+  };
+
+  const updateRow = (id: string, changes: Partial<ItemRow>) =>
+    update(rows.map((row) => (row.id === id ? { ...row, ...changes } : row)));
+
+  const toggleMember = (row: ItemRow, userId: string) =>
+    updateRow(row.id, {
+      participant_ids: row.participant_ids.includes(userId)
+        ? row.participant_ids.filter((id) => id !== userId)
+        : [...row.participant_ids, userId],
+    });
+
+  const addRow = () =>
+    update([
+      ...rows,
+      {
+        id: uuidv4(),
+        name: "",
+        price: "",
+        quantity: "1",
+        participant_ids: members.map((member) => member.user_id),
+      },
+    ]);
+
+  const shares = calculateItemizedShares(itemization, members);
+  const unassigned = getUnassignedItems(
+    itemization,
+    members.map((member) => member.user_id),
+  ).length;
+
+  return (
+    <View>
+      {rows.map((row, index) => (
+        <View
+          key={row.id}
+          style={[styles.item, { borderBottomColor: colors.border }]}
+        >
+          <View style={styles.itemHeader}>
+            <Text style={[styles.itemNumber, { color: colors.icon }]}>
+              {t("itemizedSplit.itemNumber", { number: index + 1 })}
+            </Text>
+            <TouchableOpacity
+              onPress={() => update(rows.filter((item) => item.id !== row.id))}
+              style={styles.removeButton}
+            >
+              <Ionicons name="close-circle" size={20} color={colors.error} />
+            </TouchableOpacity>
+          </View>
+          <Input
+            style={styles.input}
+            placeholder={t("itemizedSplit.itemName")}
+            value={row.name}
+            onChangeText={(name) => updateRow(row.id, { name })}
+          />
+          <View style={styles.inline}>
+            <Input
+              style={[styles.input, styles.priceInput]}
+              label={t("itemizedSplit.price")}
+              placeholder="0.00"
+              value={row.price}
+              onChangeText={(price) => updateRow(row.id, { price })}
+              keyboardType="decimal-pad"
+            />
+            <Input
+              style={[styles.input, styles.quantityInput]}
+              label={t("itemizedSplit.quantity")}
+              value={row.quantity}
+              onChangeText={(quantity) => updateRow(row.id, { quantity })}
+              keyboardType="number-pad"
+            />
+          </View>
+          <View style={styles.chips}>
+            {members.map((member) => {
+              const selected = row.participant_ids.includes(member.user_id);
+              return (
+                <TouchableOpacity
+                  key={member.user_id}
+                  onPress={() => toggleMember(row, member.user_id)}
+                  style={[
+                    styles.chip,
+                    {
+                      borderColor: selected ? colors.primary : colors.border,
+                      backgroundColor: selected
+                        ? colors.primary + "20"
+                        : "transparent",
+                    },
+                  ]}
+                >
+                  <Text
+                    style={[
+                      styles.chipText,
+                      { color: selected ? colors.primary : colors.icon },
+                    ]}
+                  >
+                    {member.username}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+      ))}
+
+      <Button
+        appearance="ghost"
+        size="small"
+        accessoryLeft={() => (
+          <Ionicons
+            name="add-circle-outline"
+            size={18}
+            color={colors.primary}
+          />
+        )}
+        onPress={addRow}
+      >
+        {t("itemizedSplit.addItem")}
+      </Button>
+
+      <View style={styles.inline}>
+        {EXTRA_FIELDS.map((field) => (
+          <Input
+            key={field}
+            style={[styles.input, styles.extraInput]}
+            label={t(`itemizedSplit.${field}`)}
+            placeholder="0.00"
+            value={extras[field]}
+            onChangeText={(value) =>
+              update(rows, { ...extras, [field]: value })
+            }
+            keyboardType="decimal-pad"
+          />
+        ))}
+      </View>
+
+      <View style={styles.summaryRow}>
+        <Text style={[styles.summaryLabel, { color: colors.icon }]}>
+          {t("itemizedSplit.subtotal")}
+        </Text>
+        <Text style={[styles.summaryValue, { color: colors.text }]}>
+          {formatCurrency(getItemizationSubtotal(itemization), currency)}
+        </Text>
+      </View>
+      <View style={styles.summaryRow}>
+        <Text style={[styles.summaryLabel, { color: colors.icon }]}>
+          {t("itemizedSplit.total")}
+        </Text>
+        <Text style={[styles.summaryValue, { color: colors.text }]}>
+          {formatCurrency(getItemizationTotal(itemization), currency)}
+        </Text>
+      </View>
+      {shares.map((share) => (
+        <View key={share.user_id} style={styles.summaryRow}>
+          <Text style={[styles.summaryLabel, { color: colors.text }]}>
+            {share.username}
+          </Text>
+          <Text style={[styles.summaryValue, { color: colors.text }]}>
+            {formatCurrency(share.share_amount, currency)}
+          </Text>
+        </View>
+      ))}
+      {unassigned > 0 && (
+        <Text style={[styles.warning, { color: colors.warning }]}>
+          {t("itemizedSplit.unassignedItems", { count: unassigned })}
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  item: {
+    paddingBottom: 12,
+    marginBottom: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  itemHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 4,
+  },
+  itemNumber: {
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  removeButton: {
+    padding: 4,
+  },
+  input: {
+    marginBottom: 8,
+  },
+  inline: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  priceInput: {
+    flex: 2,
+  },
+  quantityInput: {
+    flex: 1,
+  },
+  extraInput: {
+    flex: 1,
+  },
+  chips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: "500",
+  },
+  summaryRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: 4,
+  },
+  summaryLabel: {
+    fontSize: 14,
+  },
+  summaryValue: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  warning: {
+    fontSize: 12,
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,79 @@
+import React from "react";
+import { StyleSheet, View } from "react-native";
+import { IndexPath, Select, SelectItem, Text } from "@ui-kitten/components";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import { Colors } from "@/constants/Colors";
+import { useLocalization } from "@/context/LocalizationContext";
+import { MemberMapping, MoveMember } from "@/utils/moveUtils";
+
+interface MemberRemappingProps {
+  unmatched: MoveMember[];
+  targetMembers: MoveMember[];
+  mapping: MemberMapping;
+  onChange: (mapping: MemberMapping) => void;
+}
+
+/**
+ * Picks, for each payer or participant missing from the target group of a
+ * move, the member who takes over their share
+ */
+export default function MemberRemapping({
+  unmatched,
+  targetMembers,
+  mapping,
+  onChange,
+}: MemberRemappingProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+  const { t } = useLocalization();
+
+  if (unmatched.length === 0) return null;
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.description, { color: colors.icon }]}>
+        {t("moveExpenses.remapDescription")}
+      </Text>
+      {unmatched.map((member) => {
+        const targetIndex = targetMembers.findIndex(
+          (target) => target.user_id === mapping[member.user_id],
+        );
+        return (
+          <Select
+            key={member.user_id}
+            label={member.username || t("common.unknownUser")}
+            placeholder={t("moveExpenses.selectMember")}
+            selectedIndex={
+              targetIndex >= 0 ? new IndexPath(targetIndex) : undefined
+            }
+            value={targetMembers[targetIndex]?.username}
+            onSelect={(index) => {
+              const target = targetMembers[(index as IndexPath).row];
+              if (target) {
+                onChange({ ...mapping, [member.user_id]: target.user_id });
+              }
+            }}
+            style={styles.select}
+          >
+            {targetMembers.map((target) => (
+              <SelectItem key={target.user_id} title={target.username} />
+            ))}
+          </Select>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 16,
+  },
+  description: {
+    fontSize: 13,
+    marginBottom: 8,
+  },
+  select: {
+    marginBottom: 12,
+  },
+});
@@ -0,0 +1,224 @@
+import { Colors } from "@/constants/Colors";
+import { useLocalization } from "@/context/LocalizationContext";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import { ReceiptImage } from "@/types/expense";
+import { Ionicons } from "@expo/vector-icons";
+import { Button, Spinner, Text } from "@ui-kitten/components";
+import { ImageManipulator, SaveFormat } from "expo-image-manipulator";
+import * as ImagePicker from "expo-image-picker";
+import React, { useState } from "react";
+import { Alert, Image, StyleSheet, TouchableOpacity, View } from "react-native";
+
+// Receipts are scaled down to this width before they are encrypted
+const MAX_RECEIPT_WIDTH = 1600;
+const RECEIPT_QUALITY = 0.6;
+
+interface ReceiptPickerProps {
+  draft: ReceiptImage | null;
+  hasSavedReceipt: boolean;
+  onPick: (draft: ReceiptImage) => void;
+  onRemove: () => void;
+}
+
+const compressReceipt = async (
+  asset: ImagePicker.ImagePickerAsset,
+): Promise<ReceiptImage> => {
+  const context = ImageManipulator.manipulate(asset.uri);
+  if (asset.width > MAX_RECEIPT_WIDTH) {
+    context.resize({ width: MAX_RECEIPT_WIDTH });
+  }
+  const image = await context.renderAsync();
+  const result = await image.saveAsync({
+    compress: RECEIPT_QUALITY,
+    format: SaveFormat.JPEG,
+    base64: true,
+  });
+  if (!result.base64) {
+    throw new Error("Compressed receipt has no data");
+  }
+
+  return {
+    base64: result.base64,
+    content_type: "image/jpeg",
+    width: result.width,
+    height: result.height,
+  };
+};
+
+/**
+ * Take or pick a receipt photo for an expense
+ */
+export default function ReceiptPicker({
+  draft,
+  hasSavedReceipt,
+  onPick,
+  onRemove,
+}: ReceiptPickerProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+  const { t } = useLocalization();
+  const [processing, setProcessing] = useState(false);
+
+  const pick = async (source: "camera" | "library") => {
+    const permission =
+      source === "camera"
+        ? await ImagePicker.requestCameraPermissionsAsync()
+        : await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (!permission.granted) {
+      Alert.alert(
+        t("receipts.permissionTitle"),
+        t("receipts.permissionDenied"),
+      );
+      return;
+    }
+
+    const options: ImagePicker.ImagePickerOptions = {
+      mediaTypes: ["images"],
+      quality: 1,
+    };
+    const result =
+      source === "camera"
+        ? await ImagePicker.launchCameraAsync(options)
+        : await ImagePicker.launchImageLibraryAsync(options);
+    if (result.canceled || result.assets.length === 0) return;
+
+    setProcessing(true);
+    try {
+      onPick(await compressReceipt(result.assets[0]));
+    } catch (error) {
+      console.error("Failed to process receipt:", error);
+      Alert.alert(t("alerts.error"), t("receipts.processFailed"));
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const hasReceipt = draft !== null || hasSavedReceipt;
+
+  return (
+    <View
+      style={[
+        styles.card,
+        { backgroundColor: colors.card, shadowColor: colors.text },
+      ]}
+    >
+      <Text style={[styles.title, { color: colors.text }]}>
+        {t("receipts.title")}
+      </Text>
+
+      {processing ? (
+        <View style={styles.placeholder}>
+          <Spinner size="small" />
+        </View>
+      ) : draft ? (
+        <Image
+          source={{ uri: `data:${draft.content_type};base64,${draft.base64}` }}
+          style={[styles.preview, { borderColor: colors.border }]}
+          resizeMode="contain"
+        />
+      ) : hasSavedReceipt ? (
+        <View style={[styles.placeholder, { borderColor: colors.border }]}>
+          <Ionicons name="receipt-outline" size={32} color={colors.icon} />
+          <Text style={[styles.hint, { color: colors.icon }]}>
+            {t("receipts.attached")}
+          </Text>
+        </View>
+      ) : (
+        <Text style={[styles.hint, { color: colors.icon }]}>
+          {t("receipts.hint")}
+        </Text>
+      )}
+
+      <View style={styles.actions}>
+        <Button
+          style={styles.action}
+          appearance="outline"
+          size="small"
+          disabled={processing}
+          accessoryLeft={() => (
+            <Ionicons name="camera-outline" size={16} color={colors.primary} />
+          )}
+          onPress={() => pick("camera")}
+        >
+          {hasReceipt ? t("receipts.retake") : t("receipts.takePhoto")}
+        </Button>
+        <Button
+          style={styles.action}
+          appearance="outline"
+          size="small"
+          disabled={processing}
+          accessoryLeft={() => (
+            <Ionicons name="images-outline" size={16} color={colors.primary} />
+          )}
+          onPress={() => pick("library")}
+        >
+          {t("receipts.chooseFromLibrary")}
+        </Button>
+      </View>
+
+      {hasReceipt && !processing && (
+        <TouchableOpacity style={styles.remove} onPress={onRemove}>
+          <Ionicons name="trash-outline" size={16} color={colors.error} />
+          <Text style={[styles.removeText, { color: colors.error }]}>
+            {t("receipts.remove")}
+          </Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginBottom: 20,
+    padding: 20,
+    borderRadius: 20,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginBottom: 12,
+  },
+  preview: {
+    width: "100%",
+    height: 240,
+    borderRadius: 12,
+    borderWidth: StyleSheet.hairlineWidth,
+  },
+  placeholder: {
+    height: 120,
+    borderRadius: 12,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: "transparent",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+  },
+  hint: {
+    fontSize: 12,
+  },
+  actions: {
+    flexDirection: "row",
+    gap: 12,
+    marginTop: 12,
+  },
+  action: {
+    flex: 1,
+  },
+  remove: {
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "center",
+    gap: 6,
+    marginTop: 12,
+    padding: 4,
+  },
+  removeText: {
+    fontSize: 14,
+    fontWeight: "500",
+  },
+});
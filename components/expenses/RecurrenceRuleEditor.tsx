@@ -0,0 +1,431 @@
+import React, { useMemo, useState } from "react";
+import { StyleSheet, TouchableOpacity, View } from "react-native";
+import {
+  IndexPath,
+  Input,
+  Select,
+  SelectItem,
+  Text,
+  Toggle,
+} from "@ui-kitten/components";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import { Colors } from "@/constants/Colors";
+import { useLocalization } from "@/context/LocalizationContext";
+import { RecurrenceFrequency, RecurrenceRule } from "@/types/expense";
+import {
+  addDays,
+  describeRecurrenceRule,
+  getOccurrences,
+  isLastBusinessDayRule,
+} from "@/utils/recurrenceUtils";
+
+type MonthlyMode = "sameDay" | "monthDays" | "lastBusinessDay" | "weekdays";
+
+interface RecurrenceRuleEditorProps {
+  rule: RecurrenceRule;
+  onChange: (rule: RecurrenceRule) => void;
+  startDate: Date;
+  endDate?: Date;
+}
+
+const PREVIEW_COUNT = 12;
+
+const FREQUENCIES: RecurrenceFrequency[] = [
+  "daily",
+  "weekly",
+  "monthly",
+  "yearly",
+];
+
+const MONTHLY_MODES: MonthlyMode[] = [
+  "sameDay",
+  "monthDays",
+  "lastBusinessDay",
+  "weekdays",
+];
+
+// Monday first; values are Date.getDay() numbers
+const WEEKDAYS = [1, 2, 3, 4, 5, 6, 0];
+
+// undefined = every matching weekday of the month
+const POSITIONS: (number | undefined)[] = [undefined, 1, 2, 3, 4, -1];
+
+const PRESETS: { key: string; rule: RecurrenceRule }[] = [
+  { key: "presetEveryTwoWeeks", rule: { frequency: "weekly", interval: 2 } },
+  { key: "presetQuarterly", rule: { frequency: "monthly", interval: 3 } },
+  {
+    key: "presetLastBusinessDay",
+    rule: {
+      frequency: "monthly",
+      interval: 1,
+      by_weekday: [1, 2, 3, 4, 5],
+      by_set_pos: [-1],
+    },
+  },
+  {
+    key: "presetMidAndEndOfMonth",
+    rule: { frequency: "monthly", interval: 1, by_month_day: [15, -1] },
+  },
+];
+
+const toDateKey = (date: Date) => date.toISOString().split("T")[0];
+
+const getMonthlyMode = (rule: RecurrenceRule): MonthlyMode => {
+  if (rule.by_month_day?.length) return "monthDays";
+  if (isLastBusinessDayRule(rule)) return "lastBusinessDay";
+  if (rule.by_weekday?.length) return "weekdays";
+  return "sameDay";
+};
+
+const formatMonthDays = (days?: number[]) =>
+  (days || []).filter((day) => day > 0).join(", ");
+
+const parseMonthDays = (text: string): number[] =>
+  Array.from(
+    new Set(
+      text
+        .split(/[\s,;]+/)
+        .map((part) => parseInt(part, 10))
+        .filter((day) => !isNaN(day) && day >= 1 && day <= 31),
+    ),
+  ).sort((a, b) => a - b);
+
+export default function RecurrenceRuleEditor({
+  rule,
+  onChange,
+  startDate,
+  endDate,
+}: RecurrenceRuleEditorProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+  const { t } = useLocalization();
+
+  const [monthlyMode, setMonthlyMode] = useState<MonthlyMode>(
+    getMonthlyMode(rule),
+  );
+  const [intervalText, setIntervalText] = useState(String(rule.interval));
+  const [monthDaysText, setMonthDaysText] = useState(
+    formatMonthDays(rule.by_month_day),
+  );
+
+  // Presets replace the whole rule, so the local inputs follow it
+  const applyRule = (nextRule: RecurrenceRule) => {
+    setMonthlyMode(getMonthlyMode(nextRule));
+    setIntervalText(String(nextRule.interval));
+    setMonthDaysText(formatMonthDays(nextRule.by_month_day));
+    onChange(nextRule);
+  };
+
+  const preview = useMemo(() => {
+    const today = toDateKey(new Date());
+    return getOccurrences(
+      rule,
+      toDateKey(startDate),
+      PREVIEW_COUNT,
+      addDays(today, -1),
+      endDate ? toDateKey(endDate) : undefined,
+    );
+  }, [rule, startDate, endDate]);
+
+  const unitLabels = {
+    daily: t("recurrence.days"),
+    weekly: t("recurrence.weeks"),
+    monthly: t("recurrence.months"),
+    yearly: t("recurrence.years"),
+  };
+
+  const handleFrequencyChange = (index: IndexPath) => {
+    const frequency = FREQUENCIES[index.row];
+    setMonthlyMode("sameDay");
+    onChange({ frequency, interval: rule.interval });
+  };
+
+  const handleIntervalChange = (text: string) => {
+    setIntervalText(text);
+    const interval = parseInt(text, 10);
+    if (!isNaN(interval) && interval >= 1) {
+      onChange({ ...rule, interval });
+    }
+  };
+
+  // Day of month and weekday of the start date, as stored (UTC)
+  const startKey = toDateKey(startDate);
+  const startDay = Number(startKey.slice(8, 10));
+  const startWeekday = new Date(`${startKey}T00:00:00Z`).getUTCDay();
+
+  const handleMonthlyModeChange = (index: IndexPath) => {
+    const mode = MONTHLY_MODES[index.row];
+    setMonthlyMode(mode);
+    const base: RecurrenceRule = {
+      frequency: "monthly",
+      interval: rule.interval,
+    };
+    switch (mode) {
+      case "monthDays":
+        setMonthDaysText(String(startDay));
+        onChange({ ...base, by_month_day: [startDay] });
+        break;
+      case "lastBusinessDay":
+        onChange({ ...base, by_weekday: [1, 2, 3, 4, 5], by_set_pos: [-1] });
+        break;
+      case "weekdays":
+        onChange({ ...base, by_weekday: [startWeekday] });
+        break;
+      default:
+        onChange(base);
+    }
+  };
+
+  const includesLastDay = !!rule.by_month_day?.includes(-1);
+
+  const updateMonthDays = (text: string, lastDay: boolean) => {
+    const days = parseMonthDays(text);
+    onChange({
+      ...rule,
+      by_month_day: lastDay ? [...days, -1] : days,
+    });
+  };
+
+  const toggleWeekday = (weekday: number) => {
+    const current = rule.by_weekday || [];
+    const byWeekday = current.includes(weekday)
+      ? current.filter((day) => day !== weekday)
+      : [...current, weekday];
+    onChange({ ...rule, by_weekday: byWeekday });
+  };
+
+  const handlePositionChange = (index: IndexPath) => {
+    const position = POSITIONS[index.row];
+    onChange({
+      ...rule,
+      by_set_pos: position === undefined ? undefined : [position],
+    });
+  };
+
+  const getPositionLabel = (position: number | undefined) => {
+    if (position === undefined) return t("recurrence.every");
+    return t(position === -1 ? "recurrence.last" : `recurrence.nth${position}`);
+  };
+
+  const selectedPosition = POSITIONS.findIndex(
+    (position) => position === rule.by_set_pos?.[0],
+  );
+
+  const showWeekdays =
+    rule.frequency === "daily" ||
+    rule.frequency === "weekly" ||
+    (rule.frequency === "monthly" && monthlyMode === "weekdays");
+
+  const formatPreviewDate = (date: string) =>
+    new Date(`${date}T00:00:00`).toLocaleDateString(undefined, {
+      weekday: "short",
+      day: "numeric",
+      month: "short",
+      year: "numeric",
+    });
+
+  return (
+    <View>
+      <Text category="label" appearance="hint" style={styles.label}>
+        {t("recurrence.presets")}
+      </Text>
+      <View style={styles.chipRow}>
+        {PRESETS.map((preset) => (
+          <TouchableOpacity
+            key={preset.key}
+            style={[styles.chip, { borderColor: colors.border }]}
+            onPress={() => applyRule(preset.rule)}
+          >
+            <Text style={[styles.chipText, { color: colors.text }]}>
+              {t(`recurrence.${preset.key}`)}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Select
+        label={t("recurrence.frequency")}
+        selectedIndex={new IndexPath(FREQUENCIES.indexOf(rule.frequency))}
+        onSelect={(index) => handleFrequencyChange(index as IndexPath)}
+        value={t(`recurrence.${rule.frequency}`)}
+        style={styles.input}
+      >
+        {FREQUENCIES.map((frequency) => (
+          <SelectItem key={frequency} title={t(`recurrence.${frequency}`)} />
+        ))}
+      </Select>
+
+      <Input
+        label={t("recurrence.repeatEvery")}
+        value={intervalText}
+        onChangeText={handleIntervalChange}
+        keyboardType="number-pad"
+        accessoryRight={() => (
+          <Text appearance="hint">{unitLabels[rule.frequency]}</Text>
+        )}
+        style={styles.input}
+      />
+
+      {rule.frequency === "monthly" && (
+        <Select
+          label={t("recurrence.monthlyOn")}
+          selectedIndex={new IndexPath(MONTHLY_MODES.indexOf(monthlyMode))}
+          onSelect={(index) => handleMonthlyModeChange(index as IndexPath)}
+          value={t(`recurrence.mode.${monthlyMode}`)}
+          style={styles.input}
+        >
+          {MONTHLY_MODES.map((mode) => (
+            <SelectItem key={mode} title={t(`recurrence.mode.${mode}`)} />
+          ))}
+        </Select>
+      )}
+
+      {rule.frequency === "monthly" && monthlyMode === "monthDays" && (
+        <>
+          <Input
+            label={t("recurrence.daysOfMonth")}
+            placeholder={t("recurrence.daysOfMonthPlaceholder")}
+            value={monthDaysText}
+            onChangeText={(text) => {
+              setMonthDaysText(text);
+              updateMonthDays(text, includesLastDay);
+            }}
+            keyboardType="numbers-and-punctuation"
+            style={styles.input}
+          />
+          <View style={styles.toggleRow}>
+            <Text style={[styles.toggleLabel, { color: colors.text }]}>
+              {t("recurrence.includeLastDay")}
+            </Text>
+            <Toggle
+              checked={includesLastDay}
+              onChange={(checked) => updateMonthDays(monthDaysText, checked)}
+            />
+          </View>
+        </>
+      )}
+
+      {rule.frequency === "monthly" && monthlyMode === "weekdays" && (
+        <Select
+          label={t("recurrence.position")}
+          selectedIndex={new IndexPath(Math.max(0, selectedPosition))}
+          onSelect={(index) => handlePositionChange(index as IndexPath)}
+          value={getPositionLabel(POSITIONS[Math.max(0, selectedPosition)])}
+          style={styles.input}
+        >
+          {POSITIONS.map((position, index) => (
+            <SelectItem key={index} title={getPositionLabel(position)} />
+          ))}
+        </Select>
+      )}
+
+      {showWeekdays && (
+        <>
+          <Text category="label" appearance="hint" style={styles.label}>
+            {rule.frequency === "daily"
+              ? t("recurrence.onlyOn")
+              : t("recurrence.onDays")}
+          </Text>
+          <View style={styles.chipRow}>
+            {WEEKDAYS.map((weekday) => {
+              const selected = !!rule.by_weekday?.includes(weekday);
+              return (
+                <TouchableOpacity
+                  key={weekday}
+                  style={[
+                    styles.chip,
+                    { borderColor: selected ? colors.primary : colors.border },
+                    selected && { backgroundColor: colors.primary },
+                  ]}
+                  onPress={() => toggleWeekday(weekday)}
+                >
+                  <Text
+                    style={[
+                      styles.chipText,
+                      { color: selected ? "#FFFFFF" : colors.text },
+                    ]}
+                  >
+                    {t(`recurrence.weekdays.${weekday}`)}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </>
+      )}
+
+      <View style={[styles.preview, { borderColor: colors.border }]}>
+        <Text style={[styles.previewTitle, { color: colors.text }]}>
+          {describeRecurrenceRule(rule, t)}
+        </Text>
+        <Text category="c1" appearance="hint" style={styles.label}>
+          {t("recurrence.nextOccurrences", { count: PREVIEW_COUNT })}
+        </Text>
+        {preview.length === 0 ? (
+          <Text category="c1" appearance="hint">
+            {t("recurrence.noOccurrences")}
+          </Text>
+        ) : (
+          preview.map((date) => (
+            <Text
+              key={date}
+              style={[styles.previewDate, { color: colors.text }]}
+            >
+              {formatPreviewDate(date)}
+            </Text>
+          ))
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  input: {
+    marginBottom: 16,
+  },
+  label: {
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: "500",
+  },
+  toggleRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 16,
+  },
+  toggleLabel: {
+    fontSize: 14,
+    fontWeight: "500",
+  },
+  preview: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+  },
+  previewTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    marginBottom: 8,
+  },
+  previewDate: {
+    fontSize: 14,
+    paddingVertical: 2,
+  },
+});
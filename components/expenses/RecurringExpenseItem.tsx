@@ -6,12 +6,17 @@ import { useAuth } from "@/context/AuthContext";
 import { useProfile } from "@/context/ProfileContext";
 import {
   getCategoryDisplayInfo,
+  RecurringExpenseData,
   RecurringExpenseWithDecryptedData,
 } from "@/types/expense";
 import { useColorScheme } from "@/hooks/useColorScheme";
 import { Colors } from "@/constants/Colors";
 import { useLocalization } from "@/context/LocalizationContext";
 import { Ionicons } from "@expo/vector-icons";
+import {
+  describeRecurrenceRule,
+  getRecurrenceRule,
+} from "@/utils/recurrenceUtils";
 
 interface RecurringExpenseItemProps {
   item: RecurringExpenseWithDecryptedData & { groupName?: string };
@@ -49,15 +54,8 @@ export default function RecurringExpenseItem({
     }
   };
 
-  const getIntervalDisplay = (interval: string) => {
-    const intervalMap = {
-      daily: t("expenses.daily"),
-      weekly: t("expenses.weekly"),
-      monthly: t("expenses.monthly"),
-      yearly: t("expenses.yearly"),
-    };
-    return intervalMap[interval as keyof typeof intervalMap] || interval;
-  };
+  const getIntervalDisplay = (data: RecurringExpenseData) =>
+    describeRecurrenceRule(getRecurrenceRule(data), t);
 
   const formatNextDueDate = (dateString: string) => {
     try {
@@ -157,7 +155,7 @@ export default function RecurringExpenseItem({
               </Text>
               <Text style={[styles.expenseSubtitle, { color: colors.icon }]}>
                 {item.groupName || t("expenses.unknownGroup")} •{" "}
-                {getIntervalDisplay(item.data.interval)}
+                {getIntervalDisplay(item.data)}
               </Text>
               <Text
                 style={[
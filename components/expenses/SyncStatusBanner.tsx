@@ -0,0 +1,229 @@
+import { Colors } from "@/constants/Colors";
+import { useExpense } from "@/context/ExpenseContext";
+import { useLocalization } from "@/context/LocalizationContext";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import {
+  DecryptedOutboxConflict,
+  OutboxConflictResolution,
+} from "@/services/offlineService";
+import { ExpenseData } from "@/types/expense";
+import { formatCurrency } from "@/utils/currencyUtils";
+import { Ionicons } from "@expo/vector-icons";
+import { Button, Text } from "@ui-kitten/components";
+import React, { useState } from "react";
+import {
+  ActivityIndicator,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+/**
+ * Shows when expenses come from the offline cache, how many changes are
+ * waiting to be sent and asks how to settle changes that conflict with the
+ * server
+ */
+export default function SyncStatusBanner() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+  const { t } = useLocalization();
+  const {
+    isOffline,
+    pendingMutationsCount,
+    outboxConflicts,
+    syncOfflineChanges,
+    resolveOutboxConflict,
+  } = useExpense();
+  const [syncing, setSyncing] = useState(false);
+  const [resolving, setResolving] = useState(false);
+
+  const handleSync = async () => {
+    setSyncing(true);
+    try {
+      await syncOfflineChanges();
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  const handleResolve = async (
+    conflict: DecryptedOutboxConflict,
+    resolution: OutboxConflictResolution,
+  ) => {
+    setResolving(true);
+    try {
+      await resolveOutboxConflict(conflict.id, resolution);
+    } finally {
+      setResolving(false);
+    }
+  };
+
+  const describeVersion = (data?: ExpenseData) =>
+    data
+      ? `${data.name} · ${formatCurrency(data.amount, data.currency)}`
+      : t("offline.deletedVersion");
+
+  const showStatus = isOffline || pendingMutationsCount > 0;
+  const conflict = outboxConflicts[0];
+
+  if (!showStatus && !conflict) return null;
+
+  return (
+    <>
+      {showStatus && (
+        <View
+          style={[
+            styles.statusBar,
+            {
+              backgroundColor: colors.warning + "15",
+              borderColor: colors.warning + "30",
+            },
+          ]}
+        >
+          <Ionicons
+            name={isOffline ? "cloud-offline-outline" : "cloud-upload-outline"}
+            size={16}
+            color={colors.warning}
+          />
+          <Text style={[styles.statusText, { color: colors.warning }]}>
+            {isOffline
+              ? t("offline.offline", { count: pendingMutationsCount })
+              : t("offline.pendingChanges", { count: pendingMutationsCount })}
+          </Text>
+          {syncing ? (
+            <ActivityIndicator size="small" color={colors.warning} />
+          ) : (
+            <TouchableOpacity onPress={handleSync}>
+              <Text style={[styles.syncText, { color: colors.warning }]}>
+                {t("offline.syncNow")}
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
+      {conflict && (
+        <View
+          style={[
+            styles.conflictCard,
+            { backgroundColor: colors.card, borderColor: colors.warning },
+          ]}
+        >
+          <View style={styles.conflictHeader}>
+            <Ionicons
+              name="git-compare-outline"
+              size={20}
+              color={colors.warning}
+            />
+            <Text style={[styles.conflictTitle, { color: colors.text }]}>
+              {t("offline.conflictTitle")}
+            </Text>
+          </View>
+          <Text category="c1" appearance="hint" style={styles.conflictText}>
+            {t(`offline.conflictReasons.${conflict.reason}`)}
+          </Text>
+          {conflict.reason !== "rekeyed" && (
+            <Text category="c1" style={{ color: colors.text }}>
+              {t("offline.yourVersion", {
+                version: describeVersion(
+                  conflict.type === "delete" ? undefined : conflict.local,
+                ),
+              })}
+            </Text>
+          )}
+          {conflict.reason !== "rejected" && (
+            <Text category="c1" style={{ color: colors.text }}>
+              {t("offline.serverVersion", {
+                version: describeVersion(conflict.server),
+              })}
+            </Text>
+          )}
+          {outboxConflicts.length > 1 && (
+            <Text category="c1" appearance="hint" style={styles.moreText}>
+              {t("offline.moreConflicts", {
+                count: outboxConflicts.length - 1,
+              })}
+            </Text>
+          )}
+          <View style={styles.conflictActions}>
+            <Button
+              size="small"
+              appearance="outline"
+              status="basic"
+              style={styles.conflictButton}
+              disabled={resolving}
+              onPress={() => handleResolve(conflict, "keepServer")}
+            >
+              {t("offline.keepServer")}
+            </Button>
+            {conflict.reason !== "rekeyed" && (
+              <Button
+                size="small"
+                status="warning"
+                style={styles.conflictButton}
+                disabled={resolving}
+                onPress={() => handleResolve(conflict, "keepLocal")}
+              >
+                {t("offline.keepLocal")}
+              </Button>
+            )}
+          </View>
+        </View>
+      )}
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  statusBar: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: 12,
+    marginHorizontal: 16,
+    marginBottom: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  statusText: {
+    fontSize: 14,
+    fontWeight: "500",
+    marginLeft: 8,
+    flex: 1,
+  },
+  syncText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  conflictCard: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    marginHorizontal: 16,
+    marginBottom: 8,
+    gap: 4,
+  },
+  conflictHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  conflictTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    marginLeft: 8,
+  },
+  conflictText: {
+    marginBottom: 4,
+  },
+  moreText: {
+    marginTop: 4,
+  },
+  conflictActions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: 8,
+    marginTop: 8,
+  },
+  conflictButton: {
+    minWidth: 100,
+  },
+});
@@ -14,7 +14,7 @@ import {
   calculateIndividualInvestmentReturns,
   calculateCurrentValue,
 } from "@/utils/financeUtils";
-import { isPriceUpdateFailed } from "@/utils/investmentUtils";
+import { isDebtInvestment, isPriceUpdateFailed } from "@/utils/investmentUtils";
 
 interface InvestmentItemProps {
   item: InvestmentWithDecryptedData & { portfolioName?: string };
@@ -51,6 +51,7 @@ export default function InvestmentItem({
       commodity: "diamond",
       checkingAccount: "card",
       savingsAccount: "wallet",
+      debt: "trending-down",
       other: "ellipsis-horizontal",
     };
     return icons[type] || icons.other;
@@ -67,6 +68,7 @@ export default function InvestmentItem({
       commodity: "#FFC107",
       checkingAccount: "#607D8B",
       savingsAccount: "#4CAF50",
+      debt: "#F44336",
       other: "#9E9E9E",
     };
     return colors[type] || colors.other;
@@ -95,7 +97,9 @@ export default function InvestmentItem({
   const handlePress = () => {
     if (portfolioId) {
       router.push(
-        `/(protected)/investment-detail?investmentId=${item.id}&portfolioId=${portfolioId}`,
+        isDebtInvestment(item.data.type)
+          ? `/(protected)/loan-detail?investmentId=${item.id}&portfolioId=${portfolioId}`
+          : `/(protected)/investment-detail?investmentId=${item.id}&portfolioId=${portfolioId}`,
       );
     }
   };
@@ -0,0 +1,176 @@
+import { Colors } from "@/constants/Colors";
+import { useLocalization } from "@/context/LocalizationContext";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import { LoanTerms } from "@/types/investment";
+import { formatCurrency } from "@/utils/currencyUtils";
+import { compareLoanPayoffWithInvesting } from "@/utils/financeUtils";
+import { normalizeDecimalForParsing } from "@/utils/stringUtils";
+import { Input, Text } from "@ui-kitten/components";
+import React, { useMemo, useState } from "react";
+import { StyleSheet, View } from "react-native";
+
+// Same conservative return the projections fall back to
+const DEFAULT_EXPECTED_RETURN = "5";
+
+interface LoanComparisonCardProps {
+  terms: LoanTerms;
+  currency: string;
+}
+
+/**
+ * What-if of paying more each month against investing the difference
+ */
+export default function LoanComparisonCard({
+  terms,
+  currency,
+}: LoanComparisonCardProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+  const { t } = useLocalization();
+  const [extra, setExtra] = useState("");
+  const [expectedReturn, setExpectedReturn] = useState(DEFAULT_EXPECTED_RETURN);
+
+  const comparison = useMemo(() => {
+    const monthly = Number(normalizeDecimalForParsing(extra));
+    const yearlyReturn = Number(normalizeDecimalForParsing(expectedReturn));
+    if (!monthly || monthly <= 0 || isNaN(yearlyReturn)) return null;
+    return compareLoanPayoffWithInvesting(terms, monthly, yearlyReturn / 100);
+  }, [terms, extra, expectedReturn]);
+
+  const renderRow = (label: string, value: string, color?: string) => (
+    <View style={styles.row}>
+      <Text style={[styles.label, { color: colors.icon }]}>{label}</Text>
+      <Text style={[styles.value, { color: color || colors.text }]}>
+        {value}
+      </Text>
+    </View>
+  );
+
+  const payoffWins =
+    comparison !== null && comparison.payoffValue >= comparison.investValue;
+
+  return (
+    <View
+      style={[
+        styles.card,
+        { backgroundColor: colors.card, shadowColor: colors.text },
+      ]}
+    >
+      <Text style={[styles.title, { color: colors.text }]}>
+        {t("loans.compareTitle")}
+      </Text>
+      <View style={styles.inputs}>
+        <Input
+          style={styles.input}
+          label={t("loans.extraPerMonth")}
+          placeholder="0.00"
+          value={extra}
+          onChangeText={setExtra}
+          keyboardType="decimal-pad"
+        />
+        <Input
+          style={styles.input}
+          label={t("loans.expectedReturn")}
+          value={expectedReturn}
+          onChangeText={setExpectedReturn}
+          keyboardType="decimal-pad"
+        />
+      </View>
+
+      {comparison === null ? (
+        <Text style={[styles.hint, { color: colors.icon }]}>
+          {t("loans.compareHint")}
+        </Text>
+      ) : (
+        <>
+          {renderRow(
+            t("loans.newPayoffDate"),
+            comparison.payoffDate
+              ? new Date(comparison.payoffDate).toLocaleDateString()
+              : "—",
+          )}
+          {renderRow(t("loans.monthsSaved"), comparison.monthsSaved.toString())}
+          {renderRow(
+            t("loans.interestSaved"),
+            formatCurrency(comparison.interestSaved, currency),
+            colors.success,
+          )}
+          {renderRow(
+            t("loans.payoffValue"),
+            formatCurrency(comparison.payoffValue, currency),
+            payoffWins ? colors.success : undefined,
+          )}
+          {renderRow(
+            t("loans.investValue"),
+            formatCurrency(comparison.investValue, currency),
+            payoffWins ? undefined : colors.success,
+          )}
+          <Text style={[styles.verdict, { color: colors.text }]}>
+            {payoffWins
+              ? t("loans.payoffWins", {
+                  amount: formatCurrency(
+                    comparison.payoffValue - comparison.investValue,
+                    currency,
+                  ),
+                })
+              : t("loans.investWins", {
+                  amount: formatCurrency(
+                    comparison.investValue - comparison.payoffValue,
+                    currency,
+                  ),
+                })}
+          </Text>
+          <Text style={[styles.hint, { color: colors.icon }]}>
+            {t("loans.compareDisclaimer")}
+          </Text>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginBottom: 20,
+    padding: 20,
+    borderRadius: 20,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginBottom: 12,
+  },
+  inputs: {
+    flexDirection: "row",
+    gap: 12,
+  },
+  input: {
+    flex: 1,
+    marginBottom: 12,
+  },
+  row: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: 6,
+  },
+  label: {
+    fontSize: 14,
+  },
+  value: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  verdict: {
+    fontSize: 14,
+    fontWeight: "600",
+    marginTop: 12,
+  },
+  hint: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+});
@@ -0,0 +1,391 @@
+import RecordPayoutModal from "@/components/investments/RecordPayoutModal";
+import { Colors } from "@/constants/Colors";
+import { useInvestment } from "@/context/InvestmentContext";
+import { useLocalization } from "@/context/LocalizationContext";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import { apiLookupDividendSchedule } from "@/services/investmentService";
+import {
+  InvestmentWithDecryptedData,
+  PAYOUT_FREQUENCIES,
+  PayoutSchedule,
+} from "@/types/investment";
+import { formatCurrency } from "@/utils/currencyUtils";
+import {
+  ExpectedPayout,
+  getExpectedPayouts,
+  getUnrecordedPayouts,
+} from "@/utils/payoutUtils";
+import { normalizeDecimalForParsing } from "@/utils/stringUtils";
+import { Ionicons } from "@expo/vector-icons";
+import {
+  Button,
+  Card,
+  Datepicker,
+  IndexPath,
+  Input,
+  Modal,
+  Select,
+  SelectItem,
+  Text,
+} from "@ui-kitten/components";
+import React, { useMemo, useState } from "react";
+import { Alert, StyleSheet, TouchableOpacity, View } from "react-native";
+
+interface PayoutScheduleCardProps {
+  investment: InvestmentWithDecryptedData;
+}
+
+const toDay = (date: Date) => date.toISOString().split("T")[0];
+
+/**
+ * Dividend or coupon schedule of an investment: next payment, payments still
+ * to be recorded and a form to set the schedule by hand or from the lookup
+ * service
+ */
+export default function PayoutScheduleCard({
+  investment,
+}: PayoutScheduleCardProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+  const { t } = useLocalization();
+  const { updateInvestment } = useInvestment();
+  const schedule = investment.data.payout_schedule;
+
+  const [editing, setEditing] = useState(false);
+  const [frequencyIndex, setFrequencyIndex] = useState(new IndexPath(2));
+  const [payDate, setPayDate] = useState(new Date());
+  const [exDate, setExDate] = useState<Date | null>(null);
+  const [amountPerUnit, setAmountPerUnit] = useState("");
+  const [source, setSource] = useState<PayoutSchedule["source"]>("manual");
+  const [saving, setSaving] = useState(false);
+  const [lookingUp, setLookingUp] = useState(false);
+  const [recordingPayout, setRecordingPayout] = useState<ExpectedPayout | null>(
+    null,
+  );
+
+  const { nextPayout, unrecorded } = useMemo(() => {
+    const today = toDay(new Date());
+    const nextYear = toDay(
+      new Date(new Date().setFullYear(new Date().getFullYear() + 1)),
+    );
+    return {
+      nextPayout: getExpectedPayouts([investment], today, nextYear)[0],
+      unrecorded: getUnrecordedPayouts([investment], today),
+    };
+  }, [investment]);
+
+  const openEditor = () => {
+    const index = PAYOUT_FREQUENCIES.findIndex(
+      (option) => option.id === schedule?.frequency,
+    );
+    setFrequencyIndex(new IndexPath(index >= 0 ? index : 2));
+    setPayDate(schedule ? new Date(schedule.pay_date) : new Date());
+    setExDate(schedule?.ex_date ? new Date(schedule.ex_date) : null);
+    setAmountPerUnit(schedule?.amount_per_unit?.toString() || "");
+    setSource(schedule?.source || "manual");
+    setEditing(true);
+  };
+
+  const handleLookup = async () => {
+    if (!investment.data.symbol || !investment.data.exchange_market) return;
+
+    setLookingUp(true);
+    try {
+      const result = await apiLookupDividendSchedule(
+        investment.data.symbol,
+        investment.data.exchange_market,
+      );
+      if (!result.success || !result.data?.payDate) {
+        Alert.alert(t("alerts.error"), t("payouts.lookupFailed"));
+        return;
+      }
+
+      const found = result.data;
+      const index = PAYOUT_FREQUENCIES.findIndex(
+        (option) => option.id === found.frequency,
+      );
+      if (index >= 0) setFrequencyIndex(new IndexPath(index));
+      setPayDate(new Date(found.payDate!));
+      setExDate(found.exDate ? new Date(found.exDate) : null);
+      setAmountPerUnit(found.amountPerShare?.toString() || "");
+      setSource("lookup");
+    } finally {
+      setLookingUp(false);
+    }
+  };
+
+  const saveSchedule = async (payoutSchedule: PayoutSchedule | null) => {
+    setSaving(true);
+    try {
+      const result = await updateInvestment(investment.portfolio_id, {
+        ...investment,
+        data: { ...investment.data, payout_schedule: payoutSchedule },
+      });
+      if (!result) {
+        Alert.alert(t("alerts.error"), t("payouts.saveFailed"));
+        return;
+      }
+      setEditing(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = () => {
+    const amount = amountPerUnit.trim()
+      ? Number(normalizeDecimalForParsing(amountPerUnit))
+      : null;
+    if (amount !== null && (isNaN(amount) || amount <= 0)) {
+      Alert.alert(
+        t("alerts.error"),
+        t("editInvestment.transactionAmountPositive"),
+      );
+      return;
+    }
+
+    saveSchedule({
+      frequency: PAYOUT_FREQUENCIES[frequencyIndex.row].id,
+      pay_date: toDay(payDate),
+      ex_date: exDate ? toDay(exDate) : null,
+      amount_per_unit: amount,
+      source,
+    });
+  };
+
+  return (
+    <View>
+      {schedule ? (
+        <>
+          <View style={styles.row}>
+            <Text style={[styles.label, { color: colors.icon }]}>
+              {t("payouts.frequency")}
+            </Text>
+            <Text style={[styles.value, { color: colors.text }]}>
+              {t(`payouts.frequencies.${schedule.frequency}`)}
+            </Text>
+          </View>
+          {nextPayout ? (
+            <>
+              {nextPayout.ex_date && (
+                <View style={styles.row}>
+                  <Text style={[styles.label, { color: colors.icon }]}>
+                    {t("payouts.nextExDate")}
+                  </Text>
+                  <Text style={[styles.value, { color: colors.text }]}>
+                    {new Date(nextPayout.ex_date).toLocaleDateString()}
+                  </Text>
+                </View>
+              )}
+              <View style={styles.row}>
+                <Text style={[styles.label, { color: colors.icon }]}>
+                  {t("payouts.nextPayDate")}
+                </Text>
+                <Text style={[styles.value, { color: colors.text }]}>
+                  {new Date(nextPayout.pay_date).toLocaleDateString()}
+                </Text>
+              </View>
+              <View style={styles.row}>
+                <Text style={[styles.label, { color: colors.icon }]}>
+                  {nextPayout.estimated
+                    ? t("payouts.estimatedAmount")
+                    : t("payouts.expectedAmount")}
+                </Text>
+                <Text style={[styles.value, { color: colors.success }]}>
+                  {formatCurrency(nextPayout.amount, nextPayout.currency)}
+                </Text>
+              </View>
+            </>
+          ) : (
+            <Text style={[styles.hint, { color: colors.icon }]}>
+              {t("payouts.noUpcoming")}
+            </Text>
+          )}
+
+          {unrecorded.map((payout) => (
+            <View
+              key={payout.pay_date}
+              style={[styles.dueRow, { borderTopColor: colors.border }]}
+            >
+              <Ionicons name="time-outline" size={18} color={colors.warning} />
+              <Text style={[styles.dueText, { color: colors.text }]}>
+                {t("payouts.awaiting", {
+                  date: new Date(payout.pay_date).toLocaleDateString(),
+                })}
+              </Text>
+              <TouchableOpacity onPress={() => setRecordingPayout(payout)}>
+                <Text style={[styles.link, { color: colors.primary }]}>
+                  {t("payouts.record")}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          ))}
+        </>
+      ) : (
+        <Text style={[styles.hint, { color: colors.icon }]}>
+          {t("payouts.noSchedule")}
+        </Text>
+      )}
+
+      <Button
+        size="small"
+        appearance="outline"
+        style={styles.editButton}
+        onPress={openEditor}
+      >
+        {schedule ? t("payouts.editSchedule") : t("payouts.setSchedule")}
+      </Button>
+
+      <Modal
+        visible={editing}
+        backdropStyle={styles.backdrop}
+        onBackdropPress={() => setEditing(false)}
+      >
+        <Card disabled style={styles.modalCard}>
+          <Text style={[styles.modalTitle, { color: colors.text }]}>
+            {t("payouts.scheduleTitle")}
+          </Text>
+          {!!investment.data.symbol && !!investment.data.exchange_market && (
+            <Button
+              size="small"
+              appearance="ghost"
+              style={styles.input}
+              disabled={lookingUp}
+              onPress={handleLookup}
+              accessoryLeft={() => (
+                <Ionicons
+                  name="cloud-download-outline"
+                  size={16}
+                  color={colors.primary}
+                />
+              )}
+            >
+              {t("payouts.fetchSchedule")}
+            </Button>
+          )}
+          <Select
+            label={t("payouts.frequency")}
+            selectedIndex={frequencyIndex}
+            onSelect={(index) => setFrequencyIndex(index as IndexPath)}
+            value={t(
+              `payouts.frequencies.${PAYOUT_FREQUENCIES[frequencyIndex.row].id}`,
+            )}
+            style={styles.input}
+          >
+            {PAYOUT_FREQUENCIES.map((option) => (
+              <SelectItem
+                key={option.id}
+                title={t(`payouts.frequencies.${option.id}`)}
+              />
+            ))}
+          </Select>
+          <Datepicker
+            label={t("payouts.payDate")}
+            date={payDate}
+            onSelect={setPayDate}
+            min={new Date(2000, 0, 1)}
+            max={new Date(new Date().getFullYear() + 5, 11, 31)}
+            style={styles.input}
+          />
+          <Datepicker
+            label={t("payouts.exDate")}
+            date={exDate ?? undefined}
+            onSelect={setExDate}
+            min={new Date(2000, 0, 1)}
+            max={new Date(new Date().getFullYear() + 5, 11, 31)}
+            style={styles.input}
+          />
+          <Input
+            label={t("payouts.amountPerUnit", {
+              currency: investment.data.currency,
+            })}
+            placeholder={t("payouts.amountPerUnitPlaceholder")}
+            value={amountPerUnit}
+            onChangeText={setAmountPerUnit}
+            keyboardType="decimal-pad"
+            style={styles.input}
+          />
+          <View style={styles.modalActions}>
+            {schedule && (
+              <Button
+                appearance="ghost"
+                status="danger"
+                disabled={saving}
+                onPress={() => saveSchedule(null)}
+              >
+                {t("payouts.removeSchedule")}
+              </Button>
+            )}
+            <Button disabled={saving} onPress={handleSave}>
+              {t("payouts.save")}
+            </Button>
+          </View>
+        </Card>
+      </Modal>
+
+      <RecordPayoutModal
+        payout={recordingPayout}
+        onClose={() => setRecordingPayout(null)}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: 6,
+  },
+  label: {
+    fontSize: 14,
+  },
+  value: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  hint: {
+    fontSize: 14,
+    paddingVertical: 8,
+  },
+  dueRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingTop: 10,
+    marginTop: 6,
+    borderTopWidth: 1,
+  },
+  dueText: {
+    flex: 1,
+    fontSize: 14,
+  },
+  link: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  editButton: {
+    marginTop: 12,
+    borderRadius: 12,
+  },
+  backdrop: {
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+  },
+  modalCard: {
+    width: 320,
+    borderRadius: 16,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginBottom: 12,
+  },
+  input: {
+    marginBottom: 12,
+  },
+  modalActions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: 8,
+    marginTop: 8,
+  },
+});
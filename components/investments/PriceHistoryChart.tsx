@@ -0,0 +1,257 @@
+import { Colors } from "@/constants/Colors";
+import { useLocalization } from "@/context/LocalizationContext";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import {
+  InvestmentData,
+  PRICE_HISTORY_RANGES,
+  PriceHistoryRange,
+} from "@/types/investment";
+import { formatCurrency } from "@/utils/currencyUtils";
+import {
+  calculateMoneyWeightedReturn,
+  calculateTimeWeightedReturn,
+  PeriodReturn,
+} from "@/utils/financeUtils";
+import {
+  filterPriceHistory,
+  getPriceHistory,
+  getPriceHistoryRangeStart,
+} from "@/utils/investmentUtils";
+import { Text } from "@ui-kitten/components";
+import React, { useMemo, useState } from "react";
+import { Dimensions, StyleSheet, TouchableOpacity, View } from "react-native";
+import Svg, { Line, Path, Polyline } from "react-native-svg";
+
+const CHART_HEIGHT = 160;
+const CHART_PADDING = 8;
+
+interface PriceHistoryChartProps {
+  investmentId: string;
+  data: InvestmentData;
+}
+
+/**
+ * Price of an investment over a selectable range, with the time- and
+ * money-weighted returns of that range
+ */
+export default function PriceHistoryChart({
+  investmentId,
+  data,
+}: PriceHistoryChartProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+  const { t } = useLocalization();
+  const [range, setRange] = useState<PriceHistoryRange>("6M");
+  const chartWidth = Dimensions.get("window").width - 72;
+
+  const points = useMemo(
+    () => filterPriceHistory(getPriceHistory(data), range),
+    [data, range],
+  );
+
+  const returns = useMemo(() => {
+    const investment = { id: investmentId, data };
+    const startDate = getPriceHistoryRangeStart(range);
+    return {
+      timeWeighted: calculateTimeWeightedReturn(investment, { startDate }),
+      moneyWeighted: calculateMoneyWeightedReturn(investment, { startDate }),
+    };
+  }, [investmentId, data, range]);
+
+  const chart = useMemo(() => {
+    if (points.length < 2) return null;
+
+    const times = points.map((point) => Date.parse(point.date));
+    const prices = points.map((point) => point.price);
+    const minTime = times[0];
+    const timeRange = times[times.length - 1] - minTime || 1;
+    const minPrice = Math.min(...prices);
+    const priceRange = Math.max(...prices) - minPrice || 1;
+    const height = CHART_HEIGHT - CHART_PADDING * 2;
+
+    const coordinates = points.map((point, index) => {
+      const x = ((times[index] - minTime) / timeRange) * chartWidth;
+      const y =
+        CHART_PADDING +
+        height -
+        ((point.price - minPrice) / priceRange) * height;
+      return `${x},${y}`;
+    });
+
+    return {
+      line: coordinates.join(" "),
+      area: `M 0,${CHART_HEIGHT} L ${coordinates.join(" L ")} L ${chartWidth},${CHART_HEIGHT} Z`,
+      change: prices[prices.length - 1] / prices[0] - 1,
+    };
+  }, [points, chartWidth]);
+
+  const formatPercentage = (value: number) =>
+    `${value >= 0 ? "+" : ""}${(value * 100).toFixed(2)}%`;
+
+  const renderReturn = (label: string, value: PeriodReturn | null) => (
+    <View style={styles.returnRow}>
+      <Text style={[styles.returnLabel, { color: colors.icon }]}>{label}</Text>
+      {value ? (
+        <Text
+          style={[
+            styles.returnValue,
+            { color: value.total >= 0 ? "#4CAF50" : "#F44336" },
+          ]}
+        >
+          {formatPercentage(value.total)}
+          {value.annualized !== null &&
+            ` (${t("priceHistory.perYear", {
+              value: formatPercentage(value.annualized),
+            })})`}
+        </Text>
+      ) : (
+        <Text style={[styles.returnValue, { color: colors.icon }]}>–</Text>
+      )}
+    </View>
+  );
+
+  return (
+    <View>
+      <View style={styles.rangeSelector}>
+        {PRICE_HISTORY_RANGES.map((option) => (
+          <TouchableOpacity
+            key={option}
+            style={[
+              styles.rangeOption,
+              {
+                backgroundColor:
+                  range === option ? colors.primary : colors.background,
+                borderColor: colors.border,
+              },
+            ]}
+            onPress={() => setRange(option)}
+          >
+            <Text
+              style={[
+                styles.rangeText,
+                { color: range === option ? "white" : colors.text },
+              ]}
+            >
+              {t(`priceHistory.ranges.${option}`)}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {chart ? (
+        <>
+          <View style={styles.summary}>
+            <Text style={[styles.summaryPrice, { color: colors.text }]}>
+              {formatCurrency(points[points.length - 1].price, data.currency)}
+            </Text>
+            <Text
+              style={[
+                styles.summaryChange,
+                { color: chart.change >= 0 ? "#4CAF50" : "#F44336" },
+              ]}
+            >
+              {formatPercentage(chart.change)}
+            </Text>
+          </View>
+          <Svg width={chartWidth} height={CHART_HEIGHT}>
+            {[0.25, 0.5, 0.75].map((ratio) => (
+              <Line
+                key={ratio}
+                x1={0}
+                y1={CHART_HEIGHT * ratio}
+                x2={chartWidth}
+                y2={CHART_HEIGHT * ratio}
+                stroke={colors.border}
+                strokeWidth={1}
+                opacity={0.3}
+              />
+            ))}
+            <Path d={chart.area} fill={colors.primary} fillOpacity={0.1} />
+            <Polyline
+              points={chart.line}
+              fill="none"
+              stroke={colors.primary}
+              strokeWidth={2}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            />
+          </Svg>
+          <View style={styles.axisLabels}>
+            <Text style={[styles.axisLabel, { color: colors.icon }]}>
+              {new Date(points[0].date).toLocaleDateString()}
+            </Text>
+            <Text style={[styles.axisLabel, { color: colors.icon }]}>
+              {new Date(points[points.length - 1].date).toLocaleDateString()}
+            </Text>
+          </View>
+        </>
+      ) : (
+        <Text style={[styles.emptyText, { color: colors.icon }]}>
+          {t("priceHistory.notEnoughData")}
+        </Text>
+      )}
+
+      {renderReturn(t("priceHistory.timeWeighted"), returns.timeWeighted)}
+      {renderReturn(t("priceHistory.moneyWeighted"), returns.moneyWeighted)}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  rangeSelector: {
+    flexDirection: "row",
+    gap: 8,
+    marginBottom: 12,
+  },
+  rangeOption: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  rangeText: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  summary: {
+    flexDirection: "row",
+    alignItems: "baseline",
+    gap: 8,
+    marginBottom: 8,
+  },
+  summaryPrice: {
+    fontSize: 18,
+    fontWeight: "700",
+  },
+  summaryChange: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  axisLabels: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: 4,
+    marginBottom: 12,
+  },
+  axisLabel: {
+    fontSize: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: "center",
+    paddingVertical: 24,
+  },
+  returnRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: 6,
+  },
+  returnLabel: {
+    fontSize: 14,
+  },
+  returnValue: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,156 @@
+import { Colors } from "@/constants/Colors";
+import { useInvestment } from "@/context/InvestmentContext";
+import { useLocalization } from "@/context/LocalizationContext";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import { formatCurrency } from "@/utils/currencyUtils";
+import { ExpectedPayout } from "@/utils/payoutUtils";
+import { normalizeDecimalForParsing } from "@/utils/stringUtils";
+import { Button, Card, Input, Modal, Text } from "@ui-kitten/components";
+import React, { useEffect, useState } from "react";
+import { Alert, StyleSheet, View } from "react-native";
+
+interface RecordPayoutModalProps {
+  payout: ExpectedPayout | null;
+  onClose: () => void;
+}
+
+/**
+ * Confirms the amount actually received for an expected payout and adds it
+ * to the ledger as a dividend
+ */
+export default function RecordPayoutModal({
+  payout,
+  onClose,
+}: RecordPayoutModalProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+  const { t } = useLocalization();
+  const { recordPayout } = useInvestment();
+  const [amount, setAmount] = useState("");
+  const [withholding, setWithholding] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setAmount(payout ? payout.amount.toFixed(2) : "");
+    setWithholding("");
+  }, [payout]);
+
+  const handleSave = async () => {
+    if (!payout) return;
+
+    const gross = Number(normalizeDecimalForParsing(amount));
+    const withheld = withholding.trim()
+      ? Number(normalizeDecimalForParsing(withholding))
+      : 0;
+    if (isNaN(gross) || gross <= 0) {
+      Alert.alert(
+        t("alerts.error"),
+        t("editInvestment.transactionAmountPositive"),
+      );
+      return;
+    }
+    if (isNaN(withheld) || withheld < 0 || withheld > gross) {
+      Alert.alert(
+        t("alerts.error"),
+        t("editInvestment.transactionWithholdingValid"),
+      );
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const result = await recordPayout(
+        payout.portfolio_id,
+        payout.investment_id,
+        { date: payout.pay_date, amount: gross, withholding_tax: withheld },
+      );
+      if (!result) {
+        Alert.alert(t("alerts.error"), t("payouts.recordFailed"));
+        return;
+      }
+      onClose();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={!!payout}
+      backdropStyle={styles.backdrop}
+      onBackdropPress={onClose}
+    >
+      <Card disabled style={styles.card}>
+        {payout && (
+          <>
+            <Text style={[styles.title, { color: colors.text }]}>
+              {t("payouts.recordTitle", { name: payout.name })}
+            </Text>
+            <Text style={[styles.subtitle, { color: colors.icon }]}>
+              {t("payouts.expectedOn", {
+                amount: formatCurrency(payout.amount, payout.currency),
+                date: new Date(payout.pay_date).toLocaleDateString(),
+              })}
+            </Text>
+            <Input
+              label={t("editInvestment.transactionAmount")}
+              value={amount}
+              onChangeText={setAmount}
+              keyboardType="decimal-pad"
+              style={styles.input}
+            />
+            <Input
+              label={t("editInvestment.transactionWithholding")}
+              placeholder="0"
+              value={withholding}
+              onChangeText={setWithholding}
+              keyboardType="decimal-pad"
+              style={styles.input}
+            />
+            <View style={styles.actions}>
+              <Button
+                appearance="ghost"
+                status="basic"
+                onPress={onClose}
+                disabled={saving}
+              >
+                {t("common.cancel")}
+              </Button>
+              <Button onPress={handleSave} disabled={saving}>
+                {t("payouts.record")}
+              </Button>
+            </View>
+          </>
+        )}
+      </Card>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+  },
+  card: {
+    width: 320,
+    borderRadius: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 14,
+    marginBottom: 16,
+  },
+  input: {
+    marginBottom: 12,
+  },
+  actions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: 8,
+    marginTop: 8,
+  },
+});
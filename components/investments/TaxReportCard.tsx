@@ -0,0 +1,316 @@
+import { Colors } from "@/constants/Colors";
+import { useLocalization } from "@/context/LocalizationContext";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import { apiFetchExchangeRates } from "@/services/exchangeRateService";
+import { InvestmentWithDecryptedData } from "@/types/investment";
+import { formatCurrency } from "@/utils/currencyUtils";
+import { getCrossRate } from "@/utils/exchangeRateUtils";
+import { getInvestmentTransactions } from "@/utils/investmentUtils";
+import {
+  buildTaxReportCsv,
+  buildTaxReportHtml,
+  calculateTaxReport,
+  COST_BASIS_METHODS,
+  CostBasisMethod,
+  getTaxReportRateDates,
+} from "@/utils/taxReportUtils";
+import { Ionicons } from "@expo/vector-icons";
+import { Button, Text } from "@ui-kitten/components";
+import * as FileSystem from "expo-file-system";
+import * as Print from "expo-print";
+import * as Sharing from "expo-sharing";
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+interface TaxReportCardProps {
+  investments: InvestmentWithDecryptedData[];
+  currency: string;
+}
+
+/**
+ * Realized gains and investment income of a fiscal year, with CSV and PDF
+ * export
+ */
+export default function TaxReportCard({
+  investments,
+  currency,
+}: TaxReportCardProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+  const { t } = useLocalization();
+
+  const years = useMemo(() => {
+    const found = new Set<number>([new Date().getFullYear()]);
+    investments.forEach((investment) =>
+      getInvestmentTransactions(investment.data).forEach((transaction) =>
+        found.add(new Date(transaction.date).getFullYear()),
+      ),
+    );
+    return [...found].filter((year) => !isNaN(year)).sort((a, b) => b - a);
+  }, [investments]);
+
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [method, setMethod] = useState<CostBasisMethod>("fifo");
+  const [rates, setRates] = useState<{ [key: string]: number | null }>({});
+  const [loadingRates, setLoadingRates] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  // Historical rates for every foreign-currency transaction up to the year
+  useEffect(() => {
+    let cancelled = false;
+    const needed = getTaxReportRateDates(investments, year, currency);
+    if (needed.length === 0) {
+      setRates({});
+      return;
+    }
+
+    setLoadingRates(true);
+    Promise.all(
+      needed.map(async ({ currency: from, date }) => {
+        const result = await apiFetchExchangeRates(currency, date);
+        return [
+          `${from}|${date}`,
+          result.success && result.data
+            ? getCrossRate(from, currency, result.data)
+            : null,
+        ] as const;
+      }),
+    )
+      .then((entries) => {
+        if (!cancelled) setRates(Object.fromEntries(entries));
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingRates(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [investments, year, currency]);
+
+  const report = useMemo(
+    () =>
+      calculateTaxReport(investments, {
+        year,
+        currency,
+        method,
+        getRate: (from, date) => rates[`${from}|${date}`] ?? null,
+      }),
+    [investments, year, currency, method, rates],
+  );
+
+  const handleExport = async (format: "csv" | "pdf") => {
+    setExporting(true);
+    try {
+      let fileUri: string;
+      if (format === "csv") {
+        fileUri =
+          FileSystem.documentDirectory + `piggus-tax-report-${year}.csv`;
+        await FileSystem.writeAsStringAsync(
+          fileUri,
+          buildTaxReportCsv(report, t),
+        );
+      } else {
+        const file = await Print.printToFileAsync({
+          html: buildTaxReportHtml(report, t, formatCurrency),
+        });
+        fileUri = file.uri;
+      }
+
+      if (await Sharing.isAvailableAsync()) {
+        await Sharing.shareAsync(fileUri, {
+          mimeType: format === "csv" ? "text/csv" : "application/pdf",
+          UTI:
+            format === "csv"
+              ? "public.comma-separated-values-text"
+              : "com.adobe.pdf",
+        });
+      } else {
+        Alert.alert(t("alerts.success"), t("taxReport.exportSaved"));
+      }
+    } catch (error) {
+      console.error("Tax report export error:", error);
+      Alert.alert(t("alerts.error"), t("taxReport.exportError"));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const totals: [string, number][] = [
+    [t("taxReport.totals.realizedGains"), report.totals.realizedGains],
+    [t("taxReport.totals.currencyGains"), report.totals.currencyGains],
+    [t("taxReport.totals.dividends"), report.totals.dividends],
+    [t("taxReport.totals.interest"), report.totals.interest],
+    [t("taxReport.totals.withholding"), report.totals.withholding],
+    [t("taxReport.totals.fees"), report.totals.fees],
+  ];
+
+  const renderChip = (
+    key: string,
+    label: string,
+    selected: boolean,
+    onPress: () => void,
+  ) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.chip,
+        {
+          backgroundColor: selected ? colors.primary : colors.background,
+          borderColor: colors.border,
+        },
+      ]}
+      onPress={onPress}
+    >
+      <Text
+        style={[styles.chipText, { color: selected ? "white" : colors.text }]}
+      >
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={[styles.card, { backgroundColor: colors.card }]}>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.chipRow}
+      >
+        {years.map((option) =>
+          renderChip(String(option), String(option), year === option, () =>
+            setYear(option),
+          ),
+        )}
+      </ScrollView>
+
+      <View style={styles.chipRow}>
+        {COST_BASIS_METHODS.map((option) =>
+          renderChip(
+            option,
+            t(`taxReport.methods.${option}`),
+            method === option,
+            () => setMethod(option),
+          ),
+        )}
+      </View>
+
+      {loadingRates ? (
+        <ActivityIndicator color={colors.primary} style={styles.loading} />
+      ) : (
+        <>
+          {totals.map(([label, value]) => (
+            <View key={label} style={styles.totalRow}>
+              <Text style={[styles.totalLabel, { color: colors.icon }]}>
+                {label}
+              </Text>
+              <Text style={[styles.totalValue, { color: colors.text }]}>
+                {formatCurrency(value, currency)}
+              </Text>
+            </View>
+          ))}
+          <Text style={[styles.note, { color: colors.icon }]}>
+            {t("taxReport.counts", {
+              sells: report.realizedGains.length,
+              payouts: report.income.length,
+            })}
+          </Text>
+          {report.missingRates && (
+            <View style={styles.warningRow}>
+              <Ionicons
+                name="warning-outline"
+                size={14}
+                color={colors.warning}
+              />
+              <Text style={[styles.note, { color: colors.warning }]}>
+                {t("taxReport.missingRates")}
+              </Text>
+            </View>
+          )}
+        </>
+      )}
+
+      <View style={styles.actions}>
+        <Button
+          size="small"
+          appearance="outline"
+          style={styles.actionButton}
+          disabled={exporting || loadingRates}
+          onPress={() => handleExport("csv")}
+        >
+          {t("taxReport.exportCsv")}
+        </Button>
+        <Button
+          size="small"
+          style={styles.actionButton}
+          disabled={exporting || loadingRates}
+          onPress={() => handleExport("pdf")}
+        >
+          {t("taxReport.exportPdf")}
+        </Button>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 16,
+    padding: 20,
+  },
+  chipRow: {
+    flexDirection: "row",
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  loading: {
+    paddingVertical: 24,
+  },
+  totalRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: 6,
+  },
+  totalLabel: {
+    fontSize: 14,
+  },
+  totalValue: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  note: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  warningRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  actions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: 8,
+    marginTop: 16,
+  },
+  actionButton: {
+    borderRadius: 12,
+  },
+});
@@ -0,0 +1,125 @@
+import { Colors } from "@/constants/Colors";
+import { useLocalization } from "@/context/LocalizationContext";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import { useNetWorth } from "@/hooks/useNetWorth";
+import { formatCurrency } from "@/utils/currencyUtils";
+import { Ionicons } from "@expo/vector-icons";
+import { Text } from "@ui-kitten/components";
+import { useRouter } from "expo-router";
+import React from "react";
+import { StyleSheet, TouchableOpacity, View } from "react-native";
+
+/**
+ * Net worth summary for the home tab, opens the net worth dashboard
+ */
+export default function NetWorthCard() {
+  const router = useRouter();
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+  const { t } = useLocalization();
+  const { currency, assets, liabilities, netWorth, history } = useNetWorth();
+
+  const previous = history.length > 1 ? history[history.length - 2] : null;
+  const change = previous ? netWorth - previous.net_worth : null;
+
+  return (
+    <TouchableOpacity
+      style={[
+        styles.card,
+        { backgroundColor: colors.card, shadowColor: colors.text },
+      ]}
+      onPress={() => router.push("/(protected)/net-worth")}
+    >
+      <View style={styles.header}>
+        <Text style={[styles.title, { color: colors.text }]}>
+          {t("netWorth.title")}
+        </Text>
+        <Ionicons name="chevron-forward" size={20} color={colors.icon} />
+      </View>
+      <Text
+        style={[
+          styles.total,
+          { color: netWorth < 0 ? colors.error : colors.text },
+        ]}
+      >
+        {formatCurrency(netWorth, currency)}
+      </Text>
+      {change !== null && (
+        <Text
+          style={[
+            styles.change,
+            { color: change >= 0 ? colors.success : colors.error },
+          ]}
+        >
+          {t("netWorth.sinceLastMonth", {
+            amount: `${change >= 0 ? "+" : ""}${formatCurrency(change, currency)}`,
+          })}
+        </Text>
+      )}
+      <View style={styles.split}>
+        <View>
+          <Text style={[styles.label, { color: colors.icon }]}>
+            {t("netWorth.assets")}
+          </Text>
+          <Text style={[styles.value, { color: colors.success }]}>
+            {formatCurrency(assets, currency)}
+          </Text>
+        </View>
+        <View style={styles.alignRight}>
+          <Text style={[styles.label, { color: colors.icon }]}>
+            {t("netWorth.liabilities")}
+          </Text>
+          <Text style={[styles.value, { color: colors.error }]}>
+            {formatCurrency(liabilities, currency)}
+          </Text>
+        </View>
+      </View>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginBottom: 24,
+    padding: 24,
+    borderRadius: 20,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "600",
+  },
+  total: {
+    fontSize: 28,
+    fontWeight: "700",
+  },
+  change: {
+    fontSize: 13,
+    marginTop: 4,
+  },
+  split: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: 16,
+  },
+  alignRight: {
+    alignItems: "flex-end",
+  },
+  label: {
+    fontSize: 12,
+  },
+  value: {
+    fontSize: 16,
+    fontWeight: "600",
+    marginTop: 2,
+  },
+});
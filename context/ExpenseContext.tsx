@@ -14,12 +14,22 @@ import {
   apiFetchExpensesPaginated,
   apiHandleGroupInvitation,
   apiInviteUserToGroup,
-  apiMoveExpense,
-  apiRemoveUserFromGroup,
+  apiMoveExpenses,
+  apiPurgeExpenses,
   apiUpdateExpense,
   apiUpdateExpenseGroup,
   apiUpdateRefund,
 } from "@/services/expenseService";
+import {
+  apiFetchExchangeRates,
+  apiResolveExpenseExchangeRate,
+} from "@/services/exchangeRateService";
+import {
+  apiDeleteReceipt,
+  apiFetchReceipt,
+  apiUploadReceipt,
+} from "@/services/attachmentService";
+import { apiFetchGroupActivity } from "@/services/activityService";
 import {
   apiCreateRecurringExpense,
   apiDeleteRecurringExpense,
@@ -27,23 +37,57 @@ import {
   apiProcessRecurringExpenses,
   apiUpdateRecurringExpense,
 } from "@/services/recurringExpenseService";
+import {
+  KeyRotationProgress,
+  apiRemoveUserAndRotateGroupKey,
+} from "@/services/keyRotationService";
+import {
+  DecryptedOutboxConflict,
+  OutboxConflictResolution,
+  apiFetchOutboxState,
+  apiReplayOutbox,
+  apiResolveOutboxConflict,
+} from "@/services/offlineService";
 import {
   ExpenseData,
   ExpenseGroupData,
+  ExpenseReceipt,
   ExpenseGroupWithDecryptedData,
   ExpenseWithDecryptedData,
+  GroupActivityWithDecryptedData,
   GroupRefund,
+  ReceiptImage,
   RecurringExpenseData,
   RecurringExpenseWithDecryptedData,
 } from "@/types/expense";
+import {
+  ExchangeRateTable,
+  FALLBACK_EXCHANGE_RATES,
+} from "@/utils/exchangeRateUtils";
+import { resplitExpense } from "@/utils/splitUtils";
+import {
+  getExpiredTrash,
+  getKnownTransactionIds,
+  getTrashRetentionDays,
+  getUnstampedTrash,
+} from "@/utils/trashUtils";
+import {
+  StatementTransaction,
+  statementTransactionToExpenseData,
+} from "@/utils/statementImportUtils";
 import React, {
   createContext,
   ReactNode,
   useCallback,
   useContext,
   useEffect,
+  useRef,
   useState,
 } from "react";
+import { AppState, AppStateStatus } from "react-native";
+
+// How often queued changes are retried while some are still pending
+const OUTBOX_RETRY_INTERVAL_MS = 30000;
 
 interface ExpenseContextType {
   expensesGroups: ExpenseGroupWithDecryptedData[];
@@ -54,6 +98,7 @@ interface ExpenseContextType {
   }[];
   isLoading: boolean;
   error: string | null;
+  exchangeRates: ExchangeRateTable;
   fetchExpensesForMonth: (
     year: number,
     month: number,
@@ -76,6 +121,34 @@ interface ExpenseContextType {
     },
   ) => Promise<ExpenseWithDecryptedData | null>;
   deleteExpense: (groupId: string, id: string) => Promise<void>;
+  purgeExpenses: (
+    groupId: string,
+    expenseIds: string[],
+  ) => Promise<{ success: boolean; error?: string }>;
+  purgeExpiredTrash: (
+    groupId: string,
+  ) => Promise<{ success: boolean; error?: string }>;
+  uploadReceipt: (
+    groupId: string,
+    image: ReceiptImage,
+  ) => Promise<{ success: boolean; data?: ExpenseReceipt; error?: string }>;
+  fetchReceipt: (
+    groupId: string,
+    attachmentId: string,
+  ) => Promise<{ success: boolean; data?: ReceiptImage; error?: string }>;
+  deleteReceipt: (
+    groupId: string,
+    attachmentId: string,
+  ) => Promise<{ success: boolean; error?: string }>;
+  fetchGroupActivity: (
+    groupId: string,
+    before?: string,
+  ) => Promise<{
+    success: boolean;
+    data?: GroupActivityWithDecryptedData[];
+    hasMore?: boolean;
+    error?: string;
+  }>;
   createExpensesGroup: (groupData: ExpenseGroupData) => Promise<void>;
   inviteUserToGroup: (
     groupId: string,
@@ -84,6 +157,7 @@ interface ExpenseContextType {
   removeUserFromGroup: (
     groupId: string,
     userId: string,
+    onProgress?: (progress: KeyRotationProgress) => void,
   ) => Promise<{ success: boolean; error?: string }>;
   updateExpenseGroup: (
     groupId: string,
@@ -128,14 +202,13 @@ interface ExpenseContextType {
     data?: ExpenseWithDecryptedData[];
     error?: string;
   }>;
-  moveExpense: (
-    expenseId: string,
+  moveExpenses: (
     fromGroupId: string,
     toGroupId: string,
-    updatedExpenseData: ExpenseData,
+    moves: { expenseId: string; data: ExpenseData }[],
   ) => Promise<{
     success: boolean;
-    data?: ExpenseWithDecryptedData;
+    data?: ExpenseWithDecryptedData[];
     error?: string;
   }>;
   syncBankTransactions: () => Promise<{
@@ -144,6 +217,13 @@ interface ExpenseContextType {
     updatedCount: number;
     error?: string;
   }>;
+  importStatementTransactions: (
+    transactions: StatementTransaction[],
+  ) => Promise<{
+    success: boolean;
+    addedCount: number;
+    error?: string;
+  }>;
   fetchAllExpensesForGroup: (
     groupId: string,
     force?: boolean,
@@ -152,6 +232,15 @@ interface ExpenseContextType {
     data?: ExpenseWithDecryptedData[];
     error?: string;
   }>;
+  refreshExpenses: () => Promise<void>;
+  isOffline: boolean;
+  pendingMutationsCount: number;
+  outboxConflicts: DecryptedOutboxConflict[];
+  syncOfflineChanges: () => Promise<void>;
+  resolveOutboxConflict: (
+    conflictId: string,
+    resolution: OutboxConflictResolution,
+  ) => Promise<{ success: boolean; error?: string }>;
 }
 
 const ExpenseContext = createContext<ExpenseContextType | undefined>(undefined);
@@ -182,9 +271,18 @@ export function ExpenseProvider({ children }: { children: ReactNode }) {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [cachedMonths, setCachedMonths] = useState<Set<string>>(new Set());
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRateTable>(
+    FALLBACK_EXCHANGE_RATES,
+  );
   const [fetchedGroupsCache, setFetchedGroupsCache] = useState<
     Record<string, number>
   >({}); // groupId -> timestamp
+  const [isOffline, setIsOffline] = useState(false);
+  const [pendingMutationsCount, setPendingMutationsCount] = useState(0);
+  const [outboxConflicts, setOutboxConflicts] = useState<
+    DecryptedOutboxConflict[]
+  >([]);
+  const isSyncingOutbox = useRef(false);
 
   const bulkUpdateExpenses = async (
     expenses: {
@@ -206,9 +304,20 @@ export function ExpenseProvider({ children }: { children: ReactNode }) {
         };
       }
 
+      const expensesWithRates = await Promise.all(
+        expenses.map(async (expense) => ({
+          ...expense,
+          data: await apiResolveExpenseExchangeRate(
+            expense.data,
+            expensesGroups.find((g) => g.id === expense.group_id)?.data
+              ?.currency,
+          ),
+        })),
+      );
+
       const result = await apiBulkInsertAndUpdateExpenses(
         user,
-        expenses,
+        expensesWithRates,
         encryptWithExternalEncryptionKey,
       );
 
@@ -418,6 +527,12 @@ export function ExpenseProvider({ children }: { children: ReactNode }) {
 
       // Get all expenses from all groups for duplicate checking
       const allExpenses = currentGroups.flatMap((group) => group.expenses);
+      // Transactions of purged expenses stay deleted
+      const purgedTransactionIds = new Set(
+        currentGroups.flatMap(
+          (group) => group.data?.deleted_transaction_ids || [],
+        ),
+      );
 
       // Prepare bulk operations
       const groupKeyMap = currentGroups.reduce(
@@ -439,6 +554,8 @@ export function ExpenseProvider({ children }: { children: ReactNode }) {
         // Skip positive transactions, we only want expenses
         if (transaction.amount > 0) continue;
 
+        if (purgedTransactionIds.has(transaction.id)) continue;
+
         // Use absolute value for negative amounts
         const expenseAmount = Math.abs(transaction.amount);
 
@@ -454,29 +571,9 @@ export function ExpenseProvider({ children }: { children: ReactNode }) {
           }
 
           // Update existing expense - preserve split ratios when amount changes
-          let totalAllocated = 0;
-          const updatedParticipants = existingExpense.data.participants.map(
-            (participant, index, array) => {
-              let newShareAmount;
-
-              // For the last participant, give them the remainder to avoid rounding errors
-              if (index === array.length - 1) {
-                newShareAmount =
-                  Math.round((expenseAmount - totalAllocated) * 100) / 100;
-              } else {
-                // Calculate proportional share and round
-                const shareRatio =
-                  participant.share_amount / existingExpense.data.amount;
-                newShareAmount =
-                  Math.round(expenseAmount * shareRatio * 100) / 100;
-                totalAllocated += newShareAmount;
-              }
-
-              return {
-                ...participant,
-                share_amount: newShareAmount,
-              };
-            },
+          const updatedParticipants = resplitExpense(
+            existingExpense.data,
+            expenseAmount,
           );
 
           bulkOperations.push({
@@ -564,6 +661,97 @@ export function ExpenseProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  const importStatementTransactions = async (
+    transactions: StatementTransaction[],
+  ): Promise<{
+    success: boolean;
+    addedCount: number;
+    error?: string;
+  }> => {
+    try {
+      if (!user || !isEncryptionInitialized || !userProfile) {
+        return {
+          success: false,
+          addedCount: 0,
+          error: "User authentication or encryption not available",
+        };
+      }
+
+      const personalGroup = expensesGroups.find((g) => g.data.private);
+      if (!personalGroup) {
+        return {
+          success: false,
+          addedCount: 0,
+          error: "No personal group found",
+        };
+      }
+
+      // Statements can reach back past the loaded months, so check the
+      // rows against every expense of the personal group
+      const allExpenses = await fetchAllExpensesForGroup(personalGroup.id);
+      const personalExpenses = allExpenses.data;
+      if (!allExpenses.success || !personalExpenses) {
+        return {
+          success: false,
+          addedCount: 0,
+          error: allExpenses.error || "Failed to load existing expenses",
+        };
+      }
+
+      // Guard against rows imported in the meantime (e.g. by a bank sync)
+      // and against purged ones
+      const knownTransactionIds = getKnownTransactionIds(
+        expensesGroups.map((group) =>
+          group.id === personalGroup.id
+            ? { ...group, expenses: personalExpenses }
+            : group,
+        ),
+      );
+      const defaultCurrency =
+        personalGroup.data.currency ||
+        userProfile.profile?.defaultCurrency ||
+        "EUR";
+
+      const bulkOperations = transactions
+        .filter(
+          (transaction) =>
+            transaction.amount < 0 && !knownTransactionIds.has(transaction.id),
+        )
+        .map((transaction) => ({
+          data: statementTransactionToExpenseData(
+            transaction,
+            user.id,
+            userProfile.username,
+            defaultCurrency,
+          ),
+          group_id: personalGroup.id,
+          group_key: personalGroup.encrypted_key,
+        }));
+
+      if (bulkOperations.length === 0) {
+        return { success: true, addedCount: 0 };
+      }
+
+      const result = await bulkUpdateExpenses(bulkOperations);
+      if (!result.success) {
+        return {
+          success: false,
+          addedCount: 0,
+          error: result.error || "Failed to import expenses",
+        };
+      }
+
+      return { success: true, addedCount: bulkOperations.length };
+    } catch (error: any) {
+      console.error("Error importing statement transactions:", error);
+      return {
+        success: false,
+        addedCount: 0,
+        error: error.message || "Failed to import statement transactions",
+      };
+    }
+  };
+
   const performAutoSyncIfNeeded = async (
     groupsToUse?: ExpenseGroupWithDecryptedData[],
   ) => {
@@ -631,6 +819,7 @@ export function ExpenseProvider({ children }: { children: ReactNode }) {
         decryptWithPrivateKey,
         decryptWithExternalEncryptionKey,
       );
+      setIsOffline(!!result.offline);
       if (result.success && result.data) {
         // Fetch current and previous month expenses for each group
         const now = new Date();
@@ -702,6 +891,13 @@ export function ExpenseProvider({ children }: { children: ReactNode }) {
           newSet.add(prevMonthKey);
           return newSet;
         });
+        await loadOutboxState(groupsWithRecentExpenses);
+
+        // Cached data is all there is offline, the rest needs the server
+        if (result.offline) {
+          setIsLoading(false);
+          return;
+        }
 
         // Pass fresh groups to auto-sync to avoid stale closure
         await performAutoSyncIfNeeded(groupsWithRecentExpenses);
@@ -825,6 +1021,96 @@ export function ExpenseProvider({ children }: { children: ReactNode }) {
     });
   };
 
+  // Reloads groups from scratch, e.g. after data was restored from a backup
+  const refreshExpenses = async () => {
+    clearMonthCache();
+    setFetchedGroupsCache({});
+    await fetchExpensesForCurrentMonth();
+  };
+
+  const loadOutboxState = async (
+    groups: ExpenseGroupWithDecryptedData[] = expensesGroups,
+  ) => {
+    if (!user) return;
+    const result = await apiFetchOutboxState(
+      user,
+      groups,
+      decryptWithExternalEncryptionKey,
+    );
+    if (result.success && result.data) {
+      setPendingMutationsCount(result.data.pendingCount);
+      setOutboxConflicts(result.data.conflicts);
+    }
+  };
+
+  // Called after a change was queued because the server could not be reached
+  const handleQueuedMutation = async () => {
+    setIsOffline(true);
+    await loadOutboxState();
+  };
+
+  /**
+   * Replays changes made offline and reloads expenses when any reached the
+   * server or turned out to conflict with someone else's change
+   */
+  const syncOfflineChanges = async () => {
+    if (!user || !isEncryptionInitialized || isSyncingOutbox.current) return;
+
+    isSyncingOutbox.current = true;
+    try {
+      // Avoid reloading everything while the server is still unreachable
+      if (isOffline && !(await piggusApi.healthCheck()).success) return;
+
+      const result = await apiReplayOutbox(
+        user,
+        decryptWithPrivateKey,
+        encryptWithExternalEncryptionKey,
+        decryptWithExternalEncryptionKey,
+      );
+      if (!result.success || !result.data) {
+        console.error(result.error || "Failed to sync offline changes");
+        return;
+      }
+
+      if (result.data.offline) {
+        setIsOffline(true);
+        await loadOutboxState();
+      } else if (
+        result.data.applied > 0 ||
+        result.data.conflicts > 0 ||
+        isOffline
+      ) {
+        await refreshExpenses();
+      } else {
+        await loadOutboxState();
+      }
+    } finally {
+      isSyncingOutbox.current = false;
+    }
+  };
+
+  const resolveOutboxConflict = async (
+    conflictId: string,
+    resolution: OutboxConflictResolution,
+  ) => {
+    if (!user) {
+      return { success: false, error: "Not authenticated" };
+    }
+
+    const result = await apiResolveOutboxConflict(user, conflictId, resolution);
+    if (!result.success) {
+      setError(result.error || "Failed to resolve conflict");
+      return result;
+    }
+
+    if (resolution === "keepLocal") {
+      await syncOfflineChanges();
+    } else {
+      await refreshExpenses();
+    }
+    return result;
+  };
+
   const fetchExpensesForMonth = useCallback(
     async (year: number, month: number, forceRefresh = false) => {
       return new Promise<void>((resolve, reject) => {
@@ -975,15 +1261,21 @@ export function ExpenseProvider({ children }: { children: ReactNode }) {
         return null;
       }
 
+      const expenseWithRate = await apiResolveExpenseExchangeRate(
+        expense,
+        group.data?.currency,
+      );
+
       const result = await apiAddExpense(
         user,
         groupId,
         groupKey,
-        expense,
+        expenseWithRate,
         decryptWithPrivateKey,
         encryptWithExternalEncryptionKey,
       );
       const addedExpense = result.data;
+      if (result.queued) await handleQueuedMutation();
       if (result.success && addedExpense) {
         // Add to local state
         setExpensesGroups((prev) =>
@@ -1036,15 +1328,26 @@ export function ExpenseProvider({ children }: { children: ReactNode }) {
         return null;
       }
 
+      const expenseWithRate = {
+        ...updatedExpense,
+        data: await apiResolveExpenseExchangeRate(
+          updatedExpense.data,
+          group.data?.currency,
+        ),
+      };
+
       const result = await apiUpdateExpense(
         user,
         groupId,
         groupKey,
-        updatedExpense,
+        expenseWithRate,
         decryptWithPrivateKey,
         encryptWithExternalEncryptionKey,
+        group.expenses.find((expense) => expense.id === updatedExpense.id)
+          ?.data,
       );
       const changedExpense = result.data;
+      if (result.queued) await handleQueuedMutation();
       if (changedExpense) {
         // Update in local state
         setExpensesGroups((prev) =>
@@ -1080,7 +1383,15 @@ export function ExpenseProvider({ children }: { children: ReactNode }) {
         return;
       }
 
-      const result = await apiDeleteExpense(user, groupId, id);
+      const group = expensesGroups.find((g) => g.id === groupId);
+      const result = await apiDeleteExpense(
+        user,
+        groupId,
+        id,
+        group?.encrypted_key,
+        group?.expenses.find((expense) => expense.id === id)?.data,
+      );
+      if (result.queued) await handleQueuedMutation();
 
       if (result) {
         // Remove from local state
@@ -1104,6 +1415,139 @@ export function ExpenseProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  // Deletes trashed expenses for good, leaving tombstones for bank sync
+  const purgeGroupExpenses = async (
+    group: ExpenseGroupWithDecryptedData,
+    expenses: ExpenseWithDecryptedData[],
+  ) => {
+    if (!user || !isEncryptionInitialized) {
+      return { success: false, error: "Not authenticated" };
+    }
+
+    const result = await apiPurgeExpenses(
+      user,
+      group.id,
+      group.encrypted_key,
+      expenses,
+      encryptWithExternalEncryptionKey,
+      decryptWithExternalEncryptionKey,
+    );
+    const purged = result.data;
+    if (purged) {
+      setExpensesGroups((prev) =>
+        prev.map((g) =>
+          g.id === group.id
+            ? {
+                ...g,
+                data: purged.groupData,
+                expenses: g.expenses.filter(
+                  (expense) => !purged.purgedIds.includes(expense.id),
+                ),
+              }
+            : g,
+        ),
+      );
+    }
+    return { success: result.success, error: result.error };
+  };
+
+  const purgeExpenses = async (groupId: string, expenseIds: string[]) => {
+    try {
+      const group = expensesGroups.find((g) => g.id === groupId);
+      if (!group) {
+        return { success: false, error: "Group not found" };
+      }
+
+      const result = await purgeGroupExpenses(
+        group,
+        group.expenses.filter((expense) => expenseIds.includes(expense.id)),
+      );
+      if (!result.success) {
+        setError(result.error || "Failed to delete expenses");
+      }
+      return result;
+    } catch (error: any) {
+      console.error("Failed to purge expenses:", error);
+      const errorMessage = error.message || "Failed to delete expenses";
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    }
+  };
+
+  const purgeExpiredTrash = async (groupId: string) => {
+    try {
+      const group = expensesGroups.find((g) => g.id === groupId);
+      if (!group) {
+        return { success: false, error: "Group not found" };
+      }
+
+      // Expired trash can be from any month, so load the whole group first
+      const loaded = await fetchAllExpensesForGroup(groupId, true);
+      if (!loaded.success || !loaded.data) {
+        return { success: false, error: loaded.error };
+      }
+
+      // Trash from before deletion dates were recorded starts its retention now
+      const unstamped = getUnstampedTrash(loaded.data);
+      if (unstamped.length > 0) {
+        const deletedAt = new Date().toISOString();
+        const stamped = await bulkUpdateExpenses(
+          unstamped.map((expense) => ({
+            id: expense.id,
+            data: { ...expense.data, deleted_at: deletedAt },
+            group_id: groupId,
+            group_key: group.encrypted_key,
+          })),
+        );
+        if (!stamped.success) {
+          return { success: false, error: stamped.error };
+        }
+      }
+
+      const expiredTrash = getExpiredTrash(
+        loaded.data,
+        getTrashRetentionDays(group),
+      );
+      if (expiredTrash.length === 0) {
+        return { success: true };
+      }
+      return await purgeGroupExpenses(group, expiredTrash);
+    } catch (error: any) {
+      console.error("Failed to purge expired trash:", error);
+      return {
+        success: false,
+        error: error.message || "Failed to purge expired trash",
+      };
+    }
+  };
+
+  const uploadReceipt = async (groupId: string, image: ReceiptImage) => {
+    const group = expensesGroups.find((g) => g.id === groupId);
+    if (!group) {
+      return { success: false, error: "Group not found" };
+    }
+    return apiUploadReceipt(groupId, group.encrypted_key, image);
+  };
+
+  const fetchReceipt = async (groupId: string, attachmentId: string) => {
+    const group = expensesGroups.find((g) => g.id === groupId);
+    if (!group) {
+      return { success: false, error: "Group not found" };
+    }
+    return apiFetchReceipt(groupId, group.encrypted_key, attachmentId);
+  };
+
+  const deleteReceipt = async (groupId: string, attachmentId: string) =>
+    apiDeleteReceipt(groupId, attachmentId);
+
+  const fetchGroupActivity = async (groupId: string, before?: string) => {
+    const group = expensesGroups.find((g) => g.id === groupId);
+    if (!group) {
+      return { success: false, error: "Group not found" };
+    }
+    return apiFetchGroupActivity(groupId, group.encrypted_key, before);
+  };
+
   const inviteUserToGroup = async (groupId: string, username: string) => {
     try {
       if (!user || !isEncryptionInitialized) {
@@ -1136,31 +1580,42 @@ export function ExpenseProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const removeUserFromGroup = async (groupId: string, userId: string) => {
+  // Removing a member also moves the group to a new key; an interrupted
+  // removal is resumed by calling this again with the same member
+  const removeUserFromGroup = async (
+    groupId: string,
+    userId: string,
+    onProgress?: (progress: KeyRotationProgress) => void,
+  ) => {
     try {
-      if (!user || !isEncryptionInitialized) {
+      if (!user || !publicKey || !isEncryptionInitialized) {
         console.error("You must be logged in to remove a user");
         setError("You must be logged in to remove a user");
         return { success: false, error: "Not authenticated" };
       }
 
-      const result = await apiRemoveUserFromGroup(user, groupId, userId);
+      const group = expensesGroups.find((g) => g.id === groupId);
+      if (!group) {
+        return { success: false, error: "Group not found" };
+      }
+
+      const result = await apiRemoveUserAndRotateGroupKey(
+        user,
+        publicKey,
+        groupId,
+        userId,
+        group.encrypted_key,
+        createEncryptionKey,
+        decryptWithPrivateKey,
+        encryptWithExternalPublicKey,
+        encryptWithExternalEncryptionKey,
+        decryptWithExternalEncryptionKey,
+        onProgress,
+      );
 
       if (result.success) {
-        // Update local state to remove the user from the group
-        setExpensesGroups((prev) =>
-          prev.map((group) => {
-            if (group.id === groupId) {
-              return {
-                ...group,
-                members: group.members.filter(
-                  (member) => member.user_id !== userId,
-                ),
-              };
-            }
-            return group;
-          }),
-        );
+        // Cached groups still hold the previous key
+        await refreshExpenses();
       } else {
         setError(result.error || "Failed to remove user");
       }
@@ -1184,7 +1639,12 @@ export function ExpenseProvider({ children }: { children: ReactNode }) {
         return { success: false, error: "Not authenticated" };
       }
 
-      const result = await apiHandleGroupInvitation(user, groupId, accept);
+      const result = await apiHandleGroupInvitation(
+        user,
+        groupId,
+        accept,
+        expensesGroups.find((g) => g.id === groupId)?.encrypted_key,
+      );
 
       if (result.success) {
         // Update local state
@@ -1586,11 +2046,10 @@ export function ExpenseProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const moveExpense = async (
-    expenseId: string,
+  const moveExpenses = async (
     fromGroupId: string,
     toGroupId: string,
-    updatedExpenseData: ExpenseData,
+    moves: { expenseId: string; data: ExpenseData }[],
   ) => {
     try {
       if (!user || !isEncryptionInitialized) {
@@ -1609,14 +2068,6 @@ export function ExpenseProvider({ children }: { children: ReactNode }) {
         return { success: false, error: "Group not found" };
       }
 
-      // Get the expense to move
-      const expenseToMove = fromGroup.expenses.find((e) => e.id === expenseId);
-      if (!expenseToMove) {
-        console.error("Expense not found in source group");
-        setError("Expense not found");
-        return { success: false, error: "Expense not found" };
-      }
-
       // Get group keys
       const fromGroupKey = fromGroup.encrypted_key;
       const toGroupKey = toGroup.encrypted_key;
@@ -1626,55 +2077,75 @@ export function ExpenseProvider({ children }: { children: ReactNode }) {
         return { success: false, error: "Encryption keys not available" };
       }
 
-      const result = await apiMoveExpense(
+      const prepared: {
+        expense: ExpenseWithDecryptedData;
+        data: ExpenseData;
+      }[] = [];
+      for (const move of moves) {
+        const expense = fromGroup.expenses.find((e) => e.id === move.expenseId);
+        if (!expense) {
+          console.error("Expense not found in source group");
+          setError("Expense not found");
+          return { success: false, error: "Expense not found" };
+        }
+
+        const data = await apiResolveExpenseExchangeRate(
+          move.data,
+          toGroup.data?.currency,
+        );
+        prepared.push({ expense, data });
+      }
+
+      const result = await apiMoveExpenses(
         user,
-        expenseId,
         fromGroupId,
         toGroupId,
         fromGroupKey,
         toGroupKey,
-        updatedExpenseData,
-        decryptWithExternalEncryptionKey,
+        prepared,
         encryptWithExternalEncryptionKey,
       );
+      const movedExpenses = result.data;
 
-      if (result.success && result.data) {
-        // Update local state: remove from source group and add to destination group
-        setExpensesGroups((prev) =>
-          prev.map((group) => {
-            if (group.id === fromGroupId) {
-              // Remove expense from source group
-              return {
-                ...group,
-                expenses: group.expenses.filter((e) => e.id !== expenseId),
-              };
-            } else if (group.id === toGroupId) {
-              // Add expense to destination group
-              return {
-                ...group,
-                expenses: [result.data!, ...group.expenses],
-              };
-            }
-            return group;
-          }),
-        );
-        return { success: true, data: result.data };
-      } else {
-        setError(result.error || "Failed to move expense");
-        return {
-          success: false,
-          error: result.error || "Failed to move expense",
-        };
+      if (!result.success || !movedExpenses) {
+        throw new Error(result.error || "Failed to move expense");
       }
+
+      // Update local state: remove from source group and add to destination group
+      const movedIds = movedExpenses.map((expense) => expense.id);
+      setExpensesGroups((prev) =>
+        prev.map((group) => {
+          if (group.id === fromGroupId) {
+            return {
+              ...group,
+              expenses: group.expenses.filter((e) => !movedIds.includes(e.id)),
+            };
+          } else if (group.id === toGroupId) {
+            return {
+              ...group,
+              expenses: [...movedExpenses, ...group.expenses],
+            };
+          }
+          return group;
+        }),
+      );
+      return { success: true, data: movedExpenses };
     } catch (error: any) {
-      console.error("Failed to move expense:", error);
+      console.error("Failed to move expenses:", error);
       const errorMessage = error.message || "Failed to move expense";
       setError(errorMessage);
       return { success: false, error: errorMessage };
     }
   };
 
-  const fetchAllExpensesForGroup = async (groupId: string, force = false) => {
+  const fetchAllExpensesForGroup = async (
+    groupId: string,
+    force = false,
+  ): Promise<{
+    success: boolean;
+    data?: ExpenseWithDecryptedData[];
+    error?: string;
+  }> => {
     try {
       if (!user || !isEncryptionInitialized) {
         return {
@@ -1761,14 +2232,74 @@ export function ExpenseProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  // Load today's rates for the profile currency, used to convert totals across groups
+  const defaultCurrency = userProfile?.profile?.defaultCurrency || "EUR";
+  useEffect(() => {
+    if (!user) return;
+    apiFetchExchangeRates(defaultCurrency)
+      .then((result) => {
+        if (result.success && result.data) {
+          setExchangeRates(result.data);
+        }
+      })
+      .catch((error) => console.error("Failed to load exchange rates:", error));
+  }, [user, defaultCurrency]);
+
   useEffect(() => {
     if (isEncryptionInitialized && user && userProfile) {
-      fetchExpensesForCurrentMonth().catch((error) =>
-        console.error("Failed to fetch expenses:", error),
-      );
+      // Replay changes left from an earlier session before loading, unless
+      // a sync started by the app coming to the foreground already does
+      const replayOutbox = async () => {
+        if (isSyncingOutbox.current) return;
+        isSyncingOutbox.current = true;
+        try {
+          await apiReplayOutbox(
+            user,
+            decryptWithPrivateKey,
+            encryptWithExternalEncryptionKey,
+            decryptWithExternalEncryptionKey,
+          );
+        } finally {
+          isSyncingOutbox.current = false;
+        }
+      };
+      replayOutbox()
+        .then(() => fetchExpensesForCurrentMonth())
+        .catch((error) => console.error("Failed to fetch expenses:", error));
     }
   }, [user?.id, userProfile?.id, isEncryptionInitialized]); // Only re-run when user/profile/encryption changes, not when fetchExpensesForCurrentMonth changes
 
+  // Interval and app state callbacks would otherwise keep a stale closure
+  const syncOfflineChangesRef = useRef(syncOfflineChanges);
+  syncOfflineChangesRef.current = syncOfflineChanges;
+
+  useEffect(() => {
+    const handleAppStateChange = (nextAppState: AppStateStatus) => {
+      if (nextAppState === "active") {
+        syncOfflineChangesRef.current();
+      }
+    };
+
+    const subscription = AppState.addEventListener(
+      "change",
+      handleAppStateChange,
+    );
+
+    return () => {
+      subscription?.remove();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!isOffline && pendingMutationsCount === 0) return;
+
+    const interval = setInterval(
+      () => syncOfflineChangesRef.current(),
+      OUTBOX_RETRY_INTERVAL_MS,
+    );
+    return () => clearInterval(interval);
+  }, [isOffline, pendingMutationsCount]);
+
   return (
     <ExpenseContext.Provider
       value={{
@@ -1777,9 +2308,16 @@ export function ExpenseProvider({ children }: { children: ReactNode }) {
         failedRecurringExpenses,
         isLoading,
         error,
+        exchangeRates,
         addExpense,
         updateExpense,
         deleteExpense,
+        purgeExpenses,
+        purgeExpiredTrash,
+        uploadReceipt,
+        fetchReceipt,
+        fetchGroupActivity,
+        deleteReceipt,
         createExpensesGroup,
         inviteUserToGroup,
         removeUserFromGroup,
@@ -1793,12 +2331,19 @@ export function ExpenseProvider({ children }: { children: ReactNode }) {
         updateRefund,
         deleteRefund,
         bulkUpdateExpenses,
-        moveExpense,
+        moveExpenses,
         syncBankTransactions,
+        importStatementTransactions,
         fetchExpensesForMonth,
         cachedMonths,
         clearMonthCache,
         fetchAllExpensesForGroup,
+        refreshExpenses,
+        isOffline,
+        pendingMutationsCount,
+        outboxConflicts,
+        syncOfflineChanges,
+        resolveOutboxConflict,
       }}
     >
       {children}
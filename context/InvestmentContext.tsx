@@ -1,6 +1,8 @@
 import { useAuth } from "@/context/AuthContext";
 import { useEncryption } from "@/context/EncryptionContext";
+import { useLocalization } from "@/context/LocalizationContext";
 import { useProfile } from "@/context/ProfileContext";
+import { apiFetchExchangeRates } from "@/services/exchangeRateService";
 import {
   apiAddInvestment,
   apiCreatePortfolio,
@@ -9,15 +11,32 @@ import {
   apiHandlePortfolioInvitation,
   apiInviteUserToPortfolio,
   apiLookupInvestmentBySymbol,
-  apiRemoveUserFromPortfolio,
   apiUpdateInvestment,
   apiUpdatePortfolio,
 } from "@/services/investmentService";
+import {
+  KeyRotationProgress,
+  apiRemoveUserAndRotatePortfolioKey,
+} from "@/services/keyRotationService";
 import {
   InvestmentData,
+  InvestmentTransaction,
   InvestmentWithDecryptedData,
 } from "@/types/investment";
 import { PortfolioData, PortfolioWithDecryptedData } from "@/types/portfolio";
+import {
+  addAssetSnapshot,
+  buildAssetSnapshot,
+} from "@/utils/assetSnapshotUtils";
+import {
+  getInvestmentTransactions,
+  recordPricePoint,
+} from "@/utils/investmentUtils";
+import {
+  buildMaturitySettlement,
+  getMaturitySettlementId,
+  getUnsettledMaturities,
+} from "@/utils/maturityUtils";
 import { encodeStringForUrl } from "@/utils/stringUtils";
 import React, {
   createContext,
@@ -25,8 +44,11 @@ import React, {
   useCallback,
   useContext,
   useEffect,
+  useRef,
   useState,
 } from "react";
+import "react-native-get-random-values";
+import { v4 as uuidv4 } from "uuid";
 
 interface InvestmentContextType {
   portfolios: PortfolioWithDecryptedData[];
@@ -48,6 +70,11 @@ interface InvestmentContextType {
     },
   ) => Promise<InvestmentWithDecryptedData | null>;
   deleteInvestment: (portfolioId: string, id: string) => Promise<void>;
+  recordPayout: (
+    portfolioId: string,
+    investmentId: string,
+    payout: { date: string; amount: number; withholding_tax?: number | null },
+  ) => Promise<InvestmentWithDecryptedData | null>;
   createPortfolio: (portfolioData: PortfolioData) => Promise<void>;
   inviteUserToPortfolio: (
     portfolioId: string,
@@ -56,6 +83,7 @@ interface InvestmentContextType {
   removeUserFromPortfolio: (
     portfolioId: string,
     userId: string,
+    onProgress?: (progress: KeyRotationProgress) => void,
   ) => Promise<{ success: boolean; error?: string }>;
   updatePortfolio: (
     portfolioId: string,
@@ -84,12 +112,15 @@ export function InvestmentProvider({ children }: { children: ReactNode }) {
     encryptWithExternalEncryptionKey,
   } = useEncryption();
   const { userProfile, updateProfile } = useProfile();
+  const { t } = useLocalization();
   const [portfolios, setPortfolios] = useState<PortfolioWithDecryptedData[]>(
     [],
   );
   const [isLoading, setIsLoading] = useState(false);
   const [isSyncing, setIsSyncing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Overlapping portfolio loads must not settle the same maturity twice
+  const isSettlingRef = useRef(false);
 
   const createPortfolio = async (portfolioData: PortfolioData) => {
     try {
@@ -150,7 +181,12 @@ export function InvestmentProvider({ children }: { children: ReactNode }) {
         user,
         portfolioId,
         portfolioKey,
-        investment,
+        recordPricePoint(
+          investment,
+          investment.current_price,
+          new Date().toISOString(),
+          "manual",
+        ),
         decryptWithPrivateKey,
         encryptWithExternalEncryptionKey,
       );
@@ -208,11 +244,34 @@ export function InvestmentProvider({ children }: { children: ReactNode }) {
           return null;
         }
 
+        // A price typed in by hand becomes today's point in the history
+        const previous = portfolio.investments.find(
+          (investment) => investment.id === updatedInvestment.id,
+        );
+        const data = {
+          ...updatedInvestment.data,
+          price_history:
+            updatedInvestment.data.price_history ??
+            previous?.data.price_history,
+        };
+        const investmentWithHistory = {
+          ...updatedInvestment,
+          data:
+            data.current_price !== previous?.data.current_price
+              ? recordPricePoint(
+                  data,
+                  data.current_price,
+                  new Date().toISOString(),
+                  "manual",
+                )
+              : data,
+        };
+
         const result = await apiUpdateInvestment(
           user,
           portfolioId,
           portfolioKey,
-          updatedInvestment,
+          investmentWithHistory,
           decryptWithPrivateKey,
           encryptWithExternalEncryptionKey,
         );
@@ -254,6 +313,50 @@ export function InvestmentProvider({ children }: { children: ReactNode }) {
     ],
   );
 
+  // Adds a received dividend or coupon to the investment's ledger
+  const recordPayout = useCallback(
+    async (
+      portfolioId: string,
+      investmentId: string,
+      payout: { date: string; amount: number; withholding_tax?: number | null },
+    ) => {
+      const investment = portfolios
+        .find((portfolio) => portfolio.id === portfolioId)
+        ?.investments.find((item) => item.id === investmentId);
+      if (!investment) {
+        console.error("Investment not found");
+        setError("Investment not found");
+        return null;
+      }
+
+      const transaction: InvestmentTransaction = {
+        id: uuidv4(),
+        type: "dividend",
+        date: new Date(payout.date).toISOString(),
+        quantity: 0,
+        price: 0,
+        amount: payout.amount,
+        withholding_tax: payout.withholding_tax || null,
+        notes: null,
+      };
+
+      return updateInvestment(portfolioId, {
+        ...investment,
+        data: {
+          ...investment.data,
+          transactions: getInvestmentTransactions({
+            ...investment.data,
+            transactions: [
+              ...getInvestmentTransactions(investment.data),
+              transaction,
+            ],
+          }),
+        },
+      });
+    },
+    [portfolios, updateInvestment],
+  );
+
   const deleteInvestment = async (portfolioId: string, id: string) => {
     try {
       if (!user) {
@@ -293,37 +396,24 @@ export function InvestmentProvider({ children }: { children: ReactNode }) {
       if (!userProfile?.profile) return;
 
       const today = new Date().toISOString().split("T")[0];
-      if (
-        userProfile?.profile?.finances?.historicalAssets &&
-        userProfile.profile.finances.historicalAssets[today]
-      ) {
+      if (userProfile.profile.finances?.assetSnapshots?.[today]) {
         return;
       }
 
-      const totalValue = userPortfolios.reduce((portfolioSum, portfolio) => {
-        return (
-          portfolioSum +
-          portfolio.investments.reduce((investmentSum, investment) => {
-            const currentValue =
-              (investment.data.quantity || 1) *
-              (investment.data.current_price ||
-                investment.data.purchase_price ||
-                0);
-            return investmentSum + currentValue;
-          }, 0)
-        );
-      }, 0);
-
-      const profile = userProfile?.profile;
-      if (!profile.finances) {
-        profile.finances = {
-          historicalAssets: {},
-        };
-      }
-      if (!profile?.finances.historicalAssets) {
-        profile.finances.historicalAssets = {};
+      const currency = userProfile.profile.defaultCurrency || "EUR";
+      const ratesResult = await apiFetchExchangeRates(currency);
+      if (!ratesResult.success || !ratesResult.data) {
+        console.error("Failed to fetch exchange rates:", ratesResult.error);
+        return;
       }
-      profile.finances.historicalAssets[today] = totalValue;
+
+      const snapshot = buildAssetSnapshot(
+        userPortfolios,
+        currency,
+        ratesResult.data,
+      );
+      const profile = userProfile.profile;
+      profile.finances = addAssetSnapshot(profile.finances, today, snapshot);
       await updateProfile(profile);
     },
     [updateProfile, userProfile?.id], // Only depend on profile ID, not the entire profile object
@@ -394,12 +484,36 @@ export function InvestmentProvider({ children }: { children: ReactNode }) {
 
             if (lookupResult.success && lookupResult.data) {
               const newPrice = Number(lookupResult.data.price);
+              const hasTodayPrice = investmentData.price_history?.some(
+                (point) => point.date === todayString,
+              );
 
-              if (newPrice && newPrice !== investmentData.current_price) {
+              if (
+                newPrice &&
+                (newPrice !== investmentData.current_price || !hasTodayPrice)
+              ) {
+                // Keep the previous close too, it fills days the app was not opened
+                const { previousClose, previousCloseDate } = lookupResult.data;
+                const withPreviousClose =
+                  previousClose &&
+                  previousCloseDate &&
+                  previousCloseDate.split("T")[0] < todayString
+                    ? recordPricePoint(
+                        investmentData,
+                        Number(previousClose),
+                        previousCloseDate,
+                        "sync",
+                      )
+                    : investmentData;
                 const updatedInvestment = {
                   ...investment,
                   data: {
-                    ...investmentData,
+                    ...recordPricePoint(
+                      withPreviousClose,
+                      newPrice,
+                      todayString,
+                      "sync",
+                    ),
                     current_price: newPrice,
                     symbol: lookupResult.data.symbol,
                     last_updated: new Date().toISOString(),
@@ -518,6 +632,105 @@ export function InvestmentProvider({ children }: { children: ReactNode }) {
     ],
   );
 
+  // Redeems holdings past their maturity date into cash in the same portfolio
+  const settleMaturedInvestments = useCallback(
+    async (userPortfolios: PortfolioWithDecryptedData[]) => {
+      if (!user || !isEncryptionInitialized || isSettlingRef.current) return;
+
+      isSettlingRef.current = true;
+      try {
+        const today = new Date().toISOString().split("T")[0];
+
+        for (const portfolio of userPortfolios) {
+          if (portfolio.membership_status !== "confirmed") continue;
+
+          for (const investment of getUnsettledMaturities(
+            portfolio.investments || [],
+            today,
+          )) {
+            const cashId = getMaturitySettlementId(investment);
+            const { matured, cash } = buildMaturitySettlement(
+              investment.data,
+              cashId,
+              t("maturity.cashName", { name: investment.data.name }),
+            );
+
+            // Add the proceeds first, a holding is only marked matured once
+            // its cash exists. An earlier attempt may have added it already.
+            let added = portfolio.investments.find(
+              (existing) => existing.id === cashId,
+            );
+            if (!added) {
+              const cashResult = await apiAddInvestment(
+                user,
+                portfolio.id,
+                portfolio.encrypted_key,
+                cash,
+                decryptWithPrivateKey,
+                encryptWithExternalEncryptionKey,
+                cashId,
+              );
+              if (!cashResult.data) {
+                console.error(
+                  `Failed to add cash for matured investment ${investment.data.name}:`,
+                  cashResult.error,
+                );
+                continue;
+              }
+              added = cashResult.data;
+            }
+
+            const maturedResult = await apiUpdateInvestment(
+              user,
+              portfolio.id,
+              portfolio.encrypted_key,
+              { ...investment, data: matured },
+              decryptWithPrivateKey,
+              encryptWithExternalEncryptionKey,
+            );
+            if (!maturedResult.data) {
+              console.error(
+                `Failed to settle matured investment ${investment.data.name}:`,
+                maturedResult.error,
+              );
+            }
+
+            const cashHolding = added;
+            const settled = maturedResult.data;
+            setPortfolios((prev) =>
+              prev.map((item) =>
+                item.id === portfolio.id
+                  ? {
+                      ...item,
+                      investments: [
+                        cashHolding,
+                        ...item.investments
+                          .filter((existing) => existing.id !== cashHolding.id)
+                          .map((existing) =>
+                            settled && existing.id === settled.id
+                              ? settled
+                              : existing,
+                          ),
+                      ],
+                    }
+                  : item,
+              ),
+            );
+          }
+        }
+      } finally {
+        isSettlingRef.current = false;
+      }
+    },
+    [
+      user,
+      isEncryptionInitialized,
+      decryptWithPrivateKey,
+      encryptWithExternalEncryptionKey,
+      t,
+    ],
+  );
+
   const fetchPortfolios = useCallback(async () => {
     try {
       if (!user || !isEncryptionInitialized || !userProfile) {
@@ -560,9 +773,14 @@ export function InvestmentProvider({ children }: { children: ReactNode }) {
         storeHistoricalAssetsValues(result.data).catch((e) =>
           console.error("Failed to store historical assets values", e),
         );
-        syncInvestmentPrices(result.data).catch((e) =>
-          console.error("Failed to sync investment prices", e),
-        );
+        // Settled after the price sync so the two never write the same investment
+        const loadedPortfolios = result.data;
+        syncInvestmentPrices(loadedPortfolios)
+          .catch((e) => console.error("Failed to sync investment prices", e))
+          .then(() => settleMaturedInvestments(loadedPortfolios))
+          .catch((e) =>
+            console.error("Failed to settle matured investments", e),
+          );
       } else {
         setPortfolios([]);
         setError(result.error || "Failed to load portfolios");
@@ -620,40 +838,44 @@ export function InvestmentProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  // Removing a member also moves the portfolio to a new key; an interrupted
+  // removal is resumed by calling this again with the same member
   const removeUserFromPortfolio = async (
     portfolioId: string,
     userId: string,
+    onProgress?: (progress: KeyRotationProgress) => void,
   ) => {
     try {
-      if (!user || !isEncryptionInitialized) {
+      if (!user || !publicKey || !isEncryptionInitialized) {
         console.error("You must be logged in to remove a user");
         setError("You must be logged in to remove a user");
         return { success: false, error: "Not authenticated" };
       }
 
-      const result = await apiRemoveUserFromPortfolio(
+      const portfolio = portfolios.find((p) => p.id === portfolioId);
+      if (!portfolio) {
+        return { success: false, error: "Portfolio not found" };
+      }
+
+      const result = await apiRemoveUserAndRotatePortfolioKey(
         user,
+        publicKey,
         portfolioId,
         userId,
+        portfolio.encrypted_key,
+        createEncryptionKey,
+        decryptWithPrivateKey,
+        encryptWithExternalPublicKey,
+        encryptWithExternalEncryptionKey,
+        decryptWithExternalEncryptionKey,
+        onProgress,
       );
 
-      if (result) {
-        // Update local state to remove the user from the portfolio
-        setPortfolios((prev) =>
-          prev.map((portfolio) => {
-            if (portfolio.id === portfolioId) {
-              return {
-                ...portfolio,
-                members: portfolio.members.filter(
-                  (member) => member.user_id !== userId,
-                ),
-              };
-            }
-            return portfolio;
-          }),
-        );
+      if (result.success) {
+        // Loaded portfolios still hold the previous key
+        await fetchPortfolios();
       } else {
-        setError(result || "Failed to remove user");
+        setError(result.error || "Failed to remove user");
       }
 
       return result;
@@ -803,6 +1025,7 @@ export function InvestmentProvider({ children }: { children: ReactNode }) {
         addInvestment,
         updateInvestment,
         deleteInvestment,
+        recordPayout,
         createPortfolio,
         inviteUserToPortfolio,
         removeUserFromPortfolio,
@@ -0,0 +1,165 @@
+import { useAuth } from "@/context/AuthContext";
+import { useEncryption } from "@/context/EncryptionContext";
+import {
+  apiCreateLiability,
+  apiDeleteLiability,
+  apiFetchLiabilities,
+  apiUpdateLiability,
+} from "@/services/liabilityService";
+import { LiabilityData, LiabilityWithDecryptedData } from "@/types/liability";
+import { recordLiabilityBalance } from "@/utils/liabilityUtils";
+import React, {
+  createContext,
+  ReactNode,
+  useCallback,
+  useContext,
+  useEffect,
+  useState,
+} from "react";
+
+interface LiabilityContextType {
+  liabilities: LiabilityWithDecryptedData[];
+  isLoading: boolean;
+  error: string | null;
+  addLiability: (
+    liability: LiabilityData,
+  ) => Promise<LiabilityWithDecryptedData | null>;
+  updateLiability: (
+    liability: LiabilityWithDecryptedData,
+  ) => Promise<LiabilityWithDecryptedData | null>;
+  deleteLiability: (id: string) => Promise<boolean>;
+  fetchLiabilities: () => Promise<void>;
+}
+
+const LiabilityContext = createContext<LiabilityContextType | undefined>(
+  undefined,
+);
+
+export function LiabilityProvider({ children }: { children: ReactNode }) {
+  const { user, encryptData, decryptData } = useAuth();
+  const { isEncryptionInitialized } = useEncryption();
+  const [liabilities, setLiabilities] = useState<LiabilityWithDecryptedData[]>(
+    [],
+  );
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchLiabilities = useCallback(async () => {
+    if (!user || !isEncryptionInitialized) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      const result = await apiFetchLiabilities(user, decryptData);
+      if (result.success && result.data) {
+        setLiabilities(result.data);
+      } else {
+        setError(result.error || "Failed to load liabilities");
+      }
+    } catch (error: any) {
+      console.error("Failed to fetch liabilities:", error);
+      setError(error.message || "Failed to load liabilities");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, isEncryptionInitialized, decryptData]);
+
+  const addLiability = async (
+    liability: LiabilityData,
+  ): Promise<LiabilityWithDecryptedData | null> => {
+    if (!user || !isEncryptionInitialized) {
+      setError("You must be logged in to add a liability");
+      return null;
+    }
+
+    const result = await apiCreateLiability(user, liability, encryptData);
+    if (!result.success || !result.data) {
+      setError(result.error || "Failed to create liability");
+      return null;
+    }
+
+    const created = result.data;
+    setLiabilities((prev) => [...prev, created]);
+    return created;
+  };
+
+  const updateLiability = async (
+    liability: LiabilityWithDecryptedData,
+  ): Promise<LiabilityWithDecryptedData | null> => {
+    if (!user || !isEncryptionInitialized) {
+      setError("You must be logged in to update a liability");
+      return null;
+    }
+
+    // Keep the balance being replaced so the net worth trend can use it
+    const previous = liabilities.find((item) => item.id === liability.id);
+    const result = await apiUpdateLiability(
+      user,
+      {
+        ...liability,
+        data: previous
+          ? recordLiabilityBalance(previous.data, liability.data)
+          : liability.data,
+      },
+      encryptData,
+    );
+    if (!result.success || !result.data) {
+      setError(result.error || "Failed to update liability");
+      return null;
+    }
+
+    const updated = result.data;
+    setLiabilities((prev) =>
+      prev.map((item) => (item.id === updated.id ? updated : item)),
+    );
+    return updated;
+  };
+
+  const deleteLiability = async (id: string): Promise<boolean> => {
+    if (!user) {
+      setError("You must be logged in to delete a liability");
+      return false;
+    }
+
+    const result = await apiDeleteLiability(user, id);
+    if (!result.success) {
+      setError(result.error || "Failed to delete liability");
+      return false;
+    }
+
+    setLiabilities((prev) => prev.filter((item) => item.id !== id));
+    return true;
+  };
+
+  useEffect(() => {
+    if (isEncryptionInitialized) {
+      fetchLiabilities().catch((error) =>
+        console.error("Failed to fetch liabilities:", error),
+      );
+    }
+  }, [fetchLiabilities, isEncryptionInitialized]);
+
+  return (
+    <LiabilityContext.Provider
+      value={{
+        liabilities,
+        isLoading,
+        error,
+        addLiability,
+        updateLiability,
+        deleteLiability,
+        fetchLiabilities,
+      }}
+    >
+      {children}
+    </LiabilityContext.Provider>
+  );
+}
+
+export function useLiability() {
+  const context = useContext(LiabilityContext);
+  if (context === undefined) {
+    throw new Error("useLiability must be used within a LiabilityProvider");
+  }
+  return context;
+}
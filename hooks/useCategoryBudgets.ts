@@ -0,0 +1,119 @@
+import { useAuth } from "@/context/AuthContext";
+import { useExpense } from "@/context/ExpenseContext";
+import { useProfile } from "@/context/ProfileContext";
+import { computeExpenseCategories } from "@/types/expense";
+import {
+  CategoryBudgetStatus,
+  calculateCategoryBudgetStatuses,
+  calculateCategorySpending,
+  calculateUpcomingRecurringSpending,
+  getMonthKey,
+  getRolloverMonths,
+} from "@/utils/budgetUtils";
+import { useEffect, useMemo } from "react";
+
+/**
+ * Per-category budget progress for a month ("current" or YYYY-MM).
+ * Upcoming recurring expenses are only projected for the current month.
+ * Loads the month and the ones before it that the rollover needs.
+ */
+export function useCategoryBudgets(selectedMonth: string = "current") {
+  const { user } = useAuth();
+  const {
+    expensesGroups,
+    recurringExpenses,
+    exchangeRates,
+    fetchExpensesForMonth,
+  } = useExpense();
+  const { userProfile } = useProfile();
+
+  const budgeting = userProfile?.profile?.budgeting;
+  const defaultCurrency = userProfile?.profile?.defaultCurrency || "EUR";
+  const currentMonthKey = getMonthKey();
+  const monthKey =
+    selectedMonth === "current" ? currentMonthKey : selectedMonth;
+
+  const rolloverMonths = useMemo(
+    () => getRolloverMonths(budgeting?.categoryBudgets, monthKey),
+    [budgeting?.categoryBudgets, monthKey],
+  );
+
+  useEffect(() => {
+    [...rolloverMonths, monthKey].forEach((key) => {
+      const [year, month] = key.split("-").map(Number);
+      fetchExpensesForMonth(year, month).catch((error) =>
+        console.error("Failed to load expenses for the budgets:", error),
+      );
+    });
+  }, [fetchExpensesForMonth, rolloverMonths, monthKey]);
+
+  const categories = useMemo(
+    () => computeExpenseCategories(budgeting?.categoryOverrides),
+    [budgeting?.categoryOverrides],
+  );
+
+  const statuses = useMemo((): CategoryBudgetStatus[] => {
+    if (!user || !budgeting?.categoryBudgets) return [];
+
+    const spent = calculateCategorySpending(
+      expensesGroups,
+      user.id,
+      monthKey,
+      defaultCurrency,
+      exchangeRates,
+    );
+    const previousSpent = Object.fromEntries(
+      rolloverMonths.map((month) => [
+        month,
+        calculateCategorySpending(
+          expensesGroups,
+          user.id,
+          month,
+          defaultCurrency,
+          exchangeRates,
+        ),
+      ]),
+    );
+    const upcoming =
+      monthKey === currentMonthKey
+        ? calculateUpcomingRecurringSpending(
+            recurringExpenses,
+            expensesGroups,
+            user.id,
+            monthKey,
+            defaultCurrency,
+            exchangeRates,
+          )
+        : {};
+
+    return calculateCategoryBudgetStatuses(
+      budgeting.categoryBudgets,
+      categories,
+      monthKey,
+      spent,
+      previousSpent,
+      upcoming,
+    );
+  }, [
+    user,
+    budgeting?.categoryBudgets,
+    categories,
+    expensesGroups,
+    recurringExpenses,
+    exchangeRates,
+    monthKey,
+    rolloverMonths,
+    currentMonthKey,
+    defaultCurrency,
+  ]);
+
+  const alerts = useMemo(
+    () =>
+      statuses.filter(
+        (status) => status.state === "over" || status.state === "projectedOver",
+      ),
+    [statuses],
+  );
+
+  return { statuses, alerts, categories, monthKey, defaultCurrency };
+}
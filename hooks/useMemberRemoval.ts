@@ -0,0 +1,65 @@
+import { useAuth } from "@/context/AuthContext";
+import {
+  KeyRotationProgress,
+  KeyRotationTargetType,
+  PendingKeyRotation,
+  getPendingKeyRotation,
+} from "@/services/keyRotationService";
+import { SharedKeyRotation } from "@/types/expense";
+import { useCallback, useEffect, useState } from "react";
+
+/**
+ * Tracks removing a member from a group or portfolio, including the key
+ * rotation that follows it and any rotation left unfinished earlier, on
+ * this device or, via the target's data, on another one of the user's.
+ */
+export function useMemberRemoval(
+  type: KeyRotationTargetType,
+  targetId: string | undefined,
+  removeMember: (
+    targetId: string,
+    userId: string,
+    onProgress?: (progress: KeyRotationProgress) => void,
+  ) => Promise<{ success: boolean; error?: string }>,
+  sharedRotation?: SharedKeyRotation,
+) {
+  const { user } = useAuth();
+  const [progress, setProgress] = useState<KeyRotationProgress | null>(null);
+  const [pendingRotation, setPendingRotation] = useState<
+    PendingKeyRotation | undefined
+  >();
+
+  // Rotations started by other members are theirs to finish
+  const ownSharedRotation =
+    sharedRotation?.initiated_by === user?.id ? sharedRotation : undefined;
+
+  const loadPendingRotation = useCallback(async () => {
+    if (!targetId) return;
+    setPendingRotation(
+      await getPendingKeyRotation(type, targetId, ownSharedRotation),
+    );
+  }, [type, targetId, ownSharedRotation]);
+
+  useEffect(() => {
+    loadPendingRotation();
+  }, [loadPendingRotation]);
+
+  const remove = async (userId: string) => {
+    if (!targetId) return { success: false, error: "Invalid parameters" };
+
+    setProgress({ stage: "removeMember", processed: 0, total: 1 });
+    try {
+      return await removeMember(targetId, userId, setProgress);
+    } finally {
+      setProgress(null);
+      await loadPendingRotation();
+    }
+  };
+
+  const resume = async () => {
+    if (!pendingRotation) return { success: true };
+    return remove(pendingRotation.removed_user_id);
+  };
+
+  return { progress, pendingRotation, remove, resume };
+}
@@ -0,0 +1,128 @@
+import { useAuth } from "@/context/AuthContext";
+import { useExpense } from "@/context/ExpenseContext";
+import { useInvestment } from "@/context/InvestmentContext";
+import { useLiability } from "@/context/LiabilityContext";
+import { useProfile } from "@/context/ProfileContext";
+import { buildAssetSnapshot } from "@/utils/assetSnapshotUtils";
+import { getMonthKey } from "@/utils/budgetUtils";
+import { getCrossRate } from "@/utils/exchangeRateUtils";
+import {
+  calculateTotalLiabilities,
+  getLiabilityBalance,
+} from "@/utils/liabilityUtils";
+import {
+  buildNetWorthHistory,
+  calculateMonthlyRunRate,
+  calculateSavingsRate,
+  getRunRateMonthKeys,
+  NetWorthPoint,
+} from "@/utils/netWorthUtils";
+import { useEffect, useMemo } from "react";
+
+/**
+ * Net worth in the profile currency: portfolios less liabilities, the
+ * month-end trend and the monthly cash flow from expenses. Loads the months
+ * the spending run rate needs.
+ */
+export function useNetWorth() {
+  const { user } = useAuth();
+  const { expensesGroups, exchangeRates, fetchExpensesForMonth } = useExpense();
+  const { portfolios } = useInvestment();
+  const { liabilities } = useLiability();
+  const { userProfile } = useProfile();
+
+  const currency = userProfile?.profile?.defaultCurrency || "EUR";
+  const finances = userProfile?.profile?.finances;
+  const runRateMonths = useMemo(() => getRunRateMonthKeys(getMonthKey()), []);
+
+  useEffect(() => {
+    runRateMonths.forEach((monthKey) => {
+      const [year, month] = monthKey.split("-").map(Number);
+      fetchExpensesForMonth(year, month).catch((error) =>
+        console.error("Failed to load expenses for the run rate:", error),
+      );
+    });
+  }, [fetchExpensesForMonth, runRateMonths]);
+
+  const today = new Date().toISOString().split("T")[0];
+
+  const assets = useMemo(
+    () => buildAssetSnapshot(portfolios, currency, exchangeRates).total,
+    [portfolios, currency, exchangeRates],
+  );
+  const totalLiabilities = useMemo(
+    () =>
+      calculateTotalLiabilities(liabilities, currency, exchangeRates, today),
+    [liabilities, currency, exchangeRates, today],
+  );
+
+  // Month-end history, with today's values as the last point
+  const history = useMemo((): NetWorthPoint[] => {
+    const points = buildNetWorthHistory(
+      finances,
+      liabilities,
+      currency,
+      exchangeRates,
+    ).filter((point) => point.date.slice(0, 7) !== today.slice(0, 7));
+    return [
+      ...points,
+      {
+        date: today,
+        assets,
+        liabilities: totalLiabilities,
+        net_worth: assets - totalLiabilities,
+      },
+    ];
+  }, [
+    finances,
+    liabilities,
+    currency,
+    exchangeRates,
+    today,
+    assets,
+    totalLiabilities,
+  ]);
+
+  const monthlySpending = useMemo(
+    () =>
+      user
+        ? calculateMonthlyRunRate(
+            expensesGroups,
+            user.id,
+            runRateMonths,
+            currency,
+            exchangeRates,
+          )
+        : 0,
+    [expensesGroups, user, runRateMonths, currency, exchangeRates],
+  );
+
+  const monthlyDebtPayments = useMemo(
+    () =>
+      liabilities.reduce(
+        (sum, liability) =>
+          sum +
+          (getLiabilityBalance(liability.data, today) > 0
+            ? (liability.data.monthly_payment || 0) *
+              (getCrossRate(liability.data.currency, currency, exchangeRates) ??
+                1)
+            : 0),
+        0,
+      ),
+    [liabilities, today, currency, exchangeRates],
+  );
+
+  const monthlyIncome = finances?.monthlyIncome ?? null;
+
+  return {
+    currency,
+    assets,
+    liabilities: totalLiabilities,
+    netWorth: assets - totalLiabilities,
+    history,
+    monthlySpending,
+    monthlyDebtPayments,
+    monthlyIncome,
+    savingsRate: calculateSavingsRate(monthlyIncome, monthlySpending),
+  };
+}
@@ -0,0 +1,319 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import type { Expense } from "@/client/piggusApi";
+
+// Everything kept here is ciphertext: group keys stay encrypted with the
+// user's public key, group data and expenses with their group key.
+const GROUPS_PREFIX = "@piggus_offline_groups";
+const EXPENSES_PREFIX = "@piggus_offline_expenses";
+const OUTBOX_PREFIX = "@piggus_offline_outbox";
+const CONFLICTS_PREFIX = "@piggus_offline_conflicts";
+
+export type OutboxMutationType = "create" | "update" | "delete";
+
+export type OutboxMutation = {
+  id: string;
+  type: OutboxMutationType;
+  group_id: string;
+  expense_id: string;
+  encrypted_data?: string;
+  group_key_fingerprint?: string; // Hash of the group key encrypted_data uses
+  created_at?: string;
+  base_updated_at?: string; // Server updated_at the change was made on top of
+  queued_at: string;
+  attempts: number;
+  last_error?: string;
+};
+
+export type OutboxConflictReason =
+  | "modified"
+  | "deleted"
+  | "rejected"
+  | "rekeyed";
+
+export type OutboxConflict = {
+  mutation: OutboxMutation;
+  reason: OutboxConflictReason;
+  server_encrypted_data?: string;
+  server_updated_at?: string;
+  detected_at: string;
+};
+
+type CachedExpenseTable = { [expenseId: string]: Expense };
+
+// Same day-granular filter the API applies to created_at
+const isInRange = (
+  createdAt: string | undefined,
+  startDate?: string,
+  endDate?: string,
+): boolean => {
+  const date = (createdAt || "").split("T")[0];
+  if (startDate && date < startDate) return false;
+  if (endDate && date > endDate) return false;
+  return true;
+};
+
+const readJson = async <T>(key: string, fallback: T): Promise<T> => {
+  try {
+    const stored = await AsyncStorage.getItem(key);
+    return stored ? (JSON.parse(stored) as T) : fallback;
+  } catch (error) {
+    console.warn(`Failed to read offline data (${key}):`, error);
+    return fallback;
+  }
+};
+
+const writeJson = async (key: string, value: unknown): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.error(`Failed to write offline data (${key}):`, error);
+    throw error;
+  }
+};
+
+// The cache is best effort, unlike the outbox which must not lose changes
+const writeCache = async (key: string, value: unknown): Promise<void> => {
+  try {
+    await writeJson(key, value);
+  } catch {
+    // Already logged
+  }
+};
+
+/**
+ * Merges a new change into the one already queued for the same expense, so
+ * the outbox holds at most one mutation per expense
+ */
+const coalesceMutation = (
+  queued: OutboxMutation,
+  next: OutboxMutation,
+): OutboxMutation => {
+  if (queued.type === "create") {
+    // Sent as a delete all the same, the create may be on its way already
+    if (next.type === "delete") return { ...next, id: queued.id };
+    return {
+      ...queued,
+      encrypted_data: next.encrypted_data,
+      group_key_fingerprint: next.group_key_fingerprint,
+      created_at: next.created_at ?? queued.created_at,
+      queued_at: next.queued_at,
+    };
+  }
+  return { ...next, id: queued.id, base_updated_at: queued.base_updated_at };
+};
+
+export class OfflineStore {
+  /**
+   * Raw group memberships as returned by the API
+   */
+  static async getCachedGroups<T>(userId: string): Promise<T[] | null> {
+    return readJson<T[] | null>(`${GROUPS_PREFIX}:${userId}`, null);
+  }
+
+  static async saveCachedGroups<T>(userId: string, groups: T[]): Promise<void> {
+    await writeCache(`${GROUPS_PREFIX}:${userId}`, groups);
+  }
+
+  /**
+   * Cached expenses of a group, optionally limited to a date range of their
+   * created_at timestamp (as the API filters)
+   */
+  static async getCachedExpenses(
+    userId: string,
+    groupId: string,
+    startDate?: string,
+    endDate?: string,
+  ): Promise<Expense[]> {
+    const table = await readJson<CachedExpenseTable>(
+      `${EXPENSES_PREFIX}:${userId}:${groupId}`,
+      {},
+    );
+    return Object.values(table)
+      .filter((expense) => isInRange(expense.created_at, startDate, endDate))
+      .sort((a, b) => (b.created_at || "").localeCompare(a.created_at || ""));
+  }
+
+  static async getCachedExpense(
+    userId: string,
+    groupId: string,
+    expenseId: string,
+  ): Promise<Expense | undefined> {
+    const table = await readJson<CachedExpenseTable>(
+      `${EXPENSES_PREFIX}:${userId}:${groupId}`,
+      {},
+    );
+    return table[expenseId];
+  }
+
+  /**
+   * Stores expenses fetched from the server. When `replaceRange` is given the
+   * result is complete for that range, so cached rows missing from it are
+   * dropped as deleted.
+   */
+  static async saveCachedExpenses(
+    userId: string,
+    groupId: string,
+    expenses: Expense[],
+    replaceRange?: { startDate?: string; endDate?: string },
+  ): Promise<void> {
+    const key = `${EXPENSES_PREFIX}:${userId}:${groupId}`;
+    const table = await readJson<CachedExpenseTable>(key, {});
+    if (replaceRange) {
+      Object.values(table).forEach((expense) => {
+        if (
+          isInRange(
+            expense.created_at,
+            replaceRange.startDate,
+            replaceRange.endDate,
+          )
+        ) {
+          delete table[expense.id];
+        }
+      });
+    }
+    expenses.forEach((expense) => {
+      table[expense.id] = {
+        id: expense.id,
+        group_id: expense.group_id,
+        encrypted_data: expense.encrypted_data,
+        created_at: expense.created_at,
+        updated_at: expense.updated_at,
+      };
+    });
+    await writeCache(key, table);
+  }
+
+  static async removeCachedExpense(
+    userId: string,
+    groupId: string,
+    expenseId: string,
+  ): Promise<void> {
+    const key = `${EXPENSES_PREFIX}:${userId}:${groupId}`;
+    const table = await readJson<CachedExpenseTable>(key, {});
+    if (!table[expenseId]) return;
+    delete table[expenseId];
+    await writeCache(key, table);
+  }
+
+  /**
+   * Pending mutations, oldest first
+   */
+  static async getOutbox(userId: string): Promise<OutboxMutation[]> {
+    return readJson<OutboxMutation[]>(`${OUTBOX_PREFIX}:${userId}`, []);
+  }
+
+  static async saveOutbox(
+    userId: string,
+    mutations: OutboxMutation[],
+  ): Promise<void> {
+    await writeJson(`${OUTBOX_PREFIX}:${userId}`, mutations);
+  }
+
+  /**
+   * Queues a mutation, merging it with a pending one for the same expense
+   */
+  static async enqueueMutation(
+    userId: string,
+    mutation: OutboxMutation,
+  ): Promise<void> {
+    const outbox = await OfflineStore.getOutbox(userId);
+    const index = outbox.findIndex(
+      (queued) =>
+        queued.group_id === mutation.group_id &&
+        queued.expense_id === mutation.expense_id,
+    );
+
+    if (index === -1) {
+      await OfflineStore.saveOutbox(userId, [...outbox, mutation]);
+      return;
+    }
+
+    const merged = coalesceMutation(outbox[index], mutation);
+    await OfflineStore.saveOutbox(
+      userId,
+      outbox.map((queued, i) => (i === index ? merged : queued)),
+    );
+  }
+
+  /**
+   * Drops the pending mutation of an expense, once it was sent some other way
+   */
+  static async removeMutation(
+    userId: string,
+    groupId: string,
+    expenseId: string,
+  ): Promise<void> {
+    const outbox = await OfflineStore.getOutbox(userId);
+    await OfflineStore.saveOutbox(
+      userId,
+      outbox.filter(
+        (mutation) =>
+          !(mutation.group_id === groupId && mutation.expense_id === expenseId),
+      ),
+    );
+  }
+
+  static async hasPendingMutation(
+    userId: string,
+    groupId: string,
+    expenseId: string,
+  ): Promise<boolean> {
+    const outbox = await OfflineStore.getOutbox(userId);
+    return outbox.some(
+      (mutation) =>
+        mutation.group_id === groupId && mutation.expense_id === expenseId,
+    );
+  }
+
+  static async getConflicts(userId: string): Promise<OutboxConflict[]> {
+    return readJson<OutboxConflict[]>(`${CONFLICTS_PREFIX}:${userId}`, []);
+  }
+
+  static async saveConflicts(
+    userId: string,
+    conflicts: OutboxConflict[],
+  ): Promise<void> {
+    await writeJson(`${CONFLICTS_PREFIX}:${userId}`, conflicts);
+  }
+
+  /**
+   * Applies pending mutations of a group on top of expenses read from the
+   * server or the cache, so queued changes show up everywhere
+   */
+  static applyOutbox(
+    expenses: Expense[],
+    outbox: OutboxMutation[],
+    groupId: string,
+    startDate?: string,
+    endDate?: string,
+  ): Expense[] {
+    let result = [...expenses];
+
+    outbox
+      .filter((mutation) => mutation.group_id === groupId)
+      .forEach((mutation) => {
+        const existing = result.find((e) => e.id === mutation.expense_id);
+        if (mutation.type === "delete") {
+          result = result.filter((e) => e.id !== mutation.expense_id);
+          return;
+        }
+
+        const pending: Expense = {
+          id: mutation.expense_id,
+          group_id: groupId,
+          encrypted_data: mutation.encrypted_data,
+          created_at:
+            mutation.created_at || existing?.created_at || mutation.queued_at,
+          updated_at: mutation.queued_at,
+        };
+        result = result.filter((e) => e.id !== mutation.expense_id);
+        if (isInRange(pending.created_at, startDate, endDate)) {
+          result.push(pending);
+        }
+      });
+
+    return result.sort((a, b) =>
+      (b.created_at || "").localeCompare(a.created_at || ""),
+    );
+  }
+}
@@ -0,0 +1,108 @@
+import { piggusApi } from "@/client/piggusApi";
+import {
+  base64ToArrayBuffer,
+  decryptCompressedData,
+  encryptDataWithCompression,
+} from "@/lib/encryption";
+import {
+  GroupActivityData,
+  GroupActivityWithDecryptedData,
+} from "@/types/expense";
+import "react-native-get-random-values";
+import { v4 as uuidv4 } from "uuid";
+
+// Entries loaded per page of the activity feed
+export const ACTIVITY_PAGE_SIZE = 30;
+
+/**
+ * Add an entry to the encrypted activity log of a group. The log is best
+ * effort: a failure is reported but never undoes the change it describes.
+ */
+export const apiRecordGroupActivity = async (
+  groupId: string,
+  groupKey: string,
+  activity: GroupActivityData,
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    if (!groupId || !groupKey || !activity) {
+      return {
+        success: false,
+        error: "Invalid parameters",
+      };
+    }
+
+    const encryptedData = encryptDataWithCompression(
+      activity,
+      base64ToArrayBuffer(groupKey),
+    );
+    await piggusApi.addGroupActivity(groupId, {
+      activityId: uuidv4(),
+      encryptedData,
+    });
+
+    return { success: true };
+  } catch (error: any) {
+    console.error("Error recording group activity:", error);
+    return {
+      success: false,
+      error: error.message || "Failed to record group activity",
+    };
+  }
+};
+
+/**
+ * Newest activity of a group, older than `before` when paging. Entries that
+ * cannot be decrypted are left out.
+ */
+export const apiFetchGroupActivity = async (
+  groupId: string,
+  groupKey: string,
+  before?: string,
+): Promise<{
+  success: boolean;
+  data?: GroupActivityWithDecryptedData[];
+  hasMore?: boolean;
+  error?: string;
+}> => {
+  try {
+    if (!groupId || !groupKey) {
+      return {
+        success: false,
+        error: "Invalid parameters",
+      };
+    }
+
+    const entries = await piggusApi.getGroupActivity(groupId, {
+      limit: ACTIVITY_PAGE_SIZE,
+      before,
+    });
+    const key = base64ToArrayBuffer(groupKey);
+
+    const decrypted: GroupActivityWithDecryptedData[] = [];
+    for (const entry of entries || []) {
+      try {
+        decrypted.push({
+          id: entry.id,
+          group_id: entry.group_id,
+          user_id: entry.user_id,
+          created_at: entry.created_at,
+          data: decryptCompressedData(entry.encrypted_data, key),
+        });
+      } catch (error) {
+        console.error(`Failed to decrypt activity ${entry.id}:`, error);
+      }
+    }
+
+    return {
+      success: true,
+      data: decrypted,
+      hasMore: (entries?.length || 0) >= ACTIVITY_PAGE_SIZE,
+    };
+  } catch (error: any) {
+    console.error("Error fetching group activity:", error);
+    return {
+      success: false,
+      error: error.message || "Failed to fetch group activity",
+    };
+  }
+};
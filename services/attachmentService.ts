@@ -0,0 +1,253 @@
+import { piggusApi } from "@/client/piggusApi";
+import {
+  base64ToArrayBuffer,
+  decryptWithAES,
+  encryptWithAES,
+} from "@/lib/encryption";
+import { ExpenseReceipt, ReceiptImage } from "@/types/expense";
+import * as FileSystem from "expo-file-system";
+import "react-native-get-random-values";
+import { v4 as uuidv4 } from "uuid";
+
+export interface AttachmentStorage {
+  name: string;
+  upload: (
+    groupId: string,
+    attachmentId: string,
+    encryptedData: string,
+  ) => Promise<void>;
+  // Overwrites a stored blob, used when the group key changes
+  replace: (
+    groupId: string,
+    attachmentId: string,
+    encryptedData: string,
+  ) => Promise<void>;
+  download: (groupId: string, attachmentId: string) => Promise<string>;
+  remove: (groupId: string, attachmentId: string) => Promise<void>;
+}
+
+// Encrypted blobs stored by the Piggus backend
+export const piggusAttachmentStorage: AttachmentStorage = {
+  name: "piggus",
+  upload: async (groupId, attachmentId, encryptedData) => {
+    await piggusApi.uploadAttachment(groupId, { attachmentId, encryptedData });
+  },
+  replace: async (groupId, attachmentId, encryptedData) => {
+    await piggusApi.replaceAttachment(groupId, attachmentId, { encryptedData });
+  },
+  download: async (groupId, attachmentId) => {
+    const attachment = await piggusApi.getAttachment(groupId, attachmentId);
+    if (!attachment?.encrypted_data) {
+      throw new Error("Attachment response is empty");
+    }
+    return attachment.encrypted_data;
+  },
+  remove: async (groupId, attachmentId) => {
+    await piggusApi.deleteAttachment(groupId, attachmentId);
+  },
+};
+
+const getLocalAttachmentUri = (groupId: string, attachmentId?: string) =>
+  `${FileSystem.documentDirectory}attachments/${groupId}/${attachmentId ?? ""}`;
+
+// Encrypted blobs kept in the app documents, for development without the backend
+export const localAttachmentStorage: AttachmentStorage = {
+  name: "local",
+  upload: async (groupId, attachmentId, encryptedData) => {
+    await FileSystem.makeDirectoryAsync(getLocalAttachmentUri(groupId), {
+      intermediates: true,
+    });
+    await FileSystem.writeAsStringAsync(
+      getLocalAttachmentUri(groupId, attachmentId),
+      encryptedData,
+    );
+  },
+  replace: async (groupId, attachmentId, encryptedData) => {
+    await FileSystem.writeAsStringAsync(
+      getLocalAttachmentUri(groupId, attachmentId),
+      encryptedData,
+    );
+  },
+  download: async (groupId, attachmentId) =>
+    FileSystem.readAsStringAsync(getLocalAttachmentUri(groupId, attachmentId)),
+  remove: async (groupId, attachmentId) => {
+    await FileSystem.deleteAsync(getLocalAttachmentUri(groupId, attachmentId), {
+      idempotent: true,
+    });
+  },
+};
+
+let attachmentStorage: AttachmentStorage =
+  process.env.EXPO_PUBLIC_ATTACHMENT_STORAGE === "local"
+    ? localAttachmentStorage
+    : piggusAttachmentStorage;
+
+export const setAttachmentStorage = (storage: AttachmentStorage) => {
+  attachmentStorage = storage;
+};
+
+export const getAttachmentStorage = (): AttachmentStorage => attachmentStorage;
+
+/**
+ * Encrypt a receipt image with the group key and store it as an attachment.
+ * Returns the reference to keep on the expense.
+ */
+export const apiUploadReceipt = async (
+  groupId: string,
+  groupKey: string,
+  image: ReceiptImage,
+): Promise<{
+  success: boolean;
+  data?: ExpenseReceipt;
+  error?: string;
+}> => {
+  try {
+    if (!groupId || !groupKey || !image?.base64) {
+      return {
+        success: false,
+        error: "Invalid parameters",
+      };
+    }
+
+    const attachmentId = uuidv4();
+    const encryptedData = encryptWithAES(image, base64ToArrayBuffer(groupKey));
+    await attachmentStorage.upload(groupId, attachmentId, encryptedData);
+
+    return {
+      success: true,
+      data: {
+        attachment_id: attachmentId,
+        content_type: image.content_type,
+        width: image.width,
+        height: image.height,
+        size: Math.floor((image.base64.length * 3) / 4),
+        added_at: new Date().toISOString(),
+      },
+    };
+  } catch (error: any) {
+    console.error("Error uploading receipt:", error);
+    return {
+      success: false,
+      error: error.message || "Failed to upload receipt",
+    };
+  }
+};
+
+/**
+ * Download and decrypt a receipt image
+ */
+export const apiFetchReceipt = async (
+  groupId: string,
+  groupKey: string,
+  attachmentId: string,
+): Promise<{
+  success: boolean;
+  data?: ReceiptImage;
+  error?: string;
+}> => {
+  try {
+    if (!groupId || !groupKey || !attachmentId) {
+      return {
+        success: false,
+        error: "Invalid parameters",
+      };
+    }
+
+    const encryptedData = await attachmentStorage.download(
+      groupId,
+      attachmentId,
+    );
+    const decrypted = decryptWithAES(
+      encryptedData,
+      base64ToArrayBuffer(groupKey),
+    );
+    if (!decrypted?.base64) {
+      throw new Error("Receipt could not be decrypted");
+    }
+
+    return { success: true, data: decrypted as ReceiptImage };
+  } catch (error: any) {
+    console.error("Error fetching receipt:", error);
+    return {
+      success: false,
+      error: error.message || "Failed to fetch receipt",
+    };
+  }
+};
+
+/**
+ * Copy a receipt to another group under the same attachment id, encrypted
+ * with that group's key, so an expense moved there keeps its reference
+ */
+export const apiCopyReceipt = async (
+  fromGroupId: string,
+  fromGroupKey: string,
+  toGroupId: string,
+  toGroupKey: string,
+  attachmentId: string,
+): Promise<{
+  success: boolean;
+  error?: string;
+}> => {
+  try {
+    if (
+      !fromGroupId ||
+      !fromGroupKey ||
+      !toGroupId ||
+      !toGroupKey ||
+      !attachmentId
+    ) {
+      return {
+        success: false,
+        error: "Invalid parameters",
+      };
+    }
+
+    const image = decryptWithAES(
+      await attachmentStorage.download(fromGroupId, attachmentId),
+      base64ToArrayBuffer(fromGroupKey),
+    );
+    if (!image?.base64) {
+      throw new Error("Receipt could not be decrypted");
+    }
+    await attachmentStorage.upload(
+      toGroupId,
+      attachmentId,
+      encryptWithAES(image, base64ToArrayBuffer(toGroupKey)),
+    );
+
+    return { success: true };
+  } catch (error: any) {
+    console.error("Error copying receipt:", error);
+    return {
+      success: false,
+      error: error.message || "Failed to copy receipt",
+    };
+  }
+};
+
+export const apiDeleteReceipt = async (
+  groupId: string,
+  attachmentId: string,
+): Promise<{
+  success: boolean;
+  error?: string;
+}> => {
+  try {
+    if (!groupId || !attachmentId) {
+      return {
+        success: false,
+        error: "Invalid parameters",
+      };
+    }
+
+    await attachmentStorage.remove(groupId, attachmentId);
+    return { success: true };
+  } catch (error: any) {
+    console.error("Error deleting receipt:", error);
+    return {
+      success: false,
+      error: error.message || "Failed to delete receipt",
+    };
+  }
+};
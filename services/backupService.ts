@@ -0,0 +1,459 @@
+import { piggusApi } from "@/client/piggusApi";
+import { apiCopyReceipt } from "@/services/attachmentService";
+import {
+  apiBulkInsertAndUpdateExpenses,
+  apiCreateExpensesGroup,
+  apiFetchAllExpensesForGroup,
+  apiFetchExpenseGroupsOnly,
+} from "@/services/expenseService";
+import {
+  apiAddInvestment,
+  apiCreatePortfolio,
+  apiFetchPortfolios,
+} from "@/services/investmentService";
+import {
+  apiCreateLiability,
+  apiFetchLiabilities,
+} from "@/services/liabilityService";
+import {
+  apiCreateRecurringExpense,
+  apiFetchRecurringExpenses,
+} from "@/services/recurringExpenseService";
+import { ExpenseData, ExpenseGroupWithDecryptedData } from "@/types/expense";
+import { PortfolioWithDecryptedData } from "@/types/portfolio";
+import { Profile } from "@/types/profile";
+import {
+  BACKUP_ARCHIVE_VERSION,
+  BackupArchive,
+  BackupSummary,
+  getRestoredId,
+  remapBackupArchiveOwner,
+} from "@/utils/backupUtils";
+import { User } from "@supabase/supabase-js";
+
+// Expenses are re-inserted in batches to keep request bodies reasonable
+const RESTORE_BATCH_SIZE = 100;
+
+/**
+ * Decrypts every group, expense, recurring expense, portfolio, investment
+ * and liability the user can access into a single plain archive
+ */
+export const apiExportBackup = async (
+  user: User,
+  profile: Profile,
+  decryptWithPrivateKey: (encryptedData: string) => Promise<any>,
+  decryptWithExternalEncryptionKey: (
+    encryptionKey: string,
+    encryptedData: string,
+  ) => Promise<any>,
+  decryptData: (encryptedData: string) => Promise<any>,
+): Promise<{
+  success: boolean;
+  data?: BackupArchive;
+  error?: string;
+}> => {
+  try {
+    if (!user || !profile) {
+      return {
+        success: false,
+        error: "User credentials are invalid",
+      };
+    }
+
+    const groupsResult = await apiFetchExpenseGroupsOnly(
+      user,
+      decryptWithPrivateKey,
+      decryptWithExternalEncryptionKey,
+    );
+    if (!groupsResult.success || !groupsResult.data) {
+      throw new Error(groupsResult.error || "Failed to load expense groups");
+    }
+
+    const recurringResult = await apiFetchRecurringExpenses(
+      user,
+      decryptWithPrivateKey,
+      decryptWithExternalEncryptionKey,
+    );
+    if (!recurringResult.success) {
+      throw new Error(
+        recurringResult.error || "Failed to load recurring expenses",
+      );
+    }
+
+    const portfoliosResult = await apiFetchPortfolios(
+      user,
+      decryptWithPrivateKey,
+      decryptWithExternalEncryptionKey,
+    );
+    if (!portfoliosResult.success || !portfoliosResult.data) {
+      throw new Error(portfoliosResult.error || "Failed to load portfolios");
+    }
+
+    const liabilitiesResult = await apiFetchLiabilities(user, decryptData);
+    if (!liabilitiesResult.success || !liabilitiesResult.data) {
+      throw new Error(liabilitiesResult.error || "Failed to load liabilities");
+    }
+    if (liabilitiesResult.failedLiabilities) {
+      throw new Error("Some liabilities could not be decrypted");
+    }
+
+    // Pending invitations are not the user's data yet
+    const groups = groupsResult.data.filter(
+      (group) => group.membership_status === "confirmed",
+    );
+
+    const expenseGroups = [];
+    for (const group of groups) {
+      const expensesResult = await apiFetchAllExpensesForGroup(
+        user,
+        group.id,
+        group.encrypted_key,
+        decryptWithExternalEncryptionKey,
+      );
+      if (!expensesResult.success || !expensesResult.data) {
+        throw new Error(
+          expensesResult.error ||
+            `Failed to load expenses for group ${group.id}`,
+        );
+      }
+
+      expenseGroups.push({
+        id: group.id,
+        created_at: group.created_at,
+        data: group.data,
+        members: (group.members || []).map((member) => ({
+          user_id: member.user_id,
+          username: member.username,
+        })),
+        expenses: expensesResult.data.map((expense) => ({
+          id: expense.id,
+          created_at: expense.created_at,
+          data: expense.data,
+        })),
+        recurring_expenses: (recurringResult.data || [])
+          .filter((recurring) => recurring.group_id === group.id)
+          .map((recurring) => ({
+            id: recurring.id,
+            created_at: recurring.created_at,
+            data: recurring.data,
+          })),
+      });
+    }
+
+    // Name, avatar and bio stay with the account
+    const { name, avatar_url, bio, ...backupProfile } = profile.profile;
+
+    const portfolios = portfoliosResult.data
+      .filter((portfolio) => portfolio.membership_status === "confirmed")
+      .map((portfolio) => ({
+        id: portfolio.id,
+        created_at: portfolio.created_at,
+        data: portfolio.data,
+        investments: (portfolio.investments || []).map((investment) => ({
+          id: investment.id,
+          created_at: investment.created_at,
+          data: investment.data,
+        })),
+      }));
+
+    return {
+      success: true,
+      data: {
+        version: BACKUP_ARCHIVE_VERSION,
+        exported_at: new Date().toISOString(),
+        user_id: user.id,
+        username: profile.username,
+        profile: backupProfile,
+        expense_groups: expenseGroups,
+        portfolios,
+        liabilities: liabilitiesResult.data.map((liability) => ({
+          id: liability.id,
+          created_at: liability.created_at,
+          data: liability.data,
+        })),
+      },
+    };
+  } catch (error: any) {
+    console.error("Error exporting backup:", error);
+    return {
+      success: false,
+      error: error.message || "Failed to export data",
+    };
+  }
+};
+
+/**
+ * Re-creates the archive under freshly generated group and portfolio keys.
+ * Private groups and portfolios are merged into the user's existing personal
+ * ones, everything else becomes a new group or portfolio owned by the user.
+ * Items keep a fixed id per target, so ones the personal group or portfolio
+ * already holds are skipped. The profile is left for the caller to merge,
+ * with `restoredIds` mapping archived group, portfolio and investment ids to
+ * the ones they were restored as.
+ */
+export const apiRestoreBackup = async (
+  user: User,
+  username: string,
+  publicKey: string,
+  archive: BackupArchive,
+  existingGroups: ExpenseGroupWithDecryptedData[],
+  existingPortfolios: PortfolioWithDecryptedData[],
+  createEncryptionKey: () => Promise<Uint8Array<ArrayBufferLike>>,
+  encryptWithExternalPublicKey: (
+    publicKey: string,
+    data: any,
+  ) => Promise<string>,
+  encryptWithExternalEncryptionKey: (
+    encryptionKey: string,
+    data: any,
+  ) => Promise<string>,
+  decryptWithPrivateKey: (encryptedData: string) => Promise<any>,
+  encryptData: (data: any) => Promise<string | null>,
+): Promise<{
+  success: boolean;
+  data?: BackupSummary;
+  restoredIds?: { [backupId: string]: string };
+  error?: string;
+}> => {
+  const restoredIds: { [backupId: string]: string } = {};
+  const summary: BackupSummary = {
+    groups: 0,
+    expenses: 0,
+    recurringExpenses: 0,
+    portfolios: 0,
+    investments: 0,
+    liabilities: 0,
+  };
+
+  try {
+    if (!user || !publicKey || !username) {
+      return {
+        success: false,
+        error: "User credentials are invalid",
+      };
+    }
+
+    const ownedArchive = remapBackupArchiveOwner(archive, user.id, username);
+
+    const personalGroup = existingGroups.find(
+      (group) => group.data?.private && group.membership_status === "confirmed",
+    );
+    const personalPortfolio = existingPortfolios.find(
+      (portfolio) =>
+        portfolio.data?.private && portfolio.membership_status === "confirmed",
+    );
+    let personalGroupUsed = false;
+    let personalPortfolioUsed = false;
+
+    for (const backupGroup of ownedArchive.expense_groups) {
+      let target: { id: string; encrypted_key: string };
+      let existingIds = new Set<string>();
+      if (backupGroup.data.private && personalGroup && !personalGroupUsed) {
+        target = personalGroup;
+        personalGroupUsed = true;
+        const [expenses, recurring] = await Promise.all([
+          piggusApi.getExpensesForGroup(target.id),
+          piggusApi.getRecurringExpenses(),
+        ]);
+        existingIds = new Set([
+          ...expenses.map((expense) => expense.id),
+          ...recurring
+            .filter((item) => item.group_id === target.id)
+            .map((item) => item.id),
+        ]);
+      } else {
+        const created = await apiCreateExpensesGroup(
+          user,
+          username,
+          publicKey,
+          createEncryptionKey,
+          encryptWithExternalPublicKey,
+          encryptWithExternalEncryptionKey,
+          backupGroup.data,
+        );
+        if (!created.success || !created.data) {
+          throw new Error(created.error || "Failed to create expense group");
+        }
+        target = created.data;
+        summary.groups++;
+      }
+
+      restoredIds[backupGroup.id] = target.id;
+
+      // The original when restoring into the group it came from
+      const findExisting = (backupId: string) =>
+        [backupId, getRestoredId(backupId, target.id)].find((id) =>
+          existingIds.has(id),
+        );
+
+      // Recurring expenses first, so generated expenses can point at the new ids
+      const recurringIdMap = new Map<string, string>();
+      for (const recurring of backupGroup.recurring_expenses) {
+        const existingId = findExisting(recurring.id);
+        if (existingId) {
+          recurringIdMap.set(recurring.id, existingId);
+          continue;
+        }
+        const result = await apiCreateRecurringExpense(
+          user,
+          target.id,
+          target.encrypted_key,
+          recurring.data,
+          decryptWithPrivateKey,
+          encryptWithExternalEncryptionKey,
+          getRestoredId(recurring.id, target.id),
+        );
+        if (!result.success || !result.data) {
+          throw new Error(result.error || "Failed to create recurring expense");
+        }
+        recurringIdMap.set(recurring.id, result.data.id);
+        summary.recurringExpenses++;
+      }
+
+      // Receipts stay in the group they were taken in, so they are copied
+      // over while that group is still around and dropped otherwise
+      const sourceGroup = existingGroups.find(
+        (group) =>
+          group.id === backupGroup.id &&
+          group.membership_status === "confirmed",
+      );
+
+      const expenses = [];
+      for (const expense of backupGroup.expenses) {
+        if (findExisting(expense.id)) continue;
+
+        const data: ExpenseData = { ...expense.data };
+        if (data.recurring_expense_id) {
+          data.recurring_expense_id = recurringIdMap.get(
+            data.recurring_expense_id,
+          );
+        }
+        if (data.receipt && sourceGroup?.id !== target.id) {
+          const copied = sourceGroup
+            ? await apiCopyReceipt(
+                sourceGroup.id,
+                sourceGroup.encrypted_key,
+                target.id,
+                target.encrypted_key,
+                data.receipt.attachment_id,
+              )
+            : { success: false };
+          if (!copied.success) data.receipt = undefined;
+        }
+        expenses.push({
+          id: getRestoredId(expense.id, target.id),
+          isNew: true,
+          data,
+          group_id: target.id,
+          group_key: target.encrypted_key,
+        });
+      }
+
+      for (let i = 0; i < expenses.length; i += RESTORE_BATCH_SIZE) {
+        const result = await apiBulkInsertAndUpdateExpenses(
+          user,
+          expenses.slice(i, i + RESTORE_BATCH_SIZE),
+          encryptWithExternalEncryptionKey,
+        );
+        if (!result.success) {
+          throw new Error(result.error || "Failed to restore expenses");
+        }
+        summary.expenses += result.data?.length || 0;
+      }
+    }
+
+    for (const backupPortfolio of ownedArchive.portfolios) {
+      let target: { id: string; encrypted_key: string };
+      let existingIds = new Set<string>();
+      if (
+        backupPortfolio.data.private &&
+        personalPortfolio &&
+        !personalPortfolioUsed
+      ) {
+        target = personalPortfolio;
+        personalPortfolioUsed = true;
+        existingIds = new Set(
+          (personalPortfolio.investments || []).map(
+            (investment) => investment.id,
+          ),
+        );
+      } else {
+        const created = await apiCreatePortfolio(
+          user,
+          username,
+          publicKey,
+          createEncryptionKey,
+          encryptWithExternalPublicKey,
+          encryptWithExternalEncryptionKey,
+          backupPortfolio.data,
+        );
+        if (!created.success || !created.data) {
+          throw new Error(created.error || "Failed to create portfolio");
+        }
+        target = created.data;
+        summary.portfolios++;
+      }
+
+      restoredIds[backupPortfolio.id] = target.id;
+
+      for (const investment of backupPortfolio.investments) {
+        const restoredId = getRestoredId(investment.id, target.id);
+        if (existingIds.has(investment.id)) {
+          restoredIds[investment.id] = investment.id;
+          continue;
+        }
+        restoredIds[investment.id] = restoredId;
+        if (existingIds.has(restoredId)) continue;
+        const result = await apiAddInvestment(
+          user,
+          target.id,
+          target.encrypted_key,
+          investment.data,
+          decryptWithPrivateKey,
+          encryptWithExternalEncryptionKey,
+          restoredId,
+        );
+        if (!result.success) {
+          throw new Error(result.error || "Failed to restore investment");
+        }
+        summary.investments++;
+      }
+    }
+
+    const existingLiabilityIds = new Set(
+      (await piggusApi.getLiabilities()).map((liability) => liability.id),
+    );
+    for (const liability of ownedArchive.liabilities || []) {
+      const restoredId = getRestoredId(liability.id, user.id);
+      if (
+        existingLiabilityIds.has(liability.id) ||
+        existingLiabilityIds.has(restoredId)
+      ) {
+        continue;
+      }
+      const result = await apiCreateLiability(
+        user,
+        liability.data,
+        encryptData,
+        restoredId,
+      );
+      if (!result.success) {
+        throw new Error(result.error || "Failed to restore liability");
+      }
+      summary.liabilities++;
+    }
+
+    return {
+      success: true,
+      data: summary,
+      restoredIds,
+    };
+  } catch (error: any) {
+    console.error("Error restoring backup:", error);
+    return {
+      success: false,
+      data: summary,
+      error: error.message || "Failed to restore backup",
+    };
+  }
+};
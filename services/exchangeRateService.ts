@@ -0,0 +1,146 @@
+import { piggusApi } from "@/client/piggusApi";
+import { ExpenseData } from "@/types/expense";
+import {
+  ExchangeRateTable,
+  FALLBACK_EXCHANGE_RATES,
+  createExpenseExchangeRate,
+  rebaseExchangeRates,
+} from "@/utils/exchangeRateUtils";
+
+export interface ExchangeRateProvider {
+  name: string;
+  fetchRates: (base: string, date?: string) => Promise<ExchangeRateTable>;
+}
+
+// Rates served by the Piggus backend
+export const piggusExchangeRateProvider: ExchangeRateProvider = {
+  name: "piggus",
+  fetchRates: async (base: string, date?: string) => {
+    const table = await piggusApi.getExchangeRates(base, date);
+    if (!table || !table.rates) {
+      throw new Error("Exchange rate response is empty");
+    }
+    return table;
+  },
+};
+
+// Static fallback table, works without network access
+export const offlineExchangeRateProvider: ExchangeRateProvider = {
+  name: "offline",
+  fetchRates: async (base: string) => {
+    const table = rebaseExchangeRates(FALLBACK_EXCHANGE_RATES, base);
+    if (!table) {
+      throw new Error(`No offline exchange rates for ${base}`);
+    }
+    return table;
+  },
+};
+
+let exchangeRateProvider: ExchangeRateProvider =
+  process.env.EXPO_PUBLIC_EXCHANGE_RATE_PROVIDER === "offline"
+    ? offlineExchangeRateProvider
+    : piggusExchangeRateProvider;
+
+export const setExchangeRateProvider = (provider: ExchangeRateProvider) => {
+  exchangeRateProvider = provider;
+};
+
+export const getExchangeRateProvider = (): ExchangeRateProvider =>
+  exchangeRateProvider;
+
+// Tables already fetched this session, keyed by base and date
+const ratesCache = new Map<string, ExchangeRateTable>();
+
+export const apiFetchExchangeRates = async (
+  base: string,
+  date?: string,
+): Promise<{
+  success: boolean;
+  data?: ExchangeRateTable;
+  error?: string;
+}> => {
+  const cacheKey = `${exchangeRateProvider.name}:${base}:${date || "latest"}`;
+  const cached = ratesCache.get(cacheKey);
+  if (cached) {
+    return { success: true, data: cached };
+  }
+
+  try {
+    const table = await exchangeRateProvider.fetchRates(base, date);
+    ratesCache.set(cacheKey, table);
+    return { success: true, data: table };
+  } catch (error: any) {
+    console.warn(
+      `Exchange rate provider "${exchangeRateProvider.name}" failed, using offline rates:`,
+      error?.message,
+    );
+  }
+
+  try {
+    const table = await offlineExchangeRateProvider.fetchRates(base, date);
+    return { success: true, data: table };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error.message || "Failed to load exchange rates",
+    };
+  }
+};
+
+// Days a provider may look back for the last business day's rates
+const MAX_RATE_AGE_DAYS = 4;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Approximate rates only stand in until a provider is reachable again
+const isFallbackRate = (source: string) =>
+  source === offlineExchangeRateProvider.name;
+
+// Whether a rate was quoted for the expense day, or the last business day before it
+const isRateForDay = (rateDate: string, day: string) => {
+  const age = (Date.parse(day) - Date.parse(rateDate.split("T")[0])) / DAY_MS;
+  return age >= 0 && age <= MAX_RATE_AGE_DAYS;
+};
+
+/**
+ * Stores the rate between the expense currency and the group currency on the expense.
+ * A provider rate for the expense date is kept, so edits don't rewrite history.
+ * Offline fallback rates are never stored, the expense is resolved again on its
+ * next save instead.
+ */
+export const apiResolveExpenseExchangeRate = async (
+  expenseData: ExpenseData,
+  groupCurrency: string | undefined,
+): Promise<ExpenseData> => {
+  const { exchange_rate: existing, ...withoutRate } = expenseData;
+  const currency = expenseData.currency;
+  if (!currency || !groupCurrency || currency === groupCurrency) {
+    return withoutRate;
+  }
+
+  const day = expenseData.date.split("T")[0];
+  if (
+    existing &&
+    existing.from === currency &&
+    existing.to === groupCurrency &&
+    !isFallbackRate(existing.source) &&
+    isRateForDay(existing.date, day)
+  ) {
+    return expenseData;
+  }
+
+  const result = await apiFetchExchangeRates(currency, day);
+  const exchangeRate =
+    result.success && result.data
+      ? createExpenseExchangeRate(currency, groupCurrency, result.data)
+      : null;
+
+  if (!exchangeRate || isFallbackRate(exchangeRate.source)) {
+    console.warn(
+      `No exchange rate available from ${currency} to ${groupCurrency}`,
+    );
+    return withoutRate;
+  }
+
+  return { ...expenseData, exchange_rate: exchangeRate };
+};
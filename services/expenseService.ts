@@ -1,4 +1,9 @@
-import { piggusApi } from "@/client/piggusApi";
+import { isNetworkError } from "@/client/http";
+import { Expense, piggusApi } from "@/client/piggusApi";
+import { hash } from "@/lib/encryption";
+import { OfflineStore, OutboxMutation } from "@/lib/offlineStore";
+import { apiRecordGroupActivity } from "@/services/activityService";
+import { apiCopyReceipt, apiDeleteReceipt } from "@/services/attachmentService";
 import {
   ExpenseData,
   ExpenseGroupData,
@@ -6,12 +11,32 @@ import {
   ExpenseWithDecryptedData,
   GroupRefund,
 } from "@/types/expense";
+import {
+  diffExpenseData,
+  diffRefund,
+  getExpenseUpdateActivityType,
+} from "@/utils/activityUtils";
 import { createExpenseTimestamp } from "@/utils/dateUtils";
 import { User } from "@supabase/supabase-js";
 import { Buffer } from "buffer";
 import "react-native-get-random-values";
 import { v4 as uuidv4 } from "uuid";
 
+/**
+ * Stores a change made while offline so it can be replayed later
+ */
+const queueExpenseMutation = async (
+  user: User,
+  mutation: Omit<OutboxMutation, "id" | "queued_at" | "attempts">,
+): Promise<void> => {
+  await OfflineStore.enqueueMutation(user.id, {
+    ...mutation,
+    id: uuidv4(),
+    queued_at: new Date().toISOString(),
+    attempts: 0,
+  });
+};
+
 export const apiFetchExpensesPaginated = async (
   user: User,
   groupId: string,
@@ -30,6 +55,7 @@ export const apiFetchExpensesPaginated = async (
     limit: number;
     totalPages: number;
   };
+  offline?: boolean;
   error?: string;
 }> => {
   try {
@@ -41,10 +67,52 @@ export const apiFetchExpensesPaginated = async (
       };
     }
 
-    const paginatedResult = await piggusApi.getExpensesForGroupPaginated(
-      groupId,
-      params,
-    );
+    let paginatedResult: {
+      expenses: Expense[];
+      total: number;
+      page: number;
+      limit: number;
+      totalPages: number;
+    } | null;
+    let offline = false;
+
+    try {
+      paginatedResult = await piggusApi.getExpensesForGroupPaginated(
+        groupId,
+        params,
+      );
+      if (paginatedResult) {
+        // A single page holds the whole range, so it can replace the cache
+        const isComplete =
+          paginatedResult.page === 1 && paginatedResult.totalPages <= 1;
+        await OfflineStore.saveCachedExpenses(
+          user.id,
+          groupId,
+          paginatedResult.expenses,
+          isComplete
+            ? { startDate: params.startDate, endDate: params.endDate }
+            : undefined,
+        );
+      }
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+
+      offline = true;
+      const cached = await OfflineStore.getCachedExpenses(
+        user.id,
+        groupId,
+        params.startDate,
+        params.endDate,
+      );
+      const offset = (params.page - 1) * params.limit;
+      paginatedResult = {
+        expenses: cached.slice(offset, offset + params.limit),
+        total: cached.length,
+        page: params.page,
+        limit: params.limit,
+        totalPages: Math.ceil(cached.length / params.limit),
+      };
+    }
 
     if (!paginatedResult) {
       return {
@@ -59,11 +127,24 @@ export const apiFetchExpensesPaginated = async (
       };
     }
 
+    // Show queued changes; new expenses only once, on the first page
+    const pageIds = new Set(paginatedResult.expenses.map((e) => e.id));
+    const outbox = (await OfflineStore.getOutbox(user.id)).filter(
+      (mutation) => params.page === 1 || pageIds.has(mutation.expense_id),
+    );
+    const expenses = OfflineStore.applyOutbox(
+      paginatedResult.expenses,
+      outbox,
+      groupId,
+      params.startDate,
+      params.endDate,
+    );
+
     // Decrypt expenses individually to handle failures gracefully
     const decryptedExpenses = [];
     const failedExpenses = [];
 
-    for (const expense of paginatedResult.expenses) {
+    for (const expense of expenses) {
       try {
         const decryptedData = await decryptWithExternalEncryptionKey(
           groupKey,
@@ -98,6 +179,7 @@ export const apiFetchExpensesPaginated = async (
         limit: paginatedResult.limit,
         totalPages: paginatedResult.totalPages,
       },
+      offline,
     };
   } catch (error: any) {
     console.error("Error fetching paginated expenses:", error);
@@ -118,6 +200,7 @@ export const apiFetchExpenseGroupsOnly = async (
 ): Promise<{
   success: boolean;
   data?: ExpenseGroupWithDecryptedData[];
+  offline?: boolean;
   error?: string;
 }> => {
   try {
@@ -129,7 +212,24 @@ export const apiFetchExpenseGroupsOnly = async (
       };
     }
 
-    const memberships = await piggusApi.getExpenseGroups();
+    let memberships: Awaited<ReturnType<typeof piggusApi.getExpenseGroups>>;
+    let offline = false;
+    try {
+      memberships = await piggusApi.getExpenseGroups();
+      if (memberships) {
+        await OfflineStore.saveCachedGroups(user.id, memberships);
+      }
+    } catch (error) {
+      const cached = isNetworkError(error)
+        ? await OfflineStore.getCachedGroups<(typeof memberships)[number]>(
+            user.id,
+          )
+        : null;
+      if (!cached) throw error;
+      memberships = cached;
+      offline = true;
+    }
+
     if (!memberships) {
       return {
         success: true,
@@ -185,6 +285,7 @@ export const apiFetchExpenseGroupsOnly = async (
     return {
       success: true,
       data: decryptedGroups,
+      offline,
     };
   } catch (error: any) {
     console.error("Error fetching expense groups:", error);
@@ -409,6 +510,7 @@ export const apiAddExpense = async (
 ): Promise<{
   success: boolean;
   data?: ExpenseWithDecryptedData;
+  queued?: boolean;
   error?: string;
 }> => {
   try {
@@ -428,10 +530,44 @@ export const apiAddExpense = async (
     // Use the expense date with current time as created_at for backend filtering
     const createdAt = createExpenseTimestamp(expenseData.date);
 
-    const expense = await piggusApi.addExpense(groupId, {
-      expenseId,
-      encryptedData,
-      created_at: createdAt,
+    let expense: Expense;
+    try {
+      expense = await piggusApi.addExpense(groupId, {
+        expenseId,
+        encryptedData,
+        created_at: createdAt,
+      });
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+
+      await queueExpenseMutation(user, {
+        type: "create",
+        group_id: groupId,
+        expense_id: expenseId,
+        encrypted_data: encryptedData,
+        group_key_fingerprint: await hash(groupKey),
+        created_at: createdAt,
+      });
+      return {
+        success: true,
+        queued: true,
+        data: {
+          id: expenseId,
+          group_id: groupId,
+          created_at: createdAt ?? new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+          data: expenseData,
+        },
+      };
+    }
+
+    await OfflineStore.saveCachedExpenses(user.id, groupId, [expense]);
+    await apiRecordGroupActivity(groupId, groupKey, {
+      type: "expense_created",
+      expense_id: expense.id,
+      subject: expenseData.name,
+      amount: expenseData.amount,
+      currency: expenseData.currency,
     });
 
     return {
@@ -460,9 +596,11 @@ export const apiUpdateExpense = async (
     encryptionKey: string,
     data: any,
   ) => Promise<string>,
+  previousData?: ExpenseData, // Version being replaced, for the activity log
 ): Promise<{
   success: boolean;
   data?: ExpenseWithDecryptedData;
+  queued?: boolean;
   error?: string;
 }> => {
   try {
@@ -481,10 +619,65 @@ export const apiUpdateExpense = async (
     // Use the updated expense date with current time as created_at for backend filtering
     const createdAt = createExpenseTimestamp(updatedExpense.data.date);
 
-    const expense = await piggusApi.updateExpense(groupId, updatedExpense.id, {
-      encryptedData,
+    const mutation = {
+      type: "update" as const,
+      group_id: groupId,
+      expense_id: updatedExpense.id,
+      encrypted_data: encryptedData,
+      group_key_fingerprint: await hash(groupKey),
       created_at: createdAt,
-    });
+      base_updated_at: updatedExpense.updated_at,
+    };
+    const queuedResult = {
+      success: true,
+      queued: true,
+      data: {
+        ...updatedExpense,
+        created_at: createdAt ?? updatedExpense.created_at,
+        updated_at: new Date().toISOString(),
+      },
+    };
+
+    // Keep the order of changes to an expense that still has some queued
+    if (
+      await OfflineStore.hasPendingMutation(
+        user.id,
+        groupId,
+        mutation.expense_id,
+      )
+    ) {
+      await queueExpenseMutation(user, mutation);
+      return queuedResult;
+    }
+
+    let expense: Expense;
+    try {
+      expense = await piggusApi.updateExpense(groupId, updatedExpense.id, {
+        encryptedData,
+        created_at: createdAt,
+      });
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+
+      await queueExpenseMutation(user, mutation);
+      return queuedResult;
+    }
+
+    await OfflineStore.saveCachedExpenses(user.id, groupId, [expense]);
+
+    const changes = previousData
+      ? diffExpenseData(previousData, updatedExpense.data)
+      : undefined;
+    if (!changes || changes.length > 0) {
+      await apiRecordGroupActivity(groupId, groupKey, {
+        type: getExpenseUpdateActivityType(previousData, updatedExpense.data),
+        expense_id: updatedExpense.id,
+        subject: updatedExpense.data.name,
+        amount: updatedExpense.data.amount,
+        currency: updatedExpense.data.currency,
+        changes,
+      });
+    }
 
     return {
       success: true,
@@ -506,7 +699,9 @@ export const apiDeleteExpense = async (
   user: User,
   groupId: string,
   expenseId: string,
-): Promise<{ success: boolean; error?: string }> => {
+  groupKey?: string,
+  expenseData?: ExpenseData, // Deleted version, for the activity log
+): Promise<{ success: boolean; queued?: boolean; error?: string }> => {
   try {
     if (!user || !groupId || !expenseId) {
       return {
@@ -515,7 +710,45 @@ export const apiDeleteExpense = async (
       };
     }
 
-    const result = await piggusApi.deleteExpense(groupId, expenseId);
+    const cached = await OfflineStore.getCachedExpense(
+      user.id,
+      groupId,
+      expenseId,
+    );
+    const mutation = {
+      type: "delete" as const,
+      group_id: groupId,
+      expense_id: expenseId,
+      base_updated_at: cached?.updated_at,
+    };
+
+    if (await OfflineStore.hasPendingMutation(user.id, groupId, expenseId)) {
+      await queueExpenseMutation(user, mutation);
+      return { success: true, queued: true };
+    }
+
+    let result: { success: boolean };
+    try {
+      result = await piggusApi.deleteExpense(groupId, expenseId);
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+
+      await queueExpenseMutation(user, mutation);
+      return { success: true, queued: true };
+    }
+
+    if (result.success) {
+      await OfflineStore.removeCachedExpense(user.id, groupId, expenseId);
+      if (groupKey) {
+        await apiRecordGroupActivity(groupId, groupKey, {
+          type: "expense_deleted",
+          expense_id: expenseId,
+          subject: expenseData?.name,
+          amount: expenseData?.amount,
+          currency: expenseData?.currency,
+        });
+      }
+    }
     return {
       success: result.success,
     };
@@ -528,6 +761,106 @@ export const apiDeleteExpense = async (
   }
 };
 
+/**
+ * Deletes trashed expenses for good. Bank transaction ids are kept as
+ * tombstones in the group first, so a later sync cannot bring them back.
+ */
+export const apiPurgeExpenses = async (
+  user: User,
+  groupId: string,
+  encryptedKey: string,
+  expenses: ExpenseWithDecryptedData[],
+  encryptWithExternalEncryptionKey: (
+    encryptionKey: string,
+    data: any,
+  ) => Promise<string>,
+  decryptWithExternalEncryptionKey: (
+    encryptionKey: string,
+    encryptedData: string,
+  ) => Promise<any>,
+): Promise<{
+  success: boolean;
+  data?: {
+    groupData: ExpenseGroupData;
+    purgedIds: string[];
+  };
+  error?: string;
+}> => {
+  try {
+    if (!user || !groupId || !encryptedKey || !expenses) {
+      return {
+        success: false,
+        error: "Invalid parameters",
+      };
+    }
+
+    const groupData = await piggusApi.getExpenseGroup(groupId);
+    let decryptedGroupData: ExpenseGroupData =
+      await decryptWithExternalEncryptionKey(
+        encryptedKey,
+        groupData.encrypted_data,
+      );
+
+    const tombstones = expenses
+      .map((expense) => expense.data.external_transaction_id)
+      .filter((id): id is string => Boolean(id));
+    if (tombstones.length > 0) {
+      decryptedGroupData = {
+        ...decryptedGroupData,
+        deleted_transaction_ids: [
+          ...new Set([
+            ...(decryptedGroupData.deleted_transaction_ids || []),
+            ...tombstones,
+          ]),
+        ],
+      };
+      const encryptedData = await encryptWithExternalEncryptionKey(
+        encryptedKey,
+        decryptedGroupData,
+      );
+      await piggusApi.updateExpenseGroup(groupId, { encryptedData });
+    }
+
+    const purgedIds: string[] = [];
+    for (const expense of expenses) {
+      try {
+        const result = await piggusApi.deleteExpense(groupId, expense.id);
+        if (!result.success) continue;
+
+        purgedIds.push(expense.id);
+        await OfflineStore.removeCachedExpense(user.id, groupId, expense.id);
+        if (expense.data.receipt) {
+          await apiDeleteReceipt(groupId, expense.data.receipt.attachment_id);
+        }
+        await apiRecordGroupActivity(groupId, encryptedKey, {
+          type: "expense_purged",
+          expense_id: expense.id,
+          subject: expense.data.name,
+          amount: expense.data.amount,
+          currency: expense.data.currency,
+        });
+      } catch (error) {
+        console.error(`Failed to purge expense ${expense.id}:`, error);
+      }
+    }
+
+    return {
+      success: purgedIds.length === expenses.length,
+      data: { groupData: decryptedGroupData, purgedIds },
+      error:
+        purgedIds.length === expenses.length
+          ? undefined
+          : "Some expenses could not be deleted",
+    };
+  } catch (error: any) {
+    console.error("Error purging expenses:", error);
+    return {
+      success: false,
+      error: error.message || "Failed to purge expenses",
+    };
+  }
+};
+
 export const apiInviteUserToGroup = async (
   user: User,
   groupId: string,
@@ -608,6 +941,11 @@ export const apiInviteUserToGroup = async (
       username,
       encryptedGroupKey: encryptedGroupKeyForNewUser,
     });
+    await apiRecordGroupActivity(groupId, groupKeyString, {
+      type: "member_invited",
+      member_id: targetUser.id,
+      subject: username,
+    });
 
     return { success: true };
   } catch (error: any) {
@@ -623,6 +961,7 @@ export const apiHandleGroupInvitation = async (
   user: User,
   groupId: string,
   accept: boolean,
+  groupKey?: string,
 ): Promise<{ success: boolean; error?: string }> => {
   try {
     if (!user || !groupId) {
@@ -635,6 +974,12 @@ export const apiHandleGroupInvitation = async (
     const result = await piggusApi.handleExpenseGroupInvite(groupId, {
       accept,
     });
+    if (result.success && groupKey) {
+      await apiRecordGroupActivity(groupId, groupKey, {
+        type: accept ? "member_joined" : "member_declined",
+        member_id: user.id,
+      });
+    }
     return {
       success: result.success,
     };
@@ -780,6 +1125,13 @@ export const apiAddRefund = async (
       updatedGroupData,
     );
     await piggusApi.updateExpenseGroup(groupId, { encryptedData });
+    await apiRecordGroupActivity(groupId, encryptedKey, {
+      type: "refund_created",
+      refund_id: newRefund.id,
+      subject: newRefund.description,
+      amount: newRefund.amount,
+      currency: newRefund.currency,
+    });
 
     return {
       success: true,
@@ -862,6 +1214,18 @@ export const apiUpdateRefund = async (
       updatedGroupData,
     );
     await piggusApi.updateExpenseGroup(groupId, { encryptedData });
+    const updatedRefund: GroupRefund = updatedRefunds[refundIndex];
+    await apiRecordGroupActivity(groupId, encryptedKey, {
+      type: "refund_updated",
+      refund_id: refundId,
+      subject: updatedRefund.description,
+      amount: updatedRefund.amount,
+      currency: updatedRefund.currency,
+      changes: diffRefund(
+        decryptedGroupData.refunds[refundIndex],
+        updatedRefund,
+      ),
+    });
 
     return {
       success: true,
@@ -913,6 +1277,9 @@ export const apiDeleteRefund = async (
     );
 
     // Remove the refund
+    const deletedRefund: GroupRefund | undefined = (
+      decryptedGroupData.refunds || []
+    ).find((r: GroupRefund) => r.id === refundId);
     const updatedRefunds = (decryptedGroupData.refunds || []).filter(
       (r: GroupRefund) => r.id !== refundId,
     );
@@ -929,6 +1296,13 @@ export const apiDeleteRefund = async (
       updatedGroupData,
     );
     await piggusApi.updateExpenseGroup(groupId, { encryptedData });
+    await apiRecordGroupActivity(groupId, encryptedKey, {
+      type: "refund_deleted",
+      refund_id: refundId,
+      subject: deletedRefund?.description,
+      amount: deletedRefund?.amount,
+      currency: deletedRefund?.currency,
+    });
 
     return {
       success: true,
@@ -946,36 +1320,166 @@ export const apiDeleteRefund = async (
   }
 };
 
-export const apiMoveExpense = async (
+// Backends without the move endpoint answer with one of these
+const isMoveUnsupported = (error: any) =>
+  [404, 405, 501].includes(error?.response?.status);
+
+/**
+ * Client side move for backends without the move endpoint. Each expense is
+ * queued for the target group before it is deleted, so one the app loses
+ * between delete and add still arrives there with the next outbox replay.
+ * Throws after putting the already moved expenses back in the source group.
+ */
+const moveExpensesOneByOne = async (
   user: User,
-  expenseId: string,
   fromGroupId: string,
   toGroupId: string,
   fromGroupKey: string,
   toGroupKey: string,
-  updatedExpenseData: ExpenseData,
-  decryptWithExternalEncryptionKey: (
+  originals: ExpenseWithDecryptedData[],
+  payload: { id: string; encryptedData: any; created_at?: string }[],
+  encryptWithExternalEncryptionKey: (
     encryptionKey: string,
-    encryptedData: string,
-  ) => Promise<any>,
+    data: any,
+  ) => Promise<string>,
+): Promise<Expense[]> => {
+  const moved: Expense[] = [];
+  let inFlight: ExpenseWithDecryptedData | undefined;
+  const toGroupFingerprint = await hash(toGroupKey);
+
+  try {
+    for (const [index, original] of originals.entries()) {
+      await queueExpenseMutation(user, {
+        type: "create",
+        group_id: toGroupId,
+        expense_id: original.id,
+        encrypted_data: payload[index].encryptedData,
+        group_key_fingerprint: toGroupFingerprint,
+        created_at: payload[index].created_at,
+      });
+      inFlight = original;
+
+      const deleteResult = await piggusApi.deleteExpense(
+        fromGroupId,
+        original.id,
+      );
+      if (!deleteResult.success) {
+        throw new Error("Failed to remove expense from original group");
+      }
+
+      moved.push(
+        await piggusApi.addExpense(toGroupId, {
+          expenseId: original.id,
+          encryptedData: payload[index].encryptedData,
+          created_at: payload[index].created_at,
+        }),
+      );
+      await OfflineStore.removeMutation(user.id, toGroupId, original.id);
+      inFlight = undefined;
+    }
+    return moved;
+  } catch (error) {
+    console.error("Moving expenses failed, rolling back:", error);
+    const fromGroupFingerprint = await hash(fromGroupKey);
+    const putBack = async (
+      original: ExpenseWithDecryptedData,
+      encryptedData: string,
+    ) =>
+      piggusApi.addExpense(fromGroupId, {
+        expenseId: original.id,
+        encryptedData,
+        created_at: original.created_at,
+      });
+
+    // Journaled like the move itself, queued for the source group this time
+    for (const [index, expense] of moved.entries()) {
+      const original = originals[index];
+      try {
+        const encryptedData = await encryptWithExternalEncryptionKey(
+          fromGroupKey,
+          original.data,
+        );
+        await queueExpenseMutation(user, {
+          type: "create",
+          group_id: fromGroupId,
+          expense_id: original.id,
+          encrypted_data: encryptedData,
+          group_key_fingerprint: fromGroupFingerprint,
+          created_at: original.created_at,
+        });
+        try {
+          await piggusApi.deleteExpense(toGroupId, expense.id);
+        } catch (deleteError) {
+          await OfflineStore.removeMutation(user.id, fromGroupId, original.id);
+          throw deleteError;
+        }
+        await putBack(original, encryptedData);
+        await OfflineStore.removeMutation(user.id, fromGroupId, original.id);
+      } catch (rollbackError) {
+        console.error(
+          `Failed to move expense ${expense.id} back:`,
+          rollbackError,
+        );
+      }
+    }
+
+    // Still queued for the target group if it cannot be put back
+    if (inFlight) {
+      try {
+        await putBack(
+          inFlight,
+          await encryptWithExternalEncryptionKey(fromGroupKey, inFlight.data),
+        );
+        await OfflineStore.removeMutation(user.id, toGroupId, inFlight.id);
+      } catch (rollbackError: any) {
+        // Still in the source group, its delete never went through
+        if (rollbackError.response?.status === 409) {
+          await OfflineStore.removeMutation(user.id, toGroupId, inFlight.id);
+        } else {
+          console.error(
+            `Failed to restore expense ${inFlight.id}:`,
+            rollbackError,
+          );
+        }
+      }
+    }
+    throw error;
+  }
+};
+
+/**
+ * Moves expenses to another group, keeping their ids so links to them stay
+ * valid. The server moves them in one transaction; without that endpoint
+ * each expense is deleted and added again, and a failure puts back every
+ * expense of the batch. Receipts are copied to the target group first and
+ * only removed from the source group once the move succeeded.
+ */
+export const apiMoveExpenses = async (
+  user: User,
+  fromGroupId: string,
+  toGroupId: string,
+  fromGroupKey: string,
+  toGroupKey: string,
+  moves: { expense: ExpenseWithDecryptedData; data: ExpenseData }[],
   encryptWithExternalEncryptionKey: (
     encryptionKey: string,
     data: any,
   ) => Promise<string>,
 ): Promise<{
   success: boolean;
-  data?: ExpenseWithDecryptedData;
+  data?: ExpenseWithDecryptedData[];
   error?: string;
 }> => {
+  const copiedReceipts: string[] = [];
   try {
     if (
       !user ||
-      !expenseId ||
       !fromGroupId ||
       !toGroupId ||
+      fromGroupId === toGroupId ||
       !fromGroupKey ||
       !toGroupKey ||
-      !updatedExpenseData
+      !moves?.length
     ) {
       return {
         success: false,
@@ -983,41 +1487,114 @@ export const apiMoveExpense = async (
       };
     }
 
-    // First, delete the expense from the original group
-    const deleteResult = await piggusApi.deleteExpense(fromGroupId, expenseId);
-    if (!deleteResult.success) {
-      return {
-        success: false,
-        error: "Failed to remove expense from original group",
-      };
+    // Queued changes would be replayed against the old group
+    for (const { expense } of moves) {
+      if (
+        await OfflineStore.hasPendingMutation(user.id, fromGroupId, expense.id)
+      ) {
+        return {
+          success: false,
+          error: "Some expenses have changes waiting to be synced",
+        };
+      }
     }
 
-    // Then, add the expense to the new group with updated data
-    const newExpenseId = uuidv4();
-    const encryptedData = await encryptWithExternalEncryptionKey(
-      toGroupKey,
-      updatedExpenseData,
+    // Receipts are encrypted with the source group key
+    for (const { data } of moves) {
+      if (!data.receipt) continue;
+      const copy = await apiCopyReceipt(
+        fromGroupId,
+        fromGroupKey,
+        toGroupId,
+        toGroupKey,
+        data.receipt.attachment_id,
+      );
+      if (!copy.success) {
+        throw new Error(
+          copy.error || "Failed to copy receipt to the new group",
+        );
+      }
+      copiedReceipts.push(data.receipt.attachment_id);
+    }
+
+    const payload = await Promise.all(
+      moves.map(async ({ expense, data }) => ({
+        id: expense.id,
+        encryptedData: await encryptWithExternalEncryptionKey(toGroupKey, data),
+        created_at: createExpenseTimestamp(data.date),
+      })),
     );
-    const createdAt = createExpenseTimestamp(updatedExpenseData.date);
 
-    const newExpense = await piggusApi.addExpense(toGroupId, {
-      expenseId: newExpenseId,
-      encryptedData,
-      created_at: createdAt,
+    let movedExpenses: Expense[];
+    try {
+      movedExpenses = await piggusApi.moveExpenses(fromGroupId, {
+        toGroupId,
+        expenses: payload,
+      });
+    } catch (error) {
+      if (!isMoveUnsupported(error)) throw error;
+      movedExpenses = await moveExpensesOneByOne(
+        user,
+        fromGroupId,
+        toGroupId,
+        fromGroupKey,
+        toGroupKey,
+        moves.map(({ expense }) => expense),
+        payload,
+        encryptWithExternalEncryptionKey,
+      );
+    }
+
+    const moved = moves.map(({ expense, data }) => {
+      const movedExpense = movedExpenses.find((e) => e.id === expense.id);
+      return {
+        ...expense,
+        ...movedExpense,
+        group_id: toGroupId,
+        data,
+      } as ExpenseWithDecryptedData;
     });
 
+    for (const expense of moved) {
+      await OfflineStore.removeCachedExpense(user.id, fromGroupId, expense.id);
+    }
+    await OfflineStore.saveCachedExpenses(user.id, toGroupId, movedExpenses);
+
+    for (const attachmentId of copiedReceipts) {
+      await apiDeleteReceipt(fromGroupId, attachmentId);
+    }
+
+    for (const expense of moved) {
+      const movedActivity = {
+        expense_id: expense.id,
+        subject: expense.data.name,
+        amount: expense.data.amount,
+        currency: expense.data.currency,
+      };
+      await apiRecordGroupActivity(fromGroupId, fromGroupKey, {
+        ...movedActivity,
+        type: "expense_moved_out",
+        other_group_id: toGroupId,
+      });
+      await apiRecordGroupActivity(toGroupId, toGroupKey, {
+        ...movedActivity,
+        type: "expense_moved_in",
+        other_group_id: fromGroupId,
+      });
+    }
+
     return {
       success: true,
-      data: {
-        ...newExpense,
-        data: updatedExpenseData,
-      } as ExpenseWithDecryptedData,
+      data: moved,
     };
   } catch (error: any) {
-    console.error("Error moving expense:", error);
+    console.error("Error moving expenses:", error);
+    for (const attachmentId of copiedReceipts) {
+      await apiDeleteReceipt(toGroupId, attachmentId);
+    }
     return {
       success: false,
-      error: error.message || "Failed to move expense",
+      error: error.message || "Failed to move expenses",
     };
   }
 };
@@ -1100,6 +1677,7 @@ export const apiBulkInsertAndUpdateExpenses = async (
   user: User,
   expenses: {
     id?: string;
+    isNew?: boolean; // Creates the expense under `id` instead of updating it
     data: ExpenseData;
     group_id: string;
     group_key: string;
@@ -1133,7 +1711,7 @@ export const apiBulkInsertAndUpdateExpenses = async (
           expenseId,
           encryptedData,
           originalData: expense.data,
-          isNew: !expense.id,
+          isNew: expense.isNew ?? !expense.id,
           group_id: expense.group_id,
           created_at: createdAt,
         };
@@ -1160,6 +1738,22 @@ export const apiBulkInsertAndUpdateExpenses = async (
         }) as ExpenseWithDecryptedData,
     );
 
+    // Imports and generated expenses show up in the feed like added ones
+    for (const [index, expense] of encryptedExpenses.entries()) {
+      if (!expense.isNew) continue;
+      await apiRecordGroupActivity(
+        expense.group_id,
+        expenses[index].group_key,
+        {
+          type: "expense_created",
+          expense_id: expense.expenseId,
+          subject: expense.originalData.name,
+          amount: expense.originalData.amount,
+          currency: expense.originalData.currency,
+        },
+      );
+    }
+
     return {
       success: true,
       data: processedExpenses,
@@ -28,6 +28,7 @@ export {
   apiRemoveUserFromPortfolio,
   apiLookupInvestmentBySymbol,
   apiSearchSymbolsWithQuotes,
+  apiLookupDividendSchedule,
 } from "./investmentService";
 
 // Profile services
@@ -46,5 +47,51 @@ export {
   apiProcessRecurringExpenses,
 } from "./recurringExpenseService";
 
+// Liability services
+export {
+  apiFetchLiabilities,
+  apiCreateLiability,
+  apiUpdateLiability,
+  apiDeleteLiability,
+} from "./liabilityService";
+
+// Attachment services
+export {
+  apiUploadReceipt,
+  apiFetchReceipt,
+  apiDeleteReceipt,
+  setAttachmentStorage,
+} from "./attachmentService";
+
+// Activity services
+export {
+  apiFetchGroupActivity,
+  apiRecordGroupActivity,
+} from "./activityService";
+
+// Exchange rate services
+export {
+  apiFetchExchangeRates,
+  apiResolveExpenseExchangeRate,
+  setExchangeRateProvider,
+} from "./exchangeRateService";
+
+// Backup services
+export { apiExportBackup, apiRestoreBackup } from "./backupService";
+
+// Key rotation services
+export {
+  apiRemoveUserAndRotateGroupKey,
+  apiRemoveUserAndRotatePortfolioKey,
+  getPendingKeyRotation,
+} from "./keyRotationService";
+
+// Offline sync services
+export {
+  apiReplayOutbox,
+  apiResolveOutboxConflict,
+  apiFetchOutboxState,
+} from "./offlineService";
+
 // Guide services
 export { apiFetchGuides, apiFetchGuide } from "./guideService";
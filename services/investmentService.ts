@@ -1,5 +1,6 @@
 import { piggusApi } from "@/client/piggusApi";
 import {
+  DividendScheduleLookupResult,
   InvestmentData,
   InvestmentLookupResultV2,
   InvestmentWithDecryptedData,
@@ -227,6 +228,7 @@ export const apiAddInvestment = async (
     encryptionKey: string,
     data: any,
   ) => Promise<string>,
+  investmentId: string = uuidv4(),
 ): Promise<{
   success: boolean;
   data?: InvestmentWithDecryptedData;
@@ -240,7 +242,6 @@ export const apiAddInvestment = async (
       };
     }
 
-    const investmentId = uuidv4();
     const encryptedData = await encryptWithExternalEncryptionKey(
       portfolioKey,
       investmentData,
@@ -609,3 +610,35 @@ export const apiLookupInvestmentBySymbol = async (
     };
   }
 };
+
+export const apiLookupDividendSchedule = async (
+  symbol: string,
+  exchangeMarket: string,
+): Promise<{
+  success: boolean;
+  data?: DividendScheduleLookupResult | null;
+  error?: string;
+}> => {
+  try {
+    if (!symbol || !exchangeMarket) {
+      return {
+        success: false,
+        error: "Missing required parameters: symbol, exchangeMarket",
+      };
+    }
+    const result = await piggusApi.lookupDividendSchedule(
+      symbol,
+      exchangeMarket,
+    );
+    return {
+      success: true,
+      data: result,
+    };
+  } catch (error: any) {
+    console.error("Error looking up dividend schedule:", error);
+    return {
+      success: false,
+      error: error.message || "Failed to lookup dividend schedule",
+    };
+  }
+};
@@ -0,0 +1,802 @@
+import { piggusApi } from "@/client/piggusApi";
+import {
+  base64ToArrayBuffer,
+  decryptWithAES,
+  encryptWithAES,
+} from "@/lib/encryption";
+import { apiRecordGroupActivity } from "@/services/activityService";
+import { getAttachmentStorage } from "@/services/attachmentService";
+import { SharedKeyRotation } from "@/types/expense";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { User } from "@supabase/supabase-js";
+import { Buffer } from "buffer";
+
+const STORAGE_KEY = "@piggus_pending_key_rotations";
+
+// Re-encrypted expenses are written back in batches to keep request bodies reasonable
+const ROTATION_BATCH_SIZE = 100;
+
+// Sweeps for records other members wrote with the old key during the rotation
+const MAX_VERIFY_PASSES = 5;
+
+// Activity entries fetched per request, the feed is paged by date
+const ACTIVITY_FETCH_LIMIT = 200;
+
+export type KeyRotationTargetType = "expenseGroup" | "portfolio";
+
+export type KeyRotationStage =
+  | "removeMember"
+  | "items"
+  | "recurring"
+  | "activity"
+  | "attachments"
+  | "metadata"
+  | "memberKeys"
+  | "verify";
+
+const STAGES: KeyRotationStage[] = [
+  "removeMember",
+  "items",
+  "recurring",
+  "activity",
+  "attachments",
+  "metadata",
+  "memberKeys",
+  "verify",
+];
+
+// Stages that re-encrypt records, run again while verifying
+type RecordStage = "items" | "recurring" | "activity" | "attachments";
+
+const RECORD_STAGES: RecordStage[] = [
+  "items",
+  "recurring",
+  "activity",
+  "attachments",
+];
+
+export type KeyRotationProgress = {
+  stage: KeyRotationStage;
+  processed: number;
+  total: number;
+};
+
+/**
+ * Rotation that has not finished yet. Both keys are stored encrypted with
+ * the user's own public key, so an interrupted rotation can be resumed
+ * without keeping a plain key on the device.
+ */
+export type PendingKeyRotation = SharedKeyRotation & {
+  type: KeyRotationTargetType;
+  target_id: string;
+  stage: KeyRotationStage;
+  error?: string;
+};
+
+export type KeyRotationResult = {
+  success: boolean;
+  error?: string;
+  unreadableItems?: number; // Items that no key could decrypt and were left untouched
+};
+
+type EncryptedRecord = {
+  id: string;
+  encrypted_data: any;
+  created_at?: string;
+};
+
+// How each kind of shared container stores its data and member keys
+type KeyRotationAdapter = {
+  removeMember: (userId: string) => Promise<void>;
+  fetchItems: () => Promise<EncryptedRecord[]>;
+  saveItems: (items: EncryptedRecord[]) => Promise<void>;
+  fetchRecurring: () => Promise<EncryptedRecord[]>;
+  saveRecurring: (item: EncryptedRecord) => Promise<void>;
+  fetchActivity: () => Promise<EncryptedRecord[]>;
+  saveActivity: (items: EncryptedRecord[]) => Promise<void>;
+  getAttachmentIds: (item: any) => string[];
+  downloadAttachment: (attachmentId: string) => Promise<string>;
+  saveAttachment: (
+    attachmentId: string,
+    encryptedData: string,
+  ) => Promise<void>;
+  fetchMetadata: () => Promise<{
+    encryptedData: any;
+    members: { user_id: string; username?: string }[];
+  }>;
+  saveMetadata: (encryptedData: string) => Promise<void>;
+  saveMemberKeys: (
+    memberKeys: { userId: string; encryptedKey: string }[],
+  ) => Promise<void>;
+};
+
+const readPendingRotations = async (): Promise<PendingKeyRotation[]> => {
+  try {
+    const stored = await AsyncStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.warn("Error reading pending key rotations:", error);
+    return [];
+  }
+};
+
+const writePendingRotation = async (
+  rotation: PendingKeyRotation,
+): Promise<void> => {
+  const rotations = await readPendingRotations();
+  await AsyncStorage.setItem(
+    STORAGE_KEY,
+    JSON.stringify([
+      ...rotations.filter(
+        (r) =>
+          !(r.type === rotation.type && r.target_id === rotation.target_id),
+      ),
+      rotation,
+    ]),
+  );
+};
+
+const clearPendingRotation = async (
+  type: KeyRotationTargetType,
+  targetId: string,
+): Promise<void> => {
+  const rotations = await readPendingRotations();
+  await AsyncStorage.setItem(
+    STORAGE_KEY,
+    JSON.stringify(
+      rotations.filter((r) => !(r.type === type && r.target_id === targetId)),
+    ),
+  );
+};
+
+/**
+ * Unfinished rotation of a group or portfolio, if any. One started on
+ * another device is resumed from the beginning, finished stages go quickly.
+ */
+export const getPendingKeyRotation = async (
+  type: KeyRotationTargetType,
+  targetId: string,
+  shared?: SharedKeyRotation,
+): Promise<PendingKeyRotation | undefined> => {
+  const local = (await readPendingRotations()).find(
+    (r) => r.type === type && r.target_id === targetId,
+  );
+  if (local || !shared) return local;
+  return { ...shared, type, target_id: targetId, stage: "removeMember" };
+};
+
+// The whole activity log, the API only returns one page per request
+const fetchAllGroupActivity = async (
+  groupId: string,
+): Promise<EncryptedRecord[]> => {
+  const entries: EncryptedRecord[] = [];
+  let before: string | undefined;
+  while (true) {
+    const page = await piggusApi.getGroupActivity(groupId, {
+      limit: ACTIVITY_FETCH_LIMIT,
+      before,
+    });
+    entries.push(...(page || []));
+    if (!page || page.length < ACTIVITY_FETCH_LIMIT) return entries;
+    before = page[page.length - 1].created_at;
+  }
+};
+
+const createExpenseGroupAdapter = (groupId: string): KeyRotationAdapter => ({
+  removeMember: async (userId) => {
+    await piggusApi.removeExpenseGroupMember(groupId, userId);
+  },
+  fetchItems: () => piggusApi.getExpensesForGroup(groupId),
+  saveItems: async (items) => {
+    await piggusApi.bulkAddUpdateExpenses(
+      items.map((item) => ({
+        id: item.id,
+        encrypted_data: item.encrypted_data,
+        group_id: groupId,
+        isNew: false,
+        created_at: item.created_at,
+      })),
+    );
+  },
+  fetchRecurring: async () =>
+    (await piggusApi.getRecurringExpenses()).filter(
+      (recurring) => recurring.group_id === groupId,
+    ),
+  saveRecurring: async (item) => {
+    await piggusApi.updateRecurringExpense(item.id, {
+      groupId,
+      encryptedData: item.encrypted_data,
+    });
+  },
+  fetchActivity: () => fetchAllGroupActivity(groupId),
+  saveActivity: async (items) => {
+    await piggusApi.updateGroupActivity(groupId, {
+      entries: items.map((item) => ({
+        id: item.id,
+        encryptedData: item.encrypted_data,
+      })),
+    });
+  },
+  getAttachmentIds: (expense) =>
+    expense?.receipt?.attachment_id ? [expense.receipt.attachment_id] : [],
+  downloadAttachment: (attachmentId) =>
+    getAttachmentStorage().download(groupId, attachmentId),
+  saveAttachment: (attachmentId, encryptedData) =>
+    getAttachmentStorage().replace(groupId, attachmentId, encryptedData),
+  fetchMetadata: async () => {
+    const group = await piggusApi.getExpenseGroup(groupId);
+    return { encryptedData: group.encrypted_data, members: group.members };
+  },
+  saveMetadata: async (encryptedData) => {
+    await piggusApi.updateExpenseGroup(groupId, { encryptedData });
+  },
+  saveMemberKeys: async (memberKeys) => {
+    await piggusApi.updateExpenseGroupMemberKeys(groupId, {
+      memberKeys: memberKeys.map((memberKey) => ({
+        userId: memberKey.userId,
+        encryptedGroupKey: memberKey.encryptedKey,
+      })),
+    });
+  },
+});
+
+const createPortfolioAdapter = (portfolioId: string): KeyRotationAdapter => ({
+  removeMember: async (userId) => {
+    await piggusApi.removePortfolioMember(portfolioId, userId);
+  },
+  fetchItems: () => piggusApi.getInvestmentsForPortfolio(portfolioId),
+  saveItems: async (items) => {
+    for (const item of items) {
+      await piggusApi.updateInvestment(portfolioId, item.id, {
+        encryptedData: item.encrypted_data,
+      });
+    }
+  },
+  fetchRecurring: async () => [],
+  saveRecurring: async () => {},
+  fetchActivity: async () => [],
+  saveActivity: async () => {},
+  getAttachmentIds: () => [],
+  downloadAttachment: async () => "",
+  saveAttachment: async () => {},
+  fetchMetadata: async () => {
+    const portfolio = await piggusApi.getPortfolio(portfolioId);
+    return {
+      encryptedData: portfolio.encrypted_data,
+      members: portfolio.members,
+    };
+  },
+  saveMetadata: async (encryptedData) => {
+    await piggusApi.updatePortfolio(portfolioId, { encryptedData });
+  },
+  saveMemberKeys: async (memberKeys) => {
+    await piggusApi.updatePortfolioMemberKeys(portfolioId, {
+      memberKeys: memberKeys.map((memberKey) => ({
+        userId: memberKey.userId,
+        encryptedPortfolioKey: memberKey.encryptedKey,
+      })),
+    });
+  },
+});
+
+const isMissingMembership = (error: any) =>
+  error?.response?.status === 404 || error?.response?.status === 410;
+
+const isMissingAttachment = (error: any) => error?.response?.status === 404;
+
+/**
+ * Removes a member and moves a group or portfolio to a fresh key: every item
+ * is re-encrypted and the new key is handed to the remaining members.
+ *
+ * Progress is stored after each stage, so calling this again for the same
+ * target resumes with the same key. Items already under the new key are
+ * detected by decrypting them and skipped. The rotation is also kept in the
+ * target's own data, so it can be resumed from another device and other
+ * members do not start one of their own meanwhile.
+ */
+const rotateKey = async (
+  type: KeyRotationTargetType,
+  targetId: string,
+  removedUserId: string,
+  currentKey: string,
+  user: User,
+  publicKey: string,
+  createEncryptionKey: () => Promise<Uint8Array<ArrayBufferLike>>,
+  decryptWithPrivateKey: (encryptedData: string) => Promise<any>,
+  encryptWithExternalPublicKey: (
+    publicKey: string,
+    data: any,
+  ) => Promise<string>,
+  encryptWithExternalEncryptionKey: (
+    encryptionKey: string,
+    data: any,
+  ) => Promise<string>,
+  decryptWithExternalEncryptionKey: (
+    encryptionKey: string,
+    encryptedData: string,
+  ) => Promise<any>,
+  onProgress?: (progress: KeyRotationProgress) => void,
+): Promise<KeyRotationResult> => {
+  const adapter =
+    type === "expenseGroup"
+      ? createExpenseGroupAdapter(targetId)
+      : createPortfolioAdapter(targetId);
+
+  const decryptKey = async (encryptedKey: string): Promise<string> => {
+    const key = await decryptWithPrivateKey(encryptedKey);
+    return typeof key === "string" ? key : JSON.stringify(key);
+  };
+
+  let rotation = await getPendingKeyRotation(type, targetId);
+  if (!rotation) {
+    let metadata: any;
+    try {
+      metadata = await decryptWithExternalEncryptionKey(
+        currentKey,
+        (await adapter.fetchMetadata()).encryptedData,
+      );
+    } catch {
+      // Already moved to a key this member has not received yet
+      return { success: false, error: "The key is being rotated already" };
+    }
+    const shared: SharedKeyRotation | undefined = metadata?.key_rotation;
+    if (shared && shared.initiated_by !== user.id) {
+      return { success: false, error: "The key is being rotated already" };
+    }
+    if (shared) {
+      rotation = await getPendingKeyRotation(type, targetId, shared);
+    }
+  }
+
+  let oldKey: string;
+  let newKey: string;
+
+  if (rotation && rotation.removed_user_id !== removedUserId) {
+    return {
+      success: false,
+      error: "Finish the interrupted member removal first",
+    };
+  }
+
+  if (rotation) {
+    oldKey = await decryptKey(rotation.encrypted_old_key);
+    newKey = await decryptKey(rotation.encrypted_new_key);
+  } else {
+    oldKey = currentKey;
+    newKey = Buffer.from(await createEncryptionKey()).toString("base64");
+    const encryptedOldKey = await encryptWithExternalPublicKey(
+      publicKey,
+      oldKey,
+    );
+    const encryptedNewKey = await encryptWithExternalPublicKey(
+      publicKey,
+      newKey,
+    );
+    if (!encryptedOldKey || !encryptedNewKey) {
+      return { success: false, error: "Failed to protect the new key" };
+    }
+    rotation = {
+      type,
+      target_id: targetId,
+      initiated_by: user.id,
+      removed_user_id: removedUserId,
+      encrypted_old_key: encryptedOldKey,
+      encrypted_new_key: encryptedNewKey,
+      stage: "removeMember",
+      started_at: new Date().toISOString(),
+    };
+    await writePendingRotation(rotation);
+  }
+
+  let unreadableItems = 0;
+
+  // Encrypted data under the new key, or null when it needs no update
+  const reencrypt = async (encryptedData: any): Promise<string | null> => {
+    let data: any;
+    try {
+      data = await decryptWithExternalEncryptionKey(oldKey, encryptedData);
+    } catch {
+      try {
+        await decryptWithExternalEncryptionKey(newKey, encryptedData);
+      } catch {
+        unreadableItems++;
+      }
+      return null;
+    }
+    const reencrypted = await encryptWithExternalEncryptionKey(newKey, data);
+    if (!reencrypted) throw new Error("Failed to encrypt with the new key");
+    return reencrypted;
+  };
+
+  // Attachment blobs are plain AES, not compressed like the records above
+  const reencryptAttachment = (encryptedData: string): string | null => {
+    let data: any;
+    try {
+      data = decryptWithAES(encryptedData, base64ToArrayBuffer(oldKey));
+    } catch {
+      try {
+        decryptWithAES(encryptedData, base64ToArrayBuffer(newKey));
+      } catch {
+        unreadableItems++;
+      }
+      return null;
+    }
+    return encryptWithAES(data, base64ToArrayBuffer(newKey));
+  };
+
+  // Items are under the new key once their stage is done, older ones may not be
+  const readItem = async (encryptedData: any): Promise<any> => {
+    try {
+      return await decryptWithExternalEncryptionKey(newKey, encryptedData);
+    } catch {
+      try {
+        return await decryptWithExternalEncryptionKey(oldKey, encryptedData);
+      } catch {
+        return null;
+      }
+    }
+  };
+
+  const enterStage = async (stage: KeyRotationStage, total: number) => {
+    rotation = { ...rotation!, stage, error: undefined };
+    await writePendingRotation(rotation);
+    onProgress?.({ stage, processed: 0, total });
+  };
+
+  const shouldRun = (stage: KeyRotationStage) =>
+    STAGES.indexOf(stage) >= STAGES.indexOf(rotation!.stage);
+
+  // Stored with the target under the key its data is in, or the new one once
+  // the metadata stage is done (catching late writes under the old key)
+  const shareRotation = async (shared?: SharedKeyRotation) => {
+    const { encryptedData } = await adapter.fetchMetadata();
+    for (const key of [newKey, oldKey]) {
+      let data: any;
+      try {
+        data = await decryptWithExternalEncryptionKey(key, encryptedData);
+      } catch {
+        continue;
+      }
+      const updated = await encryptWithExternalEncryptionKey(
+        shouldRun("metadata") ? key : newKey,
+        { ...data, key_rotation: shared },
+      );
+      if (!updated) throw new Error("Failed to encrypt the rotation state");
+      await adapter.saveMetadata(updated);
+      return;
+    }
+  };
+
+  // Each pass re-encrypts the records of its stage that are still under the
+  // old key and returns how many it rewrote
+  type StartStage = (stage: KeyRotationStage, total: number) => Promise<void>;
+  const rotateRecords: Record<
+    RecordStage,
+    (start: StartStage) => Promise<number>
+  > = {
+    items: async (start) => {
+      const items = await adapter.fetchItems();
+      await start("items", items.length);
+      let rewritten = 0;
+      for (let i = 0; i < items.length; i += ROTATION_BATCH_SIZE) {
+        const batch: EncryptedRecord[] = [];
+        for (const item of items.slice(i, i + ROTATION_BATCH_SIZE)) {
+          const encryptedData = await reencrypt(item.encrypted_data);
+          if (encryptedData) {
+            batch.push({ ...item, encrypted_data: encryptedData });
+          }
+        }
+        if (batch.length > 0) await adapter.saveItems(batch);
+        rewritten += batch.length;
+        onProgress?.({
+          stage: "items",
+          processed: Math.min(i + ROTATION_BATCH_SIZE, items.length),
+          total: items.length,
+        });
+      }
+      return rewritten;
+    },
+    recurring: async (start) => {
+      const recurring = await adapter.fetchRecurring();
+      await start("recurring", recurring.length);
+      let rewritten = 0;
+      for (let i = 0; i < recurring.length; i++) {
+        const encryptedData = await reencrypt(recurring[i].encrypted_data);
+        if (encryptedData) {
+          await adapter.saveRecurring({
+            ...recurring[i],
+            encrypted_data: encryptedData,
+          });
+          rewritten++;
+        }
+        onProgress?.({
+          stage: "recurring",
+          processed: i + 1,
+          total: recurring.length,
+        });
+      }
+      return rewritten;
+    },
+    activity: async (start) => {
+      const activity = await adapter.fetchActivity();
+      await start("activity", activity.length);
+      let rewritten = 0;
+      for (let i = 0; i < activity.length; i += ROTATION_BATCH_SIZE) {
+        const batch: EncryptedRecord[] = [];
+        for (const entry of activity.slice(i, i + ROTATION_BATCH_SIZE)) {
+          const encryptedData = await reencrypt(entry.encrypted_data);
+          if (encryptedData) {
+            batch.push({ ...entry, encrypted_data: encryptedData });
+          }
+        }
+        if (batch.length > 0) await adapter.saveActivity(batch);
+        rewritten += batch.length;
+        onProgress?.({
+          stage: "activity",
+          processed: Math.min(i + ROTATION_BATCH_SIZE, activity.length),
+          total: activity.length,
+        });
+      }
+      return rewritten;
+    },
+    attachments: async (start) => {
+      const attachmentIds: string[] = [];
+      for (const item of await adapter.fetchItems()) {
+        attachmentIds.push(
+          ...adapter.getAttachmentIds(await readItem(item.encrypted_data)),
+        );
+      }
+      await start("attachments", attachmentIds.length);
+      let rewritten = 0;
+      for (let i = 0; i < attachmentIds.length; i++) {
+        let encryptedBlob: string | null = null;
+        try {
+          encryptedBlob = await adapter.downloadAttachment(attachmentIds[i]);
+        } catch (error: any) {
+          if (!isMissingAttachment(error)) throw error;
+        }
+        const reencrypted = encryptedBlob
+          ? reencryptAttachment(encryptedBlob)
+          : null;
+        if (reencrypted) {
+          await adapter.saveAttachment(attachmentIds[i], reencrypted);
+          rewritten++;
+        }
+        onProgress?.({
+          stage: "attachments",
+          processed: i + 1,
+          total: attachmentIds.length,
+        });
+      }
+      return rewritten;
+    },
+  };
+
+  try {
+    if (shouldRun("removeMember")) {
+      await enterStage("removeMember", 1);
+      await shareRotation({
+        initiated_by: user.id,
+        removed_user_id: rotation.removed_user_id,
+        encrypted_old_key: rotation.encrypted_old_key,
+        encrypted_new_key: rotation.encrypted_new_key,
+        started_at: rotation.started_at,
+      });
+      try {
+        await adapter.removeMember(rotation.removed_user_id);
+      } catch (error: any) {
+        if (!isMissingMembership(error)) throw error;
+      }
+    }
+
+    for (const stage of RECORD_STAGES) {
+      if (shouldRun(stage)) await rotateRecords[stage](enterStage);
+    }
+
+    const { encryptedData, members } = await adapter.fetchMetadata();
+
+    if (shouldRun("metadata")) {
+      await enterStage("metadata", 1);
+      const encryptedMetadata = await reencrypt(encryptedData);
+      if (encryptedMetadata) await adapter.saveMetadata(encryptedMetadata);
+    }
+
+    if (shouldRun("memberKeys")) {
+      const remainingMembers = (members || []).filter(
+        (member) => member.user_id !== rotation!.removed_user_id,
+      );
+      await enterStage("memberKeys", remainingMembers.length);
+      const memberKeys: { userId: string; encryptedKey: string }[] = [];
+      for (const member of remainingMembers) {
+        let memberPublicKey =
+          member.user_id === user.id ? publicKey : undefined;
+        if (!memberPublicKey && member.username) {
+          const profiles = await piggusApi.searchProfiles(member.username, 5);
+          memberPublicKey = profiles.find(
+            (profile) => profile.id === member.user_id,
+          )?.encryption_public_key;
+        }
+        if (!memberPublicKey) {
+          throw new Error(`No public key found for ${member.username}`);
+        }
+        const encryptedKey = await encryptWithExternalPublicKey(
+          memberPublicKey,
+          newKey,
+        );
+        if (!encryptedKey) {
+          throw new Error(`Failed to encrypt the key for ${member.username}`);
+        }
+        memberKeys.push({ userId: member.user_id, encryptedKey });
+      }
+      await adapter.saveMemberKeys(memberKeys);
+      onProgress?.({
+        stage: "memberKeys",
+        processed: memberKeys.length,
+        total: remainingMembers.length,
+      });
+    }
+
+    // Members who still had the old key may have written with it meanwhile,
+    // sweep until a full pass finds nothing left under it
+    await enterStage("verify", MAX_VERIFY_PASSES);
+    let verified = false;
+    for (let pass = 1; pass <= MAX_VERIFY_PASSES && !verified; pass++) {
+      unreadableItems = 0;
+      let rewritten = 0;
+      for (const stage of RECORD_STAGES) {
+        rewritten += await rotateRecords[stage](async () => {});
+      }
+      verified = rewritten === 0;
+      onProgress?.({
+        stage: "verify",
+        processed: pass,
+        total: MAX_VERIFY_PASSES,
+      });
+    }
+    if (!verified) {
+      throw new Error("Records are still being written with the old key");
+    }
+
+    await shareRotation(undefined);
+    await clearPendingRotation(type, targetId);
+    return { success: true, unreadableItems };
+  } catch (error: any) {
+    console.error("Error rotating encryption key:", error);
+    await writePendingRotation({
+      ...rotation!,
+      error: error.message || "Failed to rotate encryption key",
+    });
+    return {
+      success: false,
+      error: error.message || "Failed to rotate encryption key",
+      unreadableItems,
+    };
+  }
+};
+
+/**
+ * Removes a member from an expense group and re-encrypts the group, its
+ * expenses, recurring expenses, activity and receipts under a new key. Resumes an interrupted
+ * rotation of the same group.
+ */
+export const apiRemoveUserAndRotateGroupKey = async (
+  user: User,
+  publicKey: string,
+  groupId: string,
+  userId: string,
+  groupKey: string,
+  createEncryptionKey: () => Promise<Uint8Array<ArrayBufferLike>>,
+  decryptWithPrivateKey: (encryptedData: string) => Promise<any>,
+  encryptWithExternalPublicKey: (
+    publicKey: string,
+    data: any,
+  ) => Promise<string>,
+  encryptWithExternalEncryptionKey: (
+    encryptionKey: string,
+    data: any,
+  ) => Promise<string>,
+  decryptWithExternalEncryptionKey: (
+    encryptionKey: string,
+    encryptedData: string,
+  ) => Promise<any>,
+  onProgress?: (progress: KeyRotationProgress) => void,
+): Promise<KeyRotationResult> => {
+  try {
+    if (!user || !publicKey || !groupId || !userId) {
+      return {
+        success: false,
+        error: "Invalid parameters",
+      };
+    }
+
+    // Logged under the current key, the rotation moves it along with the rest
+    if (!(await getPendingKeyRotation("expenseGroup", groupId))) {
+      const group = await piggusApi.getExpenseGroup(groupId);
+      await apiRecordGroupActivity(groupId, groupKey, {
+        type: "member_removed",
+        member_id: userId,
+        subject: group.members.find((member) => member.user_id === userId)
+          ?.username,
+      });
+    }
+
+    return await rotateKey(
+      "expenseGroup",
+      groupId,
+      userId,
+      groupKey,
+      user,
+      publicKey,
+      createEncryptionKey,
+      decryptWithPrivateKey,
+      encryptWithExternalPublicKey,
+      encryptWithExternalEncryptionKey,
+      decryptWithExternalEncryptionKey,
+      onProgress,
+    );
+  } catch (error: any) {
+    console.error("Error removing user from group:", error);
+    return {
+      success: false,
+      error: error.message || "Failed to remove user from group",
+    };
+  }
+};
+
+/**
+ * Removes a member from a portfolio and re-encrypts the portfolio and its
+ * investments under a new key. Resumes an interrupted rotation of the same
+ * portfolio.
+ */
+export const apiRemoveUserAndRotatePortfolioKey = async (
+  user: User,
+  publicKey: string,
+  portfolioId: string,
+  userId: string,
+  portfolioKey: string,
+  createEncryptionKey: () => Promise<Uint8Array<ArrayBufferLike>>,
+  decryptWithPrivateKey: (encryptedData: string) => Promise<any>,
+  encryptWithExternalPublicKey: (
+    publicKey: string,
+    data: any,
+  ) => Promise<string>,
+  encryptWithExternalEncryptionKey: (
+    encryptionKey: string,
+    data: any,
+  ) => Promise<string>,
+  decryptWithExternalEncryptionKey: (
+    encryptionKey: string,
+    encryptedData: string,
+  ) => Promise<any>,
+  onProgress?: (progress: KeyRotationProgress) => void,
+): Promise<KeyRotationResult> => {
+  try {
+    if (!user || !publicKey || !portfolioId || !userId) {
+      return {
+        success: false,
+        error: "Invalid parameters",
+      };
+    }
+
+    return await rotateKey(
+      "portfolio",
+      portfolioId,
+      userId,
+      portfolioKey,
+      user,
+      publicKey,
+      createEncryptionKey,
+      decryptWithPrivateKey,
+      encryptWithExternalPublicKey,
+      encryptWithExternalEncryptionKey,
+      decryptWithExternalEncryptionKey,
+      onProgress,
+    );
+  } catch (error: any) {
+    console.error("Error removing user from portfolio:", error);
+    return {
+      success: false,
+      error: error.message || "Failed to remove user from portfolio",
+    };
+  }
+};
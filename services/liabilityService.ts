@@ -0,0 +1,193 @@
+import { piggusApi } from "@/client/piggusApi";
+import { LiabilityData, LiabilityWithDecryptedData } from "@/types/liability";
+import { User } from "@supabase/supabase-js";
+import "react-native-get-random-values";
+import { v4 as uuidv4 } from "uuid";
+
+// Liability service functions. Liabilities belong to a single user and are
+// encrypted with the user's own key, like the profile.
+
+export const apiFetchLiabilities = async (
+  user: User,
+  decryptData: (encryptedData: string) => Promise<any>,
+): Promise<{
+  success: boolean;
+  data?: LiabilityWithDecryptedData[];
+  failedLiabilities?: Array<{
+    id: string;
+    error: string;
+  }>;
+  error?: string;
+}> => {
+  try {
+    if (!user || !decryptData) {
+      console.error("User credentials are invalid");
+      return {
+        success: false,
+        error: "User credentials are invalid",
+      };
+    }
+
+    const liabilities = await piggusApi.getLiabilities();
+
+    if (!liabilities || liabilities.length === 0) {
+      return {
+        success: true,
+        data: [],
+      };
+    }
+
+    // Decrypt liabilities individually to handle failures gracefully
+    const decryptedLiabilities: LiabilityWithDecryptedData[] = [];
+    const failedLiabilities = [];
+
+    for (const liability of liabilities) {
+      try {
+        const decryptedData = await decryptData(liability.encrypted_data);
+        decryptedLiabilities.push({
+          id: liability.id,
+          data: decryptedData,
+          created_at: liability.created_at,
+          updated_at: liability.updated_at,
+        });
+      } catch (error: any) {
+        console.error(`Failed to decrypt liability ${liability.id}:`, error);
+        failedLiabilities.push({
+          id: liability.id,
+          error: error.message || "Decryption failed",
+        });
+      }
+    }
+
+    return {
+      success: true,
+      data: decryptedLiabilities,
+      failedLiabilities:
+        failedLiabilities.length > 0 ? failedLiabilities : undefined,
+    };
+  } catch (error: any) {
+    console.error("Error fetching liabilities:", error);
+    return {
+      success: false,
+      error: error.message || "Failed to load liabilities",
+    };
+  }
+};
+
+export const apiCreateLiability = async (
+  user: User,
+  liabilityData: LiabilityData,
+  encryptData: (data: any) => Promise<string | null>,
+  liabilityId: string = uuidv4(),
+): Promise<{
+  success: boolean;
+  data?: LiabilityWithDecryptedData;
+  error?: string;
+}> => {
+  try {
+    if (!user || !liabilityData || !encryptData) {
+      return {
+        success: false,
+        error: "Invalid parameters",
+      };
+    }
+
+    const encryptedData = await encryptData(liabilityData);
+    if (!encryptedData) {
+      return {
+        success: false,
+        error: "Failed to encrypt liability data",
+      };
+    }
+
+    const liability = await piggusApi.createLiability({
+      liabilityId,
+      encryptedData,
+    });
+
+    return {
+      success: true,
+      data: {
+        id: liability.id,
+        created_at: liability.created_at,
+        updated_at: liability.updated_at,
+        data: liabilityData,
+      },
+    };
+  } catch (error: any) {
+    console.error("Error creating liability:", error);
+    return {
+      success: false,
+      error: error.message || "Failed to create liability",
+    };
+  }
+};
+
+export const apiUpdateLiability = async (
+  user: User,
+  updatedLiability: LiabilityWithDecryptedData,
+  encryptData: (data: any) => Promise<string | null>,
+): Promise<{
+  success: boolean;
+  data?: LiabilityWithDecryptedData;
+  error?: string;
+}> => {
+  try {
+    if (!user || !updatedLiability || !encryptData) {
+      return {
+        success: false,
+        error: "Invalid parameters",
+      };
+    }
+
+    const encryptedData = await encryptData(updatedLiability.data);
+    if (!encryptedData) {
+      return {
+        success: false,
+        error: "Failed to encrypt liability data",
+      };
+    }
+
+    const liability = await piggusApi.updateLiability(updatedLiability.id, {
+      encryptedData,
+    });
+
+    return {
+      success: true,
+      data: {
+        ...updatedLiability,
+        updated_at: liability.updated_at,
+      },
+    };
+  } catch (error: any) {
+    console.error("Error updating liability:", error);
+    return {
+      success: false,
+      error: error.message || "Failed to update liability",
+    };
+  }
+};
+
+export const apiDeleteLiability = async (
+  user: User,
+  liabilityId: string,
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    if (!user || !liabilityId) {
+      return {
+        success: false,
+        error: "Invalid parameters",
+      };
+    }
+
+    await piggusApi.deleteLiability(liabilityId);
+
+    return { success: true };
+  } catch (error: any) {
+    console.error("Error deleting liability:", error);
+    return {
+      success: false,
+      error: error.message || "Failed to delete liability",
+    };
+  }
+};
@@ -0,0 +1,463 @@
+import { isNetworkError } from "@/client/http";
+import { Expense, ExpenseGroupMembership, piggusApi } from "@/client/piggusApi";
+import { hash } from "@/lib/encryption";
+import {
+  OfflineStore,
+  OutboxConflict,
+  OutboxConflictReason,
+  OutboxMutation,
+  OutboxMutationType,
+} from "@/lib/offlineStore";
+import { ExpenseData } from "@/types/expense";
+import { User } from "@supabase/supabase-js";
+
+// Mutations the server keeps rejecting are surfaced as conflicts after this
+const MAX_REPLAY_ATTEMPTS = 5;
+
+export type OutboxReplayResult = {
+  applied: number;
+  conflicts: number;
+  remaining: number;
+  offline: boolean;
+};
+
+export type OutboxConflictResolution = "keepLocal" | "keepServer";
+
+/**
+ * Conflict with both sides decrypted, for showing it to the user
+ */
+export type DecryptedOutboxConflict = {
+  id: string;
+  type: OutboxMutationType;
+  reason: OutboxConflictReason;
+  group_id: string;
+  expense_id: string;
+  local?: ExpenseData;
+  server?: ExpenseData;
+  detected_at: string;
+};
+
+const mutationKey = (mutation: OutboxMutation) =>
+  `${mutation.id}:${mutation.queued_at}`;
+
+const isNewer = (serverUpdatedAt: string, baseUpdatedAt?: string) =>
+  !!baseUpdatedAt &&
+  new Date(serverUpdatedAt).getTime() > new Date(baseUpdatedAt).getTime();
+
+/**
+ * Sends queued mutations to the server in the order they were made. Updates
+ * and deletes are checked against the server's updated_at first: if someone
+ * else changed or removed the expense in the meantime, the mutation is kept
+ * aside as a conflict instead of overwriting their change. Data encrypted
+ * with a group key that has been rotated since is re-encrypted with the
+ * current one, or kept aside when the old key is no longer at hand.
+ */
+export const apiReplayOutbox = async (
+  user: User,
+  decryptWithPrivateKey: (encryptedData: string) => Promise<any>,
+  encryptWithExternalEncryptionKey: (
+    encryptionKey: string,
+    data: any,
+  ) => Promise<string>,
+  decryptWithExternalEncryptionKey: (
+    encryptionKey: string,
+    encryptedData: string,
+  ) => Promise<any>,
+): Promise<{
+  success: boolean;
+  data?: OutboxReplayResult;
+  error?: string;
+}> => {
+  try {
+    if (
+      !user ||
+      !decryptWithPrivateKey ||
+      !encryptWithExternalEncryptionKey ||
+      !decryptWithExternalEncryptionKey
+    ) {
+      return { success: false, error: "User credentials are invalid" };
+    }
+
+    const outbox = await OfflineStore.getOutbox(user.id);
+    if (outbox.length === 0) {
+      return {
+        success: true,
+        data: { applied: 0, conflicts: 0, remaining: 0, offline: false },
+      };
+    }
+
+    const serverRowsByGroup = new Map<string, Map<string, Expense>>();
+    const getServerRow = async (groupId: string, expenseId: string) => {
+      if (!serverRowsByGroup.has(groupId)) {
+        const rows = await piggusApi.getExpensesForGroup(groupId);
+        serverRowsByGroup.set(
+          groupId,
+          new Map((rows || []).map((row) => [row.id, row])),
+        );
+      }
+      return serverRowsByGroup.get(groupId)?.get(expenseId);
+    };
+
+    // Current group keys from the server, and the ones this device cached
+    // before a rotation, by fingerprint
+    let currentKeys: Map<string, string> | null = null;
+    const keysByFingerprint = new Map<string, string>();
+    const loadGroupKeys = async () => {
+      const memberships: ExpenseGroupMembership[] =
+        await piggusApi.getExpenseGroups();
+      const cached =
+        (await OfflineStore.getCachedGroups<ExpenseGroupMembership>(user.id)) ||
+        [];
+      const readKey = async (membership: ExpenseGroupMembership) => {
+        try {
+          const key = await decryptWithPrivateKey(
+            membership.encrypted_group_key,
+          );
+          keysByFingerprint.set(await hash(key), key);
+          return key as string;
+        } catch (error) {
+          console.warn(
+            `Failed to read key of group ${membership.group_id}:`,
+            error,
+          );
+          return undefined;
+        }
+      };
+      const keys = new Map<string, string>();
+      for (const membership of memberships) {
+        const key = await readKey(membership);
+        if (key) keys.set(membership.group_id, key);
+      }
+      for (const membership of cached) {
+        await readKey(membership);
+      }
+      return keys;
+    };
+
+    /**
+     * Encrypted data of a create or update under the group's current key,
+     * or null when it was encrypted with a key this device no longer has
+     */
+    const withCurrentKey = async (
+      mutation: OutboxMutation,
+    ): Promise<string | null | undefined> => {
+      if (!mutation.encrypted_data || !mutation.group_key_fingerprint) {
+        return mutation.encrypted_data;
+      }
+      currentKeys ??= await loadGroupKeys();
+      const currentKey = currentKeys.get(mutation.group_id);
+      if (!currentKey) return mutation.encrypted_data;
+      if ((await hash(currentKey)) === mutation.group_key_fingerprint) {
+        return mutation.encrypted_data;
+      }
+
+      const oldKey = keysByFingerprint.get(mutation.group_key_fingerprint);
+      if (!oldKey) return null;
+      const data = await decryptWithExternalEncryptionKey(
+        oldKey,
+        mutation.encrypted_data,
+      );
+      return encryptWithExternalEncryptionKey(currentKey, data);
+    };
+
+    const done = new Set<string>();
+    const retried = new Map<string, OutboxMutation>();
+    // Server updated_at after each mutation id was applied, when known
+    const appliedAt = new Map<string, string | undefined>();
+    const conflicts: OutboxConflict[] = [];
+    let applied = 0;
+    let offline = false;
+
+    const addConflict = (
+      mutation: OutboxMutation,
+      reason: OutboxConflictReason,
+      server?: Expense,
+    ) => {
+      conflicts.push({
+        mutation,
+        reason,
+        server_encrypted_data: server?.encrypted_data,
+        server_updated_at: server?.updated_at,
+        detected_at: new Date().toISOString(),
+      });
+      done.add(mutationKey(mutation));
+    };
+
+    for (const mutation of outbox) {
+      try {
+        const encryptedData = await withCurrentKey(mutation);
+        if (encryptedData === null) {
+          addConflict(mutation, "rekeyed");
+          continue;
+        }
+
+        if (mutation.type === "create") {
+          try {
+            const expense = await piggusApi.addExpense(mutation.group_id, {
+              expenseId: mutation.expense_id,
+              encryptedData,
+              created_at: mutation.created_at,
+            });
+            await OfflineStore.saveCachedExpenses(user.id, mutation.group_id, [
+              expense,
+            ]);
+            appliedAt.set(mutation.id, expense.updated_at);
+          } catch (error: any) {
+            // Created by an earlier attempt whose response never arrived
+            if (error.response?.status !== 409) throw error;
+            appliedAt.set(mutation.id, undefined);
+          }
+          applied++;
+          done.add(mutationKey(mutation));
+          continue;
+        }
+
+        const server = await getServerRow(
+          mutation.group_id,
+          mutation.expense_id,
+        );
+
+        if (!server) {
+          if (mutation.type === "delete") {
+            await OfflineStore.removeCachedExpense(
+              user.id,
+              mutation.group_id,
+              mutation.expense_id,
+            );
+            applied++;
+            done.add(mutationKey(mutation));
+          } else {
+            addConflict(mutation, "deleted");
+          }
+          continue;
+        }
+
+        if (isNewer(server.updated_at, mutation.base_updated_at)) {
+          addConflict(mutation, "modified", server);
+          continue;
+        }
+
+        if (mutation.type === "update") {
+          const expense = await piggusApi.updateExpense(
+            mutation.group_id,
+            mutation.expense_id,
+            {
+              encryptedData,
+              created_at: mutation.created_at,
+            },
+          );
+          await OfflineStore.saveCachedExpenses(user.id, mutation.group_id, [
+            expense,
+          ]);
+          appliedAt.set(mutation.id, expense.updated_at);
+        } else {
+          await piggusApi.deleteExpense(mutation.group_id, mutation.expense_id);
+          await OfflineStore.removeCachedExpense(
+            user.id,
+            mutation.group_id,
+            mutation.expense_id,
+          );
+        }
+        applied++;
+        done.add(mutationKey(mutation));
+      } catch (error: any) {
+        if (isNetworkError(error)) {
+          // Keep the order: nothing after this one can be sent either
+          offline = true;
+          break;
+        }
+
+        console.error(`Failed to replay mutation ${mutation.id}:`, error);
+        const attempted = {
+          ...mutation,
+          attempts: mutation.attempts + 1,
+          last_error:
+            error.response?.data?.message || error.message || "Unknown error",
+        };
+        if (attempted.attempts >= MAX_REPLAY_ATTEMPTS) {
+          addConflict(attempted, "rejected");
+        } else {
+          retried.set(mutationKey(mutation), attempted);
+        }
+      }
+    }
+
+    // Re-read the outbox, changes may have been queued while replaying. One
+    // merged into a mutation that was sent meanwhile now applies on top of
+    // what the server has, so a create continues as an update.
+    const remaining = (await OfflineStore.getOutbox(user.id))
+      .filter((mutation) => !done.has(mutationKey(mutation)))
+      .map((mutation) => {
+        const pending = retried.get(mutationKey(mutation)) ?? mutation;
+        if (!appliedAt.has(pending.id)) return pending;
+        return {
+          ...pending,
+          type: pending.type === "create" ? "update" : pending.type,
+          base_updated_at: appliedAt.get(pending.id),
+        } as OutboxMutation;
+      });
+    await OfflineStore.saveOutbox(user.id, remaining);
+
+    if (conflicts.length > 0) {
+      const existing = await OfflineStore.getConflicts(user.id);
+      await OfflineStore.saveConflicts(user.id, [...existing, ...conflicts]);
+    }
+
+    return {
+      success: true,
+      data: {
+        applied,
+        conflicts: conflicts.length,
+        remaining: remaining.length,
+        offline,
+      },
+    };
+  } catch (error: any) {
+    console.error("Error replaying offline changes:", error);
+    return {
+      success: false,
+      error: error.message || "Failed to sync offline changes",
+    };
+  }
+};
+
+/**
+ * Settles a conflict. Keeping the local change queues it again on top of
+ * the server version; keeping the server version drops the local change.
+ */
+export const apiResolveOutboxConflict = async (
+  user: User,
+  conflictId: string,
+  resolution: OutboxConflictResolution,
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    if (!user || !conflictId) {
+      return { success: false, error: "Invalid parameters" };
+    }
+
+    const conflicts = await OfflineStore.getConflicts(user.id);
+    const conflict = conflicts.find((c) => c.mutation.id === conflictId);
+    if (!conflict) {
+      return { success: false, error: "Conflict not found" };
+    }
+
+    const { mutation } = conflict;
+
+    // Nobody can read a change encrypted with a key that was rotated away
+    if (resolution === "keepLocal" && conflict.reason === "rekeyed") {
+      return { success: false, error: "Change can no longer be decrypted" };
+    }
+
+    if (resolution === "keepLocal") {
+      // An update of an expense deleted on the server brings it back
+      const type =
+        conflict.reason === "deleted" && mutation.type === "update"
+          ? "create"
+          : mutation.type;
+      await OfflineStore.enqueueMutation(user.id, {
+        ...mutation,
+        type,
+        base_updated_at: conflict.server_updated_at ?? mutation.base_updated_at,
+        queued_at: new Date().toISOString(),
+        attempts: 0,
+        last_error: undefined,
+      });
+    } else if (conflict.server_encrypted_data && conflict.server_updated_at) {
+      await OfflineStore.saveCachedExpenses(user.id, mutation.group_id, [
+        {
+          id: mutation.expense_id,
+          group_id: mutation.group_id,
+          encrypted_data: conflict.server_encrypted_data,
+          created_at: mutation.created_at || conflict.detected_at,
+          updated_at: conflict.server_updated_at,
+        },
+      ]);
+    } else if (conflict.reason === "deleted") {
+      await OfflineStore.removeCachedExpense(
+        user.id,
+        mutation.group_id,
+        mutation.expense_id,
+      );
+    }
+
+    await OfflineStore.saveConflicts(
+      user.id,
+      conflicts.filter((c) => c.mutation.id !== conflictId),
+    );
+
+    return { success: true };
+  } catch (error: any) {
+    console.error("Error resolving offline conflict:", error);
+    return {
+      success: false,
+      error: error.message || "Failed to resolve conflict",
+    };
+  }
+};
+
+/**
+ * Number of queued mutations and the conflicts waiting for the user, with
+ * both versions decrypted using the groups' keys
+ */
+export const apiFetchOutboxState = async (
+  user: User,
+  groups: { id: string; encrypted_key: string }[],
+  decryptWithExternalEncryptionKey: (
+    encryptionKey: string,
+    encryptedData: string,
+  ) => Promise<any>,
+): Promise<{
+  success: boolean;
+  data?: { pendingCount: number; conflicts: DecryptedOutboxConflict[] };
+  error?: string;
+}> => {
+  try {
+    if (!user || !decryptWithExternalEncryptionKey) {
+      return { success: false, error: "User credentials are invalid" };
+    }
+
+    const [outbox, conflicts] = await Promise.all([
+      OfflineStore.getOutbox(user.id),
+      OfflineStore.getConflicts(user.id),
+    ]);
+
+    const decrypt = async (groupKey?: string, encryptedData?: string) => {
+      if (!groupKey || !encryptedData) return undefined;
+      try {
+        return await decryptWithExternalEncryptionKey(groupKey, encryptedData);
+      } catch (error) {
+        console.warn("Failed to decrypt conflicting expense:", error);
+        return undefined;
+      }
+    };
+
+    const decryptedConflicts = await Promise.all(
+      conflicts.map(async (conflict) => {
+        const groupKey = groups.find(
+          (group) => group.id === conflict.mutation.group_id,
+        )?.encrypted_key;
+        return {
+          id: conflict.mutation.id,
+          type: conflict.mutation.type,
+          reason: conflict.reason,
+          group_id: conflict.mutation.group_id,
+          expense_id: conflict.mutation.expense_id,
+          local: await decrypt(groupKey, conflict.mutation.encrypted_data),
+          server: await decrypt(groupKey, conflict.server_encrypted_data),
+          detected_at: conflict.detected_at,
+        };
+      }),
+    );
+
+    return {
+      success: true,
+      data: { pendingCount: outbox.length, conflicts: decryptedConflicts },
+    };
+  } catch (error: any) {
+    console.error("Error reading offline changes:", error);
+    return {
+      success: false,
+      error: error.message || "Failed to read offline changes",
+    };
+  }
+};
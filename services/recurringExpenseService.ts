@@ -1,9 +1,16 @@
 import { piggusApi } from "@/client/piggusApi";
+import { apiRecordGroupActivity } from "@/services/activityService";
 import {
   ExpenseWithDecryptedData,
   RecurringExpenseData,
   RecurringExpenseWithDecryptedData,
 } from "@/types/expense";
+import {
+  advanceRecurringExpenseData,
+  createExpenseFromRecurring,
+  getRecurringOccurrenceId,
+  planRecurringOccurrences,
+} from "@/utils/recurrenceUtils";
 import { User } from "@supabase/supabase-js";
 import "react-native-get-random-values";
 import { v4 as uuidv4 } from "uuid";
@@ -119,6 +126,7 @@ export const apiCreateRecurringExpense = async (
     encryptionKey: string,
     data: any,
   ) => Promise<string>,
+  recurringExpenseId: string = uuidv4(),
 ): Promise<{
   success: boolean;
   data?: RecurringExpenseWithDecryptedData;
@@ -132,7 +140,6 @@ export const apiCreateRecurringExpense = async (
       };
     }
 
-    const recurringExpenseId = uuidv4();
     const encryptedData = await encryptWithExternalEncryptionKey(
       groupKey,
       recurringExpenseData,
@@ -265,76 +272,64 @@ export const apiProcessRecurringExpenses = async (
 
     const generatedExpenses: ExpenseWithDecryptedData[] = [];
     const updatedRecurring: RecurringExpenseWithDecryptedData[] = [];
+    const today = new Date().toISOString().split("T")[0];
 
-    // Process each recurring expense to see if it needs to generate a new expense
+    // Generate every occurrence missed since the last run, with its own due date
     for (const recurringExpense of recurringExpenses) {
       try {
-        const now = new Date();
-        const nextDue = recurringExpense.data.next_due_date
-          ? new Date(recurringExpense.data.next_due_date)
-          : null;
-
-        // Check if we need to generate a new expense based on the recurring schedule
         // Skip generation if should_generate_expenses is explicitly set to false
         if (
-          nextDue &&
-          now >= nextDue &&
-          recurringExpense.data.should_generate_expenses !== false
+          !recurringExpense.data.is_active ||
+          !recurringExpense.data.next_due_date ||
+          recurringExpense.data.should_generate_expenses === false
         ) {
-          // Find the group membership for this recurring expense
-          const groupMembership = groupMemberships.find(
-            (gm) => gm.group_id === recurringExpense.group_id,
-          );
-          if (!groupMembership) {
-            console.warn(
-              `No group membership found for recurring expense ${recurringExpense.id}`,
-            );
-            continue;
-          }
+          continue;
+        }
+
+        const plan = planRecurringOccurrences(recurringExpense.data, today);
+        if (
+          plan.dueDates.length === 0 &&
+          plan.nextDueDate === recurringExpense.data.next_due_date
+        ) {
+          continue;
+        }
 
-          // Decrypt the group key
-          const decryptedGroupKey = await decryptWithPrivateKey(
-            groupMembership.encrypted_group_key,
+        // Find the group membership for this recurring expense
+        const groupMembership = groupMemberships.find(
+          (gm) => gm.group_id === recurringExpense.group_id,
+        );
+        if (!groupMembership) {
+          console.warn(
+            `No group membership found for recurring expense ${recurringExpense.id}`,
           );
-          const groupKeyString =
-            typeof decryptedGroupKey === "string"
-              ? decryptedGroupKey
-              : JSON.stringify(decryptedGroupKey);
-
-          // Create the new expense data
-          const expenseData = {
-            ...recurringExpense.data,
-            generatedFrom: recurringExpense.id,
-            generatedAt: now.toISOString(),
-            is_recurring: false,
-            date: now.toISOString(),
-          };
-
-          // Calculate next due date based on frequency
-          let newNextDue = new Date(nextDue);
-          switch (recurringExpense.data.interval) {
-            case "daily":
-              newNextDue.setDate(newNextDue.getDate() + 1);
-              break;
-            case "weekly":
-              newNextDue.setDate(newNextDue.getDate() + 7);
-              break;
-            case "monthly":
-              newNextDue.setMonth(newNextDue.getMonth() + 1);
-              break;
-            case "yearly":
-              newNextDue.setFullYear(newNextDue.getFullYear() + 1);
-              break;
-          }
+          continue;
+        }
 
-          // Update the recurring expense data
-          const updatedRecurringData = {
-            ...recurringExpense.data,
-            lastGenerated: now.toISOString(),
-            nextDue: newNextDue.toISOString(),
-          };
+        // Decrypt the group key
+        const decryptedGroupKey = await decryptWithPrivateKey(
+          groupMembership.encrypted_group_key,
+        );
+        const groupKeyString =
+          typeof decryptedGroupKey === "string"
+            ? decryptedGroupKey
+            : JSON.stringify(decryptedGroupKey);
+
+        let currentData = recurringExpense.data;
+        let currentRecord: RecurringExpenseWithDecryptedData | null = null;
+
+        for (let i = 0; i < plan.dueDates.length; i++) {
+          const dueDate = plan.dueDates[i];
+          const expenseData = createExpenseFromRecurring(
+            recurringExpense.id,
+            recurringExpense.data,
+            dueDate,
+          );
+          const updatedRecurringData = advanceRecurringExpenseData(
+            currentData,
+            dueDate,
+            plan.dueDates[i + 1] || plan.nextDueDate,
+          );
 
-          const expenseId = uuidv4();
           const encryptedExpenseData = await encryptWithExternalEncryptionKey(
             groupKeyString,
             expenseData,
@@ -344,32 +339,78 @@ export const apiProcessRecurringExpenses = async (
             updatedRecurringData,
           );
 
-          // Generate the expense using the piggusApi
-          const result = await piggusApi.generateExpenseFromRecurring(
+          try {
+            const result = await piggusApi.generateExpenseFromRecurring(
+              recurringExpense.id,
+              {
+                expenseId: getRecurringOccurrenceId(
+                  recurringExpense.id,
+                  dueDate,
+                ),
+                groupId: recurringExpense.group_id,
+                encryptedExpenseData,
+                updatedRecurringData: encryptedRecurringData,
+              },
+            );
+
+            if (result.expense) {
+              generatedExpenses.push({
+                id: result.expense.id,
+                group_id: result.expense.group_id,
+                data: expenseData,
+                created_at: result.expense.created_at,
+                updated_at: result.expense.updated_at,
+              });
+              await apiRecordGroupActivity(
+                recurringExpense.group_id,
+                groupKeyString,
+                {
+                  type: "expense_created",
+                  expense_id: result.expense.id,
+                  subject: expenseData.name,
+                  amount: expenseData.amount,
+                  currency: expenseData.currency,
+                },
+              );
+            }
+            if (result.updatedRecurring) {
+              currentRecord = {
+                ...result.updatedRecurring,
+                data: updatedRecurringData,
+              } as RecurringExpenseWithDecryptedData;
+            }
+          } catch (error: any) {
+            // Another device already generated this occurrence
+            if (error.response?.status !== 409) throw error;
+          }
+          currentData = updatedRecurringData;
+        }
+
+        // Move the schedule forward even when every occurrence already existed
+        if (currentData.next_due_date !== plan.nextDueDate || !currentRecord) {
+          const finalData = advanceRecurringExpenseData(
+            currentData,
+            plan.lastGeneratedDate,
+            plan.nextDueDate,
+          );
+          const encryptedData = await encryptWithExternalEncryptionKey(
+            groupKeyString,
+            finalData,
+          );
+          const result = await piggusApi.updateRecurringExpense(
             recurringExpense.id,
             {
-              expenseId,
               groupId: recurringExpense.group_id,
-              encryptedExpenseData,
-              updatedRecurringData: encryptedRecurringData,
+              encryptedData,
             },
           );
-
-          if (result.expense && result.updatedRecurring) {
-            generatedExpenses.push({
-              id: result.expense.id,
-              group_id: result.expense.group_id,
-              data: expenseData,
-              created_at: result.expense.created_at,
-              updated_at: result.expense.updated_at,
-            });
-
-            updatedRecurring.push({
-              ...result.updatedRecurring,
-              data: updatedRecurringData,
-            });
-          }
+          currentRecord = {
+            ...result,
+            data: finalData,
+          } as RecurringExpenseWithDecryptedData;
         }
+
+        updatedRecurring.push(currentRecord);
       } catch (error: any) {
         console.error(
           `Error processing recurring expense ${recurringExpense.id}:`,
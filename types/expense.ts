@@ -1,5 +1,11 @@
 // types/expense.ts - Updated with sharing functionality
 
+import {
+  ExchangeRateTable,
+  convertAmount,
+  getExpenseConversionFactor,
+} from "@/utils/exchangeRateUtils";
+
 export type ExpenseGroup = {
   id: string;
   created_at: string;
@@ -13,6 +19,23 @@ export type ExpenseGroupData = {
   private: boolean;
   currency: string;
   refunds?: GroupRefund[];
+  default_split_weights?: { [userId: string]: number }; // Prefills "shares" and "percentage" splits
+  trash_retention_days?: number; // Days deleted expenses stay in the trash, 0 keeps them
+  deleted_transaction_ids?: string[]; // Tombstones of purged bank transactions, so they are not imported again
+  key_rotation?: SharedKeyRotation;
+};
+
+/**
+ * Key rotation in progress, kept in the group or portfolio so the member who
+ * started it can resume it from any of their devices. Both keys are
+ * encrypted with that member's public key.
+ */
+export type SharedKeyRotation = {
+  initiated_by: string;
+  removed_user_id: string;
+  encrypted_old_key: string;
+  encrypted_new_key: string;
+  started_at: string;
 };
 
 export type ExpenseGroupMember = {
@@ -68,11 +91,105 @@ export type GroupRefund = {
   updated_at: string;
 };
 
+export type GroupActivityType =
+  | "expense_created"
+  | "expense_updated"
+  | "expense_deleted"
+  | "expense_restored"
+  | "expense_purged"
+  | "expense_moved_in"
+  | "expense_moved_out"
+  | "refund_created"
+  | "refund_updated"
+  | "refund_deleted"
+  | "member_invited"
+  | "member_joined"
+  | "member_declined"
+  | "member_removed";
+
+// One changed field, with the values before and after the change
+export type ActivityFieldChange = {
+  field: string;
+  before?: any;
+  after?: any;
+};
+
+export type GroupActivityData = {
+  type: GroupActivityType;
+  subject?: string; // Expense name, refund description or member username
+  expense_id?: string;
+  refund_id?: string;
+  member_id?: string;
+  other_group_id?: string; // Where a moved expense came from or went to
+  amount?: number;
+  currency?: string;
+  changes?: ActivityFieldChange[];
+};
+
+// Activity entries are encrypted with the group key; the actor is the
+// authenticated user that wrote the entry
+export type GroupActivityWithDecryptedData = {
+  id: string;
+  group_id: string;
+  user_id: string;
+  created_at: string;
+  data: GroupActivityData;
+};
+
 export type ExpenseParticipant = {
   user_id: string;
   username: string;
   share_amount: number; // Individual share amount
-  share_percentage?: number; // Optional: percentage of total
+  share_percentage?: number; // Set by "percentage" splits
+  share_weight?: number; // Set by "shares" splits, e.g. 2 for a couple
+};
+
+// How an expense is divided among its participants
+export type SplitMethod = "equal" | "custom" | "shares" | "percentage";
+
+// Rate used to convert an expense into its group's currency, stored with the expense
+export type ExpenseExchangeRate = {
+  from: string; // Expense currency
+  to: string; // Group currency at the time the rate was recorded
+  rate: number; // Units of `to` per unit of `from`
+  date: string;
+  source: string;
+};
+
+// Line of an itemized bill, shared equally by the participants it is assigned to
+export type ExpenseLineItem = {
+  id: string;
+  name: string;
+  price: number; // Unit price
+  quantity: number;
+  participant_ids: string[];
+};
+
+// Item breakdown of an itemized split. Tax, tip and service charge are spread
+// in proportion to each participant's items.
+export type ExpenseItemization = {
+  items: ExpenseLineItem[];
+  tax: number;
+  tip: number;
+  service_charge: number;
+};
+
+// Photo of the receipt, stored encrypted with the group key as an attachment
+export type ExpenseReceipt = {
+  attachment_id: string;
+  content_type: string;
+  width: number;
+  height: number;
+  size: number; // Bytes of the compressed image before encryption
+  added_at: string;
+};
+
+// Decrypted receipt photo, base64 encoded
+export type ReceiptImage = {
+  base64: string;
+  content_type: string;
+  width: number;
+  height: number;
 };
 
 export type ExpenseData = {
@@ -87,14 +204,19 @@ export type ExpenseData = {
   recurring_end_date?: string;
   recurring_expense_id?: string; // Reference to the recurring expense if this was auto-generated
   currency?: string;
+  exchange_rate?: ExpenseExchangeRate;
   receipt_url?: string;
+  receipt?: ExpenseReceipt;
   status?: string;
+  deleted_at?: string; // When the expense was moved to the trash
   payer_user_id: string; // Who actually paid for this expense
   payer_username?: string; // Username of the payer (for display)
   participants: ExpenseParticipant[]; // Who shares this expense and their amounts
-  split_method: "equal" | "custom"; // How the expense is split
+  split_method: SplitMethod | "itemized"; // How the expense is split
+  itemization?: ExpenseItemization; // Set when split_method is "itemized"
   external_account_id?: string;
   external_transaction_id?: string;
+  loan_split?: LoanInstalmentSplit; // Set on instalments of a linked loan
 };
 
 export type ExpenseWithDecryptedData = {
@@ -122,7 +244,7 @@ export type ExpenseFormData = {
   payer_user_id: string;
   payer_username?: string;
   participants: ExpenseParticipant[];
-  split_method: "equal" | "custom";
+  split_method: SplitMethod;
 };
 
 // Recurring expense types
@@ -134,6 +256,36 @@ export type RecurringExpense = {
   encrypted_data: RecurringExpenseData;
 };
 
+export type RecurrenceFrequency = "daily" | "weekly" | "monthly" | "yearly";
+
+/**
+ * RRULE-like schedule of a recurring expense. Candidate dates of each period
+ * come from by_month_day or by_weekday (both: their intersection), then
+ * by_set_pos picks among them.
+ */
+export type RecurrenceRule = {
+  frequency: RecurrenceFrequency;
+  interval: number; // Every N periods
+  by_weekday?: number[]; // 0 = Sunday ... 6 = Saturday
+  by_month_day?: number[]; // 1..31, negative counts from the end (-1 = last day)
+  by_set_pos?: number[]; // 1-based position in the period, -1 = last
+};
+
+export type LoanInstalmentSplit = {
+  interest: number;
+  principal: number;
+};
+
+/**
+ * Debt holding whose instalment a recurring expense pays. Generated expenses
+ * take their amount and interest/principal split from `instalments`.
+ */
+export type RecurringLoanLink = {
+  portfolio_id: string;
+  investment_id: string;
+  instalments: (LoanInstalmentSplit & { date: string })[]; // Oldest first
+};
+
 export type RecurringExpenseData = {
   name: string;
   description: string;
@@ -144,14 +296,16 @@ export type RecurringExpenseData = {
   payer_user_id: string;
   payer_username?: string;
   participants: ExpenseParticipant[];
-  split_method: "equal" | "custom";
-  interval: "daily" | "weekly" | "monthly" | "yearly";
+  split_method: SplitMethod;
+  interval: RecurrenceFrequency; // Mirrors recurrence.frequency for older clients
+  recurrence?: RecurrenceRule;
   start_date: string;
   end_date?: string;
   next_due_date: string;
   should_generate_expenses?: boolean;
   last_generated_date?: string;
   is_active: boolean;
+  loan?: RecurringLoanLink;
 };
 
 export type RecurringExpenseWithDecryptedData = {
@@ -172,8 +326,9 @@ export type RecurringExpenseFormData = {
   payer_user_id: string;
   payer_username?: string;
   participants: ExpenseParticipant[];
-  split_method: "equal" | "custom";
-  interval: "daily" | "weekly" | "monthly" | "yearly";
+  split_method: SplitMethod;
+  interval: RecurrenceFrequency;
+  recurrence?: RecurrenceRule;
   start_date: string;
   end_date?: string;
   is_active: boolean;
@@ -468,19 +623,20 @@ export const CURRENCIES = [
   { value: "BRL", label: "BRL (R$)" },
 ];
 
-export const SPLIT_METHODS = [
+export const SPLIT_METHODS: { value: SplitMethod; label: string }[] = [
   { value: "equal", label: "Split Equally" },
   { value: "custom", label: "Custom Amounts" },
+  { value: "shares", label: "By Shares" },
+  { value: "percentage", label: "By Percentage" },
 ];
 
-// Utility functions for expense calculations
-export const calculateEqualSplit = (
-  amount: number,
-  participantCount: number,
-): number => {
-  return Math.round((amount / participantCount) * 100) / 100;
-};
+// One-off expenses can also be split by line item
+export const EXPENSE_SPLIT_METHODS: {
+  value: ExpenseData["split_method"];
+  label: string;
+}[] = [...SPLIT_METHODS, { value: "itemized", label: "Itemized" }];
 
+// Utility functions for expense calculations
 export const calculateUserShare = (
   expense: ExpenseWithDecryptedData,
   userId: string,
@@ -491,6 +647,25 @@ export const calculateUserShare = (
   return participant ? participant.share_amount : 0;
 };
 
+// User's share converted into the target currency (e.g. the profile's default currency)
+export const calculateUserShareInCurrency = (
+  expense: ExpenseWithDecryptedData,
+  userId: string,
+  targetCurrency: string,
+  fallbackCurrency?: string,
+  exchangeRates?: ExchangeRateTable,
+): number => {
+  return (
+    calculateUserShare(expense, userId) *
+    getExpenseConversionFactor(
+      expense.data,
+      targetCurrency,
+      fallbackCurrency,
+      exchangeRates,
+    )
+  );
+};
+
 export const calculateUserBalance = (
   expenses: ExpenseWithDecryptedData[],
   userId: string,
@@ -515,6 +690,8 @@ export const calculateGroupBalances = (
   expenses: ExpenseWithDecryptedData[],
   members: ExpenseGroupMember[],
   refunds?: GroupRefund[],
+  groupCurrency?: string,
+  exchangeRates?: ExchangeRateTable,
 ): { [userId: string]: number } => {
   const balances: { [userId: string]: number } = {};
 
@@ -523,17 +700,26 @@ export const calculateGroupBalances = (
     balances[member.user_id] = 0;
   });
 
-  // Calculate balances from expenses
+  // Calculate balances from expenses, converted into the group currency when known
   expenses.forEach((expense) => {
+    const factor = groupCurrency
+      ? getExpenseConversionFactor(
+          expense.data,
+          groupCurrency,
+          groupCurrency,
+          exchangeRates,
+        )
+      : 1;
+
     // Credit the payer
     if (balances.hasOwnProperty(expense.data.payer_user_id)) {
-      balances[expense.data.payer_user_id] += expense.data.amount;
+      balances[expense.data.payer_user_id] += expense.data.amount * factor;
     }
 
     // Debit participants
     expense.data.participants.forEach((participant) => {
       if (balances.hasOwnProperty(participant.user_id)) {
-        balances[participant.user_id] -= participant.share_amount;
+        balances[participant.user_id] -= participant.share_amount * factor;
       }
     });
   });
@@ -541,11 +727,19 @@ export const calculateGroupBalances = (
   // Apply refunds
   if (refunds) {
     refunds.forEach((refund) => {
+      const amount = groupCurrency
+        ? convertAmount(
+            refund.amount,
+            refund.currency,
+            groupCurrency,
+            exchangeRates,
+          )
+        : refund.amount;
       if (balances.hasOwnProperty(refund.from_user_id)) {
-        balances[refund.from_user_id] += refund.amount;
+        balances[refund.from_user_id] += amount;
       }
       if (balances.hasOwnProperty(refund.to_user_id)) {
-        balances[refund.to_user_id] -= refund.amount;
+        balances[refund.to_user_id] -= amount;
       }
     });
   }
@@ -559,24 +753,36 @@ export const calculateGroupBalances = (
 };
 
 // Utility functions for recurring expenses
+// Months and years are added in UTC and clamped to the month's last day, so
+// Jan 31 is followed by Feb 28 instead of Mar 3. Schedules anchored on a start
+// date should use getNextOccurrence from utils/recurrenceUtils instead.
 export const calculateNextDueDate = (
   interval: string,
   lastDate: string,
 ): string => {
-  const date = new Date(lastDate);
+  const [year, month, day] = lastDate.split("T")[0].split("-").map(Number);
+  const addMonths = (months: number) => {
+    const lastDayOfMonth = new Date(
+      Date.UTC(year, month - 1 + months + 1, 0),
+    ).getUTCDate();
+    return new Date(
+      Date.UTC(year, month - 1 + months, Math.min(day, lastDayOfMonth)),
+    );
+  };
 
+  let date: Date;
   switch (interval) {
     case "daily":
-      date.setDate(date.getDate() + 1);
+      date = new Date(Date.UTC(year, month - 1, day + 1));
       break;
     case "weekly":
-      date.setDate(date.getDate() + 7);
+      date = new Date(Date.UTC(year, month - 1, day + 7));
       break;
     case "monthly":
-      date.setMonth(date.getMonth() + 1);
+      date = addMonths(1);
       break;
     case "yearly":
-      date.setFullYear(date.getFullYear() + 1);
+      date = addMonths(12);
       break;
     default:
       throw new Error(`Invalid interval: ${interval}`);
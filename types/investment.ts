@@ -18,8 +18,100 @@ export type InvestmentData = {
   sector?: string | null;
   risk_level?: string | null;
   taxation?: number | null;
+  transactions?: InvestmentTransaction[]; // Ledger; quantity and purchase_price mirror it when present
+  price_history?: InvestmentPricePoint[]; // One price per day, oldest first
+  payout_schedule?: PayoutSchedule | null; // Dividend or coupon dates
+  face_value?: number | null; // Repaid per unit at maturity, defaults to the purchase price
+  matured_at?: string | null; // Set once the holding was redeemed into cash
+  loan?: LoanTerms | null; // Debt holdings only
 };
 
+export type LoanRateType = "fixed" | "variable";
+
+export const LOAN_RATE_TYPES: LoanRateType[] = ["fixed", "variable"];
+
+export type LoanRateChange = {
+  date: string; // YYYY-MM-DD, applies from the first payment on or after it
+  rate: number; // Annual rate in percent
+};
+
+export type LoanExtraRepayment = {
+  id: string;
+  date: string; // YYYY-MM-DD, paid together with the next instalment
+  amount: number;
+};
+
+export type LoanTerms = {
+  principal: number;
+  rate: number; // Annual rate in percent at the start
+  rate_type: LoanRateType;
+  rate_changes?: LoanRateChange[]; // Variable loans only
+  term_months: number;
+  start_date: string; // YYYY-MM-DD, the first instalment is due on the next payment day
+  payment_day: number; // 1..28
+  extra_repayments?: LoanExtraRepayment[];
+  expense_group_id?: string | null; // Group holding the linked recurring instalment
+  recurring_expense_id?: string | null;
+};
+
+export type PayoutFrequency = "monthly" | "quarterly" | "semiannual" | "annual";
+
+export const PAYOUT_FREQUENCIES: { id: PayoutFrequency; months: number }[] = [
+  { id: "monthly", months: 1 },
+  { id: "quarterly", months: 3 },
+  { id: "semiannual", months: 6 },
+  { id: "annual", months: 12 },
+];
+
+export type PayoutSchedule = {
+  frequency: PayoutFrequency;
+  pay_date: string; // One known payment date (YYYY-MM-DD), the others follow the frequency
+  ex_date?: string | null; // Ex-date belonging to `pay_date`
+  amount_per_unit?: number | null; // Per payment; estimated from the yield or rate when missing
+  source: "manual" | "lookup";
+};
+
+export type InvestmentPriceSource = "sync" | "manual" | "trade";
+
+export type InvestmentPricePoint = {
+  date: string; // YYYY-MM-DD
+  price: number;
+  source: InvestmentPriceSource; // "trade" points are derived from the ledger, never stored
+};
+
+export type PriceHistoryRange = "1M" | "6M" | "1Y" | "max";
+
+export const PRICE_HISTORY_RANGES: PriceHistoryRange[] = [
+  "1M",
+  "6M",
+  "1Y",
+  "max",
+];
+
+export type InvestmentTransactionType = "buy" | "sell" | "dividend" | "fee";
+
+export type InvestmentTransaction = {
+  id: string;
+  type: InvestmentTransactionType;
+  date: string;
+  quantity: number; // Units bought or sold, 0 for dividends and fees
+  price: number; // Price per unit for buys and sells
+  amount?: number | null; // Cash received or paid for dividends and fees
+  fees?: number | null; // Broker fees charged on a buy or sell
+  withholding_tax?: number | null; // Tax withheld at source, part of a dividend's gross amount
+  notes?: string | null;
+};
+
+export const INVESTMENT_TRANSACTION_TYPES: {
+  id: InvestmentTransactionType;
+  icon: string;
+}[] = [
+  { id: "buy", icon: "add-circle-outline" },
+  { id: "sell", icon: "remove-circle-outline" },
+  { id: "dividend", icon: "cash-outline" },
+  { id: "fee", icon: "receipt-outline" },
+];
+
 export type Investment = {
   id: string;
   portfolio_id: string;
@@ -65,6 +157,7 @@ export const INVESTMENT_TYPES = [
   { id: "checkingAccount", icon: "card" },
   { id: "savingsAccount", icon: "cash" },
   { id: "privatePension", icon: "time" },
+  { id: "debt", icon: "trending-down" },
   { id: "other", icon: "ellipsis-horizontal" },
 ];
 
@@ -86,6 +179,14 @@ export interface LookupSearchResult {
   previousCloseDate: string;
 }
 
+export interface DividendScheduleLookupResult {
+  frequency: PayoutFrequency | null;
+  exDate: string | null;
+  payDate: string | null;
+  amountPerShare: number | null;
+  currency: string;
+}
+
 export interface InvestmentLookupResultV2 {
   symbol: string;
   exchange: string;
@@ -0,0 +1,47 @@
+export const LIABILITY_TYPES = [
+  { id: "mortgage", icon: "home" },
+  { id: "loan", icon: "cash" },
+  { id: "creditCard", icon: "card" },
+  { id: "other", icon: "ellipsis-horizontal" },
+];
+
+export type LiabilityType = "mortgage" | "loan" | "creditCard" | "other";
+
+/**
+ * Outstanding balance entered by the user on a given day
+ */
+export type LiabilityBalanceEntry = {
+  date: string; // YYYY-MM-DD
+  balance: number;
+};
+
+export type LiabilityData = {
+  name: string;
+  type: LiabilityType;
+  currency: string;
+  balance: number; // Outstanding on `balance_date`
+  balance_date: string; // YYYY-MM-DD
+  interest_rate: number | null; // Yearly percent
+  monthly_payment: number | null; // Instalment, or the planned card repayment
+  payment_day?: number | null; // Day of the month the instalment is paid
+  notes: string | null;
+  balance_history?: LiabilityBalanceEntry[]; // Earlier balances, oldest first
+};
+
+export type LiabilityWithDecryptedData = {
+  id: string;
+  created_at: string;
+  updated_at: string;
+  data: LiabilityData;
+};
+
+/**
+ * One month of an amortization schedule
+ */
+export type AmortizationRow = {
+  date: string; // YYYY-MM-DD
+  payment: number;
+  interest: number;
+  principal: number;
+  balance: number; // Outstanding after the payment
+};
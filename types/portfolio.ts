@@ -1,3 +1,4 @@
+import { SharedKeyRotation } from "@/types/expense";
 import { InvestmentWithDecryptedData } from "@/types/investment";
 
 export interface SymbolSearchResult {
@@ -41,6 +42,25 @@ export type PortfolioData = {
   name: string;
   description?: string | null;
   private: boolean;
+  target_allocation?: TargetAllocation | null;
+  key_rotation?: SharedKeyRotation;
+};
+
+export type AllocationDimension = "type" | "sector" | "holding";
+
+export const ALLOCATION_DIMENSIONS: AllocationDimension[] = [
+  "type",
+  "sector",
+  "holding",
+];
+
+/**
+ * Desired share of the portfolio value per investment type, sector or single
+ * holding (investment id)
+ */
+export type TargetAllocation = {
+  dimension: AllocationDimension;
+  targets: { [key: string]: number }; // Percentages, summing to 100
 };
 
 export type PortfolioMemberWithProfile = {
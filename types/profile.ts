@@ -41,11 +41,18 @@ export type PaymentMethodOverride = {
   icon: string;
 };
 
+export type CategoryBudget = {
+  amount: number; // Monthly limit in the profile's default currency
+  rollover?: boolean; // Carry last month's unspent amount into this month
+  since?: string; // YYYY-MM the rollover started, nothing is carried from before
+};
+
 export type BudgetingData = {
   budget?: {
     amount: number;
     period: "monthly" | "weekly" | "yearly";
   } | null;
+  categoryBudgets?: { [categoryId: string]: CategoryBudget };
   categoryOverrides?: {
     edited: { [categoryId: string]: CategoryOverride };
     deleted: string[];
@@ -58,10 +65,68 @@ export type BudgetingData = {
   };
 };
 
+/**
+ * Value held in one portfolio, asset type and currency on a given day
+ */
+export type AssetSnapshotEntry = {
+  portfolio_id: string;
+  type: string; // Investment type
+  currency: string; // Currency the investments are held in
+  value: number; // In `currency`
+  converted_value: number; // In the snapshot currency
+  rate: number; // Units of the snapshot currency per unit of `currency`
+};
+
+export type AssetSnapshot = {
+  currency: string; // The profile's default currency when it was taken
+  rate_date: string; // Day of the exchange rates used
+  rate_source: string;
+  total: number; // Sum of the converted values
+  entries: AssetSnapshotEntry[];
+};
+
 export type FinancesData = {
   historicalAssets: {
-    [date: string]: number;
+    [date: string]: number; // Daily total; days before snapshots mix currencies
   };
+  assetSnapshots?: {
+    [date: string]: AssetSnapshot;
+  };
+  monthlyIncome?: number | null; // Net, in the default currency, for the savings rate
+};
+
+/**
+ * Where the money for a savings goal comes from
+ */
+export type GoalFundingSource =
+  | {
+      kind: "portfolio";
+      portfolio_id: string;
+      share: number; // Percent of the portfolio's value set aside for the goal
+    }
+  | {
+      kind: "investment"; // A single holding, e.g. a savings account
+      portfolio_id: string;
+      investment_id: string;
+      share: number;
+    }
+  | {
+      kind: "expenseGroup"; // A group used as a savings pot, its expenses are deposits
+      group_id: string;
+    };
+
+export type GoalFundingSourceKind = GoalFundingSource["kind"];
+
+export type SavingsGoal = {
+  id: string;
+  name: string;
+  icon: string;
+  target_amount: number; // In `currency`
+  currency: string;
+  deadline: string; // YYYY-MM-DD
+  sources: GoalFundingSource[];
+  monthly_contribution?: number | null; // Planned deposit per month, in `currency`
+  created_at: string;
 };
 
 export type ProfileData = {
@@ -72,6 +137,7 @@ export type ProfileData = {
   preferredLanguage?: string;
   budgeting?: BudgetingData;
   finances?: FinancesData;
+  goals?: SavingsGoal[];
 };
 
 export type Profile = {
@@ -0,0 +1,60 @@
+import {
+  ActivityFieldChange,
+  ExpenseData,
+  GroupActivityType,
+  GroupRefund,
+} from "@/types/expense";
+
+const isSameValue = (before: unknown, after: unknown) =>
+  JSON.stringify(before ?? null) === JSON.stringify(after ?? null);
+
+const diffFields = <T extends object>(
+  before: T,
+  after: T,
+  ignored: string[] = [],
+): ActivityFieldChange[] => {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...fields]
+    .filter((field) => !ignored.includes(field))
+    .filter(
+      (field) =>
+        !isSameValue(before[field as keyof T], after[field as keyof T]),
+    )
+    .map((field) => ({
+      field,
+      before: before[field as keyof T],
+      after: after[field as keyof T],
+    }));
+};
+
+/**
+ * Fields of an expense that changed between two versions
+ */
+export const diffExpenseData = (
+  before: ExpenseData,
+  after: ExpenseData,
+): ActivityFieldChange[] => diffFields(before, after);
+
+/**
+ * Fields of a refund that changed, without its bookkeeping timestamps
+ */
+export const diffRefund = (
+  before: GroupRefund,
+  after: GroupRefund,
+): ActivityFieldChange[] =>
+  diffFields(before, after, ["id", "created_at", "updated_at"]);
+
+/**
+ * What an update of an expense means for the activity feed. Deleting an
+ * expense only marks it as deleted, so the status tells the cases apart.
+ */
+export const getExpenseUpdateActivityType = (
+  before: ExpenseData | undefined,
+  after: ExpenseData,
+): GroupActivityType => {
+  const wasDeleted = before?.status === "deleted";
+  const isDeleted = after.status === "deleted";
+  if (!wasDeleted && isDeleted) return "expense_deleted";
+  if (wasDeleted && !isDeleted) return "expense_restored";
+  return "expense_updated";
+};
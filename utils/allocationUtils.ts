@@ -0,0 +1,190 @@
+import { InvestmentWithDecryptedData } from "@/types/investment";
+import { AllocationDimension, TargetAllocation } from "@/types/portfolio";
+import { ExchangeRateTable, getCrossRate } from "@/utils/exchangeRateUtils";
+import { calculateCurrentValue } from "@/utils/financeUtils";
+
+// Trades smaller than this are not worth suggesting
+const MIN_TRADE_AMOUNT = 0.01;
+
+export type AllocationDriftRow = {
+  key: string;
+  currentValue: number;
+  currentPercentage: number;
+  targetPercentage: number;
+  drift: number; // Current minus target, in percentage points
+};
+
+export type AllocationDrift = {
+  total: number;
+  rows: AllocationDriftRow[]; // Largest absolute drift first
+};
+
+export type RebalancingSuggestion = {
+  key: string;
+  amount: number; // Positive to buy, negative to sell
+  units: number | null; // Only known for single holdings
+  resultingPercentage: number;
+};
+
+export type RebalancingOptions = {
+  newMoney?: number;
+  buyOnly?: boolean; // Only invest the new money, never sell
+};
+
+/**
+ * Bucket an investment falls in for the given allocation dimension
+ */
+export const getAllocationKey = (
+  investment: InvestmentWithDecryptedData,
+  dimension: AllocationDimension,
+): string => {
+  switch (dimension) {
+    case "type":
+      return investment.data.type;
+    case "sector":
+      return investment.data.sector || "other";
+    case "holding":
+      return investment.id;
+  }
+};
+
+const getConversionRate = (
+  investment: InvestmentWithDecryptedData,
+  currency: string,
+  table: ExchangeRateTable,
+) => getCrossRate(investment.data.currency || currency, currency, table) ?? 1;
+
+const getAllocationValues = (
+  investments: InvestmentWithDecryptedData[],
+  dimension: AllocationDimension,
+  currency: string,
+  table: ExchangeRateTable,
+) => {
+  const values: { [key: string]: number } = {};
+  investments.forEach((investment) => {
+    const value =
+      calculateCurrentValue(investment) *
+      getConversionRate(investment, currency, table);
+    if (!value || !isFinite(value)) return;
+
+    const key = getAllocationKey(investment, dimension);
+    values[key] = (values[key] || 0) + value;
+  });
+  return values;
+};
+
+/**
+ * Compares the current split of a portfolio, converted into `currency`, with
+ * its target allocation. Holdings without a target count as a 0% target.
+ */
+export const calculateAllocationDrift = (
+  investments: InvestmentWithDecryptedData[],
+  allocation: TargetAllocation,
+  currency: string,
+  table: ExchangeRateTable,
+): AllocationDrift => {
+  const values = getAllocationValues(
+    investments,
+    allocation.dimension,
+    currency,
+    table,
+  );
+  const total = Object.values(values).reduce((sum, value) => sum + value, 0);
+  const keys = new Set([
+    ...Object.keys(allocation.targets),
+    ...Object.keys(values),
+  ]);
+
+  const rows = [...keys]
+    .map((key) => {
+      const currentValue = values[key] || 0;
+      const currentPercentage = total > 0 ? (currentValue / total) * 100 : 0;
+      const targetPercentage = allocation.targets[key] || 0;
+      return {
+        key,
+        currentValue,
+        currentPercentage,
+        targetPercentage,
+        drift: currentPercentage - targetPercentage,
+      };
+    })
+    .sort((a, b) => Math.abs(b.drift) - Math.abs(a.drift));
+
+  return { total, rows };
+};
+
+/**
+ * Buys and sells that bring a portfolio to its target allocation after adding
+ * `newMoney`. In buy-only mode the new money goes to the underweight buckets,
+ * in proportion to how far each one is below its target.
+ */
+export const calculateRebalancing = (
+  investments: InvestmentWithDecryptedData[],
+  allocation: TargetAllocation,
+  currency: string,
+  table: ExchangeRateTable,
+  { newMoney = 0, buyOnly = false }: RebalancingOptions = {},
+): RebalancingSuggestion[] => {
+  const values = getAllocationValues(
+    investments,
+    allocation.dimension,
+    currency,
+    table,
+  );
+  const cash = Math.max(newMoney, 0);
+  const total =
+    Object.values(values).reduce((sum, value) => sum + value, 0) + cash;
+  if (total <= 0) return [];
+
+  const targetSum = Object.values(allocation.targets).reduce(
+    (sum, percentage) => sum + percentage,
+    0,
+  );
+  const keys = [
+    ...new Set([...Object.keys(allocation.targets), ...Object.keys(values)]),
+  ];
+  const gaps = keys.map(
+    (key) =>
+      ((allocation.targets[key] || 0) / 100) * total - (values[key] || 0),
+  );
+
+  let amounts: number[];
+  if (!buyOnly) {
+    amounts = gaps;
+  } else {
+    const totalDeficit = gaps.reduce((sum, gap) => sum + Math.max(gap, 0), 0);
+    amounts = keys.map((key, index) => {
+      if (totalDeficit >= cash) {
+        return totalDeficit > 0
+          ? (Math.max(gaps[index], 0) / totalDeficit) * cash
+          : 0;
+      }
+      // Every bucket reaches its target, spread what is left by target weight
+      const weight =
+        targetSum > 0 ? (allocation.targets[key] || 0) / targetSum : 0;
+      return Math.max(gaps[index], 0) + (cash - totalDeficit) * weight;
+    });
+  }
+
+  return keys
+    .map((key, index) => {
+      const amount = amounts[index];
+      const holding =
+        allocation.dimension === "holding"
+          ? investments.find((investment) => investment.id === key)
+          : undefined;
+      const price = holding
+        ? (holding.data.current_price || holding.data.purchase_price || 0) *
+          getConversionRate(holding, currency, table)
+        : 0;
+
+      return {
+        key,
+        amount,
+        units: price > 0 ? amount / price : null,
+        resultingPercentage: (((values[key] || 0) + amount) / total) * 100,
+      };
+    })
+    .filter((suggestion) => Math.abs(suggestion.amount) >= MIN_TRADE_AMOUNT)
+    .sort((a, b) => b.amount - a.amount);
+};
@@ -0,0 +1,102 @@
+import { AmortizationRow } from "@/types/liability";
+import { roundCents } from "@/utils/currencyUtils";
+import { addMonthsToDay } from "@/utils/dateUtils";
+
+export type AmortizationStep = AmortizationRow & {
+  rate: number; // Annual rate in percent applied to this payment
+  extra: number; // Extra repayment made with this payment
+};
+
+export type AmortizationOptions = {
+  balance: number;
+  from: string; // Payments start the month after
+  paymentDay?: number | null;
+  months: number;
+  // Rate and instalment of payment `index`, before it is made
+  getTerms: (
+    index: number,
+    date: string,
+    balance: number,
+  ) => { rate: number; payment: number };
+  // Extra repayment made with payment `index`
+  getExtra?: (index: number, date: string) => number;
+  // Repays whatever is left with the last of `months` payments
+  payOff?: boolean;
+};
+
+/**
+ * Dates of the payments after `from`: on `paymentDay` when set, otherwise
+ * one month apart from `from`
+ */
+export const getPaymentDate = (
+  from: string,
+  index: number,
+  paymentDay?: number | null,
+): string => {
+  if (!paymentDay) return addMonthsToDay(from, index + 1);
+
+  const anchor = `${from.slice(0, 7)}-${String(paymentDay).padStart(2, "0")}`;
+  const offset = addMonthsToDay(anchor, 0) > from ? 0 : 1;
+  return addMonthsToDay(anchor, index + offset);
+};
+
+/**
+ * Annuity instalment repaying `balance` over `months` at an annual rate in
+ * percent
+ */
+export const calculateAnnuityPayment = (
+  balance: number,
+  annualRate: number,
+  months: number,
+): number => {
+  if (balance <= 0 || months <= 0) return 0;
+  const monthlyRate = annualRate / 100 / 12;
+  if (monthlyRate === 0) return roundCents(balance / months);
+  return roundCents(
+    (balance * monthlyRate) / (1 - Math.pow(1 + monthlyRate, -months)),
+  );
+};
+
+/**
+ * Monthly payments splitting each instalment into interest and principal
+ * until the balance is repaid or `months` payments were made
+ */
+export const amortize = ({
+  balance,
+  from,
+  paymentDay,
+  months,
+  getTerms,
+  getExtra,
+  payOff,
+}: AmortizationOptions): AmortizationStep[] => {
+  const rows: AmortizationStep[] = [];
+  let outstanding = balance;
+
+  for (let i = 0; i < months && outstanding > 0; i++) {
+    const date = getPaymentDate(from, i, paymentDay);
+    const { rate, payment } = getTerms(i, date, outstanding);
+
+    const interest = roundCents((outstanding * rate) / 100 / 12);
+    const principal =
+      payOff && i === months - 1
+        ? outstanding
+        : Math.min(Math.max(payment - interest, 0), outstanding);
+    outstanding = roundCents(outstanding - principal);
+
+    const extra = Math.min(getExtra?.(i, date) ?? 0, outstanding);
+    outstanding = roundCents(outstanding - extra);
+
+    rows.push({
+      date,
+      rate,
+      payment: roundCents(interest + principal),
+      interest,
+      principal: roundCents(principal),
+      extra: roundCents(extra),
+      balance: outstanding,
+    });
+  }
+
+  return rows;
+};
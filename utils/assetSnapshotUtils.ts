@@ -0,0 +1,174 @@
+import { PortfolioWithDecryptedData } from "@/types/portfolio";
+import {
+  AssetSnapshot,
+  AssetSnapshotEntry,
+  FinancesData,
+} from "@/types/profile";
+import { ExchangeRateTable, getCrossRate } from "@/utils/exchangeRateUtils";
+import { calculateCurrentValue } from "@/utils/financeUtils";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Older snapshots are thinned to one per week, then one per month, to keep
+// the profile small
+const DAILY_SNAPSHOT_DAYS = 90;
+const WEEKLY_SNAPSHOT_DAYS = 730;
+
+export type AssetSnapshotGrouping = "type" | "portfolio" | "currency";
+
+export const ASSET_SNAPSHOT_GROUPINGS: AssetSnapshotGrouping[] = [
+  "type",
+  "portfolio",
+  "currency",
+];
+
+export type AssetSnapshotSeries = {
+  dates: string[];
+  series: { key: string; values: number[] }[]; // Largest last value first
+  totals: number[];
+};
+
+/**
+ * Values every confirmed portfolio per asset type and currency, converted
+ * into `currency` with the rates of `table`. Currencies the table does not
+ * know are kept at a rate of 1 rather than dropped.
+ */
+export const buildAssetSnapshot = (
+  portfolios: PortfolioWithDecryptedData[],
+  currency: string,
+  table: ExchangeRateTable,
+): AssetSnapshot => {
+  const entries = new Map<string, AssetSnapshotEntry>();
+
+  portfolios
+    .filter((portfolio) => portfolio.membership_status === "confirmed")
+    .forEach((portfolio) => {
+      portfolio.investments.forEach((investment) => {
+        const value = calculateCurrentValue(investment);
+        if (!value || !isFinite(value)) return;
+
+        const investmentCurrency = investment.data.currency || currency;
+        const key = `${portfolio.id}|${investment.data.type}|${investmentCurrency}`;
+        const entry = entries.get(key) || {
+          portfolio_id: portfolio.id,
+          type: investment.data.type,
+          currency: investmentCurrency,
+          value: 0,
+          converted_value: 0,
+          rate: getCrossRate(investmentCurrency, currency, table) ?? 1,
+        };
+        entry.value += value;
+        entry.converted_value = entry.value * entry.rate;
+        entries.set(key, entry);
+      });
+    });
+
+  const snapshotEntries = [...entries.values()];
+  return {
+    currency,
+    rate_date: table.date,
+    rate_source: table.source,
+    total: snapshotEntries.reduce(
+      (sum, entry) => sum + entry.converted_value,
+      0,
+    ),
+    entries: snapshotEntries,
+  };
+};
+
+/**
+ * Stores the snapshot of a day, also as that day's total in the older
+ * `historicalAssets` map so earlier app versions keep showing a value.
+ */
+export const addAssetSnapshot = (
+  finances: FinancesData | undefined,
+  date: string,
+  snapshot: AssetSnapshot,
+): FinancesData => {
+  const dailyCutoff = Date.parse(date) - DAILY_SNAPSHOT_DAYS * DAY_MS;
+  const weeklyCutoff = Date.parse(date) - WEEKLY_SNAPSHOT_DAYS * DAY_MS;
+  const snapshots: { [date: string]: AssetSnapshot } = {};
+  const periods = new Map<string, string>();
+
+  Object.keys({ ...(finances?.assetSnapshots || {}), [date]: snapshot })
+    .sort()
+    .forEach((day) => {
+      const stored = day === date ? snapshot : finances?.assetSnapshots?.[day];
+      if (!stored) return;
+      const time = Date.parse(day);
+      if (time >= dailyCutoff) {
+        snapshots[day] = stored;
+        return;
+      }
+      // Keep the last snapshot of each older week, or month when older still
+      const period =
+        time >= weeklyCutoff
+          ? `week-${Math.floor(time / (7 * DAY_MS))}`
+          : day.slice(0, 7);
+      const previous = periods.get(period);
+      if (previous) delete snapshots[previous];
+      periods.set(period, day);
+      snapshots[day] = stored;
+    });
+
+  return {
+    ...finances,
+    historicalAssets: {
+      ...(finances?.historicalAssets || {}),
+      [date]: snapshot.total,
+    },
+    assetSnapshots: snapshots,
+  };
+};
+
+/**
+ * Snapshot values split by asset type, portfolio or currency, optionally
+ * limited to one portfolio and expressed in `currency`. Snapshots taken in
+ * another currency are converted with `table`.
+ */
+export const getAssetSnapshotSeries = (
+  finances: FinancesData | undefined,
+  grouping: AssetSnapshotGrouping,
+  currency: string,
+  table: ExchangeRateTable,
+  portfolioId?: string | null,
+): AssetSnapshotSeries => {
+  const snapshots = finances?.assetSnapshots || {};
+  const dates = Object.keys(snapshots).sort();
+  const valuesByKey = new Map<string, number[]>();
+
+  dates.forEach((date, index) => {
+    const snapshot = snapshots[date];
+    const factor = getCrossRate(snapshot.currency, currency, table) ?? 1;
+
+    snapshot.entries
+      .filter((entry) => !portfolioId || entry.portfolio_id === portfolioId)
+      .forEach((entry) => {
+        const key =
+          grouping === "type"
+            ? entry.type
+            : grouping === "portfolio"
+              ? entry.portfolio_id
+              : entry.currency;
+        const values = valuesByKey.get(key) || new Array(dates.length).fill(0);
+        values[index] += entry.converted_value * factor;
+        valuesByKey.set(key, values);
+      });
+  });
+
+  const series = [...valuesByKey.entries()]
+    .map(([key, values]) => ({ key, values }))
+    .sort(
+      (a, b) =>
+        (b.values[b.values.length - 1] || 0) -
+        (a.values[a.values.length - 1] || 0),
+    );
+
+  return {
+    dates,
+    series,
+    totals: dates.map((_, index) =>
+      series.reduce((sum, item) => sum + item.values[index], 0),
+    ),
+  };
+};
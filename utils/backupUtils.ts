@@ -0,0 +1,366 @@
+import {
+  decryptCompressedData,
+  deriveKeyFromPassword,
+  encryptDataWithCompression,
+} from "@/lib/encryption";
+import {
+  ExpenseData,
+  ExpenseGroupData,
+  ExpenseParticipant,
+  RecurringExpenseData,
+} from "@/types/expense";
+import { InvestmentData } from "@/types/investment";
+import { LiabilityData } from "@/types/liability";
+import { PortfolioData } from "@/types/portfolio";
+import { GoalFundingSource, ProfileData, SavingsGoal } from "@/types/profile";
+import { v5 as uuidv5 } from "uuid";
+
+export const BACKUP_ARCHIVE_VERSION = 1;
+
+const RESTORED_ID_NAMESPACE = "8f2c4d1a-6e3b-4a95-9c07-b5d1e8f36a24";
+
+export type BackupExpense = {
+  id: string;
+  created_at: string;
+  data: ExpenseData;
+};
+
+export type BackupRecurringExpense = {
+  id: string;
+  created_at: string;
+  data: RecurringExpenseData;
+};
+
+export type BackupExpenseGroup = {
+  id: string;
+  created_at: string;
+  data: ExpenseGroupData;
+  members: { user_id: string; username: string }[];
+  expenses: BackupExpense[];
+  recurring_expenses: BackupRecurringExpense[];
+};
+
+export type BackupInvestment = {
+  id: string;
+  created_at: string;
+  data: InvestmentData;
+};
+
+export type BackupPortfolio = {
+  id: string;
+  created_at: string;
+  data: PortfolioData;
+  investments: BackupInvestment[];
+};
+
+export type BackupLiability = {
+  id: string;
+  created_at: string;
+  data: LiabilityData;
+};
+
+// Everything in the profile but who the user is
+export type BackupProfile = Omit<ProfileData, "name" | "avatar_url" | "bio">;
+
+export type BackupArchive = {
+  version: number;
+  exported_at: string;
+  user_id: string;
+  username: string;
+  profile: BackupProfile;
+  expense_groups: BackupExpenseGroup[];
+  portfolios: BackupPortfolio[];
+  liabilities?: BackupLiability[]; // Missing in archives made before liabilities
+};
+
+// File layout when the archive is protected with a passphrase
+export type EncryptedBackupFile = {
+  version: number;
+  encrypted: true;
+  salt: string;
+  data: string;
+};
+
+export type BackupSummary = {
+  groups: number;
+  expenses: number;
+  recurringExpenses: number;
+  portfolios: number;
+  investments: number;
+  liabilities: number;
+};
+
+/**
+ * Id an archived item gets when restored into a group or portfolio, the
+ * same every time, so restoring an archive twice does not duplicate it
+ */
+export const getRestoredId = (backupId: string, targetId: string): string =>
+  uuidv5(`${targetId}:${backupId}`, RESTORED_ID_NAMESPACE);
+
+/**
+ * Points goal sources at the groups, portfolios and investments they were
+ * restored as. Sources whose target was not restored are dropped.
+ */
+export const remapBackupGoals = (
+  goals: SavingsGoal[],
+  restoredIds: { [backupId: string]: string },
+): SavingsGoal[] =>
+  goals.map((goal) => ({
+    ...goal,
+    sources: goal.sources.flatMap((source): GoalFundingSource[] => {
+      if (source.kind === "expenseGroup") {
+        const groupId = restoredIds[source.group_id];
+        return groupId ? [{ ...source, group_id: groupId }] : [];
+      }
+      const portfolioId = restoredIds[source.portfolio_id];
+      if (!portfolioId) return [];
+      if (source.kind === "portfolio") {
+        return [{ ...source, portfolio_id: portfolioId }];
+      }
+      const investmentId = restoredIds[source.investment_id];
+      return investmentId
+        ? [
+            {
+              ...source,
+              portfolio_id: portfolioId,
+              investment_id: investmentId,
+            },
+          ]
+        : [];
+    }),
+  }));
+
+/**
+ * Profile fields to save after a restore. Settings come from the archive,
+ * history and goals are merged with what the profile already holds.
+ */
+export const mergeBackupProfile = (
+  current: ProfileData,
+  backup: BackupProfile,
+  restoredIds: { [backupId: string]: string },
+): Partial<ProfileData> => {
+  const { finances, goals, ...settings } = backup;
+  const merged: Partial<ProfileData> = { ...settings };
+
+  if (finances) {
+    merged.finances = {
+      ...finances,
+      ...current.finances,
+      historicalAssets: {
+        ...finances.historicalAssets,
+        ...current.finances?.historicalAssets,
+      },
+      assetSnapshots: {
+        ...finances.assetSnapshots,
+        ...current.finances?.assetSnapshots,
+      },
+      monthlyIncome: current.finances?.monthlyIncome ?? finances.monthlyIncome,
+    };
+  }
+
+  if (goals) {
+    const currentGoals = current.goals || [];
+    merged.goals = [
+      ...currentGoals,
+      ...remapBackupGoals(
+        goals.filter(
+          (goal) => !currentGoals.some((existing) => existing.id === goal.id),
+        ),
+        restoredIds,
+      ),
+    ];
+  }
+
+  return merged;
+};
+
+export const summarizeBackupArchive = (
+  archive: BackupArchive,
+): BackupSummary => ({
+  groups: archive.expense_groups.length,
+  expenses: archive.expense_groups.reduce(
+    (total, group) => total + group.expenses.length,
+    0,
+  ),
+  recurringExpenses: archive.expense_groups.reduce(
+    (total, group) => total + group.recurring_expenses.length,
+    0,
+  ),
+  portfolios: archive.portfolios.length,
+  investments: archive.portfolios.reduce(
+    (total, portfolio) => total + portfolio.investments.length,
+    0,
+  ),
+  liabilities: archive.liabilities?.length || 0,
+});
+
+/**
+ * Serializes the archive, re-encrypting it with a key derived from the
+ * passphrase when one is given
+ */
+export const serializeBackupArchive = async (
+  archive: BackupArchive,
+  passphrase?: string,
+): Promise<string> => {
+  if (!passphrase) {
+    return JSON.stringify(archive, null, 2);
+  }
+
+  const { key, salt } = await deriveKeyFromPassword(passphrase);
+  const file: EncryptedBackupFile = {
+    version: archive.version,
+    encrypted: true,
+    salt,
+    data: encryptDataWithCompression(archive, key),
+  };
+  return JSON.stringify(file);
+};
+
+/**
+ * Tells whether a backup file needs a passphrase before it can be read
+ */
+export const isEncryptedBackupFile = (content: string): boolean => {
+  try {
+    const parsed = JSON.parse(content);
+    return parsed?.encrypted === true && typeof parsed.data === "string";
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Reads a backup file, decrypting it with the passphrase when needed
+ * @throws When the file is not a Piggus backup, the version is unsupported
+ * or the passphrase is wrong
+ */
+export const parseBackupArchive = async (
+  content: string,
+  passphrase?: string,
+): Promise<BackupArchive> => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new Error("Backup file is not valid JSON");
+  }
+
+  if (parsed?.encrypted === true) {
+    if (!passphrase) {
+      throw new Error("Backup file is protected with a passphrase");
+    }
+    const { key } = await deriveKeyFromPassword(passphrase, parsed.salt);
+    try {
+      parsed = decryptCompressedData(parsed.data, key);
+    } catch {
+      throw new Error("Wrong passphrase or corrupted backup file");
+    }
+  }
+
+  if (
+    !parsed ||
+    typeof parsed.version !== "number" ||
+    !Array.isArray(parsed.expense_groups) ||
+    !Array.isArray(parsed.portfolios)
+  ) {
+    throw new Error("File is not a Piggus backup");
+  }
+  if (parsed.version > BACKUP_ARCHIVE_VERSION) {
+    throw new Error(
+      `Backup version ${parsed.version} is newer than this app supports`,
+    );
+  }
+
+  return parsed as BackupArchive;
+};
+
+// Restoring into another account
+
+const remapParticipants = (
+  participants: ExpenseParticipant[],
+  mapUserId: (userId: string) => string,
+  mapUsername: (userId: string, username: string) => string,
+): ExpenseParticipant[] =>
+  (participants || []).map((participant) => ({
+    ...participant,
+    user_id: mapUserId(participant.user_id),
+    username: mapUsername(participant.user_id, participant.username),
+  }));
+
+/**
+ * Rewrites every reference to the account that made the backup so the
+ * restored data belongs to the account restoring it. Other members of
+ * shared groups keep their ids, so split history stays readable.
+ */
+export const remapBackupArchiveOwner = (
+  archive: BackupArchive,
+  userId: string,
+  username: string,
+): BackupArchive => {
+  if (archive.user_id === userId && archive.username === username) {
+    return archive;
+  }
+
+  const mapUserId = (id: string) => (id === archive.user_id ? userId : id);
+  const mapUsername = (id: string, name: string) =>
+    id === archive.user_id ? username : name;
+
+  return {
+    ...archive,
+    user_id: userId,
+    username,
+    expense_groups: archive.expense_groups.map((group) => ({
+      ...group,
+      data: {
+        ...group.data,
+        refunds: group.data.refunds?.map((refund) => ({
+          ...refund,
+          from_user_id: mapUserId(refund.from_user_id),
+          to_user_id: mapUserId(refund.to_user_id),
+        })),
+      },
+      members: group.members.map((member) => ({
+        user_id: mapUserId(member.user_id),
+        username: mapUsername(member.user_id, member.username),
+      })),
+      expenses: group.expenses.map((expense) => ({
+        ...expense,
+        data: {
+          ...expense.data,
+          payer_user_id: mapUserId(expense.data.payer_user_id),
+          payer_username: expense.data.payer_username
+            ? mapUsername(
+                expense.data.payer_user_id,
+                expense.data.payer_username,
+              )
+            : expense.data.payer_username,
+          participants: remapParticipants(
+            expense.data.participants,
+            mapUserId,
+            mapUsername,
+          ),
+        },
+      })),
+      recurring_expenses: group.recurring_expenses.map((recurring) => ({
+        ...recurring,
+        data: {
+          ...recurring.data,
+          payer_user_id: mapUserId(recurring.data.payer_user_id),
+          payer_username: recurring.data.payer_username
+            ? mapUsername(
+                recurring.data.payer_user_id,
+                recurring.data.payer_username,
+              )
+            : recurring.data.payer_username,
+          participants: remapParticipants(
+            recurring.data.participants,
+            mapUserId,
+            mapUsername,
+          ),
+        },
+      })),
+    })),
+  };
+};
+
+export const getBackupFileName = (date: Date = new Date()): string =>
+  `piggus-backup-${date.toISOString().split("T")[0]}.json`;
@@ -0,0 +1,286 @@
+import {
+  ExpenseCategory,
+  ExpenseGroupWithDecryptedData,
+  RecurringExpenseWithDecryptedData,
+  calculateUserShareInCurrency,
+} from "@/types/expense";
+import { CategoryBudget } from "@/types/profile";
+import {
+  ExchangeRateTable,
+  getExpenseConversionFactor,
+} from "@/utils/exchangeRateUtils";
+import { getNextOccurrence, getRecurrenceRule } from "@/utils/recurrenceUtils";
+
+export type CategoryAmounts = { [categoryId: string]: number };
+
+export type CategoryBudgetState =
+  | "onTrack"
+  | "warning"
+  | "projectedOver"
+  | "over";
+
+export type CategoryBudgetStatus = {
+  categoryId: string;
+  budget: CategoryBudget;
+  rolloverAmount: number; // Unspent amount carried from the previous month
+  available: number; // Budget plus rollover
+  spent: number;
+  upcoming: number; // Recurring expenses still due this month
+  projected: number; // spent + upcoming
+  remaining: number;
+  percentUsed: number;
+  projectedPercent: number;
+  state: CategoryBudgetState;
+};
+
+// Share of the budget after which a category is flagged as "watch out"
+const WARNING_THRESHOLD = 80;
+
+/**
+ * Returns the YYYY-MM key of a date string or Date
+ */
+export const getMonthKey = (date: string | Date = new Date()): string => {
+  if (typeof date === "string") return date.slice(0, 7);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+};
+
+export const getPreviousMonthKey = (monthKey: string): string => {
+  const [year, month] = monthKey.split("-").map(Number);
+  return getMonthKey(new Date(year, month - 2, 1));
+};
+
+export const getNextMonthKey = (monthKey: string): string => {
+  const [year, month] = monthKey.split("-").map(Number);
+  return getMonthKey(new Date(year, month, 1));
+};
+
+// Budgets from before start months were recorded carry the previous month only
+const getRolloverStart = (budget: CategoryBudget, monthKey: string) =>
+  budget.since ?? getPreviousMonthKey(monthKey);
+
+/**
+ * Months before `monthKey` whose spending the rollover of the budgets needs
+ */
+export const getRolloverMonths = (
+  categoryBudgets: { [categoryId: string]: CategoryBudget } | undefined,
+  monthKey: string,
+): string[] => {
+  const starts = Object.values(categoryBudgets || {})
+    .filter((budget) => budget?.rollover)
+    .map((budget) => getRolloverStart(budget, monthKey));
+  if (starts.length === 0) return [];
+
+  const months: string[] = [];
+  for (
+    let month = starts.sort()[0];
+    month < monthKey;
+    month = getNextMonthKey(month)
+  ) {
+    months.push(month);
+  }
+  return months;
+};
+
+/**
+ * Unspent amount a category carries into `monthKey`. Each month since the
+ * rollover started passes on what was left of its budget and of what it
+ * was carried itself.
+ */
+const calculateRollover = (
+  categoryId: string,
+  budget: CategoryBudget,
+  monthKey: string,
+  spentByMonth: { [monthKey: string]: CategoryAmounts },
+): number => {
+  if (!budget.rollover) return 0;
+
+  let carried = 0;
+  for (
+    let month = getRolloverStart(budget, monthKey);
+    month < monthKey;
+    month = getNextMonthKey(month)
+  ) {
+    const spent = spentByMonth[month]?.[categoryId] || 0;
+    carried = Math.max(0, budget.amount + carried - spent);
+  }
+  return carried;
+};
+
+/**
+ * Sums the user's share of every expense in the month per category,
+ * converted into the target currency
+ */
+export const calculateCategorySpending = (
+  expensesGroups: ExpenseGroupWithDecryptedData[],
+  userId: string,
+  monthKey: string,
+  currency: string,
+  exchangeRates?: ExchangeRateTable,
+): CategoryAmounts => {
+  const spending: CategoryAmounts = {};
+
+  expensesGroups.forEach((group) => {
+    if (group.membership_status !== "confirmed") return;
+
+    group.expenses.forEach((expense) => {
+      if (expense.data.status === "deleted") return;
+      if (getMonthKey(expense.data.date) !== monthKey) return;
+
+      const share = calculateUserShareInCurrency(
+        expense,
+        userId,
+        currency,
+        group.data?.currency,
+        exchangeRates,
+      );
+      if (share > 0) {
+        const category = expense.data.category || "other";
+        spending[category] = (spending[category] || 0) + share;
+      }
+    });
+  });
+
+  return spending;
+};
+
+/**
+ * Sums the user's share of recurring expenses that will still be generated
+ * in the month after today, per category
+ */
+export const calculateUpcomingRecurringSpending = (
+  recurringExpenses: RecurringExpenseWithDecryptedData[],
+  expensesGroups: ExpenseGroupWithDecryptedData[],
+  userId: string,
+  monthKey: string,
+  currency: string,
+  exchangeRates?: ExchangeRateTable,
+  today: string = new Date().toISOString().split("T")[0],
+): CategoryAmounts => {
+  const upcoming: CategoryAmounts = {};
+
+  recurringExpenses.forEach((recurring) => {
+    if (!recurring.data.is_active) return;
+
+    const group = expensesGroups.find((g) => g.id === recurring.group_id);
+    if (!group || group.membership_status !== "confirmed") return;
+
+    const participant = recurring.data.participants.find(
+      (p) => p.user_id === userId,
+    );
+    if (!participant || participant.share_amount <= 0) return;
+
+    const share =
+      participant.share_amount *
+      getExpenseConversionFactor(
+        recurring.data,
+        currency,
+        group.data?.currency,
+        exchangeRates,
+      );
+
+    const rule = getRecurrenceRule(recurring.data);
+    let dueDate: string | undefined = recurring.data.next_due_date;
+    while (dueDate && getMonthKey(dueDate) <= monthKey) {
+      if (recurring.data.end_date && dueDate > recurring.data.end_date) break;
+      if (getMonthKey(dueDate) === monthKey && dueDate > today) {
+        const category = recurring.data.category || "other";
+        upcoming[category] = (upcoming[category] || 0) + share;
+      }
+      dueDate = getNextOccurrence(rule, recurring.data.start_date, dueDate);
+    }
+  });
+
+  return upcoming;
+};
+
+/**
+ * Adds each subcategory's amount to its parent, so a budget on a main
+ * category covers everything below it
+ */
+export const rollUpCategoryAmounts = (
+  amounts: CategoryAmounts,
+  categories: ExpenseCategory[],
+): CategoryAmounts => {
+  const rolledUp: CategoryAmounts = { ...amounts };
+
+  Object.entries(amounts).forEach(([categoryId, amount]) => {
+    const parent = categories.find((cat) => cat.id === categoryId)?.parent;
+    if (parent) {
+      rolledUp[parent] = (rolledUp[parent] || 0) + amount;
+    }
+  });
+
+  return rolledUp;
+};
+
+const getBudgetState = (
+  spentPercent: number,
+  projectedPercent: number,
+): CategoryBudgetState => {
+  if (spentPercent > 100) return "over";
+  if (projectedPercent > 100) return "projectedOver";
+  if (spentPercent >= WARNING_THRESHOLD) return "warning";
+  return "onTrack";
+};
+
+/**
+ * Compares every category budget against the month's spending.
+ *
+ * @param categoryBudgets - Budgets keyed by category id
+ * @param categories - Current category hierarchy, used to roll subcategories up
+ * @param monthKey - Month the spending is for
+ * @param spent - Spending of the month per category
+ * @param previousSpent - Spending of the months before, by month, for rollover
+ * @param upcoming - Recurring expenses still due in the month
+ */
+export const calculateCategoryBudgetStatuses = (
+  categoryBudgets: { [categoryId: string]: CategoryBudget } | undefined,
+  categories: ExpenseCategory[],
+  monthKey: string,
+  spent: CategoryAmounts,
+  previousSpent: { [monthKey: string]: CategoryAmounts } = {},
+  upcoming: CategoryAmounts = {},
+): CategoryBudgetStatus[] => {
+  if (!categoryBudgets) return [];
+
+  const spentTotals = rollUpCategoryAmounts(spent, categories);
+  const previousTotals = Object.fromEntries(
+    Object.entries(previousSpent).map(([month, amounts]) => [
+      month,
+      rollUpCategoryAmounts(amounts, categories),
+    ]),
+  );
+  const upcomingTotals = rollUpCategoryAmounts(upcoming, categories);
+
+  return Object.entries(categoryBudgets)
+    .filter(([, budget]) => budget && budget.amount > 0)
+    .map(([categoryId, budget]) => {
+      const rolloverAmount = calculateRollover(
+        categoryId,
+        budget,
+        monthKey,
+        previousTotals,
+      );
+      const available = budget.amount + rolloverAmount;
+      const categorySpent = spentTotals[categoryId] || 0;
+      const categoryUpcoming = upcomingTotals[categoryId] || 0;
+      const projected = categorySpent + categoryUpcoming;
+      const percentUsed = (categorySpent / available) * 100;
+      const projectedPercent = (projected / available) * 100;
+
+      return {
+        categoryId,
+        budget,
+        rolloverAmount,
+        available,
+        spent: categorySpent,
+        upcoming: categoryUpcoming,
+        projected,
+        remaining: available - categorySpent,
+        percentUsed,
+        projectedPercent,
+        state: getBudgetState(percentUsed, projectedPercent),
+      };
+    })
+    .sort((a, b) => b.projectedPercent - a.projectedPercent);
+};
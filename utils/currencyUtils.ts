@@ -18,3 +18,5 @@ export const formatCurrency = (
     return `${Number(amount).toFixed(2)}`;
   }
 };
+
+export const roundCents = (value: number) => Math.round(value * 100) / 100;
@@ -45,3 +45,17 @@ export function createExpenseTimestamp(
 export function getCurrentTimestamp(): string {
   return new Date().toISOString();
 }
+
+/**
+ * Adds whole months to a YYYY-MM-DD date, keeping the day of month or the
+ * last day of shorter months
+ */
+export const addMonthsToDay = (date: string, months: number): string => {
+  const [year, month, day] = date.split("-").map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(
+    Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0),
+  ).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return target.toISOString().split("T")[0];
+};
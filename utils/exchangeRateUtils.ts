@@ -0,0 +1,152 @@
+import { ExpenseData, ExpenseExchangeRate } from "@/types/expense";
+
+export type ExchangeRateTable = {
+  base: string; // Currency every rate is expressed against
+  date: string; // Day the rates refer to (YYYY-MM-DD)
+  source: string; // Provider that produced the table
+  rates: { [currency: string]: number }; // Units of currency per 1 unit of base
+};
+
+/**
+ * Offline fallback table, used when no provider is reachable and for local testing.
+ * Rates are approximate reference values and only meant to keep totals sensible.
+ */
+export const FALLBACK_EXCHANGE_RATES: ExchangeRateTable = {
+  base: "EUR",
+  date: "2025-01-02",
+  source: "offline",
+  rates: {
+    EUR: 1,
+    USD: 1.035,
+    GBP: 0.829,
+    JPY: 163.1,
+    CAD: 1.489,
+    AUD: 1.668,
+    CHF: 0.938,
+    CNY: 7.555,
+    INR: 88.7,
+    BRL: 6.41,
+  },
+};
+
+/**
+ * Returns how many units of `to` one unit of `from` is worth according to the table
+ * @returns The rate, or null when either currency is missing from the table
+ */
+export const getCrossRate = (
+  from: string,
+  to: string,
+  table: ExchangeRateTable = FALLBACK_EXCHANGE_RATES,
+): number | null => {
+  if (from === to) return 1;
+
+  const fromRate = from === table.base ? 1 : table.rates[from];
+  const toRate = to === table.base ? 1 : table.rates[to];
+  if (!fromRate || !toRate) return null;
+
+  return toRate / fromRate;
+};
+
+/**
+ * Re-expresses a rate table against a different base currency
+ */
+export const rebaseExchangeRates = (
+  table: ExchangeRateTable,
+  base: string,
+): ExchangeRateTable | null => {
+  if (table.base === base) return table;
+
+  const rates: { [currency: string]: number } = {};
+  for (const currency of [table.base, ...Object.keys(table.rates)]) {
+    const rate = getCrossRate(base, currency, table);
+    if (rate === null) return null;
+    rates[currency] = rate;
+  }
+
+  return { ...table, base, rates };
+};
+
+/**
+ * Converts an amount between currencies, leaving it untouched when no rate is known
+ */
+export const convertAmount = (
+  amount: number,
+  from: string | undefined,
+  to: string,
+  table: ExchangeRateTable = FALLBACK_EXCHANGE_RATES,
+): number => {
+  if (!from || from === to) return amount;
+  const rate = getCrossRate(from, to, table);
+  return rate === null ? amount : amount * rate;
+};
+
+/**
+ * Returns the factor that turns amounts of an expense into the target currency.
+ * The rate stored on the expense wins over the table, so historical totals do
+ * not move when today's rates change.
+ *
+ * @param expenseData - The expense (or recurring expense) data
+ * @param targetCurrency - Currency the result should be expressed in
+ * @param fallbackCurrency - Currency assumed when the expense has none (usually the group's)
+ * @param table - Rates used for anything the stored rate does not cover
+ */
+export const getExpenseConversionFactor = (
+  expenseData: Pick<ExpenseData, "currency"> & {
+    exchange_rate?: ExpenseExchangeRate;
+  },
+  targetCurrency: string,
+  fallbackCurrency?: string,
+  table: ExchangeRateTable = FALLBACK_EXCHANGE_RATES,
+): number => {
+  const currency = expenseData.currency || fallbackCurrency;
+  if (!currency || currency === targetCurrency) return 1;
+
+  const storedRate = expenseData.exchange_rate;
+  if (storedRate && storedRate.from === currency && storedRate.rate > 0) {
+    if (storedRate.to === targetCurrency) return storedRate.rate;
+    const onwardRate = getCrossRate(storedRate.to, targetCurrency, table);
+    if (onwardRate !== null) return storedRate.rate * onwardRate;
+  }
+
+  return getCrossRate(currency, targetCurrency, table) ?? 1;
+};
+
+/**
+ * Converts an expense amount into the target currency
+ */
+export const convertExpenseAmount = (
+  expenseData: Pick<ExpenseData, "amount" | "currency" | "exchange_rate">,
+  targetCurrency: string,
+  fallbackCurrency?: string,
+  table: ExchangeRateTable = FALLBACK_EXCHANGE_RATES,
+): number => {
+  return (
+    expenseData.amount *
+    getExpenseConversionFactor(
+      expenseData,
+      targetCurrency,
+      fallbackCurrency,
+      table,
+    )
+  );
+};
+
+/**
+ * Builds the snapshot stored on an expense to record the rate used for it
+ */
+export const createExpenseExchangeRate = (
+  from: string,
+  to: string,
+  table: ExchangeRateTable,
+): ExpenseExchangeRate | null => {
+  const rate = getCrossRate(from, to, table);
+  if (rate === null) return null;
+
+  return {
+    from,
+    to,
+    rate,
+    date: table.date,
+    source: table.source,
+  };
+};
@@ -1,4 +1,11 @@
-import { InvestmentWithDecryptedData } from "@/types/investment";
+import { InvestmentWithDecryptedData, LoanTerms } from "@/types/investment";
+import {
+  calculateInvestmentPosition,
+  getInvestmentTransactions,
+  getPositionInvestmentData,
+  getPriceHistory,
+} from "@/utils/investmentUtils";
+import { buildLoanSchedule } from "@/utils/loanUtils";
 
 export type InvestmentDetails = Omit<
   InvestmentWithDecryptedData,
@@ -26,6 +33,14 @@ export interface InvestmentStats {
   estimatedTaxRate: number;
 }
 
+export interface PeriodReturn {
+  total: number; // Return over the whole period, 0.1 = 10%
+  annualized: number | null; // Only for periods of a year or more
+  startDate: string;
+  endDate: string;
+  days: number;
+}
+
 export interface TypeBreakdown {
   [key: string]: {
     value: number;
@@ -46,6 +61,12 @@ const applyTax = (amount: number, taxRatePercent: number | null): number => {
   return amount * (1 - taxRatePercent / 100);
 };
 
+/**
+ * Cost basis of the units still held, derived from the ledger.
+ */
+const getInvestedValue = (investment: InvestmentDetails): number =>
+  calculateInvestmentPosition(investment.data).costBasis;
+
 /**
  * Calculate lifetime dividends and interest earned after tax.
  */
@@ -61,9 +82,13 @@ export const calculateDividendsInterestEarned = (
     taxation = 0,
     purchase_date,
     type,
-  } = investment.data;
+  } = getPositionInvestmentData(investment.data);
+  const { dividends: recordedDividends } = calculateInvestmentPosition(
+    investment.data,
+  );
 
-  if (quantity === 0 || purchase_price === 0) return 0;
+  if ((quantity === 0 || purchase_price === 0) && recordedDividends === 0)
+    return 0;
 
   const currPrice = current_price ?? purchase_price;
 
@@ -83,7 +108,10 @@ export const calculateDividendsInterestEarned = (
       initialValue * (interest_rate / 100) * yearsSincePurchase;
   }
 
-  if (["stock", "etf"].includes(type)) {
+  // Dividends recorded in the ledger replace the yield-based estimate
+  if (recordedDividends > 0) {
+    dividendsInterest += recordedDividends;
+  } else if (["stock", "etf"].includes(type)) {
     if (dividend_yield && dividend_yield > 0) {
       const currentValue = quantity * currPrice;
       dividendsInterest +=
@@ -108,7 +136,7 @@ export const calculateYearlyDividendInterest = (
     dividend_yield = 0,
     taxation = 0,
     type,
-  } = investment.data;
+  } = getPositionInvestmentData(investment.data);
 
   if (quantity === 0 || purchase_price === 0) return 0;
 
@@ -142,7 +170,7 @@ export const calculateYearlyCapitalGains = (
     purchase_date,
     maturity_date,
     type,
-  } = investment.data;
+  } = getPositionInvestmentData(investment.data);
 
   if (quantity === 0 || purchase_price === 0) return 0;
 
@@ -206,7 +234,11 @@ export const calculateYearlyCapitalGains = (
 export const calculateCurrentValue = (
   investment: InvestmentDetails,
 ): number => {
-  const { quantity = 0, current_price, purchase_price = 0 } = investment.data;
+  const {
+    quantity = 0,
+    current_price,
+    purchase_price = 0,
+  } = getPositionInvestmentData(investment.data);
   const currPrice = current_price ?? purchase_price;
 
   return quantity * currPrice;
@@ -229,7 +261,7 @@ export const calculateEstimatedYearlyGainLoss = (
     purchase_date,
     maturity_date,
     type,
-  } = investment.data;
+  } = getPositionInvestmentData(investment.data);
 
   if (quantity === 0 || purchase_price === 0)
     return { absolute: 0, percentage: 0 };
@@ -290,6 +322,198 @@ export const calculateEstimatedYearlyGainLoss = (
   };
 };
 
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const toPeriodReturn = (
+  total: number,
+  startDate: string,
+  endDate: string,
+): PeriodReturn => {
+  const days = (Date.parse(endDate) - Date.parse(startDate)) / DAY_MS;
+  return {
+    total,
+    annualized: days >= 365 ? Math.pow(1 + total, 365.25 / days) - 1 : null,
+    startDate,
+    endDate,
+    days,
+  };
+};
+
+/**
+ * Time-weighted return from the recorded price history: the growth of one
+ * unit between consecutive prices, chained over the periods the position was
+ * held, so buys and sells do not distort it. Dividends and standalone fees
+ * count as income of the period they fall in unless `includeIncome` is off.
+ */
+export const calculateTimeWeightedReturn = (
+  investment: InvestmentDetails,
+  options: { startDate?: string | null; includeIncome?: boolean } = {},
+): PeriodReturn | null => {
+  const { startDate, includeIncome = true } = options;
+  const history = getPriceHistory(investment.data);
+  const transactions = getInvestmentTransactions(investment.data);
+
+  let units = 0;
+  let growth = 1;
+  let income = 0;
+  let transactionIndex = 0;
+  let previous: { date: string; price: number } | null = null;
+  let firstDate: string | null = null;
+  let lastDate: string | null = null;
+
+  for (const point of history) {
+    const trades: typeof transactions = [];
+    while (
+      transactionIndex < transactions.length &&
+      transactions[transactionIndex].date.split("T")[0] <= point.date
+    ) {
+      const transaction = transactions[transactionIndex++];
+      if (transaction.type === "dividend") income += transaction.amount || 0;
+      else if (transaction.type === "fee") income -= transaction.amount || 0;
+      else trades.push(transaction);
+    }
+
+    const inRange = !startDate || point.date > startDate;
+    if (inRange && previous && units > 0 && previous.price > 0) {
+      const endValue = units * point.price + (includeIncome ? income : 0);
+      growth *= endValue / (units * previous.price);
+      firstDate = firstDate ?? previous.date;
+      lastDate = point.date;
+    }
+    income = 0;
+
+    trades.forEach((trade) => {
+      units += trade.type === "buy" ? trade.quantity : -trade.quantity;
+    });
+    units = Math.max(units, 0);
+    previous = point;
+  }
+
+  if (!firstDate || !lastDate || !isFinite(growth)) return null;
+  return toPeriodReturn(growth - 1, firstDate, lastDate);
+};
+
+/**
+ * Solves the annual rate at which the dated cash flows sum to zero (XIRR).
+ * Newton's method first, bisection when it does not converge.
+ */
+const solveIrr = (flows: { date: string; amount: number }[]): number | null => {
+  if (
+    !flows.some((flow) => flow.amount > 0) ||
+    !flows.some((flow) => flow.amount < 0)
+  ) {
+    return null;
+  }
+
+  const start = Date.parse(flows[0].date);
+  const years = flows.map(
+    (flow) => (Date.parse(flow.date) - start) / DAY_MS / 365.25,
+  );
+  const npv = (rate: number) =>
+    flows.reduce(
+      (sum, flow, i) => sum + flow.amount / Math.pow(1 + rate, years[i]),
+      0,
+    );
+
+  let rate = 0.1;
+  for (let i = 0; i < 50; i++) {
+    const value = npv(rate);
+    const derivative = flows.reduce(
+      (sum, flow, j) =>
+        sum - (years[j] * flow.amount) / Math.pow(1 + rate, years[j] + 1),
+      0,
+    );
+    if (!isFinite(value) || !isFinite(derivative) || derivative === 0) break;
+    const next = rate - value / derivative;
+    if (Math.abs(next - rate) < 1e-9) return next;
+    if (next <= -0.9999) break;
+    rate = next;
+  }
+
+  let low = -0.9999;
+  let high = 100;
+  if (npv(low) * npv(high) > 0) return null;
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    if (npv(low) * npv(mid) <= 0) high = mid;
+    else low = mid;
+  }
+  return (low + high) / 2;
+};
+
+/**
+ * Money-weighted return (internal rate of return) of the actual cash flows:
+ * buys, sells, dividends and fees from the ledger, with the position valued
+ * at the latest recorded price. With a start date the position held then
+ * counts as bought at that day's price.
+ */
+export const calculateMoneyWeightedReturn = (
+  investment: InvestmentDetails,
+  options: { startDate?: string | null } = {},
+): PeriodReturn | null => {
+  const { startDate } = options;
+  const history = getPriceHistory(investment.data);
+  if (history.length === 0) return null;
+
+  const priceOn = (date: string) =>
+    [...history].reverse().find((point) => point.date <= date)?.price ??
+    history[0].price;
+
+  const flows: { date: string; amount: number }[] = [];
+  let units = 0;
+  let openingUnits = 0;
+
+  getInvestmentTransactions(investment.data).forEach((transaction) => {
+    const date = transaction.date.split("T")[0];
+    const fees = transaction.fees || 0;
+    const isBeforeStart = !!startDate && date <= startDate;
+
+    if (transaction.type === "buy" || transaction.type === "sell") {
+      const quantity =
+        transaction.type === "buy"
+          ? transaction.quantity
+          : -transaction.quantity;
+      units = Math.max(units + quantity, 0);
+      if (isBeforeStart) {
+        openingUnits = units;
+        return;
+      }
+      const amount = transaction.quantity * transaction.price;
+      flows.push({
+        date,
+        amount: transaction.type === "buy" ? -(amount + fees) : amount - fees,
+      });
+    } else if (!isBeforeStart) {
+      const amount = transaction.amount || 0;
+      flows.push({
+        date,
+        amount: transaction.type === "dividend" ? amount : -amount,
+      });
+    }
+  });
+
+  if (startDate && openingUnits > 0) {
+    flows.unshift({
+      date: startDate,
+      amount: -openingUnits * priceOn(startDate),
+    });
+  }
+
+  const last = history[history.length - 1];
+  if (flows.length === 0 || last.date <= flows[0].date) return null;
+  flows.push({ date: last.date, amount: units * last.price });
+
+  const rate = solveIrr(flows);
+  if (rate === null || !isFinite(rate)) return null;
+
+  const period = toPeriodReturn(0, flows[0].date, last.date);
+  return {
+    ...period,
+    total: Math.pow(1 + rate, period.days / 365.25) - 1,
+    annualized: period.days >= 365 ? rate : null,
+  };
+};
+
 /**
  * Calculate CAGR (Compound Annual Growth Rate) for capital gains only.
  * Caps values for very short holdings.
@@ -302,10 +526,22 @@ export const calculateCAGR = (
     purchase_price = 0,
     current_price,
     purchase_date,
-  } = investment.data;
+  } = getPositionInvestmentData(investment.data);
 
   if (quantity === 0 || purchase_price === 0) return 0;
 
+  // Recorded prices show the real path, later buys included
+  if (investment.data.price_history?.length) {
+    const priceReturn = calculateTimeWeightedReturn(investment, {
+      includeIncome: false,
+    });
+    if (priceReturn && priceReturn.days >= 30) {
+      const years = Math.max(priceReturn.days / 365.25, 0.1);
+      const cagr = Math.pow(1 + priceReturn.total, 1 / years) - 1;
+      return Math.max(-0.95, Math.min(10, cagr));
+    }
+  }
+
   const currPrice = current_price ?? purchase_price;
   const initialValue = quantity * purchase_price;
   const currentValue = quantity * currPrice;
@@ -347,7 +583,7 @@ export const calculateExpectedYearlyYield = (
     purchase_date,
     maturity_date,
     taxation = 0,
-  } = investment.data;
+  } = getPositionInvestmentData(investment.data);
 
   if (type === "bond") {
     if (interest_rate && interest_rate > 0) {
@@ -424,7 +660,7 @@ export const calculateIndividualROI = (
     maturity_date,
     interest_rate = 0,
     type,
-  } = investment.data;
+  } = getPositionInvestmentData(investment.data);
 
   if (quantity === 0 || purchase_price === 0) return null;
 
@@ -495,11 +731,10 @@ export const calculateYearlyROI = (
   let totalInitialValue = 0;
 
   for (const investment of investments) {
-    const { quantity = 0, purchase_price = 0 } = investment.data;
+    const initialValue = getInvestedValue(investment);
 
-    if (quantity === 0 || purchase_price === 0) continue;
+    if (initialValue === 0) continue;
 
-    const initialValue = quantity * purchase_price;
     const cagr = calculateCAGR(investment);
 
     if (Math.abs(cagr) > 2.0) continue;
@@ -543,8 +778,7 @@ export const calculateInvestmentStatistics = (
   }
 
   const totalInvested = investments.reduce(
-    (sum, inv) =>
-      sum + (inv.data.quantity || 0) * (inv.data.purchase_price || 0),
+    (sum, inv) => sum + getInvestedValue(inv),
     0,
   );
 
@@ -567,7 +801,7 @@ export const calculateInvestmentStatistics = (
   let totalWeight = 0;
 
   investments.forEach((inv) => {
-    const invested = (inv.data.quantity || 0) * (inv.data.purchase_price || 0);
+    const invested = getInvestedValue(inv);
     if (invested > 0) {
       const cagr = calculateCAGR(inv);
       totalWeightedCAGR += cagr * invested;
@@ -592,8 +826,7 @@ export const calculateInvestmentStatistics = (
   const typeBreakdown: TypeBreakdown = investments.reduce((acc, inv) => {
     const type = inv.data.type || "other";
     const returns = calculateIndividualInvestmentReturns(inv);
-    const investedAmount =
-      (inv.data.quantity || 0) * (inv.data.purchase_price || 0);
+    const investedAmount = getInvestedValue(inv);
 
     if (!acc[type]) {
       acc[type] = {
@@ -630,7 +863,7 @@ export const calculateInvestmentStatistics = (
   let totalYearlyWeight = 0;
 
   investments.forEach((inv) => {
-    const invested = (inv.data.quantity || 0) * (inv.data.purchase_price || 0);
+    const invested = getInvestedValue(inv);
     if (invested > 0) {
       const yearlyGain = calculateEstimatedYearlyGainLoss(inv);
       totalYearlyGain += yearlyGain.absolute;
@@ -660,7 +893,7 @@ export const calculateInvestmentStatistics = (
   let avgTaxRate = 0;
   let totalTaxWeight = 0;
   investments.forEach((inv) => {
-    const invested = (inv.data.quantity || 0) * (inv.data.purchase_price || 0);
+    const invested = getInvestedValue(inv);
     const taxRate = inv.data.taxation || 0;
     if (invested > 0) {
       avgTaxRate += taxRate * invested;
@@ -758,14 +991,75 @@ export const generateProjectionData = (
   return data;
 };
 
+export interface LoanPayoffComparison {
+  payoffDate: string | null; // With the extra payments
+  monthsSaved: number;
+  interestSaved: number;
+  payoffValue: number; // Paying early, then investing the freed-up instalments
+  investValue: number; // Investing the extra every month instead
+}
+
+/**
+ * Compares paying `extraMonthly` more on a loan against investing it at
+ * `yearlyROI`. Both plans spend the same each month until the original
+ * payoff date, where the portfolios are valued.
+ */
+export const compareLoanPayoffWithInvesting = (
+  terms: LoanTerms,
+  extraMonthly: number,
+  yearlyROI: number,
+  today: string = new Date().toISOString().split("T")[0],
+): LoanPayoffComparison => {
+  const plain = buildLoanSchedule(terms).filter((row) => row.date > today);
+  const early = buildLoanSchedule(terms, {
+    monthly: extraMonthly,
+    after: today,
+  }).filter((row) => row.date > today);
+  const endDate = plain.length > 0 ? plain[plain.length - 1].date : today;
+  const yearsUntilEnd = (date: string) =>
+    (Date.parse(endDate) - Date.parse(date)) / (1000 * 60 * 60 * 24 * 365.25);
+
+  let payoffValue = 0;
+  let investValue = 0;
+  plain.forEach((row) => {
+    const budget = row.payment + row.extra + extraMonthly;
+    const earlyRow = early.find((item) => item.date === row.date);
+    const spent = earlyRow ? earlyRow.payment + earlyRow.extra : 0;
+    payoffValue += calculateProjectedValueWithComposition(
+      Math.max(budget - spent, 0),
+      yearlyROI,
+      yearsUntilEnd(row.date),
+    );
+    investValue += calculateProjectedValueWithComposition(
+      extraMonthly,
+      yearlyROI,
+      yearsUntilEnd(row.date),
+    );
+  });
+
+  const sumInterest = (rows: { interest: number }[]) =>
+    rows.reduce((sum, row) => sum + row.interest, 0);
+
+  return {
+    payoffDate: early.length > 0 ? early[early.length - 1].date : null,
+    monthsSaved: plain.length - early.length,
+    interestSaved: sumInterest(plain) - sumInterest(early),
+    payoffValue,
+    investValue,
+  };
+};
+
 /**
  * Calculate all returns (total value, gain/loss, dividends, yearly estimates) for a single investment.
  */
 export const calculateIndividualInvestmentReturns = (
   investment: InvestmentDetails,
 ) => {
-  const { quantity = 0, purchase_price = 0, taxation = 0 } = investment.data;
-  const totalInvested = quantity * purchase_price;
+  const { taxation = 0 } = investment.data;
+  const position = calculateInvestmentPosition(investment.data);
+  // A fully sold position is measured against what was originally bought
+  const totalInvested =
+    position.costBasis > 0 ? position.costBasis : position.totalBoughtCost;
 
   if (totalInvested === 0) {
     return {
@@ -781,7 +1075,11 @@ export const calculateIndividualInvestmentReturns = (
   }
 
   const currentValue = calculateCurrentValue(investment);
-  const baseGainLoss = currentValue - totalInvested;
+  const baseGainLoss =
+    currentValue -
+    position.costBasis +
+    position.realizedGainLoss -
+    position.fees;
 
   const afterTaxBaseGainLoss =
     baseGainLoss > 0
@@ -0,0 +1,242 @@
+import { ExpenseGroupWithDecryptedData } from "@/types/expense";
+import { calculateUserShareInCurrency } from "@/types/expense";
+import { InvestmentWithDecryptedData } from "@/types/investment";
+import { PortfolioWithDecryptedData } from "@/types/portfolio";
+import { GoalFundingSource, SavingsGoal } from "@/types/profile";
+import { ExchangeRateTable, getCrossRate } from "@/utils/exchangeRateUtils";
+import {
+  calculateCurrentValue,
+  calculateExpectedFutureValue,
+  generateProjectionData,
+} from "@/utils/financeUtils";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MONTH_DAYS = 365.25 / 12;
+
+export const GOAL_ICONS = [
+  "home-outline",
+  "airplane-outline",
+  "car-outline",
+  "school-outline",
+  "heart-outline",
+  "gift-outline",
+  "umbrella-outline",
+  "flag-outline",
+];
+
+// Holdings that can fund a goal on their own, next to whole portfolios
+export const GOAL_HOLDING_TYPES = ["savingsAccount", "checkingAccount"];
+
+export type GoalSourceValue = {
+  source: GoalFundingSource;
+  value: number; // Today, in the goal currency
+  future_value: number; // Expected at the deadline, in the goal currency
+  missing: boolean; // The portfolio, holding or group is no longer available
+};
+
+export type GoalProgress = {
+  current: number;
+  progress: number; // Percent of the target already saved
+  months_left: number;
+  expected_return: number; // Yearly, as a fraction, implied by the invested sources
+  projected: number; // Expected at the deadline with the planned contributions
+  on_track: boolean;
+  required_monthly: number; // Contribution per month that reaches the target
+  projection: { year: number; value: number }[];
+  sources: GoalSourceValue[];
+};
+
+/**
+ * Value of a set of holdings today and at the deadline, converted into
+ * `currency`
+ */
+const valueInvestments = (
+  investments: InvestmentWithDecryptedData[],
+  share: number,
+  currency: string,
+  table: ExchangeRateTable,
+  years: number,
+) =>
+  investments.reduce(
+    (totals, investment) => {
+      const rate =
+        (getCrossRate(investment.data.currency, currency, table) ?? 1) *
+        (share / 100);
+      return {
+        value: totals.value + calculateCurrentValue(investment) * rate,
+        future_value:
+          totals.future_value +
+          calculateExpectedFutureValue(investment, years) * rate,
+      };
+    },
+    { value: 0, future_value: 0 },
+  );
+
+/**
+ * Current and expected value of each funding source of a goal. Expense
+ * groups count the user's share of their expenses and do not grow.
+ */
+export const getGoalSourceValues = (
+  goal: SavingsGoal,
+  portfolios: PortfolioWithDecryptedData[],
+  expensesGroups: ExpenseGroupWithDecryptedData[],
+  userId: string,
+  table: ExchangeRateTable,
+  years: number,
+): GoalSourceValue[] =>
+  goal.sources.map((source) => {
+    switch (source.kind) {
+      case "portfolio": {
+        const portfolio = portfolios.find(
+          (item) => item.id === source.portfolio_id,
+        );
+        return {
+          source,
+          missing: !portfolio,
+          ...valueInvestments(
+            portfolio?.investments || [],
+            source.share,
+            goal.currency,
+            table,
+            years,
+          ),
+        };
+      }
+      case "investment": {
+        const investment = portfolios
+          .find((item) => item.id === source.portfolio_id)
+          ?.investments.find((item) => item.id === source.investment_id);
+        return {
+          source,
+          missing: !investment,
+          ...valueInvestments(
+            investment ? [investment] : [],
+            source.share,
+            goal.currency,
+            table,
+            years,
+          ),
+        };
+      }
+      case "expenseGroup": {
+        const group = expensesGroups.find(
+          (item) => item.id === source.group_id,
+        );
+        const value = (group?.expenses || [])
+          .filter((expense) => expense.data.status !== "deleted")
+          .reduce(
+            (sum, expense) =>
+              sum +
+              calculateUserShareInCurrency(
+                expense,
+                userId,
+                goal.currency,
+                group?.data.currency,
+                table,
+              ),
+            0,
+          );
+        return { source, missing: !group, value, future_value: value };
+      }
+    }
+  });
+
+/**
+ * Expense groups the goals are funded by. Their value counts every deposit,
+ * so the groups must be loaded beyond the default months first.
+ */
+export const getGoalExpenseGroupIds = (goals: SavingsGoal[]): string[] => [
+  ...new Set(
+    goals.flatMap((goal) =>
+      goal.sources.flatMap((source) =>
+        source.kind === "expenseGroup" ? [source.group_id] : [],
+      ),
+    ),
+  ),
+];
+
+// Value after `months` monthly deposits of 1 growing at `monthlyRate`
+const annuityFactor = (months: number, monthlyRate: number) =>
+  Math.abs(monthlyRate) < 1e-9
+    ? months
+    : (Math.pow(1 + monthlyRate, months) - 1) / monthlyRate;
+
+/**
+ * Whether the goal is on track: what its sources are expected to be worth at
+ * the deadline, plus the planned monthly contributions, against the target
+ */
+export const calculateGoalProgress = (
+  goal: SavingsGoal,
+  portfolios: PortfolioWithDecryptedData[],
+  expensesGroups: ExpenseGroupWithDecryptedData[],
+  userId: string,
+  table: ExchangeRateTable,
+  today: string,
+): GoalProgress => {
+  const monthsLeft = Math.max(
+    Math.floor(
+      (Date.parse(goal.deadline) - Date.parse(today)) / DAY_MS / MONTH_DAYS,
+    ),
+    0,
+  );
+  const years = monthsLeft / 12;
+  const sources = getGoalSourceValues(
+    goal,
+    portfolios,
+    expensesGroups,
+    userId,
+    table,
+    years,
+  );
+
+  const current = sources.reduce((sum, item) => sum + item.value, 0);
+  const futureSources = sources.reduce(
+    (sum, item) => sum + item.future_value,
+    0,
+  );
+
+  // Yearly return implied by the invested sources, also applied to deposits
+  const expectedReturn =
+    current > 0 && years > 0
+      ? Math.pow(futureSources / current, 1 / years) - 1
+      : 0;
+  const monthlyRate = Math.pow(1 + expectedReturn, 1 / 12) - 1;
+  const contribution = goal.monthly_contribution || 0;
+
+  const projected =
+    futureSources + contribution * annuityFactor(monthsLeft, monthlyRate);
+  const shortfall = goal.target_amount - futureSources;
+  const requiredMonthly =
+    shortfall <= 0
+      ? 0
+      : monthsLeft > 0
+        ? shortfall / annuityFactor(monthsLeft, monthlyRate)
+        : shortfall;
+
+  const projection = generateProjectionData(
+    current,
+    expectedReturn,
+    Math.max(Math.ceil(years), 1),
+  ).map((point, index) => ({
+    year: point.year,
+    value:
+      point.value +
+      contribution *
+        annuityFactor(Math.min(index * 12, monthsLeft), monthlyRate),
+  }));
+
+  return {
+    current,
+    progress:
+      goal.target_amount > 0
+        ? Math.min((current / goal.target_amount) * 100, 100)
+        : 0,
+    months_left: monthsLeft,
+    expected_return: expectedReturn,
+    projected,
+    on_track: projected >= goal.target_amount,
+    required_monthly: requiredMonthly,
+    projection,
+    sources,
+  };
+};
@@ -2,6 +2,20 @@
  * Utility functions for investment-related operations
  */
 
+import {
+  InvestmentData,
+  InvestmentPricePoint,
+  InvestmentPriceSource,
+  InvestmentTransaction,
+  PriceHistoryRange,
+} from "@/types/investment";
+import { getLoanBalance } from "@/utils/loanUtils";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Older prices are thinned to one per week to keep the encrypted record small
+const DAILY_PRICE_HISTORY_DAYS = 730;
+
 // Helper function to safely extract date part from ISO string
 const getDatePart = (isoString: string | null | undefined): string | null => {
   if (!isoString || typeof isoString !== "string") return null;
@@ -28,3 +42,342 @@ export const isPriceUpdateFailed = (
 
   return tentativeDate === today && updateDate !== null && updateDate < today;
 };
+
+// Investment types whose payouts are interest rather than dividends
+const INTEREST_INVESTMENT_TYPES = [
+  "bond",
+  "certificate",
+  "checkingAccount",
+  "savingsAccount",
+];
+
+/**
+ * Whether payouts of this investment type are interest (coupons) rather than
+ * dividends
+ */
+export const isInterestInvestment = (type: string): boolean =>
+  INTEREST_INVESTMENT_TYPES.includes(type);
+
+/**
+ * Whether the holding is a loan, valued at minus its outstanding balance
+ */
+export const isDebtInvestment = (type: string): boolean => type === "debt";
+
+export type InvestmentLot = {
+  transaction_id: string;
+  date: string;
+  quantity: number; // Units still held from this buy
+  unit_cost: number; // Purchase price per unit, buy fees included
+};
+
+export type InvestmentPosition = {
+  quantity: number;
+  averageCost: number;
+  costBasis: number;
+  totalBoughtCost: number;
+  realizedGainLoss: number;
+  dividends: number;
+  fees: number; // Standalone fees, buy and sell fees are part of cost and proceeds
+  firstPurchaseDate: string | null;
+  lots: InvestmentLot[];
+};
+
+const compareTransactions = (
+  a: InvestmentTransaction,
+  b: InvestmentTransaction,
+): number => {
+  const dateDiff = new Date(a.date).getTime() - new Date(b.date).getTime();
+  if (dateDiff !== 0) return dateDiff;
+  // Same day: buys first, so a sell never runs ahead of the lot it closes
+  const order = { buy: 0, dividend: 1, fee: 1, sell: 2 };
+  return order[a.type] - order[b.type];
+};
+
+/**
+ * Returns the ledger of an investment in chronological order.
+ * Investments saved before the ledger existed get a single buy built from
+ * their purchase fields, so every calculation can rely on transactions.
+ * Loans are valued with their balance on `date`, today by default.
+ */
+export const getInvestmentTransactions = (
+  data: InvestmentData,
+  date: string = new Date().toISOString().split("T")[0],
+): InvestmentTransaction[] => {
+  // Loans are not traded: one unit priced at minus the balance
+  if (isDebtInvestment(data.type)) {
+    const balance = data.loan ? getLoanBalance(data.loan, date) : 0;
+    if (balance <= 0) return [];
+    return [
+      {
+        id: "initial",
+        type: "buy",
+        date: data.purchase_date,
+        quantity: 1,
+        price: -balance,
+        fees: null,
+        notes: null,
+      },
+    ];
+  }
+
+  if (data.transactions && data.transactions.length > 0) {
+    return [...data.transactions].sort(compareTransactions);
+  }
+
+  if (!data.quantity || !data.purchase_price) return [];
+
+  return [
+    {
+      id: "initial",
+      type: "buy",
+      date: data.purchase_date,
+      quantity: data.quantity,
+      price: data.purchase_price,
+      fees: null,
+      notes: null,
+    },
+  ];
+};
+
+/**
+ * First sell of the ledger selling more units than were held on its date,
+ * if any
+ */
+export const findOversoldTransaction = (
+  transactions: InvestmentTransaction[],
+): InvestmentTransaction | null => {
+  let held = 0;
+  for (const transaction of [...transactions].sort(compareTransactions)) {
+    const quantity = Math.max(transaction.quantity || 0, 0);
+    if (transaction.type === "buy") held += quantity;
+    if (transaction.type === "sell") {
+      held -= quantity;
+      if (held < -1e-9) return transaction;
+    }
+  }
+  return null;
+};
+
+/**
+ * Derives the open position from the ledger.
+ * Sells close the oldest lots first (FIFO); realized gains are net of fees.
+ */
+export const calculateInvestmentPosition = (
+  data: InvestmentData,
+): InvestmentPosition => {
+  const lots: InvestmentLot[] = [];
+  let totalBoughtCost = 0;
+  let realizedGainLoss = 0;
+  let dividends = 0;
+  let fees = 0;
+
+  for (const transaction of getInvestmentTransactions(data)) {
+    const quantity = Math.max(transaction.quantity || 0, 0);
+    const price = transaction.price || 0;
+    const transactionFees = transaction.fees || 0;
+
+    switch (transaction.type) {
+      case "buy": {
+        if (quantity === 0) break;
+        const cost = quantity * price + transactionFees;
+        totalBoughtCost += cost;
+        lots.push({
+          transaction_id: transaction.id,
+          date: transaction.date,
+          quantity,
+          unit_cost: cost / quantity,
+        });
+        break;
+      }
+      case "sell": {
+        let remaining = quantity;
+        let closedCost = 0;
+        let closedQuantity = 0;
+        while (remaining > 0 && lots.length > 0) {
+          const lot = lots[0];
+          const used = Math.min(lot.quantity, remaining);
+          closedCost += used * lot.unit_cost;
+          closedQuantity += used;
+          lot.quantity -= used;
+          remaining -= used;
+          if (lot.quantity <= 1e-9) lots.shift();
+        }
+        // Units sold beyond what the ledger holds are ignored
+        realizedGainLoss +=
+          closedQuantity * price - transactionFees - closedCost;
+        break;
+      }
+      case "dividend":
+        dividends += transaction.amount || 0;
+        break;
+      case "fee":
+        fees += transaction.amount || 0;
+        break;
+    }
+  }
+
+  const openQuantity = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+  const costBasis = lots.reduce(
+    (sum, lot) => sum + lot.quantity * lot.unit_cost,
+    0,
+  );
+
+  return {
+    quantity: openQuantity,
+    averageCost: openQuantity > 0 ? costBasis / openQuantity : 0,
+    costBasis,
+    totalBoughtCost,
+    realizedGainLoss,
+    dividends,
+    fees,
+    firstPurchaseDate: lots.length > 0 ? lots[0].date : null,
+    lots,
+  };
+};
+
+/**
+ * Returns the investment data with quantity, purchase price and purchase date
+ * taken from the open lots, so code written for a single purchase keeps working.
+ * Loans keep their value at minus the balance, without gains or income.
+ */
+export const getPositionInvestmentData = (
+  data: InvestmentData,
+): InvestmentData => {
+  if (isDebtInvestment(data.type)) {
+    const position = calculateInvestmentPosition(data);
+    return {
+      ...data,
+      quantity: position.quantity,
+      purchase_price: position.averageCost,
+      current_price: position.averageCost,
+      interest_rate: null,
+      dividend_yield: null,
+    };
+  }
+
+  if (!data.transactions || data.transactions.length === 0) return data;
+
+  const position = calculateInvestmentPosition(data);
+  return {
+    ...data,
+    quantity: position.quantity,
+    purchase_price: position.averageCost,
+    purchase_date: position.firstPurchaseDate || data.purchase_date,
+  };
+};
+
+/**
+ * Keeps every price of the last two years and the last price of each week
+ * before that.
+ */
+const compactPriceHistory = (
+  history: InvestmentPricePoint[],
+  today: string,
+): InvestmentPricePoint[] => {
+  const cutoff = Date.parse(today) - DAILY_PRICE_HISTORY_DAYS * DAY_MS;
+  const weekly = new Map<number, InvestmentPricePoint>();
+  const recent: InvestmentPricePoint[] = [];
+
+  history.forEach((point) => {
+    const time = Date.parse(point.date);
+    if (time >= cutoff) {
+      recent.push(point);
+    } else {
+      weekly.set(Math.floor(time / (7 * DAY_MS)), point);
+    }
+  });
+
+  return [...weekly.values(), ...recent];
+};
+
+/**
+ * Stores the price of a day in the investment's history, replacing any
+ * price already recorded for that date.
+ */
+export const recordPricePoint = (
+  data: InvestmentData,
+  price: number | null | undefined,
+  date: string,
+  source: Exclude<InvestmentPriceSource, "trade">,
+): InvestmentData => {
+  if (!price || !isFinite(price) || price <= 0) return data;
+
+  const day = date.split("T")[0];
+  const history = (data.price_history || [])
+    .filter((point) => point.date !== day)
+    .concat({ date: day, price, source })
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  return { ...data, price_history: compactPriceHistory(history, day) };
+};
+
+/**
+ * Daily price series of an investment: recorded prices, completed with the
+ * prices of buys and sells from the ledger and the current price.
+ */
+export const getPriceHistory = (
+  data: InvestmentData,
+): InvestmentPricePoint[] => {
+  const byDate = new Map<string, InvestmentPricePoint>();
+
+  getInvestmentTransactions(data).forEach((transaction) => {
+    if (
+      (transaction.type === "buy" || transaction.type === "sell") &&
+      transaction.price > 0
+    ) {
+      const date = transaction.date.split("T")[0];
+      byDate.set(date, { date, price: transaction.price, source: "trade" });
+    }
+  });
+
+  (data.price_history || []).forEach((point) => byDate.set(point.date, point));
+
+  const currentDate = getDatePart(data.last_updated);
+  if (data.current_price && currentDate && !byDate.has(currentDate)) {
+    byDate.set(currentDate, {
+      date: currentDate,
+      price: data.current_price,
+      source: "manual",
+    });
+  }
+
+  return [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * First day shown for a chart range, or null for the whole history
+ */
+export const getPriceHistoryRangeStart = (
+  range: PriceHistoryRange,
+  today: string = new Date().toISOString().split("T")[0],
+): string | null => {
+  const months = { "1M": 1, "6M": 6, "1Y": 12, max: 0 }[range];
+  if (!months) return null;
+
+  const [year, month, day] = today.split("-").map(Number);
+  const lastDay = new Date(Date.UTC(year, month - 1 - months + 1, 0));
+  const start = new Date(
+    Date.UTC(year, month - 1 - months, Math.min(day, lastDay.getUTCDate())),
+  );
+  return start.toISOString().split("T")[0];
+};
+
+/**
+ * Points of a range. The last price before the range is carried to its
+ * first day, so the line starts where the range does.
+ */
+export const filterPriceHistory = (
+  history: InvestmentPricePoint[],
+  range: PriceHistoryRange,
+  today?: string,
+): InvestmentPricePoint[] => {
+  const start = getPriceHistoryRangeStart(range, today);
+  if (!start) return history;
+
+  const inRange = history.filter((point) => point.date >= start);
+  const before = history.filter((point) => point.date < start).pop();
+  if (before && (inRange.length === 0 || inRange[0].date > start)) {
+    return [{ ...before, date: start }, ...inRange];
+  }
+  return inRange;
+};
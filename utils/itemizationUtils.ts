@@ -0,0 +1,88 @@
+import {
+  ExpenseItemization,
+  ExpenseLineItem,
+  ExpenseParticipant,
+} from "@/types/expense";
+import { roundCents } from "@/utils/currencyUtils";
+import { allocateAmount } from "@/utils/splitUtils";
+
+export const createEmptyItemization = (): ExpenseItemization => ({
+  items: [],
+  tax: 0,
+  tip: 0,
+  service_charge: 0,
+});
+
+export const getLineItemTotal = (item: ExpenseLineItem): number =>
+  roundCents(item.price * item.quantity);
+
+export const getItemizationSubtotal = (
+  itemization: ExpenseItemization,
+): number =>
+  roundCents(
+    itemization.items.reduce((sum, item) => sum + getLineItemTotal(item), 0),
+  );
+
+export const getItemizationExtras = (itemization: ExpenseItemization): number =>
+  roundCents(itemization.tax + itemization.tip + itemization.service_charge);
+
+/**
+ * Amount of the whole bill, items plus tax, tip and service charge
+ */
+export const getItemizationTotal = (itemization: ExpenseItemization): number =>
+  roundCents(
+    getItemizationSubtotal(itemization) + getItemizationExtras(itemization),
+  );
+
+/**
+ * Items that still need someone to pay for them among `memberIds`
+ */
+export const getUnassignedItems = (
+  itemization: ExpenseItemization,
+  memberIds: string[],
+): ExpenseLineItem[] =>
+  itemization.items.filter(
+    (item) => !item.participant_ids.some((id) => memberIds.includes(id)),
+  );
+
+/**
+ * Share of each member in an itemized bill. Items are split equally among
+ * their participants; tax, tip and service charge follow each member's item
+ * subtotal. Shares are allocated in whole cents and add up to the total.
+ */
+export const calculateItemizedShares = (
+  itemization: ExpenseItemization,
+  members: Pick<ExpenseParticipant, "user_id" | "username">[],
+): ExpenseParticipant[] => {
+  const subtotals = new Map<string, number>();
+  itemization.items.forEach((item) => {
+    const sharers = item.participant_ids.filter((id) =>
+      members.some((member) => member.user_id === id),
+    );
+    if (sharers.length === 0) return;
+    const perSharer = getLineItemTotal(item) / sharers.length;
+    sharers.forEach((id) =>
+      subtotals.set(id, (subtotals.get(id) || 0) + perSharer),
+    );
+  });
+
+  const sharing = members.filter(
+    (member) => (subtotals.get(member.user_id) || 0) > 0,
+  );
+  if (sharing.length === 0) return [];
+
+  const assigned = sharing.reduce(
+    (sum, member) => sum + (subtotals.get(member.user_id) || 0),
+    0,
+  );
+  const amounts = allocateAmount(
+    roundCents(assigned + getItemizationExtras(itemization)),
+    sharing.map((member) => subtotals.get(member.user_id) || 0),
+  );
+
+  return sharing.map((member, index) => ({
+    user_id: member.user_id,
+    username: member.username,
+    share_amount: amounts[index],
+  }));
+};
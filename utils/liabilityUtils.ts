@@ -0,0 +1,135 @@
+import {
+  AmortizationRow,
+  LiabilityBalanceEntry,
+  LiabilityData,
+  LiabilityWithDecryptedData,
+} from "@/types/liability";
+import { amortize } from "@/utils/amortizationUtils";
+import { ExchangeRateTable, getCrossRate } from "@/utils/exchangeRateUtils";
+
+// Schedules stop after this many months, e.g. when the payment barely
+// covers the interest
+const MAX_SCHEDULE_MONTHS = 600;
+
+/**
+ * Monthly schedule from the balance on `from` until the liability is repaid.
+ * Empty without a payment, or when the payment does not cover the interest.
+ */
+export const buildAmortizationSchedule = (
+  data: LiabilityData,
+  from: string = data.balance_date,
+  balance: number = data.balance,
+): AmortizationRow[] => {
+  const payment = data.monthly_payment || 0;
+  const rate = data.interest_rate || 0;
+  if (payment <= 0 || balance <= 0 || payment <= (balance * rate) / 100 / 12) {
+    return [];
+  }
+
+  return amortize({
+    balance,
+    from,
+    paymentDay: data.payment_day,
+    months: MAX_SCHEDULE_MONTHS,
+    getTerms: () => ({ rate, payment }),
+  }).map(({ date, payment, interest, principal, balance }) => ({
+    date,
+    payment,
+    interest,
+    principal,
+    balance,
+  }));
+};
+
+// Latest balance entered on or before `date`
+const getKnownBalance = (
+  data: LiabilityData,
+  date: string,
+): LiabilityBalanceEntry | null => {
+  const known = [
+    ...(data.balance_history || []),
+    { date: data.balance_date, balance: data.balance },
+  ]
+    .filter((entry) => entry.date <= date)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  return known[known.length - 1] || null;
+};
+
+/**
+ * Outstanding balance on `date`: the latest balance entered on or before it,
+ * less the scheduled repayments since. Zero before the first known balance.
+ */
+export const getLiabilityBalance = (
+  data: LiabilityData,
+  date: string,
+): number => {
+  const base = getKnownBalance(data, date);
+  if (!base) return 0;
+
+  const paid = buildAmortizationSchedule(data, base.date, base.balance).filter(
+    (row) => row.date <= date,
+  );
+  return paid.length > 0 ? paid[paid.length - 1].balance : base.balance;
+};
+
+/**
+ * Payments still due after `date`
+ */
+export const getRemainingSchedule = (
+  data: LiabilityData,
+  date: string,
+): AmortizationRow[] => {
+  const base = getKnownBalance(data, date) || {
+    date: data.balance_date,
+    balance: data.balance,
+  };
+  return buildAmortizationSchedule(data, base.date, base.balance).filter(
+    (row) => row.date > date,
+  );
+};
+
+/**
+ * Sum of the balances on `date`, converted into `currency`
+ */
+export const calculateTotalLiabilities = (
+  liabilities: LiabilityWithDecryptedData[],
+  currency: string,
+  table: ExchangeRateTable,
+  date: string,
+): number =>
+  liabilities.reduce(
+    (sum, liability) =>
+      sum +
+      getLiabilityBalance(liability.data, date) *
+        (getCrossRate(liability.data.currency, currency, table) ?? 1),
+    0,
+  );
+
+/**
+ * Keeps the balance being replaced in the history when a new balance is
+ * entered, one entry per day
+ */
+export const recordLiabilityBalance = (
+  previous: LiabilityData,
+  next: LiabilityData,
+): LiabilityData => {
+  if (
+    previous.balance === next.balance &&
+    previous.balance_date === next.balance_date
+  ) {
+    return next;
+  }
+
+  const entry: LiabilityBalanceEntry = {
+    date: previous.balance_date,
+    balance: previous.balance,
+  };
+  const history = (next.balance_history || [])
+    .filter(
+      (item) => item.date !== entry.date && item.date !== next.balance_date,
+    )
+    .concat(entry.date !== next.balance_date ? [entry] : [])
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  return { ...next, balance_history: history };
+};
@@ -0,0 +1,206 @@
+import { ExpenseParticipant, RecurringExpenseData } from "@/types/expense";
+import { LoanTerms } from "@/types/investment";
+import { AmortizationRow } from "@/types/liability";
+import {
+  AmortizationStep,
+  amortize,
+  calculateAnnuityPayment,
+} from "@/utils/amortizationUtils";
+import { roundCents } from "@/utils/currencyUtils";
+
+export type LoanScheduleRow = AmortizationStep & {
+  number: number; // 1-based instalment number
+};
+
+export type LoanInstalment = Pick<
+  AmortizationRow,
+  "date" | "interest" | "principal"
+>;
+
+export type LoanSummary = {
+  balance: number;
+  payment: number; // Next regular instalment
+  nextPaymentDate: string | null;
+  payoffDate: string | null;
+  totalInterest: number;
+  interestRemaining: number;
+  interestSaved: number; // By the extra repayments entered so far
+  monthsSaved: number;
+};
+
+// Extra amount paid with every instalment after `after`
+export type LoanExtraPlan = {
+  monthly: number;
+  after: string;
+};
+
+/**
+ * Amortization schedule of a loan. Extra repayments shorten the loan and keep
+ * the instalment; rate changes of variable loans reprice the instalment over
+ * the rest of the original term.
+ */
+export const buildLoanSchedule = (
+  terms: LoanTerms,
+  extraPlan?: LoanExtraPlan,
+): LoanScheduleRow[] => {
+  const extras = [...(terms.extra_repayments || [])].sort((a, b) =>
+    a.date.localeCompare(b.date),
+  );
+  const changes =
+    terms.rate_type === "variable"
+      ? [...(terms.rate_changes || [])].sort((a, b) =>
+          a.date.localeCompare(b.date),
+        )
+      : [];
+
+  let rate = terms.rate;
+  let payment = calculateAnnuityPayment(
+    terms.principal,
+    rate,
+    terms.term_months,
+  );
+  let extraIndex = 0;
+  let changeIndex = 0;
+
+  return amortize({
+    balance: terms.principal,
+    from: terms.start_date,
+    paymentDay: terms.payment_day,
+    months: terms.term_months,
+    payOff: true,
+    getTerms: (index, date, balance) => {
+      let repriced = false;
+      while (
+        changeIndex < changes.length &&
+        changes[changeIndex].date <= date
+      ) {
+        rate = changes[changeIndex].rate;
+        changeIndex++;
+        repriced = true;
+      }
+      if (repriced) {
+        payment = calculateAnnuityPayment(
+          balance,
+          rate,
+          terms.term_months - index,
+        );
+      }
+      return { rate, payment };
+    },
+    getExtra: (_index, date) => {
+      let extra = extraPlan && date > extraPlan.after ? extraPlan.monthly : 0;
+      while (extraIndex < extras.length && extras[extraIndex].date <= date) {
+        extra += extras[extraIndex].amount;
+        extraIndex++;
+      }
+      return extra;
+    },
+  }).map((row, index) => ({ ...row, number: index + 1 }));
+};
+
+/**
+ * Outstanding balance after the instalments due on or before `date`.
+ * Zero before the loan starts.
+ */
+export const getLoanBalance = (terms: LoanTerms, date: string): number => {
+  if (date < terms.start_date) return 0;
+  const paid = buildLoanSchedule(terms).filter((row) => row.date <= date);
+  return paid.length > 0 ? paid[paid.length - 1].balance : terms.principal;
+};
+
+/**
+ * Instalments due after `date` with their interest and principal split,
+ * recorded on the linked recurring expense
+ */
+export const getLoanInstalments = (
+  terms: LoanTerms,
+  date: string,
+): LoanInstalment[] =>
+  buildLoanSchedule(terms)
+    .filter((row) => row.date > date)
+    .map(({ date: dueDate, interest, principal }) => ({
+      date: dueDate,
+      interest,
+      principal,
+    }));
+
+/**
+ * Key figures of a loan on `date`, including what the extra repayments save
+ * compared to the plain schedule
+ */
+export const getLoanSummary = (terms: LoanTerms, date: string): LoanSummary => {
+  const schedule = buildLoanSchedule(terms);
+  const plain = buildLoanSchedule({ ...terms, extra_repayments: [] });
+  const upcoming = schedule.filter((row) => row.date > date);
+  const sumInterest = (rows: LoanScheduleRow[]) =>
+    roundCents(rows.reduce((sum, row) => sum + row.interest, 0));
+
+  return {
+    balance: getLoanBalance(terms, date),
+    payment: upcoming.length > 0 ? upcoming[0].payment : 0,
+    nextPaymentDate: upcoming.length > 0 ? upcoming[0].date : null,
+    payoffDate: schedule.length > 0 ? schedule[schedule.length - 1].date : null,
+    totalInterest: sumInterest(schedule),
+    interestRemaining: sumInterest(upcoming),
+    interestSaved: roundCents(sumInterest(plain) - sumInterest(schedule)),
+    monthsSaved: plain.length - schedule.length,
+  };
+};
+
+/**
+ * Recurring expense paying the instalments due after `today`, built on top
+ * of `existing` when the loan was linked before. Null once nothing is due.
+ */
+export const buildLoanRecurringExpense = (
+  loan: {
+    portfolioId: string;
+    investmentId: string;
+    name: string;
+    currency: string;
+    terms: LoanTerms;
+  },
+  payer: Pick<ExpenseParticipant, "user_id" | "username">,
+  today: string,
+  existing?: RecurringExpenseData,
+): RecurringExpenseData | null => {
+  const instalments = getLoanInstalments(loan.terms, today);
+  if (instalments.length === 0) return null;
+
+  const first = instalments[0];
+  const amount = roundCents(first.interest + first.principal);
+  const payerId = existing?.payer_user_id || payer.user_id;
+  const payerName = existing?.payer_username || payer.username;
+
+  return {
+    description: "",
+    category: "debt",
+    payment_method: "bank_transfer",
+    last_generated_date: today,
+    should_generate_expenses: true,
+    ...existing,
+    name: loan.name,
+    amount,
+    currency: loan.currency,
+    payer_user_id: payerId,
+    payer_username: payerName,
+    participants: [
+      { user_id: payerId, username: payerName, share_amount: amount },
+    ],
+    split_method: "equal",
+    interval: "monthly",
+    recurrence: {
+      frequency: "monthly",
+      interval: 1,
+      by_month_day: [loan.terms.payment_day],
+    },
+    start_date: first.date,
+    end_date: instalments[instalments.length - 1].date,
+    next_due_date: first.date,
+    is_active: true,
+    loan: {
+      portfolio_id: loan.portfolioId,
+      investment_id: loan.investmentId,
+      instalments,
+    },
+  };
+};
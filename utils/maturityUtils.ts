@@ -0,0 +1,357 @@
+import {
+  InvestmentData,
+  InvestmentTransaction,
+  InvestmentWithDecryptedData,
+  PAYOUT_FREQUENCIES,
+} from "@/types/investment";
+import { addMonthsToDay } from "@/utils/dateUtils";
+import { ExchangeRateTable, getCrossRate } from "@/utils/exchangeRateUtils";
+import {
+  calculateInvestmentPosition,
+  getInvestmentTransactions,
+} from "@/utils/investmentUtils";
+import { v5 as uuidv5 } from "uuid";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const YEAR_DAYS = 365.25;
+
+// Namespace for ids of maturity settlements, so every device derives the same id
+const MATURITY_SETTLEMENT_NAMESPACE = "3b9d6e27-5a41-4c8f-b0e2-7d15c9a84f63";
+
+// Holdings maturing within this many days are flagged in the app
+export const MATURITY_REMINDER_DAYS = 30;
+
+// Investment types that are repaid on a maturity date
+const MATURING_INVESTMENT_TYPES = ["bond", "certificate", "savingsAccount"];
+
+export type MaturingHolding = {
+  investment: InvestmentWithDecryptedData;
+  maturity_date: string; // YYYY-MM-DD
+  days_to_maturity: number;
+  redemption: number; // Principal repaid, in the investment currency
+  redemption_converted: number; // Principal repaid, in the requested currency
+  yield_to_maturity: number | null; // Percent per year
+  accrued_interest: number; // In the investment currency
+};
+
+export type MaturityLadderRung = {
+  year: number;
+  total: number; // In the requested currency
+  holdings: MaturingHolding[];
+};
+
+const toDay = (date: Date) => date.toISOString().split("T")[0];
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+
+/**
+ * Whether this investment type can carry a maturity date
+ */
+export const hasMaturityDate = (type: string): boolean =>
+  MATURING_INVESTMENT_TYPES.includes(type);
+
+const getMaturityDay = (data: InvestmentData): string | null =>
+  hasMaturityDate(data.type) && data.maturity_date
+    ? data.maturity_date.split("T")[0]
+    : null;
+
+/**
+ * Whether the maturity date has passed. Settled holdings stay matured.
+ */
+export const isMatured = (data: InvestmentData, today: string): boolean => {
+  const maturity = getMaturityDay(data);
+  return !!data.matured_at || (!!maturity && maturity <= today);
+};
+
+/**
+ * Value repaid per unit at maturity: the face value when set, otherwise the
+ * average purchase price
+ */
+export const getRedemptionPrice = (data: InvestmentData): number =>
+  data.face_value || calculateInvestmentPosition(data).averageCost;
+
+// Months between two coupons: the payout schedule's, otherwise yearly
+const getCouponMonths = (data: InvestmentData): number =>
+  PAYOUT_FREQUENCIES.find(
+    (option) => option.id === data.payout_schedule?.frequency,
+  )?.months || 12;
+
+/**
+ * Coupon dates after `today` up to maturity, counted back from the maturity
+ * date
+ */
+const getRemainingCouponDates = (
+  maturity: string,
+  months: number,
+  today: string,
+): string[] => {
+  const dates: string[] = [];
+  let date = maturity;
+  while (date > today) {
+    dates.unshift(date);
+    date = addMonthsToDay(maturity, -(dates.length * months));
+  }
+  return dates;
+};
+
+// Share of the current coupon period already elapsed
+const getElapsedCouponShare = (
+  maturity: string,
+  months: number,
+  today: string,
+): { start: string; share: number } => {
+  const nextCoupon = getRemainingCouponDates(maturity, months, today)[0];
+  const lastCoupon = addMonthsToDay(nextCoupon, -months);
+  return {
+    start: lastCoupon,
+    share: daysBetween(lastCoupon, today) / daysBetween(lastCoupon, nextCoupon),
+  };
+};
+
+/**
+ * Yearly yield of holding to maturity at the current price: the rate that
+ * discounts the remaining coupons and the redemption back to the price plus
+ * the interest accrued since the last coupon. Null once matured or without a
+ * price.
+ */
+export const calculateYieldToMaturity = (
+  data: InvestmentData,
+  today: string,
+): number | null => {
+  const maturity = getMaturityDay(data);
+  const price =
+    data.current_price ?? calculateInvestmentPosition(data).averageCost;
+  const face = getRedemptionPrice(data);
+  if (!maturity || maturity <= today || !price || price <= 0 || !face) {
+    return null;
+  }
+
+  const months = getCouponMonths(data);
+  const periodsPerYear = 12 / months;
+  const coupon = (face * (data.interest_rate || 0)) / 100 / periodsPerYear;
+  const dirtyPrice =
+    price + coupon * getElapsedCouponShare(maturity, months, today).share;
+  const cashFlows = getRemainingCouponDates(maturity, months, today).map(
+    (date) => ({
+      years: daysBetween(today, date) / YEAR_DAYS,
+      amount: coupon + (date === maturity ? face : 0),
+    }),
+  );
+
+  const presentValue = (rate: number) =>
+    cashFlows.reduce(
+      (sum, flow) =>
+        sum +
+        flow.amount /
+          Math.pow(1 + rate / periodsPerYear, flow.years * periodsPerYear),
+      0,
+    );
+
+  // Present value falls as the rate rises, bisect between the bounds
+  let low = -0.99 * periodsPerYear;
+  let high = 10;
+  if (presentValue(high) > dirtyPrice || presentValue(low) < dirtyPrice) {
+    return null;
+  }
+  for (let i = 0; i < 100; i++) {
+    const mid = (low + high) / 2;
+    if (presentValue(mid) > dirtyPrice) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return ((low + high) / 2) * 100;
+};
+
+/**
+ * Interest earned since the last coupon (or purchase) and not paid yet
+ */
+export const calculateAccruedInterest = (
+  data: InvestmentData,
+  today: string,
+): number => {
+  const maturity = getMaturityDay(data);
+  const { quantity, firstPurchaseDate } = calculateInvestmentPosition(data);
+  if (!maturity || maturity <= today || !data.interest_rate || !quantity) {
+    return 0;
+  }
+
+  const months = getCouponMonths(data);
+  const { start, share } = getElapsedCouponShare(maturity, months, today);
+  const purchase = (firstPurchaseDate || data.purchase_date).split("T")[0];
+  if (purchase >= today) return 0;
+
+  // Bought mid-period: only the days held count
+  const heldShare =
+    purchase > start
+      ? (share * daysBetween(purchase, today)) / daysBetween(start, today)
+      : share;
+  const periodCoupon =
+    (quantity * getRedemptionPrice(data) * data.interest_rate) /
+    100 /
+    (12 / months);
+  return periodCoupon * heldShare;
+};
+
+/**
+ * Open fixed-income holdings that have not matured yet, earliest maturity
+ * first
+ */
+export const getMaturingHoldings = (
+  investments: InvestmentWithDecryptedData[],
+  currency: string,
+  table: ExchangeRateTable,
+  today: string,
+): MaturingHolding[] =>
+  investments
+    .filter(
+      (investment) =>
+        getMaturityDay(investment.data) &&
+        !isMatured(investment.data, today) &&
+        calculateInvestmentPosition(investment.data).quantity > 0,
+    )
+    .map((investment) => {
+      const redemption =
+        calculateInvestmentPosition(investment.data).quantity *
+        getRedemptionPrice(investment.data);
+      const maturity = getMaturityDay(investment.data)!;
+      return {
+        investment,
+        maturity_date: maturity,
+        days_to_maturity: daysBetween(today, maturity),
+        redemption,
+        redemption_converted:
+          redemption *
+          (getCrossRate(investment.data.currency, currency, table) ?? 1),
+        yield_to_maturity: calculateYieldToMaturity(investment.data, today),
+        accrued_interest: calculateAccruedInterest(investment.data, today),
+      };
+    })
+    .sort((a, b) => a.maturity_date.localeCompare(b.maturity_date));
+
+/**
+ * Groups maturing holdings by year of maturity
+ */
+export const buildMaturityLadder = (
+  holdings: MaturingHolding[],
+): MaturityLadderRung[] => {
+  const rungs = new Map<number, MaturityLadderRung>();
+
+  holdings.forEach((holding) => {
+    const year = Number(holding.maturity_date.slice(0, 4));
+    const rung = rungs.get(year) || { year, total: 0, holdings: [] };
+    rung.holdings.push(holding);
+    rung.total += holding.redemption_converted;
+    rungs.set(year, rung);
+  });
+
+  return [...rungs.values()].sort((a, b) => a.year - b.year);
+};
+
+/**
+ * Holdings maturing within `days` days from today
+ */
+export const getUpcomingMaturities = (
+  investments: InvestmentWithDecryptedData[],
+  today: string,
+  days: number = MATURITY_REMINDER_DAYS,
+): InvestmentWithDecryptedData[] => {
+  const until = toDay(new Date(Date.parse(today) + days * DAY_MS));
+  return investments.filter((investment) => {
+    const maturity = getMaturityDay(investment.data);
+    return (
+      !!maturity &&
+      maturity > today &&
+      maturity <= until &&
+      calculateInvestmentPosition(investment.data).quantity > 0
+    );
+  });
+};
+
+/**
+ * Holdings past their maturity date that still hold units and were not
+ * settled into cash yet
+ */
+export const getUnsettledMaturities = (
+  investments: InvestmentWithDecryptedData[],
+  today: string,
+): InvestmentWithDecryptedData[] =>
+  investments.filter(
+    (investment) =>
+      !investment.data.matured_at &&
+      isMatured(investment.data, today) &&
+      calculateInvestmentPosition(investment.data).quantity > 0,
+  );
+
+/**
+ * Deterministic id of the cash holding a matured holding is redeemed into.
+ * A retried or concurrent settlement derives the same id, so the backend
+ * rejects the second insert instead of storing the proceeds twice.
+ */
+export const getMaturitySettlementId = (
+  investment: InvestmentWithDecryptedData,
+): string =>
+  uuidv5(
+    `${investment.id}:${getMaturityDay(investment.data)}`,
+    MATURITY_SETTLEMENT_NAMESPACE,
+  );
+
+/**
+ * Settles a matured holding: the remaining units are redeemed on the
+ * maturity date, and the proceeds become a cash holding in the same currency
+ */
+export const buildMaturitySettlement = (
+  data: InvestmentData,
+  transactionId: string,
+  cashName: string,
+): { matured: InvestmentData; cash: InvestmentData } => {
+  const maturity = getMaturityDay(data)!;
+  const redemptionPrice = getRedemptionPrice(data);
+  const { quantity } = calculateInvestmentPosition(data);
+
+  const redemption: InvestmentTransaction = {
+    id: transactionId,
+    type: "sell",
+    date: new Date(maturity).toISOString(),
+    quantity,
+    price: redemptionPrice,
+    fees: null,
+    notes: null,
+  };
+  const transactions = getInvestmentTransactions({
+    ...data,
+    transactions: [...getInvestmentTransactions(data), redemption],
+  });
+  const position = calculateInvestmentPosition({ ...data, transactions });
+  const now = new Date().toISOString();
+
+  return {
+    matured: {
+      ...data,
+      transactions,
+      quantity: position.quantity,
+      purchase_price: position.averageCost,
+      current_price: redemptionPrice,
+      matured_at: now,
+    },
+    cash: {
+      name: cashName,
+      symbol: null,
+      isin: null,
+      type: "checkingAccount",
+      purchase_date: redemption.date,
+      purchase_price: quantity * redemptionPrice,
+      quantity: 1,
+      currency: data.currency,
+      current_price: quantity * redemptionPrice,
+      last_updated: now,
+      last_tentative_update: now,
+      notes: null,
+      interest_rate: null,
+      maturity_date: null,
+      taxation: 0,
+    },
+  };
+};
@@ -0,0 +1,125 @@
+import { ExpenseData, ExpenseParticipant } from "@/types/expense";
+import { roundCents } from "@/utils/currencyUtils";
+
+export type MoveMember = {
+  user_id: string;
+  username: string;
+};
+
+// Where each member missing from the target group goes, by user id
+export type MemberMapping = { [fromUserId: string]: string };
+
+/**
+ * Payers and participants of the expenses that are not members of the
+ * target group, each listed once
+ */
+export const getUnmatchedMembers = (
+  expenses: ExpenseData[],
+  targetMembers: MoveMember[],
+): MoveMember[] => {
+  const targetIds = new Set(targetMembers.map((member) => member.user_id));
+  const unmatched = new Map<string, MoveMember>();
+
+  for (const expense of expenses) {
+    const people: MoveMember[] = [
+      {
+        user_id: expense.payer_user_id,
+        username: expense.payer_username || "",
+      },
+      ...expense.participants,
+    ];
+    for (const person of people) {
+      if (!person.user_id || targetIds.has(person.user_id)) continue;
+      const known = unmatched.get(person.user_id);
+      if (!known || !known.username) {
+        unmatched.set(person.user_id, {
+          user_id: person.user_id,
+          username: person.username,
+        });
+      }
+    }
+  }
+
+  return [...unmatched.values()];
+};
+
+/**
+ * Rewrites an expense for the members of another group. Shares of people
+ * mapped onto the same member are added up, so the amounts still total the
+ * expense; an equal split that no longer is one becomes a custom split.
+ */
+export const remapExpenseMembers = (
+  data: ExpenseData,
+  mapping: MemberMapping,
+  targetMembers: MoveMember[],
+): ExpenseData => {
+  const resolve = (userId: string) => mapping[userId] ?? userId;
+  const getUsername = (userId: string, fallback?: string) =>
+    targetMembers.find((member) => member.user_id === userId)?.username ||
+    fallback ||
+    "";
+
+  const participants: ExpenseParticipant[] = [];
+  for (const participant of data.participants) {
+    const userId = resolve(participant.user_id);
+    const existing = participants.find((p) => p.user_id === userId);
+    if (!existing) {
+      participants.push({
+        ...participant,
+        user_id: userId,
+        username: getUsername(userId, participant.username),
+      });
+      continue;
+    }
+
+    existing.share_amount = roundCents(
+      existing.share_amount + participant.share_amount,
+    );
+    if (participant.share_weight !== undefined) {
+      existing.share_weight =
+        (existing.share_weight || 0) + participant.share_weight;
+    }
+    if (participant.share_percentage !== undefined) {
+      existing.share_percentage =
+        (existing.share_percentage || 0) + participant.share_percentage;
+    }
+  }
+
+  const merged = participants.length < data.participants.length;
+  const payerId = resolve(data.payer_user_id);
+
+  return {
+    ...data,
+    payer_user_id: payerId,
+    payer_username: getUsername(payerId, data.payer_username),
+    participants,
+    split_method:
+      merged && data.split_method === "equal" ? "custom" : data.split_method,
+    itemization: data.itemization && {
+      ...data.itemization,
+      items: data.itemization.items.map((item) => ({
+        ...item,
+        participant_ids: [...new Set(item.participant_ids.map(resolve))],
+      })),
+    },
+  };
+};
+
+/**
+ * Starting mapping for a move: everyone missing from the target group is
+ * handed to the preferred member, normally the user moving the expenses
+ */
+export const getDefaultMemberMapping = (
+  unmatched: MoveMember[],
+  targetMembers: MoveMember[],
+  preferredUserId?: string,
+): MemberMapping => {
+  const fallback =
+    targetMembers.find((member) => member.user_id === preferredUserId) ||
+    targetMembers[0];
+  if (!fallback) return {};
+
+  return Object.fromEntries(
+    unmatched.map((member) => [member.user_id, fallback.user_id]),
+  );
+};
@@ -0,0 +1,105 @@
+import { ExpenseGroupWithDecryptedData } from "@/types/expense";
+import { LiabilityWithDecryptedData } from "@/types/liability";
+import { FinancesData } from "@/types/profile";
+import {
+  calculateCategorySpending,
+  getPreviousMonthKey,
+} from "@/utils/budgetUtils";
+import { ExchangeRateTable, getCrossRate } from "@/utils/exchangeRateUtils";
+import { calculateTotalLiabilities } from "@/utils/liabilityUtils";
+
+// Complete months averaged into the monthly spending run rate
+export const RUN_RATE_MONTHS = 3;
+
+export type NetWorthPoint = {
+  date: string; // YYYY-MM-DD
+  assets: number;
+  liabilities: number;
+  net_worth: number;
+};
+
+/**
+ * Keys of the complete months before `monthKey` used for the run rate,
+ * oldest first
+ */
+export const getRunRateMonthKeys = (monthKey: string): string[] => {
+  const keys: string[] = [];
+  let key = monthKey;
+  for (let i = 0; i < RUN_RATE_MONTHS; i++) {
+    key = getPreviousMonthKey(key);
+    keys.unshift(key);
+  }
+  return keys;
+};
+
+/**
+ * Average of the user's monthly spending over the given months, converted
+ * into `currency`
+ */
+export const calculateMonthlyRunRate = (
+  expensesGroups: ExpenseGroupWithDecryptedData[],
+  userId: string,
+  monthKeys: string[],
+  currency: string,
+  table: ExchangeRateTable,
+): number => {
+  if (monthKeys.length === 0) return 0;
+
+  const total = monthKeys.reduce(
+    (sum, monthKey) =>
+      sum +
+      Object.values(
+        calculateCategorySpending(
+          expensesGroups,
+          userId,
+          monthKey,
+          currency,
+          table,
+        ),
+      ).reduce((monthSum, amount) => monthSum + amount, 0),
+    0,
+  );
+  return total / monthKeys.length;
+};
+
+/**
+ * Share of the monthly income left after spending, in percent. Null without
+ * an income.
+ */
+export const calculateSavingsRate = (
+  monthlyIncome: number | null | undefined,
+  monthlySpending: number,
+): number | null =>
+  monthlyIncome && monthlyIncome > 0
+    ? ((monthlyIncome - monthlySpending) / monthlyIncome) * 100
+    : null;
+
+/**
+ * Net worth at the end of each month with an asset snapshot: the last
+ * snapshot of the month less the liabilities outstanding on that day
+ */
+export const buildNetWorthHistory = (
+  finances: FinancesData | undefined,
+  liabilities: LiabilityWithDecryptedData[],
+  currency: string,
+  table: ExchangeRateTable,
+): NetWorthPoint[] => {
+  const snapshots = finances?.assetSnapshots || {};
+  const lastDayByMonth = new Map<string, string>();
+  Object.keys(snapshots)
+    .sort()
+    .forEach((date) => lastDayByMonth.set(date.slice(0, 7), date));
+
+  return [...lastDayByMonth.values()].map((date) => {
+    const snapshot = snapshots[date];
+    const assets =
+      snapshot.total * (getCrossRate(snapshot.currency, currency, table) ?? 1);
+    const owed = calculateTotalLiabilities(liabilities, currency, table, date);
+    return {
+      date,
+      assets,
+      liabilities: owed,
+      net_worth: assets - owed,
+    };
+  });
+};
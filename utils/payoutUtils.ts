@@ -0,0 +1,183 @@
+import {
+  InvestmentTransaction,
+  InvestmentWithDecryptedData,
+  PAYOUT_FREQUENCIES,
+} from "@/types/investment";
+import { addMonthsToDay } from "@/utils/dateUtils";
+import { ExchangeRateTable, getCrossRate } from "@/utils/exchangeRateUtils";
+import { calculateYearlyDividendInterest } from "@/utils/financeUtils";
+import {
+  calculateInvestmentPosition,
+  getInvestmentTransactions,
+  isInterestInvestment,
+} from "@/utils/investmentUtils";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A recorded dividend this close to a payment date counts as that payment
+const RECORDED_PAYOUT_TOLERANCE_DAYS = 10;
+
+export type ExpectedPayout = {
+  investment_id: string;
+  portfolio_id: string;
+  name: string;
+  symbol: string | null;
+  currency: string;
+  kind: "dividend" | "interest";
+  ex_date: string | null;
+  pay_date: string;
+  amount: number; // Gross, in the investment currency
+  estimated: boolean; // Derived from the yield or rate, not a per-unit amount
+};
+
+export type PayoutMonth = {
+  month: string; // YYYY-MM
+  payouts: ExpectedPayout[];
+  total: number; // In the requested currency
+};
+
+const toDay = (date: Date) => date.toISOString().split("T")[0];
+
+/**
+ * Gross amount of one payment: the per-unit amount when known, otherwise the
+ * yearly dividend or interest estimate split over the payments of a year
+ */
+const getPayoutAmount = (
+  investment: InvestmentWithDecryptedData,
+  paymentsPerYear: number,
+): { amount: number; estimated: boolean } => {
+  const schedule = investment.data.payout_schedule;
+  const { quantity } = calculateInvestmentPosition(investment.data);
+
+  if (schedule?.amount_per_unit) {
+    return { amount: schedule.amount_per_unit * quantity, estimated: false };
+  }
+
+  const yearly = calculateYearlyDividendInterest({
+    id: investment.id,
+    data: { ...investment.data, taxation: null },
+  });
+  return { amount: yearly / paymentsPerYear, estimated: true };
+};
+
+/**
+ * Payments expected between `from` and `to` (YYYY-MM-DD, both included) for
+ * every investment with a payout schedule, earliest first. Bonds stop paying
+ * at their maturity date.
+ */
+export const getExpectedPayouts = (
+  investments: InvestmentWithDecryptedData[],
+  from: string,
+  to: string,
+): ExpectedPayout[] => {
+  const payouts: ExpectedPayout[] = [];
+
+  investments.forEach((investment) => {
+    const schedule = investment.data.payout_schedule;
+    const frequency = PAYOUT_FREQUENCIES.find(
+      (option) => option.id === schedule?.frequency,
+    );
+    if (!schedule?.pay_date || !frequency) return;
+
+    const { amount, estimated } = getPayoutAmount(
+      investment,
+      12 / frequency.months,
+    );
+    if (!amount || amount <= 0) return;
+
+    const exOffset = schedule.ex_date
+      ? Date.parse(schedule.pay_date) - Date.parse(schedule.ex_date)
+      : null;
+    const maturity = investment.data.maturity_date?.split("T")[0];
+    const end = maturity && maturity < to ? maturity : to;
+
+    // First payment on or before `from`, stepping whole periods from the anchor
+    const [fromYear, fromMonth] = from.split("-").map(Number);
+    const [anchorYear, anchorMonth] = schedule.pay_date.split("-").map(Number);
+    const monthsApart = (fromYear - anchorYear) * 12 + fromMonth - anchorMonth;
+    let step = Math.floor(monthsApart / frequency.months) - 1;
+
+    for (
+      let payDate = addMonthsToDay(schedule.pay_date, step * frequency.months);
+      payDate <= end;
+      payDate = addMonthsToDay(schedule.pay_date, ++step * frequency.months)
+    ) {
+      if (payDate < from) continue;
+      payouts.push({
+        investment_id: investment.id,
+        portfolio_id: investment.portfolio_id,
+        name: investment.data.name,
+        symbol: investment.data.symbol,
+        currency: investment.data.currency,
+        kind: isInterestInvestment(investment.data.type)
+          ? "interest"
+          : "dividend",
+        ex_date:
+          exOffset !== null
+            ? toDay(new Date(Date.parse(payDate) - exOffset))
+            : null,
+        pay_date: payDate,
+        amount,
+        estimated,
+      });
+    }
+  });
+
+  return payouts.sort((a, b) => a.pay_date.localeCompare(b.pay_date));
+};
+
+/**
+ * Groups payouts by month of payment with the monthly total converted into
+ * `currency`
+ */
+export const groupPayoutsByMonth = (
+  payouts: ExpectedPayout[],
+  currency: string,
+  table: ExchangeRateTable,
+): PayoutMonth[] => {
+  const months = new Map<string, PayoutMonth>();
+
+  payouts.forEach((payout) => {
+    const month = payout.pay_date.slice(0, 7);
+    const entry = months.get(month) || { month, payouts: [], total: 0 };
+    entry.payouts.push(payout);
+    entry.total +=
+      payout.amount * (getCrossRate(payout.currency, currency, table) ?? 1);
+    months.set(month, entry);
+  });
+
+  return [...months.values()].sort((a, b) => a.month.localeCompare(b.month));
+};
+
+/**
+ * The dividend transaction that records a payout, if it was recorded
+ */
+export const findRecordedPayout = (
+  investment: InvestmentWithDecryptedData,
+  payDate: string,
+): InvestmentTransaction | undefined => {
+  const payTime = Date.parse(payDate);
+  return getInvestmentTransactions(investment.data).find(
+    (transaction) =>
+      transaction.type === "dividend" &&
+      Math.abs(Date.parse(transaction.date) - payTime) <=
+        RECORDED_PAYOUT_TOLERANCE_DAYS * DAY_MS,
+  );
+};
+
+/**
+ * Payments of the last `days` days that are not in the ledger yet
+ */
+export const getUnrecordedPayouts = (
+  investments: InvestmentWithDecryptedData[],
+  today: string,
+  days: number = 90,
+): ExpectedPayout[] => {
+  const from = toDay(new Date(Date.parse(today) - days * DAY_MS));
+  return getExpectedPayouts(investments, from, today).filter((payout) => {
+    const investment = investments.find(
+      (item) => item.id === payout.investment_id,
+    );
+    return investment && !findRecordedPayout(investment, payout.pay_date);
+  });
+};
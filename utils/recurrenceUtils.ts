@@ -0,0 +1,459 @@
+import {
+  ExpenseData,
+  RecurrenceRule,
+  RecurringExpenseData,
+} from "@/types/expense";
+import { resplitExpense } from "@/utils/splitUtils";
+import { v5 as uuidv5 } from "uuid";
+
+// Namespace for ids of generated occurrences, so every device derives the same id
+const RECURRING_OCCURRENCE_NAMESPACE = "6f1c3a52-8e0b-4d59-9f3e-2a7c41b0d8e6";
+
+// Upper bound of occurrences generated for one recurring expense in a single run
+export const MAX_OCCURRENCES_PER_RUN = 400;
+
+// Upper bound of periods scanned while looking for occurrences of a rule
+const MAX_SCANNED_PERIODS = 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const BUSINESS_DAYS = [1, 2, 3, 4, 5];
+
+type LegacyRecurringExpenseData = RecurringExpenseData & {
+  lastGenerated?: string;
+  nextDue?: string;
+};
+
+export type RecurringOccurrencePlan = {
+  dueDates: string[]; // Occurrences to generate, oldest first
+  lastGeneratedDate?: string;
+  nextDueDate: string;
+};
+
+/**
+ * Deterministic expense id for an occurrence of a recurring expense.
+ * Two devices catching up on the same schedule produce the same id, so the
+ * backend rejects the second insert instead of storing a duplicate.
+ */
+export const getRecurringOccurrenceId = (
+  recurringExpenseId: string,
+  dueDate: string,
+): string =>
+  uuidv5(`${recurringExpenseId}:${dueDate}`, RECURRING_OCCURRENCE_NAMESPACE);
+
+const parseDate = (date: string): Date => {
+  const [year, month, day] = date.split("T")[0].split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+const formatDate = (date: Date): string => date.toISOString().split("T")[0];
+
+export const addDays = (date: string, days: number): string => {
+  const result = parseDate(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return formatDate(result);
+};
+
+/**
+ * Rule of a recurring expense; expenses saved before rules existed repeat
+ * once per `interval`
+ */
+export const getRecurrenceRule = (
+  data: Pick<RecurringExpenseData, "interval" | "recurrence">,
+): RecurrenceRule => {
+  if (!data.recurrence) return { frequency: data.interval, interval: 1 };
+  return {
+    ...data.recurrence,
+    interval: Math.max(1, Math.floor(data.recurrence.interval || 1)),
+  };
+};
+
+export const isSimpleRecurrenceRule = (rule: RecurrenceRule): boolean =>
+  rule.interval === 1 &&
+  !rule.by_weekday?.length &&
+  !rule.by_month_day?.length &&
+  !rule.by_set_pos?.length;
+
+export const isLastBusinessDayRule = (rule: RecurrenceRule): boolean =>
+  rule.frequency === "monthly" &&
+  !rule.by_month_day?.length &&
+  rule.by_set_pos?.length === 1 &&
+  rule.by_set_pos[0] === -1 &&
+  rule.by_weekday?.length === BUSINESS_DAYS.length &&
+  BUSINESS_DAYS.every((day) => rule.by_weekday?.includes(day));
+
+// Days of one month matching the rule; day numbers past the month's end are
+// clamped, so "the 31st" falls on the last day of shorter months
+const getMonthCandidates = (
+  rule: RecurrenceRule,
+  year: number,
+  month: number,
+  anchorDay: number,
+): Date[] => {
+  const firstDay = new Date(Date.UTC(year, month, 1));
+  const normalizedYear = firstDay.getUTCFullYear();
+  const normalizedMonth = firstDay.getUTCMonth();
+  const length = new Date(
+    Date.UTC(normalizedYear, normalizedMonth + 1, 0),
+  ).getUTCDate();
+
+  let days: number[];
+  if (rule.by_month_day?.length) {
+    days = rule.by_month_day.map((day) =>
+      day > 0 ? Math.min(day, length) : Math.max(1, length + day + 1),
+    );
+  } else if (rule.by_weekday?.length) {
+    days = Array.from({ length }, (_, index) => index + 1);
+  } else {
+    days = [Math.min(anchorDay, length)];
+  }
+
+  return Array.from(new Set(days))
+    .map((day) => new Date(Date.UTC(normalizedYear, normalizedMonth, day)))
+    .filter(
+      (date) =>
+        !rule.by_weekday?.length || rule.by_weekday.includes(date.getUTCDay()),
+    );
+};
+
+const getPeriodCandidates = (
+  rule: RecurrenceRule,
+  start: Date,
+  period: number,
+): Date[] => {
+  const step = period * rule.interval;
+  let candidates: Date[];
+
+  switch (rule.frequency) {
+    case "daily": {
+      const day = new Date(start.getTime() + step * DAY_MS);
+      candidates =
+        !rule.by_weekday?.length || rule.by_weekday.includes(day.getUTCDay())
+          ? [day]
+          : [];
+      break;
+    }
+    case "weekly": {
+      // Weeks start on Monday
+      const monday = new Date(
+        start.getTime() + (step * 7 - ((start.getUTCDay() + 6) % 7)) * DAY_MS,
+      );
+      const weekdays = rule.by_weekday?.length
+        ? rule.by_weekday
+        : [start.getUTCDay()];
+      candidates = Array.from(new Set(weekdays)).map(
+        (weekday) => new Date(monday.getTime() + ((weekday + 6) % 7) * DAY_MS),
+      );
+      break;
+    }
+    case "monthly":
+      candidates = getMonthCandidates(
+        rule,
+        start.getUTCFullYear(),
+        start.getUTCMonth() + step,
+        start.getUTCDate(),
+      );
+      break;
+    case "yearly":
+      candidates = getMonthCandidates(
+        rule,
+        start.getUTCFullYear() + step,
+        start.getUTCMonth(),
+        start.getUTCDate(),
+      );
+      break;
+    default:
+      throw new Error(`Invalid frequency: ${rule.frequency}`);
+  }
+
+  candidates.sort((a, b) => a.getTime() - b.getTime());
+  if (!rule.by_set_pos?.length) return candidates;
+
+  const picked = rule.by_set_pos
+    .map((position) =>
+      position > 0
+        ? candidates[position - 1]
+        : candidates[candidates.length + position],
+    )
+    .filter((date): date is Date => !!date);
+  return Array.from(new Set(picked.map((date) => date.getTime())))
+    .sort((a, b) => a - b)
+    .map((time) => new Date(time));
+};
+
+// Period shortly before `after`, so long-running schedules are not scanned
+// from their start date
+const getFirstPeriod = (
+  rule: RecurrenceRule,
+  start: Date,
+  after: Date,
+): number => {
+  const elapsedDays = Math.floor((after.getTime() - start.getTime()) / DAY_MS);
+  const elapsedMonths =
+    (after.getUTCFullYear() - start.getUTCFullYear()) * 12 +
+    after.getUTCMonth() -
+    start.getUTCMonth();
+
+  let elapsedPeriods: number;
+  switch (rule.frequency) {
+    case "daily":
+      elapsedPeriods = elapsedDays;
+      break;
+    case "weekly":
+      elapsedPeriods = Math.floor(elapsedDays / 7);
+      break;
+    case "monthly":
+      elapsedPeriods = elapsedMonths;
+      break;
+    default:
+      elapsedPeriods = Math.floor(elapsedMonths / 12);
+  }
+
+  return Math.max(0, Math.floor(elapsedPeriods / rule.interval) - 1);
+};
+
+/**
+ * Occurrences of a rule anchored on its start date, oldest first.
+ *
+ * @param rule - Recurrence rule
+ * @param startDate - First possible occurrence (YYYY-MM-DD)
+ * @param count - Maximum number of occurrences returned
+ * @param afterDate - Only occurrences strictly after this date
+ * @param endDate - No occurrences after this date
+ */
+export const getOccurrences = (
+  rule: RecurrenceRule,
+  startDate: string,
+  count: number,
+  afterDate?: string,
+  endDate?: string,
+): string[] => {
+  const start = parseDate(startDate);
+  const startKey = formatDate(start);
+  const occurrences: string[] = [];
+  const firstPeriod = afterDate
+    ? getFirstPeriod(rule, start, parseDate(afterDate))
+    : 0;
+
+  for (
+    let period = firstPeriod;
+    period < firstPeriod + MAX_SCANNED_PERIODS && occurrences.length < count;
+    period++
+  ) {
+    for (const candidate of getPeriodCandidates(rule, start, period)) {
+      const date = formatDate(candidate);
+      if (date < startKey || (afterDate && date <= afterDate)) continue;
+      if (endDate && date > endDate) return occurrences;
+      occurrences.push(date);
+      if (occurrences.length >= count) break;
+    }
+  }
+
+  return occurrences;
+};
+
+/**
+ * First occurrence of the rule after `afterDate`, or undefined when the
+ * schedule has ended
+ */
+export const getNextOccurrence = (
+  rule: RecurrenceRule,
+  startDate: string,
+  afterDate: string,
+  endDate?: string,
+): string | undefined =>
+  getOccurrences(rule, startDate, 1, afterDate, endDate)[0];
+
+/**
+ * Average number of occurrences per month, used to turn recurring amounts
+ * into monthly totals
+ */
+export const getAverageOccurrencesPerMonth = (rule: RecurrenceRule): number => {
+  const weekdayCount = rule.by_weekday?.length || 0;
+  let perPeriod = 1;
+  if (rule.frequency === "daily") {
+    perPeriod = weekdayCount ? weekdayCount / 7 : 1;
+  } else if (rule.frequency === "weekly") {
+    perPeriod = weekdayCount || 1;
+  } else if (rule.by_set_pos?.length) {
+    perPeriod = rule.by_set_pos.length;
+  } else if (rule.by_month_day?.length) {
+    perPeriod =
+      rule.by_month_day.length * (weekdayCount ? weekdayCount / 7 : 1);
+  } else if (weekdayCount) {
+    perPeriod = weekdayCount * 4.33;
+  }
+
+  const periodsPerMonth = {
+    daily: 30,
+    weekly: 4.33, // Average weeks per month
+    monthly: 1,
+    yearly: 1 / 12,
+  }[rule.frequency];
+
+  return (perPeriod * periodsPerMonth) / rule.interval;
+};
+
+/**
+ * Human readable rule, e.g. "Every 2 weeks on Mon, Thu"
+ */
+export const describeRecurrenceRule = (
+  rule: RecurrenceRule,
+  t: (key: string, options?: any) => string,
+): string => {
+  const units = {
+    daily: "everyNDays",
+    weekly: "everyNWeeks",
+    monthly: "everyNMonths",
+    yearly: "everyNYears",
+  };
+  let base = t(`recurrence.${rule.frequency}`);
+  if (rule.frequency === "monthly" && rule.interval === 3) {
+    base = t("recurrence.quarterly");
+  } else if (rule.interval > 1) {
+    base = t(`recurrence.${units[rule.frequency]}`, { count: rule.interval });
+  }
+
+  const weekdays = [...(rule.by_weekday || [])]
+    .sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7))
+    .map((day) => t(`recurrence.weekdays.${day}`))
+    .join(", ");
+
+  let detail = "";
+  if (isLastBusinessDayRule(rule)) {
+    detail = t("recurrence.onLastBusinessDay");
+  } else if (rule.by_month_day?.length) {
+    const days = [...rule.by_month_day]
+      .sort((a, b) => (a < 0 ? 100 + a : a) - (b < 0 ? 100 + b : b))
+      .map((day) => (day === -1 ? t("recurrence.lastDay") : String(day)))
+      .join(", ");
+    detail = t("recurrence.onMonthDays", { days });
+  } else if (weekdays && rule.by_set_pos?.length) {
+    const positions = rule.by_set_pos
+      .map((position) =>
+        t(position === -1 ? "recurrence.last" : `recurrence.nth${position}`),
+      )
+      .join(", ");
+    detail = t("recurrence.onPositionWeekdays", {
+      position: positions,
+      days: weekdays,
+    });
+  } else if (weekdays) {
+    detail = t("recurrence.onWeekdays", { days: weekdays });
+  }
+
+  return detail ? `${base} ${detail}` : base;
+};
+
+/**
+ * Latest date up to which occurrences were generated, including the
+ * `lastGenerated` key written by older versions
+ */
+export const getGeneratedUntil = (
+  data: RecurringExpenseData,
+): string | undefined => {
+  const legacy = data as LegacyRecurringExpenseData;
+  return [data.last_generated_date, legacy.lastGenerated]
+    .filter((date): date is string => !!date)
+    .map((date) => date.split("T")[0])
+    .sort()
+    .pop();
+};
+
+/**
+ * Lists every occurrence between the stored next due date and today that
+ * still has to be generated, honouring the end date.
+ *
+ * Older app versions stored `lastGenerated` instead of `last_generated_date`
+ * and never moved `next_due_date`, so occurrences up to that legacy date are
+ * treated as generated already.
+ */
+export const planRecurringOccurrences = (
+  data: RecurringExpenseData,
+  today: string = new Date().toISOString().split("T")[0],
+  limit: number = MAX_OCCURRENCES_PER_RUN,
+): RecurringOccurrencePlan => {
+  const generatedUntil = getGeneratedUntil(data);
+  const rule = getRecurrenceRule(data);
+
+  const dueDates: string[] = [];
+  let lastGeneratedDate = data.last_generated_date;
+  let nextDueDate = data.next_due_date.split("T")[0];
+
+  while (nextDueDate <= today && dueDates.length < limit) {
+    if (data.end_date && nextDueDate > data.end_date) break;
+    if (!generatedUntil || nextDueDate > generatedUntil) {
+      dueDates.push(nextDueDate);
+      lastGeneratedDate = nextDueDate;
+    }
+    const following = getNextOccurrence(rule, data.start_date, nextDueDate);
+    if (!following) break;
+    nextDueDate = following;
+  }
+
+  return { dueDates, lastGeneratedDate, nextDueDate };
+};
+
+/**
+ * Expense created for one occurrence of a recurring expense. Loan instalments
+ * take the amount of that date's instalment, shares re-split to match.
+ */
+export const createExpenseFromRecurring = (
+  recurringExpenseId: string,
+  data: RecurringExpenseData,
+  dueDate: string,
+): ExpenseData => {
+  const expense: ExpenseData = {
+    name: data.name,
+    description: data.description,
+    amount: data.amount,
+    date: dueDate,
+    category: data.category,
+    payment_method: data.payment_method,
+    currency: data.currency,
+    payer_user_id: data.payer_user_id,
+    payer_username: data.payer_username,
+    participants: data.participants,
+    split_method: data.split_method,
+    is_recurring: false,
+    recurring_expense_id: recurringExpenseId,
+  };
+
+  const instalment = data.loan?.instalments.find(
+    (item) => item.date === dueDate,
+  );
+  if (!instalment) return expense;
+
+  const amount =
+    Math.round((instalment.interest + instalment.principal) * 100) / 100;
+  return {
+    ...expense,
+    amount,
+    participants: resplitExpense(data, amount),
+    loan_split: {
+      interest: instalment.interest,
+      principal: instalment.principal,
+    },
+  };
+};
+
+/**
+ * Recurring data after generating up to `lastGeneratedDate`, without the
+ * ad-hoc keys written by older versions
+ */
+export const advanceRecurringExpenseData = (
+  data: RecurringExpenseData,
+  lastGeneratedDate: string | undefined,
+  nextDueDate: string,
+): RecurringExpenseData => {
+  const {
+    lastGenerated: _lastGenerated,
+    nextDue: _nextDue,
+    ...rest
+  } = data as LegacyRecurringExpenseData;
+  return {
+    ...rest,
+    last_generated_date: lastGeneratedDate,
+    next_due_date: nextDueDate,
+  };
+};
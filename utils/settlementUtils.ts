@@ -0,0 +1,166 @@
+/**
+ * Settlement engine for expense groups
+ *
+ * Turns the net balances produced by calculateGroupBalances into the smallest
+ * set of transfers that brings every member back to zero.
+ */
+
+export type SettlementTransfer = {
+  from_user_id: string;
+  to_user_id: string;
+  amount: number;
+};
+
+// Above this many non-zero balances the exact search (2^n states) becomes too
+// expensive on a phone, so we fall back to the greedy pairing.
+const MAX_EXACT_SETTLEMENT_MEMBERS = 15;
+
+type CentBalance = {
+  userId: string;
+  cents: number;
+};
+
+const toCentBalances = (balances: {
+  [userId: string]: number;
+}): CentBalance[] => {
+  const entries = Object.entries(balances)
+    .map(([userId, balance]) => ({
+      userId,
+      cents: Math.round((balance || 0) * 100),
+    }))
+    .filter((entry) => entry.cents !== 0);
+
+  // Rounded balances can leave a stray cent; absorb it in the largest balance
+  // so the transfers always add up.
+  const residual = entries.reduce((sum, entry) => sum + entry.cents, 0);
+  if (residual !== 0 && entries.length > 0) {
+    const largest = entries.reduce((max, entry) =>
+      Math.abs(entry.cents) > Math.abs(max.cents) ? entry : max,
+    );
+    largest.cents -= residual;
+  }
+
+  return entries.filter((entry) => entry.cents !== 0);
+};
+
+/**
+ * Pairs the largest creditor with the largest debtor until everyone is
+ * settled. Produces at most n - 1 transfers for n balances.
+ */
+const settleGreedily = (balances: CentBalance[]): SettlementTransfer[] => {
+  const creditors = balances
+    .filter((b) => b.cents > 0)
+    .map((b) => ({ ...b }))
+    .sort((a, b) => b.cents - a.cents);
+  const debtors = balances
+    .filter((b) => b.cents < 0)
+    .map((b) => ({ ...b }))
+    .sort((a, b) => a.cents - b.cents);
+
+  const transfers: SettlementTransfer[] = [];
+  let creditorIndex = 0;
+  let debtorIndex = 0;
+
+  while (creditorIndex < creditors.length && debtorIndex < debtors.length) {
+    const creditor = creditors[creditorIndex];
+    const debtor = debtors[debtorIndex];
+    const cents = Math.min(creditor.cents, -debtor.cents);
+
+    if (cents > 0) {
+      transfers.push({
+        from_user_id: debtor.userId,
+        to_user_id: creditor.userId,
+        amount: cents / 100,
+      });
+      creditor.cents -= cents;
+      debtor.cents += cents;
+    }
+
+    if (creditor.cents === 0) creditorIndex++;
+    if (debtor.cents === 0) debtorIndex++;
+  }
+
+  return transfers;
+};
+
+/**
+ * Splits the balances into the largest possible number of zero-sum subsets.
+ * Each subset of size k can be settled with k - 1 transfers, so maximizing
+ * the number of subsets minimizes the total number of transfers.
+ */
+const partitionIntoZeroSumGroups = (
+  balances: CentBalance[],
+): CentBalance[][] => {
+  const n = balances.length;
+  const fullMask = (1 << n) - 1;
+  const sums = new Array<number>(fullMask + 1).fill(0);
+  const best = new Array<number>(fullMask + 1).fill(0);
+
+  for (let mask = 1; mask <= fullMask; mask++) {
+    const lowestBit = mask & -mask;
+    const index = 31 - Math.clz32(lowestBit);
+    sums[mask] = sums[mask ^ lowestBit] + balances[index].cents;
+
+    let bestWithoutOne = 0;
+    for (let i = 0; i < n; i++) {
+      if (mask & (1 << i)) {
+        bestWithoutOne = Math.max(bestWithoutOne, best[mask ^ (1 << i)]);
+      }
+    }
+    best[mask] = bestWithoutOne + (sums[mask] === 0 ? 1 : 0);
+  }
+
+  // Walk back from the full set to recover the order members were added in,
+  // then cut that order wherever the running sum returns to zero.
+  const removalOrder: number[] = [];
+  let mask = fullMask;
+  while (mask) {
+    const bonus = sums[mask] === 0 ? 1 : 0;
+    for (let i = 0; i < n; i++) {
+      const bit = 1 << i;
+      if (mask & bit && best[mask ^ bit] + bonus === best[mask]) {
+        removalOrder.push(i);
+        mask ^= bit;
+        break;
+      }
+    }
+  }
+
+  const groups: CentBalance[][] = [];
+  let current: CentBalance[] = [];
+  let runningSum = 0;
+  for (const index of removalOrder.reverse()) {
+    current.push(balances[index]);
+    runningSum += balances[index].cents;
+    if (runningSum === 0) {
+      groups.push(current);
+      current = [];
+    }
+  }
+  if (current.length > 0) {
+    groups.push(current);
+  }
+
+  return groups;
+};
+
+/**
+ * Computes the minimal list of transfers that settles all group balances.
+ *
+ * @param balances - Net balance per user, positive when the user is owed money
+ * @returns Transfers from debtors to creditors, amounts rounded to cents
+ */
+export const calculateSettlementPlan = (balances: {
+  [userId: string]: number;
+}): SettlementTransfer[] => {
+  const centBalances = toCentBalances(balances);
+  if (centBalances.length === 0) return [];
+
+  if (centBalances.length > MAX_EXACT_SETTLEMENT_MEMBERS) {
+    return settleGreedily(centBalances);
+  }
+
+  return partitionIntoZeroSumGroups(centBalances)
+    .flatMap((group) => settleGreedily(group))
+    .sort((a, b) => b.amount - a.amount);
+};
@@ -0,0 +1,136 @@
+import {
+  ExpenseData,
+  ExpenseGroupData,
+  ExpenseParticipant,
+  SplitMethod,
+} from "@/types/expense";
+
+// Weight of a member without a group default
+export const DEFAULT_SPLIT_WEIGHT = 1;
+
+const sum = (values: number[]) =>
+  values.reduce((total, value) => total + value, 0);
+
+/**
+ * Divide `amount` in proportion to `weights`, in whole cents. Leftover cents
+ * go to the largest fractional parts (earlier entries first on ties), so the
+ * parts always add up to the amount exactly.
+ */
+export const allocateAmount = (amount: number, weights: number[]): number[] => {
+  const totalWeight = sum(weights.map((weight) => Math.max(weight, 0)));
+  if (weights.length === 0 || totalWeight <= 0) return weights.map(() => 0);
+
+  const sign = amount < 0 ? -1 : 1;
+  const totalCents = Math.round(Math.abs(amount) * 100);
+  const exact = weights.map(
+    (weight) => (totalCents * Math.max(weight, 0)) / totalWeight,
+  );
+  const cents = exact.map((value) => Math.floor(value));
+
+  let remainder = totalCents - sum(cents);
+  const order = exact
+    .map((value, index) => ({ index, fraction: value - cents[index] }))
+    .filter((entry) => weights[entry.index] > 0)
+    .sort((a, b) => b.fraction - a.fraction || a.index - b.index);
+  for (let i = 0; remainder > 0 && order.length > 0; i++) {
+    cents[order[i % order.length].index] += 1;
+    remainder--;
+  }
+
+  return cents.map((value) => (sign * value) / 100);
+};
+
+/**
+ * Fill in `share_amount` of each participant for `method`. Custom splits are
+ * returned as entered.
+ */
+export const calculateSplit = (
+  amount: number,
+  participants: ExpenseParticipant[],
+  method: SplitMethod,
+): ExpenseParticipant[] => {
+  if (method === "custom") return participants;
+
+  const weights = participants.map((participant) => {
+    if (method === "shares") {
+      return participant.share_weight ?? DEFAULT_SPLIT_WEIGHT;
+    }
+    if (method === "percentage") return participant.share_percentage ?? 0;
+    return 1;
+  });
+  const shares = allocateAmount(amount, weights);
+
+  return participants.map((participant, index) => ({
+    ...participant,
+    share_amount: shares[index],
+  }));
+};
+
+/**
+ * Shares of `participants` rescaled to a new amount, keeping their ratios
+ */
+export const rescaleSplit = (
+  participants: ExpenseParticipant[],
+  amount: number,
+): ExpenseParticipant[] => {
+  const weights = participants.map((participant) => participant.share_amount);
+  const shares =
+    sum(weights) > 0
+      ? allocateAmount(amount, weights)
+      : allocateAmount(
+          amount,
+          participants.map(() => 1),
+        );
+
+  return participants.map((participant, index) => ({
+    ...participant,
+    share_amount: shares[index],
+  }));
+};
+
+/**
+ * Participants of an expense whose amount changed, e.g. a bank transaction
+ * that settled for a different amount or a loan instalment. Equal, shares and
+ * percentage splits are recalculated, anything else keeps its ratios.
+ */
+export const resplitExpense = (
+  data: Pick<ExpenseData, "participants" | "split_method">,
+  amount: number,
+): ExpenseParticipant[] =>
+  data.split_method === "custom" || data.split_method === "itemized"
+    ? rescaleSplit(data.participants, amount)
+    : calculateSplit(amount, data.participants, data.split_method);
+
+/**
+ * Percentages left to assign, zero when a percentage split adds up
+ */
+export const getUnassignedPercentage = (
+  participants: ExpenseParticipant[],
+): number =>
+  Math.round(
+    (100 -
+      sum(
+        participants.map((participant) => participant.share_percentage ?? 0),
+      )) *
+      100,
+  ) / 100;
+
+/**
+ * Weight of a member in a "shares" split unless the expense says otherwise
+ */
+export const getDefaultSplitWeight = (
+  group: Pick<ExpenseGroupData, "default_split_weights"> | undefined,
+  userId: string,
+): number => group?.default_split_weights?.[userId] ?? DEFAULT_SPLIT_WEIGHT;
+
+/**
+ * Percentages matching the group default weights of `userIds`, adding up to 100
+ */
+export const getDefaultSplitPercentages = (
+  group: Pick<ExpenseGroupData, "default_split_weights"> | undefined,
+  userIds: string[],
+): number[] =>
+  allocateAmount(
+    100,
+    userIds.map((userId) => getDefaultSplitWeight(group, userId)),
+  );
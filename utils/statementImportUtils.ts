@@ -0,0 +1,675 @@
+/**
+ * Bank statement import
+ *
+ * Parses CSV, OFX and CAMT.053 exports into a common transaction shape,
+ * converts outgoing transactions into expenses and flags rows that were
+ * already imported.
+ */
+
+import { sha256 } from "@noble/hashes/sha2";
+import { bytesToHex, utf8ToBytes } from "@noble/hashes/utils";
+import { ExpenseData } from "@/types/expense";
+
+export type StatementFormat = "csv" | "ofx" | "camt053";
+
+export type StatementDateFormat = "YYYY-MM-DD" | "DD/MM/YYYY" | "MM/DD/YYYY";
+
+export type StatementTransaction = {
+  id: string; // Bank reference when the file has one, content hash otherwise
+  date: string; // YYYY-MM-DD
+  amount: number; // Negative for money leaving the account
+  currency?: string;
+  name: string;
+  description: string;
+  account_id?: string;
+  content_hash: string;
+};
+
+export type CsvColumnMapping = {
+  delimiter: string;
+  hasHeader: boolean;
+  date: number;
+  amount: number | null; // Single signed amount column
+  debit: number | null; // Or separate money-out / money-in columns
+  credit: number | null;
+  description: number | null;
+  name: number | null;
+  currency: number | null;
+  reference: number | null;
+  dateFormat: StatementDateFormat;
+  decimalSeparator: "." | ",";
+};
+
+export type StatementParseResult = {
+  transactions: StatementTransaction[];
+  skippedRows: number;
+};
+
+type ParsedStatementRow = Omit<StatementTransaction, "id" | "content_hash"> & {
+  reference?: string;
+};
+
+/**
+ * Guesses the statement format from the file name, then from its content
+ */
+export const detectStatementFormat = (
+  fileName: string,
+  content: string,
+): StatementFormat | null => {
+  const extension = fileName.toLowerCase().split(".").pop();
+  if (extension === "ofx" || extension === "qfx") return "ofx";
+  if (extension === "csv" || extension === "txt") return "csv";
+
+  const head = content.slice(0, 2000);
+  if (/OFXHEADER|<OFX>/i.test(head)) return "ofx";
+  if (/camt\.053|<BkToCstmrStmt>/i.test(head)) return "camt053";
+  if (extension === "xml") return null;
+  return head.includes("\n") ? "csv" : null;
+};
+
+// Shared helpers
+
+const normalizeText = (value: string): string =>
+  value.toLowerCase().replace(/\s+/g, " ").trim();
+
+// Currency is left out on purpose: imported expenses get the default
+// currency filled in, which would stop a re-import from matching.
+const computeContentHash = (date: string, amount: number, text: string) =>
+  bytesToHex(
+    sha256(
+      utf8ToBytes([date, amount.toFixed(2), normalizeText(text)].join("|")),
+    ),
+  ).slice(0, 32);
+
+/**
+ * Builds transactions from raw rows and gives rows without a bank reference
+ * a stable id based on their content. Identical rows in the same file (two
+ * coffees on the same day) get an occurrence suffix so they stay distinct.
+ */
+const finalizeTransactions = (
+  rows: ParsedStatementRow[],
+): StatementTransaction[] => {
+  const occurrences = new Map<string, number>();
+
+  return rows.map(({ reference: rawReference, ...transaction }) => {
+    const contentHash = computeContentHash(
+      transaction.date,
+      transaction.amount,
+      `${transaction.name} ${transaction.description}`,
+    );
+    const occurrence = occurrences.get(contentHash) || 0;
+    occurrences.set(contentHash, occurrence + 1);
+    const reference = rawReference?.trim();
+
+    return {
+      ...transaction,
+      id: reference
+        ? reference
+        : `hash:${contentHash}${occurrence > 0 ? `-${occurrence}` : ""}`,
+      content_hash: contentHash,
+    };
+  });
+};
+
+/**
+ * Parses a bank amount such as "-1.234,56", "(12.00)", "12.00-" or "€ 9,99"
+ */
+export const parseStatementAmount = (
+  value: string,
+  decimalSeparator: "." | "," = ".",
+): number | null => {
+  if (!value) return null;
+  let text = value.trim();
+  let negative = false;
+
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (text.endsWith("-")) {
+    negative = true;
+    text = text.slice(0, -1);
+  }
+
+  text = text.replace(/[^\d.,+-]/g, "");
+  if (text.startsWith("-")) {
+    negative = !negative;
+    text = text.slice(1);
+  } else if (text.startsWith("+")) {
+    text = text.slice(1);
+  }
+
+  const thousandsSeparator = decimalSeparator === "," ? "." : ",";
+  text = text.split(thousandsSeparator).join("");
+  if (decimalSeparator === ",") text = text.replace(",", ".");
+
+  if (!/^\d*\.?\d+$/.test(text)) return null;
+  const amount = Number(text);
+  return negative ? -amount : amount;
+};
+
+/**
+ * Parses a statement date into YYYY-MM-DD. Compact dates (20250131, as used
+ * by OFX and some CSV exports) are always read as year, month, day.
+ */
+export const parseStatementDate = (
+  value: string,
+  format: StatementDateFormat = "YYYY-MM-DD",
+): string | null => {
+  if (!value) return null;
+  const text = value.trim();
+
+  let year: number;
+  let month: number;
+  let day: number;
+
+  const compact = text.match(/^(\d{4})(\d{2})(\d{2})/);
+  const parts = text.split(/[^\d]+/).filter(Boolean);
+
+  if (compact && parts[0]?.length >= 8) {
+    [year, month, day] = [
+      Number(compact[1]),
+      Number(compact[2]),
+      Number(compact[3]),
+    ];
+  } else if (parts.length >= 3) {
+    const [first, second, third] = parts.map(Number);
+    if (format === "YYYY-MM-DD" || parts[0].length === 4) {
+      [year, month, day] = [first, second, third];
+    } else if (format === "DD/MM/YYYY") {
+      [day, month, year] = [first, second, third];
+    } else {
+      [month, day, year] = [first, second, third];
+    }
+  } else {
+    return null;
+  }
+
+  if (year < 100) year += 2000;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    isNaN(date.getTime()) ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null;
+  }
+
+  return date.toISOString().split("T")[0];
+};
+
+const decodeXmlEntities = (value: string): string =>
+  value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, "&");
+
+// CSV
+
+/**
+ * Picks the delimiter that occurs most often in the first line
+ */
+export const detectCsvDelimiter = (content: string): string => {
+  const firstLine = content.split(/\r?\n/)[0] || "";
+  const candidates = [",", ";", "\t", "|"];
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length
+      ? candidate
+      : best,
+  );
+};
+
+/**
+ * Splits CSV content into rows, honouring quoted fields and escaped quotes
+ */
+export const parseCsvRows = (
+  content: string,
+  delimiter: string,
+): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  const text = content.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      if (row.some((cell) => cell.trim() !== "")) rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(field);
+  if (row.some((cell) => cell.trim() !== "")) rows.push(row);
+
+  return rows.map((cells) => cells.map((cell) => cell.trim()));
+};
+
+const COLUMN_KEYWORDS: {
+  [column in
+    | "date"
+    | "amount"
+    | "debit"
+    | "credit"
+    | "description"
+    | "name"
+    | "currency"
+    | "reference"]: string[];
+} = {
+  date: ["date", "datum", "fecha", "data", "buchungstag", "booking"],
+  amount: [
+    "amount",
+    "betrag",
+    "importe",
+    "montant",
+    "importo",
+    "bedrag",
+    "kwota",
+    "belopp",
+    "valor",
+  ],
+  debit: [
+    "debit",
+    "soll",
+    "withdrawal",
+    "money out",
+    "paid out",
+    "uscite",
+    "cargo",
+  ],
+  credit: [
+    "credit",
+    "haben",
+    "deposit",
+    "money in",
+    "paid in",
+    "entrate",
+    "abono",
+  ],
+  description: [
+    "description",
+    "memo",
+    "verwendungszweck",
+    "details",
+    "concepto",
+    "libell",
+    "causale",
+    "omschrijving",
+    "opis",
+    "beskrivning",
+  ],
+  name: [
+    "payee",
+    "name",
+    "beneficiary",
+    "empfänger",
+    "merchant",
+    "counterparty",
+    "begünstigter",
+  ],
+  currency: ["currency", "währung", "divisa", "devise", "waluta", "moeda"],
+  reference: ["reference", "transaction id", "referenz", "referencia", "id"],
+};
+
+/**
+ * Suggests a column mapping from the header row and a few sample rows
+ */
+export const guessCsvColumnMapping = (
+  rows: string[][],
+  delimiter: string,
+): CsvColumnMapping => {
+  const header = rows[0] || [];
+  const hasHeader = header.every(
+    (cell) => parseStatementAmount(cell) === null || cell === "",
+  );
+  const headerCells = hasHeader ? header.map(normalizeText) : [];
+  const used = new Set<number>();
+
+  const findColumn = (column: keyof typeof COLUMN_KEYWORDS): number | null => {
+    for (const keyword of COLUMN_KEYWORDS[column]) {
+      const index = headerCells.findIndex(
+        (cell, i) => !used.has(i) && cell.includes(keyword),
+      );
+      if (index >= 0) {
+        used.add(index);
+        return index;
+      }
+    }
+    return null;
+  };
+
+  const date = findColumn("date") ?? 0;
+  const debit = findColumn("debit");
+  const credit = findColumn("credit");
+  const amount = findColumn("amount") ?? (debit === null ? 1 : null);
+  const description = findColumn("description");
+  const name = findColumn("name");
+  const currency = findColumn("currency");
+  const reference = findColumn("reference");
+
+  const samples = rows.slice(hasHeader ? 1 : 0, 20);
+  const amountColumn = amount ?? debit ?? credit;
+  const decimalSeparator = samples.some((row) =>
+    /\d,\d{1,2}$/.test(amountColumn !== null ? row[amountColumn] || "" : ""),
+  )
+    ? ","
+    : ".";
+
+  let dateFormat: StatementDateFormat = "DD/MM/YYYY";
+  const dateParts = samples.map((row) =>
+    (row[date] || "").split(/[^\d]+/).filter(Boolean),
+  );
+  if (dateParts.some((parts) => parts[0]?.length >= 4)) {
+    dateFormat = "YYYY-MM-DD";
+  } else if (
+    dateParts.some((parts) => Number(parts[1]) > 12) &&
+    !dateParts.some((parts) => Number(parts[0]) > 12)
+  ) {
+    dateFormat = "MM/DD/YYYY";
+  }
+
+  return {
+    delimiter,
+    hasHeader,
+    date,
+    amount,
+    debit,
+    credit,
+    description: description ?? (name === null ? 2 : null),
+    name,
+    currency,
+    reference,
+    dateFormat,
+    decimalSeparator,
+  };
+};
+
+/**
+ * Converts CSV rows into transactions using the given column mapping
+ */
+export const parseCsvStatement = (
+  rows: string[][],
+  mapping: CsvColumnMapping,
+): StatementParseResult => {
+  const parsed: ParsedStatementRow[] = [];
+  let skippedRows = 0;
+  const cell = (row: string[], index: number | null) =>
+    index === null ? "" : row[index] || "";
+
+  for (const row of rows.slice(mapping.hasHeader ? 1 : 0)) {
+    const date = parseStatementDate(
+      cell(row, mapping.date),
+      mapping.dateFormat,
+    );
+
+    let amount: number | null = null;
+    if (mapping.amount !== null) {
+      amount = parseStatementAmount(
+        cell(row, mapping.amount),
+        mapping.decimalSeparator,
+      );
+    } else {
+      const debit = parseStatementAmount(
+        cell(row, mapping.debit),
+        mapping.decimalSeparator,
+      );
+      const credit = parseStatementAmount(
+        cell(row, mapping.credit),
+        mapping.decimalSeparator,
+      );
+      if (debit) amount = -Math.abs(debit);
+      else if (credit) amount = Math.abs(credit);
+    }
+
+    if (!date || amount === null) {
+      skippedRows++;
+      continue;
+    }
+
+    const description = cell(row, mapping.description);
+    const name = cell(row, mapping.name) || description;
+    const currency = cell(row, mapping.currency).toUpperCase();
+
+    parsed.push({
+      date,
+      amount,
+      currency: /^[A-Z]{3}$/.test(currency) ? currency : undefined,
+      name: name || "Unknown",
+      description,
+      reference: cell(row, mapping.reference),
+    });
+  }
+
+  return { transactions: finalizeTransactions(parsed), skippedRows };
+};
+
+// OFX
+
+const getOfxValue = (block: string, tag: string): string => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+  return match ? decodeXmlEntities(match[1].trim()) : "";
+};
+
+/**
+ * Parses OFX 1.x (SGML) and 2.x (XML) statements
+ */
+export const parseOfxStatement = (content: string): StatementParseResult => {
+  const currency = getOfxValue(content, "CURDEF").toUpperCase() || undefined;
+  const accountId = getOfxValue(content, "ACCTID") || undefined;
+  const blocks =
+    content.match(
+      /<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi,
+    ) || [];
+
+  const parsed: ParsedStatementRow[] = [];
+  let skippedRows = 0;
+
+  for (const block of blocks) {
+    const date = parseStatementDate(getOfxValue(block, "DTPOSTED"));
+    const amount = parseStatementAmount(getOfxValue(block, "TRNAMT"));
+    if (!date || amount === null) {
+      skippedRows++;
+      continue;
+    }
+
+    const name = getOfxValue(block, "NAME") || getOfxValue(block, "PAYEE");
+    const memo = getOfxValue(block, "MEMO");
+    parsed.push({
+      date,
+      amount,
+      currency: getOfxValue(block, "CURRENCY").toUpperCase() || currency,
+      name: name || memo || "Unknown",
+      description: memo || name,
+      account_id: accountId,
+      reference: getOfxValue(block, "FITID"),
+    });
+  }
+
+  return { transactions: finalizeTransactions(parsed), skippedRows };
+};
+
+// CAMT.053
+
+const getXmlValue = (block: string, path: string[]): string => {
+  const pattern = path.map((tag) => `<${tag}(?:\\s[^>]*)?>`).join("[\\s\\S]*?");
+  const match = block.match(new RegExp(`${pattern}([^<]*)<`));
+  return match ? decodeXmlEntities(match[1].trim()) : "";
+};
+
+/**
+ * Parses ISO 20022 CAMT.053 bank-to-customer statements
+ */
+export const parseCamt053Statement = (
+  content: string,
+): StatementParseResult => {
+  // Drop namespace prefixes so <ns2:Ntry> and <Ntry> read the same
+  const xml = content.replace(/<(\/?)[\w-]+:/g, "<$1");
+  const accountId =
+    getXmlValue(xml, ["Acct", "Id", "IBAN"]) ||
+    getXmlValue(xml, ["Acct", "Id", "Othr", "Id"]) ||
+    undefined;
+  const entries = xml.match(/<Ntry>[\s\S]*?<\/Ntry>/g) || [];
+
+  const parsed: ParsedStatementRow[] = [];
+  let skippedRows = 0;
+
+  for (const entry of entries) {
+    const amountMatch = entry.match(/<Amt([^>]*)>([^<]+)<\/Amt>/);
+    const currency = amountMatch?.[1].match(/Ccy="([A-Z]{3})"/)?.[1];
+    const rawAmount = amountMatch ? parseStatementAmount(amountMatch[2]) : null;
+    const isDebit = /<CdtDbtInd>\s*DBIT/.test(entry);
+    const date = parseStatementDate(
+      getXmlValue(entry, ["BookgDt", "Dt"]) ||
+        getXmlValue(entry, ["BookgDt", "DtTm"]) ||
+        getXmlValue(entry, ["ValDt", "Dt"]),
+    );
+
+    if (!date || rawAmount === null) {
+      skippedRows++;
+      continue;
+    }
+
+    // The counterparty is the creditor for outgoing payments, the debtor otherwise
+    const counterparty = isDebit ? "Cdtr" : "Dbtr";
+    const name =
+      getXmlValue(entry, ["RltdPties", counterparty, "Nm"]) ||
+      getXmlValue(entry, ["RltdPties", `Ultmt${counterparty}`, "Nm"]);
+    const remittance = (entry.match(/<Ustrd>([^<]*)<\/Ustrd>/g) || [])
+      .map((line) => decodeXmlEntities(line.replace(/<\/?Ustrd>/g, "").trim()))
+      .join(" ");
+    const additionalInfo = getXmlValue(entry, ["AddtlNtryInf"]);
+    const endToEndId = getXmlValue(entry, ["EndToEndId"]);
+
+    parsed.push({
+      date,
+      amount: isDebit ? -Math.abs(rawAmount) : Math.abs(rawAmount),
+      currency,
+      name: name || additionalInfo || remittance || "Unknown",
+      description: remittance || additionalInfo,
+      account_id: accountId,
+      reference:
+        getXmlValue(entry, ["AcctSvcrRef"]) ||
+        getXmlValue(entry, ["NtryRef"]) ||
+        (endToEndId !== "NOTPROVIDED" ? endToEndId : ""),
+    });
+  }
+
+  return { transactions: finalizeTransactions(parsed), skippedRows };
+};
+
+// Conversion and de-duplication
+
+/**
+ * Content hash of an existing expense, comparable with StatementTransaction.content_hash
+ */
+export const getExpenseContentHash = (expense: ExpenseData): string =>
+  computeContentHash(
+    (expense.date || "").split("T")[0],
+    -Math.abs(expense.amount),
+    `${expense.name} ${expense.description}`,
+  );
+
+/**
+ * Returns the ids of statement transactions that already exist as expenses,
+ * matched by external transaction id first and by content hash otherwise.
+ * Transactions of purged expenses count as existing.
+ */
+export const findDuplicateStatementTransactions = (
+  transactions: StatementTransaction[],
+  existingExpenses: ExpenseData[],
+  deletedTransactionIds: string[] = [],
+): Set<string> => {
+  const knownIds = new Set<string>(deletedTransactionIds);
+  const knownHashes = new Map<string, number>();
+
+  for (const expense of existingExpenses) {
+    if (expense.external_transaction_id) {
+      knownIds.add(expense.external_transaction_id);
+    }
+    const hash = getExpenseContentHash(expense);
+    knownHashes.set(hash, (knownHashes.get(hash) || 0) + 1);
+  }
+
+  // Each existing expense can only account for one row, so a match by id
+  // also uses up the content hash of that row
+  const duplicates = new Set<string>();
+  const consumeHash = (hash: string) => {
+    const remaining = knownHashes.get(hash) || 0;
+    if (remaining > 0) knownHashes.set(hash, remaining - 1);
+    return remaining > 0;
+  };
+
+  for (const transaction of transactions) {
+    if (knownIds.has(transaction.id)) {
+      duplicates.add(transaction.id);
+      consumeHash(transaction.content_hash);
+    }
+  }
+  for (const transaction of transactions) {
+    if (
+      !duplicates.has(transaction.id) &&
+      consumeHash(transaction.content_hash)
+    ) {
+      duplicates.add(transaction.id);
+    }
+  }
+
+  return duplicates;
+};
+
+/**
+ * Turns an outgoing statement transaction into a personal expense
+ */
+export const statementTransactionToExpenseData = (
+  transaction: StatementTransaction,
+  userId: string,
+  username: string,
+  fallbackCurrency: string,
+): ExpenseData => {
+  const amount = Math.abs(transaction.amount);
+  return {
+    name: transaction.name,
+    description: transaction.description,
+    amount,
+    date: transaction.date,
+    category: "other",
+    is_recurring: false,
+    currency: transaction.currency || fallbackCurrency,
+    payer_user_id: userId,
+    payer_username: username,
+    participants: [
+      {
+        user_id: userId,
+        username,
+        share_amount: amount,
+      },
+    ],
+    split_method: "equal",
+    external_account_id: transaction.account_id,
+    external_transaction_id: transaction.id,
+  };
+};
@@ -0,0 +1,348 @@
+import {
+  InvestmentTransaction,
+  InvestmentWithDecryptedData,
+} from "@/types/investment";
+import { TaxRateResolver, calculateTaxReport } from "@/utils/taxReportUtils";
+
+let transactionCount = 0;
+
+const tx = (
+  type: InvestmentTransaction["type"],
+  date: string,
+  fields: Partial<InvestmentTransaction> = {},
+): InvestmentTransaction => ({
+  id: `tx-${++transactionCount}`,
+  type,
+  date,
+  quantity: 0,
+  price: 0,
+  fees: null,
+  notes: null,
+  ...fields,
+});
+
+const investment = (
+  transactions: InvestmentTransaction[],
+  currency = "EUR",
+  type = "stock",
+): InvestmentWithDecryptedData => ({
+  id: "investment-1",
+  portfolio_id: "portfolio-1",
+  created_at: "2023-01-01T00:00:00.000Z",
+  updated_at: "2023-01-01T00:00:00.000Z",
+  data: {
+    name: "Test holding",
+    symbol: "TEST",
+    isin: null,
+    type,
+    purchase_date: transactions[0]?.date ?? "2023-01-01",
+    purchase_price: 0,
+    quantity: 0,
+    currency,
+    current_price: null,
+    last_updated: null,
+    last_tentative_update: null,
+    notes: null,
+    transactions,
+  },
+});
+
+const noRates: TaxRateResolver = () => null;
+
+// Two buys in 2023, the second without fees, and one sell in 2024
+const twoLots = () => [
+  tx("buy", "2023-01-10", { quantity: 10, price: 100, fees: 10 }),
+  tx("buy", "2023-06-01", { quantity: 10, price: 120 }),
+  tx("sell", "2024-03-01", { quantity: 15, price: 150, fees: 15 }),
+];
+
+describe("calculateTaxReport", () => {
+  describe("FIFO lots", () => {
+    it("matches a sell to the oldest lots first, fees included", () => {
+      const report = calculateTaxReport([investment(twoLots())], {
+        year: 2024,
+        currency: "EUR",
+        method: "fifo",
+        getRate: noRates,
+      });
+
+      expect(report.realizedGains).toHaveLength(2);
+      const [first, second] = report.realizedGains;
+      expect(first.acquired_date).toBe("2023-01-10");
+      expect(first.quantity).toBe(10);
+      expect(first.cost_basis).toBeCloseTo(1010);
+      expect(first.proceeds).toBeCloseTo(1490);
+      expect(first.gain).toBeCloseTo(480);
+      expect(second.acquired_date).toBe("2023-06-01");
+      expect(second.quantity).toBe(5);
+      expect(second.cost_basis).toBeCloseTo(600);
+      expect(second.proceeds).toBeCloseTo(745);
+      expect(second.gain).toBeCloseTo(145);
+
+      expect(report.totals.proceeds).toBeCloseTo(2235);
+      expect(report.totals.costBasis).toBeCloseTo(1610);
+      expect(report.totals.realizedGains).toBeCloseTo(625);
+      expect(report.missingRates).toBe(false);
+    });
+
+    it("lets sells of earlier years use up lots without reporting them", () => {
+      const report = calculateTaxReport(
+        [
+          investment([
+            tx("buy", "2023-01-10", { quantity: 10, price: 100 }),
+            tx("buy", "2023-06-01", { quantity: 10, price: 120 }),
+            tx("sell", "2023-09-01", { quantity: 5, price: 110 }),
+            tx("sell", "2024-03-01", { quantity: 10, price: 150 }),
+          ]),
+        ],
+        { year: 2024, currency: "EUR", method: "fifo", getRate: noRates },
+      );
+
+      expect(
+        report.realizedGains.map((row) => [row.acquired_date, row.quantity]),
+      ).toEqual([
+        ["2023-01-10", 5],
+        ["2023-06-01", 5],
+      ]);
+      expect(report.totals.costBasis).toBeCloseTo(1100);
+      expect(report.totals.realizedGains).toBeCloseTo(400);
+    });
+
+    it("ignores units sold beyond what the ledger holds", () => {
+      const report = calculateTaxReport(
+        [
+          investment([
+            tx("buy", "2024-01-10", { quantity: 2, price: 100 }),
+            tx("sell", "2024-03-01", { quantity: 5, price: 150 }),
+          ]),
+        ],
+        { year: 2024, currency: "EUR", method: "fifo", getRate: noRates },
+      );
+
+      expect(report.realizedGains).toHaveLength(1);
+      expect(report.realizedGains[0].quantity).toBe(2);
+      expect(report.totals.realizedGains).toBeCloseTo(100);
+    });
+  });
+
+  describe("year boundaries", () => {
+    // Local dates as west of UTC, where a date-only string parses to the
+    // evening before
+    beforeEach(() => {
+      jest.spyOn(Date.prototype, "getFullYear").mockImplementation(function (
+        this: Date,
+      ) {
+        return new Date(this.getTime() - 5 * 60 * 60 * 1000).getUTCFullYear();
+      });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    const newYearSell = () =>
+      investment([
+        tx("buy", "2023-06-01", { quantity: 10, price: 100 }),
+        tx("sell", "2024-01-01", { quantity: 10, price: 150 }),
+        tx("dividend", "2023-12-31", { amount: 20 }),
+      ]);
+
+    it("reports a sell on New Year's Day in its own year", () => {
+      const report = calculateTaxReport([newYearSell()], {
+        year: 2024,
+        currency: "EUR",
+        method: "fifo",
+        getRate: noRates,
+      });
+
+      expect(report.realizedGains).toHaveLength(1);
+      expect(report.realizedGains[0].sold_date).toBe("2024-01-01");
+      expect(report.income).toHaveLength(0);
+    });
+
+    it("leaves it out of the year before", () => {
+      const report = calculateTaxReport([newYearSell()], {
+        year: 2023,
+        currency: "EUR",
+        method: "fifo",
+        getRate: noRates,
+      });
+
+      expect(report.realizedGains).toHaveLength(0);
+      expect(report.income).toHaveLength(1);
+    });
+  });
+
+  describe("average cost", () => {
+    it("pools every lot at its average cost", () => {
+      const report = calculateTaxReport([investment(twoLots())], {
+        year: 2024,
+        currency: "EUR",
+        method: "average",
+        getRate: noRates,
+      });
+
+      expect(report.realizedGains).toHaveLength(1);
+      const [row] = report.realizedGains;
+      expect(row.acquired_date).toBeNull();
+      expect(row.quantity).toBe(15);
+      expect(row.cost_basis).toBeCloseTo(1657.5);
+      expect(row.proceeds).toBeCloseTo(2235);
+      expect(row.gain).toBeCloseTo(577.5);
+    });
+
+    it("keeps the average of the remaining units after a sell", () => {
+      const report = calculateTaxReport(
+        [
+          investment([
+            ...twoLots(),
+            tx("buy", "2024-04-01", { quantity: 5, price: 200 }),
+            tx("sell", "2024-05-01", { quantity: 10, price: 200 }),
+          ]),
+        ],
+        { year: 2024, currency: "EUR", method: "average", getRate: noRates },
+      );
+
+      // 5 units left at 110.5 plus 5 bought at 200
+      const last = report.realizedGains[report.realizedGains.length - 1];
+      expect(last.quantity).toBe(10);
+      expect(last.cost_basis).toBeCloseTo(1552.5);
+    });
+  });
+
+  describe("currency gains", () => {
+    const rates: Record<string, number> = {
+      "2024-01-02": 0.9,
+      "2024-06-03": 1,
+      "2024-07-01": 0.95,
+    };
+    const getRate: TaxRateResolver = (currency, date) =>
+      currency === "USD" ? (rates[date] ?? null) : null;
+
+    it("splits the converted gain into price and currency gains", () => {
+      const report = calculateTaxReport(
+        [
+          investment(
+            [
+              tx("buy", "2024-01-02", { quantity: 10, price: 100 }),
+              tx("sell", "2024-06-03", { quantity: 10, price: 110 }),
+            ],
+            "USD",
+          ),
+        ],
+        { year: 2024, currency: "EUR", method: "fifo", getRate },
+      );
+
+      const [row] = report.realizedGains;
+      expect(row.gain).toBeCloseTo(100);
+      expect(row.cost_basis_converted).toBeCloseTo(900);
+      expect(row.proceeds_converted).toBeCloseTo(1100);
+      expect(row.gain_converted).toBeCloseTo(200);
+      expect(row.currency_gain).toBeCloseTo(100);
+      expect(report.totals.currencyGains).toBeCloseTo(100);
+      expect(report.missingRates).toBe(false);
+    });
+
+    it("converts at a rate of 1 and flags the report when a rate is missing", () => {
+      const report = calculateTaxReport(
+        [
+          investment(
+            [
+              tx("buy", "2024-01-02", { quantity: 10, price: 100 }),
+              tx("sell", "2024-08-15", { quantity: 10, price: 110 }),
+            ],
+            "USD",
+          ),
+        ],
+        { year: 2024, currency: "EUR", method: "fifo", getRate },
+      );
+
+      expect(report.missingRates).toBe(true);
+      expect(report.realizedGains[0].proceeds_converted).toBeCloseTo(1100);
+    });
+
+    it("converts income at the rate of its payment date", () => {
+      const report = calculateTaxReport(
+        [
+          investment(
+            [
+              tx("buy", "2024-01-02", { quantity: 10, price: 100 }),
+              tx("dividend", "2024-07-01", {
+                amount: 40,
+                withholding_tax: 6,
+              }),
+            ],
+            "USD",
+          ),
+        ],
+        { year: 2024, currency: "EUR", method: "fifo", getRate },
+      );
+
+      const [row] = report.income;
+      expect(row.gross_converted).toBeCloseTo(38);
+      expect(row.withholding_converted).toBeCloseTo(5.7);
+      expect(row.net_converted).toBeCloseTo(32.3);
+    });
+  });
+
+  describe("income and withholding", () => {
+    it("reports dividends of the year with the tax withheld at source", () => {
+      const report = calculateTaxReport(
+        [
+          investment([
+            tx("buy", "2023-01-10", { quantity: 10, price: 100 }),
+            tx("dividend", "2023-12-01", { amount: 20, withholding_tax: 3 }),
+            tx("dividend", "2024-06-01", { amount: 30, withholding_tax: 4.5 }),
+          ]),
+        ],
+        { year: 2024, currency: "EUR", method: "fifo", getRate: noRates },
+      );
+
+      expect(report.income).toHaveLength(1);
+      const [row] = report.income;
+      expect(row.kind).toBe("dividend");
+      expect(row.gross).toBe(30);
+      expect(row.withholding).toBe(4.5);
+      expect(row.net).toBeCloseTo(25.5);
+      expect(report.totals.dividends).toBeCloseTo(30);
+      expect(report.totals.interest).toBe(0);
+      expect(report.totals.withholding).toBeCloseTo(4.5);
+    });
+
+    it("reports payouts of interest-bearing holdings as interest", () => {
+      const report = calculateTaxReport(
+        [
+          investment(
+            [
+              tx("buy", "2024-01-10", { quantity: 1, price: 1000 }),
+              tx("dividend", "2024-06-01", { amount: 25, withholding_tax: 5 }),
+            ],
+            "EUR",
+            "bond",
+          ),
+        ],
+        { year: 2024, currency: "EUR", method: "fifo", getRate: noRates },
+      );
+
+      expect(report.income[0].kind).toBe("interest");
+      expect(report.totals.interest).toBeCloseTo(25);
+      expect(report.totals.dividends).toBe(0);
+      expect(report.totals.withholding).toBeCloseTo(5);
+    });
+
+    it("adds up standalone fees paid during the year", () => {
+      const report = calculateTaxReport(
+        [
+          investment([
+            tx("buy", "2023-01-10", { quantity: 10, price: 100 }),
+            tx("fee", "2023-12-01", { amount: 7 }),
+            tx("fee", "2024-03-01", { amount: 12 }),
+          ]),
+        ],
+        { year: 2024, currency: "EUR", method: "fifo", getRate: noRates },
+      );
+
+      expect(report.totals.fees).toBeCloseTo(12);
+    });
+  });
+});
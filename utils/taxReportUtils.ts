@@ -0,0 +1,485 @@
+import {
+  InvestmentTransaction,
+  InvestmentWithDecryptedData,
+} from "@/types/investment";
+import {
+  getInvestmentTransactions,
+  isInterestInvestment,
+} from "@/utils/investmentUtils";
+
+export type CostBasisMethod = "fifo" | "average";
+
+export const COST_BASIS_METHODS: CostBasisMethod[] = ["fifo", "average"];
+
+/**
+ * Units of the report currency one unit of `currency` was worth on `date`
+ * (YYYY-MM-DD), or null when unknown
+ */
+export type TaxRateResolver = (currency: string, date: string) => number | null;
+
+export type RealizedGainRow = {
+  investment_id: string;
+  name: string;
+  symbol: string | null;
+  currency: string;
+  sell_transaction_id: string;
+  acquired_date: string | null; // Null for average cost, where lots are pooled
+  sold_date: string;
+  quantity: number;
+  proceeds: number; // Net of the sell fees, in the investment currency
+  cost_basis: number; // Buy fees included, in the investment currency
+  gain: number;
+  proceeds_converted: number; // In the report currency at the sell rate
+  cost_basis_converted: number; // In the report currency at the buy rates
+  gain_converted: number;
+  currency_gain: number; // Part of the converted gain caused by the rate change
+};
+
+export type IncomeRow = {
+  investment_id: string;
+  name: string;
+  symbol: string | null;
+  currency: string;
+  transaction_id: string;
+  date: string;
+  kind: "dividend" | "interest";
+  gross: number; // In the investment currency
+  withholding: number;
+  net: number;
+  gross_converted: number; // In the report currency
+  withholding_converted: number;
+  net_converted: number;
+};
+
+export type TaxReportTotals = {
+  proceeds: number;
+  costBasis: number;
+  realizedGains: number; // Currency gains included
+  currencyGains: number;
+  dividends: number; // Gross
+  interest: number; // Gross
+  withholding: number;
+  fees: number; // Standalone fees paid during the year
+};
+
+export type TaxReport = {
+  year: number;
+  currency: string;
+  method: CostBasisMethod;
+  realizedGains: RealizedGainRow[];
+  income: IncomeRow[];
+  totals: TaxReportTotals;
+  missingRates: boolean; // Some amounts were converted at a rate of 1
+};
+
+export type TaxReportOptions = {
+  year: number;
+  currency: string;
+  method: CostBasisMethod;
+  getRate: TaxRateResolver;
+};
+
+type TaxLot = {
+  date: string;
+  quantity: number;
+  unit_cost: number;
+  unit_cost_converted: number;
+};
+
+const toDay = (date: string) => date.split("T")[0];
+
+// Year of the calendar day as written, whatever the device's time zone
+const getYear = (date: string) => Number(toDay(date).slice(0, 4));
+
+const isInYear = (date: string, year: number) => getYear(date) === year;
+
+/**
+ * Currency and days whose exchange rates a tax report for `year` may need,
+ * so they can be fetched before calling `calculateTaxReport`
+ */
+export const getTaxReportRateDates = (
+  investments: InvestmentWithDecryptedData[],
+  year: number,
+  currency: string,
+): { currency: string; date: string }[] => {
+  const needed = new Map<string, { currency: string; date: string }>();
+
+  investments.forEach((investment) => {
+    const investmentCurrency = investment.data.currency || currency;
+    if (investmentCurrency === currency) return;
+
+    getInvestmentTransactions(investment.data)
+      .filter((transaction) => getYear(transaction.date) <= year)
+      .forEach((transaction) => {
+        const date = toDay(transaction.date);
+        needed.set(`${investmentCurrency}|${date}`, {
+          currency: investmentCurrency,
+          date,
+        });
+      });
+  });
+
+  return [...needed.values()];
+};
+
+/**
+ * Realized gains, dividends, interest, withholding and fees of one fiscal
+ * year. The whole ledger is replayed so lots bought in earlier years are
+ * matched to this year's sells, either oldest first (FIFO) or at the average
+ * cost of everything held.
+ */
+export const calculateTaxReport = (
+  investments: InvestmentWithDecryptedData[],
+  { year, currency, method, getRate }: TaxReportOptions,
+): TaxReport => {
+  const realizedGains: RealizedGainRow[] = [];
+  const income: IncomeRow[] = [];
+  let fees = 0;
+  let missingRates = false;
+
+  investments.forEach((investment) => {
+    const investmentCurrency = investment.data.currency || currency;
+    const isInterest = isInterestInvestment(investment.data.type);
+    const lots: TaxLot[] = [];
+
+    const rateOn = (transaction: InvestmentTransaction) => {
+      if (investmentCurrency === currency) return 1;
+      const rate = getRate(investmentCurrency, toDay(transaction.date));
+      if (rate === null) {
+        missingRates = true;
+        return 1;
+      }
+      return rate;
+    };
+
+    const addGain = (
+      transaction: InvestmentTransaction,
+      lot: TaxLot,
+      quantity: number,
+      proceeds: number,
+      rate: number,
+    ) => {
+      const costBasis = quantity * lot.unit_cost;
+      const costBasisConverted = quantity * lot.unit_cost_converted;
+      const proceedsConverted = proceeds * rate;
+      const gain = proceeds - costBasis;
+      const gainConverted = proceedsConverted - costBasisConverted;
+      realizedGains.push({
+        investment_id: investment.id,
+        name: investment.data.name,
+        symbol: investment.data.symbol,
+        currency: investmentCurrency,
+        sell_transaction_id: transaction.id,
+        acquired_date: method === "fifo" ? toDay(lot.date) : null,
+        sold_date: toDay(transaction.date),
+        quantity,
+        proceeds,
+        cost_basis: costBasis,
+        gain,
+        proceeds_converted: proceedsConverted,
+        cost_basis_converted: costBasisConverted,
+        gain_converted: gainConverted,
+        currency_gain: gainConverted - gain * rate,
+      });
+    };
+
+    for (const transaction of getInvestmentTransactions(investment.data)) {
+      if (getYear(transaction.date) > year) break;
+
+      const quantity = Math.max(transaction.quantity || 0, 0);
+      const price = transaction.price || 0;
+      const transactionFees = transaction.fees || 0;
+
+      switch (transaction.type) {
+        case "buy": {
+          if (quantity === 0) break;
+          const unitCost = (quantity * price + transactionFees) / quantity;
+          const unitCostConverted = unitCost * rateOn(transaction);
+
+          if (method === "average" && lots.length > 0) {
+            const pool = lots[0];
+            const total = pool.quantity + quantity;
+            pool.unit_cost =
+              (pool.quantity * pool.unit_cost + quantity * unitCost) / total;
+            pool.unit_cost_converted =
+              (pool.quantity * pool.unit_cost_converted +
+                quantity * unitCostConverted) /
+              total;
+            pool.quantity = total;
+          } else {
+            lots.push({
+              date: transaction.date,
+              quantity,
+              unit_cost: unitCost,
+              unit_cost_converted: unitCostConverted,
+            });
+          }
+          break;
+        }
+        case "sell": {
+          const reportable = isInYear(transaction.date, year);
+          const rate = reportable ? rateOn(transaction) : 1;
+          // Units sold beyond what the ledger holds are ignored
+          const sellable = Math.min(
+            quantity,
+            lots.reduce((sum, lot) => sum + lot.quantity, 0),
+          );
+          let remaining = sellable;
+
+          while (remaining > 1e-9 && lots.length > 0) {
+            const lot = lots[0];
+            const used = Math.min(lot.quantity, remaining);
+            if (reportable) {
+              // Sell fees are shared by the lots in proportion to their units
+              const proceeds =
+                used * price - (transactionFees * used) / sellable;
+              addGain(transaction, lot, used, proceeds, rate);
+            }
+            lot.quantity -= used;
+            remaining -= used;
+            if (lot.quantity <= 1e-9) lots.shift();
+          }
+          break;
+        }
+        case "dividend": {
+          if (!isInYear(transaction.date, year)) break;
+          const gross = transaction.amount || 0;
+          const withholding = transaction.withholding_tax || 0;
+          const rate = rateOn(transaction);
+          income.push({
+            investment_id: investment.id,
+            name: investment.data.name,
+            symbol: investment.data.symbol,
+            currency: investmentCurrency,
+            transaction_id: transaction.id,
+            date: toDay(transaction.date),
+            kind: isInterest ? "interest" : "dividend",
+            gross,
+            withholding,
+            net: gross - withholding,
+            gross_converted: gross * rate,
+            withholding_converted: withholding * rate,
+            net_converted: (gross - withholding) * rate,
+          });
+          break;
+        }
+        case "fee":
+          if (isInYear(transaction.date, year)) {
+            fees += (transaction.amount || 0) * rateOn(transaction);
+          }
+          break;
+      }
+    }
+  });
+
+  realizedGains.sort((a, b) => a.sold_date.localeCompare(b.sold_date));
+  income.sort((a, b) => a.date.localeCompare(b.date));
+
+  const sum = <T>(rows: T[], value: (row: T) => number) =>
+    rows.reduce((total, row) => total + value(row), 0);
+
+  return {
+    year,
+    currency,
+    method,
+    realizedGains,
+    income,
+    totals: {
+      proceeds: sum(realizedGains, (row) => row.proceeds_converted),
+      costBasis: sum(realizedGains, (row) => row.cost_basis_converted),
+      realizedGains: sum(realizedGains, (row) => row.gain_converted),
+      currencyGains: sum(realizedGains, (row) => row.currency_gain),
+      dividends: sum(
+        income.filter((row) => row.kind === "dividend"),
+        (row) => row.gross_converted,
+      ),
+      interest: sum(
+        income.filter((row) => row.kind === "interest"),
+        (row) => row.gross_converted,
+      ),
+      withholding: sum(income, (row) => row.withholding_converted),
+      fees,
+    },
+    missingRates,
+  };
+};
+
+const escapeCsv = (value: string | number | null) => {
+  const text = value === null ? "" : String(value);
+  return /[",\n;]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const formatAmount = (value: number) => value.toFixed(2);
+
+/**
+ * Realized gains and income of a report as CSV, one section after the other
+ */
+export const buildTaxReportCsv = (
+  report: TaxReport,
+  t: (key: string, options?: any) => string,
+): string => {
+  const lines: (string | number | null)[][] = [
+    [t("taxReport.realizedGains")],
+    [
+      t("taxReport.columns.name"),
+      t("taxReport.columns.symbol"),
+      t("taxReport.columns.acquired"),
+      t("taxReport.columns.sold"),
+      t("taxReport.columns.quantity"),
+      t("taxReport.columns.currency"),
+      t("taxReport.columns.proceeds"),
+      t("taxReport.columns.costBasis"),
+      t("taxReport.columns.gain"),
+      t("taxReport.columns.proceedsIn", { currency: report.currency }),
+      t("taxReport.columns.costBasisIn", { currency: report.currency }),
+      t("taxReport.columns.gainIn", { currency: report.currency }),
+      t("taxReport.columns.currencyGain"),
+    ],
+    ...report.realizedGains.map((row) => [
+      row.name,
+      row.symbol,
+      row.acquired_date ?? t("taxReport.averageCost"),
+      row.sold_date,
+      row.quantity,
+      row.currency,
+      formatAmount(row.proceeds),
+      formatAmount(row.cost_basis),
+      formatAmount(row.gain),
+      formatAmount(row.proceeds_converted),
+      formatAmount(row.cost_basis_converted),
+      formatAmount(row.gain_converted),
+      formatAmount(row.currency_gain),
+    ]),
+    [],
+    [t("taxReport.income")],
+    [
+      t("taxReport.columns.name"),
+      t("taxReport.columns.symbol"),
+      t("taxReport.columns.date"),
+      t("taxReport.columns.kind"),
+      t("taxReport.columns.currency"),
+      t("taxReport.columns.gross"),
+      t("taxReport.columns.withholding"),
+      t("taxReport.columns.net"),
+      t("taxReport.columns.grossIn", { currency: report.currency }),
+      t("taxReport.columns.withholdingIn", { currency: report.currency }),
+      t("taxReport.columns.netIn", { currency: report.currency }),
+    ],
+    ...report.income.map((row) => [
+      row.name,
+      row.symbol,
+      row.date,
+      t(`taxReport.kinds.${row.kind}`),
+      row.currency,
+      formatAmount(row.gross),
+      formatAmount(row.withholding),
+      formatAmount(row.net),
+      formatAmount(row.gross_converted),
+      formatAmount(row.withholding_converted),
+      formatAmount(row.net_converted),
+    ]),
+  ];
+
+  return lines.map((line) => line.map(escapeCsv).join(",")).join("\n");
+};
+
+const escapeHtml = (value: string | number | null) =>
+  (value === null ? "" : String(value))
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+
+/**
+ * Printable HTML version of a report, used to produce the PDF
+ */
+export const buildTaxReportHtml = (
+  report: TaxReport,
+  t: (key: string, options?: any) => string,
+  formatMoney: (value: number, currency: string) => string,
+): string => {
+  const money = (value: number) => formatMoney(value, report.currency);
+  const table = (headers: string[], rows: (string | number | null)[][]) =>
+    `<table><thead><tr>${headers
+      .map((header) => `<th>${escapeHtml(header)}</th>`)
+      .join("")}</tr></thead><tbody>${rows
+      .map(
+        (row) =>
+          `<tr>${row.map((cell) => `<td>${escapeHtml(cell)}</td>`).join("")}</tr>`,
+      )
+      .join("")}</tbody></table>`;
+
+  const summary: [string, number][] = [
+    [t("taxReport.totals.proceeds"), report.totals.proceeds],
+    [t("taxReport.totals.costBasis"), report.totals.costBasis],
+    [t("taxReport.totals.realizedGains"), report.totals.realizedGains],
+    [t("taxReport.totals.currencyGains"), report.totals.currencyGains],
+    [t("taxReport.totals.dividends"), report.totals.dividends],
+    [t("taxReport.totals.interest"), report.totals.interest],
+    [t("taxReport.totals.withholding"), report.totals.withholding],
+    [t("taxReport.totals.fees"), report.totals.fees],
+  ];
+
+  return `<html><head><meta charset="utf-8" /><style>
+body { font-family: -apple-system, Helvetica, Arial, sans-serif; font-size: 11px; color: #222; }
+h1 { font-size: 18px; } h2 { font-size: 14px; margin-top: 24px; }
+table { width: 100%; border-collapse: collapse; }
+th, td { border-bottom: 1px solid #ddd; padding: 4px; text-align: left; }
+.note { color: #777; }
+</style></head><body>
+<h1>${escapeHtml(t("taxReport.pdfTitle", { year: report.year }))}</h1>
+<p class="note">${escapeHtml(
+    t("taxReport.pdfSubtitle", {
+      currency: report.currency,
+      method: t(`taxReport.methods.${report.method}`),
+    }),
+  )}</p>
+${report.missingRates ? `<p class="note">${escapeHtml(t("taxReport.missingRates"))}</p>` : ""}
+<h2>${escapeHtml(t("taxReport.summary"))}</h2>
+${table(
+  [t("taxReport.columns.item"), t("taxReport.columns.amount")],
+  summary.map(([label, value]) => [label, money(value)]),
+)}
+<h2>${escapeHtml(t("taxReport.realizedGains"))}</h2>
+${table(
+  [
+    t("taxReport.columns.name"),
+    t("taxReport.columns.acquired"),
+    t("taxReport.columns.sold"),
+    t("taxReport.columns.quantity"),
+    t("taxReport.columns.proceeds"),
+    t("taxReport.columns.costBasis"),
+    t("taxReport.columns.gain"),
+    t("taxReport.columns.currencyGain"),
+  ],
+  report.realizedGains.map((row) => [
+    row.symbol ? `${row.name} (${row.symbol})` : row.name,
+    row.acquired_date ?? t("taxReport.averageCost"),
+    row.sold_date,
+    row.quantity,
+    money(row.proceeds_converted),
+    money(row.cost_basis_converted),
+    money(row.gain_converted),
+    money(row.currency_gain),
+  ]),
+)}
+<h2>${escapeHtml(t("taxReport.income"))}</h2>
+${table(
+  [
+    t("taxReport.columns.name"),
+    t("taxReport.columns.date"),
+    t("taxReport.columns.kind"),
+    t("taxReport.columns.gross"),
+    t("taxReport.columns.withholding"),
+    t("taxReport.columns.net"),
+  ],
+  report.income.map((row) => [
+    row.symbol ? `${row.name} (${row.symbol})` : row.name,
+    row.date,
+    t(`taxReport.kinds.${row.kind}`),
+    money(row.gross_converted),
+    money(row.withholding_converted),
+    money(row.net_converted),
+  ]),
+)}
+</body></html>`;
+};
@@ -0,0 +1,87 @@
+import {
+  ExpenseData,
+  ExpenseGroupWithDecryptedData,
+  ExpenseWithDecryptedData,
+} from "@/types/expense";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+// Choices offered for a group's trash, 0 keeps deleted expenses until emptied
+export const TRASH_RETENTION_OPTIONS = [7, 30, 90, 365, 0];
+
+export const isExpenseTrashed = (expense: ExpenseWithDecryptedData) =>
+  expense.data.status === "deleted";
+
+export const getTrashRetentionDays = (group?: ExpenseGroupWithDecryptedData) =>
+  group?.data?.trash_retention_days ?? DEFAULT_TRASH_RETENTION_DAYS;
+
+/**
+ * Moves an expense to the trash. It keeps its data, so bank sync still
+ * recognises the transaction, but is hidden from lists and totals.
+ */
+export const trashExpenseData = (data: ExpenseData): ExpenseData => ({
+  ...data,
+  status: "deleted",
+  deleted_at: new Date().toISOString(),
+});
+
+export const restoreExpenseData = (data: ExpenseData): ExpenseData => ({
+  ...data,
+  status: undefined,
+  deleted_at: undefined,
+});
+
+/**
+ * When a trashed expense is purged for good. Expenses trashed before the
+ * trash existed have no deletion date and never expire until one is stamped.
+ */
+export const getTrashExpiry = (
+  expense: ExpenseWithDecryptedData,
+  retentionDays: number,
+): Date | null => {
+  if (!retentionDays || !expense.data.deleted_at) return null;
+  const trashedAt = new Date(expense.data.deleted_at);
+  if (isNaN(trashedAt.getTime())) return null;
+  return new Date(trashedAt.getTime() + retentionDays * DAY_MS);
+};
+
+/**
+ * Trashed expenses without a deletion date, so their retention can start now
+ */
+export const getUnstampedTrash = (
+  expenses: ExpenseWithDecryptedData[],
+): ExpenseWithDecryptedData[] =>
+  expenses.filter(
+    (expense) => isExpenseTrashed(expense) && !expense.data.deleted_at,
+  );
+
+/**
+ * Trashed expenses of a group that have outlived its retention period
+ */
+export const getExpiredTrash = (
+  expenses: ExpenseWithDecryptedData[],
+  retentionDays: number,
+  now: Date = new Date(),
+): ExpenseWithDecryptedData[] =>
+  expenses.filter((expense) => {
+    if (!isExpenseTrashed(expense)) return false;
+    const expiry = getTrashExpiry(expense, retentionDays);
+    return expiry !== null && expiry <= now;
+  });
+
+/**
+ * Bank transaction ids that must not be imported again: the ones still
+ * held by an expense and the tombstones of purged expenses
+ */
+export const getKnownTransactionIds = (
+  groups: ExpenseGroupWithDecryptedData[],
+): Set<string> =>
+  new Set([
+    ...groups
+      .flatMap((group) => group.expenses)
+      .map((expense) => expense.data.external_transaction_id)
+      .filter((id): id is string => Boolean(id)),
+    ...groups.flatMap((group) => group.data?.deleted_transaction_ids || []),
+  ]);